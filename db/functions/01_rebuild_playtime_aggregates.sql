@@ -0,0 +1,49 @@
+CREATE OR REPLACE FUNCTION public.rebuild_playtime_aggregates(p_player_minecraft_uuid uuid, p_server_id integer)
+ RETURNS integer
+ LANGUAGE plpgsql
+AS $function$
+DECLARE
+    v_sessions INTEGER;
+BEGIN
+    -- Recomputes the playtime aggregates of a player, a server or everything
+    -- (NULL = no filter) from player_session. Run inside a transaction: rows
+    -- in scope are deleted and every ended session is replayed through
+    -- update_playtime_aggregates, so the result matches the trigger exactly.
+
+    -- Block session writes until the transaction ends so no session is
+    -- counted twice or missed while the aggregates are rebuilt
+    LOCK TABLE player_session IN EXCLUSIVE MODE;
+
+    DELETE FROM player_playtime_daily
+    WHERE (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    DELETE FROM player_playtime_dimension_daily
+    WHERE (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    DELETE FROM player_playtime_hourly
+    WHERE (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    DELETE FROM player_playtime_summary
+    WHERE (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    -- Setting session_end to itself fires trigger_update_playtime_aggregates,
+    -- which only counts ended sessions again while playtime.rebuilding is on
+    PERFORM set_config('playtime.rebuilding', 'on', true);
+
+    UPDATE player_session
+    SET session_end = session_end
+    WHERE session_end IS NOT NULL
+      AND (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    GET DIAGNOSTICS v_sessions = ROW_COUNT;
+
+    PERFORM set_config('playtime.rebuilding', 'off', true);
+
+    RETURN v_sessions;
+END;
+$function$;
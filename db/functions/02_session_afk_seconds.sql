@@ -0,0 +1,14 @@
+CREATE OR REPLACE FUNCTION public.session_afk_seconds(p_session_id integer, p_range_start timestamp with time zone, p_range_end timestamp with time zone)
+ RETURNS bigint
+ LANGUAGE sql
+ STABLE
+AS $function$
+    -- Seconds a session spent AFK within [p_range_start, p_range_end)
+    SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (
+        LEAST(afk_end, p_range_end) - GREATEST(afk_start, p_range_start)
+    ))), 0)::BIGINT
+    FROM player_session_afk
+    WHERE session_id = p_session_id
+      AND afk_start < p_range_end
+      AND afk_end > p_range_start;
+$function$;
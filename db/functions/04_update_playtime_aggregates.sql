@@ -14,6 +14,18 @@ BEGIN
         RETURN NEW;
     END IF;
 
+    -- A session is only counted once, when it ends. Later edits of an ended
+    -- session are applied by rebuild_playtime_aggregates, which sets
+    -- playtime.rebuilding to replay sessions through this trigger
+    IF TG_OP = 'UPDATE'
+       AND OLD.session_end IS NOT NULL
+       AND current_setting('playtime.rebuilding', true) IS DISTINCT FROM 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    -- AFK intervals (player_session_afk) are excluded from all aggregates;
+    -- seconds_played already has the session's AFK time subtracted
+
     -- Update daily aggregate
     v_play_date := NEW.session_start::DATE;
     
@@ -27,10 +39,39 @@ BEGIN
             EXTRACT(EPOCH FROM (
                 LEAST(NEW.session_end, (v_play_date + INTERVAL '1 day')::TIMESTAMP WITH TIME ZONE) -
                 GREATEST(NEW.session_start, v_play_date::TIMESTAMP WITH TIME ZONE)
-            ))::BIGINT
+            ))::BIGINT - session_afk_seconds(
+                NEW.id,
+                v_play_date::TIMESTAMP WITH TIME ZONE,
+                (v_play_date + INTERVAL '1 day')::TIMESTAMP WITH TIME ZONE
+            )
         )
         ON CONFLICT (player_minecraft_uuid, server_id, play_date)
         DO UPDATE SET seconds_played = player_playtime_daily.seconds_played + EXCLUDED.seconds_played;
+
+        -- Per-dimension daily aggregate, from the session's dimension intervals
+        INSERT INTO player_playtime_dimension_daily (player_minecraft_uuid, server_id, play_date, dimension, seconds_played)
+        SELECT
+            NEW.player_minecraft_uuid,
+            NEW.server_id,
+            v_play_date,
+            d.dimension,
+            SUM(
+                EXTRACT(EPOCH FROM (d.clip_end - d.clip_start))::BIGINT
+                - session_afk_seconds(NEW.id, d.clip_start, d.clip_end)
+            )
+        FROM (
+            SELECT
+                dimension,
+                GREATEST(dimension_start, v_play_date::TIMESTAMP WITH TIME ZONE) AS clip_start,
+                LEAST(dimension_end, (v_play_date + INTERVAL '1 day')::TIMESTAMP WITH TIME ZONE) AS clip_end
+            FROM player_session_dimension
+            WHERE session_id = NEW.id
+              AND dimension_start < (v_play_date + INTERVAL '1 day')::TIMESTAMP WITH TIME ZONE
+              AND dimension_end > v_play_date::TIMESTAMP WITH TIME ZONE
+        ) d
+        GROUP BY d.dimension
+        ON CONFLICT (player_minecraft_uuid, server_id, play_date, dimension)
+        DO UPDATE SET seconds_played = player_playtime_dimension_daily.seconds_played + EXCLUDED.seconds_played;
         
         v_play_date := v_play_date + 1;
     END LOOP;
@@ -41,7 +82,8 @@ BEGIN
     WHILE v_current_hour < NEW.session_end LOOP
         v_hour_start := GREATEST(NEW.session_start, v_current_hour);
         v_hour_end := LEAST(NEW.session_end, v_current_hour + INTERVAL '1 hour');
-        v_seconds_in_hour := EXTRACT(EPOCH FROM (v_hour_end - v_hour_start))::BIGINT;
+        v_seconds_in_hour := EXTRACT(EPOCH FROM (v_hour_end - v_hour_start))::BIGINT
+            - session_afk_seconds(NEW.id, v_hour_start, v_hour_end);
         
         INSERT INTO player_playtime_hourly (player_minecraft_uuid, server_id, play_hour, seconds_played)
         VALUES (NEW.player_minecraft_uuid, NEW.server_id, v_current_hour, v_seconds_in_hour)
@@ -0,0 +1,29 @@
+CREATE OR REPLACE FUNCTION public.update_server_online_hourly()
+ RETURNS trigger
+ LANGUAGE plpgsql
+AS $function$
+BEGIN
+    -- Raw samples are pruned after a while; the hourly rollup keeps the
+    -- average and peak of every hour
+    INSERT INTO server_online_hourly (server_id, sample_hour, sample_count, player_count_sum, peak_players, peak_at)
+    VALUES (
+        NEW.server_id,
+        DATE_TRUNC('hour', NEW.sampled_at),
+        1,
+        NEW.player_count,
+        NEW.player_count,
+        NEW.sampled_at
+    )
+    ON CONFLICT (server_id, sample_hour)
+    DO UPDATE SET
+        sample_count = server_online_hourly.sample_count + 1,
+        player_count_sum = server_online_hourly.player_count_sum + EXCLUDED.player_count_sum,
+        peak_at = CASE
+            WHEN EXCLUDED.peak_players > server_online_hourly.peak_players THEN EXCLUDED.peak_at
+            ELSE server_online_hourly.peak_at
+        END,
+        peak_players = GREATEST(server_online_hourly.peak_players, EXCLUDED.peak_players);
+
+    RETURN NEW;
+END;
+$function$;
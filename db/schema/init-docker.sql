@@ -51,6 +51,78 @@ END;
 $$;
 
 
+--
+-- Name: rebuild_playtime_aggregates(uuid, integer); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.rebuild_playtime_aggregates(p_player_minecraft_uuid uuid, p_server_id integer) RETURNS integer
+    LANGUAGE plpgsql
+    AS $$
+DECLARE
+    v_sessions INTEGER;
+BEGIN
+    -- Recomputes the playtime aggregates of a player, a server or everything
+    -- (NULL = no filter) from player_session. Run inside a transaction: rows
+    -- in scope are deleted and every ended session is replayed through
+    -- update_playtime_aggregates, so the result matches the trigger exactly.
+
+    -- Block session writes until the transaction ends so no session is
+    -- counted twice or missed while the aggregates are rebuilt
+    LOCK TABLE player_session IN EXCLUSIVE MODE;
+
+    DELETE FROM player_playtime_daily
+    WHERE (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    DELETE FROM player_playtime_dimension_daily
+    WHERE (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    DELETE FROM player_playtime_hourly
+    WHERE (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    DELETE FROM player_playtime_summary
+    WHERE (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    -- Setting session_end to itself fires trigger_update_playtime_aggregates,
+    -- which only counts ended sessions again while playtime.rebuilding is on
+    PERFORM set_config('playtime.rebuilding', 'on', true);
+
+    UPDATE player_session
+    SET session_end = session_end
+    WHERE session_end IS NOT NULL
+      AND (p_player_minecraft_uuid IS NULL OR player_minecraft_uuid = p_player_minecraft_uuid)
+      AND (p_server_id IS NULL OR server_id = p_server_id);
+
+    GET DIAGNOSTICS v_sessions = ROW_COUNT;
+
+    PERFORM set_config('playtime.rebuilding', 'off', true);
+
+    RETURN v_sessions;
+END;
+$$;
+
+
+--
+-- Name: session_afk_seconds(integer, timestamp with time zone, timestamp with time zone); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.session_afk_seconds(p_session_id integer, p_range_start timestamp with time zone, p_range_end timestamp with time zone) RETURNS bigint
+    LANGUAGE sql STABLE
+    AS $$
+    -- Seconds a session spent AFK within [p_range_start, p_range_end)
+    SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (
+        LEAST(afk_end, p_range_end) - GREATEST(afk_start, p_range_start)
+    ))), 0)::BIGINT
+    FROM player_session_afk
+    WHERE session_id = p_session_id
+      AND afk_start < p_range_end
+      AND afk_end > p_range_start;
+$$;
+
+
 --
 -- Name: sync_player_online_status(); Type: FUNCTION; Schema: public; Owner: -
 --
@@ -107,6 +179,18 @@ BEGIN
         RETURN NEW;
     END IF;
 
+    -- A session is only counted once, when it ends. Later edits of an ended
+    -- session are applied by rebuild_playtime_aggregates, which sets
+    -- playtime.rebuilding to replay sessions through this trigger
+    IF TG_OP = 'UPDATE'
+       AND OLD.session_end IS NOT NULL
+       AND current_setting('playtime.rebuilding', true) IS DISTINCT FROM 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    -- AFK intervals (player_session_afk) are excluded from all aggregates;
+    -- seconds_played already has the session's AFK time subtracted
+
     -- Update daily aggregate
     v_play_date := NEW.session_start::DATE;
     
@@ -120,10 +204,39 @@ BEGIN
             EXTRACT(EPOCH FROM (
                 LEAST(NEW.session_end, (v_play_date + INTERVAL '1 day')::TIMESTAMP WITH TIME ZONE) -
                 GREATEST(NEW.session_start, v_play_date::TIMESTAMP WITH TIME ZONE)
-            ))::BIGINT
+            ))::BIGINT - session_afk_seconds(
+                NEW.id,
+                v_play_date::TIMESTAMP WITH TIME ZONE,
+                (v_play_date + INTERVAL '1 day')::TIMESTAMP WITH TIME ZONE
+            )
         )
         ON CONFLICT (player_minecraft_uuid, server_id, play_date)
         DO UPDATE SET seconds_played = player_playtime_daily.seconds_played + EXCLUDED.seconds_played;
+
+        -- Per-dimension daily aggregate, from the session's dimension intervals
+        INSERT INTO player_playtime_dimension_daily (player_minecraft_uuid, server_id, play_date, dimension, seconds_played)
+        SELECT
+            NEW.player_minecraft_uuid,
+            NEW.server_id,
+            v_play_date,
+            d.dimension,
+            SUM(
+                EXTRACT(EPOCH FROM (d.clip_end - d.clip_start))::BIGINT
+                - session_afk_seconds(NEW.id, d.clip_start, d.clip_end)
+            )
+        FROM (
+            SELECT
+                dimension,
+                GREATEST(dimension_start, v_play_date::TIMESTAMP WITH TIME ZONE) AS clip_start,
+                LEAST(dimension_end, (v_play_date + INTERVAL '1 day')::TIMESTAMP WITH TIME ZONE) AS clip_end
+            FROM player_session_dimension
+            WHERE session_id = NEW.id
+              AND dimension_start < (v_play_date + INTERVAL '1 day')::TIMESTAMP WITH TIME ZONE
+              AND dimension_end > v_play_date::TIMESTAMP WITH TIME ZONE
+        ) d
+        GROUP BY d.dimension
+        ON CONFLICT (player_minecraft_uuid, server_id, play_date, dimension)
+        DO UPDATE SET seconds_played = player_playtime_dimension_daily.seconds_played + EXCLUDED.seconds_played;
         
         v_play_date := v_play_date + 1;
     END LOOP;
@@ -134,7 +247,8 @@ BEGIN
     WHILE v_current_hour < NEW.session_end LOOP
         v_hour_start := GREATEST(NEW.session_start, v_current_hour);
         v_hour_end := LEAST(NEW.session_end, v_current_hour + INTERVAL '1 hour');
-        v_seconds_in_hour := EXTRACT(EPOCH FROM (v_hour_end - v_hour_start))::BIGINT;
+        v_seconds_in_hour := EXTRACT(EPOCH FROM (v_hour_end - v_hour_start))::BIGINT
+            - session_afk_seconds(NEW.id, v_hour_start, v_hour_end);
         
         INSERT INTO player_playtime_hourly (player_minecraft_uuid, server_id, play_hour, seconds_played)
         VALUES (NEW.player_minecraft_uuid, NEW.server_id, v_current_hour, v_seconds_in_hour)
@@ -174,6 +288,40 @@ END;
 $$;
 
 
+--
+-- Name: update_server_online_hourly(); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.update_server_online_hourly() RETURNS trigger
+    LANGUAGE plpgsql
+    AS $$
+BEGIN
+    -- Raw samples are pruned after a while; the hourly rollup keeps the
+    -- average and peak of every hour
+    INSERT INTO server_online_hourly (server_id, sample_hour, sample_count, player_count_sum, peak_players, peak_at)
+    VALUES (
+        NEW.server_id,
+        DATE_TRUNC('hour', NEW.sampled_at),
+        1,
+        NEW.player_count,
+        NEW.player_count,
+        NEW.sampled_at
+    )
+    ON CONFLICT (server_id, sample_hour)
+    DO UPDATE SET
+        sample_count = server_online_hourly.sample_count + 1,
+        player_count_sum = server_online_hourly.player_count_sum + EXCLUDED.player_count_sum,
+        peak_at = CASE
+            WHEN EXCLUDED.peak_players > server_online_hourly.peak_players THEN EXCLUDED.peak_at
+            ELSE server_online_hourly.peak_at
+        END,
+        peak_players = GREATEST(server_online_hourly.peak_players, EXCLUDED.peak_players);
+
+    RETURN NEW;
+END;
+$$;
+
+
 --
 -- Name: update_updated_at_column(); Type: FUNCTION; Schema: public; Owner: -
 --
@@ -279,6 +427,152 @@ CREATE VIEW public.admin_log_action_readable AS
   ORDER BY al.performed_at DESC;
 
 
+--
+-- Name: company; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.company (
+    id integer NOT NULL,
+    name character varying(64) NOT NULL,
+    description text,
+    owner_minecraft_uuid uuid NOT NULL,
+    balance bigint DEFAULT 0 NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT company_balance_non_negative CHECK ((balance >= 0))
+);
+
+
+--
+-- Name: TABLE company; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.company IS 'Player-owned companies with a shared balance separate from player_balance';
+
+
+--
+-- Name: COLUMN company.balance; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.company.balance IS 'Company balance in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: company_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.company_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: company_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.company_id_seq OWNED BY public.company.id;
+
+
+--
+-- Name: company_member; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.company_member (
+    company_id integer NOT NULL,
+    player_minecraft_uuid uuid NOT NULL,
+    role character varying(16) DEFAULT 'employee'::character varying NOT NULL,
+    salary bigint DEFAULT 0 NOT NULL,
+    joined_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT company_member_role_check CHECK (((role)::text = ANY ((ARRAY['owner'::character varying, 'manager'::character varying, 'employee'::character varying])::text[]))),
+    CONSTRAINT company_member_salary_non_negative CHECK ((salary >= 0))
+);
+
+
+--
+-- Name: TABLE company_member; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.company_member IS 'Company membership and roles, a player belongs to at most one company';
+
+
+--
+-- Name: COLUMN company_member.salary; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.company_member.salary IS 'Amount paid to the member on each payroll run in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: company_transaction; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.company_transaction (
+    id integer NOT NULL,
+    company_id integer NOT NULL,
+    amount bigint NOT NULL,
+    balance_before bigint NOT NULL,
+    balance_after bigint NOT NULL,
+    transaction_type character varying(32) NOT NULL,
+    description text,
+    related_player_uuid uuid,
+    performed_by_uuid uuid,
+    metadata jsonb DEFAULT '{}'::jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+
+--
+-- Name: TABLE company_transaction; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.company_transaction IS 'Ledger of every change to a company balance';
+
+
+--
+-- Name: COLUMN company_transaction.amount; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.company_transaction.amount IS 'Signed amount in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN company_transaction.related_player_uuid; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.company_transaction.related_player_uuid IS 'Player whose balance moved in the opposite direction';
+
+
+--
+-- Name: COLUMN company_transaction.performed_by_uuid; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.company_transaction.performed_by_uuid IS 'Member who made the change';
+
+
+--
+-- Name: company_transaction_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.company_transaction_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: company_transaction_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.company_transaction_id_seq OWNED BY public.company_transaction.id;
+
+
 --
 -- Name: discord_guild_member_join; Type: TABLE; Schema: public; Owner: -
 --
@@ -382,181 +676,776 @@ ALTER SEQUENCE public.discord_guild_member_leave_id_seq OWNED BY public.discord_
 
 
 --
--- Name: leaderboard_message; Type: TABLE; Schema: public; Owner: -
+-- Name: economy_invoice; Type: TABLE; Schema: public; Owner: -
 --
 
-CREATE TABLE public.leaderboard_message (
+CREATE TABLE public.economy_invoice (
     id integer NOT NULL,
-    leaderboard_type character varying(50) NOT NULL,
-    channel_id text NOT NULL,
-    message_id text NOT NULL,
-    last_refreshed timestamp with time zone DEFAULT now(),
-    last_manual_refresh timestamp with time zone,
-    created_at timestamp with time zone DEFAULT now() NOT NULL
+    issuer_minecraft_uuid uuid NOT NULL,
+    payer_minecraft_uuid uuid NOT NULL,
+    amount bigint NOT NULL,
+    note text,
+    status character varying(16) DEFAULT 'pending'::character varying NOT NULL,
+    discord_channel_id character varying(32),
+    discord_message_id character varying(32),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    resolved_at timestamp with time zone,
+    CONSTRAINT economy_invoice_amount_positive CHECK ((amount > 0)),
+    CONSTRAINT economy_invoice_distinct_players CHECK ((issuer_minecraft_uuid <> payer_minecraft_uuid)),
+    CONSTRAINT economy_invoice_status_check CHECK (((status)::text = ANY ((ARRAY['pending'::character varying, 'paid'::character varying, 'declined'::character varying, 'cancelled'::character varying, 'expired'::character varying])::text[])))
 );
 
 
 --
--- Name: leaderboard_message_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+-- Name: TABLE economy_invoice; Type: COMMENT; Schema: public; Owner: -
 --
 
-CREATE SEQUENCE public.leaderboard_message_id_seq
-    AS integer
-    START WITH 1
-    INCREMENT BY 1
-    NO MINVALUE
-    NO MAXVALUE
-    CACHE 1;
+COMMENT ON TABLE public.economy_invoice IS 'Payment requests from one player to another, paid through a regular transfer';
 
 
 --
--- Name: leaderboard_message_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+-- Name: COLUMN economy_invoice.issuer_minecraft_uuid; Type: COMMENT; Schema: public; Owner: -
 --
 
-ALTER SEQUENCE public.leaderboard_message_id_seq OWNED BY public.leaderboard_message.id;
+COMMENT ON COLUMN public.economy_invoice.issuer_minecraft_uuid IS 'Player requesting the payment (receives the money)';
 
 
 --
--- Name: player; Type: TABLE; Schema: public; Owner: -
+-- Name: COLUMN economy_invoice.payer_minecraft_uuid; Type: COMMENT; Schema: public; Owner: -
 --
 
-CREATE TABLE public.player (
-    id integer NOT NULL,
-    minecraft_uuid uuid NOT NULL,
-    minecraft_username text NOT NULL,
-    discord_id text NOT NULL,
-    online boolean DEFAULT false NOT NULL,
-    last_seen timestamp with time zone DEFAULT now() NOT NULL,
-    created_at timestamp with time zone DEFAULT now() NOT NULL,
-    updated_at timestamp with time zone DEFAULT now() NOT NULL,
-    current_server_id integer
-);
+COMMENT ON COLUMN public.economy_invoice.payer_minecraft_uuid IS 'Player asked to pay';
 
 
 --
--- Name: player_balance; Type: TABLE; Schema: public; Owner: -
+-- Name: COLUMN economy_invoice.amount; Type: COMMENT; Schema: public; Owner: -
 --
 
-CREATE TABLE public.player_balance (
-    minecraft_uuid uuid NOT NULL,
-    balance bigint DEFAULT 0 NOT NULL,
-    updated_at timestamp with time zone DEFAULT now() NOT NULL,
-    CONSTRAINT chk_balance_non_negative CHECK ((balance >= 0))
-);
+COMMENT ON COLUMN public.economy_invoice.amount IS 'Requested amount in smallest unit (3 decimal precision)';
 
 
 --
--- Name: TABLE player_balance; Type: COMMENT; Schema: public; Owner: -
+-- Name: COLUMN economy_invoice.status; Type: COMMENT; Schema: public; Owner: -
 --
 
-COMMENT ON TABLE public.player_balance IS 'Player balance with 3 decimal precision';
+COMMENT ON COLUMN public.economy_invoice.status IS 'pending until resolved as paid, declined, cancelled or expired';
 
 
 --
--- Name: COLUMN player_balance.balance; Type: COMMENT; Schema: public; Owner: -
+-- Name: COLUMN economy_invoice.discord_message_id; Type: COMMENT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.player_balance.balance IS 'Balance in smallest unit (3 decimal places). Divide by 1,000 for display. Example: 1000 = 1.000, 200 = 0.200';
+COMMENT ON COLUMN public.economy_invoice.discord_message_id IS 'Message with the Pay/Decline buttons, updated when the invoice is resolved';
 
 
 --
--- Name: player_balance_transaction; Type: TABLE; Schema: public; Owner: -
+-- Name: COLUMN economy_invoice.expires_at; Type: COMMENT; Schema: public; Owner: -
 --
 
-CREATE TABLE public.player_balance_transaction (
-    id integer NOT NULL,
-    player_minecraft_uuid uuid NOT NULL,
-    amount bigint NOT NULL,
-    balance_before bigint NOT NULL,
-    balance_after bigint NOT NULL,
-    transaction_type text NOT NULL,
-    description text,
-    related_player_uuid uuid,
-    metadata jsonb DEFAULT '{}'::jsonb,
-    created_at timestamp with time zone DEFAULT now() NOT NULL
-);
+COMMENT ON COLUMN public.economy_invoice.expires_at IS 'When a pending invoice is automatically expired';
 
 
 --
--- Name: TABLE player_balance_transaction; Type: COMMENT; Schema: public; Owner: -
+-- Name: economy_invoice_id_seq; Type: SEQUENCE; Schema: public; Owner: -
 --
 
-COMMENT ON TABLE public.player_balance_transaction IS 'Complete audit trail of all balance changes with 3 decimal precision';
+CREATE SEQUENCE public.economy_invoice_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
 
 
 --
--- Name: COLUMN player_balance_transaction.amount; Type: COMMENT; Schema: public; Owner: -
+-- Name: economy_invoice_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.player_balance_transaction.amount IS 'Amount changed (positive for credit, negative for debit) in smallest unit';
+ALTER SEQUENCE public.economy_invoice_id_seq OWNED BY public.economy_invoice.id;
 
 
 --
--- Name: COLUMN player_balance_transaction.balance_before; Type: COMMENT; Schema: public; Owner: -
+-- Name: economy_request; Type: TABLE; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.player_balance_transaction.balance_before IS 'Balance before transaction';
+CREATE TABLE public.economy_request (
+    idempotency_key character varying(128) NOT NULL,
+    operation character varying(32) NOT NULL,
+    player_minecraft_uuid uuid NOT NULL,
+    request_fingerprint text NOT NULL,
+    status character varying(16) DEFAULT 'pending'::character varying NOT NULL,
+    response jsonb,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    completed_at timestamp with time zone,
+    CONSTRAINT economy_request_status_check CHECK (((status)::text = ANY ((ARRAY['pending'::character varying, 'completed'::character varying])::text[])))
+);
 
 
 --
--- Name: COLUMN player_balance_transaction.balance_after; Type: COMMENT; Schema: public; Owner: -
+-- Name: TABLE economy_request; Type: COMMENT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.player_balance_transaction.balance_after IS 'Balance after transaction';
+COMMENT ON TABLE public.economy_request IS 'Idempotency records for mutating economy API calls made by the currency mod';
 
 
 --
--- Name: COLUMN player_balance_transaction.transaction_type; Type: COMMENT; Schema: public; Owner: -
+-- Name: COLUMN economy_request.request_fingerprint; Type: COMMENT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.player_balance_transaction.transaction_type IS 'Type of transaction for categorization';
+COMMENT ON COLUMN public.economy_request.request_fingerprint IS 'Normalized request parameters, used to reject key reuse with a different payload';
 
 
 --
--- Name: COLUMN player_balance_transaction.related_player_uuid; Type: COMMENT; Schema: public; Owner: -
+-- Name: COLUMN economy_request.response; Type: COMMENT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.player_balance_transaction.related_player_uuid IS 'Related player (e.g., sender/receiver in transfers)';
+COMMENT ON COLUMN public.economy_request.response IS 'Response body returned to the client, replayed on retries';
 
 
 --
--- Name: COLUMN player_balance_transaction.metadata; Type: COMMENT; Schema: public; Owner: -
+-- Name: economy_treasury; Type: TABLE; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.player_balance_transaction.metadata IS 'Additional context (item_id, admin_id, etc.)';
+CREATE TABLE public.economy_treasury (
+    id character varying(32) NOT NULL,
+    balance bigint DEFAULT 0 NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT economy_treasury_balance_non_negative CHECK ((balance >= 0))
+);
 
 
 --
--- Name: player_balance_transaction_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+-- Name: TABLE economy_treasury; Type: COMMENT; Schema: public; Owner: -
 --
 
-CREATE SEQUENCE public.player_balance_transaction_id_seq
-    AS integer
-    START WITH 1
-    INCREMENT BY 1
-    NO MINVALUE
-    NO MAXVALUE
-    CACHE 1;
+COMMENT ON TABLE public.economy_treasury IS 'System accounts that collect currency sinks such as transfer fees';
 
 
 --
--- Name: player_balance_transaction_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+-- Name: COLUMN economy_treasury.balance; Type: COMMENT; Schema: public; Owner: -
 --
 
-ALTER SEQUENCE public.player_balance_transaction_id_seq OWNED BY public.player_balance_transaction.id;
+COMMENT ON COLUMN public.economy_treasury.balance IS 'Balance in smallest unit (3 decimal precision)';
 
 
 --
--- Name: player_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+-- Name: economy_treasury_transaction; Type: TABLE; Schema: public; Owner: -
 --
 
-CREATE SEQUENCE public.player_id_seq
-    AS integer
-    START WITH 1
-    INCREMENT BY 1
-    NO MINVALUE
-    NO MAXVALUE
-    CACHE 1;
+CREATE TABLE public.economy_treasury_transaction (
+    id integer NOT NULL,
+    treasury_id character varying(32) NOT NULL,
+    amount bigint NOT NULL,
+    balance_before bigint NOT NULL,
+    balance_after bigint NOT NULL,
+    transaction_type character varying(32) NOT NULL,
+    description text,
+    related_player_uuid uuid,
+    metadata jsonb DEFAULT '{}'::jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+
+--
+-- Name: TABLE economy_treasury_transaction; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.economy_treasury_transaction IS 'Ledger of every change to a treasury balance';
+
+
+--
+-- Name: COLUMN economy_treasury_transaction.amount; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.economy_treasury_transaction.amount IS 'Signed amount in smallest unit (3 decimal precision), positive when collected';
+
+
+--
+-- Name: COLUMN economy_treasury_transaction.related_player_uuid; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.economy_treasury_transaction.related_player_uuid IS 'Player who paid the fee or received the payout';
+
+
+--
+-- Name: economy_treasury_transaction_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.economy_treasury_transaction_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: economy_treasury_transaction_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.economy_treasury_transaction_id_seq OWNED BY public.economy_treasury_transaction.id;
+
+
+--
+-- Name: exchange_asset; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.exchange_asset (
+    symbol character varying(16) NOT NULL,
+    name character varying(64) NOT NULL,
+    price bigint NOT NULL,
+    is_active boolean DEFAULT true NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT exchange_asset_price_positive CHECK ((price > 0))
+);
+
+
+--
+-- Name: TABLE exchange_asset; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.exchange_asset IS 'Assets traded on the simulated exchange, synced from the exchange config on startup';
+
+
+--
+-- Name: COLUMN exchange_asset.price; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.exchange_asset.price IS 'Current price per unit in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN exchange_asset.is_active; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.exchange_asset.is_active IS 'False once an asset is removed from the config; holdings can still be sold';
+
+
+--
+-- Name: exchange_holding; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.exchange_holding (
+    player_minecraft_uuid uuid NOT NULL,
+    asset_symbol character varying(16) NOT NULL,
+    quantity integer NOT NULL,
+    cost_basis bigint DEFAULT 0 NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT exchange_holding_quantity_non_negative CHECK ((quantity >= 0)),
+    CONSTRAINT exchange_holding_cost_basis_non_negative CHECK ((cost_basis >= 0))
+);
+
+
+--
+-- Name: TABLE exchange_holding; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.exchange_holding IS 'Units of each exchange asset held by a player';
+
+
+--
+-- Name: COLUMN exchange_holding.cost_basis; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.exchange_holding.cost_basis IS 'Total paid for the units currently held (average cost), in smallest unit';
+
+
+--
+-- Name: exchange_price; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.exchange_price (
+    id bigint NOT NULL,
+    asset_symbol character varying(16) NOT NULL,
+    price bigint NOT NULL,
+    recorded_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT exchange_price_price_positive CHECK ((price > 0))
+);
+
+
+--
+-- Name: TABLE exchange_price; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.exchange_price IS 'Price history of exchange assets, one row per asset per price tick';
+
+
+--
+-- Name: exchange_price_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.exchange_price_id_seq
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: exchange_price_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.exchange_price_id_seq OWNED BY public.exchange_price.id;
+
+
+--
+-- Name: exchange_trade; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.exchange_trade (
+    id integer NOT NULL,
+    player_minecraft_uuid uuid NOT NULL,
+    asset_symbol character varying(16) NOT NULL,
+    side character varying(4) NOT NULL,
+    quantity integer NOT NULL,
+    price bigint NOT NULL,
+    total bigint NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT exchange_trade_quantity_positive CHECK ((quantity > 0)),
+    CONSTRAINT exchange_trade_side_check CHECK (((side)::text = ANY ((ARRAY['buy'::character varying, 'sell'::character varying])::text[])))
+);
+
+
+--
+-- Name: TABLE exchange_trade; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.exchange_trade IS 'Buy and sell orders filled on the simulated exchange';
+
+
+--
+-- Name: COLUMN exchange_trade.price; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.exchange_trade.price IS 'Price per unit the order was filled at, in smallest unit';
+
+
+--
+-- Name: exchange_trade_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.exchange_trade_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: exchange_trade_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.exchange_trade_id_seq OWNED BY public.exchange_trade.id;
+
+
+--
+-- Name: leaderboard_message; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.leaderboard_message (
+    id integer NOT NULL,
+    leaderboard_type character varying(50) NOT NULL,
+    channel_id text NOT NULL,
+    message_id text NOT NULL,
+    last_refreshed timestamp with time zone DEFAULT now(),
+    last_manual_refresh timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+
+--
+-- Name: leaderboard_message_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.leaderboard_message_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: leaderboard_message_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.leaderboard_message_id_seq OWNED BY public.leaderboard_message.id;
+
+
+--
+-- Name: market_listing; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.market_listing (
+    id integer NOT NULL,
+    seller_minecraft_uuid uuid NOT NULL,
+    item_name character varying(128) NOT NULL,
+    item_id character varying(128),
+    description text,
+    quantity integer NOT NULL,
+    unit_price bigint NOT NULL,
+    status character varying(16) DEFAULT 'active'::character varying NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    cancelled_by_discord_id character varying(20),
+    CONSTRAINT market_listing_quantity_non_negative CHECK ((quantity >= 0)),
+    CONSTRAINT market_listing_unit_price_positive CHECK ((unit_price > 0)),
+    CONSTRAINT market_listing_status_check CHECK (((status)::text = ANY ((ARRAY['active'::character varying, 'sold_out'::character varying, 'cancelled'::character varying])::text[])))
+);
+
+
+--
+-- Name: TABLE market_listing; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.market_listing IS 'Items offered for sale by players on the marketplace';
+
+
+--
+-- Name: COLUMN market_listing.item_id; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.market_listing.item_id IS 'Optional Minecraft item ID (e.g. create:brass_ingot)';
+
+
+--
+-- Name: COLUMN market_listing.quantity; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.market_listing.quantity IS 'Units still available for purchase';
+
+
+--
+-- Name: COLUMN market_listing.unit_price; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.market_listing.unit_price IS 'Price per unit in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN market_listing.cancelled_by_discord_id; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.market_listing.cancelled_by_discord_id IS 'Seller or admin who cancelled the listing';
+
+
+--
+-- Name: market_listing_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.market_listing_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: market_listing_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.market_listing_id_seq OWNED BY public.market_listing.id;
+
+
+--
+-- Name: market_purchase; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.market_purchase (
+    id integer NOT NULL,
+    listing_id integer NOT NULL,
+    buyer_minecraft_uuid uuid NOT NULL,
+    seller_minecraft_uuid uuid NOT NULL,
+    quantity integer NOT NULL,
+    unit_price bigint NOT NULL,
+    total_price bigint NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT market_purchase_quantity_positive CHECK ((quantity > 0))
+);
+
+
+--
+-- Name: TABLE market_purchase; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.market_purchase IS 'Completed marketplace purchases, settled through PURCHASE and SALE balance transactions';
+
+
+--
+-- Name: COLUMN market_purchase.unit_price; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.market_purchase.unit_price IS 'Listing price per unit at the time of purchase';
+
+
+--
+-- Name: market_purchase_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.market_purchase_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: market_purchase_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.market_purchase_id_seq OWNED BY public.market_purchase.id;
+
+
+--
+-- Name: market_request; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.market_request (
+    id integer NOT NULL,
+    requester_minecraft_uuid uuid NOT NULL,
+    item_name character varying(128) NOT NULL,
+    item_id character varying(128),
+    description text,
+    quantity integer NOT NULL,
+    bounty bigint NOT NULL,
+    status character varying(16) DEFAULT 'open'::character varying NOT NULL,
+    fulfiller_minecraft_uuid uuid,
+    discord_message_id character varying(32),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    claimed_at timestamp with time zone,
+    resolved_at timestamp with time zone,
+    CONSTRAINT market_request_bounty_positive CHECK ((bounty > 0)),
+    CONSTRAINT market_request_quantity_positive CHECK ((quantity > 0)),
+    CONSTRAINT market_request_distinct_players CHECK ((fulfiller_minecraft_uuid IS NULL OR requester_minecraft_uuid <> fulfiller_minecraft_uuid)),
+    CONSTRAINT market_request_status_check CHECK (((status)::text = ANY ((ARRAY['open'::character varying, 'claimed'::character varying, 'fulfilled'::character varying, 'cancelled'::character varying, 'expired'::character varying])::text[])))
+);
+
+
+--
+-- Name: TABLE market_request; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.market_request IS 'Item buy requests whose bounty is held in escrow until delivery is confirmed, the request is cancelled or it expires';
+
+
+--
+-- Name: COLUMN market_request.bounty; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.market_request.bounty IS 'Escrowed bounty in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN market_request.status; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.market_request.status IS 'open until claimed by a fulfiller, then fulfilled, cancelled or expired';
+
+
+--
+-- Name: COLUMN market_request.discord_message_id; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.market_request.discord_message_id IS 'Message in the request feed channel that is updated on status changes';
+
+
+--
+-- Name: COLUMN market_request.expires_at; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.market_request.expires_at IS 'When an unfulfilled request is automatically expired and refunded';
+
+
+--
+-- Name: market_request_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.market_request_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: market_request_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.market_request_id_seq OWNED BY public.market_request.id;
+
+
+--
+-- Name: player; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.player (
+    id integer NOT NULL,
+    minecraft_uuid uuid NOT NULL,
+    minecraft_username text NOT NULL,
+    discord_id text NOT NULL,
+    online boolean DEFAULT false NOT NULL,
+    last_seen timestamp with time zone DEFAULT now() NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    current_server_id integer
+);
+
+
+--
+-- Name: player_balance; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.player_balance (
+    minecraft_uuid uuid NOT NULL,
+    balance bigint DEFAULT 0 NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    hide_from_leaderboard boolean DEFAULT false NOT NULL,
+    CONSTRAINT chk_balance_non_negative CHECK ((balance >= 0))
+);
+
+
+--
+-- Name: TABLE player_balance; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.player_balance IS 'Player balance with 3 decimal precision';
+
+
+--
+-- Name: COLUMN player_balance.balance; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_balance.balance IS 'Balance in smallest unit (3 decimal places). Divide by 1,000 for display. Example: 1000 = 1.000, 200 = 0.200';
+
+
+--
+-- Name: COLUMN player_balance.hide_from_leaderboard; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_balance.hide_from_leaderboard IS 'Player opted out of the public balance leaderboard';
+
+
+--
+-- Name: player_balance_transaction; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.player_balance_transaction (
+    id integer NOT NULL,
+    player_minecraft_uuid uuid NOT NULL,
+    amount bigint NOT NULL,
+    balance_before bigint NOT NULL,
+    balance_after bigint NOT NULL,
+    transaction_type text NOT NULL,
+    description text,
+    related_player_uuid uuid,
+    metadata jsonb DEFAULT '{}'::jsonb,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    reversed_transaction_id integer
+);
+
+
+--
+-- Name: TABLE player_balance_transaction; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.player_balance_transaction IS 'Complete audit trail of all balance changes with 3 decimal precision';
+
+
+--
+-- Name: COLUMN player_balance_transaction.amount; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_balance_transaction.amount IS 'Amount changed (positive for credit, negative for debit) in smallest unit';
+
+
+--
+-- Name: COLUMN player_balance_transaction.balance_before; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_balance_transaction.balance_before IS 'Balance before transaction';
+
+
+--
+-- Name: COLUMN player_balance_transaction.balance_after; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_balance_transaction.balance_after IS 'Balance after transaction';
+
+
+--
+-- Name: COLUMN player_balance_transaction.transaction_type; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_balance_transaction.transaction_type IS 'Type of transaction for categorization';
+
+
+--
+-- Name: COLUMN player_balance_transaction.related_player_uuid; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_balance_transaction.related_player_uuid IS 'Related player (e.g., sender/receiver in transfers)';
+
+
+--
+-- Name: COLUMN player_balance_transaction.metadata; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_balance_transaction.metadata IS 'Additional context (item_id, admin_id, etc.)';
+
+
+--
+-- Name: COLUMN player_balance_transaction.reversed_transaction_id; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_balance_transaction.reversed_transaction_id IS 'Transaction reversed by this refund. Unique, so a transaction can only be reversed once';
+
+
+--
+-- Name: player_balance_transaction_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.player_balance_transaction_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: player_balance_transaction_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.player_balance_transaction_id_seq OWNED BY public.player_balance_transaction.id;
+
+
+--
+-- Name: player_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.player_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
 
 
 --
@@ -578,6 +1467,26 @@ CREATE TABLE public.player_playtime_daily (
 );
 
 
+--
+-- Name: player_playtime_dimension_daily; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.player_playtime_dimension_daily (
+    player_minecraft_uuid uuid NOT NULL,
+    server_id integer NOT NULL,
+    play_date date NOT NULL,
+    dimension character varying(100) NOT NULL,
+    seconds_played bigint DEFAULT 0 NOT NULL
+);
+
+
+--
+-- Name: TABLE player_playtime_dimension_daily; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.player_playtime_dimension_daily IS 'Daily playtime per dimension, excluding AFK time';
+
+
 --
 -- Name: player_playtime_hourly; Type: TABLE; Schema: public; Owner: -
 --
@@ -620,15 +1529,192 @@ CREATE TABLE public.player_session (
     server_id integer NOT NULL,
     session_start timestamp with time zone NOT NULL,
     session_end timestamp with time zone,
+    afk_seconds bigint DEFAULT 0 NOT NULL,
     seconds_played bigint GENERATED ALWAYS AS (
 CASE
-    WHEN (session_end IS NOT NULL) THEN (EXTRACT(epoch FROM (session_end - session_start)))::bigint
+    WHEN (session_end IS NOT NULL) THEN ((EXTRACT(epoch FROM (session_end - session_start)))::bigint - afk_seconds)
     ELSE NULL::bigint
 END) STORED,
     CONSTRAINT chk_session_end_after_start CHECK (((session_end IS NULL) OR (session_end >= session_start)))
 );
 
 
+--
+-- Name: COLUMN player_session.afk_seconds; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_session.afk_seconds IS 'Time spent AFK during the session, set when the session ends';
+
+
+--
+-- Name: COLUMN player_session.seconds_played; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_session.seconds_played IS 'Active playtime: session length minus AFK time';
+
+
+--
+-- Name: player_session_afk; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.player_session_afk (
+    id integer NOT NULL,
+    session_id integer NOT NULL,
+    afk_start timestamp with time zone NOT NULL,
+    afk_end timestamp with time zone NOT NULL,
+    CONSTRAINT chk_afk_end_after_start CHECK ((afk_end >= afk_start))
+);
+
+
+--
+-- Name: TABLE player_session_afk; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.player_session_afk IS 'AFK intervals within play sessions, excluded from playtime aggregates';
+
+
+--
+-- Name: COLUMN player_session_afk.afk_start; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_session_afk.afk_start IS 'When the player went AFK';
+
+
+--
+-- Name: COLUMN player_session_afk.afk_end; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_session_afk.afk_end IS 'When the player became active again or the session ended';
+
+
+--
+-- Name: player_session_afk_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.player_session_afk_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: player_session_afk_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.player_session_afk_id_seq OWNED BY public.player_session_afk.id;
+
+
+--
+-- Name: player_session_dimension; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.player_session_dimension (
+    id integer NOT NULL,
+    session_id integer NOT NULL,
+    dimension character varying(100) NOT NULL,
+    dimension_start timestamp with time zone NOT NULL,
+    dimension_end timestamp with time zone NOT NULL,
+    CONSTRAINT chk_dimension_end_after_start CHECK ((dimension_end >= dimension_start))
+);
+
+
+--
+-- Name: TABLE player_session_dimension; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.player_session_dimension IS 'Time spent in each dimension within play sessions';
+
+
+--
+-- Name: COLUMN player_session_dimension.dimension; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_session_dimension.dimension IS 'Dimension ID reported by the mod (e.g. minecraft:the_nether)';
+
+
+--
+-- Name: player_session_dimension_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.player_session_dimension_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: player_session_dimension_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.player_session_dimension_id_seq OWNED BY public.player_session_dimension.id;
+
+
+--
+-- Name: player_session_flag; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.player_session_flag (
+    id integer NOT NULL,
+    session_id integer NOT NULL,
+    reason text NOT NULL,
+    related_session_id integer,
+    flagged_at timestamp with time zone DEFAULT now() NOT NULL,
+    resolved_at timestamp with time zone,
+    resolved_by_discord_id text,
+    resolution text,
+    discord_message_id text,
+    CONSTRAINT chk_player_session_flag_reason CHECK ((reason = ANY (ARRAY['long'::text, 'overlap'::text]))),
+    CONSTRAINT chk_player_session_flag_resolution CHECK (((resolution IS NULL) OR (resolution = ANY (ARRAY['truncated'::text, 'deleted'::text, 'dismissed'::text]))))
+);
+
+
+--
+-- Name: TABLE player_session_flag; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.player_session_flag IS 'Suspicious (ghost) sessions posted to the admin channel for review';
+
+
+--
+-- Name: COLUMN player_session_flag.related_session_id; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_session_flag.related_session_id IS 'Session on another server that overlaps the flagged session';
+
+
+--
+-- Name: COLUMN player_session_flag.discord_message_id; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.player_session_flag.discord_message_id IS 'Admin channel message the flag was posted in, null until posted';
+
+
+--
+-- Name: player_session_flag_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.player_session_flag_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: player_session_flag_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.player_session_flag_id_seq OWNED BY public.player_session_flag.id;
+
+
 --
 -- Name: player_session_id_seq; Type: SEQUENCE; Schema: public; Owner: -
 --
@@ -649,6 +1735,66 @@ CREATE SEQUENCE public.player_session_id_seq
 ALTER SEQUENCE public.player_session_id_seq OWNED BY public.player_session.id;
 
 
+--
+-- Name: playtime_recap; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.playtime_recap (
+    id integer NOT NULL,
+    kind character varying(16) NOT NULL,
+    period_start date NOT NULL,
+    period_end date NOT NULL,
+    total_seconds bigint DEFAULT 0 NOT NULL,
+    previous_total_seconds bigint DEFAULT 0 NOT NULL,
+    entries jsonb DEFAULT '[]'::jsonb NOT NULL,
+    prizes jsonb DEFAULT '[]'::jsonb NOT NULL,
+    discord_message_id text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT playtime_recap_kind_check CHECK (((kind)::text = ANY ((ARRAY['weekly'::character varying, 'monthly'::character varying])::text[])))
+);
+
+
+--
+-- Name: TABLE playtime_recap; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.playtime_recap IS 'Weekly and monthly top-player recaps, one per period, recorded together with their prize payments';
+
+
+--
+-- Name: COLUMN playtime_recap.entries; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.playtime_recap.entries IS 'Ranked top players with their previous rank';
+
+
+--
+-- Name: COLUMN playtime_recap.discord_message_id; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.playtime_recap.discord_message_id IS 'Posted recap message, null until the post succeeded';
+
+
+--
+-- Name: playtime_recap_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.playtime_recap_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: playtime_recap_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.playtime_recap_id_seq OWNED BY public.playtime_recap.id;
+
+
 --
 -- Name: reward_claim; Type: TABLE; Schema: public; Owner: -
 --
@@ -664,30 +1810,91 @@ CREATE TABLE public.reward_claim (
 
 
 --
--- Name: reward_claim_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+-- Name: reward_claim_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.reward_claim_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: reward_claim_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.reward_claim_id_seq OWNED BY public.reward_claim.id;
+
+
+--
+-- Name: server_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.server_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: server_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.server_id_seq OWNED BY public.server.id;
+
+
+--
+-- Name: server_online_hourly; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.server_online_hourly (
+    server_id integer NOT NULL,
+    sample_hour timestamp with time zone NOT NULL,
+    sample_count integer DEFAULT 0 NOT NULL,
+    player_count_sum bigint DEFAULT 0 NOT NULL,
+    peak_players integer DEFAULT 0 NOT NULL,
+    peak_at timestamp with time zone NOT NULL
+);
+
+
+--
+-- Name: TABLE server_online_hourly; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.server_online_hourly IS 'Hourly rollup of server_online_sample, maintained by trigger';
+
+
+--
+-- Name: server_online_sample; Type: TABLE; Schema: public; Owner: -
 --
 
-CREATE SEQUENCE public.reward_claim_id_seq
-    AS integer
-    START WITH 1
-    INCREMENT BY 1
-    NO MINVALUE
-    NO MAXVALUE
-    CACHE 1;
+CREATE TABLE public.server_online_sample (
+    id integer NOT NULL,
+    server_id integer NOT NULL,
+    sampled_at timestamp with time zone DEFAULT now() NOT NULL,
+    player_count integer NOT NULL,
+    CONSTRAINT chk_player_count_non_negative CHECK ((player_count >= 0))
+);
 
 
 --
--- Name: reward_claim_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+-- Name: TABLE server_online_sample; Type: COMMENT; Schema: public; Owner: -
 --
 
-ALTER SEQUENCE public.reward_claim_id_seq OWNED BY public.reward_claim.id;
+COMMENT ON TABLE public.server_online_sample IS 'Raw online player counts, pruned after the retention period (hourly rollups are kept)';
 
 
 --
--- Name: server_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+-- Name: server_online_sample_id_seq; Type: SEQUENCE; Schema: public; Owner: -
 --
 
-CREATE SEQUENCE public.server_id_seq
+CREATE SEQUENCE public.server_online_sample_id_seq
     AS integer
     START WITH 1
     INCREMENT BY 1
@@ -697,10 +1904,10 @@ CREATE SEQUENCE public.server_id_seq
 
 
 --
--- Name: server_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+-- Name: server_online_sample_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
 --
 
-ALTER SEQUENCE public.server_id_seq OWNED BY public.server.id;
+ALTER SEQUENCE public.server_online_sample_id_seq OWNED BY public.server_online_sample.id;
 
 
 --
@@ -802,6 +2009,74 @@ CREATE SEQUENCE public.ticket_number_seq
     CACHE 1;
 
 
+--
+-- Name: trade_offer; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.trade_offer (
+    id integer NOT NULL,
+    sender_minecraft_uuid uuid NOT NULL,
+    recipient_minecraft_uuid uuid NOT NULL,
+    amount bigint NOT NULL,
+    note text,
+    status character varying(16) DEFAULT 'pending'::character varying NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    resolved_at timestamp with time zone,
+    CONSTRAINT trade_offer_amount_positive CHECK ((amount > 0)),
+    CONSTRAINT trade_offer_distinct_players CHECK ((sender_minecraft_uuid <> recipient_minecraft_uuid)),
+    CONSTRAINT trade_offer_status_check CHECK (((status)::text = ANY ((ARRAY['pending'::character varying, 'accepted'::character varying, 'declined'::character varying, 'cancelled'::character varying, 'expired'::character varying])::text[])))
+);
+
+
+--
+-- Name: TABLE trade_offer; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON TABLE public.trade_offer IS 'Peer-to-peer trade offers whose amount is held in escrow until accepted, declined, cancelled or expired';
+
+
+--
+-- Name: COLUMN trade_offer.amount; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.trade_offer.amount IS 'Escrowed amount in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN trade_offer.status; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.trade_offer.status IS 'pending until resolved as accepted, declined, cancelled or expired';
+
+
+--
+-- Name: COLUMN trade_offer.expires_at; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.trade_offer.expires_at IS 'When a pending offer is automatically expired and refunded';
+
+
+--
+-- Name: trade_offer_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.trade_offer_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: trade_offer_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.trade_offer_id_seq OWNED BY public.trade_offer.id;
+
+
 --
 -- Name: waitlist_entry; Type: TABLE; Schema: public; Owner: -
 --
@@ -836,209 +2111,434 @@ COMMENT ON TABLE public.waitlist_entry IS 'Stores waitlist entries with progress
 -- Name: COLUMN waitlist_entry.discord_message_id; Type: COMMENT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.waitlist_entry.discord_message_id IS 'Discord message ID for the admin notification, used to update progress embed';
+COMMENT ON COLUMN public.waitlist_entry.discord_message_id IS 'Discord message ID for the admin notification, used to update progress embed';
+
+
+--
+-- Name: COLUMN waitlist_entry.status; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.waitlist_entry.status IS 'Current status: pending (waiting for admin), accepted (invite sent), declined (rejected), completed (fully onboarded)';
+
+
+--
+-- Name: COLUMN waitlist_entry.joined_discord; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.waitlist_entry.joined_discord IS 'True when user joins the Discord server';
+
+
+--
+-- Name: COLUMN waitlist_entry.verified; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.waitlist_entry.verified IS 'True when user runs /verify command';
+
+
+--
+-- Name: COLUMN waitlist_entry.registered; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.waitlist_entry.registered IS 'True when user account is created in the system';
+
+
+--
+-- Name: COLUMN waitlist_entry.joined_minecraft; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.waitlist_entry.joined_minecraft IS 'True when user joins the Minecraft server for the first time';
+
+
+--
+-- Name: COLUMN waitlist_entry.accepted_by; Type: COMMENT; Schema: public; Owner: -
+--
+
+COMMENT ON COLUMN public.waitlist_entry.accepted_by IS 'Discord ID of the admin who accepted the entry';
+
+
+--
+-- Name: waitlist_entry_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+--
+
+CREATE SEQUENCE public.waitlist_entry_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+--
+-- Name: waitlist_entry_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+--
+
+ALTER SEQUENCE public.waitlist_entry_id_seq OWNED BY public.waitlist_entry.id;
+
+
+--
+-- Name: admin_log_action id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.admin_log_action ALTER COLUMN id SET DEFAULT nextval('public.admin_log_action_id_seq'::regclass);
+
+
+--
+-- Name: company id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.company ALTER COLUMN id SET DEFAULT nextval('public.company_id_seq'::regclass);
+
+
+--
+-- Name: company_transaction id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.company_transaction ALTER COLUMN id SET DEFAULT nextval('public.company_transaction_id_seq'::regclass);
+
+
+--
+-- Name: discord_guild_member_join join_number; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.discord_guild_member_join ALTER COLUMN join_number SET DEFAULT nextval('public.discord_guild_member_join_join_number_seq'::regclass);
+
+
+--
+-- Name: discord_guild_member_leave id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.discord_guild_member_leave ALTER COLUMN id SET DEFAULT nextval('public.discord_guild_member_leave_id_seq'::regclass);
+
+
+--
+-- Name: economy_invoice id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.economy_invoice ALTER COLUMN id SET DEFAULT nextval('public.economy_invoice_id_seq'::regclass);
+
+
+--
+-- Name: economy_treasury_transaction id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.economy_treasury_transaction ALTER COLUMN id SET DEFAULT nextval('public.economy_treasury_transaction_id_seq'::regclass);
+
+
+--
+-- Name: exchange_price id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.exchange_price ALTER COLUMN id SET DEFAULT nextval('public.exchange_price_id_seq'::regclass);
+
+
+--
+-- Name: exchange_trade id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.exchange_trade ALTER COLUMN id SET DEFAULT nextval('public.exchange_trade_id_seq'::regclass);
+
+
+--
+-- Name: leaderboard_message id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.leaderboard_message ALTER COLUMN id SET DEFAULT nextval('public.leaderboard_message_id_seq'::regclass);
+
+
+--
+-- Name: market_listing id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.market_listing ALTER COLUMN id SET DEFAULT nextval('public.market_listing_id_seq'::regclass);
+
+
+--
+-- Name: market_purchase id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.market_purchase ALTER COLUMN id SET DEFAULT nextval('public.market_purchase_id_seq'::regclass);
+
+
+--
+-- Name: market_request id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.market_request ALTER COLUMN id SET DEFAULT nextval('public.market_request_id_seq'::regclass);
+
+
+--
+-- Name: player id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player ALTER COLUMN id SET DEFAULT nextval('public.player_id_seq'::regclass);
+
+
+--
+-- Name: player_balance_transaction id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_balance_transaction ALTER COLUMN id SET DEFAULT nextval('public.player_balance_transaction_id_seq'::regclass);
+
+
+--
+-- Name: player_session id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session ALTER COLUMN id SET DEFAULT nextval('public.player_session_id_seq'::regclass);
+
+
+--
+-- Name: player_session_afk id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_afk ALTER COLUMN id SET DEFAULT nextval('public.player_session_afk_id_seq'::regclass);
+
+
+--
+-- Name: player_session_dimension id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_dimension ALTER COLUMN id SET DEFAULT nextval('public.player_session_dimension_id_seq'::regclass);
+
+
+--
+-- Name: player_session_flag id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_flag ALTER COLUMN id SET DEFAULT nextval('public.player_session_flag_id_seq'::regclass);
+
+
+--
+-- Name: playtime_recap id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.playtime_recap ALTER COLUMN id SET DEFAULT nextval('public.playtime_recap_id_seq'::regclass);
+
+
+--
+-- Name: reward_claim id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.reward_claim ALTER COLUMN id SET DEFAULT nextval('public.reward_claim_id_seq'::regclass);
+
+
+--
+-- Name: server id; Type: DEFAULT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.server ALTER COLUMN id SET DEFAULT nextval('public.server_id_seq'::regclass);
 
 
 --
--- Name: COLUMN waitlist_entry.status; Type: COMMENT; Schema: public; Owner: -
+-- Name: server_online_sample id; Type: DEFAULT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.waitlist_entry.status IS 'Current status: pending (waiting for admin), accepted (invite sent), declined (rejected), completed (fully onboarded)';
+ALTER TABLE ONLY public.server_online_sample ALTER COLUMN id SET DEFAULT nextval('public.server_online_sample_id_seq'::regclass);
 
 
 --
--- Name: COLUMN waitlist_entry.joined_discord; Type: COMMENT; Schema: public; Owner: -
+-- Name: ticket id; Type: DEFAULT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.waitlist_entry.joined_discord IS 'True when user joins the Discord server';
+ALTER TABLE ONLY public.ticket ALTER COLUMN id SET DEFAULT nextval('public.ticket_id_seq'::regclass);
 
 
 --
--- Name: COLUMN waitlist_entry.verified; Type: COMMENT; Schema: public; Owner: -
+-- Name: ticket_action id; Type: DEFAULT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.waitlist_entry.verified IS 'True when user runs /verify command';
+ALTER TABLE ONLY public.ticket_action ALTER COLUMN id SET DEFAULT nextval('public.ticket_action_id_seq'::regclass);
 
 
 --
--- Name: COLUMN waitlist_entry.registered; Type: COMMENT; Schema: public; Owner: -
+-- Name: trade_offer id; Type: DEFAULT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.waitlist_entry.registered IS 'True when user account is created in the system';
+ALTER TABLE ONLY public.trade_offer ALTER COLUMN id SET DEFAULT nextval('public.trade_offer_id_seq'::regclass);
 
 
 --
--- Name: COLUMN waitlist_entry.joined_minecraft; Type: COMMENT; Schema: public; Owner: -
+-- Name: waitlist_entry id; Type: DEFAULT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.waitlist_entry.joined_minecraft IS 'True when user joins the Minecraft server for the first time';
+ALTER TABLE ONLY public.waitlist_entry ALTER COLUMN id SET DEFAULT nextval('public.waitlist_entry_id_seq'::regclass);
 
 
 --
--- Name: COLUMN waitlist_entry.accepted_by; Type: COMMENT; Schema: public; Owner: -
+-- Name: admin_log_action admin_log_action_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-COMMENT ON COLUMN public.waitlist_entry.accepted_by IS 'Discord ID of the admin who accepted the entry';
+ALTER TABLE ONLY public.admin_log_action
+    ADD CONSTRAINT admin_log_action_pkey PRIMARY KEY (id);
 
 
 --
--- Name: waitlist_entry_id_seq; Type: SEQUENCE; Schema: public; Owner: -
+-- Name: admin admin_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-CREATE SEQUENCE public.waitlist_entry_id_seq
-    AS integer
-    START WITH 1
-    INCREMENT BY 1
-    NO MINVALUE
-    NO MAXVALUE
-    CACHE 1;
+ALTER TABLE ONLY public.admin
+    ADD CONSTRAINT admin_pkey PRIMARY KEY (discord_id);
 
 
 --
--- Name: waitlist_entry_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: -
+-- Name: company_member company_member_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER SEQUENCE public.waitlist_entry_id_seq OWNED BY public.waitlist_entry.id;
+ALTER TABLE ONLY public.company_member
+    ADD CONSTRAINT company_member_pkey PRIMARY KEY (company_id, player_minecraft_uuid);
 
 
 --
--- Name: admin_log_action id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: company_member company_member_player_minecraft_uuid_key; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.admin_log_action ALTER COLUMN id SET DEFAULT nextval('public.admin_log_action_id_seq'::regclass);
+ALTER TABLE ONLY public.company_member
+    ADD CONSTRAINT company_member_player_minecraft_uuid_key UNIQUE (player_minecraft_uuid);
 
 
 --
--- Name: discord_guild_member_join join_number; Type: DEFAULT; Schema: public; Owner: -
+-- Name: company company_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.discord_guild_member_join ALTER COLUMN join_number SET DEFAULT nextval('public.discord_guild_member_join_join_number_seq'::regclass);
+ALTER TABLE ONLY public.company
+    ADD CONSTRAINT company_pkey PRIMARY KEY (id);
 
 
 --
--- Name: discord_guild_member_leave id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: company_transaction company_transaction_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.discord_guild_member_leave ALTER COLUMN id SET DEFAULT nextval('public.discord_guild_member_leave_id_seq'::regclass);
+ALTER TABLE ONLY public.company_transaction
+    ADD CONSTRAINT company_transaction_pkey PRIMARY KEY (id);
 
 
 --
--- Name: leaderboard_message id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: discord_guild_member_join discord_guild_member_join_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.leaderboard_message ALTER COLUMN id SET DEFAULT nextval('public.leaderboard_message_id_seq'::regclass);
+ALTER TABLE ONLY public.discord_guild_member_join
+    ADD CONSTRAINT discord_guild_member_join_pkey PRIMARY KEY (join_number);
 
 
 --
--- Name: player id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: discord_guild_member_leave discord_guild_member_leave_discord_id_key; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.player ALTER COLUMN id SET DEFAULT nextval('public.player_id_seq'::regclass);
+ALTER TABLE ONLY public.discord_guild_member_leave
+    ADD CONSTRAINT discord_guild_member_leave_discord_id_key UNIQUE (discord_id);
 
 
 --
--- Name: player_balance_transaction id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: discord_guild_member_leave discord_guild_member_leave_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.player_balance_transaction ALTER COLUMN id SET DEFAULT nextval('public.player_balance_transaction_id_seq'::regclass);
+ALTER TABLE ONLY public.discord_guild_member_leave
+    ADD CONSTRAINT discord_guild_member_leave_pkey PRIMARY KEY (id);
 
 
 --
--- Name: player_session id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: economy_invoice economy_invoice_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.player_session ALTER COLUMN id SET DEFAULT nextval('public.player_session_id_seq'::regclass);
+ALTER TABLE ONLY public.economy_invoice
+    ADD CONSTRAINT economy_invoice_pkey PRIMARY KEY (id);
 
 
 --
--- Name: reward_claim id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: economy_request economy_request_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.reward_claim ALTER COLUMN id SET DEFAULT nextval('public.reward_claim_id_seq'::regclass);
+ALTER TABLE ONLY public.economy_request
+    ADD CONSTRAINT economy_request_pkey PRIMARY KEY (idempotency_key);
 
 
 --
--- Name: server id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: economy_treasury economy_treasury_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.server ALTER COLUMN id SET DEFAULT nextval('public.server_id_seq'::regclass);
+ALTER TABLE ONLY public.economy_treasury
+    ADD CONSTRAINT economy_treasury_pkey PRIMARY KEY (id);
 
 
 --
--- Name: ticket id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: economy_treasury_transaction economy_treasury_transaction_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.ticket ALTER COLUMN id SET DEFAULT nextval('public.ticket_id_seq'::regclass);
+ALTER TABLE ONLY public.economy_treasury_transaction
+    ADD CONSTRAINT economy_treasury_transaction_pkey PRIMARY KEY (id);
 
 
 --
--- Name: ticket_action id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: exchange_asset exchange_asset_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.ticket_action ALTER COLUMN id SET DEFAULT nextval('public.ticket_action_id_seq'::regclass);
+ALTER TABLE ONLY public.exchange_asset
+    ADD CONSTRAINT exchange_asset_pkey PRIMARY KEY (symbol);
 
 
 --
--- Name: waitlist_entry id; Type: DEFAULT; Schema: public; Owner: -
+-- Name: exchange_holding exchange_holding_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.waitlist_entry ALTER COLUMN id SET DEFAULT nextval('public.waitlist_entry_id_seq'::regclass);
+ALTER TABLE ONLY public.exchange_holding
+    ADD CONSTRAINT exchange_holding_pkey PRIMARY KEY (player_minecraft_uuid, asset_symbol);
 
 
 --
--- Name: admin_log_action admin_log_action_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+-- Name: exchange_price exchange_price_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.admin_log_action
-    ADD CONSTRAINT admin_log_action_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.exchange_price
+    ADD CONSTRAINT exchange_price_pkey PRIMARY KEY (id);
 
 
 --
--- Name: admin admin_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+-- Name: exchange_trade exchange_trade_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.admin
-    ADD CONSTRAINT admin_pkey PRIMARY KEY (discord_id);
+ALTER TABLE ONLY public.exchange_trade
+    ADD CONSTRAINT exchange_trade_pkey PRIMARY KEY (id);
 
 
 --
--- Name: discord_guild_member_join discord_guild_member_join_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+-- Name: discord_guild_member_join idx_user_id; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
 ALTER TABLE ONLY public.discord_guild_member_join
-    ADD CONSTRAINT discord_guild_member_join_pkey PRIMARY KEY (join_number);
+    ADD CONSTRAINT idx_user_id UNIQUE (user_id);
 
 
 --
--- Name: discord_guild_member_leave discord_guild_member_leave_discord_id_key; Type: CONSTRAINT; Schema: public; Owner: -
+-- Name: leaderboard_message leaderboard_message_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.discord_guild_member_leave
-    ADD CONSTRAINT discord_guild_member_leave_discord_id_key UNIQUE (discord_id);
+ALTER TABLE ONLY public.leaderboard_message
+    ADD CONSTRAINT leaderboard_message_pkey PRIMARY KEY (id);
 
 
 --
--- Name: discord_guild_member_leave discord_guild_member_leave_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+-- Name: market_listing market_listing_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.discord_guild_member_leave
-    ADD CONSTRAINT discord_guild_member_leave_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.market_listing
+    ADD CONSTRAINT market_listing_pkey PRIMARY KEY (id);
 
 
 --
--- Name: discord_guild_member_join idx_user_id; Type: CONSTRAINT; Schema: public; Owner: -
+-- Name: market_purchase market_purchase_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.discord_guild_member_join
-    ADD CONSTRAINT idx_user_id UNIQUE (user_id);
+ALTER TABLE ONLY public.market_purchase
+    ADD CONSTRAINT market_purchase_pkey PRIMARY KEY (id);
 
 
 --
--- Name: leaderboard_message leaderboard_message_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+-- Name: market_request market_request_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
 
-ALTER TABLE ONLY public.leaderboard_message
-    ADD CONSTRAINT leaderboard_message_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.market_request
+    ADD CONSTRAINT market_request_pkey PRIMARY KEY (id);
 
 
 --
@@ -1057,6 +2557,14 @@ ALTER TABLE ONLY public.player_balance_transaction
     ADD CONSTRAINT player_balance_transaction_pkey PRIMARY KEY (id);
 
 
+--
+-- Name: player_balance_transaction uq_balance_transaction_reversed; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_balance_transaction
+    ADD CONSTRAINT uq_balance_transaction_reversed UNIQUE (reversed_transaction_id);
+
+
 --
 -- Name: player player_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
@@ -1073,6 +2581,14 @@ ALTER TABLE ONLY public.player_playtime_daily
     ADD CONSTRAINT player_playtime_daily_pkey PRIMARY KEY (player_minecraft_uuid, server_id, play_date);
 
 
+--
+-- Name: player_playtime_dimension_daily player_playtime_dimension_daily_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_playtime_dimension_daily
+    ADD CONSTRAINT player_playtime_dimension_daily_pkey PRIMARY KEY (player_minecraft_uuid, server_id, play_date, dimension);
+
+
 --
 -- Name: player_playtime_hourly player_playtime_hourly_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
@@ -1089,6 +2605,38 @@ ALTER TABLE ONLY public.player_playtime_summary
     ADD CONSTRAINT player_playtime_summary_pkey PRIMARY KEY (player_minecraft_uuid, server_id);
 
 
+--
+-- Name: player_session_afk player_session_afk_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_afk
+    ADD CONSTRAINT player_session_afk_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: player_session_dimension player_session_dimension_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_dimension
+    ADD CONSTRAINT player_session_dimension_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: player_session_flag player_session_flag_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_flag
+    ADD CONSTRAINT player_session_flag_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: player_session_flag player_session_flag_session_id_reason_key; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_flag
+    ADD CONSTRAINT player_session_flag_session_id_reason_key UNIQUE (session_id, reason);
+
+
 --
 -- Name: player_session player_session_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
@@ -1097,6 +2645,14 @@ ALTER TABLE ONLY public.player_session
     ADD CONSTRAINT player_session_pkey PRIMARY KEY (id);
 
 
+--
+-- Name: playtime_recap playtime_recap_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.playtime_recap
+    ADD CONSTRAINT playtime_recap_pkey PRIMARY KEY (id);
+
+
 --
 -- Name: reward_claim reward_claim_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
@@ -1129,6 +2685,22 @@ ALTER TABLE ONLY public.server
     ADD CONSTRAINT server_name_key UNIQUE (name);
 
 
+--
+-- Name: server_online_hourly server_online_hourly_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.server_online_hourly
+    ADD CONSTRAINT server_online_hourly_pkey PRIMARY KEY (server_id, sample_hour);
+
+
+--
+-- Name: server_online_sample server_online_sample_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.server_online_sample
+    ADD CONSTRAINT server_online_sample_pkey PRIMARY KEY (id);
+
+
 --
 -- Name: server server_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
@@ -1161,6 +2733,14 @@ ALTER TABLE ONLY public.ticket
     ADD CONSTRAINT ticket_pkey PRIMARY KEY (id);
 
 
+--
+-- Name: trade_offer trade_offer_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.trade_offer
+    ADD CONSTRAINT trade_offer_pkey PRIMARY KEY (id);
+
+
 --
 -- Name: waitlist_entry uq_discord_id; Type: CONSTRAINT; Schema: public; Owner: -
 --
@@ -1201,6 +2781,14 @@ ALTER TABLE ONLY public.player
     ADD CONSTRAINT uq_player_minecraft_uuid UNIQUE (minecraft_uuid);
 
 
+--
+-- Name: playtime_recap uq_playtime_recap_period; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.playtime_recap
+    ADD CONSTRAINT uq_playtime_recap_period UNIQUE (period_start, kind);
+
+
 --
 -- Name: waitlist_entry uq_token; Type: CONSTRAINT; Schema: public; Owner: -
 --
@@ -1241,101 +2829,227 @@ CREATE INDEX idx_balance_transaction_created ON public.player_balance_transactio
 
 
 --
--- Name: idx_balance_transaction_player; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_balance_transaction_player; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_balance_transaction_player ON public.player_balance_transaction USING btree (player_minecraft_uuid);
+
+
+--
+-- Name: idx_balance_transaction_related; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_balance_transaction_related ON public.player_balance_transaction USING btree (related_player_uuid) WHERE (related_player_uuid IS NOT NULL);
+
+
+--
+-- Name: idx_balance_transaction_type; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_balance_transaction_type ON public.player_balance_transaction USING btree (transaction_type);
+
+
+--
+-- Name: idx_company_name_lower; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE UNIQUE INDEX idx_company_name_lower ON public.company USING btree (lower((name)::text));
+
+
+--
+-- Name: idx_company_transaction_company_created_at; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_company_transaction_company_created_at ON public.company_transaction USING btree (company_id, created_at DESC);
+
+
+--
+-- Name: idx_discord_guild_member_join_joined_at; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_discord_guild_member_join_joined_at ON public.discord_guild_member_join USING btree (joined_at DESC);
+
+
+--
+-- Name: idx_discord_guild_member_leave_deleted_at; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_discord_guild_member_leave_deleted_at ON public.discord_guild_member_leave USING btree (departed_at) WHERE (deleted_at IS NULL);
+
+
+--
+-- Name: idx_discord_guild_member_leave_departed_at; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_discord_guild_member_leave_departed_at ON public.discord_guild_member_leave USING btree (departed_at);
+
+
+--
+-- Name: idx_discord_guild_member_leave_discord_id; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_discord_guild_member_leave_discord_id ON public.discord_guild_member_leave USING btree (discord_id);
+
+
+--
+-- Name: idx_discord_guild_member_leave_minecraft_uuid; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_discord_guild_member_leave_minecraft_uuid ON public.discord_guild_member_leave USING btree (minecraft_uuid);
+
+
+--
+-- Name: idx_economy_invoice_issuer; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_economy_invoice_issuer ON public.economy_invoice USING btree (issuer_minecraft_uuid);
+
+
+--
+-- Name: idx_economy_invoice_payer; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_economy_invoice_payer ON public.economy_invoice USING btree (payer_minecraft_uuid);
+
+
+--
+-- Name: idx_economy_invoice_status_expires_at; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_economy_invoice_status_expires_at ON public.economy_invoice USING btree (status, expires_at);
+
+
+--
+-- Name: idx_economy_request_created_at; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_economy_request_created_at ON public.economy_request USING btree (created_at);
+
+
+--
+-- Name: idx_economy_request_player; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_economy_request_player ON public.economy_request USING btree (player_minecraft_uuid);
+
+
+--
+-- Name: idx_economy_treasury_transaction_created_at; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_economy_treasury_transaction_created_at ON public.economy_treasury_transaction USING btree (treasury_id, created_at DESC);
+
+
+--
+-- Name: idx_exchange_holding_asset; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_exchange_holding_asset ON public.exchange_holding USING btree (asset_symbol);
+
+
+--
+-- Name: idx_exchange_price_asset_recorded_at; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_exchange_price_asset_recorded_at ON public.exchange_price USING btree (asset_symbol, recorded_at DESC);
+
+
+--
+-- Name: idx_exchange_trade_player_created_at; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_balance_transaction_player ON public.player_balance_transaction USING btree (player_minecraft_uuid);
+CREATE INDEX idx_exchange_trade_player_created_at ON public.exchange_trade USING btree (player_minecraft_uuid, created_at DESC);
 
 
 --
--- Name: idx_balance_transaction_related; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_leaderboard_type; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_balance_transaction_related ON public.player_balance_transaction USING btree (related_player_uuid) WHERE (related_player_uuid IS NOT NULL);
+CREATE INDEX idx_leaderboard_type ON public.leaderboard_message USING btree (leaderboard_type);
 
 
 --
--- Name: idx_balance_transaction_type; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_log_actions_action_type; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_balance_transaction_type ON public.player_balance_transaction USING btree (transaction_type);
+CREATE INDEX idx_log_actions_action_type ON public.admin_log_action USING btree (action_type);
 
 
 --
--- Name: idx_discord_guild_member_join_joined_at; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_log_actions_admin; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_discord_guild_member_join_joined_at ON public.discord_guild_member_join USING btree (joined_at DESC);
+CREATE INDEX idx_log_actions_admin ON public.admin_log_action USING btree (admin_discord_id);
 
 
 --
--- Name: idx_discord_guild_member_leave_deleted_at; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_log_actions_performed_at; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_discord_guild_member_leave_deleted_at ON public.discord_guild_member_leave USING btree (departed_at) WHERE (deleted_at IS NULL);
+CREATE INDEX idx_log_actions_performed_at ON public.admin_log_action USING btree (performed_at DESC);
 
 
 --
--- Name: idx_discord_guild_member_leave_departed_at; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_log_actions_table_name; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_discord_guild_member_leave_departed_at ON public.discord_guild_member_leave USING btree (departed_at);
+CREATE INDEX idx_log_actions_table_name ON public.admin_log_action USING btree (table_name);
 
 
 --
--- Name: idx_discord_guild_member_leave_discord_id; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_log_actions_target; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_discord_guild_member_leave_discord_id ON public.discord_guild_member_leave USING btree (discord_id);
+CREATE INDEX idx_log_actions_target ON public.admin_log_action USING btree (target_player_uuid);
 
 
 --
--- Name: idx_discord_guild_member_leave_minecraft_uuid; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_market_listing_seller; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_discord_guild_member_leave_minecraft_uuid ON public.discord_guild_member_leave USING btree (minecraft_uuid);
+CREATE INDEX idx_market_listing_seller ON public.market_listing USING btree (seller_minecraft_uuid);
 
 
 --
--- Name: idx_leaderboard_type; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_market_listing_status_created_at; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_leaderboard_type ON public.leaderboard_message USING btree (leaderboard_type);
+CREATE INDEX idx_market_listing_status_created_at ON public.market_listing USING btree (status, created_at DESC);
 
 
 --
--- Name: idx_log_actions_action_type; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_market_purchase_buyer; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_log_actions_action_type ON public.admin_log_action USING btree (action_type);
+CREATE INDEX idx_market_purchase_buyer ON public.market_purchase USING btree (buyer_minecraft_uuid);
 
 
 --
--- Name: idx_log_actions_admin; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_market_purchase_listing; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_log_actions_admin ON public.admin_log_action USING btree (admin_discord_id);
+CREATE INDEX idx_market_purchase_listing ON public.market_purchase USING btree (listing_id);
 
 
 --
--- Name: idx_log_actions_performed_at; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_market_request_fulfiller; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_log_actions_performed_at ON public.admin_log_action USING btree (performed_at DESC);
+CREATE INDEX idx_market_request_fulfiller ON public.market_request USING btree (fulfiller_minecraft_uuid);
 
 
 --
--- Name: idx_log_actions_table_name; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_market_request_requester; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_log_actions_table_name ON public.admin_log_action USING btree (table_name);
+CREATE INDEX idx_market_request_requester ON public.market_request USING btree (requester_minecraft_uuid);
 
 
 --
--- Name: idx_log_actions_target; Type: INDEX; Schema: public; Owner: -
+-- Name: idx_market_request_status_expires_at; Type: INDEX; Schema: public; Owner: -
 --
 
-CREATE INDEX idx_log_actions_target ON public.admin_log_action USING btree (target_player_uuid);
+CREATE INDEX idx_market_request_status_expires_at ON public.market_request USING btree (status, expires_at);
 
 
 --
@@ -1401,6 +3115,13 @@ CREATE INDEX idx_player_online ON public.player USING btree (online) WHERE (onli
 CREATE INDEX idx_player_playtime_daily_date ON public.player_playtime_daily USING btree (play_date);
 
 
+--
+-- Name: idx_player_playtime_dimension_daily_date; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_player_playtime_dimension_daily_date ON public.player_playtime_dimension_daily USING btree (play_date);
+
+
 --
 -- Name: idx_player_playtime_hourly_date; Type: INDEX; Schema: public; Owner: -
 --
@@ -1429,6 +3150,13 @@ CREATE INDEX idx_player_playtime_summary_total ON public.player_playtime_summary
 CREATE INDEX idx_player_session_active ON public.player_session USING btree (player_minecraft_uuid, server_id) WHERE (session_end IS NULL);
 
 
+--
+-- Name: idx_player_session_afk_session; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_player_session_afk_session ON public.player_session_afk USING btree (session_id);
+
+
 --
 -- Name: idx_player_session_date_range; Type: INDEX; Schema: public; Owner: -
 --
@@ -1436,6 +3164,13 @@ CREATE INDEX idx_player_session_active ON public.player_session USING btree (pla
 CREATE INDEX idx_player_session_date_range ON public.player_session USING btree (player_minecraft_uuid, session_start, session_end);
 
 
+--
+-- Name: idx_player_session_dimension_session; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_player_session_dimension_session ON public.player_session_dimension USING btree (session_id);
+
+
 --
 -- Name: idx_player_session_player; Type: INDEX; Schema: public; Owner: -
 --
@@ -1464,6 +3199,13 @@ CREATE INDEX idx_player_session_start ON public.player_session USING btree (sess
 CREATE INDEX idx_reward_claim_claimed_at ON public.reward_claim USING btree (claimed_at);
 
 
+--
+-- Name: idx_reward_claim_milestone; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE UNIQUE INDEX idx_reward_claim_milestone ON public.reward_claim USING btree (player_minecraft_uuid, reward_type, ((metadata ->> 'milestoneSeconds'::text))) WHERE (metadata ? 'milestoneSeconds'::text);
+
+
 --
 -- Name: idx_reward_claim_player; Type: INDEX; Schema: public; Owner: -
 --
@@ -1485,6 +3227,20 @@ CREATE INDEX idx_reward_claim_player_type ON public.reward_claim USING btree (pl
 CREATE INDEX idx_reward_claim_type ON public.reward_claim USING btree (reward_type);
 
 
+--
+-- Name: idx_server_online_hourly_peak; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_server_online_hourly_peak ON public.server_online_hourly USING btree (server_id, peak_players DESC);
+
+
+--
+-- Name: idx_server_online_sample_server_time; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_server_online_sample_server_time ON public.server_online_sample USING btree (server_id, sampled_at);
+
+
 --
 -- Name: idx_ticket_action_ticket; Type: INDEX; Schema: public; Owner: -
 --
@@ -1527,6 +3283,27 @@ CREATE INDEX idx_ticket_status ON public.ticket USING btree (status);
 CREATE INDEX idx_ticket_type ON public.ticket USING btree (type);
 
 
+--
+-- Name: idx_trade_offer_recipient; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_trade_offer_recipient ON public.trade_offer USING btree (recipient_minecraft_uuid);
+
+
+--
+-- Name: idx_trade_offer_sender; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_trade_offer_sender ON public.trade_offer USING btree (sender_minecraft_uuid);
+
+
+--
+-- Name: idx_trade_offer_status_expires_at; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX idx_trade_offer_status_expires_at ON public.trade_offer USING btree (status, expires_at);
+
+
 --
 -- Name: idx_waitlist_discord_message_id; Type: INDEX; Schema: public; Owner: -
 --
@@ -1569,6 +3346,13 @@ CREATE TRIGGER trigger_sync_player_online AFTER INSERT OR UPDATE ON public.playe
 CREATE TRIGGER trigger_update_playtime_aggregates AFTER INSERT OR UPDATE OF session_end ON public.player_session FOR EACH ROW EXECUTE FUNCTION public.update_playtime_aggregates();
 
 
+--
+-- Name: server_online_sample trigger_update_server_online_hourly; Type: TRIGGER; Schema: public; Owner: -
+--
+
+CREATE TRIGGER trigger_update_server_online_hourly AFTER INSERT ON public.server_online_sample FOR EACH ROW EXECUTE FUNCTION public.update_server_online_hourly();
+
+
 --
 -- Name: player_balance update_player_balance_updated_at; Type: TRIGGER; Schema: public; Owner: -
 --
@@ -1599,6 +3383,134 @@ ALTER TABLE ONLY public.admin_log_action
     ADD CONSTRAINT admin_log_action_server_id_fkey FOREIGN KEY (server_id) REFERENCES public.server(id) ON UPDATE CASCADE ON DELETE CASCADE;
 
 
+--
+-- Name: company_member company_member_company_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.company_member
+    ADD CONSTRAINT company_member_company_id_fkey FOREIGN KEY (company_id) REFERENCES public.company(id) ON DELETE CASCADE;
+
+
+--
+-- Name: company_member company_member_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.company_member
+    ADD CONSTRAINT company_member_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- Name: company company_owner_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.company
+    ADD CONSTRAINT company_owner_minecraft_uuid_fkey FOREIGN KEY (owner_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE;
+
+
+--
+-- Name: company_transaction company_transaction_company_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.company_transaction
+    ADD CONSTRAINT company_transaction_company_id_fkey FOREIGN KEY (company_id) REFERENCES public.company(id) ON DELETE CASCADE;
+
+
+--
+-- Name: company_transaction company_transaction_performed_by_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.company_transaction
+    ADD CONSTRAINT company_transaction_performed_by_uuid_fkey FOREIGN KEY (performed_by_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE SET NULL;
+
+
+--
+-- Name: company_transaction company_transaction_related_player_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.company_transaction
+    ADD CONSTRAINT company_transaction_related_player_uuid_fkey FOREIGN KEY (related_player_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE SET NULL;
+
+
+--
+-- Name: economy_invoice economy_invoice_issuer_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.economy_invoice
+    ADD CONSTRAINT economy_invoice_issuer_minecraft_uuid_fkey FOREIGN KEY (issuer_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: economy_invoice economy_invoice_payer_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.economy_invoice
+    ADD CONSTRAINT economy_invoice_payer_minecraft_uuid_fkey FOREIGN KEY (payer_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: economy_request economy_request_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.economy_request
+    ADD CONSTRAINT economy_request_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- Name: economy_treasury_transaction economy_treasury_transaction_related_player_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.economy_treasury_transaction
+    ADD CONSTRAINT economy_treasury_transaction_related_player_uuid_fkey FOREIGN KEY (related_player_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE SET NULL;
+
+
+--
+-- Name: economy_treasury_transaction economy_treasury_transaction_treasury_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.economy_treasury_transaction
+    ADD CONSTRAINT economy_treasury_transaction_treasury_id_fkey FOREIGN KEY (treasury_id) REFERENCES public.economy_treasury(id) ON DELETE CASCADE;
+
+
+--
+-- Name: exchange_holding exchange_holding_asset_symbol_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.exchange_holding
+    ADD CONSTRAINT exchange_holding_asset_symbol_fkey FOREIGN KEY (asset_symbol) REFERENCES public.exchange_asset(symbol) ON DELETE CASCADE;
+
+
+--
+-- Name: exchange_holding exchange_holding_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.exchange_holding
+    ADD CONSTRAINT exchange_holding_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: exchange_price exchange_price_asset_symbol_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.exchange_price
+    ADD CONSTRAINT exchange_price_asset_symbol_fkey FOREIGN KEY (asset_symbol) REFERENCES public.exchange_asset(symbol) ON DELETE CASCADE;
+
+
+--
+-- Name: exchange_trade exchange_trade_asset_symbol_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.exchange_trade
+    ADD CONSTRAINT exchange_trade_asset_symbol_fkey FOREIGN KEY (asset_symbol) REFERENCES public.exchange_asset(symbol) ON DELETE CASCADE;
+
+
+--
+-- Name: exchange_trade exchange_trade_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.exchange_trade
+    ADD CONSTRAINT exchange_trade_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
 --
 -- Name: player_balance fk_player; Type: FK CONSTRAINT; Schema: public; Owner: -
 --
@@ -1623,6 +3535,62 @@ ALTER TABLE ONLY public.player_balance_transaction
     ADD CONSTRAINT fk_related_player FOREIGN KEY (related_player_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE SET NULL;
 
 
+--
+-- Name: player_balance_transaction fk_reversed_transaction; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_balance_transaction
+    ADD CONSTRAINT fk_reversed_transaction FOREIGN KEY (reversed_transaction_id) REFERENCES public.player_balance_transaction(id) ON DELETE SET NULL;
+
+
+--
+-- Name: market_listing market_listing_seller_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.market_listing
+    ADD CONSTRAINT market_listing_seller_minecraft_uuid_fkey FOREIGN KEY (seller_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: market_purchase market_purchase_buyer_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.market_purchase
+    ADD CONSTRAINT market_purchase_buyer_minecraft_uuid_fkey FOREIGN KEY (buyer_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: market_purchase market_purchase_listing_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.market_purchase
+    ADD CONSTRAINT market_purchase_listing_id_fkey FOREIGN KEY (listing_id) REFERENCES public.market_listing(id) ON DELETE CASCADE;
+
+
+--
+-- Name: market_purchase market_purchase_seller_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.market_purchase
+    ADD CONSTRAINT market_purchase_seller_minecraft_uuid_fkey FOREIGN KEY (seller_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: market_request market_request_fulfiller_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.market_request
+    ADD CONSTRAINT market_request_fulfiller_minecraft_uuid_fkey FOREIGN KEY (fulfiller_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE SET NULL;
+
+
+--
+-- Name: market_request market_request_requester_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.market_request
+    ADD CONSTRAINT market_request_requester_minecraft_uuid_fkey FOREIGN KEY (requester_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
 --
 -- Name: player player_current_server_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
 --
@@ -1647,6 +3615,22 @@ ALTER TABLE ONLY public.player_playtime_daily
     ADD CONSTRAINT player_playtime_daily_server_id_fkey FOREIGN KEY (server_id) REFERENCES public.server(id) ON UPDATE CASCADE ON DELETE CASCADE;
 
 
+--
+-- Name: player_playtime_dimension_daily player_playtime_dimension_daily_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_playtime_dimension_daily
+    ADD CONSTRAINT player_playtime_dimension_daily_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- Name: player_playtime_dimension_daily player_playtime_dimension_daily_server_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_playtime_dimension_daily
+    ADD CONSTRAINT player_playtime_dimension_daily_server_id_fkey FOREIGN KEY (server_id) REFERENCES public.server(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
 --
 -- Name: player_playtime_hourly player_playtime_hourly_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
 --
@@ -1679,6 +3663,38 @@ ALTER TABLE ONLY public.player_playtime_summary
     ADD CONSTRAINT player_playtime_summary_server_id_fkey FOREIGN KEY (server_id) REFERENCES public.server(id) ON UPDATE CASCADE ON DELETE CASCADE;
 
 
+--
+-- Name: player_session_afk player_session_afk_session_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_afk
+    ADD CONSTRAINT player_session_afk_session_id_fkey FOREIGN KEY (session_id) REFERENCES public.player_session(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- Name: player_session_dimension player_session_dimension_session_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_dimension
+    ADD CONSTRAINT player_session_dimension_session_id_fkey FOREIGN KEY (session_id) REFERENCES public.player_session(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- Name: player_session_flag player_session_flag_related_session_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_flag
+    ADD CONSTRAINT player_session_flag_related_session_id_fkey FOREIGN KEY (related_session_id) REFERENCES public.player_session(id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+
+--
+-- Name: player_session_flag player_session_flag_session_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.player_session_flag
+    ADD CONSTRAINT player_session_flag_session_id_fkey FOREIGN KEY (session_id) REFERENCES public.player_session(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
 --
 -- Name: player_session player_session_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
 --
@@ -1703,6 +3719,22 @@ ALTER TABLE ONLY public.reward_claim
     ADD CONSTRAINT reward_claim_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
 
 
+--
+-- Name: server_online_hourly server_online_hourly_server_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.server_online_hourly
+    ADD CONSTRAINT server_online_hourly_server_id_fkey FOREIGN KEY (server_id) REFERENCES public.server(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- Name: server_online_sample server_online_sample_server_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.server_online_sample
+    ADD CONSTRAINT server_online_sample_server_id_fkey FOREIGN KEY (server_id) REFERENCES public.server(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
 --
 -- Name: ticket_action ticket_action_ticket_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
 --
@@ -1711,6 +3743,22 @@ ALTER TABLE ONLY public.ticket_action
     ADD CONSTRAINT ticket_action_ticket_id_fkey FOREIGN KEY (ticket_id) REFERENCES public.ticket(id) ON DELETE CASCADE;
 
 
+--
+-- Name: trade_offer trade_offer_recipient_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.trade_offer
+    ADD CONSTRAINT trade_offer_recipient_minecraft_uuid_fkey FOREIGN KEY (recipient_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: trade_offer trade_offer_sender_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.trade_offer
+    ADD CONSTRAINT trade_offer_sender_minecraft_uuid_fkey FOREIGN KEY (sender_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
 --
 -- PostgreSQL database dump complete
 --
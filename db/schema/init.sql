@@ -1,6 +1,6 @@
 -- Auto-generated schema initialization file
 -- This file sources all individual type, table and function files
--- Generated at: 2026-01-29T14:54:18.180Z
+-- Generated at: 2026-10-19T20:18:47.785Z
 
 -- ============================================================================
 -- CUSTOM TYPES (ENUMS)
@@ -15,27 +15,52 @@
 
 \i tables/00_admin.sql
 \i tables/01_admin_log_action.sql
-\i tables/02_discord_guild_member_join.sql
-\i tables/03_discord_guild_member_leave.sql
-\i tables/04_leaderboard_message.sql
-\i tables/05_player.sql
-\i tables/06_player_balance.sql
-\i tables/07_player_balance_transaction.sql
-\i tables/08_player_playtime_daily.sql
-\i tables/09_player_playtime_hourly.sql
-\i tables/10_player_playtime_summary.sql
-\i tables/11_player_session.sql
-\i tables/12_reward_claim.sql
-\i tables/13_server.sql
-\i tables/14_ticket.sql
-\i tables/15_ticket_action.sql
-\i tables/16_waitlist_entry.sql
+\i tables/02_company.sql
+\i tables/03_company_member.sql
+\i tables/04_company_transaction.sql
+\i tables/05_discord_guild_member_join.sql
+\i tables/06_discord_guild_member_leave.sql
+\i tables/07_economy_invoice.sql
+\i tables/08_economy_request.sql
+\i tables/09_economy_treasury.sql
+\i tables/10_economy_treasury_transaction.sql
+\i tables/11_exchange_asset.sql
+\i tables/12_exchange_holding.sql
+\i tables/13_exchange_price.sql
+\i tables/14_exchange_trade.sql
+\i tables/15_leaderboard_message.sql
+\i tables/16_market_listing.sql
+\i tables/17_market_purchase.sql
+\i tables/18_market_request.sql
+\i tables/19_player.sql
+\i tables/20_player_balance.sql
+\i tables/21_player_balance_transaction.sql
+\i tables/22_player_playtime_daily.sql
+\i tables/23_player_playtime_dimension_daily.sql
+\i tables/24_player_playtime_hourly.sql
+\i tables/25_player_playtime_summary.sql
+\i tables/26_player_session.sql
+\i tables/27_player_session_afk.sql
+\i tables/28_player_session_dimension.sql
+\i tables/29_player_session_flag.sql
+\i tables/30_playtime_recap.sql
+\i tables/31_reward_claim.sql
+\i tables/32_server.sql
+\i tables/33_server_online_hourly.sql
+\i tables/34_server_online_sample.sql
+\i tables/35_ticket.sql
+\i tables/36_ticket_action.sql
+\i tables/37_trade_offer.sql
+\i tables/38_waitlist_entry.sql
 
 -- ============================================================================
 -- FUNCTIONS
 -- ============================================================================
 
 \i functions/00_cleanup_old_waitlist_entries.sql
-\i functions/01_sync_player_online_status.sql
-\i functions/02_update_playtime_aggregates.sql
-\i functions/03_update_updated_at_column.sql
+\i functions/01_rebuild_playtime_aggregates.sql
+\i functions/02_session_afk_seconds.sql
+\i functions/03_sync_player_online_status.sql
+\i functions/04_update_playtime_aggregates.sql
+\i functions/05_update_server_online_hourly.sql
+\i functions/06_update_updated_at_column.sql
@@ -0,0 +1,87 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: company_member; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.company_member (
+    company_id integer NOT NULL,
+    player_minecraft_uuid uuid NOT NULL,
+    role character varying(16) DEFAULT 'employee'::character varying NOT NULL,
+    salary bigint DEFAULT 0 NOT NULL,
+    joined_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT company_member_role_check CHECK (((role)::text = ANY ((ARRAY['owner'::character varying, 'manager'::character varying, 'employee'::character varying])::text[]))),
+    CONSTRAINT company_member_salary_non_negative CHECK ((salary >= 0))
+);
+
+
+ALTER TABLE public.company_member OWNER TO postgres;
+
+--
+-- Name: TABLE company_member; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.company_member IS 'Company membership and roles, a player belongs to at most one company';
+
+
+--
+-- Name: COLUMN company_member.salary; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.company_member.salary IS 'Amount paid to the member on each payroll run in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: company_member company_member_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.company_member
+    ADD CONSTRAINT company_member_pkey PRIMARY KEY (company_id, player_minecraft_uuid);
+
+
+--
+-- Name: company_member company_member_player_minecraft_uuid_key; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.company_member
+    ADD CONSTRAINT company_member_player_minecraft_uuid_key UNIQUE (player_minecraft_uuid);
+
+
+--
+-- Name: company_member company_member_company_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.company_member
+    ADD CONSTRAINT company_member_company_id_fkey FOREIGN KEY (company_id) REFERENCES public.company(id) ON DELETE CASCADE;
+
+
+--
+-- Name: company_member company_member_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.company_member
+    ADD CONSTRAINT company_member_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
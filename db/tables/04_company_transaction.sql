@@ -0,0 +1,141 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: company_transaction; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.company_transaction (
+    id integer NOT NULL,
+    company_id integer NOT NULL,
+    amount bigint NOT NULL,
+    balance_before bigint NOT NULL,
+    balance_after bigint NOT NULL,
+    transaction_type character varying(32) NOT NULL,
+    description text,
+    related_player_uuid uuid,
+    performed_by_uuid uuid,
+    metadata jsonb DEFAULT '{}'::jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+
+ALTER TABLE public.company_transaction OWNER TO postgres;
+
+--
+-- Name: TABLE company_transaction; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.company_transaction IS 'Ledger of every change to a company balance';
+
+
+--
+-- Name: COLUMN company_transaction.amount; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.company_transaction.amount IS 'Signed amount in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN company_transaction.related_player_uuid; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.company_transaction.related_player_uuid IS 'Player whose balance moved in the opposite direction';
+
+
+--
+-- Name: COLUMN company_transaction.performed_by_uuid; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.company_transaction.performed_by_uuid IS 'Member who made the change';
+
+
+--
+-- Name: company_transaction_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.company_transaction_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.company_transaction_id_seq OWNER TO postgres;
+
+--
+-- Name: company_transaction_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.company_transaction_id_seq OWNED BY public.company_transaction.id;
+
+
+--
+-- Name: company_transaction id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.company_transaction ALTER COLUMN id SET DEFAULT nextval('public.company_transaction_id_seq'::regclass);
+
+
+--
+-- Name: company_transaction company_transaction_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.company_transaction
+    ADD CONSTRAINT company_transaction_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_company_transaction_company_created_at; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_company_transaction_company_created_at ON public.company_transaction USING btree (company_id, created_at DESC);
+
+
+--
+-- Name: company_transaction company_transaction_company_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.company_transaction
+    ADD CONSTRAINT company_transaction_company_id_fkey FOREIGN KEY (company_id) REFERENCES public.company(id) ON DELETE CASCADE;
+
+
+--
+-- Name: company_transaction company_transaction_performed_by_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.company_transaction
+    ADD CONSTRAINT company_transaction_performed_by_uuid_fkey FOREIGN KEY (performed_by_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE SET NULL;
+
+
+--
+-- Name: company_transaction company_transaction_related_player_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.company_transaction
+    ADD CONSTRAINT company_transaction_related_player_uuid_fkey FOREIGN KEY (related_player_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE SET NULL;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
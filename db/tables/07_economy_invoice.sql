@@ -0,0 +1,171 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: economy_invoice; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.economy_invoice (
+    id integer NOT NULL,
+    issuer_minecraft_uuid uuid NOT NULL,
+    payer_minecraft_uuid uuid NOT NULL,
+    amount bigint NOT NULL,
+    note text,
+    status character varying(16) DEFAULT 'pending'::character varying NOT NULL,
+    discord_channel_id character varying(32),
+    discord_message_id character varying(32),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    resolved_at timestamp with time zone,
+    CONSTRAINT economy_invoice_amount_positive CHECK ((amount > 0)),
+    CONSTRAINT economy_invoice_distinct_players CHECK ((issuer_minecraft_uuid <> payer_minecraft_uuid)),
+    CONSTRAINT economy_invoice_status_check CHECK (((status)::text = ANY ((ARRAY['pending'::character varying, 'paid'::character varying, 'declined'::character varying, 'cancelled'::character varying, 'expired'::character varying])::text[])))
+);
+
+
+ALTER TABLE public.economy_invoice OWNER TO postgres;
+
+--
+-- Name: TABLE economy_invoice; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.economy_invoice IS 'Payment requests from one player to another, paid through a regular transfer';
+
+
+--
+-- Name: COLUMN economy_invoice.issuer_minecraft_uuid; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_invoice.issuer_minecraft_uuid IS 'Player requesting the payment (receives the money)';
+
+
+--
+-- Name: COLUMN economy_invoice.payer_minecraft_uuid; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_invoice.payer_minecraft_uuid IS 'Player asked to pay';
+
+
+--
+-- Name: COLUMN economy_invoice.amount; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_invoice.amount IS 'Requested amount in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN economy_invoice.status; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_invoice.status IS 'pending until resolved as paid, declined, cancelled or expired';
+
+
+--
+-- Name: COLUMN economy_invoice.discord_message_id; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_invoice.discord_message_id IS 'Message with the Pay/Decline buttons, updated when the invoice is resolved';
+
+
+--
+-- Name: COLUMN economy_invoice.expires_at; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_invoice.expires_at IS 'When a pending invoice is automatically expired';
+
+
+--
+-- Name: economy_invoice_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.economy_invoice_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.economy_invoice_id_seq OWNER TO postgres;
+
+--
+-- Name: economy_invoice_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.economy_invoice_id_seq OWNED BY public.economy_invoice.id;
+
+
+--
+-- Name: economy_invoice id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_invoice ALTER COLUMN id SET DEFAULT nextval('public.economy_invoice_id_seq'::regclass);
+
+
+--
+-- Name: economy_invoice economy_invoice_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_invoice
+    ADD CONSTRAINT economy_invoice_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_economy_invoice_issuer; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_economy_invoice_issuer ON public.economy_invoice USING btree (issuer_minecraft_uuid);
+
+
+--
+-- Name: idx_economy_invoice_payer; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_economy_invoice_payer ON public.economy_invoice USING btree (payer_minecraft_uuid);
+
+
+--
+-- Name: idx_economy_invoice_status_expires_at; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_economy_invoice_status_expires_at ON public.economy_invoice USING btree (status, expires_at);
+
+
+--
+-- Name: economy_invoice economy_invoice_issuer_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_invoice
+    ADD CONSTRAINT economy_invoice_issuer_minecraft_uuid_fkey FOREIGN KEY (issuer_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: economy_invoice economy_invoice_payer_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_invoice
+    ADD CONSTRAINT economy_invoice_payer_minecraft_uuid_fkey FOREIGN KEY (payer_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -0,0 +1,96 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+SET default_table_access_method = heap;
+
+--
+-- Name: economy_request; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.economy_request (
+    idempotency_key character varying(128) NOT NULL,
+    operation character varying(32) NOT NULL,
+    player_minecraft_uuid uuid NOT NULL,
+    request_fingerprint text NOT NULL,
+    status character varying(16) DEFAULT 'pending'::character varying NOT NULL,
+    response jsonb,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    completed_at timestamp with time zone,
+    CONSTRAINT economy_request_status_check CHECK (((status)::text = ANY ((ARRAY['pending'::character varying, 'completed'::character varying])::text[])))
+);
+
+
+ALTER TABLE public.economy_request OWNER TO postgres;
+
+--
+-- Name: TABLE economy_request; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.economy_request IS 'Idempotency records for mutating economy API calls made by the currency mod';
+
+
+--
+-- Name: COLUMN economy_request.request_fingerprint; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_request.request_fingerprint IS 'Normalized request parameters, used to reject key reuse with a different payload';
+
+
+--
+-- Name: COLUMN economy_request.response; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_request.response IS 'Response body returned to the client, replayed on retries';
+
+
+--
+-- Name: economy_request economy_request_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_request
+    ADD CONSTRAINT economy_request_pkey PRIMARY KEY (idempotency_key);
+
+
+--
+-- Name: idx_economy_request_created_at; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_economy_request_created_at ON public.economy_request USING btree (created_at);
+
+
+--
+-- Name: idx_economy_request_player; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_economy_request_player ON public.economy_request USING btree (player_minecraft_uuid);
+
+
+--
+-- Name: economy_request economy_request_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_request
+    ADD CONSTRAINT economy_request_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
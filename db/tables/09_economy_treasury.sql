@@ -0,0 +1,60 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: economy_treasury; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.economy_treasury (
+    id character varying(32) NOT NULL,
+    balance bigint DEFAULT 0 NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT economy_treasury_balance_non_negative CHECK ((balance >= 0))
+);
+
+
+ALTER TABLE public.economy_treasury OWNER TO postgres;
+
+--
+-- Name: TABLE economy_treasury; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.economy_treasury IS 'System accounts that collect currency sinks such as transfer fees';
+
+
+--
+-- Name: COLUMN economy_treasury.balance; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_treasury.balance IS 'Balance in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: economy_treasury economy_treasury_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_treasury
+    ADD CONSTRAINT economy_treasury_pkey PRIMARY KEY (id);
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -0,0 +1,125 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: economy_treasury_transaction; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.economy_treasury_transaction (
+    id integer NOT NULL,
+    treasury_id character varying(32) NOT NULL,
+    amount bigint NOT NULL,
+    balance_before bigint NOT NULL,
+    balance_after bigint NOT NULL,
+    transaction_type character varying(32) NOT NULL,
+    description text,
+    related_player_uuid uuid,
+    metadata jsonb DEFAULT '{}'::jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+
+ALTER TABLE public.economy_treasury_transaction OWNER TO postgres;
+
+--
+-- Name: TABLE economy_treasury_transaction; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.economy_treasury_transaction IS 'Ledger of every change to a treasury balance';
+
+
+--
+-- Name: COLUMN economy_treasury_transaction.amount; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_treasury_transaction.amount IS 'Signed amount in smallest unit (3 decimal precision), positive when collected';
+
+
+--
+-- Name: COLUMN economy_treasury_transaction.related_player_uuid; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.economy_treasury_transaction.related_player_uuid IS 'Player who paid the fee or received the payout';
+
+
+--
+-- Name: economy_treasury_transaction_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.economy_treasury_transaction_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.economy_treasury_transaction_id_seq OWNER TO postgres;
+
+--
+-- Name: economy_treasury_transaction_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.economy_treasury_transaction_id_seq OWNED BY public.economy_treasury_transaction.id;
+
+
+--
+-- Name: economy_treasury_transaction id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_treasury_transaction ALTER COLUMN id SET DEFAULT nextval('public.economy_treasury_transaction_id_seq'::regclass);
+
+
+--
+-- Name: economy_treasury_transaction economy_treasury_transaction_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_treasury_transaction
+    ADD CONSTRAINT economy_treasury_transaction_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_economy_treasury_transaction_created_at; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_economy_treasury_transaction_created_at ON public.economy_treasury_transaction USING btree (treasury_id, created_at DESC);
+
+
+--
+-- Name: economy_treasury_transaction economy_treasury_transaction_related_player_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_treasury_transaction
+    ADD CONSTRAINT economy_treasury_transaction_related_player_uuid_fkey FOREIGN KEY (related_player_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE SET NULL;
+
+
+--
+-- Name: economy_treasury_transaction economy_treasury_transaction_treasury_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.economy_treasury_transaction
+    ADD CONSTRAINT economy_treasury_transaction_treasury_id_fkey FOREIGN KEY (treasury_id) REFERENCES public.economy_treasury(id) ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
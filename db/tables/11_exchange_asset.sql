@@ -0,0 +1,70 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: exchange_asset; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.exchange_asset (
+    symbol character varying(16) NOT NULL,
+    name character varying(64) NOT NULL,
+    price bigint NOT NULL,
+    is_active boolean DEFAULT true NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT exchange_asset_price_positive CHECK ((price > 0))
+);
+
+
+ALTER TABLE public.exchange_asset OWNER TO postgres;
+
+--
+-- Name: TABLE exchange_asset; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.exchange_asset IS 'Assets traded on the simulated exchange, synced from the exchange config on startup';
+
+
+--
+-- Name: COLUMN exchange_asset.price; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.exchange_asset.price IS 'Current price per unit in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN exchange_asset.is_active; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.exchange_asset.is_active IS 'False once an asset is removed from the config; holdings can still be sold';
+
+
+--
+-- Name: exchange_asset exchange_asset_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_asset
+    ADD CONSTRAINT exchange_asset_pkey PRIMARY KEY (symbol);
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -0,0 +1,86 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: exchange_holding; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.exchange_holding (
+    player_minecraft_uuid uuid NOT NULL,
+    asset_symbol character varying(16) NOT NULL,
+    quantity integer NOT NULL,
+    cost_basis bigint DEFAULT 0 NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT exchange_holding_quantity_non_negative CHECK ((quantity >= 0)),
+    CONSTRAINT exchange_holding_cost_basis_non_negative CHECK ((cost_basis >= 0))
+);
+
+
+ALTER TABLE public.exchange_holding OWNER TO postgres;
+
+--
+-- Name: TABLE exchange_holding; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.exchange_holding IS 'Units of each exchange asset held by a player';
+
+
+--
+-- Name: COLUMN exchange_holding.cost_basis; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.exchange_holding.cost_basis IS 'Total paid for the units currently held (average cost), in smallest unit';
+
+
+--
+-- Name: exchange_holding exchange_holding_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_holding
+    ADD CONSTRAINT exchange_holding_pkey PRIMARY KEY (player_minecraft_uuid, asset_symbol);
+
+
+--
+-- Name: idx_exchange_holding_asset; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_exchange_holding_asset ON public.exchange_holding USING btree (asset_symbol);
+
+
+--
+-- Name: exchange_holding exchange_holding_asset_symbol_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_holding
+    ADD CONSTRAINT exchange_holding_asset_symbol_fkey FOREIGN KEY (asset_symbol) REFERENCES public.exchange_asset(symbol) ON DELETE CASCADE;
+
+
+--
+-- Name: exchange_holding exchange_holding_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_holding
+    ADD CONSTRAINT exchange_holding_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
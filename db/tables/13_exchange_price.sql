@@ -0,0 +1,97 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: exchange_price; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.exchange_price (
+    id bigint NOT NULL,
+    asset_symbol character varying(16) NOT NULL,
+    price bigint NOT NULL,
+    recorded_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT exchange_price_price_positive CHECK ((price > 0))
+);
+
+
+ALTER TABLE public.exchange_price OWNER TO postgres;
+
+--
+-- Name: TABLE exchange_price; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.exchange_price IS 'Price history of exchange assets, one row per asset per price tick';
+
+
+--
+-- Name: exchange_price_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.exchange_price_id_seq
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.exchange_price_id_seq OWNER TO postgres;
+
+--
+-- Name: exchange_price_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.exchange_price_id_seq OWNED BY public.exchange_price.id;
+
+
+--
+-- Name: exchange_price id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_price ALTER COLUMN id SET DEFAULT nextval('public.exchange_price_id_seq'::regclass);
+
+
+--
+-- Name: exchange_price exchange_price_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_price
+    ADD CONSTRAINT exchange_price_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_exchange_price_asset_recorded_at; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_exchange_price_asset_recorded_at ON public.exchange_price USING btree (asset_symbol, recorded_at DESC);
+
+
+--
+-- Name: exchange_price exchange_price_asset_symbol_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_price
+    ADD CONSTRAINT exchange_price_asset_symbol_fkey FOREIGN KEY (asset_symbol) REFERENCES public.exchange_asset(symbol) ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
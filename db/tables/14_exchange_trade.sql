@@ -0,0 +1,118 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: exchange_trade; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.exchange_trade (
+    id integer NOT NULL,
+    player_minecraft_uuid uuid NOT NULL,
+    asset_symbol character varying(16) NOT NULL,
+    side character varying(4) NOT NULL,
+    quantity integer NOT NULL,
+    price bigint NOT NULL,
+    total bigint NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT exchange_trade_quantity_positive CHECK ((quantity > 0)),
+    CONSTRAINT exchange_trade_side_check CHECK (((side)::text = ANY ((ARRAY['buy'::character varying, 'sell'::character varying])::text[])))
+);
+
+
+ALTER TABLE public.exchange_trade OWNER TO postgres;
+
+--
+-- Name: TABLE exchange_trade; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.exchange_trade IS 'Buy and sell orders filled on the simulated exchange';
+
+
+--
+-- Name: COLUMN exchange_trade.price; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.exchange_trade.price IS 'Price per unit the order was filled at, in smallest unit';
+
+
+--
+-- Name: exchange_trade_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.exchange_trade_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.exchange_trade_id_seq OWNER TO postgres;
+
+--
+-- Name: exchange_trade_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.exchange_trade_id_seq OWNED BY public.exchange_trade.id;
+
+
+--
+-- Name: exchange_trade id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_trade ALTER COLUMN id SET DEFAULT nextval('public.exchange_trade_id_seq'::regclass);
+
+
+--
+-- Name: exchange_trade exchange_trade_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_trade
+    ADD CONSTRAINT exchange_trade_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_exchange_trade_player_created_at; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_exchange_trade_player_created_at ON public.exchange_trade USING btree (player_minecraft_uuid, created_at DESC);
+
+
+--
+-- Name: exchange_trade exchange_trade_asset_symbol_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_trade
+    ADD CONSTRAINT exchange_trade_asset_symbol_fkey FOREIGN KEY (asset_symbol) REFERENCES public.exchange_asset(symbol) ON DELETE CASCADE;
+
+
+--
+-- Name: exchange_trade exchange_trade_player_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.exchange_trade
+    ADD CONSTRAINT exchange_trade_player_minecraft_uuid_fkey FOREIGN KEY (player_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
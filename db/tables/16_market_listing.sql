@@ -0,0 +1,142 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: market_listing; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.market_listing (
+    id integer NOT NULL,
+    seller_minecraft_uuid uuid NOT NULL,
+    item_name character varying(128) NOT NULL,
+    item_id character varying(128),
+    description text,
+    quantity integer NOT NULL,
+    unit_price bigint NOT NULL,
+    status character varying(16) DEFAULT 'active'::character varying NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    cancelled_by_discord_id character varying(20),
+    CONSTRAINT market_listing_quantity_non_negative CHECK ((quantity >= 0)),
+    CONSTRAINT market_listing_unit_price_positive CHECK ((unit_price > 0)),
+    CONSTRAINT market_listing_status_check CHECK (((status)::text = ANY ((ARRAY['active'::character varying, 'sold_out'::character varying, 'cancelled'::character varying])::text[])))
+);
+
+
+ALTER TABLE public.market_listing OWNER TO postgres;
+
+--
+-- Name: TABLE market_listing; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.market_listing IS 'Items offered for sale by players on the marketplace';
+
+
+--
+-- Name: COLUMN market_listing.item_id; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.market_listing.item_id IS 'Optional Minecraft item ID (e.g. create:brass_ingot)';
+
+
+--
+-- Name: COLUMN market_listing.quantity; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.market_listing.quantity IS 'Units still available for purchase';
+
+
+--
+-- Name: COLUMN market_listing.unit_price; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.market_listing.unit_price IS 'Price per unit in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN market_listing.cancelled_by_discord_id; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.market_listing.cancelled_by_discord_id IS 'Seller or admin who cancelled the listing';
+
+
+--
+-- Name: market_listing_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.market_listing_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.market_listing_id_seq OWNER TO postgres;
+
+--
+-- Name: market_listing_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.market_listing_id_seq OWNED BY public.market_listing.id;
+
+
+--
+-- Name: market_listing id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_listing ALTER COLUMN id SET DEFAULT nextval('public.market_listing_id_seq'::regclass);
+
+
+--
+-- Name: market_listing market_listing_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_listing
+    ADD CONSTRAINT market_listing_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_market_listing_seller; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_market_listing_seller ON public.market_listing USING btree (seller_minecraft_uuid);
+
+
+--
+-- Name: idx_market_listing_status_created_at; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_market_listing_status_created_at ON public.market_listing USING btree (status, created_at DESC);
+
+
+--
+-- Name: market_listing market_listing_seller_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_listing
+    ADD CONSTRAINT market_listing_seller_minecraft_uuid_fkey FOREIGN KEY (seller_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -0,0 +1,132 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: market_purchase; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.market_purchase (
+    id integer NOT NULL,
+    listing_id integer NOT NULL,
+    buyer_minecraft_uuid uuid NOT NULL,
+    seller_minecraft_uuid uuid NOT NULL,
+    quantity integer NOT NULL,
+    unit_price bigint NOT NULL,
+    total_price bigint NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT market_purchase_quantity_positive CHECK ((quantity > 0))
+);
+
+
+ALTER TABLE public.market_purchase OWNER TO postgres;
+
+--
+-- Name: TABLE market_purchase; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.market_purchase IS 'Completed marketplace purchases, settled through PURCHASE and SALE balance transactions';
+
+
+--
+-- Name: COLUMN market_purchase.unit_price; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.market_purchase.unit_price IS 'Listing price per unit at the time of purchase';
+
+
+--
+-- Name: market_purchase_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.market_purchase_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.market_purchase_id_seq OWNER TO postgres;
+
+--
+-- Name: market_purchase_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.market_purchase_id_seq OWNED BY public.market_purchase.id;
+
+
+--
+-- Name: market_purchase id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_purchase ALTER COLUMN id SET DEFAULT nextval('public.market_purchase_id_seq'::regclass);
+
+
+--
+-- Name: market_purchase market_purchase_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_purchase
+    ADD CONSTRAINT market_purchase_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_market_purchase_buyer; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_market_purchase_buyer ON public.market_purchase USING btree (buyer_minecraft_uuid);
+
+
+--
+-- Name: idx_market_purchase_listing; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_market_purchase_listing ON public.market_purchase USING btree (listing_id);
+
+
+--
+-- Name: market_purchase market_purchase_buyer_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_purchase
+    ADD CONSTRAINT market_purchase_buyer_minecraft_uuid_fkey FOREIGN KEY (buyer_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: market_purchase market_purchase_listing_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_purchase
+    ADD CONSTRAINT market_purchase_listing_id_fkey FOREIGN KEY (listing_id) REFERENCES public.market_listing(id) ON DELETE CASCADE;
+
+
+--
+-- Name: market_purchase market_purchase_seller_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_purchase
+    ADD CONSTRAINT market_purchase_seller_minecraft_uuid_fkey FOREIGN KEY (seller_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -0,0 +1,161 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: market_request; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.market_request (
+    id integer NOT NULL,
+    requester_minecraft_uuid uuid NOT NULL,
+    item_name character varying(128) NOT NULL,
+    item_id character varying(128),
+    description text,
+    quantity integer NOT NULL,
+    bounty bigint NOT NULL,
+    status character varying(16) DEFAULT 'open'::character varying NOT NULL,
+    fulfiller_minecraft_uuid uuid,
+    discord_message_id character varying(32),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    claimed_at timestamp with time zone,
+    resolved_at timestamp with time zone,
+    CONSTRAINT market_request_bounty_positive CHECK ((bounty > 0)),
+    CONSTRAINT market_request_quantity_positive CHECK ((quantity > 0)),
+    CONSTRAINT market_request_distinct_players CHECK ((fulfiller_minecraft_uuid IS NULL OR requester_minecraft_uuid <> fulfiller_minecraft_uuid)),
+    CONSTRAINT market_request_status_check CHECK (((status)::text = ANY ((ARRAY['open'::character varying, 'claimed'::character varying, 'fulfilled'::character varying, 'cancelled'::character varying, 'expired'::character varying])::text[])))
+);
+
+
+ALTER TABLE public.market_request OWNER TO postgres;
+
+--
+-- Name: TABLE market_request; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.market_request IS 'Item buy requests whose bounty is held in escrow until delivery is confirmed, the request is cancelled or it expires';
+
+
+--
+-- Name: COLUMN market_request.bounty; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.market_request.bounty IS 'Escrowed bounty in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN market_request.status; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.market_request.status IS 'open until claimed by a fulfiller, then fulfilled, cancelled or expired';
+
+
+--
+-- Name: COLUMN market_request.discord_message_id; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.market_request.discord_message_id IS 'Message in the request feed channel that is updated on status changes';
+
+
+--
+-- Name: COLUMN market_request.expires_at; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.market_request.expires_at IS 'When an unfulfilled request is automatically expired and refunded';
+
+
+--
+-- Name: market_request_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.market_request_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.market_request_id_seq OWNER TO postgres;
+
+--
+-- Name: market_request_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.market_request_id_seq OWNED BY public.market_request.id;
+
+
+--
+-- Name: market_request id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_request ALTER COLUMN id SET DEFAULT nextval('public.market_request_id_seq'::regclass);
+
+
+--
+-- Name: market_request market_request_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_request
+    ADD CONSTRAINT market_request_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_market_request_fulfiller; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_market_request_fulfiller ON public.market_request USING btree (fulfiller_minecraft_uuid);
+
+
+--
+-- Name: idx_market_request_requester; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_market_request_requester ON public.market_request USING btree (requester_minecraft_uuid);
+
+
+--
+-- Name: idx_market_request_status_expires_at; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_market_request_status_expires_at ON public.market_request USING btree (status, expires_at);
+
+
+--
+-- Name: market_request market_request_fulfiller_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_request
+    ADD CONSTRAINT market_request_fulfiller_minecraft_uuid_fkey FOREIGN KEY (fulfiller_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE SET NULL;
+
+
+--
+-- Name: market_request market_request_requester_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.market_request
+    ADD CONSTRAINT market_request_requester_minecraft_uuid_fkey FOREIGN KEY (requester_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -28,6 +28,7 @@ CREATE TABLE public.player_balance (
     minecraft_uuid uuid NOT NULL,
     balance bigint DEFAULT 0 NOT NULL,
     updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    hide_from_leaderboard boolean DEFAULT false NOT NULL,
     CONSTRAINT chk_balance_non_negative CHECK ((balance >= 0))
 );
 
@@ -48,6 +49,13 @@ COMMENT ON TABLE public.player_balance IS 'Player balance with 3 decimal precisi
 COMMENT ON COLUMN public.player_balance.balance IS 'Balance in smallest unit (3 decimal places). Divide by 1,000 for display. Example: 1000 = 1.000, 200 = 0.200';
 
 
+--
+-- Name: COLUMN player_balance.hide_from_leaderboard; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.player_balance.hide_from_leaderboard IS 'Player opted out of the public balance leaderboard';
+
+
 --
 -- Name: player_balance player_balance_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
 --
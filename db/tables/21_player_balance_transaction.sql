@@ -34,7 +34,8 @@ CREATE TABLE public.player_balance_transaction (
     description text,
     related_player_uuid uuid,
     metadata jsonb DEFAULT '{}'::jsonb,
-    created_at timestamp with time zone DEFAULT now() NOT NULL
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    reversed_transaction_id integer
 );
 
 
@@ -89,6 +90,13 @@ COMMENT ON COLUMN public.player_balance_transaction.related_player_uuid IS 'Rela
 COMMENT ON COLUMN public.player_balance_transaction.metadata IS 'Additional context (item_id, admin_id, etc.)';
 
 
+--
+-- Name: COLUMN player_balance_transaction.reversed_transaction_id; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.player_balance_transaction.reversed_transaction_id IS 'Transaction reversed by this refund. Unique, so a transaction can only be reversed once';
+
+
 --
 -- Name: player_balance_transaction_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
 --
@@ -126,6 +134,14 @@ ALTER TABLE ONLY public.player_balance_transaction
     ADD CONSTRAINT player_balance_transaction_pkey PRIMARY KEY (id);
 
 
+--
+-- Name: player_balance_transaction uq_balance_transaction_reversed; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_balance_transaction
+    ADD CONSTRAINT uq_balance_transaction_reversed UNIQUE (reversed_transaction_id);
+
+
 --
 -- Name: idx_balance_transaction_created; Type: INDEX; Schema: public; Owner: postgres
 --
@@ -170,6 +186,14 @@ ALTER TABLE ONLY public.player_balance_transaction
     ADD CONSTRAINT fk_related_player FOREIGN KEY (related_player_uuid) REFERENCES public.player(minecraft_uuid) ON UPDATE CASCADE ON DELETE SET NULL;
 
 
+--
+-- Name: player_balance_transaction fk_reversed_transaction; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_balance_transaction
+    ADD CONSTRAINT fk_reversed_transaction FOREIGN KEY (reversed_transaction_id) REFERENCES public.player_balance_transaction(id) ON DELETE SET NULL;
+
+
 --
 -- PostgreSQL database dump complete
 --
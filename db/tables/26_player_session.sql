@@ -30,9 +30,10 @@ CREATE TABLE public.player_session (
     server_id integer NOT NULL,
     session_start timestamp with time zone NOT NULL,
     session_end timestamp with time zone,
+    afk_seconds bigint DEFAULT 0 NOT NULL,
     seconds_played bigint GENERATED ALWAYS AS (
 CASE
-    WHEN (session_end IS NOT NULL) THEN (EXTRACT(epoch FROM (session_end - session_start)))::bigint
+    WHEN (session_end IS NOT NULL) THEN ((EXTRACT(epoch FROM (session_end - session_start)))::bigint - afk_seconds)
     ELSE NULL::bigint
 END) STORED,
     CONSTRAINT chk_session_end_after_start CHECK (((session_end IS NULL) OR (session_end >= session_start)))
@@ -41,6 +42,20 @@ END) STORED,
 
 ALTER TABLE public.player_session OWNER TO postgres;
 
+--
+-- Name: COLUMN player_session.afk_seconds; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.player_session.afk_seconds IS 'Time spent AFK during the session, set when the session ends';
+
+
+--
+-- Name: COLUMN player_session.seconds_played; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.player_session.seconds_played IS 'Active playtime: session length minus AFK time';
+
+
 --
 -- Name: player_session_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
 --
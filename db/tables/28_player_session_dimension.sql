@@ -0,0 +1,107 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+
+--
+-- Name: player_session_dimension; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.player_session_dimension (
+    id integer NOT NULL,
+    session_id integer NOT NULL,
+    dimension character varying(100) NOT NULL,
+    dimension_start timestamp with time zone NOT NULL,
+    dimension_end timestamp with time zone NOT NULL,
+    CONSTRAINT chk_dimension_end_after_start CHECK ((dimension_end >= dimension_start))
+);
+
+
+ALTER TABLE public.player_session_dimension OWNER TO postgres;
+
+--
+-- Name: TABLE player_session_dimension; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.player_session_dimension IS 'Time spent in each dimension within play sessions';
+
+
+--
+-- Name: COLUMN player_session_dimension.dimension; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.player_session_dimension.dimension IS 'Dimension ID reported by the mod (e.g. minecraft:the_nether)';
+
+
+--
+-- Name: player_session_dimension_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.player_session_dimension_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.player_session_dimension_id_seq OWNER TO postgres;
+
+--
+-- Name: player_session_dimension_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.player_session_dimension_id_seq OWNED BY public.player_session_dimension.id;
+
+
+--
+-- Name: player_session_dimension id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_session_dimension ALTER COLUMN id SET DEFAULT nextval('public.player_session_dimension_id_seq'::regclass);
+
+
+--
+-- Name: player_session_dimension player_session_dimension_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_session_dimension
+    ADD CONSTRAINT player_session_dimension_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_player_session_dimension_session; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_player_session_dimension_session ON public.player_session_dimension USING btree (session_id);
+
+
+--
+-- Name: player_session_dimension player_session_dimension_session_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_session_dimension
+    ADD CONSTRAINT player_session_dimension_session_id_fkey FOREIGN KEY (session_id) REFERENCES public.player_session(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -0,0 +1,127 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+--
+-- Name: player_session_flag; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.player_session_flag (
+    id integer NOT NULL,
+    session_id integer NOT NULL,
+    reason text NOT NULL,
+    related_session_id integer,
+    flagged_at timestamp with time zone DEFAULT now() NOT NULL,
+    resolved_at timestamp with time zone,
+    resolved_by_discord_id text,
+    resolution text,
+    discord_message_id text,
+    CONSTRAINT chk_player_session_flag_reason CHECK ((reason = ANY (ARRAY['long'::text, 'overlap'::text]))),
+    CONSTRAINT chk_player_session_flag_resolution CHECK (((resolution IS NULL) OR (resolution = ANY (ARRAY['truncated'::text, 'deleted'::text, 'dismissed'::text]))))
+);
+
+
+ALTER TABLE public.player_session_flag OWNER TO postgres;
+
+--
+-- Name: TABLE player_session_flag; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.player_session_flag IS 'Suspicious (ghost) sessions posted to the admin channel for review';
+
+
+--
+-- Name: COLUMN player_session_flag.related_session_id; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.player_session_flag.related_session_id IS 'Session on another server that overlaps the flagged session';
+
+
+--
+-- Name: COLUMN player_session_flag.discord_message_id; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.player_session_flag.discord_message_id IS 'Admin channel message the flag was posted in, null until posted';
+
+
+--
+-- Name: player_session_flag_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.player_session_flag_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.player_session_flag_id_seq OWNER TO postgres;
+
+--
+-- Name: player_session_flag_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.player_session_flag_id_seq OWNED BY public.player_session_flag.id;
+
+
+--
+-- Name: player_session_flag id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_session_flag ALTER COLUMN id SET DEFAULT nextval('public.player_session_flag_id_seq'::regclass);
+
+
+--
+-- Name: player_session_flag player_session_flag_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_session_flag
+    ADD CONSTRAINT player_session_flag_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: player_session_flag player_session_flag_session_id_reason_key; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_session_flag
+    ADD CONSTRAINT player_session_flag_session_id_reason_key UNIQUE (session_id, reason);
+
+
+--
+-- Name: player_session_flag player_session_flag_session_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_session_flag
+    ADD CONSTRAINT player_session_flag_session_id_fkey FOREIGN KEY (session_id) REFERENCES public.player_session(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- Name: player_session_flag player_session_flag_related_session_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.player_session_flag
+    ADD CONSTRAINT player_session_flag_related_session_id_fkey FOREIGN KEY (related_session_id) REFERENCES public.player_session(id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
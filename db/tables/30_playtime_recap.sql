@@ -0,0 +1,112 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+SET default_table_access_method = heap;
+--
+-- Name: playtime_recap; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.playtime_recap (
+    id integer NOT NULL,
+    kind character varying(16) NOT NULL,
+    period_start date NOT NULL,
+    period_end date NOT NULL,
+    total_seconds bigint DEFAULT 0 NOT NULL,
+    previous_total_seconds bigint DEFAULT 0 NOT NULL,
+    entries jsonb DEFAULT '[]'::jsonb NOT NULL,
+    prizes jsonb DEFAULT '[]'::jsonb NOT NULL,
+    discord_message_id text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT playtime_recap_kind_check CHECK (((kind)::text = ANY ((ARRAY['weekly'::character varying, 'monthly'::character varying])::text[])))
+);
+
+
+ALTER TABLE public.playtime_recap OWNER TO postgres;
+
+--
+-- Name: TABLE playtime_recap; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.playtime_recap IS 'Weekly and monthly top-player recaps, one per period, recorded together with their prize payments';
+
+
+--
+-- Name: COLUMN playtime_recap.entries; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.playtime_recap.entries IS 'Ranked top players with their previous rank';
+
+
+--
+-- Name: COLUMN playtime_recap.discord_message_id; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.playtime_recap.discord_message_id IS 'Posted recap message, null until the post succeeded';
+
+
+--
+-- Name: playtime_recap_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.playtime_recap_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.playtime_recap_id_seq OWNER TO postgres;
+
+--
+-- Name: playtime_recap_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.playtime_recap_id_seq OWNED BY public.playtime_recap.id;
+
+
+--
+-- Name: playtime_recap id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.playtime_recap ALTER COLUMN id SET DEFAULT nextval('public.playtime_recap_id_seq'::regclass);
+
+
+--
+-- Name: playtime_recap playtime_recap_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.playtime_recap
+    ADD CONSTRAINT playtime_recap_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: playtime_recap uq_playtime_recap_period; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.playtime_recap
+    ADD CONSTRAINT uq_playtime_recap_period UNIQUE (period_start, kind);
+
+
+--
+-- PostgreSQL database dump complete
+--
+
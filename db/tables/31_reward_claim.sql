@@ -88,6 +88,13 @@ ALTER TABLE ONLY public.reward_claim
 CREATE INDEX idx_reward_claim_claimed_at ON public.reward_claim USING btree (claimed_at);
 
 
+--
+-- Name: idx_reward_claim_milestone; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE UNIQUE INDEX idx_reward_claim_milestone ON public.reward_claim USING btree (player_minecraft_uuid, reward_type, ((metadata ->> 'milestoneSeconds'::text))) WHERE (metadata ? 'milestoneSeconds'::text);
+
+
 --
 -- Name: idx_reward_claim_player; Type: INDEX; Schema: public; Owner: postgres
 --
@@ -0,0 +1,72 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+SET default_table_access_method = heap;
+
+--
+-- Name: server_online_hourly; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.server_online_hourly (
+    server_id integer NOT NULL,
+    sample_hour timestamp with time zone NOT NULL,
+    sample_count integer DEFAULT 0 NOT NULL,
+    player_count_sum bigint DEFAULT 0 NOT NULL,
+    peak_players integer DEFAULT 0 NOT NULL,
+    peak_at timestamp with time zone NOT NULL
+);
+
+
+ALTER TABLE public.server_online_hourly OWNER TO postgres;
+
+--
+-- Name: TABLE server_online_hourly; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.server_online_hourly IS 'Hourly rollup of server_online_sample, maintained by trigger';
+
+
+--
+-- Name: server_online_hourly server_online_hourly_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.server_online_hourly
+    ADD CONSTRAINT server_online_hourly_pkey PRIMARY KEY (server_id, sample_hour);
+
+
+--
+-- Name: idx_server_online_hourly_peak; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_server_online_hourly_peak ON public.server_online_hourly USING btree (server_id, peak_players DESC);
+
+
+--
+-- Name: server_online_hourly server_online_hourly_server_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.server_online_hourly
+    ADD CONSTRAINT server_online_hourly_server_id_fkey FOREIGN KEY (server_id) REFERENCES public.server(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -0,0 +1,106 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+
+--
+-- Name: server_online_sample; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.server_online_sample (
+    id integer NOT NULL,
+    server_id integer NOT NULL,
+    sampled_at timestamp with time zone DEFAULT now() NOT NULL,
+    player_count integer NOT NULL,
+    CONSTRAINT chk_player_count_non_negative CHECK ((player_count >= 0))
+);
+
+
+ALTER TABLE public.server_online_sample OWNER TO postgres;
+
+--
+-- Name: TABLE server_online_sample; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.server_online_sample IS 'Raw online player counts, pruned after the retention period (hourly rollups are kept)';
+
+
+--
+-- Name: server_online_sample_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.server_online_sample_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.server_online_sample_id_seq OWNER TO postgres;
+
+--
+-- Name: server_online_sample_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.server_online_sample_id_seq OWNED BY public.server_online_sample.id;
+
+
+--
+-- Name: server_online_sample id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.server_online_sample ALTER COLUMN id SET DEFAULT nextval('public.server_online_sample_id_seq'::regclass);
+
+
+--
+-- Name: server_online_sample server_online_sample_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.server_online_sample
+    ADD CONSTRAINT server_online_sample_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_server_online_sample_server_time; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_server_online_sample_server_time ON public.server_online_sample USING btree (server_id, sampled_at);
+
+
+--
+-- Name: server_online_sample trigger_update_server_online_hourly; Type: TRIGGER; Schema: public; Owner: postgres
+--
+
+CREATE TRIGGER trigger_update_server_online_hourly AFTER INSERT ON public.server_online_sample FOR EACH ROW EXECUTE FUNCTION public.update_server_online_hourly();
+
+
+--
+-- Name: server_online_sample server_online_sample_server_id_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.server_online_sample
+    ADD CONSTRAINT server_online_sample_server_id_fkey FOREIGN KEY (server_id) REFERENCES public.server(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
@@ -0,0 +1,149 @@
+--
+-- PostgreSQL database dump
+--
+
+-- Dumped from database version 15.4
+-- Dumped by pg_dump version 15.4
+
+SET statement_timeout = 0;
+SET lock_timeout = 0;
+SET idle_in_transaction_session_timeout = 0;
+SET client_encoding = 'UTF8';
+SET standard_conforming_strings = on;
+SELECT pg_catalog.set_config('search_path', '', false);
+SET check_function_bodies = false;
+SET xmloption = content;
+SET client_min_messages = warning;
+SET row_security = off;
+
+SET default_tablespace = '';
+
+SET default_table_access_method = heap;
+--
+-- Name: trade_offer; Type: TABLE; Schema: public; Owner: postgres
+--
+
+CREATE TABLE public.trade_offer (
+    id integer NOT NULL,
+    sender_minecraft_uuid uuid NOT NULL,
+    recipient_minecraft_uuid uuid NOT NULL,
+    amount bigint NOT NULL,
+    note text,
+    status character varying(16) DEFAULT 'pending'::character varying NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    resolved_at timestamp with time zone,
+    CONSTRAINT trade_offer_amount_positive CHECK ((amount > 0)),
+    CONSTRAINT trade_offer_distinct_players CHECK ((sender_minecraft_uuid <> recipient_minecraft_uuid)),
+    CONSTRAINT trade_offer_status_check CHECK (((status)::text = ANY ((ARRAY['pending'::character varying, 'accepted'::character varying, 'declined'::character varying, 'cancelled'::character varying, 'expired'::character varying])::text[])))
+);
+
+
+ALTER TABLE public.trade_offer OWNER TO postgres;
+
+--
+-- Name: TABLE trade_offer; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON TABLE public.trade_offer IS 'Peer-to-peer trade offers whose amount is held in escrow until accepted, declined, cancelled or expired';
+
+
+--
+-- Name: COLUMN trade_offer.amount; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.trade_offer.amount IS 'Escrowed amount in smallest unit (3 decimal precision)';
+
+
+--
+-- Name: COLUMN trade_offer.status; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.trade_offer.status IS 'pending until resolved as accepted, declined, cancelled or expired';
+
+
+--
+-- Name: COLUMN trade_offer.expires_at; Type: COMMENT; Schema: public; Owner: postgres
+--
+
+COMMENT ON COLUMN public.trade_offer.expires_at IS 'When a pending offer is automatically expired and refunded';
+
+
+--
+-- Name: trade_offer_id_seq; Type: SEQUENCE; Schema: public; Owner: postgres
+--
+
+CREATE SEQUENCE public.trade_offer_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+
+ALTER TABLE public.trade_offer_id_seq OWNER TO postgres;
+
+--
+-- Name: trade_offer_id_seq; Type: SEQUENCE OWNED BY; Schema: public; Owner: postgres
+--
+
+ALTER SEQUENCE public.trade_offer_id_seq OWNED BY public.trade_offer.id;
+
+
+--
+-- Name: trade_offer id; Type: DEFAULT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.trade_offer ALTER COLUMN id SET DEFAULT nextval('public.trade_offer_id_seq'::regclass);
+
+
+--
+-- Name: trade_offer trade_offer_pkey; Type: CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.trade_offer
+    ADD CONSTRAINT trade_offer_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: idx_trade_offer_recipient; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_trade_offer_recipient ON public.trade_offer USING btree (recipient_minecraft_uuid);
+
+
+--
+-- Name: idx_trade_offer_sender; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_trade_offer_sender ON public.trade_offer USING btree (sender_minecraft_uuid);
+
+
+--
+-- Name: idx_trade_offer_status_expires_at; Type: INDEX; Schema: public; Owner: postgres
+--
+
+CREATE INDEX idx_trade_offer_status_expires_at ON public.trade_offer USING btree (status, expires_at);
+
+
+--
+-- Name: trade_offer trade_offer_recipient_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.trade_offer
+    ADD CONSTRAINT trade_offer_recipient_minecraft_uuid_fkey FOREIGN KEY (recipient_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- Name: trade_offer trade_offer_sender_minecraft_uuid_fkey; Type: FK CONSTRAINT; Schema: public; Owner: postgres
+--
+
+ALTER TABLE ONLY public.trade_offer
+    ADD CONSTRAINT trade_offer_sender_minecraft_uuid_fkey FOREIGN KEY (sender_minecraft_uuid) REFERENCES public.player(minecraft_uuid) ON DELETE CASCADE;
+
+
+--
+-- PostgreSQL database dump complete
+--
+
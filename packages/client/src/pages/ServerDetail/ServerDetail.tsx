@@ -1,14 +1,161 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { useParams } from "react-router-dom";
+import type {
+  GetServerHistoryResponse,
+  PlaytimeGranularity,
+  ServerHistoryBucketApiData,
+} from "@createrington/shared/api";
 import styles from "./ServerDetail.module.scss";
 
+type ServerHistory = GetServerHistoryResponse["data"];
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 240;
+
 export const ServerDetail: React.FC = () => {
   const { serverId } = useParams();
-  
+  const [granularity, setGranularity] = useState<PlaytimeGranularity>("hour");
+  const [history, setHistory] = useState<ServerHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(
+          `/api/servers/${serverId}/history?granularity=${granularity}`,
+        );
+        const data = await response.json();
+
+        if (cancelled) return;
+
+        if (data.success) {
+          setHistory(data.data);
+          setError(null);
+        } else {
+          setError(data.error?.message ?? "Failed to load server history");
+        }
+      } catch (err) {
+        console.error("Fetch server history error:", err);
+        if (!cancelled) setError("Failed to load server history");
+      }
+    };
+
+    fetchHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [serverId, granularity]);
+
   return (
     <div className={styles.container}>
       <h1>Server {serverId}</h1>
-      <p>Server detail page coming soon...</p>
+
+      <div className={styles.toolbar}>
+        <h2>Online players</h2>
+        <div className={styles.toggle}>
+          <button
+            className={granularity === "hour" ? styles.active : undefined}
+            onClick={() => setGranularity("hour")}
+          >
+            24 hours
+          </button>
+          <button
+            className={granularity === "day" ? styles.active : undefined}
+            onClick={() => setGranularity("day")}
+          >
+            30 days
+          </button>
+        </div>
+      </div>
+
+      {error && <p>{error}</p>}
+
+      {history && (
+        <>
+          <div className={styles.stats}>
+            <div>
+              <span>Peak in range</span>
+              <strong>{history.peak?.peakPlayers ?? "-"}</strong>
+            </div>
+            <div>
+              <span>All-time peak</span>
+              <strong>{history.allTimePeak?.peakPlayers ?? "-"}</strong>
+            </div>
+          </div>
+
+          <HistoryChart buckets={history.buckets} granularity={granularity} />
+        </>
+      )}
+    </div>
+  );
+};
+
+interface HistoryChartProps {
+  buckets: ServerHistoryBucketApiData[];
+  granularity: PlaytimeGranularity;
+}
+
+/**
+ * Line chart of average (line) and peak (area) online players
+ *
+ * Buckets without samples leave a gap in the average line.
+ */
+const HistoryChart: React.FC<HistoryChartProps> = ({
+  buckets,
+  granularity,
+}) => {
+  if (buckets.length === 0) {
+    return <p>No data for this range</p>;
+  }
+
+  const maxPlayers = Math.max(1, ...buckets.map((b) => b.peakPlayers));
+  const step = CHART_WIDTH / Math.max(1, buckets.length - 1);
+  const x = (index: number) => index * step;
+  const y = (players: number) =>
+    CHART_HEIGHT - (players / maxPlayers) * CHART_HEIGHT;
+
+  const peakPath = [
+    `M ${x(0)} ${CHART_HEIGHT}`,
+    ...buckets.map((b, i) => `L ${x(i)} ${y(b.peakPlayers)}`),
+    `L ${x(buckets.length - 1)} ${CHART_HEIGHT}`,
+    "Z",
+  ].join(" ");
+
+  let avgPath = "";
+  buckets.forEach((b, i) => {
+    if (b.avgPlayers === null) return;
+    const previous = buckets[i - 1];
+    const command = i > 0 && previous.avgPlayers !== null ? "L" : "M";
+    avgPath += `${command} ${x(i)} ${y(b.avgPlayers)} `;
+  });
+
+  const formatLabel = (start: string) =>
+    granularity === "hour"
+      ? new Date(start).toLocaleTimeString([], {
+          hour: "2-digit",
+          minute: "2-digit",
+        })
+      : start.slice(5);
+
+  return (
+    <div className={styles.chart}>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Online players over time"
+      >
+        <path className={styles.peak} d={peakPath} />
+        <path className={styles.average} d={avgPath.trim()} />
+      </svg>
+      <div className={styles.axis}>
+        <span>{formatLabel(buckets[0].start)}</span>
+        <span>Max {maxPlayers}</span>
+        <span>{formatLabel(buckets[buckets.length - 1].start)}</span>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,646 @@
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  InternalServerError,
+  NotFoundError,
+} from "@/app/middleware";
+import { getIdType } from "@/app/utils/helpers";
+import { companyRepo, Q } from "@/db";
+import type { CompanyMemberWithUsername } from "@/db/queries/company/member";
+import type { CompanyTransactionWithPlayers } from "@/db/queries/company/transaction";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { CompanyRole } from "@/db/repositories/company";
+import type { Company, CompanyMember, Player } from "@/generated/db";
+import {
+  CompanyApiData,
+  CompanyBalanceChangeResponse,
+  CompanyMemberApiData,
+  CompanyMemberResponse,
+  CompanyResponse,
+  CompanyTransactionApiData,
+  GetCompaniesResponse,
+  GetCompanyTransactionsResponse,
+  RunCompanyPayrollResponse,
+} from "@createrington/shared/api";
+import { Request, Response } from "express";
+
+/**
+ * Company controller
+ *
+ * Handles player-owned companies: browsing, founding, membership, and
+ * moving money between the company account and member balances. Actions
+ * are taken as the Minecraft account linked to the requesting Discord
+ * user and are checked against that member's company role.
+ */
+export class CompanyController {
+  /**
+   * GET /api/companies
+   *
+   * Retrieves companies with optional name search and pagination
+   *
+   * Query Parameters:
+   * - search: Case-insensitive match on company name
+   * - page: Page number (0-indexed, default: 0)
+   * - limit: Results per page (1-100, default: 20)
+   *
+   * @example
+   * GET /api/companies?search=trains
+   */
+  static async getCompanies(req: Request, res: Response): Promise<void> {
+    const page = Math.max(0, parseInt(req.query.page as string) || 0);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(req.query.limit as string) || 20),
+    );
+
+    const search = ((req.query.search as string) || "").trim() || undefined;
+    if (search && search.length > 64) {
+      throw new BadRequestError("search must be at most 64 characters");
+    }
+
+    try {
+      const { companies, total } = await companyRepo.search({
+        search,
+        limit,
+        offset: page * limit,
+      });
+
+      const response: GetCompaniesResponse = {
+        success: true,
+        data: {
+          companies: companies.map((company) =>
+            toApiData(company, company.ownerUsername, company.memberCount),
+          ),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error("Failed to fetch companies:", error);
+      throw new BadRequestError("Failed to fetch companies");
+    }
+  }
+
+  /**
+   * GET /api/companies/:id
+   *
+   * Retrieves a company with its members
+   *
+   * @example
+   * GET /api/companies/3
+   */
+  static async getCompany(req: Request, res: Response): Promise<void> {
+    const company = await findCompany(req.params.id);
+
+    res.json(await toCompanyResponse(company));
+  }
+
+  /**
+   * GET /api/companies/:id/transactions
+   *
+   * Retrieves the company ledger, newest first. Only members and admins
+   * can view it.
+   *
+   * Query Parameters:
+   * - page: Page number (0-indexed, default: 0)
+   * - limit: Results per page (1-100, default: 20)
+   */
+  static async getTransactions(req: Request, res: Response): Promise<void> {
+    const company = await findCompany(req.params.id);
+
+    if (!req.user!.isAdmin) {
+      const player = await findRequestingPlayer(req);
+      const member = await Q.company.member.find({
+        companyId: company.id,
+        playerMinecraftUuid: player.minecraftUuid,
+      });
+
+      if (!member) {
+        throw new ForbiddenError(
+          "Only members and admins can view company transactions",
+        );
+      }
+    }
+
+    const page = Math.max(0, parseInt(req.query.page as string) || 0);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(req.query.limit as string) || 20),
+    );
+
+    const { transactions, total } = await companyRepo.getHistoryPage(
+      company.id,
+      { page, limit },
+    );
+
+    const response: GetCompanyTransactionsResponse = {
+      success: true,
+      data: {
+        transactions: transactions.map(toTransactionApiData),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/companies
+   *
+   * Founds a company owned by the requesting user's Minecraft account
+   *
+   * Body: { name: string, description?: string }
+   */
+  static async createCompany(req: Request, res: Response): Promise<void> {
+    const owner = await findRequestingPlayer(req);
+
+    const name = parseText(req.body.name, "name", 64);
+    if (!name || name.length < 3) {
+      throw new BadRequestError("name must be between 3 and 64 characters");
+    }
+
+    const description = parseText(req.body.description, "description", 200);
+
+    let company;
+    try {
+      company = await companyRepo.create(
+        owner.minecraftUuid,
+        name,
+        description,
+      );
+    } catch (error) {
+      throw toHttpError(error, "Failed to create company");
+    }
+
+    res.status(201).json(await toCompanyResponse(company));
+  }
+
+  /**
+   * POST /api/companies/:id/deposit
+   *
+   * Moves money from the requesting member's balance to the company
+   *
+   * Body: { amount: number, note?: string }
+   */
+  static async deposit(req: Request, res: Response): Promise<void> {
+    const company = await findCompany(req.params.id);
+    const player = await findRequestingPlayer(req);
+    const amount = parseAmount(req.body.amount, "amount");
+    const note = parseText(req.body.note, "note", 200);
+
+    let entry;
+    try {
+      entry = await companyRepo.deposit(
+        company.id,
+        player.minecraftUuid,
+        amount,
+        note,
+      );
+    } catch (error) {
+      throw toHttpError(error, "Failed to deposit to company");
+    }
+
+    const response: CompanyBalanceChangeResponse = {
+      success: true,
+      data: {
+        transactionId: entry.id,
+        amount: BalanceUtils.format(entry.amount),
+        companyBalance: BalanceUtils.format(entry.balanceAfter),
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/companies/:id/withdraw
+   *
+   * Moves money from the company to the requesting member's balance
+   *
+   * Body: { amount: number, note?: string }
+   */
+  static async withdraw(req: Request, res: Response): Promise<void> {
+    const company = await findCompany(req.params.id);
+    const player = await findRequestingPlayer(req);
+    const amount = parseAmount(req.body.amount, "amount");
+    const note = parseText(req.body.note, "note", 200);
+
+    let entry;
+    try {
+      entry = await companyRepo.withdraw(
+        company.id,
+        player.minecraftUuid,
+        amount,
+        note,
+      );
+    } catch (error) {
+      throw toHttpError(error, "Failed to withdraw from company");
+    }
+
+    const response: CompanyBalanceChangeResponse = {
+      success: true,
+      data: {
+        transactionId: entry.id,
+        amount: BalanceUtils.format(entry.amount),
+        companyBalance: BalanceUtils.format(entry.balanceAfter),
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/companies/:id/payroll
+   *
+   * Pays every member with a salary from the company account
+   */
+  static async runPayroll(req: Request, res: Response): Promise<void> {
+    const company = await findCompany(req.params.id);
+    const player = await findRequestingPlayer(req);
+
+    let payments;
+    try {
+      payments = await companyRepo.runPayroll(company.id, player.minecraftUuid);
+    } catch (error) {
+      throw toHttpError(error, "Failed to run payroll");
+    }
+
+    const total = payments.reduce((sum, payment) => sum + payment.amount, 0n);
+
+    const response: RunCompanyPayrollResponse = {
+      success: true,
+      data: {
+        total: BalanceUtils.format(total),
+        payments: payments.map((payment) => ({
+          minecraftUuid: payment.playerMinecraftUuid,
+          minecraftUsername: payment.minecraftUsername,
+          amount: BalanceUtils.format(payment.amount),
+        })),
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/companies/:id/members
+   *
+   * Adds a player to the company
+   *
+   * Body: { uuid: string, role?: "manager" | "employee" }
+   */
+  static async addMember(req: Request, res: Response): Promise<void> {
+    const company = await findCompany(req.params.id);
+    const actor = await findRequestingPlayer(req);
+    const uuid = parseMinecraftUuid(req.body.uuid);
+    const role =
+      req.body.role === undefined
+        ? CompanyRole.EMPLOYEE
+        : parseRole(req.body.role);
+
+    const target = await Q.player.find({ minecraftUuid: uuid });
+    if (!target) {
+      throw new NotFoundError(`Player ${uuid} not found`);
+    }
+
+    let member;
+    try {
+      member = await companyRepo.addMember(
+        company.id,
+        actor.minecraftUuid,
+        uuid,
+        role,
+      );
+    } catch (error) {
+      throw toHttpError(error, "Failed to add company member");
+    }
+
+    const response: CompanyMemberResponse = {
+      success: true,
+      data: toMemberApiData(member, target.minecraftUsername),
+    };
+
+    res.status(201).json(response);
+  }
+
+  /**
+   * PATCH /api/companies/:id/members/:uuid
+   *
+   * Changes a member's role and/or salary
+   *
+   * Body: { role?: "manager" | "employee", salary?: number }
+   */
+  static async updateMember(req: Request, res: Response): Promise<void> {
+    const company = await findCompany(req.params.id);
+    const actor = await findRequestingPlayer(req);
+    const uuid = parseMinecraftUuid(req.params.uuid);
+
+    if (req.body.role === undefined && req.body.salary === undefined) {
+      throw new BadRequestError("role or salary is required");
+    }
+
+    const role =
+      req.body.role === undefined ? undefined : parseRole(req.body.role);
+    const salary =
+      req.body.salary === undefined
+        ? undefined
+        : parseAmount(req.body.salary, "salary", true);
+
+    let member: CompanyMember | undefined;
+    try {
+      if (role !== undefined) {
+        member = await companyRepo.setRole(
+          company.id,
+          actor.minecraftUuid,
+          uuid,
+          role,
+        );
+      }
+
+      if (salary !== undefined) {
+        member = await companyRepo.setSalary(
+          company.id,
+          actor.minecraftUuid,
+          uuid,
+          salary,
+        );
+      }
+    } catch (error) {
+      throw toHttpError(error, "Failed to update company member");
+    }
+
+    const target = await Q.player.find({ minecraftUuid: uuid });
+
+    const response: CompanyMemberResponse = {
+      success: true,
+      data: toMemberApiData(member!, target?.minecraftUsername ?? null),
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * DELETE /api/companies/:id/members/:uuid
+   *
+   * Removes a member. Members may remove themselves to leave the company,
+   * except the owner.
+   */
+  static async removeMember(req: Request, res: Response): Promise<void> {
+    const company = await findCompany(req.params.id);
+    const actor = await findRequestingPlayer(req);
+    const uuid = parseMinecraftUuid(req.params.uuid);
+
+    try {
+      await companyRepo.removeMember(company.id, actor.minecraftUuid, uuid);
+    } catch (error) {
+      throw toHttpError(error, "Failed to remove company member");
+    }
+
+    res.status(204).send();
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Converts a company to its API representation
+ */
+function toApiData(
+  company: Company,
+  ownerUsername: string | null,
+  memberCount: number,
+): CompanyApiData {
+  return {
+    id: company.id,
+    name: company.name,
+    description: company.description,
+    ownerMinecraftUuid: company.ownerMinecraftUuid,
+    ownerUsername,
+    balance: BalanceUtils.format(company.balance),
+    memberCount,
+    createdAt: company.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Converts a membership to its API representation
+ */
+function toMemberApiData(
+  member: CompanyMember | CompanyMemberWithUsername,
+  minecraftUsername?: string | null,
+): CompanyMemberApiData {
+  return {
+    minecraftUuid: member.playerMinecraftUuid,
+    minecraftUsername:
+      minecraftUsername ??
+      ("minecraftUsername" in member ? member.minecraftUsername : null),
+    role: member.role as CompanyMemberApiData["role"],
+    salary: BalanceUtils.format(member.salary),
+    joinedAt: member.joinedAt.toISOString(),
+  };
+}
+
+/**
+ * Converts a company ledger entry to its API representation
+ */
+function toTransactionApiData(
+  tx: CompanyTransactionWithPlayers,
+): CompanyTransactionApiData {
+  return {
+    id: tx.id,
+    amount: BalanceUtils.format(tx.amount),
+    balanceBefore: BalanceUtils.format(tx.balanceBefore),
+    balanceAfter: BalanceUtils.format(tx.balanceAfter),
+    transactionType:
+      tx.transactionType as CompanyTransactionApiData["transactionType"],
+    description: tx.description,
+    relatedPlayerUuid: tx.relatedPlayerUuid,
+    relatedPlayerUsername: tx.relatedPlayerUsername,
+    performedByUuid: tx.performedByUuid,
+    performedByUsername: tx.performedByUsername,
+    createdAt: tx.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Builds the company response with its member roster
+ */
+async function toCompanyResponse(company: Company): Promise<CompanyResponse> {
+  const members = await companyRepo.getMembers(company.id);
+  const owner = members.find(
+    (member) => member.playerMinecraftUuid === company.ownerMinecraftUuid,
+  );
+
+  return {
+    success: true,
+    data: {
+      ...toApiData(company, owner?.minecraftUsername ?? null, members.length),
+      members: members.map((member) => toMemberApiData(member)),
+    },
+  };
+}
+
+/**
+ * Maps a repository error to an HTTP error by its message
+ */
+function toHttpError(error: unknown, fallback: string): Error {
+  if (!(error instanceof Error)) {
+    return new InternalServerError(fallback);
+  }
+
+  const { message } = error;
+
+  if (message.includes("does not exist") || message.startsWith("That player")) {
+    return new NotFoundError(message);
+  }
+
+  if (message.includes("already")) {
+    return new ConflictError(message);
+  }
+
+  if (
+    message.startsWith("You ") ||
+    message.startsWith("Your role") ||
+    message.startsWith("The owner") ||
+    message.startsWith("Company ownership")
+  ) {
+    return new ForbiddenError(message);
+  }
+
+  if (
+    message.startsWith("Insufficient") ||
+    message.startsWith("Amount") ||
+    message.startsWith("No members")
+  ) {
+    return new BadRequestError(message);
+  }
+
+  logger.error(`${fallback}:`, error);
+  return new InternalServerError(fallback);
+}
+
+/**
+ * Fetches the company for an ID path parameter or throws 400/404
+ */
+async function findCompany(value: unknown): Promise<Company> {
+  const id = Number(value);
+
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new BadRequestError("Company ID must be a positive integer");
+  }
+
+  const company = await companyRepo.get(id);
+
+  if (!company) {
+    throw new NotFoundError(`Company #${id} not found`);
+  }
+
+  return company;
+}
+
+/**
+ * Fetches the player linked to the requesting Discord user or throws 403
+ */
+async function findRequestingPlayer(req: Request): Promise<Player> {
+  const player = await Q.player.find({ discordId: req.user!.discordId });
+
+  if (!player) {
+    throw new ForbiddenError(
+      "You must link a Minecraft account to use companies",
+    );
+  }
+
+  return player;
+}
+
+/**
+ * Validates a Minecraft UUID
+ */
+function parseMinecraftUuid(value: unknown): string {
+  if (typeof value !== "string" || getIdType(value) !== "minecraft") {
+    throw new BadRequestError("uuid must be a valid Minecraft UUID");
+  }
+
+  return value;
+}
+
+/**
+ * Validates an assignable member role (owner cannot be assigned)
+ */
+function parseRole(value: unknown): CompanyRole {
+  if (value !== CompanyRole.MANAGER && value !== CompanyRole.EMPLOYEE) {
+    throw new BadRequestError(
+      `role must be one of: ${CompanyRole.MANAGER}, ${CompanyRole.EMPLOYEE}`,
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Validates an amount (positive, or non-negative when allowZero is set,
+ * at most 3 decimals)
+ */
+function parseAmount(
+  value: unknown,
+  field: string,
+  allowZero: boolean = false,
+): number {
+  const amount = typeof value === "string" ? Number(value) : value;
+
+  if (
+    typeof amount !== "number" ||
+    !Number.isFinite(amount) ||
+    amount < 0 ||
+    (amount === 0 && !allowZero)
+  ) {
+    throw new BadRequestError(
+      `${field} must be a ${allowZero ? "non-negative" : "positive"} number`,
+    );
+  }
+
+  try {
+    BalanceUtils.validate(amount);
+  } catch (error) {
+    throw new BadRequestError(
+      error instanceof Error ? error.message : `Invalid ${field}`,
+    );
+  }
+
+  return amount;
+}
+
+/**
+ * Validates an optional free-text field
+ */
+function parseText(
+  value: unknown,
+  field: string,
+  maxLength: number,
+): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || value.trim().length > maxLength) {
+    throw new BadRequestError(
+      `${field} must be a string of at most ${maxLength} characters`,
+    );
+  }
+
+  return value.trim() || undefined;
+}
@@ -0,0 +1,186 @@
+import { AuthLevel, route } from "@/app/middleware";
+import { Router } from "express";
+import { CompanyController } from "./company.controller";
+
+const router = Router();
+
+/**
+ * Company routes
+ * Base path: /api/companies
+ *
+ * Player-owned companies with a shared balance. Anyone can browse
+ * companies, registered players act as their linked Minecraft account and
+ * are limited by their company role (owner, manager, employee).
+ */
+
+// ============================================================================
+// PUBLIC ROUTES
+// ============================================================================
+
+/**
+ * GET /api/companies
+ *
+ * Browse and search companies
+ *
+ * Query Parameters:
+ * - search: Case-insensitive match on company name
+ * - page: Page number (0-indexed, default: 0)
+ * - limit: Results per page (1-100, default: 20)
+ *
+ * Response: GetCompaniesResponse
+ * Errors: 400 (invalid search)
+ */
+router.get("/", ...route(AuthLevel.PUBLIC, CompanyController.getCompanies));
+
+/**
+ * GET /api/companies/:id
+ *
+ * Get a company with its members
+ *
+ * Response: CompanyResponse
+ * Errors: 400 (invalid ID), 404 (company not found)
+ */
+router.get("/:id", ...route(AuthLevel.PUBLIC, CompanyController.getCompany));
+
+// ============================================================================
+// USER ROUTES
+// ============================================================================
+
+/**
+ * GET /api/companies/:id/transactions
+ *
+ * Get the company ledger (members and admins only)
+ *
+ * Query Parameters:
+ * - page: Page number (0-indexed, default: 0)
+ * - limit: Results per page (1-100, default: 20)
+ *
+ * Response: GetCompanyTransactionsResponse
+ * Errors: 400 (invalid ID), 403 (not a member), 404 (company not found)
+ */
+router.get(
+  "/:id/transactions",
+  ...route(AuthLevel.USER, CompanyController.getTransactions),
+);
+
+/**
+ * POST /api/companies
+ *
+ * Found a company owned by the authenticated user's Minecraft account
+ *
+ * Request body:
+ * {
+ *  name: string,
+ *  description?: string
+ * }
+ *
+ * Response: CompanyResponse (201)
+ * Errors: 400 (invalid input), 403 (no linked Minecraft account), 409 (name taken or already in a company)
+ */
+router.post("/", ...route(AuthLevel.USER, CompanyController.createCompany));
+
+/**
+ * POST /api/companies/:id/deposit
+ *
+ * Move money from the member's balance to the company
+ *
+ * Request body:
+ * {
+ *  amount: number,
+ *  note?: string
+ * }
+ *
+ * Response: CompanyBalanceChangeResponse
+ * Errors: 400 (invalid amount or insufficient balance), 403 (not a member or missing permission), 404 (company not found)
+ */
+router.post(
+  "/:id/deposit",
+  ...route(AuthLevel.USER, CompanyController.deposit),
+);
+
+/**
+ * POST /api/companies/:id/withdraw
+ *
+ * Move money from the company to the member's balance (owner and
+ * managers)
+ *
+ * Request body:
+ * {
+ *  amount: number,
+ *  note?: string
+ * }
+ *
+ * Response: CompanyBalanceChangeResponse
+ * Errors: 400 (invalid amount or insufficient company balance), 403 (not a member or missing permission), 404 (company not found)
+ */
+router.post(
+  "/:id/withdraw",
+  ...route(AuthLevel.USER, CompanyController.withdraw),
+);
+
+/**
+ * POST /api/companies/:id/payroll
+ *
+ * Pay every member their salary in a single transaction (owner and
+ * managers)
+ *
+ * Response: RunCompanyPayrollResponse
+ * Errors: 400 (no salaries set or insufficient company balance), 403 (not a member or missing permission), 404 (company not found)
+ */
+router.post(
+  "/:id/payroll",
+  ...route(AuthLevel.USER, CompanyController.runPayroll),
+);
+
+/**
+ * POST /api/companies/:id/members
+ *
+ * Add a player to the company
+ *
+ * Request body:
+ * {
+ *  uuid: string,
+ *  role?: "manager" | "employee"
+ * }
+ *
+ * Response: CompanyMemberResponse (201)
+ * Errors: 400 (invalid input), 403 (missing permission), 404 (company or player not found), 409 (player already in a company)
+ */
+router.post(
+  "/:id/members",
+  ...route(AuthLevel.USER, CompanyController.addMember),
+);
+
+/**
+ * PATCH /api/companies/:id/members/:uuid
+ *
+ * Change a member's role (owner only) and/or salary
+ *
+ * Request body:
+ * {
+ *  role?: "manager" | "employee",
+ *  salary?: number
+ * }
+ *
+ * Response: CompanyMemberResponse
+ * Errors: 400 (invalid input), 403 (missing permission), 404 (company or member not found)
+ */
+router.patch(
+  "/:id/members/:uuid",
+  ...route(AuthLevel.USER, CompanyController.updateMember),
+);
+
+/**
+ * DELETE /api/companies/:id/members/:uuid
+ *
+ * Remove a member, or leave the company when the UUID is your own
+ *
+ * Response: 204
+ * Errors: 400 (invalid UUID), 403 (missing permission or owner leaving), 404 (company or member not found)
+ */
+router.delete(
+  "/:id/members/:uuid",
+  ...route(AuthLevel.USER, CompanyController.removeMember),
+);
+
+export default router;
@@ -0,0 +1,560 @@
+import {
+  BadRequestError,
+  ConflictError,
+  InternalServerError,
+  NotFoundError,
+} from "@/app/middleware";
+import { getIdType } from "@/app/utils/helpers";
+import { balanceRepo, db, Q } from "@/db";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type { EconomyRequest, Player } from "@/generated/db";
+import { getService, Services } from "@/services";
+import type { EconomyStatsService } from "@/services/economy";
+import {
+  EconomyBalanceChangeResponse,
+  EconomyTransferResponse,
+  GetEconomyBalanceResponse,
+  GetEconomyStatsResponse,
+  ReverseTransactionResponse,
+} from "@createrington/shared/api";
+import { Request, Response } from "express";
+
+/**
+ * Header carrying the client-supplied idempotency key
+ */
+const IDEMPOTENCY_HEADER = "idempotency-key";
+
+/**
+ * Age after which a pending idempotency key is considered abandoned and
+ * can be claimed again (milliseconds)
+ */
+const STALE_PENDING_MS = 5 * 60 * 1000;
+
+/**
+ * Economy controller
+ *
+ * Handles balance reads and changes requested by the in-game currency mod.
+ * Every mutating mod endpoint requires an idempotency key: the first request
+ * with a key is applied and its response stored, retries with the same key
+ * replay the stored response without touching the balance again.
+ *
+ * Also handles admin economy statistics and transaction reversals.
+ */
+export class EconomyController {
+  /**
+   * GET /api/economy/balance/:uuid
+   *
+   * Retrieves a player's balance by Minecraft UUID
+   *
+   * @example
+   * GET /api/economy/balance/550e8400-e29b-41d4-a716-446655440000
+   */
+  static async getBalance(req: Request, res: Response): Promise<void> {
+    const uuid = parseUuid(req.params.uuid, "uuid");
+    const player = await findPlayer(uuid);
+    const balance = await findBalance(uuid);
+
+    const response: GetEconomyBalanceResponse = {
+      success: true,
+      data: {
+        uuid,
+        minecraftUsername: player.minecraftUsername,
+        balance: BalanceUtils.format(balance),
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/economy/deposit
+   *
+   * Credits a player's balance (e.g. currency items deposited in-game)
+   *
+   * Headers: Idempotency-Key
+   * Body: { uuid: string, amount: number, reason?: string }
+   */
+  static async deposit(req: Request, res: Response): Promise<void> {
+    const idempotencyKey = parseIdempotencyKey(req);
+    const uuid = parseUuid(req.body.uuid, "uuid");
+    const amount = parseAmount(req.body.amount);
+    const reason = parseOptionalText(req.body.reason, "reason");
+
+    await findPlayer(uuid);
+    await findBalance(uuid);
+
+    const { data, replayed } = await withIdempotency(
+      {
+        idempotencyKey,
+        operation: "deposit",
+        playerMinecraftUuid: uuid,
+        fingerprint: { uuid, amount, reason },
+      },
+      async (tx) => {
+        const newBalance = await balanceRepo.add(
+          uuid,
+          amount,
+          reason ?? "In-game deposit",
+          BalanceTransactionType.DEPOSIT,
+          { source: "mod", idempotencyKey },
+          tx,
+        );
+
+        return {
+          uuid,
+          transactionType: BalanceTransactionType.DEPOSIT,
+          amount: formatAmount(amount),
+          balance: formatAmount(newBalance),
+          idempotencyKey,
+        };
+      },
+    );
+
+    const response: EconomyBalanceChangeResponse = {
+      success: true,
+      data: { ...data, replayed },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/economy/withdraw
+   *
+   * Debits a player's balance (e.g. currency items withdrawn in-game)
+   *
+   * Headers: Idempotency-Key
+   * Body: { uuid: string, amount: number, reason?: string }
+   */
+  static async withdraw(req: Request, res: Response): Promise<void> {
+    const idempotencyKey = parseIdempotencyKey(req);
+    const uuid = parseUuid(req.body.uuid, "uuid");
+    const amount = parseAmount(req.body.amount);
+    const reason = parseOptionalText(req.body.reason, "reason");
+
+    await findPlayer(uuid);
+    await findBalance(uuid);
+
+    const { data, replayed } = await withIdempotency(
+      {
+        idempotencyKey,
+        operation: "withdraw",
+        playerMinecraftUuid: uuid,
+        fingerprint: { uuid, amount, reason },
+      },
+      async (tx) => {
+        const newBalance = await balanceRepo.deduct(
+          uuid,
+          amount,
+          reason ?? "In-game withdrawal",
+          BalanceTransactionType.WITHDRAWAL,
+          { source: "mod", idempotencyKey },
+          tx,
+        );
+
+        return {
+          uuid,
+          transactionType: BalanceTransactionType.WITHDRAWAL,
+          amount: formatAmount(amount),
+          balance: formatAmount(newBalance),
+          idempotencyKey,
+        };
+      },
+    );
+
+    const response: EconomyBalanceChangeResponse = {
+      success: true,
+      data: { ...data, replayed },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/economy/transfer
+   *
+   * Transfers balance between two players
+   *
+   * Headers: Idempotency-Key
+   * Body: { fromUuid: string, toUuid: string, amount: number, note?: string }
+   */
+  static async transfer(req: Request, res: Response): Promise<void> {
+    const idempotencyKey = parseIdempotencyKey(req);
+    const fromUuid = parseUuid(req.body.fromUuid, "fromUuid");
+    const toUuid = parseUuid(req.body.toUuid, "toUuid");
+    const amount = parseAmount(req.body.amount);
+    const note = parseOptionalText(req.body.note, "note");
+
+    if (fromUuid.toLowerCase() === toUuid.toLowerCase()) {
+      throw new BadRequestError("Cannot transfer to self");
+    }
+
+    await findPlayer(fromUuid);
+    await findPlayer(toUuid);
+    await findBalance(fromUuid);
+    await findBalance(toUuid);
+
+    const { data, replayed } = await withIdempotency(
+      {
+        idempotencyKey,
+        operation: "transfer",
+        playerMinecraftUuid: fromUuid,
+        fingerprint: { fromUuid, toUuid, amount, note },
+      },
+      async (tx) => {
+        const result = await balanceRepo.transfer(
+          fromUuid,
+          toUuid,
+          amount,
+          note,
+          { source: "mod", idempotencyKey },
+          tx,
+        );
+
+        return {
+          fromUuid,
+          toUuid,
+          amount: formatAmount(amount),
+          fee: formatAmount(result.fee),
+          senderBalance: formatAmount(result.senderBalance),
+          recipientBalance: formatAmount(result.recipientBalance),
+          idempotencyKey,
+        };
+      },
+    );
+
+    const response: EconomyTransferResponse = {
+      success: true,
+      data: { ...data, replayed },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * GET /api/economy/stats
+   *
+   * Retrieves money supply, wealth distribution, issuance by source and
+   * transfer volume
+   *
+   * @example
+   * GET /api/economy/stats
+   * GET /api/economy/stats?days=30
+   */
+  static async getStats(req: Request, res: Response): Promise<void> {
+    const days = req.query.days ? parseInt(req.query.days as string) : 7;
+
+    if (isNaN(days) || days < 1 || days > 90) {
+      throw new BadRequestError("days must be between 1 and 90");
+    }
+
+    const statsService = await getService<EconomyStatsService>(
+      Services.ECONOMY_STATS_SERVICE,
+    );
+    const stats = await statsService.getStats(days);
+
+    const formatTotals = (totals: Record<string, bigint>) =>
+      Object.fromEntries(
+        Object.entries(totals).map(([source, total]) => [
+          source,
+          BalanceUtils.format(total),
+        ]),
+      );
+
+    const response: GetEconomyStatsResponse = {
+      success: true,
+      data: {
+        generatedAt: stats.generatedAt.toISOString(),
+        since: stats.since.toISOString(),
+        periodDays: stats.periodDays,
+        moneySupply: BalanceUtils.format(stats.moneySupply),
+        supplyByHolder: {
+          players: BalanceUtils.format(stats.supplyByHolder.players),
+          treasury: BalanceUtils.format(stats.supplyByHolder.treasury),
+          companies: BalanceUtils.format(stats.supplyByHolder.companies),
+        },
+        accounts: stats.accounts,
+        averageBalance: BalanceUtils.format(stats.averageBalance),
+        medianBalance: BalanceUtils.format(stats.medianBalance),
+        gini: stats.gini,
+        top10Share: stats.top10Share,
+        issuance: {
+          bySource: formatTotals(stats.issuance.bySource),
+          total: BalanceUtils.format(stats.issuance.total),
+          daily: stats.issuance.daily.map((day) => ({
+            date: day.date,
+            bySource: formatTotals(day.bySource),
+            total: BalanceUtils.format(day.total),
+          })),
+        },
+        transfers: {
+          volume: BalanceUtils.format(stats.transfers.volume),
+          count: stats.transfers.count,
+        },
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/economy/transactions/:id/reverse
+   *
+   * Reverses a balance transaction with linked refund entries on every
+   * affected side and records the action in the admin audit log
+   *
+   * Body: { reason: string, allowShortfall?: boolean }
+   */
+  static async reverseTransaction(req: Request, res: Response): Promise<void> {
+    const id = Number(req.params.id);
+
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new BadRequestError("Transaction ID must be a positive integer");
+    }
+
+    const reason = parseOptionalText(req.body.reason, "reason");
+    if (!reason) {
+      throw new BadRequestError("reason is required");
+    }
+
+    const allowShortfall = req.body.allowShortfall === true;
+
+    let refunds;
+    try {
+      refunds = await balanceRepo.reverse(id, {
+        reason,
+        allowShortfall,
+        admin: {
+          discordId: req.user!.discordId,
+          discordUsername: req.user!.username,
+        },
+        metadata: { source: "api" },
+      });
+    } catch (error) {
+      if (!(error instanceof Error)) {
+        throw new InternalServerError("Failed to reverse transaction");
+      }
+
+      if (error.message.includes("does not exist")) {
+        throw new NotFoundError(error.message);
+      }
+
+      if (error.message.includes("already reversed")) {
+        throw new ConflictError(error.message);
+      }
+
+      throw new BadRequestError(error.message);
+    }
+
+    const response: ReverseTransactionResponse = {
+      success: true,
+      data: {
+        reversedTransactionIds: refunds.map(
+          (refund) => refund.reversedTransactionId!,
+        ),
+        refunds: refunds.map((refund) => ({
+          id: refund.id,
+          playerMinecraftUuid: refund.playerMinecraftUuid,
+          amount: BalanceUtils.format(refund.amount),
+          balanceBefore: BalanceUtils.format(refund.balanceBefore),
+          balanceAfter: BalanceUtils.format(refund.balanceAfter),
+          reversedTransactionId: refund.reversedTransactionId!,
+          shortfall: refund.metadata?.shortfall,
+          createdAt: refund.createdAt.toISOString(),
+        })),
+      },
+    };
+
+    res.json(response);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Runs a balance change at most once per idempotency key
+ *
+ * Claiming the key (pending), running the operation and storing its
+ * response (completed) happen in one database transaction:
+ * - A concurrent duplicate waits for the first request and then replays
+ *   its response instead of applying the change twice
+ * - If anything fails, the claim is rolled back with the balance change,
+ *   so the client can retry with the same key
+ * - A pending key left behind for longer than STALE_PENDING_MS is taken
+ *   over by the next request with that key
+ *
+ * Reusing a key with different parameters is rejected with 409.
+ */
+async function withIdempotency<T extends Record<string, any>>(
+  request: {
+    idempotencyKey: string;
+    operation: string;
+    playerMinecraftUuid: string;
+    fingerprint: Record<string, unknown>;
+  },
+  operation: (tx: typeof db) => Promise<T>,
+): Promise<{ data: T; replayed: boolean }> {
+  const requestFingerprint = JSON.stringify({
+    operation: request.operation,
+    ...request.fingerprint,
+  });
+
+  let result: { data: T } | { existing: EconomyRequest };
+  try {
+    result = await db.inTransaction(async (tx) => {
+      const claim = await tx.economy.request.claimKey(
+        {
+          idempotencyKey: request.idempotencyKey,
+          operation: request.operation,
+          playerMinecraftUuid: request.playerMinecraftUuid,
+          requestFingerprint,
+        },
+        STALE_PENDING_MS,
+      );
+
+      if (!claim.claimed) {
+        return { existing: claim.existing };
+      }
+
+      const data = await operation(tx);
+      await tx.economy.request.complete(request.idempotencyKey, data);
+
+      return { data };
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("Insufficient")) {
+      throw new BadRequestError(error.message);
+    }
+
+    logger.error(`Economy ${request.operation} failed:`, error);
+    throw new InternalServerError(
+      `Failed to process ${request.operation}. Please try again.`,
+    );
+  }
+
+  if ("data" in result) {
+    return { data: result.data, replayed: false };
+  }
+
+  const { existing } = result;
+
+  if (existing.requestFingerprint !== requestFingerprint) {
+    throw new ConflictError(
+      "Idempotency key was already used for a different request",
+    );
+  }
+
+  if (existing.status !== "completed" || !existing.response) {
+    throw new ConflictError(
+      "A request with this idempotency key is still being processed",
+    );
+  }
+
+  logger.info(
+    `Replaying economy ${request.operation} for idempotency key ${request.idempotencyKey}`,
+  );
+
+  return { data: existing.response as T, replayed: true };
+}
+
+/**
+ * Reads the idempotency key from the Idempotency-Key header
+ */
+function parseIdempotencyKey(req: Request): string {
+  const key = req.get(IDEMPOTENCY_HEADER);
+
+  if (!key || key.trim().length === 0) {
+    throw new BadRequestError("Idempotency-Key header is required");
+  }
+
+  if (key.length > 128) {
+    throw new BadRequestError("Idempotency-Key must be at most 128 characters");
+  }
+
+  return key.trim();
+}
+
+/**
+ * Validates a Minecraft UUID parameter
+ */
+function parseUuid(value: unknown, field: string): string {
+  if (typeof value !== "string" || getIdType(value) !== "minecraft") {
+    throw new BadRequestError(`${field} must be a valid Minecraft UUID`);
+  }
+
+  return value;
+}
+
+/**
+ * Validates an amount (positive, at most 3 decimals)
+ */
+function parseAmount(value: unknown): number {
+  const amount = typeof value === "string" ? Number(value) : value;
+
+  if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+    throw new BadRequestError("amount must be a positive number");
+  }
+
+  try {
+    BalanceUtils.validate(amount);
+  } catch (error) {
+    throw new BadRequestError(
+      error instanceof Error ? error.message : "Invalid amount",
+    );
+  }
+
+  return amount;
+}
+
+/**
+ * Validates an optional free-text field
+ */
+function parseOptionalText(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || value.length > 200) {
+    throw new BadRequestError(
+      `${field} must be a string of at most 200 characters`,
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Fetches a player by UUID or throws 404
+ */
+async function findPlayer(uuid: string): Promise<Player> {
+  const player = await Q.player.find({ minecraftUuid: uuid });
+
+  if (!player) {
+    throw new NotFoundError(`Player with UUID ${uuid} not found`);
+  }
+
+  return player;
+}
+
+/**
+ * Fetches a player's raw balance or throws 404
+ */
+async function findBalance(uuid: string): Promise<bigint> {
+  const balance = await Q.player.balance.find({ minecraftUuid: uuid });
+
+  if (!balance) {
+    throw new NotFoundError(`No balance account found for player ${uuid}`);
+  }
+
+  return balance.balance;
+}
+
+/**
+ * Formats a display amount as a 3-decimal string
+ */
+function formatAmount(amount: number): string {
+  return BalanceUtils.format(BalanceUtils.toStorage(amount));
+}
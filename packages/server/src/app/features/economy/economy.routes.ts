@@ -0,0 +1,171 @@
+import {
+  AuthLevel,
+  customRoute,
+  route,
+  verifyModJWT,
+  verifyServerIP,
+} from "@/app/middleware";
+import { Router } from "express";
+import { EconomyController } from "./economy.controller";
+
+const router = Router();
+
+/**
+ * Economy routes
+ * Base path: /api/economy
+ *
+ * Mod routes are called by the Createrington Currency mod to read and
+ * change player balances. Admin routes correct the ledger. Amounts use 3
+ * decimal precision.
+ */
+
+// ============================================================================
+// MOD ROUTES (JWT + IP verification required)
+// ============================================================================
+
+/**
+ * GET /api/economy/balance/:uuid
+ *
+ * Get a player's balance
+ *
+ * Security:
+ * - Requires valid mod JWT token
+ * - Requires whitelisted server IP
+ *
+ * Response: GetEconomyBalanceResponse
+ * Errors: 400 (invalid UUID), 404 (player or balance not found)
+ */
+router.get(
+  "/balance/:uuid",
+  ...customRoute(
+    [verifyServerIP, verifyModJWT],
+    EconomyController.getBalance,
+  ),
+);
+
+/**
+ * POST /api/economy/deposit
+ *
+ * Credit a player's balance
+ *
+ * Security:
+ * - Requires valid mod JWT token
+ * - Requires whitelisted server IP
+ *
+ * Headers:
+ * - Idempotency-Key: unique key per logical request (max 128 chars)
+ *
+ * Request body:
+ * {
+ *  uuid: string,
+ *  amount: number,
+ *  reason?: string
+ * }
+ *
+ * Response: EconomyBalanceChangeResponse
+ * Errors: 400 (invalid input), 404 (player not found), 409 (key reused or in progress)
+ */
+router.post(
+  "/deposit",
+  ...customRoute([verifyServerIP, verifyModJWT], EconomyController.deposit),
+);
+
+/**
+ * POST /api/economy/withdraw
+ *
+ * Debit a player's balance
+ *
+ * Security:
+ * - Requires valid mod JWT token
+ * - Requires whitelisted server IP
+ *
+ * Headers:
+ * - Idempotency-Key: unique key per logical request (max 128 chars)
+ *
+ * Request body:
+ * {
+ *  uuid: string,
+ *  amount: number,
+ *  reason?: string
+ * }
+ *
+ * Response: EconomyBalanceChangeResponse
+ * Errors: 400 (invalid input or insufficient balance), 404 (player not found), 409 (key reused or in progress)
+ */
+router.post(
+  "/withdraw",
+  ...customRoute([verifyServerIP, verifyModJWT], EconomyController.withdraw),
+);
+
+/**
+ * POST /api/economy/transfer
+ *
+ * Transfer balance between two players. The sender pays the transfer fee
+ * on top of the amount; the fee charged is returned in the response.
+ *
+ * Security:
+ * - Requires valid mod JWT token
+ * - Requires whitelisted server IP
+ *
+ * Headers:
+ * - Idempotency-Key: unique key per logical request (max 128 chars)
+ *
+ * Request body:
+ * {
+ *  fromUuid: string,
+ *  toUuid: string,
+ *  amount: number,
+ *  note?: string
+ * }
+ *
+ * Response: EconomyTransferResponse
+ * Errors: 400 (invalid input or insufficient balance), 404 (player not found), 409 (key reused or in progress)
+ */
+router.post(
+  "/transfer",
+  ...customRoute([verifyServerIP, verifyModJWT], EconomyController.transfer),
+);
+
+// ============================================================================
+// ADMIN ROUTES
+// ============================================================================
+
+/**
+ * GET /api/economy/stats
+ *
+ * Get economy health statistics: money supply, Gini coefficient, top 10%
+ * share, daily issuance by source and transfer volume
+ *
+ * Query Parameters:
+ * - days: Period covered by issuance and transfer stats (1-90, default: 7)
+ *
+ * Response: GetEconomyStatsResponse
+ * Errors: 400 (invalid days)
+ */
+router.get("/stats", ...route(AuthLevel.ADMIN, EconomyController.getStats));
+
+/**
+ * POST /api/economy/transactions/:id/reverse
+ *
+ * Reverse a balance transaction. Transfers are reversed on both sides.
+ * Each side gets a REFUND entry linked to the reversed transaction, and the
+ * action is written to the admin audit log.
+ *
+ * Path Parameters:
+ * - id: player_balance_transaction ID
+ *
+ * Request body:
+ * {
+ *  reason: string,
+ *  allowShortfall?: boolean
+ * }
+ *
+ * Response: ReverseTransactionResponse
+ * Errors: 400 (invalid input, not reversible or balance does not cover it), 404 (transaction not found), 409 (already reversed)
+ */
+router.post(
+  "/transactions/:id/reverse",
+  ...route(AuthLevel.ADMIN, EconomyController.reverseTransaction),
+);
+
+export default router;
@@ -0,0 +1,346 @@
+import {
+  BadRequestError,
+  ForbiddenError,
+  InternalServerError,
+  NotFoundError,
+} from "@/app/middleware";
+import { Q } from "@/db";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type { ExchangeTrade, Player } from "@/generated/db";
+import { getService, Services } from "@/services";
+import {
+  ExchangeOrderResult,
+  ExchangeQuote,
+  ExchangeService,
+} from "@/services/exchange";
+import {
+  ExchangeAssetApiData,
+  ExchangeOrderResponse,
+  ExchangeTradeApiData,
+  GetExchangeAssetsResponse,
+  GetExchangeHistoryResponse,
+  GetExchangeHoldingsResponse,
+  GetExchangeTradesResponse,
+} from "@createrington/shared/api";
+import { Request, Response } from "express";
+
+/**
+ * Exchange controller
+ *
+ * Handles the simulated commodity exchange: asset quotes, price history,
+ * and buying and selling as the Minecraft account linked to the
+ * requesting Discord user. Orders fill at the current price and settle
+ * against the player's balance.
+ */
+export class ExchangeController {
+  /**
+   * GET /api/exchange/assets
+   *
+   * Retrieves every asset with its current price and 24 hour change
+   */
+  static async getAssets(_req: Request, res: Response): Promise<void> {
+    const service = await getExchangeService();
+    const quotes = await service.getQuotes();
+
+    const response: GetExchangeAssetsResponse = {
+      success: true,
+      data: quotes.map(toAssetApiData),
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * GET /api/exchange/assets/:symbol/history
+   *
+   * Retrieves an asset's price history for charting, oldest first
+   *
+   * Query Parameters:
+   * - hours: History window in hours (1-168, default: 24)
+   *
+   * @example
+   * GET /api/exchange/assets/BRASS/history?hours=6
+   */
+  static async getHistory(req: Request, res: Response): Promise<void> {
+    const symbol = parseSymbol(req.params.symbol);
+    const service = await getExchangeService();
+    const quote = await service.getQuote(symbol);
+
+    if (!quote) {
+      throw new NotFoundError(`Asset ${symbol} not found`);
+    }
+
+    const hours = Math.min(
+      168,
+      Math.max(1, parseInt(req.query.hours as string) || 24),
+    );
+    const prices = await service.getHistory(
+      quote.symbol,
+      new Date(Date.now() - hours * 60 * 60 * 1000),
+    );
+
+    const response: GetExchangeHistoryResponse = {
+      success: true,
+      data: {
+        asset: toAssetApiData(quote),
+        prices: prices.map((point) => ({
+          price: BalanceUtils.format(point.price),
+          recordedAt: point.recordedAt.toISOString(),
+        })),
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * GET /api/exchange/holdings
+   *
+   * Retrieves the requesting player's holdings valued at current prices
+   */
+  static async getHoldings(req: Request, res: Response): Promise<void> {
+    const player = await findRequestingPlayer(req);
+    const service = await getExchangeService();
+
+    const [holdings, quotes] = await Promise.all([
+      service.getHoldings(player.minecraftUuid),
+      service.getQuotes(),
+    ]);
+    const prices = new Map(quotes.map((quote) => [quote.symbol, quote.price]));
+
+    let totalValue = 0n;
+    const data = holdings.map((holding) => {
+      const value =
+        (prices.get(holding.assetSymbol) ?? 0n) * BigInt(holding.quantity);
+      totalValue += value;
+
+      return {
+        symbol: holding.assetSymbol,
+        quantity: holding.quantity,
+        costBasis: BalanceUtils.format(holding.costBasis),
+        value: BalanceUtils.format(value),
+      };
+    });
+
+    const response: GetExchangeHoldingsResponse = {
+      success: true,
+      data: {
+        holdings: data,
+        totalValue: BalanceUtils.format(totalValue),
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * GET /api/exchange/trades
+   *
+   * Retrieves the requesting player's filled orders, newest first
+   *
+   * Query Parameters:
+   * - page: Page number (0-indexed, default: 0)
+   * - limit: Results per page (1-100, default: 20)
+   */
+  static async getTrades(req: Request, res: Response): Promise<void> {
+    const player = await findRequestingPlayer(req);
+    const service = await getExchangeService();
+
+    const page = Math.max(0, parseInt(req.query.page as string) || 0);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(req.query.limit as string) || 20),
+    );
+
+    const { trades, total } = await service.getTrades(
+      player.minecraftUuid,
+      limit,
+      page * limit,
+    );
+
+    const response: GetExchangeTradesResponse = {
+      success: true,
+      data: {
+        trades: trades.map(toTradeApiData),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/exchange/assets/:symbol/buy
+   *
+   * Buys units of an asset at the current price
+   *
+   * Body: { quantity: number }
+   */
+  static async buy(req: Request, res: Response): Promise<void> {
+    const symbol = parseSymbol(req.params.symbol);
+    const player = await findRequestingPlayer(req);
+    const service = await getExchangeService();
+    const quantity = parseQuantity(req.body.quantity);
+
+    let result;
+    try {
+      result = await service.buy(player.minecraftUuid, symbol, quantity);
+    } catch (error) {
+      throw toHttpError(error, "Failed to fill buy order");
+    }
+
+    res.json(toOrderResponse(result));
+  }
+
+  /**
+   * POST /api/exchange/assets/:symbol/sell
+   *
+   * Sells units of an asset at the current price
+   *
+   * Body: { quantity: number }
+   */
+  static async sell(req: Request, res: Response): Promise<void> {
+    const symbol = parseSymbol(req.params.symbol);
+    const player = await findRequestingPlayer(req);
+    const service = await getExchangeService();
+    const quantity = parseQuantity(req.body.quantity);
+
+    let result;
+    try {
+      result = await service.sell(player.minecraftUuid, symbol, quantity);
+    } catch (error) {
+      throw toHttpError(error, "Failed to fill sell order");
+    }
+
+    res.json(toOrderResponse(result));
+  }
+}
+
+/**
+ * Converts a quote to its API representation
+ */
+function toAssetApiData(quote: ExchangeQuote): ExchangeAssetApiData {
+  return {
+    symbol: quote.symbol,
+    name: quote.name,
+    isActive: quote.isActive,
+    price: BalanceUtils.format(quote.price),
+    openPrice: BalanceUtils.format(quote.openPrice),
+    changePercent: quote.changePercent,
+    updatedAt: quote.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Converts a filled order record to its API representation
+ */
+function toTradeApiData(trade: ExchangeTrade): ExchangeTradeApiData {
+  return {
+    id: trade.id,
+    symbol: trade.assetSymbol,
+    side: trade.side as ExchangeTradeApiData["side"],
+    quantity: trade.quantity,
+    price: BalanceUtils.format(trade.price),
+    total: BalanceUtils.format(trade.total),
+    createdAt: trade.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Builds the response for a filled buy or sell order
+ */
+function toOrderResponse(result: ExchangeOrderResult): ExchangeOrderResponse {
+  return {
+    success: true,
+    data: {
+      side: result.side,
+      symbol: result.symbol,
+      quantity: result.quantity,
+      price: BalanceUtils.format(result.price),
+      total: BalanceUtils.format(result.total),
+      holdingQuantity: result.holdingQuantity,
+      newBalance: BalanceUtils.format(
+        BalanceUtils.toStorage(result.newBalance),
+      ),
+    },
+  };
+}
+
+async function getExchangeService(): Promise<ExchangeService> {
+  return await getService<ExchangeService>(Services.EXCHANGE_SERVICE);
+}
+
+/**
+ * Maps a service error to an HTTP error by its message
+ */
+function toHttpError(error: unknown, fallback: string): Error {
+  if (!(error instanceof Error)) {
+    return new InternalServerError(fallback);
+  }
+
+  const { message } = error;
+
+  if (message.includes("does not exist")) {
+    return new NotFoundError(message);
+  }
+
+  if (
+    message.startsWith("Insufficient") ||
+    message.startsWith("Quantity") ||
+    message.startsWith("Amount") ||
+    message.includes("no longer traded")
+  ) {
+    return new BadRequestError(message);
+  }
+
+  logger.error(`${fallback}:`, error);
+  return new InternalServerError(fallback);
+}
+
+/**
+ * Fetches the player linked to the requesting Discord user or throws 403
+ */
+async function findRequestingPlayer(req: Request): Promise<Player> {
+  const player = await Q.player.find({ discordId: req.user!.discordId });
+
+  if (!player) {
+    throw new ForbiddenError(
+      "You must link a Minecraft account to use the exchange",
+    );
+  }
+
+  return player;
+}
+
+/**
+ * Validates an asset symbol path parameter and normalizes it to upper case
+ */
+function parseSymbol(value: unknown): string {
+  if (typeof value !== "string" || !/^[A-Za-z0-9_]{1,16}$/.test(value)) {
+    throw new BadRequestError("Invalid asset symbol");
+  }
+
+  return value.toUpperCase();
+}
+
+/**
+ * Validates an order quantity (positive integer)
+ */
+function parseQuantity(value: unknown): number {
+  const quantity = typeof value === "string" ? Number(value) : value;
+
+  if (
+    typeof quantity !== "number" ||
+    !Number.isInteger(quantity) ||
+    quantity <= 0
+  ) {
+    throw new BadRequestError("quantity must be a positive integer");
+  }
+
+  return quantity;
+}
@@ -0,0 +1,112 @@
+import { AuthLevel, route } from "@/app/middleware";
+import { Router } from "express";
+import { ExchangeController } from "./exchange.controller";
+
+const router = Router();
+
+/**
+ * Exchange routes
+ * Base path: /api/exchange
+ *
+ * Simulated commodity exchange. Anyone can view prices and price history;
+ * registered players trade as their linked Minecraft account. Live price
+ * ticks are pushed over the WebSocket "exchange" subscription.
+ */
+
+// ============================================================================
+// PUBLIC ROUTES
+// ============================================================================
+
+/**
+ * GET /api/exchange/assets
+ *
+ * Get every asset with its current price and 24 hour change
+ *
+ * Response: GetExchangeAssetsResponse
+ */
+router.get("/assets", ...route(AuthLevel.PUBLIC, ExchangeController.getAssets));
+
+/**
+ * GET /api/exchange/assets/:symbol/history
+ *
+ * Get an asset's price history, oldest first
+ *
+ * Query Parameters:
+ * - hours: History window in hours (1-168, default: 24)
+ *
+ * Response: GetExchangeHistoryResponse
+ * Errors: 404 (asset not found)
+ */
+router.get(
+  "/assets/:symbol/history",
+  ...route(AuthLevel.PUBLIC, ExchangeController.getHistory),
+);
+
+// ============================================================================
+// USER ROUTES
+// ============================================================================
+
+/**
+ * GET /api/exchange/holdings
+ *
+ * Get the authenticated user's holdings valued at current prices
+ *
+ * Response: GetExchangeHoldingsResponse
+ * Errors: 403 (no linked Minecraft account)
+ */
+router.get(
+  "/holdings",
+  ...route(AuthLevel.USER, ExchangeController.getHoldings),
+);
+
+/**
+ * GET /api/exchange/trades
+ *
+ * Get the authenticated user's filled orders, newest first
+ *
+ * Query Parameters:
+ * - page: Page number (0-indexed, default: 0)
+ * - limit: Results per page (1-100, default: 20)
+ *
+ * Response: GetExchangeTradesResponse
+ * Errors: 403 (no linked Minecraft account)
+ */
+router.get("/trades", ...route(AuthLevel.USER, ExchangeController.getTrades));
+
+/**
+ * POST /api/exchange/assets/:symbol/buy
+ *
+ * Buy units of an asset at the current price
+ *
+ * Request body:
+ * {
+ *  quantity: number
+ * }
+ *
+ * Response: ExchangeOrderResponse
+ * Errors: 400 (invalid quantity, inactive asset or insufficient balance), 403 (no linked Minecraft account), 404 (asset not found)
+ */
+router.post(
+  "/assets/:symbol/buy",
+  ...route(AuthLevel.USER, ExchangeController.buy),
+);
+
+/**
+ * POST /api/exchange/assets/:symbol/sell
+ *
+ * Sell units of an asset at the current price
+ *
+ * Request body:
+ * {
+ *  quantity: number
+ * }
+ *
+ * Response: ExchangeOrderResponse
+ * Errors: 400 (invalid quantity or insufficient holdings), 403 (no linked Minecraft account), 404 (asset not found)
+ */
+router.post(
+  "/assets/:symbol/sell",
+  ...route(AuthLevel.USER, ExchangeController.sell),
+);
+
+export default router;
@@ -4,6 +4,11 @@ import authRoutes from "./auth/auth.routes";
 import presenceRoutes from "./presence/presence.routes";
 import serverRoutes from "./server/server.routes";
 import playerRoutes from "./player/player.routes";
+import economyRoutes from "./economy/economy.routes";
+import marketRoutes from "./market/market.routes";
+import companyRoutes from "./company/company.routes";
+import exchangeRoutes from "./exchange/exchange.routes";
+import invoiceRoutes from "./invoice/invoice.routes";
 
 /**
  * Register all API routes
@@ -20,6 +25,11 @@ export function registerRoutes(app: Express): void {
   app.use(`${API_PREFIX}/presence`, presenceRoutes);
   app.use(`${API_PREFIX}/servers`, serverRoutes);
   app.use(`${API_PREFIX}/players`, playerRoutes);
+  app.use(`${API_PREFIX}/economy`, economyRoutes);
+  app.use(`${API_PREFIX}/market`, marketRoutes);
+  app.use(`${API_PREFIX}/companies`, companyRoutes);
+  app.use(`${API_PREFIX}/exchange`, exchangeRoutes);
+  app.use(`${API_PREFIX}/invoices`, invoiceRoutes);
 
   logger.info("API routes registered");
 }
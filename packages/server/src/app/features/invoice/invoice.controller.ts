@@ -0,0 +1,160 @@
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "@/app/middleware";
+import { Q } from "@/db";
+import type { EconomyInvoiceWithPlayers } from "@/db/queries/economy/invoice";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type { Player } from "@/generated/db";
+import { getService, Services } from "@/services";
+import { InvoiceService, InvoiceStatus } from "@/services/invoice";
+import {
+  GetInvoicesResponse,
+  InvoiceApiData,
+  InvoiceResponse,
+} from "@createrington/shared/api";
+import { Request, Response } from "express";
+
+/**
+ * Invoice controller
+ *
+ * Lists the payment requests sent and received by the Minecraft account
+ * linked to the requesting Discord user. Invoices are created and paid
+ * through the /invoice Discord command.
+ */
+export class InvoiceController {
+  /**
+   * GET /api/invoices
+   *
+   * Retrieves the requesting player's invoices, newest first
+   *
+   * Query Parameters:
+   * - role: issuer or payer (default: both)
+   * - status: pending, paid, declined, cancelled, expired or all
+   *   (default: all)
+   * - page: Page number (0-indexed, default: 0)
+   * - limit: Results per page (1-100, default: 20)
+   *
+   * @example
+   * GET /api/invoices?role=payer&status=pending
+   */
+  static async getInvoices(req: Request, res: Response): Promise<void> {
+    const player = await findRequestingPlayer(req);
+
+    const page = Math.max(0, parseInt(req.query.page as string) || 0);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(req.query.limit as string) || 20),
+    );
+
+    const role = req.query.role as string | undefined;
+    if (role && role !== "issuer" && role !== "payer") {
+      throw new BadRequestError(
+        `Invalid role: ${role}. Must be one of: issuer, payer`,
+      );
+    }
+
+    const status = (req.query.status as string) || "all";
+    const validStatuses = [...Object.values(InvoiceStatus), "all"];
+    if (!validStatuses.includes(status)) {
+      throw new BadRequestError(
+        `Invalid status: ${status}. Must be one of: ${validStatuses.join(", ")}`,
+      );
+    }
+
+    const service = await getInvoiceService();
+    const { invoices, total } = await service.list({
+      playerUuid: player.minecraftUuid,
+      role: role as "issuer" | "payer" | undefined,
+      status: status === "all" ? undefined : status,
+      limit,
+      offset: page * limit,
+    });
+
+    const response: GetInvoicesResponse = {
+      success: true,
+      data: {
+        invoices: invoices.map(toInvoiceApiData),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * GET /api/invoices/:id
+   *
+   * Retrieves a single invoice sent or received by the requesting player
+   */
+  static async getInvoice(req: Request, res: Response): Promise<void> {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new BadRequestError("Invoice ID must be a positive integer");
+    }
+
+    const player = await findRequestingPlayer(req);
+    const service = await getInvoiceService();
+    const invoice = await service.get(id);
+
+    // Invoices of other players are reported as missing
+    if (
+      !invoice ||
+      (invoice.issuerMinecraftUuid !== player.minecraftUuid &&
+        invoice.payerMinecraftUuid !== player.minecraftUuid)
+    ) {
+      throw new NotFoundError(`Invoice #${id} not found`);
+    }
+
+    const response: InvoiceResponse = {
+      success: true,
+      data: toInvoiceApiData(invoice),
+    };
+
+    res.json(response);
+  }
+}
+
+/**
+ * Converts an invoice to its API representation
+ */
+function toInvoiceApiData(invoice: EconomyInvoiceWithPlayers): InvoiceApiData {
+  return {
+    id: invoice.id,
+    issuerMinecraftUuid: invoice.issuerMinecraftUuid,
+    issuerUsername: invoice.issuerUsername,
+    payerMinecraftUuid: invoice.payerMinecraftUuid,
+    payerUsername: invoice.payerUsername,
+    amount: BalanceUtils.format(invoice.amount),
+    note: invoice.note,
+    status: invoice.status as InvoiceApiData["status"],
+    createdAt: invoice.createdAt.toISOString(),
+    expiresAt: invoice.expiresAt.toISOString(),
+    resolvedAt: invoice.resolvedAt?.toISOString() ?? null,
+  };
+}
+
+async function getInvoiceService(): Promise<InvoiceService> {
+  return await getService<InvoiceService>(Services.INVOICE_SERVICE);
+}
+
+/**
+ * Fetches the player linked to the requesting Discord user or throws 403
+ */
+async function findRequestingPlayer(req: Request): Promise<Player> {
+  const player = await Q.player.find({ discordId: req.user!.discordId });
+
+  if (!player) {
+    throw new ForbiddenError(
+      "You must link a Minecraft account to use invoices",
+    );
+  }
+
+  return player;
+}
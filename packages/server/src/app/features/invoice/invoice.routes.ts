@@ -0,0 +1,45 @@
+import { AuthLevel, route } from "@/app/middleware";
+import { Router } from "express";
+import { InvoiceController } from "./invoice.controller";
+
+const router = Router();
+
+/**
+ * Invoice routes
+ * Base path: /api/invoices
+ *
+ * Read-only access to payment requests between players. Invoices are
+ * created, paid and cancelled through the /invoice Discord command.
+ */
+
+// ============================================================================
+// USER ROUTES
+// ============================================================================
+
+/**
+ * GET /api/invoices
+ *
+ * Get the authenticated user's sent and received invoices, newest first
+ *
+ * Query Parameters:
+ * - role: issuer or payer (default: both)
+ * - status: pending, paid, declined, cancelled, expired or all (default: all)
+ * - page: Page number (0-indexed, default: 0)
+ * - limit: Results per page (1-100, default: 20)
+ *
+ * Response: GetInvoicesResponse
+ * Errors: 400 (invalid role or status), 403 (no linked Minecraft account)
+ */
+router.get("/", ...route(AuthLevel.USER, InvoiceController.getInvoices));
+
+/**
+ * GET /api/invoices/:id
+ *
+ * Get a single invoice sent or received by the authenticated user
+ *
+ * Response: InvoiceResponse
+ * Errors: 400 (invalid ID), 403 (no linked Minecraft account), 404 (invoice not found)
+ */
+router.get("/:id", ...route(AuthLevel.USER, InvoiceController.getInvoice));
+
+export default router;
@@ -0,0 +1,695 @@
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  InternalServerError,
+  NotFoundError,
+} from "@/app/middleware";
+import { getIdType } from "@/app/utils/helpers";
+import { marketRepo, Q } from "@/db";
+import type { MarketListingWithSeller } from "@/db/queries/market/listing";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type { MarketRequestWithPlayers } from "@/db/queries/market/request";
+import { MarketListingStatus } from "@/db/repositories/market";
+import type { MarketListing, Player } from "@/generated/db";
+import { getService, Services } from "@/services";
+import {
+  MarketRequestService,
+  MarketRequestStatus,
+} from "@/services/market";
+import {
+  GetMarketListingsResponse,
+  GetMarketRequestsResponse,
+  MarketListingApiData,
+  MarketListingResponse,
+  MarketRequestApiData,
+  MarketRequestResponse,
+  PurchaseMarketListingResponse,
+} from "@createrington/shared/api";
+import { Request, Response } from "express";
+
+/**
+ * Market controller
+ *
+ * Handles browsing, creating, buying and cancelling marketplace listings,
+ * and the item request board. Listings and requests belong to the
+ * Minecraft account linked to the requesting Discord user. Purchases
+ * settle through the balance repository as PURCHASE and SALE
+ * transactions, request bounties through the market request service's
+ * escrow.
+ */
+export class MarketController {
+  /**
+   * GET /api/market/listings
+   *
+   * Retrieves listings with search, filtering and pagination
+   *
+   * Query Parameters:
+   * - search: Case-insensitive match on item name, item ID and description
+   * - seller: Seller Minecraft UUID
+   * - status: active, sold_out, cancelled or all (default: active)
+   * - page: Page number (0-indexed, default: 0)
+   * - limit: Results per page (1-100, default: 20)
+   * - sortBy: createdAt or unitPrice (default: createdAt)
+   * - sortOrder: ASC or DESC (default: DESC)
+   *
+   * @example
+   * GET /api/market/listings?search=brass&sortBy=unitPrice&sortOrder=ASC
+   */
+  static async getListings(req: Request, res: Response): Promise<void> {
+    const page = Math.max(0, parseInt(req.query.page as string) || 0);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(req.query.limit as string) || 20),
+    );
+
+    const search = ((req.query.search as string) || "").trim() || undefined;
+    if (search && search.length > 100) {
+      throw new BadRequestError("search must be at most 100 characters");
+    }
+
+    const seller = req.query.seller as string | undefined;
+    if (seller && getIdType(seller) !== "minecraft") {
+      throw new BadRequestError("seller must be a valid Minecraft UUID");
+    }
+
+    const status = (req.query.status as string) || MarketListingStatus.ACTIVE;
+    const validStatuses = [...Object.values(MarketListingStatus), "all"];
+    if (!validStatuses.includes(status)) {
+      throw new BadRequestError(
+        `Invalid status: ${status}. Must be one of: ${validStatuses.join(", ")}`,
+      );
+    }
+
+    const sortBy = req.query.sortBy === "unitPrice" ? "unitPrice" : "createdAt";
+    const sortOrder =
+      (req.query.sortOrder as string)?.toUpperCase() === "ASC" ? "ASC" : "DESC";
+
+    try {
+      const { listings, total } = await marketRepo.searchListings({
+        search,
+        sellerUuid: seller,
+        status: status === "all" ? undefined : status,
+        sortBy,
+        sortOrder,
+        limit,
+        offset: page * limit,
+      });
+
+      const response: GetMarketListingsResponse = {
+        success: true,
+        data: {
+          listings: listings.map((listing) => toApiData(listing)),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error("Failed to fetch market listings:", error);
+      throw new BadRequestError("Failed to fetch market listings");
+    }
+  }
+
+  /**
+   * GET /api/market/listings/:id
+   *
+   * Retrieves a single listing
+   *
+   * @example
+   * GET /api/market/listings/42
+   */
+  static async getListing(req: Request, res: Response): Promise<void> {
+    const id = parseId(req.params.id, "Listing");
+    const listing = await marketRepo.getListing(id);
+
+    if (!listing) {
+      throw new NotFoundError(`Listing #${id} not found`);
+    }
+
+    const response: MarketListingResponse = {
+      success: true,
+      data: toApiData(listing),
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * POST /api/market/listings
+   *
+   * Creates a listing for the requesting user's Minecraft account
+   *
+   * Body: { itemName: string, itemId?: string, description?: string,
+   *         quantity: number, unitPrice: number }
+   */
+  static async createListing(req: Request, res: Response): Promise<void> {
+    const seller = await findRequestingPlayer(req);
+
+    const itemName = parseText(req.body.itemName, "itemName", 128);
+    if (!itemName) {
+      throw new BadRequestError("itemName is required");
+    }
+
+    const itemId = parseText(req.body.itemId, "itemId", 128);
+    const description = parseText(req.body.description, "description", 500);
+    const quantity = parseQuantity(req.body.quantity);
+    const unitPrice = parsePrice(req.body.unitPrice);
+
+    const listing = await marketRepo.createListing({
+      sellerUuid: seller.minecraftUuid,
+      itemName,
+      itemId,
+      description,
+      quantity,
+      unitPrice,
+    });
+
+    const response: MarketListingResponse = {
+      success: true,
+      data: toApiData(listing, seller.minecraftUsername),
+    };
+
+    res.status(201).json(response);
+  }
+
+  /**
+   * POST /api/market/listings/:id/purchase
+   *
+   * Buys units of a listing with the requesting user's balance
+   *
+   * Body: { quantity: number }
+   */
+  static async purchaseListing(req: Request, res: Response): Promise<void> {
+    const id = parseId(req.params.id, "Listing");
+    const buyer = await findRequestingPlayer(req);
+    const quantity = parseQuantity(req.body.quantity);
+
+    let result;
+    try {
+      result = await marketRepo.purchase(id, buyer.minecraftUuid, quantity);
+    } catch (error) {
+      throw toHttpError(error, "Failed to purchase listing");
+    }
+
+    const seller = await Q.player.find({
+      minecraftUuid: result.listing.sellerMinecraftUuid,
+    });
+
+    const response: PurchaseMarketListingResponse = {
+      success: true,
+      data: {
+        purchaseId: result.purchase.id,
+        listing: toApiData(result.listing, seller?.minecraftUsername),
+        quantity: result.purchase.quantity,
+        unitPrice: BalanceUtils.format(result.purchase.unitPrice),
+        totalPrice: BalanceUtils.format(result.purchase.totalPrice),
+        buyerBalance: BalanceUtils.format(
+          BalanceUtils.toStorage(result.buyerBalance),
+        ),
+      },
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * DELETE /api/market/listings/:id
+   *
+   * Cancels an active listing. Only the seller or an admin may cancel.
+   */
+  static async cancelListing(req: Request, res: Response): Promise<void> {
+    const id = parseId(req.params.id, "Listing");
+    const listing = await marketRepo.getListing(id);
+
+    if (!listing) {
+      throw new NotFoundError(`Listing #${id} not found`);
+    }
+
+    if (!req.user!.isAdmin) {
+      const player = await findRequestingPlayer(req);
+
+      if (player.minecraftUuid !== listing.sellerMinecraftUuid) {
+        throw new ForbiddenError(
+          "Only the seller or an admin can cancel this listing",
+        );
+      }
+    }
+
+    let cancelled;
+    try {
+      cancelled = await marketRepo.cancelListing(id, req.user!.discordId);
+    } catch (error) {
+      throw toHttpError(error, "Failed to cancel listing");
+    }
+
+    const response: MarketListingResponse = {
+      success: true,
+      data: toApiData(cancelled, listing.sellerUsername),
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * GET /api/market/requests
+   *
+   * Retrieves item requests with search, filtering and pagination
+   *
+   * Query Parameters:
+   * - search: Case-insensitive match on item name, item ID and description
+   * - requester: Requester Minecraft UUID
+   * - fulfiller: Fulfiller Minecraft UUID
+   * - status: open, claimed, fulfilled, cancelled, expired or all
+   *   (default: open)
+   * - page: Page number (0-indexed, default: 0)
+   * - limit: Results per page (1-100, default: 20)
+   *
+   * @example
+   * GET /api/market/requests?search=brass
+   */
+  static async getRequests(req: Request, res: Response): Promise<void> {
+    const page = Math.max(0, parseInt(req.query.page as string) || 0);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(req.query.limit as string) || 20),
+    );
+
+    const search = ((req.query.search as string) || "").trim() || undefined;
+    if (search && search.length > 100) {
+      throw new BadRequestError("search must be at most 100 characters");
+    }
+
+    const requester = req.query.requester as string | undefined;
+    if (requester && getIdType(requester) !== "minecraft") {
+      throw new BadRequestError("requester must be a valid Minecraft UUID");
+    }
+
+    const fulfiller = req.query.fulfiller as string | undefined;
+    if (fulfiller && getIdType(fulfiller) !== "minecraft") {
+      throw new BadRequestError("fulfiller must be a valid Minecraft UUID");
+    }
+
+    const status = (req.query.status as string) || MarketRequestStatus.OPEN;
+    const validStatuses = [...Object.values(MarketRequestStatus), "all"];
+    if (!validStatuses.includes(status)) {
+      throw new BadRequestError(
+        `Invalid status: ${status}. Must be one of: ${validStatuses.join(", ")}`,
+      );
+    }
+
+    try {
+      const service = await getMarketRequestService();
+      const { requests, total } = await service.search({
+        search,
+        requesterUuid: requester,
+        fulfillerUuid: fulfiller,
+        status: status === "all" ? undefined : status,
+        limit,
+        offset: page * limit,
+      });
+
+      const response: GetMarketRequestsResponse = {
+        success: true,
+        data: {
+          requests: requests.map(toRequestApiData),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error("Failed to fetch market requests:", error);
+      throw new BadRequestError("Failed to fetch market requests");
+    }
+  }
+
+  /**
+   * GET /api/market/requests/:id
+   *
+   * Retrieves a single item request
+   */
+  static async getRequest(req: Request, res: Response): Promise<void> {
+    const id = parseId(req.params.id, "Request");
+    const service = await getMarketRequestService();
+    const request = await service.get(id);
+
+    if (!request) {
+      throw new NotFoundError(`Item request #${id} not found`);
+    }
+
+    sendRequest(res, request);
+  }
+
+  /**
+   * POST /api/market/requests
+   *
+   * Posts an item request and holds the bounty in escrow from the
+   * requesting user's balance
+   *
+   * Body: { itemName: string, itemId?: string, description?: string,
+   *         quantity: number, bounty: number, durationHours?: number }
+   */
+  static async createRequest(req: Request, res: Response): Promise<void> {
+    const requester = await findRequestingPlayer(req);
+
+    const itemName = parseText(req.body.itemName, "itemName", 128);
+    if (!itemName) {
+      throw new BadRequestError("itemName is required");
+    }
+
+    const itemId = parseText(req.body.itemId, "itemId", 128);
+    const description = parseText(req.body.description, "description", 500);
+    const quantity = parseQuantity(req.body.quantity);
+    const bounty = parsePrice(req.body.bounty, "bounty");
+
+    let ttlMs: number | undefined;
+    if (req.body.durationHours !== undefined) {
+      const hours = Number(req.body.durationHours);
+
+      if (!Number.isInteger(hours) || hours <= 0) {
+        throw new BadRequestError("durationHours must be a positive integer");
+      }
+
+      ttlMs = hours * 60 * 60 * 1000;
+    }
+
+    const service = await getMarketRequestService();
+
+    let request;
+    try {
+      request = await service.create({
+        requesterUuid: requester.minecraftUuid,
+        itemName,
+        itemId,
+        description,
+        quantity,
+        bounty,
+        ttlMs,
+      });
+    } catch (error) {
+      throw toHttpError(error, "Failed to create item request");
+    }
+
+    sendRequest(res, request, 201);
+  }
+
+  /**
+   * POST /api/market/requests/:id/claim
+   *
+   * Claims an open request for delivery by the requesting user
+   */
+  static async claimRequest(req: Request, res: Response): Promise<void> {
+    const id = parseId(req.params.id, "Request");
+    const fulfiller = await findRequestingPlayer(req);
+    const service = await getMarketRequestService();
+
+    let request;
+    try {
+      request = await service.claim(id, fulfiller.minecraftUuid);
+    } catch (error) {
+      throw toHttpError(error, "Failed to claim item request");
+    }
+
+    sendRequest(res, request);
+  }
+
+  /**
+   * POST /api/market/requests/:id/unclaim
+   *
+   * Releases the requesting user's claim so others can fulfil the request
+   */
+  static async unclaimRequest(req: Request, res: Response): Promise<void> {
+    const id = parseId(req.params.id, "Request");
+    const fulfiller = await findRequestingPlayer(req);
+    const service = await getMarketRequestService();
+
+    let request;
+    try {
+      request = await service.unclaim(id, fulfiller.minecraftUuid);
+    } catch (error) {
+      throw toHttpError(error, "Failed to release item request claim");
+    }
+
+    sendRequest(res, request);
+  }
+
+  /**
+   * POST /api/market/requests/:id/confirm
+   *
+   * Confirms delivery and releases the bounty to the fulfiller. Only the
+   * requester may confirm.
+   */
+  static async confirmRequest(req: Request, res: Response): Promise<void> {
+    const id = parseId(req.params.id, "Request");
+    const requester = await findRequestingPlayer(req);
+    const service = await getMarketRequestService();
+
+    let request;
+    try {
+      request = await service.confirm(id, requester.minecraftUuid);
+    } catch (error) {
+      throw toHttpError(error, "Failed to confirm item request");
+    }
+
+    sendRequest(res, request);
+  }
+
+  /**
+   * DELETE /api/market/requests/:id
+   *
+   * Cancels a request and refunds the bounty. Requesters can cancel open
+   * requests, admins can also cancel claimed ones.
+   */
+  static async cancelRequest(req: Request, res: Response): Promise<void> {
+    const id = parseId(req.params.id, "Request");
+    const service = await getMarketRequestService();
+
+    let requesterUuid: string | undefined;
+    if (!req.user!.isAdmin) {
+      requesterUuid = (await findRequestingPlayer(req)).minecraftUuid;
+    }
+
+    let request;
+    try {
+      request = await service.cancel(id, requesterUuid);
+    } catch (error) {
+      throw toHttpError(error, "Failed to cancel item request");
+    }
+
+    sendRequest(res, request);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Converts a listing to its API representation
+ */
+function toApiData(
+  listing: MarketListing | MarketListingWithSeller,
+  sellerUsername?: string,
+): MarketListingApiData {
+  return {
+    id: listing.id,
+    sellerMinecraftUuid: listing.sellerMinecraftUuid,
+    sellerUsername:
+      sellerUsername ??
+      ("sellerUsername" in listing ? listing.sellerUsername : null),
+    itemName: listing.itemName,
+    itemId: listing.itemId,
+    description: listing.description,
+    quantity: listing.quantity,
+    unitPrice: BalanceUtils.format(listing.unitPrice),
+    status: listing.status as MarketListingApiData["status"],
+    createdAt: listing.createdAt.toISOString(),
+    updatedAt: listing.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Converts an item request to its API representation
+ */
+function toRequestApiData(
+  request: MarketRequestWithPlayers,
+): MarketRequestApiData {
+  return {
+    id: request.id,
+    requesterMinecraftUuid: request.requesterMinecraftUuid,
+    requesterUsername: request.requesterUsername,
+    itemName: request.itemName,
+    itemId: request.itemId,
+    description: request.description,
+    quantity: request.quantity,
+    bounty: BalanceUtils.format(request.bounty),
+    status: request.status as MarketRequestApiData["status"],
+    fulfillerMinecraftUuid: request.fulfillerMinecraftUuid,
+    fulfillerUsername: request.fulfillerUsername,
+    createdAt: request.createdAt.toISOString(),
+    expiresAt: request.expiresAt.toISOString(),
+    claimedAt: request.claimedAt?.toISOString() ?? null,
+    resolvedAt: request.resolvedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Sends a single item request response
+ */
+function sendRequest(
+  res: Response,
+  request: MarketRequestWithPlayers,
+  status: number = 200,
+): void {
+  const response: MarketRequestResponse = {
+    success: true,
+    data: toRequestApiData(request),
+  };
+
+  res.status(status).json(response);
+}
+
+/**
+ * Resolves the market request service from the service container
+ */
+async function getMarketRequestService(): Promise<MarketRequestService> {
+  return await getService<MarketRequestService>(
+    Services.MARKET_REQUEST_SERVICE,
+  );
+}
+
+/**
+ * Maps a repository or service error to an HTTP error by its message
+ */
+function toHttpError(error: unknown, fallback: string): Error {
+  if (!(error instanceof Error)) {
+    return new InternalServerError(fallback);
+  }
+
+  if (error.message.includes("does not exist")) {
+    return new NotFoundError(error.message);
+  }
+
+  if (
+    /^Listing #\d+ (is|only has) /.test(error.message) ||
+    /^Item request #\d+ (is|has) /.test(error.message)
+  ) {
+    return new ConflictError(error.message);
+  }
+
+  if (
+    error.message.startsWith("Only the") ||
+    error.message.startsWith("You have not claimed")
+  ) {
+    return new ForbiddenError(error.message);
+  }
+
+  if (
+    error.message.startsWith("Insufficient") ||
+    error.message.startsWith("You cannot") ||
+    /^(Quantity|Bounty|Duration|Amount) /.test(error.message)
+  ) {
+    return new BadRequestError(error.message);
+  }
+
+  logger.error(`${fallback}:`, error);
+  return new InternalServerError(fallback);
+}
+
+/**
+ * Fetches the player linked to the requesting Discord user or throws 403
+ */
+async function findRequestingPlayer(req: Request): Promise<Player> {
+  const player = await Q.player.find({ discordId: req.user!.discordId });
+
+  if (!player) {
+    throw new ForbiddenError(
+      "You must link a Minecraft account to use the marketplace",
+    );
+  }
+
+  return player;
+}
+
+/**
+ * Validates a listing or request ID path parameter
+ */
+function parseId(value: unknown, entity: "Listing" | "Request"): number {
+  const id = Number(value);
+
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new BadRequestError(`${entity} ID must be a positive integer`);
+  }
+
+  return id;
+}
+
+/**
+ * Validates a quantity (positive integer)
+ */
+function parseQuantity(value: unknown): number {
+  const quantity = typeof value === "string" ? Number(value) : value;
+
+  if (
+    typeof quantity !== "number" ||
+    !Number.isInteger(quantity) ||
+    quantity <= 0
+  ) {
+    throw new BadRequestError("quantity must be a positive integer");
+  }
+
+  return quantity;
+}
+
+/**
+ * Validates a price or bounty (positive, at most 3 decimals)
+ */
+function parsePrice(value: unknown, field: string = "unitPrice"): number {
+  const price = typeof value === "string" ? Number(value) : value;
+
+  if (typeof price !== "number" || !Number.isFinite(price) || price <= 0) {
+    throw new BadRequestError(`${field} must be a positive number`);
+  }
+
+  try {
+    BalanceUtils.validate(price);
+  } catch (error) {
+    throw new BadRequestError(
+      error instanceof Error ? error.message : `Invalid ${field}`,
+    );
+  }
+
+  return price;
+}
+
+/**
+ * Validates an optional free-text field
+ */
+function parseText(
+  value: unknown,
+  field: string,
+  maxLength: number,
+): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || value.trim().length > maxLength) {
+    throw new BadRequestError(
+      `${field} must be a string of at most ${maxLength} characters`,
+    );
+  }
+
+  return value.trim() || undefined;
+}
@@ -0,0 +1,230 @@
+import { AuthLevel, route } from "@/app/middleware";
+import { Router } from "express";
+import { MarketController } from "./market.controller";
+
+const router = Router();
+
+/**
+ * Market routes
+ * Base path: /api/market
+ *
+ * Player marketplace: anyone can browse listings and item requests,
+ * registered players can create and buy listings and post, claim and
+ * confirm requests. Prices and bounties use 3 decimal precision.
+ */
+
+// ============================================================================
+// PUBLIC ROUTES
+// ============================================================================
+
+/**
+ * GET /api/market/listings
+ *
+ * Browse and search listings
+ *
+ * Query Parameters:
+ * - search: Case-insensitive match on item name, item ID and description
+ * - seller: Seller Minecraft UUID
+ * - status: active, sold_out, cancelled or all (default: active)
+ * - page: Page number (0-indexed, default: 0)
+ * - limit: Results per page (1-100, default: 20)
+ * - sortBy: createdAt or unitPrice (default: createdAt)
+ * - sortOrder: ASC or DESC (default: DESC)
+ *
+ * Examples:
+ * - /api/market/listings?search=brass
+ * - /api/market/listings?seller=550e8400-e29b-41d4-a716-446655440000&status=all
+ *
+ * Response: GetMarketListingsResponse
+ * Errors: 400 (invalid filter)
+ */
+router.get(
+  "/listings",
+  ...route(AuthLevel.PUBLIC, MarketController.getListings),
+);
+
+/**
+ * GET /api/market/listings/:id
+ *
+ * Get a single listing
+ *
+ * Response: MarketListingResponse
+ * Errors: 400 (invalid ID), 404 (listing not found)
+ */
+router.get(
+  "/listings/:id",
+  ...route(AuthLevel.PUBLIC, MarketController.getListing),
+);
+
+/**
+ * GET /api/market/requests
+ *
+ * Browse and search item requests
+ *
+ * Query Parameters:
+ * - search: Case-insensitive match on item name, item ID and description
+ * - requester: Requester Minecraft UUID
+ * - fulfiller: Fulfiller Minecraft UUID
+ * - status: open, claimed, fulfilled, cancelled, expired or all (default: open)
+ * - page: Page number (0-indexed, default: 0)
+ * - limit: Results per page (1-100, default: 20)
+ *
+ * Response: GetMarketRequestsResponse
+ * Errors: 400 (invalid filter)
+ */
+router.get(
+  "/requests",
+  ...route(AuthLevel.PUBLIC, MarketController.getRequests),
+);
+
+/**
+ * GET /api/market/requests/:id
+ *
+ * Get a single item request
+ *
+ * Response: MarketRequestResponse
+ * Errors: 400 (invalid ID), 404 (request not found)
+ */
+router.get(
+  "/requests/:id",
+  ...route(AuthLevel.PUBLIC, MarketController.getRequest),
+);
+
+// ============================================================================
+// USER ROUTES
+// ============================================================================
+
+/**
+ * POST /api/market/listings
+ *
+ * Create a listing for the authenticated user's Minecraft account
+ *
+ * Request body:
+ * {
+ *  itemName: string,
+ *  itemId?: string,
+ *  description?: string,
+ *  quantity: number,
+ *  unitPrice: number
+ * }
+ *
+ * Response: MarketListingResponse (201)
+ * Errors: 400 (invalid input), 403 (no linked Minecraft account)
+ */
+router.post(
+  "/listings",
+  ...route(AuthLevel.USER, MarketController.createListing),
+);
+
+/**
+ * POST /api/market/listings/:id/purchase
+ *
+ * Buy units of a listing. Stock, purchase record and balances are updated
+ * in a single database transaction.
+ *
+ * Request body:
+ * {
+ *  quantity: number
+ * }
+ *
+ * Response: PurchaseMarketListingResponse
+ * Errors: 400 (invalid input, own listing or insufficient balance), 403 (no linked Minecraft account), 404 (listing not found), 409 (listing not active or not enough stock)
+ */
+router.post(
+  "/listings/:id/purchase",
+  ...route(AuthLevel.USER, MarketController.purchaseListing),
+);
+
+/**
+ * DELETE /api/market/listings/:id
+ *
+ * Cancel an active listing (seller or admin only)
+ *
+ * Response: MarketListingResponse
+ * Errors: 400 (invalid ID), 403 (not the seller or an admin), 404 (listing not found), 409 (listing not active)
+ */
+router.delete(
+  "/listings/:id",
+  ...route(AuthLevel.USER, MarketController.cancelListing),
+);
+
+/**
+ * POST /api/market/requests
+ *
+ * Post an item request. The bounty is held in escrow from the
+ * authenticated user's balance until delivery is confirmed, the request
+ * is cancelled or it expires.
+ *
+ * Request body:
+ * {
+ *  itemName: string,
+ *  itemId?: string,
+ *  description?: string,
+ *  quantity: number,
+ *  bounty: number,
+ *  durationHours?: number
+ * }
+ *
+ * Response: MarketRequestResponse (201)
+ * Errors: 400 (invalid input or insufficient balance), 403 (no linked Minecraft account)
+ */
+router.post(
+  "/requests",
+  ...route(AuthLevel.USER, MarketController.createRequest),
+);
+
+/**
+ * POST /api/market/requests/:id/claim
+ *
+ * Claim an open request to deliver the items
+ *
+ * Response: MarketRequestResponse
+ * Errors: 400 (own request), 403 (no linked Minecraft account), 404 (request not found), 409 (request not open or expired)
+ */
+router.post(
+  "/requests/:id/claim",
+  ...route(AuthLevel.USER, MarketController.claimRequest),
+);
+
+/**
+ * POST /api/market/requests/:id/unclaim
+ *
+ * Release your claim so other players can fulfil the request
+ *
+ * Response: MarketRequestResponse
+ * Errors: 403 (not the fulfiller), 404 (request not found)
+ */
+router.post(
+  "/requests/:id/unclaim",
+  ...route(AuthLevel.USER, MarketController.unclaimRequest),
+);
+
+/**
+ * POST /api/market/requests/:id/confirm
+ *
+ * Confirm delivery and release the bounty to the fulfiller (requester
+ * only)
+ *
+ * Response: MarketRequestResponse
+ * Errors: 403 (not the requester), 404 (request not found), 409 (request not claimed)
+ */
+router.post(
+  "/requests/:id/confirm",
+  ...route(AuthLevel.USER, MarketController.confirmRequest),
+);
+
+/**
+ * DELETE /api/market/requests/:id
+ *
+ * Cancel a request and refund the bounty. Requesters can cancel open
+ * requests, admins can also cancel claimed ones.
+ *
+ * Response: MarketRequestResponse
+ * Errors: 400 (invalid ID), 403 (not the requester), 404 (request not found), 409 (request claimed or already closed)
+ */
+router.delete(
+  "/requests/:id",
+  ...route(AuthLevel.USER, MarketController.cancelRequest),
+);
+
+export default router;
@@ -1,9 +1,15 @@
 import { BadRequestError, NotFoundError } from "@/app/middleware";
-import { getIdType } from "@/app/utils/helpers";
-import { Q } from "@/db";
+import { getIdType, parsePlaytimeRange } from "@/app/utils/helpers";
+import { balanceRepo, playtimeRepo, Q } from "@/db";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type { Player } from "@/generated/db";
 import {
+  GetPlayerPlaytimeResponse,
   GetPlayerResponse,
+  GetPlayerSessionsResponse,
   GetPlayersResponse,
+  GetPlayerTransactionsResponse,
 } from "@createrington/shared/api";
 import { Request, Response } from "express";
 
@@ -154,4 +160,283 @@ export class PlayerController {
       throw new BadRequestError("Failed to fetch players");
     }
   }
+
+  /**
+   * GET /api/players/:id/transactions
+   *
+   * Retrieves a player's balance transaction history, newest first
+   *
+   * Path Parameters:
+   * - id: Discord ID (17-20 digits) or Minecraft UUID (UUID format)
+   *
+   * Query Parameters:
+   * - types: Comma-separated transaction types to include (default: all)
+   * - page: Page number (0-indexed, default: 0)
+   * - limit: Results per page (1-100, default: 20)
+   *
+   * @example
+   * GET /api/players/123456789012345678/transactions
+   * GET /api/players/550e8400-e29b-41d4-a716-446655440000/transactions?types=reward&limit=50
+   */
+  static async getPlayerTransactions(
+    req: Request,
+    res: Response,
+  ): Promise<void> {
+    const { id } = req.params;
+
+    if (Array.isArray(id)) {
+      throw new BadRequestError("Invalid player ID");
+    }
+
+    const idType = getIdType(id);
+    if (idType === "invalid") {
+      throw new BadRequestError(
+        "Invalid player ID. Must be a Discord ID or Minecraft UUID.",
+      );
+    }
+
+    const page = Math.max(0, parseInt(req.query.page as string) || 0);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(req.query.limit as string) || 20),
+    );
+
+    const validTypes = Object.values(BalanceTransactionType) as string[];
+    const types = ((req.query.types as string) || "")
+      .split(",")
+      .map((type) => type.trim())
+      .filter(Boolean);
+
+    const invalidType = types.find((type) => !validTypes.includes(type));
+    if (invalidType) {
+      throw new BadRequestError(
+        `Invalid transaction type: ${invalidType}. Must be one of: ${validTypes.join(", ")}`,
+      );
+    }
+
+    const identifier =
+      idType === "discord" ? { discordId: id } : { minecraftUuid: id };
+
+    const player = await Q.player.find(identifier);
+
+    if (!player) {
+      throw new NotFoundError(`Player with ID ${id} not found`);
+    }
+
+    try {
+      const { transactions, total } = await balanceRepo.getHistoryPage(
+        player,
+        {
+          page,
+          limit,
+          types: types as BalanceTransactionType[],
+        },
+      );
+
+      const response: GetPlayerTransactionsResponse = {
+        success: true,
+        data: {
+          transactions: transactions.map((tx) => ({
+            id: tx.id,
+            amount: BalanceUtils.format(tx.amount),
+            balanceBefore: BalanceUtils.format(tx.balanceBefore),
+            balanceAfter: BalanceUtils.format(tx.balanceAfter),
+            transactionType: tx.transactionType,
+            description: tx.description,
+            relatedPlayerUuid: tx.relatedPlayerUuid,
+            relatedPlayerUsername: tx.relatedPlayerUsername,
+            metadata: tx.metadata ?? {},
+            createdAt: tx.createdAt.toISOString(),
+          })),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error("Failed to fetch player transactions:", error);
+      throw new BadRequestError("Failed to fetch player transactions");
+    }
+  }
+
+  /**
+   * GET /api/players/:id/playtime
+   *
+   * Retrieves a player's playtime within a time range in hourly or daily
+   * buckets, with per-server and per-dimension totals
+   *
+   * Path Parameters:
+   * - id: Discord ID (17-20 digits) or Minecraft UUID (UUID format)
+   *
+   * Query Parameters:
+   * - from: Start of the range, ISO 8601 (default: 30 days / 24 hours ago)
+   * - to: End of the range, ISO 8601 (default: now)
+   * - granularity: hour or day (default: day)
+   * - serverId: Only count playtime on this server (default: all servers)
+   *
+   * @example
+   * GET /api/players/123456789012345678/playtime
+   * GET /api/players/550e8400-e29b-41d4-a716-446655440000/playtime?granularity=hour&from=2025-06-01
+   */
+  static async getPlayerPlaytime(req: Request, res: Response): Promise<void> {
+    const { from, to, granularity } = parsePlaytimeRange(req.query);
+    const serverId = parseServerId(req.query.serverId);
+    const player = await findPlayer(req.params.id);
+
+    try {
+      const playtime = await playtimeRepo.getPlayerPlaytimeRange(
+        player.minecraftUuid,
+        from,
+        to,
+        granularity,
+        serverId,
+      );
+
+      const response: GetPlayerPlaytimeResponse = {
+        success: true,
+        data: {
+          range: {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            granularity,
+          },
+          ...playtime,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error("Failed to fetch player playtime:", error);
+      throw new BadRequestError("Failed to fetch player playtime");
+    }
+  }
+
+  /**
+   * GET /api/players/:id/sessions
+   *
+   * Retrieves a player's play sessions, newest first. Active sessions have
+   * no end yet.
+   *
+   * Path Parameters:
+   * - id: Discord ID (17-20 digits) or Minecraft UUID (UUID format)
+   *
+   * Query Parameters:
+   * - from: Only sessions started at or after this time, ISO 8601
+   * - to: Only sessions started at or before this time, ISO 8601
+   * - serverId: Only sessions on this server
+   * - page: Page number (0-indexed, default: 0)
+   * - limit: Results per page (1-100, default: 20)
+   *
+   * @example
+   * GET /api/players/123456789012345678/sessions?serverId=1&limit=50
+   */
+  static async getPlayerSessions(req: Request, res: Response): Promise<void> {
+    const page = Math.max(0, parseInt(req.query.page as string) || 0);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(req.query.limit as string) || 20),
+    );
+
+    const from = req.query.from ? new Date(req.query.from as string) : null;
+    const to = req.query.to ? new Date(req.query.to as string) : null;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      throw new BadRequestError("Invalid date range. Use ISO 8601 dates.");
+    }
+
+    const serverId = parseServerId(req.query.serverId);
+    const player = await findPlayer(req.params.id);
+
+    try {
+      const { sessions, total } = await Q.player.session.listForPlayer({
+        playerUuid: player.minecraftUuid,
+        serverId,
+        from: from ?? undefined,
+        to: to ?? undefined,
+        limit,
+        offset: page * limit,
+      });
+
+      const response: GetPlayerSessionsResponse = {
+        success: true,
+        data: {
+          sessions: sessions.map((session) => ({
+            id: session.id,
+            serverId: session.serverId,
+            serverName: session.serverName,
+            sessionStart: session.sessionStart.toISOString(),
+            sessionEnd: session.sessionEnd?.toISOString() ?? null,
+            secondsPlayed:
+              session.secondsPlayed === null
+                ? null
+                : Number(session.secondsPlayed),
+          })),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error("Failed to fetch player sessions:", error);
+      throw new BadRequestError("Failed to fetch player sessions");
+    }
+  }
+}
+
+/**
+ * Fetches a player by Discord ID or Minecraft UUID
+ *
+ * @param id - Path parameter
+ * @returns The player
+ * @throws BadRequestError if the ID is malformed
+ * @throws NotFoundError if no player has this ID
+ */
+async function findPlayer(id: string | string[]): Promise<Player> {
+  if (Array.isArray(id)) {
+    throw new BadRequestError("Invalid player ID");
+  }
+
+  const idType = getIdType(id);
+  if (idType === "invalid") {
+    throw new BadRequestError(
+      "Invalid player ID. Must be a Discord ID or Minecraft UUID.",
+    );
+  }
+
+  const player = await Q.player.find(
+    idType === "discord" ? { discordId: id } : { minecraftUuid: id },
+  );
+
+  if (!player) {
+    throw new NotFoundError(`Player with ID ${id} not found`);
+  }
+
+  return player;
+}
+
+/**
+ * Parses the optional serverId query parameter
+ *
+ * @throws BadRequestError if the parameter is not a positive integer
+ */
+function parseServerId(value: unknown): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const serverId = Number(value);
+  if (!Number.isInteger(serverId) || serverId <= 0) {
+    throw new BadRequestError("Server ID must be a positive integer");
+  }
+
+  return serverId;
 }
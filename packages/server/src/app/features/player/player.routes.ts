@@ -62,4 +62,85 @@ router.get("/", ...route(AuthLevel.PUBLIC, PlayerController.getPlayers));
  */
 router.get("/:id", ...route(AuthLevel.PUBLIC, PlayerController.getPlayer));
 
+/**
+ * GET /api/players/:id/playtime
+ *
+ * Get a player's playtime over a time range
+ *
+ * Path Parameters:
+ * - id: Discord ID (17-20 digits) or Minecraft UUID (UUID format)
+ *
+ * Query Parameters:
+ * - from: Start of the range, ISO 8601 (default: 30 days / 24 hours ago)
+ * - to: End of the range, ISO 8601 (default: now)
+ * - granularity: hour (max 31 days) or day (max 366 days, default)
+ * - serverId: Only count playtime on this server
+ *
+ * Examples:
+ * - /api/players/123456789012345678/playtime
+ * - /api/players/123456789012345678/playtime?granularity=hour&from=2025-06-01
+ *
+ * Response: GetPlayerPlaytimeResponse
+ * Errors: 400 (invalid ID or range), 404 (player not found)
+ */
+router.get(
+  "/:id/playtime",
+  ...route(AuthLevel.PUBLIC, PlayerController.getPlayerPlaytime),
+);
+
+/**
+ * GET /api/players/:id/sessions
+ *
+ * Get a player's play sessions (newest first)
+ *
+ * Path Parameters:
+ * - id: Discord ID (17-20 digits) or Minecraft UUID (UUID format)
+ *
+ * Query Parameters:
+ * - from / to: Only sessions started within this range, ISO 8601
+ * - serverId: Only sessions on this server
+ * - page: Page number (0-indexed, default: 0)
+ * - limit: Results per page (1-100, default: 20)
+ *
+ * Examples:
+ * - /api/players/123456789012345678/sessions
+ * - /api/players/550e8400-e29b-41d4-a716-446655440000/sessions?serverId=1
+ *
+ * Response: GetPlayerSessionsResponse
+ * Errors: 400 (invalid ID or date), 404 (player not found)
+ */
+router.get(
+  "/:id/sessions",
+  ...route(AuthLevel.PUBLIC, PlayerController.getPlayerSessions),
+);
+
+// ============================================================================
+// ADMIN ROUTES
+// ============================================================================
+
+/**
+ * GET /api/players/:id/transactions
+ *
+ * Get a player's balance transaction history (newest first)
+ *
+ * Path Parameters:
+ * - id: Discord ID (17-20 digits) or Minecraft UUID (UUID format)
+ *
+ * Query Parameters:
+ * - types: Comma-separated transaction types (e.g. transfer_send,transfer_receive)
+ * - page: Page number (0-indexed, default: 0)
+ * - limit: Results per page (1-100, default: 20)
+ *
+ * Examples:
+ * - /api/players/123456789012345678/transactions
+ * - /api/players/550e8400-e29b-41d4-a716-446655440000/transactions?types=reward
+ *
+ * Response: GetPlayerTransactionsResponse
+ * Errors: 400 (invalid ID or type), 401/403 (not admin), 404 (player not found)
+ */
+router.get(
+  "/:id/transactions",
+  ...route(AuthLevel.ADMIN, PlayerController.getPlayerTransactions),
+);
+
 export default router;
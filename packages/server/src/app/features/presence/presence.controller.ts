@@ -1,13 +1,22 @@
 import { BadRequestError, InternalServerError } from "@/app/middleware";
 import { getService, Services } from "@/services";
 import {
+  ModHeartbeatData,
+  ModPlayerAfkData,
+  ModPlayerDimensionData,
   ModPlayerJoinData,
   ModPlayerLeaveData,
+  ModPresenceSyncData,
+  OnlinePlayerSnapshot,
   PlaytimeManagerService,
+  PlaytimeService,
 } from "@/services/playtime";
-import { getServerByIp } from "@/services/playtime/config";
+import { getServerByIp, HEARTBEAT_CONFIG } from "@/services/playtime/config";
 import { Request, Response } from "express";
 
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
  * Presence Controller
  *
@@ -17,13 +26,17 @@ import { Request, Response } from "express";
 export class PresenceController {
   /**
    * POST /api/presence
-   * Body: { minecraftUsername: string, uuid: string, state: "joined" | "left", timestamp: number, serverId?: string }
+   * Body: { minecraftUsername: string, uuid: string, state: "joined" | "left" | "afk" | "active" | "dimension", timestamp: number, dimension?: string, serverId?: string }
    *
    * Receives player presence data from Minecraft server
+   * AFK time (between "afk" and "active") is excluded from playtime
+   * "dimension" reports a dimension change and requires dimension; on
+   * "joined" dimension is the player's starting dimension
    * Requires mod JWT authentication and IP verification
    */
   static async updatePresence(req: Request, res: Response): Promise<void> {
-    const { minecraftUsername, uuid, state, timestamp, serverId } = req.body;
+    const { minecraftUsername, uuid, state, timestamp, dimension, serverId } =
+      req.body;
 
     if (!minecraftUsername || !uuid || !state) {
       throw new BadRequestError(
@@ -31,54 +44,31 @@ export class PresenceController {
       );
     }
 
-    if (!["joined", "left"].includes(state)) {
-      throw new BadRequestError('state must be either "joined" or "left"');
+    if (!["joined", "left", "afk", "active", "dimension"].includes(state)) {
+      throw new BadRequestError(
+        'state must be one of "joined", "left", "afk", "active" or "dimension"',
+      );
     }
 
-    const uuidRegex =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(uuid)) {
-      throw new BadRequestError("Invalid UUID format");
+    if (
+      dimension !== undefined &&
+      (typeof dimension !== "string" || dimension.length === 0)
+    ) {
+      throw new BadRequestError("dimension must be a non-empty string");
     }
 
-    let targetServerId: number | undefined;
-
-    if (serverId) {
-      targetServerId = parseInt(serverId, 10);
-      if (isNaN(targetServerId)) {
-        throw new BadRequestError("Invalid serverId format");
-      }
-    } else {
-      const serverIp = req.serverIp;
-      if (!serverIp) {
-        throw new InternalServerError(
-          "Server IP not detected - IP verification middleware may not be properly configured",
-        );
-      }
-
-      const serverInfo = getServerByIp(serverIp);
-      if (!serverInfo) {
-        logger.warn(`Unknown server IP: ${serverIp}`);
-        throw new BadRequestError(
-          `Server IP ${serverIp} is not configured. Please contact an administrator`,
-        );
-      }
-
-      targetServerId = serverInfo.serverId;
+    if (state === "dimension" && !dimension) {
+      throw new BadRequestError('dimension is required for state "dimension"');
     }
 
-    try {
-      const playtimeManager = await getService<PlaytimeManagerService>(
-        Services.PLAYTIME_MANAGER_SERVICE,
-      );
+    if (!UUID_REGEX.test(uuid)) {
+      throw new BadRequestError("Invalid UUID format");
+    }
 
-      const playtimeService = playtimeManager.getService(targetServerId);
+    const targetServerId = resolveServerId(req, serverId);
 
-      if (!playtimeService) {
-        throw new InternalServerError(
-          `Playtime tracking not configured for server ${targetServerId}`,
-        );
-      }
+    try {
+      const playtimeService = await getPlaytimeService(targetServerId);
       const eventTimestamp = timestamp ? new Date(timestamp) : new Date();
 
       if (state === "joined") {
@@ -86,6 +76,7 @@ export class PresenceController {
           uuid,
           username: minecraftUsername,
           timestamp: eventTimestamp,
+          dimension,
         };
 
         await playtimeService.handlePlayerJoinFromMod(joinData);
@@ -105,6 +96,27 @@ export class PresenceController {
         logger.info(
           `Player ${minecraftUsername} (${uuid}) left server ${targetServerId}`,
         );
+      } else if (state === "dimension") {
+        const dimensionData: ModPlayerDimensionData = {
+          uuid,
+          username: minecraftUsername,
+          dimension,
+          timestamp: eventTimestamp,
+        };
+
+        await playtimeService.handlePlayerDimensionFromMod(dimensionData);
+      } else {
+        const afkData: ModPlayerAfkData = {
+          uuid,
+          username: minecraftUsername,
+          timestamp: eventTimestamp,
+        };
+
+        if (state === "afk") {
+          await playtimeService.handlePlayerAfkFromMod(afkData);
+        } else {
+          await playtimeService.handlePlayerActiveFromMod(afkData);
+        }
       }
 
       res.json({
@@ -125,4 +137,208 @@ export class PresenceController {
       );
     }
   }
+
+  /**
+   * POST /api/presence/heartbeat
+   * Body: { players: { uuid: string, username: string, afk?: boolean }[], tps?: number, timestamp?: number, serverId?: string }
+   *
+   * Receives the full online player list from the Minecraft server
+   * Sent periodically; sessions are reconciled against the list and the
+   * server is marked offline once heartbeats stop
+   * Requires mod JWT authentication and IP verification
+   */
+  static async heartbeat(req: Request, res: Response): Promise<void> {
+    const { players, tps, timestamp, serverId } = req.body;
+    const onlinePlayers = parsePlayerList(players);
+    const heartbeatTimestamp = parseTimestamp(timestamp, "timestamp");
+
+    if (tps !== undefined && (typeof tps !== "number" || tps < 0)) {
+      throw new BadRequestError("tps must be a non-negative number");
+    }
+
+    const targetServerId = resolveServerId(req, serverId);
+
+    try {
+      const playtimeService = await getPlaytimeService(targetServerId);
+
+      const heartbeatData: ModHeartbeatData = {
+        players: onlinePlayers,
+        tps,
+        timestamp: heartbeatTimestamp ?? new Date(),
+      };
+
+      playtimeService.handleHeartbeat(heartbeatData);
+
+      res.json({
+        success: true,
+        data: {
+          serverId: targetServerId,
+          playerCount: onlinePlayers.length,
+          nextHeartbeatMs: HEARTBEAT_CONFIG.intervalMs,
+          receivedAt: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to process heartbeat:", error);
+      throw new InternalServerError(
+        "Failed to process heartbeat. Please try again.",
+      );
+    }
+  }
+
+  /**
+   * POST /api/presence/sync
+   * Body: { players: { uuid: string, username: string, joinedAt?: number, afk?: boolean }[], timestamp?: number, serverId?: string }
+   *
+   * Receives the authoritative list of connected players with their join
+   * times, sent right after server start and after backend reconnects
+   * Ends sessions of players no longer online and starts missing ones
+   * Responds with a report of the sessions changed
+   * Requires mod JWT authentication and IP verification
+   */
+  static async syncPresence(req: Request, res: Response): Promise<void> {
+    const { players, timestamp, serverId } = req.body;
+    const onlinePlayers = parsePlayerList(players);
+    const syncTimestamp = parseTimestamp(timestamp, "timestamp");
+    const targetServerId = resolveServerId(req, serverId);
+
+    try {
+      const playtimeService = await getPlaytimeService(targetServerId);
+
+      const syncData: ModPresenceSyncData = {
+        players: onlinePlayers,
+        timestamp: syncTimestamp ?? new Date(),
+      };
+
+      const report = playtimeService.handlePresenceSync(syncData);
+
+      res.json({
+        success: true,
+        message: "Presence synced successfully",
+        data: {
+          serverId: targetServerId,
+          started: report.started,
+          ended: report.ended,
+          unchanged: report.unchanged,
+          receivedAt: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to process presence sync:", error);
+      throw new InternalServerError(
+        "Failed to process presence sync. Please try again.",
+      );
+    }
+  }
+}
+
+/**
+ * Validates an online player list sent by the mod
+ *
+ * @throws BadRequestError if the list or any player in it is invalid
+ */
+function parsePlayerList(players: unknown): OnlinePlayerSnapshot[] {
+  if (!Array.isArray(players)) {
+    throw new BadRequestError("players must be an array");
+  }
+
+  return players.map((player) => {
+    if (
+      typeof player?.uuid !== "string" ||
+      typeof player?.username !== "string" ||
+      !UUID_REGEX.test(player.uuid)
+    ) {
+      throw new BadRequestError(
+        "Each player must have a valid uuid and username",
+      );
+    }
+
+    if (player.afk !== undefined && typeof player.afk !== "boolean") {
+      throw new BadRequestError("afk must be a boolean");
+    }
+
+    return {
+      uuid: player.uuid,
+      username: player.username,
+      afk: player.afk,
+      joinedAt: parseTimestamp(player.joinedAt, "joinedAt"),
+    };
+  });
+}
+
+/**
+ * Parses an optional timestamp sent by the mod (epoch millis or ISO string)
+ *
+ * @param value - Timestamp from the request body
+ * @param field - Field name used in the error message
+ * @returns The parsed date, or undefined when no timestamp was sent
+ * @throws BadRequestError if the timestamp is not a valid date
+ */
+function parseTimestamp(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const date =
+    typeof value === "number" || typeof value === "string"
+      ? new Date(value)
+      : undefined;
+
+  if (!date || isNaN(date.getTime())) {
+    throw new BadRequestError(`${field} must be a valid timestamp`);
+  }
+
+  return date;
+}
+
+/**
+ * Resolves the server a mod request belongs to
+ *
+ * Uses the explicit serverId when sent, otherwise the server IP detected by
+ * the IP verification middleware
+ */
+function resolveServerId(req: Request, serverId?: string): number {
+  if (serverId) {
+    const targetServerId = parseInt(serverId, 10);
+    if (isNaN(targetServerId)) {
+      throw new BadRequestError("Invalid serverId format");
+    }
+    return targetServerId;
+  }
+
+  const serverIp = req.serverIp;
+  if (!serverIp) {
+    throw new InternalServerError(
+      "Server IP not detected - IP verification middleware may not be properly configured",
+    );
+  }
+
+  const serverInfo = getServerByIp(serverIp);
+  if (!serverInfo) {
+    logger.warn(`Unknown server IP: ${serverIp}`);
+    throw new BadRequestError(
+      `Server IP ${serverIp} is not configured. Please contact an administrator`,
+    );
+  }
+
+  return serverInfo.serverId;
+}
+
+/**
+ * Gets the playtime service tracking a server
+ */
+async function getPlaytimeService(serverId: number): Promise<PlaytimeService> {
+  const playtimeManager = await getService<PlaytimeManagerService>(
+    Services.PLAYTIME_MANAGER_SERVICE,
+  );
+
+  const playtimeService = playtimeManager.getService(serverId);
+
+  if (!playtimeService) {
+    throw new InternalServerError(
+      `Playtime tracking not configured for server ${serverId}`,
+    );
+  }
+
+  return playtimeService;
 }
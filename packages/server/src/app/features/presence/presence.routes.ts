@@ -18,7 +18,7 @@ const router = Router();
 /**
  * POST /api/presence
  *
- * Update player presence (join/leave events)
+ * Update player presence (join/leave, AFK/active and dimension change events)
  *
  * Security:
  * - Requires valid mod JWT token
@@ -28,8 +28,9 @@ const router = Router();
  * {
  *  minecraftUsername: string,
  *  uuid: string,
- *  state: "joined" | "left",
+ *  state: "joined" | "left" | "afk" | "active" | "dimension",
  *  timestamp: number,
+ *  dimension?: string, // required for "dimension", e.g. "minecraft:the_nether"
  *  serverId?: number
  * }
  */
@@ -42,4 +43,62 @@ router.post(
   ),
 );
 
+/**
+ * POST /api/presence/heartbeat
+ *
+ * Report the full online player list and TPS (sent every few seconds)
+ * Sessions are reconciled against the list; missed heartbeats mark the
+ * server offline and close sessions at the last heartbeat
+ *
+ * Security:
+ * - Requires valid mod JWT token
+ * - Requires whitelisted server IP
+ *
+ * Request body:
+ * {
+ *  players: { uuid: string, username: string, afk?: boolean }[],
+ *  tps?: number,
+ *  timestamp?: number,
+ *  serverId?: number
+ * }
+ *
+ * Response includes nextHeartbeatMs, the expected heartbeat interval
+ */
+
+router.post(
+  "/heartbeat",
+  ...customRoute([verifyServerIP, verifyModJWT], PresenceController.heartbeat),
+);
+
+/**
+ * POST /api/presence/sync
+ *
+ * Sync the authoritative list of connected players
+ * Called by the mod right after server start and after backend reconnects
+ * Ends sessions of players no longer online and starts sessions for
+ * untracked players at their join time
+ *
+ * Security:
+ * - Requires valid mod JWT token
+ * - Requires whitelisted server IP
+ *
+ * Request body:
+ * {
+ *  players: { uuid: string, username: string, joinedAt?: number, afk?: boolean }[],
+ *  timestamp?: number,
+ *  serverId?: number
+ * }
+ *
+ * Response includes the started and ended sessions and the number of
+ * sessions left unchanged
+ */
+
+router.post(
+  "/sync",
+  ...customRoute(
+    [verifyServerIP, verifyModJWT],
+    PresenceController.syncPresence,
+  ),
+);
+
 export default router;
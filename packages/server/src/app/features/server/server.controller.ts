@@ -1,8 +1,13 @@
 import { Request, Response } from "express";
 import { BadRequestError, NotFoundError } from "@/app/middleware";
 import { MINECRAFT_SERVERS, getServerById } from "@/services/playtime/config";
+import { parsePlaytimeRange } from "@/app/utils/helpers";
+import { playtimeRepo, Q } from "@/db";
+import type { ServerConcurrencyPeak } from "@/db/queries/server/online/hourly";
 import {
   GetAllServersResponse,
+  GetServerActivityResponse,
+  GetServerHistoryResponse,
   GetServerResponse,
   PlayerInfo,
   ServerStatus,
@@ -51,12 +56,14 @@ export class ServerController {
           status: "unknown",
           playerCount: 0,
           players: [],
+          tps: null,
+          lastHeartbeat: null,
           lastChecked: new Date().toISOString(),
         };
       } else {
         // Get active sessions from the service
         const activeSessions = service.getActiveSessions();
-        const isOnline = service.getStatus().isInitialized;
+        const isOnline = service.isOnline();
 
         // Map active sessions to player info
         const players: PlayerInfo[] = activeSessions.map((session) =>
@@ -72,6 +79,8 @@ export class ServerController {
           status: isOnline ? "online" : "offline",
           playerCount: players.length,
           players,
+          tps: service.getTps(),
+          lastHeartbeat: service.getLastHeartbeat()?.toISOString() ?? null,
           lastChecked: new Date().toISOString(),
         };
 
@@ -145,12 +154,14 @@ export class ServerController {
         status: "unknown",
         playerCount: 0,
         players: [],
+        tps: null,
+        lastHeartbeat: null,
         lastChecked: new Date().toISOString(),
       };
     } else {
       // Get active sessions from the service
       const activeSessions = service.getActiveSessions();
-      const isOnline = service.getStatus().isInitialized;
+      const isOnline = service.isOnline();
 
       // Map active sessions to player info with detailed metadata
       const players: PlayerInfo[] = activeSessions.map((session) =>
@@ -166,6 +177,8 @@ export class ServerController {
         status: isOnline ? "online" : "offline",
         playerCount: players.length,
         players,
+        tps: service.getTps(),
+        lastHeartbeat: service.getLastHeartbeat()?.toISOString() ?? null,
         lastChecked: new Date().toISOString(),
       };
     }
@@ -180,6 +193,136 @@ export class ServerController {
     res.json(response);
   }
 
+  /**
+   * GET /api/servers/:id/activity
+   *
+   * Returns playtime on a server within a time range in hourly or daily
+   * buckets, with the top players of the range
+   */
+  static async getServerActivity(req: Request, res: Response): Promise<void> {
+    const idParam = req.params.id;
+
+    if (Array.isArray(idParam)) {
+      throw new BadRequestError("Invalid server ID");
+    }
+
+    const serverId = parseInt(idParam, 10);
+
+    if (isNaN(serverId)) {
+      throw new BadRequestError("Invalid server ID format");
+    }
+
+    if (!getServerById(serverId)) {
+      throw new NotFoundError(`Server with ID ${serverId} not found`);
+    }
+
+    const { from, to, granularity } = parsePlaytimeRange(req.query);
+
+    try {
+      const activity = await playtimeRepo.getServerActivityRange(
+        serverId,
+        from,
+        to,
+        granularity,
+      );
+
+      const response: GetServerActivityResponse = {
+        success: true,
+        data: {
+          serverId,
+          range: {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            granularity,
+          },
+          totalSeconds: activity.totalSeconds,
+          buckets: activity.buckets,
+          topPlayers: activity.topPlayers.map((player) => ({
+            minecraftUsername: player.minecraftUsername,
+            totalSeconds: player.totalSeconds,
+          })),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error("Failed to fetch server activity:", error);
+      throw new BadRequestError("Failed to fetch server activity");
+    }
+  }
+
+  /**
+   * GET /api/servers/:id/history
+   *
+   * Returns the average and peak number of online players within a time
+   * range in hourly or daily buckets, with the peak of the range and the
+   * all-time peak
+   */
+  static async getServerHistory(req: Request, res: Response): Promise<void> {
+    const idParam = req.params.id;
+
+    if (Array.isArray(idParam)) {
+      throw new BadRequestError("Invalid server ID");
+    }
+
+    const serverId = parseInt(idParam, 10);
+
+    if (isNaN(serverId)) {
+      throw new BadRequestError("Invalid server ID format");
+    }
+
+    if (!getServerById(serverId)) {
+      throw new NotFoundError(`Server with ID ${serverId} not found`);
+    }
+
+    const { from, to, granularity } = parsePlaytimeRange(req.query);
+
+    try {
+      const [buckets, peak, allTimePeak] = await Promise.all([
+        Q.server.online.hourly.getRange(serverId, from, to, granularity),
+        Q.server.online.hourly.getPeak(serverId, from, to),
+        Q.server.online.hourly.getPeak(serverId),
+      ]);
+
+      const response: GetServerHistoryResponse = {
+        success: true,
+        data: {
+          serverId,
+          range: {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            granularity,
+          },
+          buckets: buckets.map((bucket) => ({
+            start: bucket.start,
+            avgPlayers: bucket.avgPlayers,
+            peakPlayers: bucket.peakPlayers,
+            peakAt: bucket.peakAt?.toISOString() ?? null,
+          })),
+          peak: ServerController.mapPeak(peak),
+          allTimePeak: ServerController.mapPeak(allTimePeak),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error("Failed to fetch server history:", error);
+      throw new BadRequestError("Failed to fetch server history");
+    }
+  }
+
+  /**
+   * Helper method to map a concurrency peak to its API representation
+   *
+   * @param peak - Peak from the hourly rollup, or null without samples
+   * @returns Peak with an ISO 8601 timestamp, or null
+   */
+  private static mapPeak(peak: ServerConcurrencyPeak | null) {
+    return peak
+      ? { peakPlayers: peak.peakPlayers, peakAt: peak.peakAt.toISOString() }
+      : null;
+  }
+
   /**
    * Helper method to map ActiveSession to PlayerInfo
    * Calculates session duration and includes metadata
@@ -199,6 +342,7 @@ export class ServerController {
       username: session.username,
       sessionStart: session.sessionStart.toISOString(),
       secondsPlayed: sessionDuration,
+      isAfk: session.afkSince !== undefined,
       metadata: session.metadata
         ? {
             displayName: session.metadata.displayName,
@@ -48,4 +48,54 @@ router.get("/", ...route(AuthLevel.PUBLIC, ServerController.getAllServers));
  */
 router.get("/:id", ...route(AuthLevel.PUBLIC, ServerController.getServer));
 
+/**
+ * GET /api/servers/:id/activity
+ *
+ * Get playtime on a server over a time range
+ *
+ * Path parameters:
+ * - id: Server ID (number)
+ *
+ * Query parameters:
+ * - from: Start of the range, ISO 8601 (default: 30 days / 24 hours ago)
+ * - to: End of the range, ISO 8601 (default: now)
+ * - granularity: hour (max 31 days) or day (max 366 days, default)
+ *
+ * Returns:
+ * - Unique players and playtime per hour or day
+ * - Top players of the range
+ *
+ * Response: GetServerActivityResponse
+ * Errors: 400 (invalid ID or range), 404 (server not found)
+ */
+router.get(
+  "/:id/activity",
+  ...route(AuthLevel.PUBLIC, ServerController.getServerActivity),
+);
+
+/**
+ * GET /api/servers/:id/history
+ *
+ * Get the number of online players on a server over a time range
+ *
+ * Path parameters:
+ * - id: Server ID (number)
+ *
+ * Query parameters:
+ * - from: Start of the range, ISO 8601 (default: 30 days / 24 hours ago)
+ * - to: End of the range, ISO 8601 (default: now)
+ * - granularity: hour (max 31 days) or day (max 366 days, default)
+ *
+ * Returns:
+ * - Average and peak online players per hour or day
+ * - Peak of the range and all-time peak
+ *
+ * Response: GetServerHistoryResponse
+ * Errors: 400 (invalid ID or range), 404 (server not found)
+ */
+router.get(
+  "/:id/history",
+  ...route(AuthLevel.PUBLIC, ServerController.getServerHistory),
+);
+
 export default router;
@@ -1,3 +1,7 @@
+import { BadRequestError } from "@/app/middleware";
+import type { PlaytimeGranularity } from "@/db/repositories/playtime";
+import type { Request } from "express";
+
 /**
  * Function to detect ID type
  * Properly detects between discordId and minecraftUuid
@@ -15,3 +19,71 @@ export function getIdType(id: string): "minecraft" | "discord" | "invalid" {
 
   return "invalid";
 }
+
+/**
+ * Longest range allowed per playtime granularity, in days
+ */
+const MAX_PLAYTIME_RANGE_DAYS: Record<PlaytimeGranularity, number> = {
+  hour: 31,
+  day: 366,
+};
+
+/**
+ * Range used when no start date is given, in days
+ */
+const DEFAULT_PLAYTIME_RANGE_DAYS: Record<PlaytimeGranularity, number> = {
+  hour: 1,
+  day: 30,
+};
+
+/**
+ * Parses the from/to/granularity query parameters of playtime endpoints
+ *
+ * @param query - Request query
+ * @returns The validated range and granularity
+ * @throws BadRequestError if a parameter is invalid or the range too long
+ */
+export function parsePlaytimeRange(query: Request["query"]): {
+  from: Date;
+  to: Date;
+  granularity: PlaytimeGranularity;
+} {
+  const granularity = (query.granularity as string) || "day";
+  if (granularity !== "hour" && granularity !== "day") {
+    throw new BadRequestError(
+      `Invalid granularity: ${granularity}. Must be one of: hour, day`,
+    );
+  }
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const to = query.to ? parseDate(query.to, "to") : new Date();
+  const from = query.from
+    ? parseDate(query.from, "from")
+    : new Date(to.getTime() - DEFAULT_PLAYTIME_RANGE_DAYS[granularity] * dayMs);
+
+  if (from > to) {
+    throw new BadRequestError("'from' must not be after 'to'");
+  }
+
+  const maxDays = MAX_PLAYTIME_RANGE_DAYS[granularity];
+  if (to.getTime() - from.getTime() > maxDays * dayMs) {
+    throw new BadRequestError(
+      `Range too long for ${granularity} granularity (max ${maxDays} days)`,
+    );
+  }
+
+  return { from, to, granularity };
+}
+
+/**
+ * Parses an ISO 8601 date query parameter
+ */
+function parseDate(value: unknown, name: string): Date {
+  const date = typeof value === "string" ? new Date(value) : null;
+
+  if (!date || isNaN(date.getTime())) {
+    throw new BadRequestError(`Invalid '${name}' date. Use ISO 8601.`);
+  }
+
+  return date;
+}
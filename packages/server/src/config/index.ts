@@ -190,6 +190,14 @@ const config: Config = {
     reward: {
       daily: 50,
     },
+    transfer: {
+      fee: {
+        percent: 2,
+        min: 0.1,
+        max: 100,
+      },
+    },
+    treasuryId: "main",
   },
 } as const;
 
@@ -269,4 +269,17 @@ interface EconomyConfig {
   readonly reward: {
     readonly daily: number;
   };
+  readonly transfer: {
+    readonly fee: TransferFeeConfig;
+  };
+  readonly treasuryId: string;
+}
+
+export interface TransferFeeConfig {
+  // Percentage of the transferred amount, 0 disables fees
+  readonly percent: number;
+  // Minimum fee per transfer
+  readonly min: number;
+  // Maximum fee per transfer
+  readonly max: number;
 }
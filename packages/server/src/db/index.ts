@@ -85,7 +85,17 @@ export const playtimeRepo = new repositories.PlaytimeRepository();
 
 export const balanceRepo = new repositories.BalanceRepository();
 
-export const R = { waitlistRepo, playtimeRepo, balanceRepo };
+export const marketRepo = new repositories.MarketRepository();
+
+export const companyRepo = new repositories.CompanyRepository();
+
+export const R = {
+  waitlistRepo,
+  playtimeRepo,
+  balanceRepo,
+  marketRepo,
+  companyRepo,
+};
 
 // ============================================================================
 // EXPORTS
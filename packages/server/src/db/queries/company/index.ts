@@ -0,0 +1,150 @@
+import { Pool, PoolClient } from "pg";
+import { CompanyBaseQueries } from "@/generated/db/company.queries";
+import type { Company } from "@/generated/db";
+
+/**
+ * Company joined with its owner's username and member count
+ */
+export type CompanyWithSummary = Company & {
+  ownerUsername: string;
+  memberCount: number;
+};
+
+/**
+ * Custom queries for company table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class CompanyQueries extends CompanyBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Finds a company by name (case-insensitive)
+   *
+   * @param name - Company name
+   * @returns The company, or null if not found
+   */
+  async findByName(name: string): Promise<Company | null> {
+    const query = `
+    SELECT *
+    FROM ${this.table}
+    WHERE LOWER(name) = LOWER($1)`;
+
+    try {
+      const result = await this.db.query(query, [name]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to find company "${name}":`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Searches companies with their owner's username and member count
+   *
+   * @param options - Optional name search and pagination
+   * @returns Matching page of companies and the total match count
+   */
+  async search(options: {
+    search?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ companies: CompanyWithSummary[]; total: number }> {
+    const params: any[] = [];
+    let where = "";
+
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      where = `WHERE c.name ILIKE $1`;
+    }
+
+    const query = `
+    SELECT
+      c.*,
+      p.minecraft_username AS owner_username,
+      (SELECT COUNT(*) FROM company_member m WHERE m.company_id = c.id)::int AS member_count
+    FROM ${this.table} c
+    JOIN player p ON p.minecraft_uuid = c.owner_minecraft_uuid
+    ${where}
+    ORDER BY c.name ASC
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
+
+    const countQuery = `
+    SELECT COUNT(*) AS total
+    FROM ${this.table} c
+    ${where}`;
+
+    try {
+      const [result, countResult] = await Promise.all([
+        this.db.query(query, [...params, options.limit, options.offset]),
+        this.db.query(countQuery, params),
+      ]);
+
+      return {
+        companies: this.mapRowsToEntities<any, CompanyWithSummary>(
+          result.rows,
+        ),
+        total: parseInt(countResult.rows[0].total),
+      };
+    } catch (error) {
+      logger.error("Failed to search companies:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically adjusts a company balance
+   *
+   * Fails on the non-negative CHECK constraint if a debit exceeds the
+   * balance.
+   *
+   * @param id - Company ID
+   * @param amount - Signed amount in smallest unit
+   * @returns Balance before and after the adjustment
+   */
+  async adjustBalance(
+    id: number,
+    amount: bigint,
+  ): Promise<{ balanceBefore: bigint; balanceAfter: bigint }> {
+    const query = `
+    UPDATE ${this.table}
+    SET balance = balance + $2, updated_at = NOW()
+    WHERE id = $1
+    RETURNING balance`;
+
+    try {
+      const result = await this.db.query(query, [id, amount]);
+
+      if (!result.rows[0]) {
+        throw new Error(`Company #${id} does not exist`);
+      }
+
+      const balanceAfter = BigInt(result.rows[0].balance);
+      return { balanceBefore: balanceAfter - amount, balanceAfter };
+    } catch (error) {
+      logger.error(`Failed to adjust balance of company ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sums the balances of all companies
+   *
+   * @returns Total balance in smallest unit
+   */
+  async getTotalBalance(): Promise<bigint> {
+    const query = `SELECT COALESCE(SUM(balance), 0) AS total FROM ${this.table}`;
+
+    try {
+      const result = await this.db.query(query);
+      return BigInt(result.rows[0].total);
+    } catch (error) {
+      logger.error("Failed to sum company balances:", error);
+      throw error;
+    }
+  }
+}
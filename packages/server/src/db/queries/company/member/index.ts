@@ -0,0 +1,54 @@
+import { Pool, PoolClient } from "pg";
+import { CompanyMemberBaseQueries } from "@/generated/db/company_member.queries";
+import type { CompanyMember } from "@/generated/db";
+
+/**
+ * Company member joined with the player's username
+ */
+export type CompanyMemberWithUsername = CompanyMember & {
+  minecraftUsername: string;
+};
+
+/**
+ * Custom queries for company_member table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class CompanyMemberQueries extends CompanyMemberBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Lists a company's members with their usernames
+   *
+   * Ordered by role (owner, managers, employees), then by join date
+   *
+   * @param companyId - Company ID
+   * @returns Promise resolving to the members
+   */
+  async findAllWithUsernames(
+    companyId: number,
+  ): Promise<CompanyMemberWithUsername[]> {
+    const query = `
+    SELECT m.*, p.minecraft_username
+    FROM ${this.table} m
+    JOIN player p ON p.minecraft_uuid = m.player_minecraft_uuid
+    WHERE m.company_id = $1
+    ORDER BY
+      CASE m.role WHEN 'owner' THEN 0 WHEN 'manager' THEN 1 ELSE 2 END,
+      m.joined_at ASC`;
+
+    try {
+      const result = await this.db.query(query, [companyId]);
+      return this.mapRowsToEntities<any, CompanyMemberWithUsername>(
+        result.rows,
+      );
+    } catch (error) {
+      logger.error(`Failed to fetch members of company ${companyId}:`, error);
+      throw error;
+    }
+  }
+}
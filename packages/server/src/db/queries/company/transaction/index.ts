@@ -0,0 +1,64 @@
+import { Pool, PoolClient } from "pg";
+import { CompanyTransactionBaseQueries } from "@/generated/db/company_transaction.queries";
+import type { CompanyTransaction } from "@/generated/db";
+
+/**
+ * Company transaction joined with the related and performing players'
+ * usernames
+ */
+export type CompanyTransactionWithPlayers = CompanyTransaction & {
+  relatedPlayerUsername: string | null;
+  performedByUsername: string | null;
+};
+
+/**
+ * Custom queries for company_transaction table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class CompanyTransactionQueries extends CompanyTransactionBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Retrieves a page of a company's transaction history, newest first
+   *
+   * @param companyId - Company ID
+   * @param limit - Maximum number of transactions
+   * @param offset - Number of transactions to skip
+   * @returns Promise resolving to the transactions
+   */
+  async getHistory(
+    companyId: number,
+    limit: number,
+    offset: number = 0,
+  ): Promise<CompanyTransactionWithPlayers[]> {
+    const query = `
+    SELECT
+      t.*,
+      related.minecraft_username AS related_player_username,
+      performer.minecraft_username AS performed_by_username
+    FROM ${this.table} t
+    LEFT JOIN player related ON related.minecraft_uuid = t.related_player_uuid
+    LEFT JOIN player performer ON performer.minecraft_uuid = t.performed_by_uuid
+    WHERE t.company_id = $1
+    ORDER BY t.created_at DESC, t.id DESC
+    LIMIT $2 OFFSET $3`;
+
+    try {
+      const result = await this.db.query(query, [companyId, limit, offset]);
+      return this.mapRowsToEntities<any, CompanyTransactionWithPlayers>(
+        result.rows,
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to get transaction history of company ${companyId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
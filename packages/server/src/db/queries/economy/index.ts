@@ -0,0 +1,133 @@
+import { Pool, PoolClient } from "pg";
+import { EconomyInvoiceQueries } from "@/db/queries/economy/invoice";
+import { EconomyRequestQueries } from "@/db/queries/economy/request";
+import { EconomyTreasuryQueries } from "@/db/queries/economy/treasury";
+
+/**
+ * Namespace queries for economy
+ * 
+ * This is a pure organizational namespace that groups related query classes.
+ * It does not correspond to an actual database table but provides hierarchical
+ * access to child tables that share the 'economy_' prefix.
+ * 
+ * Uses singleton pattern with lazy loading for optimal performance:
+ * - Child instances created once per database connection
+ * - Cached in WeakMap for automatic garbage collection
+ * - Shared across all EconomyQueries instances using same connection
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export class EconomyQueries {
+  /**
+   * Static singleton registry for child query instances
+   * 
+   * Uses WeakMap keyed by database connection (Pool or PoolClient):
+   * - Allows garbage collection when connection is closed
+   * - Prevents memory leaks in long-running applications
+   * - Each connection has its own cache map
+   * - Keys are fully qualified (e.g., "economy.actions")
+   */
+  private static queryInstances = new WeakMap<
+    Pool | PoolClient,
+    Map<string, any>
+  >();
+
+  /**
+   * Get or create a child query instance from the singleton cache
+   * 
+   * Implements the singleton pattern by checking the cache first and
+   * creating new instances only when needed. All instances for a given
+   * connection are stored in the same cache.
+   * 
+   * @param key - Cache key for this child (e.g., "actions", "settings")
+   * @param QueryClass - Constructor for the child query class
+   * @returns Cached or newly created child query instance
+   * 
+   * @remarks
+   * - Cache key is prefixed with namespace (e.g., "economy.actions")
+   * - Ensures child shares the same database connection as parent
+   * - Type-safe through generic parameter T
+   */
+  protected getOrCreateChild<T>(
+    key: string,
+    QueryClass: new (db: Pool | PoolClient) => T
+  ): T {
+    // Initialize cache for this connection if not exists
+    if (!EconomyQueries.queryInstances.has(this.db)) {
+      EconomyQueries.queryInstances.set(this.db, new Map());
+    }
+
+    const cache = EconomyQueries.queryInstances.get(this.db)!;
+    const fullKey = `economy.${key}`;
+
+    // Create and cache child instance if not exists
+    if (!cache.has(fullKey)) {
+      cache.set(fullKey, new QueryClass(this.db));
+    }
+
+    return cache.get(fullKey) as T;
+  }
+
+  /**
+   * @param db - Database pool or client to use for all child queries
+   */
+  constructor(protected db: Pool | PoolClient) {}
+
+  /** Private backing field for lazy-loaded economy_invoice queries */
+  private _invoice?: EconomyInvoiceQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for economy_invoice
+   * 
+   * Returns a EconomyInvoiceQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton EconomyInvoiceQueries instance
+   */
+  get invoice(): EconomyInvoiceQueries {
+    if (!this._invoice) {
+      this._invoice = this.getOrCreateChild<EconomyInvoiceQueries>('invoice', EconomyInvoiceQueries);
+    }
+    return this._invoice;
+  }
+
+  /** Private backing field for lazy-loaded economy_request queries */
+  private _request?: EconomyRequestQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for economy_request
+   * 
+   * Returns a EconomyRequestQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton EconomyRequestQueries instance
+   */
+  get request(): EconomyRequestQueries {
+    if (!this._request) {
+      this._request = this.getOrCreateChild<EconomyRequestQueries>('request', EconomyRequestQueries);
+    }
+    return this._request;
+  }
+
+  /** Private backing field for lazy-loaded economy_treasury queries */
+  private _treasury?: EconomyTreasuryQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for economy_treasury
+   * 
+   * Returns a EconomyTreasuryQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton EconomyTreasuryQueries instance
+   */
+  get treasury(): EconomyTreasuryQueries {
+    if (!this._treasury) {
+      this._treasury = this.getOrCreateChild<EconomyTreasuryQueries>('treasury', EconomyTreasuryQueries);
+    }
+    return this._treasury;
+  }
+}
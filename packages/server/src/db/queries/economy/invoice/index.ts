@@ -0,0 +1,178 @@
+import { Pool, PoolClient } from "pg";
+import { EconomyInvoiceBaseQueries } from "@/generated/db/economy_invoice.queries";
+import type { EconomyInvoice } from "@/generated/db";
+
+/**
+ * Invoice joined with the issuer's and payer's usernames
+ */
+export type EconomyInvoiceWithPlayers = EconomyInvoice & {
+  issuerUsername: string;
+  payerUsername: string;
+};
+
+/**
+ * Filters and pagination for invoice listings
+ */
+export interface EconomyInvoiceListOptions {
+  /** Player whose invoices are listed */
+  playerUuid: string;
+  /** Only invoices the player issued or was asked to pay (default: both) */
+  role?: "issuer" | "payer";
+  status?: string;
+  limit: number;
+  offset: number;
+}
+
+const SELECT_WITH_PLAYERS = `
+    SELECT
+      i.*,
+      issuer.minecraft_username AS issuer_username,
+      payer.minecraft_username AS payer_username
+    FROM economy_invoice i
+    JOIN player issuer ON issuer.minecraft_uuid = i.issuer_minecraft_uuid
+    JOIN player payer ON payer.minecraft_uuid = i.payer_minecraft_uuid`;
+
+/**
+ * Custom queries for economy_invoice table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class EconomyInvoiceQueries extends EconomyInvoiceBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Lists a player's invoices with both players' usernames
+   *
+   * Newest invoices come first.
+   *
+   * @param options - Player, filters and pagination
+   * @returns Matching page of invoices and the total match count
+   */
+  async listForPlayer(
+    options: EconomyInvoiceListOptions,
+  ): Promise<{ invoices: EconomyInvoiceWithPlayers[]; total: number }> {
+    const params: any[] = [options.playerUuid];
+    const conditions: string[] = [
+      options.role === "issuer"
+        ? "i.issuer_minecraft_uuid = $1"
+        : options.role === "payer"
+          ? "i.payer_minecraft_uuid = $1"
+          : "(i.issuer_minecraft_uuid = $1 OR i.payer_minecraft_uuid = $1)",
+    ];
+
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`i.status = $${params.length}`);
+    }
+
+    const where = `WHERE ${conditions.join(" AND ")}`;
+
+    const query = `
+    ${SELECT_WITH_PLAYERS}
+    ${where}
+    ORDER BY i.created_at DESC, i.id DESC
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
+
+    const countQuery = `
+    SELECT COUNT(*) AS total
+    FROM ${this.table} i
+    ${where}`;
+
+    try {
+      const [result, countResult] = await Promise.all([
+        this.db.query(query, [...params, options.limit, options.offset]),
+        this.db.query(countQuery, params),
+      ]);
+
+      return {
+        invoices: this.mapRowsToEntities<any, EconomyInvoiceWithPlayers>(
+          result.rows,
+        ),
+        total: parseInt(countResult.rows[0].total),
+      };
+    } catch (error) {
+      logger.error(`Failed to list invoices of ${options.playerUuid}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a single invoice with the issuer's and payer's usernames
+   *
+   * @param id - Invoice ID
+   * @returns The invoice, or null if not found
+   */
+  async findWithPlayers(id: number): Promise<EconomyInvoiceWithPlayers | null> {
+    const query = `
+    ${SELECT_WITH_PLAYERS}
+    WHERE i.id = $1`;
+
+    try {
+      const result = await this.db.query(query, [id]);
+      return result.rows[0]
+        ? this.mapRowToEntity<any, EconomyInvoiceWithPlayers>(result.rows[0])
+        : null;
+    } catch (error) {
+      logger.error(`Failed to fetch invoice ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a pending invoice into a final status
+   *
+   * The update only applies while the invoice is still pending, so two
+   * concurrent resolutions (e.g. a double click on Pay) can never both
+   * succeed. Paying additionally requires the invoice to be unexpired.
+   *
+   * @param id - Invoice ID
+   * @param status - Final status to set
+   * @returns The resolved invoice, or null if it was no longer pending
+   */
+  async resolvePending(
+    id: number,
+    status: "paid" | "declined" | "cancelled" | "expired",
+  ): Promise<EconomyInvoice | null> {
+    const query = `
+    UPDATE ${this.table}
+    SET status = $2, resolved_at = NOW()
+    WHERE id = $1
+      AND status = 'pending'
+      ${status === "paid" ? "AND expires_at > NOW()" : ""}
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [id, status]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to resolve invoice ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds pending invoices whose expiry time has passed
+   *
+   * @returns Promise resolving to an array of expired pending invoices
+   */
+  async findExpiredPending(): Promise<EconomyInvoice[]> {
+    const query = `
+    SELECT *
+    FROM ${this.table}
+    WHERE status = 'pending'
+      AND expires_at <= NOW()
+    ORDER BY expires_at ASC`;
+
+    try {
+      const result = await this.db.query(query);
+      return this.mapRowsToEntities<any, EconomyInvoice>(result.rows);
+    } catch (error) {
+      logger.error("Failed to fetch expired invoices:", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { Pool, PoolClient } from "pg";
+import { EconomyRequestBaseQueries } from "@/generated/db/economy_request.queries";
+import type { EconomyRequest } from "@/generated/db";
+
+export type EconomyRequestClaim =
+  | { claimed: true }
+  | { claimed: false; existing: EconomyRequest };
+
+/**
+ * Custom queries for economy_request table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class EconomyRequestQueries extends EconomyRequestBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Atomically reserves an idempotency key for a new request
+   *
+   * Inserts a pending record if the key is unused. A pending record older
+   * than `stalePendingMs` belongs to a request that never completed and is
+   * taken over. Otherwise the stored record is returned instead so the
+   * caller can replay the response or reject the request.
+   *
+   * @param data - Key, operation, player and request fingerprint
+   * @param stalePendingMs - Age after which a pending record is taken over
+   * @returns Whether the key was claimed, or the existing record
+   */
+  async claimKey(
+    data: {
+      idempotencyKey: string;
+      operation: string;
+      playerMinecraftUuid: string;
+      requestFingerprint: string;
+    },
+    stalePendingMs: number,
+  ): Promise<EconomyRequestClaim> {
+    const query = `
+      INSERT INTO ${this.table} (
+        idempotency_key,
+        operation,
+        player_minecraft_uuid,
+        request_fingerprint
+      )
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (idempotency_key) DO UPDATE
+      SET operation = EXCLUDED.operation,
+          player_minecraft_uuid = EXCLUDED.player_minecraft_uuid,
+          request_fingerprint = EXCLUDED.request_fingerprint,
+          created_at = now()
+      WHERE ${this.table}.status = 'pending'
+        AND ${this.table}.created_at < now() - $5 * interval '1 millisecond'
+      RETURNING idempotency_key`;
+
+    try {
+      const result = await this.db.query(query, [
+        data.idempotencyKey,
+        data.operation,
+        data.playerMinecraftUuid,
+        data.requestFingerprint,
+        stalePendingMs,
+      ]);
+
+      if (result.rowCount && result.rowCount > 0) {
+        return { claimed: true };
+      }
+
+      const existing = await this.get({ idempotencyKey: data.idempotencyKey });
+      return { claimed: false, existing };
+    } catch (error) {
+      logger.error("Failed to claim idempotency key:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks a claimed request as completed and stores its response
+   *
+   * @param idempotencyKey - Key claimed with claimKey
+   * @param response - Response body to replay on retries
+   */
+  async complete(
+    idempotencyKey: string,
+    response: Record<string, any>,
+  ): Promise<void> {
+    await this.update(
+      { idempotencyKey },
+      { status: "completed", response, completedAt: new Date() },
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { Pool, PoolClient } from "pg";
+import { EconomyTreasuryBaseQueries } from "@/generated/db/economy_treasury.queries";
+
+/**
+ * Custom queries for economy_treasury table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class EconomyTreasuryQueries extends EconomyTreasuryBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Atomically adjusts a treasury balance, creating the account on first use
+   *
+   * The row lock taken by the upsert serializes concurrent adjustments, so
+   * callers running inside a transaction see a consistent before/after pair.
+   * Fails on the non-negative CHECK constraint if a debit exceeds the balance.
+   *
+   * @param id - Treasury account ID
+   * @param amount - Signed amount in smallest unit
+   * @returns Balance before and after the adjustment
+   */
+  async adjustBalance(
+    id: string,
+    amount: bigint,
+  ): Promise<{ balanceBefore: bigint; balanceAfter: bigint }> {
+    const query = `
+      INSERT INTO ${this.table} (id, balance, updated_at)
+      VALUES ($1, $2, NOW())
+      ON CONFLICT (id) DO UPDATE
+      SET balance = ${this.table}.balance + EXCLUDED.balance,
+          updated_at = NOW()
+      RETURNING balance`;
+
+    try {
+      const result = await this.db.query(query, [id, amount]);
+      const balanceAfter = BigInt(result.rows[0].balance);
+
+      return { balanceBefore: balanceAfter - amount, balanceAfter };
+    } catch (error) {
+      logger.error("Failed to adjust treasury balance:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sums the balances of all treasury accounts
+   *
+   * @returns Total balance in smallest unit
+   */
+  async getTotalBalance(): Promise<bigint> {
+    const query = `SELECT COALESCE(SUM(balance), 0) AS total FROM ${this.table}`;
+
+    try {
+      const result = await this.db.query(query);
+      return BigInt(result.rows[0].total);
+    } catch (error) {
+      logger.error("Failed to sum treasury balances:", error);
+      throw error;
+    }
+  }
+}
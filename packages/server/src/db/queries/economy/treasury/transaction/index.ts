@@ -0,0 +1,15 @@
+import { Pool, PoolClient } from "pg";
+import { EconomyTreasuryTransactionBaseQueries } from "@/generated/db/economy_treasury_transaction.queries";
+
+/**
+ * Custom queries for economy_treasury_transaction table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class EconomyTreasuryTransactionQueries extends EconomyTreasuryTransactionBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+}
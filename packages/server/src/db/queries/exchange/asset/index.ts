@@ -0,0 +1,67 @@
+import { Pool, PoolClient } from "pg";
+import { ExchangeAssetBaseQueries } from "@/generated/db/exchange_asset.queries";
+import type { ExchangeAsset } from "@/generated/db";
+
+/**
+ * Custom queries for exchange_asset table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class ExchangeAssetQueries extends ExchangeAssetBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Syncs the asset table with the configured assets
+   *
+   * New assets are inserted at their starting price. Existing assets keep
+   * their current price but pick up a renamed display name and are
+   * re-activated. Assets missing from the list are deactivated rather than
+   * deleted, so players can still sell their holdings.
+   *
+   * @param assets - Configured assets with their starting price
+   * @returns Promise resolving to every asset, active ones first
+   */
+  async syncConfigured(
+    assets: Array<{ symbol: string; name: string; price: bigint }>,
+  ): Promise<ExchangeAsset[]> {
+    const symbols = assets.map((asset) => asset.symbol);
+
+    const upsertQuery = `
+    INSERT INTO ${this.table} (symbol, name, price)
+    SELECT * FROM UNNEST($1::varchar[], $2::varchar[], $3::bigint[])
+    ON CONFLICT (symbol) DO UPDATE
+    SET name = EXCLUDED.name,
+        is_active = true,
+        updated_at = NOW()`;
+
+    const deactivateQuery = `
+    UPDATE ${this.table}
+    SET is_active = false, updated_at = NOW()
+    WHERE is_active = true
+      AND NOT (symbol = ANY($1))`;
+
+    const selectQuery = `
+    SELECT *
+    FROM ${this.table}
+    ORDER BY is_active DESC, symbol ASC`;
+
+    try {
+      await this.db.query(upsertQuery, [
+        symbols,
+        assets.map((asset) => asset.name),
+        assets.map((asset) => asset.price.toString()),
+      ]);
+      await this.db.query(deactivateQuery, [symbols]);
+
+      const result = await this.db.query(selectQuery);
+      return this.mapRowsToEntities<any, ExchangeAsset>(result.rows);
+    } catch (error) {
+      logger.error("Failed to sync exchange assets:", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { Pool, PoolClient } from "pg";
+import { ExchangeHoldingBaseQueries } from "@/generated/db/exchange_holding.queries";
+import type { ExchangeHolding } from "@/generated/db";
+
+/**
+ * Custom queries for exchange_holding table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class ExchangeHoldingQueries extends ExchangeHoldingBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Adds bought units to a player's holding, creating it if needed
+   *
+   * @param playerUuid - Minecraft UUID of the buyer
+   * @param symbol - Asset symbol
+   * @param quantity - Units bought
+   * @param cost - Total paid in smallest unit, added to the cost basis
+   * @returns Promise resolving to the updated holding
+   */
+  async addUnits(
+    playerUuid: string,
+    symbol: string,
+    quantity: number,
+    cost: bigint,
+  ): Promise<ExchangeHolding> {
+    const query = `
+    INSERT INTO ${this.table} (player_minecraft_uuid, asset_symbol, quantity, cost_basis)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (player_minecraft_uuid, asset_symbol) DO UPDATE
+    SET quantity = ${this.table}.quantity + EXCLUDED.quantity,
+        cost_basis = ${this.table}.cost_basis + EXCLUDED.cost_basis,
+        updated_at = NOW()
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [
+        playerUuid,
+        symbol,
+        quantity,
+        cost.toString(),
+      ]);
+      return this.mapRowToEntity(result.rows[0]);
+    } catch (error) {
+      logger.error(
+        `Failed to add ${quantity} ${symbol} to holding of ${playerUuid}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Removes sold units from a player's holding
+   *
+   * The cost basis shrinks in proportion to the units removed, keeping the
+   * average cost of the remaining units unchanged. The update only applies
+   * when the player holds enough units, so concurrent sells can never take
+   * a holding below zero.
+   *
+   * @param playerUuid - Minecraft UUID of the seller
+   * @param symbol - Asset symbol
+   * @param quantity - Units sold
+   * @returns Promise resolving to the updated holding, or null if the
+   * player does not hold enough units
+   */
+  async removeUnits(
+    playerUuid: string,
+    symbol: string,
+    quantity: number,
+  ): Promise<ExchangeHolding | null> {
+    const query = `
+    UPDATE ${this.table}
+    SET quantity = quantity - $3,
+        cost_basis = cost_basis - (cost_basis * $3 / quantity),
+        updated_at = NOW()
+    WHERE player_minecraft_uuid = $1
+      AND asset_symbol = $2
+      AND quantity >= $3
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [playerUuid, symbol, quantity]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(
+        `Failed to remove ${quantity} ${symbol} from holding of ${playerUuid}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { Pool, PoolClient } from "pg";
+import { ExchangeAssetQueries } from "@/db/queries/exchange/asset";
+import { ExchangeHoldingQueries } from "@/db/queries/exchange/holding";
+import { ExchangePriceQueries } from "@/db/queries/exchange/price";
+import { ExchangeTradeQueries } from "@/db/queries/exchange/trade";
+
+/**
+ * Namespace queries for exchange
+ * 
+ * This is a pure organizational namespace that groups related query classes.
+ * It does not correspond to an actual database table but provides hierarchical
+ * access to child tables that share the 'exchange_' prefix.
+ * 
+ * Uses singleton pattern with lazy loading for optimal performance:
+ * - Child instances created once per database connection
+ * - Cached in WeakMap for automatic garbage collection
+ * - Shared across all ExchangeQueries instances using same connection
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export class ExchangeQueries {
+  /**
+   * Static singleton registry for child query instances
+   * 
+   * Uses WeakMap keyed by database connection (Pool or PoolClient):
+   * - Allows garbage collection when connection is closed
+   * - Prevents memory leaks in long-running applications
+   * - Each connection has its own cache map
+   * - Keys are fully qualified (e.g., "exchange.actions")
+   */
+  private static queryInstances = new WeakMap<
+    Pool | PoolClient,
+    Map<string, any>
+  >();
+
+  /**
+   * Get or create a child query instance from the singleton cache
+   * 
+   * Implements the singleton pattern by checking the cache first and
+   * creating new instances only when needed. All instances for a given
+   * connection are stored in the same cache.
+   * 
+   * @param key - Cache key for this child (e.g., "actions", "settings")
+   * @param QueryClass - Constructor for the child query class
+   * @returns Cached or newly created child query instance
+   * 
+   * @remarks
+   * - Cache key is prefixed with namespace (e.g., "exchange.actions")
+   * - Ensures child shares the same database connection as parent
+   * - Type-safe through generic parameter T
+   */
+  protected getOrCreateChild<T>(
+    key: string,
+    QueryClass: new (db: Pool | PoolClient) => T
+  ): T {
+    // Initialize cache for this connection if not exists
+    if (!ExchangeQueries.queryInstances.has(this.db)) {
+      ExchangeQueries.queryInstances.set(this.db, new Map());
+    }
+
+    const cache = ExchangeQueries.queryInstances.get(this.db)!;
+    const fullKey = `exchange.${key}`;
+
+    // Create and cache child instance if not exists
+    if (!cache.has(fullKey)) {
+      cache.set(fullKey, new QueryClass(this.db));
+    }
+
+    return cache.get(fullKey) as T;
+  }
+
+  /**
+   * @param db - Database pool or client to use for all child queries
+   */
+  constructor(protected db: Pool | PoolClient) {}
+
+  /** Private backing field for lazy-loaded exchange_asset queries */
+  private _asset?: ExchangeAssetQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for exchange_asset
+   * 
+   * Returns a ExchangeAssetQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton ExchangeAssetQueries instance
+   */
+  get asset(): ExchangeAssetQueries {
+    if (!this._asset) {
+      this._asset = this.getOrCreateChild<ExchangeAssetQueries>('asset', ExchangeAssetQueries);
+    }
+    return this._asset;
+  }
+
+  /** Private backing field for lazy-loaded exchange_holding queries */
+  private _holding?: ExchangeHoldingQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for exchange_holding
+   * 
+   * Returns a ExchangeHoldingQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton ExchangeHoldingQueries instance
+   */
+  get holding(): ExchangeHoldingQueries {
+    if (!this._holding) {
+      this._holding = this.getOrCreateChild<ExchangeHoldingQueries>('holding', ExchangeHoldingQueries);
+    }
+    return this._holding;
+  }
+
+  /** Private backing field for lazy-loaded exchange_price queries */
+  private _price?: ExchangePriceQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for exchange_price
+   * 
+   * Returns a ExchangePriceQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton ExchangePriceQueries instance
+   */
+  get price(): ExchangePriceQueries {
+    if (!this._price) {
+      this._price = this.getOrCreateChild<ExchangePriceQueries>('price', ExchangePriceQueries);
+    }
+    return this._price;
+  }
+
+  /** Private backing field for lazy-loaded exchange_trade queries */
+  private _trade?: ExchangeTradeQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for exchange_trade
+   * 
+   * Returns a ExchangeTradeQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton ExchangeTradeQueries instance
+   */
+  get trade(): ExchangeTradeQueries {
+    if (!this._trade) {
+      this._trade = this.getOrCreateChild<ExchangeTradeQueries>('trade', ExchangeTradeQueries);
+    }
+    return this._trade;
+  }
+}
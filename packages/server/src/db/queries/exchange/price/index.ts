@@ -0,0 +1,90 @@
+import { Pool, PoolClient } from "pg";
+import { ExchangePriceBaseQueries } from "@/generated/db/exchange_price.queries";
+
+/**
+ * Custom queries for exchange_price table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class ExchangePriceQueries extends ExchangePriceBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Records one price tick for several assets at once
+   *
+   * @param prices - New price per asset symbol, in smallest unit
+   * @param recordedAt - Tick timestamp shared by every row
+   * @returns Promise resolving when the rows are inserted
+   */
+  async recordTick(
+    prices: Array<{ symbol: string; price: bigint }>,
+    recordedAt: Date,
+  ): Promise<void> {
+    const query = `
+    INSERT INTO ${this.table} (asset_symbol, price, recorded_at)
+    SELECT symbol, price, $3
+    FROM UNNEST($1::varchar[], $2::bigint[]) AS t(symbol, price)`;
+
+    try {
+      await this.db.query(query, [
+        prices.map((p) => p.symbol),
+        prices.map((p) => p.price.toString()),
+        recordedAt,
+      ]);
+    } catch (error) {
+      logger.error("Failed to record exchange price tick:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the first recorded price of each asset since a point in time
+   *
+   * Used as the opening price when calculating price changes over a
+   * window (e.g. the last 24 hours).
+   *
+   * @param since - Start of the window
+   * @returns Promise resolving to a map of asset symbol to opening price
+   */
+  async findOpeningPrices(since: Date): Promise<Map<string, bigint>> {
+    const query = `
+    SELECT DISTINCT ON (asset_symbol) asset_symbol, price
+    FROM ${this.table}
+    WHERE recorded_at >= $1
+    ORDER BY asset_symbol, recorded_at ASC`;
+
+    try {
+      const result = await this.db.query(query, [since]);
+      return new Map(
+        result.rows.map((row) => [row.asset_symbol, BigInt(row.price)]),
+      );
+    } catch (error) {
+      logger.error("Failed to fetch exchange opening prices:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes price history recorded before a point in time
+   *
+   * @param before - Rows recorded before this time are deleted
+   * @returns Promise resolving to the number of deleted rows
+   */
+  async deleteOlderThan(before: Date): Promise<number> {
+    const query = `
+    DELETE FROM ${this.table}
+    WHERE recorded_at < $1`;
+
+    try {
+      const result = await this.db.query(query, [before]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error("Failed to prune exchange price history:", error);
+      throw error;
+    }
+  }
+}
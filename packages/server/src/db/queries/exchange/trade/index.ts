@@ -0,0 +1,15 @@
+import { Pool, PoolClient } from "pg";
+import { ExchangeTradeBaseQueries } from "@/generated/db/exchange_trade.queries";
+
+/**
+ * Custom queries for exchange_trade table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class ExchangeTradeQueries extends ExchangeTradeBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+}
@@ -10,18 +10,40 @@
 
 export { AdminQueries } from "./admin";
 export { AdminLogActionQueries } from "./admin/log/action";
+export { CompanyQueries } from "./company";
+export { CompanyMemberQueries } from "./company/member";
+export { CompanyTransactionQueries } from "./company/transaction";
 export { DiscordGuildMemberJoinQueries } from "./discord/guild/member/join";
 export { DiscordGuildMemberLeaveQueries } from "./discord/guild/member/leave";
+export { EconomyInvoiceQueries } from "./economy/invoice";
+export { EconomyRequestQueries } from "./economy/request";
+export { EconomyTreasuryQueries } from "./economy/treasury";
+export { EconomyTreasuryTransactionQueries } from "./economy/treasury/transaction";
+export { ExchangeAssetQueries } from "./exchange/asset";
+export { ExchangeHoldingQueries } from "./exchange/holding";
+export { ExchangePriceQueries } from "./exchange/price";
+export { ExchangeTradeQueries } from "./exchange/trade";
 export { LeaderboardMessageQueries } from "./leaderboard/message";
+export { MarketListingQueries } from "./market/listing";
+export { MarketPurchaseQueries } from "./market/purchase";
+export { MarketRequestQueries } from "./market/request";
 export { PlayerQueries } from "./player";
 export { PlayerBalanceQueries } from "./player/balance";
 export { PlayerBalanceTransactionQueries } from "./player/balance/transaction";
 export { PlayerPlaytimeDailyQueries } from "./player/playtime/daily";
+export { PlayerPlaytimeDimensionDailyQueries } from "./player/playtime/dimension/daily";
 export { PlayerPlaytimeHourlyQueries } from "./player/playtime/hourly";
 export { PlayerPlaytimeSummaryQueries } from "./player/playtime/summary";
 export { PlayerSessionQueries } from "./player/session";
+export { PlayerSessionAfkQueries } from "./player/session/afk";
+export { PlayerSessionDimensionQueries } from "./player/session/dimension";
+export { PlayerSessionFlagQueries } from "./player/session/flag";
+export { PlaytimeRecapQueries } from "./playtime/recap";
 export { RewardClaimQueries } from "./reward/claim";
 export { ServerQueries } from "./server";
+export { ServerOnlineHourlyQueries } from "./server/online/hourly";
+export { ServerOnlineSampleQueries } from "./server/online/sample";
 export { TicketQueries } from "./ticket";
 export { TicketActionQueries } from "./ticket/action";
+export { TradeOfferQueries } from "./trade/offer";
 export { WaitlistEntryQueries } from "./waitlist/entry";
@@ -0,0 +1,133 @@
+import { Pool, PoolClient } from "pg";
+import { MarketListingQueries } from "@/db/queries/market/listing";
+import { MarketPurchaseQueries } from "@/db/queries/market/purchase";
+import { MarketRequestQueries } from "@/db/queries/market/request";
+
+/**
+ * Namespace queries for market
+ * 
+ * This is a pure organizational namespace that groups related query classes.
+ * It does not correspond to an actual database table but provides hierarchical
+ * access to child tables that share the 'market_' prefix.
+ * 
+ * Uses singleton pattern with lazy loading for optimal performance:
+ * - Child instances created once per database connection
+ * - Cached in WeakMap for automatic garbage collection
+ * - Shared across all MarketQueries instances using same connection
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export class MarketQueries {
+  /**
+   * Static singleton registry for child query instances
+   * 
+   * Uses WeakMap keyed by database connection (Pool or PoolClient):
+   * - Allows garbage collection when connection is closed
+   * - Prevents memory leaks in long-running applications
+   * - Each connection has its own cache map
+   * - Keys are fully qualified (e.g., "market.actions")
+   */
+  private static queryInstances = new WeakMap<
+    Pool | PoolClient,
+    Map<string, any>
+  >();
+
+  /**
+   * Get or create a child query instance from the singleton cache
+   * 
+   * Implements the singleton pattern by checking the cache first and
+   * creating new instances only when needed. All instances for a given
+   * connection are stored in the same cache.
+   * 
+   * @param key - Cache key for this child (e.g., "actions", "settings")
+   * @param QueryClass - Constructor for the child query class
+   * @returns Cached or newly created child query instance
+   * 
+   * @remarks
+   * - Cache key is prefixed with namespace (e.g., "market.actions")
+   * - Ensures child shares the same database connection as parent
+   * - Type-safe through generic parameter T
+   */
+  protected getOrCreateChild<T>(
+    key: string,
+    QueryClass: new (db: Pool | PoolClient) => T
+  ): T {
+    // Initialize cache for this connection if not exists
+    if (!MarketQueries.queryInstances.has(this.db)) {
+      MarketQueries.queryInstances.set(this.db, new Map());
+    }
+
+    const cache = MarketQueries.queryInstances.get(this.db)!;
+    const fullKey = `market.${key}`;
+
+    // Create and cache child instance if not exists
+    if (!cache.has(fullKey)) {
+      cache.set(fullKey, new QueryClass(this.db));
+    }
+
+    return cache.get(fullKey) as T;
+  }
+
+  /**
+   * @param db - Database pool or client to use for all child queries
+   */
+  constructor(protected db: Pool | PoolClient) {}
+
+  /** Private backing field for lazy-loaded market_listing queries */
+  private _listing?: MarketListingQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for market_listing
+   * 
+   * Returns a MarketListingQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton MarketListingQueries instance
+   */
+  get listing(): MarketListingQueries {
+    if (!this._listing) {
+      this._listing = this.getOrCreateChild<MarketListingQueries>('listing', MarketListingQueries);
+    }
+    return this._listing;
+  }
+
+  /** Private backing field for lazy-loaded market_purchase queries */
+  private _purchase?: MarketPurchaseQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for market_purchase
+   * 
+   * Returns a MarketPurchaseQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton MarketPurchaseQueries instance
+   */
+  get purchase(): MarketPurchaseQueries {
+    if (!this._purchase) {
+      this._purchase = this.getOrCreateChild<MarketPurchaseQueries>('purchase', MarketPurchaseQueries);
+    }
+    return this._purchase;
+  }
+
+  /** Private backing field for lazy-loaded market_request queries */
+  private _request?: MarketRequestQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for market_request
+   * 
+   * Returns a MarketRequestQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton MarketRequestQueries instance
+   */
+  get request(): MarketRequestQueries {
+    if (!this._request) {
+      this._request = this.getOrCreateChild<MarketRequestQueries>('request', MarketRequestQueries);
+    }
+    return this._request;
+  }
+}
@@ -0,0 +1,197 @@
+import { Pool, PoolClient } from "pg";
+import { MarketListingBaseQueries } from "@/generated/db/market_listing.queries";
+import type { MarketListing } from "@/generated/db";
+
+/**
+ * Market listing joined with the seller's username
+ */
+export type MarketListingWithSeller = MarketListing & {
+  sellerUsername: string;
+};
+
+/**
+ * Filters, sorting and pagination for listing searches
+ */
+export interface MarketListingSearchOptions {
+  search?: string;
+  sellerUuid?: string;
+  status?: string;
+  sortBy?: "createdAt" | "unitPrice";
+  sortOrder?: "ASC" | "DESC";
+  limit: number;
+  offset: number;
+}
+
+const SORT_COLUMNS = {
+  createdAt: "l.created_at",
+  unitPrice: "l.unit_price",
+} as const;
+
+/**
+ * Custom queries for market_listing table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class MarketListingQueries extends MarketListingBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Searches listings with the seller's username
+   *
+   * The search term matches item name, item ID and description
+   * (case-insensitive partial match).
+   *
+   * @param options - Filters, sorting and pagination
+   * @returns Matching page of listings and the total match count
+   */
+  async search(
+    options: MarketListingSearchOptions,
+  ): Promise<{ listings: MarketListingWithSeller[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      conditions.push(
+        `(l.item_name ILIKE $${params.length} OR l.item_id ILIKE $${params.length} OR l.description ILIKE $${params.length})`,
+      );
+    }
+
+    if (options.sellerUuid) {
+      params.push(options.sellerUuid);
+      conditions.push(`l.seller_minecraft_uuid = $${params.length}`);
+    }
+
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`l.status = $${params.length}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const orderBy = SORT_COLUMNS[options.sortBy ?? "createdAt"];
+    const orderDirection = options.sortOrder === "ASC" ? "ASC" : "DESC";
+
+    const query = `
+    SELECT l.*, p.minecraft_username AS seller_username
+    FROM ${this.table} l
+    JOIN player p ON p.minecraft_uuid = l.seller_minecraft_uuid
+    ${where}
+    ORDER BY ${orderBy} ${orderDirection}, l.id DESC
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
+
+    const countQuery = `
+    SELECT COUNT(*) AS total
+    FROM ${this.table} l
+    ${where}`;
+
+    try {
+      const [result, countResult] = await Promise.all([
+        this.db.query(query, [...params, options.limit, options.offset]),
+        this.db.query(countQuery, params),
+      ]);
+
+      return {
+        listings: this.mapRowsToEntities<any, MarketListingWithSeller>(
+          result.rows,
+        ),
+        total: parseInt(countResult.rows[0].total),
+      };
+    } catch (error) {
+      logger.error("Failed to search market listings:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a single listing with the seller's username
+   *
+   * @param id - Listing ID
+   * @returns The listing, or null if not found
+   */
+  async findWithSeller(id: number): Promise<MarketListingWithSeller | null> {
+    const query = `
+    SELECT l.*, p.minecraft_username AS seller_username
+    FROM ${this.table} l
+    JOIN player p ON p.minecraft_uuid = l.seller_minecraft_uuid
+    WHERE l.id = $1`;
+
+    try {
+      const result = await this.db.query(query, [id]);
+      return result.rows[0]
+        ? this.mapRowToEntity<any, MarketListingWithSeller>(result.rows[0])
+        : null;
+    } catch (error) {
+      logger.error(`Failed to fetch market listing ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes purchased units from an active listing
+   *
+   * The update only applies while the listing is active and has enough
+   * stock, so concurrent purchases can never oversell. A listing whose
+   * stock reaches zero is marked sold out.
+   *
+   * @param id - Listing ID
+   * @param quantity - Units to remove
+   * @returns The updated listing, or null if it is not active or has too
+   * little stock
+   */
+  async reserveStock(
+    id: number,
+    quantity: number,
+  ): Promise<MarketListing | null> {
+    const query = `
+    UPDATE ${this.table}
+    SET quantity = quantity - $2,
+        status = CASE WHEN quantity - $2 = 0 THEN 'sold_out' ELSE status END,
+        updated_at = NOW()
+    WHERE id = $1
+      AND status = 'active'
+      AND quantity >= $2
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [id, quantity]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to reserve stock of market listing ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels an active listing
+   *
+   * @param id - Listing ID
+   * @param cancelledByDiscordId - Discord ID of the seller or admin
+   * @returns The cancelled listing, or null if it was no longer active
+   */
+  async cancelActive(
+    id: number,
+    cancelledByDiscordId: string,
+  ): Promise<MarketListing | null> {
+    const query = `
+    UPDATE ${this.table}
+    SET status = 'cancelled',
+        cancelled_by_discord_id = $2,
+        updated_at = NOW()
+    WHERE id = $1
+      AND status = 'active'
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [id, cancelledByDiscordId]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to cancel market listing ${id}:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Pool, PoolClient } from "pg";
+import { MarketPurchaseBaseQueries } from "@/generated/db/market_purchase.queries";
+
+/**
+ * Custom queries for market_purchase table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class MarketPurchaseQueries extends MarketPurchaseBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+}
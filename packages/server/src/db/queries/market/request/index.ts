@@ -0,0 +1,256 @@
+import { Pool, PoolClient } from "pg";
+import { MarketRequestBaseQueries } from "@/generated/db/market_request.queries";
+import type { MarketRequest } from "@/generated/db";
+
+/**
+ * Item request joined with the requester's and fulfiller's usernames
+ */
+export type MarketRequestWithPlayers = MarketRequest & {
+  requesterUsername: string;
+  fulfillerUsername: string | null;
+};
+
+/**
+ * Filters and pagination for request searches
+ */
+export interface MarketRequestSearchOptions {
+  search?: string;
+  requesterUuid?: string;
+  fulfillerUuid?: string;
+  status?: string;
+  limit: number;
+  offset: number;
+}
+
+const SELECT_WITH_PLAYERS = `
+    SELECT
+      r.*,
+      requester.minecraft_username AS requester_username,
+      fulfiller.minecraft_username AS fulfiller_username
+    FROM market_request r
+    JOIN player requester ON requester.minecraft_uuid = r.requester_minecraft_uuid
+    LEFT JOIN player fulfiller ON fulfiller.minecraft_uuid = r.fulfiller_minecraft_uuid`;
+
+/**
+ * Custom queries for market_request table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class MarketRequestQueries extends MarketRequestBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Searches requests with the requester's and fulfiller's usernames
+   *
+   * The search term matches item name, item ID and description
+   * (case-insensitive partial match). Newest requests come first.
+   *
+   * @param options - Filters and pagination
+   * @returns Matching page of requests and the total match count
+   */
+  async search(
+    options: MarketRequestSearchOptions,
+  ): Promise<{ requests: MarketRequestWithPlayers[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      conditions.push(
+        `(r.item_name ILIKE $${params.length} OR r.item_id ILIKE $${params.length} OR r.description ILIKE $${params.length})`,
+      );
+    }
+
+    if (options.requesterUuid) {
+      params.push(options.requesterUuid);
+      conditions.push(`r.requester_minecraft_uuid = $${params.length}`);
+    }
+
+    if (options.fulfillerUuid) {
+      params.push(options.fulfillerUuid);
+      conditions.push(`r.fulfiller_minecraft_uuid = $${params.length}`);
+    }
+
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`r.status = $${params.length}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const query = `
+    ${SELECT_WITH_PLAYERS}
+    ${where}
+    ORDER BY r.created_at DESC, r.id DESC
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
+
+    const countQuery = `
+    SELECT COUNT(*) AS total
+    FROM ${this.table} r
+    ${where}`;
+
+    try {
+      const [result, countResult] = await Promise.all([
+        this.db.query(query, [...params, options.limit, options.offset]),
+        this.db.query(countQuery, params),
+      ]);
+
+      return {
+        requests: this.mapRowsToEntities<any, MarketRequestWithPlayers>(
+          result.rows,
+        ),
+        total: parseInt(countResult.rows[0].total),
+      };
+    } catch (error) {
+      logger.error("Failed to search market requests:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a single request with the requester's and fulfiller's usernames
+   *
+   * @param id - Request ID
+   * @returns The request, or null if not found
+   */
+  async findWithPlayers(id: number): Promise<MarketRequestWithPlayers | null> {
+    const query = `
+    ${SELECT_WITH_PLAYERS}
+    WHERE r.id = $1`;
+
+    try {
+      const result = await this.db.query(query, [id]);
+      return result.rows[0]
+        ? this.mapRowToEntity<any, MarketRequestWithPlayers>(result.rows[0])
+        : null;
+    } catch (error) {
+      logger.error(`Failed to fetch market request ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assigns a fulfiller to an open request
+   *
+   * The update only applies while the request is open and unexpired, so
+   * two players can never claim the same request.
+   *
+   * @param id - Request ID
+   * @param fulfillerUuid - Minecraft UUID of the claiming player
+   * @returns The claimed request, or null if it was not claimable
+   */
+  async claimOpen(
+    id: number,
+    fulfillerUuid: string,
+  ): Promise<MarketRequest | null> {
+    const query = `
+    UPDATE ${this.table}
+    SET status = 'claimed',
+        fulfiller_minecraft_uuid = $2,
+        claimed_at = NOW()
+    WHERE id = $1
+      AND status = 'open'
+      AND expires_at > NOW()
+      AND requester_minecraft_uuid <> $2
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [id, fulfillerUuid]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to claim market request ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns a claimed request to open, removing its fulfiller
+   *
+   * @param id - Request ID
+   * @param fulfillerUuid - Minecraft UUID of the current fulfiller
+   * @returns The reopened request, or null if it was not claimed by this
+   * player
+   */
+  async releaseClaim(
+    id: number,
+    fulfillerUuid: string,
+  ): Promise<MarketRequest | null> {
+    const query = `
+    UPDATE ${this.table}
+    SET status = 'open',
+        fulfiller_minecraft_uuid = NULL,
+        claimed_at = NULL
+    WHERE id = $1
+      AND status = 'claimed'
+      AND fulfiller_minecraft_uuid = $2
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [id, fulfillerUuid]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to release claim on market request ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves an active request into a final status
+   *
+   * The update only applies while the request is in one of the given
+   * statuses, so a request can never be settled twice (e.g. a delivery
+   * confirmation racing the expiry sweep).
+   *
+   * @param id - Request ID
+   * @param fromStatuses - Statuses the request may currently be in
+   * @param status - Final status to set
+   * @returns The resolved request, or null if it was in another status
+   */
+  async resolveActive(
+    id: number,
+    fromStatuses: Array<"open" | "claimed">,
+    status: "fulfilled" | "cancelled" | "expired",
+  ): Promise<MarketRequest | null> {
+    const query = `
+    UPDATE ${this.table}
+    SET status = $2, resolved_at = NOW()
+    WHERE id = $1
+      AND status = ANY($3)
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [id, status, fromStatuses]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to resolve market request ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds open or claimed requests whose expiry time has passed
+   *
+   * @returns Promise resolving to an array of expired active requests
+   */
+  async findExpiredActive(): Promise<MarketRequest[]> {
+    const query = `
+    SELECT *
+    FROM ${this.table}
+    WHERE status IN ('open', 'claimed')
+      AND expires_at <= NOW()
+    ORDER BY expires_at ASC`;
+
+    try {
+      const result = await this.db.query(query);
+      return this.mapRowsToEntities<any, MarketRequest>(result.rows);
+    } catch (error) {
+      logger.error("Failed to fetch expired market requests:", error);
+      throw error;
+    }
+  }
+}
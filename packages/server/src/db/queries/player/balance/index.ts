@@ -1,5 +1,6 @@
 import { Pool, PoolClient } from "pg";
 import { PlayerBalanceBaseQueries } from "@/generated/db/player_balance.queries";
+import type { PlayerBalance } from "@/generated/db";
 
 /**
  * Custom queries for player_balance table
@@ -12,4 +13,111 @@ export class PlayerBalanceQueries extends PlayerBalanceBaseQueries {
   }
 
   // Custom methods can be implemented here
+
+  /**
+   * Retrieves every player's raw balance
+   *
+   * @returns Balances in smallest unit, sorted ascending
+   */
+  async getAllBalances(): Promise<bigint[]> {
+    const query = `
+    SELECT balance
+    FROM ${this.table}
+    ORDER BY balance ASC`;
+
+    try {
+      const result = await this.db.query(query);
+      return result.rows.map((row) => BigInt(row.balance));
+    } catch (error) {
+      logger.error("Failed to fetch all balances:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the richest players for the balance leaderboard
+   *
+   * Players who opted out with `hide_from_leaderboard` are excluded
+   *
+   * @param limit - Maximum number of entries to return
+   * @returns Balances with usernames, highest first
+   */
+  async getLeaderboard(
+    limit: number = 10,
+  ): Promise<Array<{ minecraftUsername: string; balance: bigint }>> {
+    const query = `
+    SELECT p.minecraft_username, b.balance
+    FROM ${this.table} b
+    JOIN player p ON p.minecraft_uuid = b.minecraft_uuid
+    WHERE b.hide_from_leaderboard = false
+      AND b.balance > 0
+    ORDER BY b.balance DESC, p.minecraft_username ASC
+    LIMIT $1`;
+
+    try {
+      const result = await this.db.query(query, [limit]);
+
+      return result.rows.map((row) => ({
+        minecraftUsername: row.minecraft_username,
+        balance: BigInt(row.balance),
+      }));
+    } catch (error) {
+      logger.error("Failed to get balance leaderboard:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves every balance account with the owner's username
+   *
+   * @returns Accounts ordered by username
+   */
+  async getAccounts(): Promise<
+    Array<{ minecraftUuid: string; minecraftUsername: string; balance: bigint }>
+  > {
+    const query = `
+    SELECT b.minecraft_uuid, p.minecraft_username, b.balance
+    FROM ${this.table} b
+    JOIN player p ON p.minecraft_uuid = b.minecraft_uuid
+    ORDER BY p.minecraft_username ASC`;
+
+    try {
+      const result = await this.db.query(query);
+
+      return result.rows.map((row) => ({
+        minecraftUuid: row.minecraft_uuid,
+        minecraftUsername: row.minecraft_username,
+        balance: BigInt(row.balance),
+      }));
+    } catch (error) {
+      logger.error("Failed to fetch balance accounts:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads a balance and locks the row until the surrounding transaction
+   * ends
+   *
+   * Must run inside a transaction (e.g. `db.inTransaction`), otherwise the
+   * lock is released immediately.
+   *
+   * @param minecraftUuid - Minecraft UUID of the account
+   * @returns The locked balance, or null if the account does not exist
+   */
+  async lockForUpdate(minecraftUuid: string): Promise<PlayerBalance | null> {
+    const query = `
+    SELECT *
+    FROM ${this.table}
+    WHERE minecraft_uuid = $1
+    FOR UPDATE`;
+
+    try {
+      const result = await this.db.query(query, [minecraftUuid]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to lock balance of ${minecraftUuid}:`, error);
+      throw error;
+    }
+  }
 }
@@ -1,9 +1,15 @@
 import { Pool, PoolClient } from "pg";
 import { PlayerBalanceTransactionBaseQueries } from "@/generated/db/player_balance_transaction.queries";
+import type { PlayerBalanceTransaction } from "@/generated/db";
+
+export type PlayerBalanceTransactionWithCounterparty =
+  PlayerBalanceTransaction & {
+    relatedPlayerUsername: string | null;
+  };
 
 /**
  * Custom queries for player_balance_transaction table
- * 
+ *
  * Extends the auto-generated base class with custom methods
  */
 export class PlayerBalanceTransactionQueries extends PlayerBalanceTransactionBaseQueries {
@@ -12,4 +18,261 @@ export class PlayerBalanceTransactionQueries extends PlayerBalanceTransactionBas
   }
 
   // Custom methods can be implemented here
+
+  /**
+   * Retrieves a page of a player's transactions joined with the
+   * counterparty's Minecraft username
+   *
+   * @param playerUuid - Minecraft UUID of the player whose ledger is read
+   * @param options - Optional type filter and pagination
+   * @returns Transactions ordered newest first
+   */
+  async findHistoryWithCounterparty(
+    playerUuid: string,
+    options: {
+      types?: string[];
+      limit?: number;
+      offset?: number;
+    } = {},
+  ): Promise<PlayerBalanceTransactionWithCounterparty[]> {
+    const { types, limit = 10, offset = 0 } = options;
+    const params: any[] = [playerUuid, limit, offset];
+
+    let typeClause = "";
+    if (types && types.length > 0) {
+      params.push(types);
+      typeClause = `AND t.transaction_type = ANY($${params.length})`;
+    }
+
+    const query = `
+    SELECT
+      t.*,
+      rp.minecraft_username AS related_player_username
+    FROM ${this.table} t
+    LEFT JOIN player rp ON rp.minecraft_uuid = t.related_player_uuid
+    WHERE t.player_minecraft_uuid = $1
+      ${typeClause}
+    ORDER BY t.created_at DESC, t.id DESC
+    LIMIT $2 OFFSET $3`;
+
+    try {
+      const result = await this.db.query(query, params);
+
+      return this.mapRowsToEntities<
+        any,
+        PlayerBalanceTransactionWithCounterparty
+      >(result.rows);
+    } catch (error) {
+      logger.error("Failed to get transaction history:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the other side of a two-sided transaction (e.g. the
+   * transfer_receive entry matching a transfer_send)
+   *
+   * Both sides are written together, so the counterpart is the entry of
+   * the related player with the opposite amount closest by ID.
+   *
+   * @param transaction - One side of the transaction
+   * @param counterpartType - Transaction type of the other side
+   * @returns The counterpart entry, or null if none exists
+   */
+  async findCounterpart(
+    transaction: PlayerBalanceTransaction,
+    counterpartType: string,
+  ): Promise<PlayerBalanceTransaction | null> {
+    if (!transaction.relatedPlayerUuid) {
+      return null;
+    }
+
+    const query = `
+    SELECT *
+    FROM ${this.table}
+    WHERE player_minecraft_uuid = $1
+      AND related_player_uuid = $2
+      AND transaction_type = $3
+      AND amount = $4
+      AND created_at BETWEEN $5::timestamptz - INTERVAL '1 minute'
+                         AND $5::timestamptz + INTERVAL '1 minute'
+    ORDER BY ABS(id - $6)
+    LIMIT 1`;
+
+    try {
+      const result = await this.db.query(query, [
+        transaction.relatedPlayerUuid,
+        transaction.playerMinecraftUuid,
+        counterpartType,
+        -transaction.amount,
+        transaction.createdAt,
+        transaction.id,
+      ]);
+
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(
+        `Failed to find counterpart of transaction ${transaction.id}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Reads transactions and locks their rows until the surrounding
+   * transaction ends
+   *
+   * Rows are locked in ID order. Must run inside a transaction (e.g.
+   * `db.inTransaction`), otherwise the locks are released immediately.
+   *
+   * @param ids - IDs of the transactions to lock
+   * @returns The locked transactions, ordered by ID
+   */
+  async lockForUpdate(ids: number[]): Promise<PlayerBalanceTransaction[]> {
+    const query = `
+    SELECT *
+    FROM ${this.table}
+    WHERE id = ANY($1::int[])
+    ORDER BY id ASC
+    FOR UPDATE`;
+
+    try {
+      const result = await this.db.query(query, [ids]);
+      return this.mapRowsToEntities<any, PlayerBalanceTransaction>(result.rows);
+    } catch (error) {
+      logger.error(`Failed to lock transactions ${ids.join(", ")}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the refund entries that reversed a transaction
+   *
+   * @param transactionId - ID of the reversed transaction
+   * @returns Refund entries linked to the transaction (empty if not reversed)
+   */
+  async findReversals(
+    transactionId: number,
+  ): Promise<PlayerBalanceTransaction[]> {
+    const query = `
+    SELECT *
+    FROM ${this.table}
+    WHERE reversed_transaction_id = $1
+    ORDER BY id ASC`;
+
+    try {
+      const result = await this.db.query(query, [transactionId]);
+      return this.mapRowsToEntities<any, PlayerBalanceTransaction>(result.rows);
+    } catch (error) {
+      logger.error(
+        `Failed to find reversals of transaction ${transactionId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Sums transaction amounts per UTC day and transaction type
+   *
+   * @param since - Only include transactions created at or after this time
+   * @returns Net amount and number of transactions per day and type
+   */
+  async getDailyTotalsByType(since: Date): Promise<
+    Array<{
+      date: string;
+      transactionType: string;
+      total: bigint;
+      count: number;
+    }>
+  > {
+    const query = `
+    SELECT
+      to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS date,
+      transaction_type,
+      SUM(amount) AS total,
+      COUNT(*) AS count
+    FROM ${this.table}
+    WHERE created_at >= $1
+    GROUP BY 1, 2
+    ORDER BY 1 ASC`;
+
+    try {
+      const result = await this.db.query(query, [since]);
+
+      return result.rows.map((row) => ({
+        date: row.date,
+        transactionType: row.transaction_type,
+        total: BigInt(row.total),
+        count: Number(row.count),
+      }));
+    } catch (error) {
+      logger.error("Failed to get daily transaction totals:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a player's transaction chain in the order it was written
+   *
+   * Ordered by ID rather than created_at: created_at is the start time of
+   * the surrounding database transaction, while IDs follow the order in
+   * which the entries were actually inserted.
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @returns Every entry of the player, oldest first
+   */
+  async getLedgerChain(
+    playerUuid: string,
+  ): Promise<
+    Array<
+      Pick<
+        PlayerBalanceTransaction,
+        "id" | "amount" | "balanceBefore" | "balanceAfter" | "transactionType"
+      >
+    >
+  > {
+    const query = `
+    SELECT id, amount, balance_before, balance_after, transaction_type
+    FROM ${this.table}
+    WHERE player_minecraft_uuid = $1
+    ORDER BY id ASC`;
+
+    try {
+      const result = await this.db.query(query, [playerUuid]);
+      return this.mapRowsToEntities(result.rows);
+    } catch (error) {
+      logger.error(`Failed to fetch ledger chain of ${playerUuid}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the most recently written entry of a player
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @returns The latest entry, or null if the player has none
+   */
+  async findLatest(
+    playerUuid: string,
+  ): Promise<PlayerBalanceTransaction | null> {
+    const query = `
+    SELECT *
+    FROM ${this.table}
+    WHERE player_minecraft_uuid = $1
+    ORDER BY id DESC
+    LIMIT 1`;
+
+    try {
+      const result = await this.db.query(query, [playerUuid]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(
+        `Failed to fetch latest transaction of ${playerUuid}:`,
+        error,
+      );
+      throw error;
+    }
+  }
 }
@@ -1,5 +1,9 @@
 import { Pool, PoolClient } from "pg";
 import { PlayerPlaytimeDailyBaseQueries } from "@/generated/db/player_playtime_daily.queries";
+import type {
+  PlayerPlaytimeRank,
+  PlayerServerPlaytime,
+} from "@/db/queries/player/playtime/summary";
 
 export type ServerActivity = {
   playDate: Date;
@@ -7,6 +11,33 @@ export type ServerActivity = {
   totalSeconds: number;
 };
 
+/**
+ * A player's playtime on a single day, summed across servers
+ */
+export type PlayerDailyTotal = {
+  /** Calendar date (YYYY-MM-DD) */
+  playDate: string;
+  totalSeconds: number;
+};
+
+/**
+ * Playtime within one day or hour of a range
+ */
+export type PlaytimeBucket = {
+  /** Calendar date (YYYY-MM-DD) or start of the hour (ISO 8601) */
+  start: string;
+  uniquePlayers: number;
+  totalSeconds: number;
+};
+
+/**
+ * Optional filters for playtime range queries
+ */
+export type PlaytimeRangeFilters = {
+  playerUuid?: string;
+  serverId?: number;
+};
+
 /**
  * Custom queries for player_playtime_daily table
  *
@@ -56,4 +87,184 @@ export class PlayerPlaytimeDailyQueries extends PlayerPlaytimeDailyBaseQueries {
       throw error;
     }
   }
+
+  /**
+   * Retrieves a player's playtime on each server within a date range
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @param startDate - Start date of the range (inclusive)
+   * @param endDate - End date of the range (inclusive, default: open-ended)
+   * @returns Per-server totals, most played server first
+   */
+  async getPlayerTotalsByServer(
+    playerUuid: string,
+    startDate: Date,
+    endDate: Date | null = null
+  ): Promise<PlayerServerPlaytime[]> {
+    const query = `
+    SELECT
+      d.server_id,
+      srv.name AS server_name,
+      SUM(d.seconds_played) AS total_seconds
+    FROM ${this.table} d
+    JOIN server srv ON srv.id = d.server_id
+    WHERE d.player_minecraft_uuid = $1
+      AND d.play_date >= $2::date
+      AND ($3::date IS NULL OR d.play_date <= $3::date)
+    GROUP BY d.server_id, srv.name
+    ORDER BY total_seconds DESC`;
+
+    try {
+      const result = await this.db.query(query, [
+        playerUuid,
+        startDate,
+        endDate,
+      ]);
+
+      return result.rows.map((row) => ({
+        serverId: row.server_id,
+        serverName: row.server_name,
+        totalSeconds: Number(row.total_seconds),
+      }));
+    } catch (error) {
+      logger.error("Failed to get player daily playtime by server:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a player's playtime for each of the last days, summed across
+   * servers
+   *
+   * Days without playtime are included with zero seconds, so the result
+   * always has one entry per day ending today.
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @param days - Number of days to return, including today
+   * @returns Daily totals, ordered chronologically
+   */
+  async getPlayerDailyTotals(
+    playerUuid: string,
+    days: number
+  ): Promise<PlayerDailyTotal[]> {
+    const query = `
+    SELECT
+      to_char(day, 'YYYY-MM-DD') AS play_date,
+      COALESCE(SUM(d.seconds_played), 0) AS total_seconds
+    FROM generate_series(
+      CURRENT_DATE - ($2::int - 1),
+      CURRENT_DATE,
+      INTERVAL '1 day'
+    ) AS day
+    LEFT JOIN ${this.table} d
+      ON d.play_date = day::date
+      AND d.player_minecraft_uuid = $1
+    GROUP BY day
+    ORDER BY day ASC`;
+
+    try {
+      const result = await this.db.query(query, [playerUuid, days]);
+
+      return result.rows.map((row) => ({
+        playDate: row.play_date,
+        totalSeconds: Number(row.total_seconds),
+      }));
+    } catch (error) {
+      logger.error("Failed to get player daily totals:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ranks a player by playtime since a date, summed across servers
+   *
+   * Players with equal playtime share a rank.
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @param startDate - Start date of the range (inclusive)
+   * @returns The player's rank, or null if they have no playtime in range
+   */
+  async getPlayerRank(
+    playerUuid: string,
+    startDate: Date
+  ): Promise<PlayerPlaytimeRank | null> {
+    const query = `
+    WITH totals AS (
+      SELECT player_minecraft_uuid, SUM(seconds_played) AS total_seconds
+      FROM ${this.table}
+      WHERE play_date >= $2
+      GROUP BY player_minecraft_uuid
+      HAVING SUM(seconds_played) > 0
+    ),
+    ranked AS (
+      SELECT
+        player_minecraft_uuid,
+        RANK() OVER (ORDER BY total_seconds DESC) AS rank,
+        COUNT(*) OVER () AS total_players
+      FROM totals
+    )
+    SELECT rank, total_players
+    FROM ranked
+    WHERE player_minecraft_uuid = $1`;
+
+    try {
+      const result = await this.db.query(query, [playerUuid, startDate]);
+      const row = result.rows[0];
+
+      return row
+        ? { rank: Number(row.rank), totalPlayers: Number(row.total_players) }
+        : null;
+    } catch (error) {
+      logger.error("Failed to get player daily playtime rank:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves playtime for each day of a date range
+   *
+   * Without filters the totals cover all players on all servers. Days
+   * without playtime are included with zero seconds.
+   *
+   * @param filters - Optional player and server to restrict the totals to
+   * @param startDate - Start date of the range (inclusive)
+   * @param endDate - End date of the range (inclusive)
+   * @returns One bucket per day, ordered chronologically
+   */
+  async getRangeTotals(
+    filters: PlaytimeRangeFilters,
+    startDate: Date,
+    endDate: Date
+  ): Promise<PlaytimeBucket[]> {
+    const query = `
+    SELECT
+      to_char(day, 'YYYY-MM-DD') AS start,
+      COUNT(DISTINCT d.player_minecraft_uuid) AS unique_players,
+      COALESCE(SUM(d.seconds_played), 0) AS total_seconds
+    FROM generate_series($1::date, $2::date, INTERVAL '1 day') AS day
+    LEFT JOIN ${this.table} d
+      ON d.play_date = day::date
+      AND ($3::uuid IS NULL OR d.player_minecraft_uuid = $3)
+      AND ($4::int IS NULL OR d.server_id = $4)
+    GROUP BY day
+    ORDER BY day ASC`;
+
+    try {
+      const result = await this.db.query(query, [
+        startDate,
+        endDate,
+        filters.playerUuid ?? null,
+        filters.serverId ?? null,
+      ]);
+
+      return result.rows.map((row) => ({
+        start: row.start,
+        uniquePlayers: Number(row.unique_players),
+        totalSeconds: Number(row.total_seconds),
+      }));
+    } catch (error) {
+      logger.error("Failed to get daily playtime range:", error);
+      throw error;
+    }
+  }
 }
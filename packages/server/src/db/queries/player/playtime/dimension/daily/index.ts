@@ -0,0 +1,68 @@
+import { Pool, PoolClient } from "pg";
+import { PlayerPlaytimeDimensionDailyBaseQueries } from "@/generated/db/player_playtime_dimension_daily.queries";
+
+/**
+ * A player's playtime in a single dimension
+ */
+export type PlayerDimensionPlaytime = {
+  /** Dimension ID reported by the mod (e.g. minecraft:the_nether) */
+  dimension: string;
+  totalSeconds: number;
+};
+
+/**
+ * Custom queries for player_playtime_dimension_daily table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class PlayerPlaytimeDimensionDailyQueries extends PlayerPlaytimeDimensionDailyBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  /**
+   * Retrieves a player's playtime per dimension within a date range
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @param startDate - Start date of the range (inclusive, null for all time)
+   * @param endDate - End date of the range (inclusive, default: open-ended)
+   * @param serverId - Optional server ID (all servers if omitted)
+   * @returns Per-dimension totals, most played dimension first
+   */
+  async getPlayerTotals(
+    playerUuid: string,
+    startDate: Date | null,
+    endDate: Date | null = null,
+    serverId?: number,
+  ): Promise<PlayerDimensionPlaytime[]> {
+    const query = `
+    SELECT
+      dimension,
+      SUM(seconds_played) AS total_seconds
+    FROM ${this.table}
+    WHERE player_minecraft_uuid = $1
+      AND ($2::date IS NULL OR play_date >= $2::date)
+      AND ($3::date IS NULL OR play_date <= $3::date)
+      AND ($4::int IS NULL OR server_id = $4)
+    GROUP BY dimension
+    HAVING SUM(seconds_played) > 0
+    ORDER BY total_seconds DESC`;
+
+    try {
+      const result = await this.db.query(query, [
+        playerUuid,
+        startDate,
+        endDate,
+        serverId ?? null,
+      ]);
+
+      return result.rows.map((row) => ({
+        dimension: row.dimension,
+        totalSeconds: Number(row.total_seconds),
+      }));
+    } catch (error) {
+      logger.error("Failed to get player dimension playtime:", error);
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,9 @@
 import { Pool, PoolClient } from "pg";
 import { PlayerPlaytimeHourlyBaseQueries } from "@/generated/db/player_playtime_hourly.queries";
+import type {
+  PlaytimeBucket,
+  PlaytimeRangeFilters,
+} from "@/db/queries/player/playtime/daily";
 
 export type PlayerHourlyPattern = {
   hourOfDay: number;
@@ -103,4 +107,56 @@ export class PlayerPlaytimeHourlyQueries extends PlayerPlaytimeHourlyBaseQueries
       throw error;
     }
   }
+
+  /**
+   * Retrieves playtime for each hour of a time range
+   *
+   * Without filters the totals cover all players on all servers. Hours
+   * without playtime are included with zero seconds.
+   *
+   * @param filters - Optional player and server to restrict the totals to
+   * @param startTime - Start of the range (rounded down to the hour)
+   * @param endTime - End of the range (inclusive)
+   * @returns One bucket per hour, ordered chronologically
+   */
+  async getRangeTotals(
+    filters: PlaytimeRangeFilters,
+    startTime: Date,
+    endTime: Date
+  ): Promise<PlaytimeBucket[]> {
+    const query = `
+      SELECT
+        hour,
+        COUNT(DISTINCT h.player_minecraft_uuid) AS unique_players,
+        COALESCE(SUM(h.seconds_played), 0) AS total_seconds
+      FROM generate_series(
+        DATE_TRUNC('hour', $1::timestamptz),
+        $2::timestamptz,
+        INTERVAL '1 hour'
+      ) AS hour
+      LEFT JOIN ${this.table} h
+        ON h.play_hour = hour
+        AND ($3::uuid IS NULL OR h.player_minecraft_uuid = $3)
+        AND ($4::int IS NULL OR h.server_id = $4)
+      GROUP BY hour
+      ORDER BY hour ASC`;
+
+    try {
+      const result = await this.db.query(query, [
+        startTime,
+        endTime,
+        filters.playerUuid ?? null,
+        filters.serverId ?? null,
+      ]);
+
+      return result.rows.map((row) => ({
+        start: new Date(row.hour).toISOString(),
+        uniquePlayers: Number(row.unique_players),
+        totalSeconds: Number(row.total_seconds),
+      }));
+    } catch (error) {
+      logger.error("Failed to get hourly playtime range:", error);
+      throw error;
+    }
+  }
 }
@@ -1,5 +1,6 @@
 import { Pool, PoolClient } from "pg";
 import { PlayerPlaytimeDailyQueries } from "@/db/queries/player/playtime/daily";
+import { PlayerPlaytimeDimensionQueries } from "@/db/queries/player/playtime/dimension";
 import { PlayerPlaytimeHourlyQueries } from "@/db/queries/player/playtime/hourly";
 import { PlayerPlaytimeSummaryQueries } from "@/db/queries/player/playtime/summary";
 
@@ -93,6 +94,25 @@ export class PlayerPlaytimeQueries {
     return this._daily;
   }
 
+  /** Private backing field for lazy-loaded player_playtime_dimension queries */
+  private _dimension?: PlayerPlaytimeDimensionQueries;
+
+  /**
+   * Lazy-loaded singleton accessor for player_playtime_dimension
+   * 
+   * Returns a PlayerPlaytimeDimensionQueries instance that shares this namespace's
+   * database connection. The instance is created once on first access and
+   * cached for all subsequent calls.
+   * 
+   * @returns Singleton PlayerPlaytimeDimensionQueries instance
+   */
+  get dimension(): PlayerPlaytimeDimensionQueries {
+    if (!this._dimension) {
+      this._dimension = this.getOrCreateChild<PlayerPlaytimeDimensionQueries>('dimension', PlayerPlaytimeDimensionQueries);
+    }
+    return this._dimension;
+  }
+
   /** Private backing field for lazy-loaded player_playtime_hourly queries */
   private _hourly?: PlayerPlaytimeHourlyQueries;
 
@@ -1,5 +1,6 @@
 import { Pool, PoolClient } from "pg";
 import { PlayerPlaytimeSummaryBaseQueries } from "@/generated/db/player_playtime_summary.queries";
+import type { PlaytimeRangeFilters } from "@/db/queries/player/playtime/daily";
 
 export type LeaderboardEntry = {
   id: number;
@@ -19,6 +20,41 @@ export type ServerStats = {
   avgSessionSeconds: number;
 };
 
+/**
+ * A player's playtime on a single server
+ */
+export type PlayerServerPlaytime = {
+  serverId: number;
+  serverName: string;
+  totalSeconds: number;
+};
+
+/**
+ * A player's position when all players are ranked by playtime
+ */
+export type PlayerPlaytimeRank = {
+  rank: number;
+  totalPlayers: number;
+};
+
+/**
+ * Playtime aggregate tables maintained by update_playtime_aggregates
+ */
+export type PlaytimeAggregate = "daily" | "hourly" | "dimension" | "summary";
+
+/**
+ * Totals of one aggregate table for a player on a server
+ */
+export type PlaytimeAggregateTotals = {
+  aggregate: PlaytimeAggregate;
+  minecraftUuid: string;
+  minecraftUsername: string;
+  serverId: number;
+  /** Number of rows (number of sessions for the summary) */
+  count: number;
+  totalSeconds: number;
+};
+
 /**
  * Custom queries for player_playtime_summary table
  *
@@ -98,4 +134,182 @@ export class PlayerPlaytimeSummaryQueries extends PlayerPlaytimeSummaryBaseQueri
       throw error;
     }
   }
+
+  /**
+   * Retrieves a player's cumulative playtime across all servers, counting a
+   * just-ended session even if its aggregates have not been written yet
+   *
+   * Session end and summary updates happen in the same statement (via trigger),
+   * so a single query sees either both or neither. If the session is still
+   * open in the snapshot, its seconds are added on top of the summary total.
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @param sessionId - ID of the session that just ended
+   * @param secondsPlayed - Duration of that session in seconds
+   * @returns Total playtime in seconds
+   */
+  async getTotalSecondsAfterSession(
+    playerUuid: string,
+    sessionId: number,
+    secondsPlayed: number
+  ): Promise<number> {
+    const query = `
+      SELECT
+        COALESCE(
+          (SELECT SUM(total_seconds) FROM ${this.table} WHERE player_minecraft_uuid = $1),
+          0
+        ) + COALESCE(
+          (SELECT $3::bigint FROM player_session WHERE id = $2 AND session_end IS NULL),
+          0
+        ) AS total_seconds`;
+
+    try {
+      const result = await this.db.query(query, [
+        playerUuid,
+        sessionId,
+        secondsPlayed,
+      ]);
+
+      return Number(result.rows[0].total_seconds);
+    } catch (error) {
+      logger.error("Failed to get total playtime after session:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a player's all-time playtime on each server
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @returns Per-server totals, most played server first
+   */
+  async getPlayerTotalsByServer(
+    playerUuid: string
+  ): Promise<PlayerServerPlaytime[]> {
+    const query = `
+      SELECT
+        s.server_id,
+        srv.name AS server_name,
+        s.total_seconds
+      FROM ${this.table} s
+      JOIN server srv ON srv.id = s.server_id
+      WHERE s.player_minecraft_uuid = $1
+      ORDER BY s.total_seconds DESC`;
+
+    try {
+      const result = await this.db.query(query, [playerUuid]);
+
+      return result.rows.map((row) => ({
+        serverId: row.server_id,
+        serverName: row.server_name,
+        totalSeconds: Number(row.total_seconds),
+      }));
+    } catch (error) {
+      logger.error("Failed to get player playtime by server:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ranks a player by all-time playtime summed across servers
+   *
+   * Players with equal playtime share a rank.
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @returns The player's rank, or null if they have no playtime
+   */
+  async getPlayerRank(playerUuid: string): Promise<PlayerPlaytimeRank | null> {
+    const query = `
+      WITH totals AS (
+        SELECT player_minecraft_uuid, SUM(total_seconds) AS total_seconds
+        FROM ${this.table}
+        GROUP BY player_minecraft_uuid
+        HAVING SUM(total_seconds) > 0
+      ),
+      ranked AS (
+        SELECT
+          player_minecraft_uuid,
+          RANK() OVER (ORDER BY total_seconds DESC) AS rank,
+          COUNT(*) OVER () AS total_players
+        FROM totals
+      )
+      SELECT rank, total_players
+      FROM ranked
+      WHERE player_minecraft_uuid = $1`;
+
+    try {
+      const result = await this.db.query(query, [playerUuid]);
+      const row = result.rows[0];
+
+      return row
+        ? { rank: Number(row.rank), totalPlayers: Number(row.total_players) }
+        : null;
+    } catch (error) {
+      logger.error("Failed to get player playtime rank:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the totals of every playtime aggregate table per player and
+   * server
+   *
+   * Used to compare the aggregates before and after a rebuild.
+   *
+   * @param filters - Optional player and server to restrict the totals to
+   * @returns One entry per aggregate table, player and server
+   */
+  async getAggregateTotals(
+    filters: PlaytimeRangeFilters
+  ): Promise<PlaytimeAggregateTotals[]> {
+    const scope = `($1::uuid IS NULL OR player_minecraft_uuid = $1)
+          AND ($2::int IS NULL OR server_id = $2)`;
+
+    const query = `
+      SELECT t.*, p.minecraft_username
+      FROM (
+        SELECT 'daily' AS aggregate, player_minecraft_uuid, server_id,
+          COUNT(*) AS count, SUM(seconds_played) AS total_seconds
+        FROM player_playtime_daily
+        WHERE ${scope}
+        GROUP BY player_minecraft_uuid, server_id
+        UNION ALL
+        SELECT 'hourly', player_minecraft_uuid, server_id,
+          COUNT(*), SUM(seconds_played)
+        FROM player_playtime_hourly
+        WHERE ${scope}
+        GROUP BY player_minecraft_uuid, server_id
+        UNION ALL
+        SELECT 'dimension', player_minecraft_uuid, server_id,
+          COUNT(*), SUM(seconds_played)
+        FROM player_playtime_dimension_daily
+        WHERE ${scope}
+        GROUP BY player_minecraft_uuid, server_id
+        UNION ALL
+        SELECT 'summary', player_minecraft_uuid, server_id,
+          total_sessions, total_seconds
+        FROM ${this.table}
+        WHERE ${scope}
+      ) t
+      JOIN player p ON p.minecraft_uuid = t.player_minecraft_uuid`;
+
+    try {
+      const result = await this.db.query(query, [
+        filters.playerUuid ?? null,
+        filters.serverId ?? null,
+      ]);
+
+      return result.rows.map((row) => ({
+        aggregate: row.aggregate,
+        minecraftUuid: row.player_minecraft_uuid,
+        minecraftUsername: row.minecraft_username,
+        serverId: row.server_id,
+        count: Number(row.count),
+        totalSeconds: Number(row.total_seconds),
+      }));
+    } catch (error) {
+      logger.error("Failed to get playtime aggregate totals:", error);
+      throw error;
+    }
+  }
 }
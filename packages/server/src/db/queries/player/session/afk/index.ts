@@ -0,0 +1,15 @@
+import { Pool, PoolClient } from "pg";
+import { PlayerSessionAfkBaseQueries } from "@/generated/db/player_session_afk.queries";
+
+/**
+ * Custom queries for player_session_afk table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class PlayerSessionAfkQueries extends PlayerSessionAfkBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+}
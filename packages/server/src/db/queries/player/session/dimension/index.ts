@@ -0,0 +1,15 @@
+import { Pool, PoolClient } from "pg";
+import { PlayerSessionDimensionBaseQueries } from "@/generated/db/player_session_dimension.queries";
+
+/**
+ * Custom queries for player_session_dimension table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class PlayerSessionDimensionQueries extends PlayerSessionDimensionBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+}
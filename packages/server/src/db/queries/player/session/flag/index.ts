@@ -0,0 +1,235 @@
+import { Pool, PoolClient } from "pg";
+import { PlayerSessionFlagBaseQueries } from "@/generated/db/player_session_flag.queries";
+
+/**
+ * Why a session was flagged
+ *
+ * - long: the session is longer than the configured threshold
+ * - overlap: the player started a session on another server while this
+ *   one was still running
+ */
+export type SessionFlagReason = "long" | "overlap";
+
+/**
+ * How an admin resolved a flagged session
+ */
+export type SessionFlagResolution = "truncated" | "deleted" | "dismissed";
+
+/**
+ * A flagged session with its player and the points in time an admin may
+ * want to end it at
+ */
+export interface FlaggedSession {
+  flagId: number;
+  reason: SessionFlagReason;
+  sessionId: number;
+  minecraftUuid: string;
+  minecraftUsername: string;
+  serverId: number;
+  sessionStart: Date;
+  /** Null while the session is still open */
+  sessionEnd: Date | null;
+  relatedSessionId: number | null;
+  relatedServerId: number | null;
+  relatedSessionStart: Date | null;
+  /** Start of the last AFK interval of the session */
+  lastAfkStart: Date | null;
+  /** Start of the player's next session on any server */
+  nextSessionStart: Date | null;
+  resolvedAt: Date | null;
+  resolution: SessionFlagResolution | null;
+  /** Admin channel message the flag was posted in, null until posted */
+  discordMessageId: string | null;
+}
+
+/**
+ * Custom queries for player_session_flag table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class PlayerSessionFlagQueries extends PlayerSessionFlagBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  /**
+   * Flags sessions longer than a threshold
+   *
+   * Open sessions are measured up to now. Sessions that were flagged
+   * before (resolved or not) are skipped.
+   *
+   * @param minSeconds - Minimum session length in seconds
+   * @param since - Only sessions ended at or after this time, or still open
+   * @returns IDs of the new flags
+   */
+  async flagLongSessions(minSeconds: number, since: Date): Promise<number[]> {
+    const query = `
+    INSERT INTO ${this.table} (session_id, reason)
+    SELECT id, 'long'
+    FROM player_session
+    WHERE COALESCE(session_end, NOW()) >= $2
+      AND COALESCE(session_end, NOW()) - session_start >= make_interval(secs => $1)
+    ON CONFLICT (session_id, reason) DO NOTHING
+    RETURNING id`;
+
+    try {
+      const result = await this.db.query(query, [minSeconds, since]);
+      return result.rows.map((row) => row.id);
+    } catch (error) {
+      logger.error("Failed to flag long sessions:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Flags sessions that were still running when the same player started a
+   * session on another server
+   *
+   * The earlier session is flagged, since a player can only be on one
+   * server at a time. When several sessions overlap it, the first one is
+   * recorded as related. Sessions that were flagged before are skipped.
+   *
+   * @param since - Only sessions ended at or after this time, or still open
+   * @returns IDs of the new flags
+   */
+  async flagOverlappingSessions(since: Date): Promise<number[]> {
+    const query = `
+    INSERT INTO ${this.table} (session_id, reason, related_session_id)
+    SELECT DISTINCT ON (a.id) a.id, 'overlap', b.id
+    FROM player_session a
+    JOIN player_session b
+      ON b.player_minecraft_uuid = a.player_minecraft_uuid
+      AND b.server_id <> a.server_id
+      AND (b.session_start, b.id) > (a.session_start, a.id)
+      AND b.session_start < COALESCE(a.session_end, NOW())
+    WHERE COALESCE(a.session_end, NOW()) >= $1
+    ORDER BY a.id, b.session_start, b.id
+    ON CONFLICT (session_id, reason) DO NOTHING
+    RETURNING id`;
+
+    try {
+      const result = await this.db.query(query, [since]);
+      return result.rows.map((row) => row.id);
+    } catch (error) {
+      logger.error("Failed to flag overlapping sessions:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets flags with their session, player and candidate end times
+   *
+   * @param flagIds - Flag IDs
+   * @returns Flags ordered by ID (flags of deleted sessions are gone)
+   */
+  async getFlaggedSessions(flagIds: number[]): Promise<FlaggedSession[]> {
+    const query = `
+    SELECT
+      f.id AS flag_id,
+      f.reason,
+      s.id AS session_id,
+      s.player_minecraft_uuid AS minecraft_uuid,
+      p.minecraft_username,
+      s.server_id,
+      s.session_start,
+      s.session_end,
+      f.related_session_id,
+      r.server_id AS related_server_id,
+      r.session_start AS related_session_start,
+      (
+        SELECT MAX(afk.afk_start)
+        FROM player_session_afk afk
+        WHERE afk.session_id = s.id
+      ) AS last_afk_start,
+      (
+        SELECT MIN(n.session_start)
+        FROM player_session n
+        WHERE n.player_minecraft_uuid = s.player_minecraft_uuid
+          AND n.id <> s.id
+          AND n.session_start > s.session_start
+      ) AS next_session_start,
+      f.resolved_at,
+      f.resolution,
+      f.discord_message_id
+    FROM ${this.table} f
+    JOIN player_session s ON s.id = f.session_id
+    JOIN player p ON p.minecraft_uuid = s.player_minecraft_uuid
+    LEFT JOIN player_session r ON r.id = f.related_session_id
+    WHERE f.id = ANY($1::int[])
+    ORDER BY f.id`;
+
+    try {
+      const result = await this.db.query(query, [flagIds]);
+      return this.mapRowsToEntities<any, FlaggedSession>(result.rows);
+    } catch (error) {
+      logger.error("Failed to get flagged sessions:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the open flags that were never posted to the admin channel
+   *
+   * @returns Flags ordered by ID
+   */
+  async getUnpostedFlags(): Promise<FlaggedSession[]> {
+    const query = `
+    SELECT id
+    FROM ${this.table}
+    WHERE discord_message_id IS NULL AND resolved_at IS NULL
+    ORDER BY id`;
+
+    try {
+      const result = await this.db.query(query);
+
+      if (result.rows.length === 0) {
+        return [];
+      }
+
+      return this.getFlaggedSessions(result.rows.map((row) => row.id));
+    } catch (error) {
+      logger.error("Failed to get unposted session flags:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks a flag as resolved, unless it already is
+   *
+   * Truncating or deleting edits the session itself, so the other open
+   * flags of the session are resolved with it. Dismissing only resolves
+   * the given flag.
+   *
+   * @param flagId - Flag ID
+   * @param discordId - Discord ID of the admin resolving the flag
+   * @param resolution - How the flag was resolved
+   * @returns Whether the flag was resolved by this call
+   */
+  async resolve(
+    flagId: number,
+    discordId: string,
+    resolution: SessionFlagResolution,
+  ): Promise<boolean> {
+    const query = `
+    UPDATE ${this.table}
+    SET resolved_at = NOW(), resolved_by_discord_id = $2, resolution = $3
+    WHERE resolved_at IS NULL
+      AND (
+        id = $1
+        OR ($3 <> 'dismissed' AND session_id = (SELECT session_id FROM ${this.table} WHERE id = $1))
+      )
+    RETURNING id`;
+
+    try {
+      const result = await this.db.query(query, [
+        flagId,
+        discordId,
+        resolution,
+      ]);
+      return result.rows.some((row) => row.id === flagId);
+    } catch (error) {
+      logger.error(`Failed to resolve session flag ${flagId}:`, error);
+      throw error;
+    }
+  }
+}
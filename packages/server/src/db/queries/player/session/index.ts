@@ -1,5 +1,37 @@
 import { Pool, PoolClient } from "pg";
 import { PlayerSessionBaseQueries } from "@/generated/db/player_session.queries";
+import type { PlayerSession } from "@/generated/db";
+import type { PlaytimeRangeFilters } from "@/db/queries/player/playtime/daily";
+
+/**
+ * Aggregates over a player's finished sessions
+ */
+export type PlayerSessionStats = {
+  totalSessions: number;
+  avgSessionSeconds: number;
+  longestSessionSeconds: number;
+};
+
+/**
+ * Session joined with the name of its server
+ */
+export type PlayerSessionWithServer = PlayerSession & {
+  serverName: string;
+};
+
+/**
+ * Filters and pagination for session listings
+ */
+export interface PlayerSessionListOptions {
+  playerUuid: string;
+  serverId?: number;
+  /** Only sessions started at or after this time */
+  from?: Date;
+  /** Only sessions started at or before this time */
+  to?: Date;
+  limit: number;
+  offset: number;
+}
 
 /**
  * Custom queries for player_session table
@@ -13,7 +45,261 @@ export class PlayerSessionQueries extends PlayerSessionBaseQueries {
 
   // Custom methods can be implemented here
 
+  /**
+   * Calculates session count, average and longest session of a player
+   *
+   * Only finished sessions are counted, across all servers.
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @param since - Only count sessions started at or after this time
+   *   (default: all sessions)
+   * @returns Session aggregates (zero when the player has no sessions)
+   */
+  async getPlayerSessionStats(
+    playerUuid: string,
+    since: Date | null = null,
+  ): Promise<PlayerSessionStats> {
+    const query = `
+    SELECT
+      COUNT(*) AS total_sessions,
+      COALESCE(AVG(seconds_played), 0) AS avg_session_seconds,
+      COALESCE(MAX(seconds_played), 0) AS longest_session_seconds
+    FROM ${this.table}
+    WHERE player_minecraft_uuid = $1
+      AND session_end IS NOT NULL
+      AND ($2::timestamptz IS NULL OR session_start >= $2)`;
+
+    try {
+      const result = await this.db.query(query, [playerUuid, since]);
+      const row = result.rows[0];
+
+      return {
+        totalSessions: Number(row.total_sessions),
+        avgSessionSeconds: Math.round(Number(row.avg_session_seconds)),
+        longestSessionSeconds: Number(row.longest_session_seconds),
+      };
+    } catch (error) {
+      logger.error("Failed to get player session stats:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a player's sessions with server names, newest first
+   *
+   * Active sessions are included with a null end.
+   *
+   * @param options - Player, filters and pagination
+   * @returns Matching page of sessions and the total match count
+   */
+  async listForPlayer(
+    options: PlayerSessionListOptions,
+  ): Promise<{ sessions: PlayerSessionWithServer[]; total: number }> {
+    const params: any[] = [options.playerUuid];
+    const conditions: string[] = ["s.player_minecraft_uuid = $1"];
+
+    if (options.serverId !== undefined) {
+      params.push(options.serverId);
+      conditions.push(`s.server_id = $${params.length}`);
+    }
+
+    if (options.from) {
+      params.push(options.from);
+      conditions.push(`s.session_start >= $${params.length}`);
+    }
+
+    if (options.to) {
+      params.push(options.to);
+      conditions.push(`s.session_start <= $${params.length}`);
+    }
+
+    const where = `WHERE ${conditions.join(" AND ")}`;
+
+    const query = `
+    SELECT s.*, srv.name AS server_name
+    FROM ${this.table} s
+    JOIN server srv ON srv.id = s.server_id
+    ${where}
+    ORDER BY s.session_start DESC, s.id DESC
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
+
+    const countQuery = `
+    SELECT COUNT(*) AS total
+    FROM ${this.table} s
+    ${where}`;
+
+    try {
+      const [result, countResult] = await Promise.all([
+        this.db.query(query, [...params, options.limit, options.offset]),
+        this.db.query(countQuery, params),
+      ]);
+
+      return {
+        sessions: this.mapRowsToEntities<any, PlayerSessionWithServer>(
+          result.rows,
+        ),
+        total: parseInt(countResult.rows[0].total),
+      };
+    } catch (error) {
+      logger.error(`Failed to list sessions of ${options.playerUuid}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get active session for a specific player
    */
+
+  /**
+   * Lists the open sessions of a server with the player's username
+   *
+   * @param serverId - Server ID
+   * @returns Sessions without an end, oldest first
+   */
+  async findOpenWithPlayers(
+    serverId: number,
+  ): Promise<Array<PlayerSession & { minecraftUsername: string }>> {
+    const query = `
+    SELECT s.*, p.minecraft_username
+    FROM ${this.table} s
+    JOIN player p ON p.minecraft_uuid = s.player_minecraft_uuid
+    WHERE s.server_id = $1 AND s.session_end IS NULL
+    ORDER BY s.session_start, s.id`;
+
+    try {
+      const result = await this.db.query(query, [serverId]);
+
+      return this.mapRowsToEntities<
+        any,
+        PlayerSession & { minecraftUsername: string }
+      >(result.rows);
+    } catch (error) {
+      logger.error(
+        `Failed to find open sessions of server ${serverId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Locks a session until the surrounding transaction ends
+   *
+   * Keeps the session from being ended, edited or deleted concurrently.
+   *
+   * @param sessionId - Session ID
+   * @returns The end of the session (null while open), or undefined if the
+   *   session does not exist
+   */
+  async lockSession(sessionId: number): Promise<Date | null | undefined> {
+    const query = `SELECT session_end FROM ${this.table} WHERE id = $1 FOR UPDATE`;
+
+    try {
+      const result = await this.db.query(query, [sessionId]);
+      return result.rows[0] ? result.rows[0].session_end : undefined;
+    } catch (error) {
+      logger.error(`Failed to lock session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ends a session, unless it has already ended
+   *
+   * @param sessionId - Session ID
+   * @param sessionEnd - End of the session
+   * @param afkSeconds - AFK time within the session
+   * @returns Whether the session was still open
+   */
+  async endOpenSession(
+    sessionId: number,
+    sessionEnd: Date,
+    afkSeconds: number,
+  ): Promise<boolean> {
+    const query = `
+    UPDATE ${this.table}
+    SET session_end = $2, afk_seconds = $3
+    WHERE id = $1 AND session_end IS NULL`;
+
+    try {
+      const result = await this.db.query(query, [
+        sessionId,
+        sessionEnd,
+        afkSeconds,
+      ]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.error(`Failed to end session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ends a session at an earlier point in time
+   *
+   * AFK and dimension intervals are clipped to the new end and the AFK
+   * seconds recalculated. The aggregate trigger only counts a session when
+   * it ends, so rebuild the aggregates of the player and server in the same
+   * transaction.
+   *
+   * @param sessionId - Session ID
+   * @param sessionEnd - New end of the session
+   */
+  async endSessionAt(sessionId: number, sessionEnd: Date): Promise<void> {
+    try {
+      await this.db.query(
+        `DELETE FROM player_session_afk WHERE session_id = $1 AND afk_start >= $2`,
+        [sessionId, sessionEnd],
+      );
+      await this.db.query(
+        `UPDATE player_session_afk SET afk_end = $2 WHERE session_id = $1 AND afk_end > $2`,
+        [sessionId, sessionEnd],
+      );
+      await this.db.query(
+        `DELETE FROM player_session_dimension WHERE session_id = $1 AND dimension_start >= $2`,
+        [sessionId, sessionEnd],
+      );
+      await this.db.query(
+        `UPDATE player_session_dimension SET dimension_end = $2 WHERE session_id = $1 AND dimension_end > $2`,
+        [sessionId, sessionEnd],
+      );
+      await this.db.query(
+        `UPDATE ${this.table}
+        SET session_end = $2, afk_seconds = session_afk_seconds(id, session_start, $2)
+        WHERE id = $1`,
+        [sessionId, sessionEnd],
+      );
+    } catch (error) {
+      logger.error(`Failed to truncate session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recomputes the playtime aggregates from the stored sessions
+   *
+   * Deletes the aggregate rows in scope and replays every ended session
+   * through the aggregate trigger. Session writes are blocked until the
+   * surrounding transaction ends, so call this inside one.
+   *
+   * @param filters - Optional player and server to restrict the rebuild to
+   * @returns Number of sessions replayed
+   */
+  async rebuildPlaytimeAggregates(
+    filters: PlaytimeRangeFilters,
+  ): Promise<number> {
+    const query = `SELECT rebuild_playtime_aggregates($1, $2) AS sessions`;
+
+    try {
+      const result = await this.db.query(query, [
+        filters.playerUuid ?? null,
+        filters.serverId ?? null,
+      ]);
+
+      return Number(result.rows[0].sessions);
+    } catch (error) {
+      logger.error("Failed to rebuild playtime aggregates:", error);
+      throw error;
+    }
+  }
 }
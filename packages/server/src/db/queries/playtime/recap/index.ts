@@ -0,0 +1,59 @@
+import { Pool, PoolClient } from "pg";
+import { PlaytimeRecapBaseQueries } from "@/generated/db/playtime_recap.queries";
+import type { PlaytimeRecap, PlaytimeRecapCreate } from "@/generated/db";
+
+/**
+ * Custom queries for playtime_recap table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class PlaytimeRecapQueries extends PlaytimeRecapBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Records a recap unless its period was recorded before
+   *
+   * Entries and prizes are stored as JSON arrays.
+   *
+   * @param data - Recap to record
+   * @returns The recorded recap, or null if the period already has one
+   */
+  async createIfAbsent(
+    data: PlaytimeRecapCreate,
+  ): Promise<PlaytimeRecap | null> {
+    const query = `
+    INSERT INTO ${this.table} (
+      kind,
+      period_start,
+      period_end,
+      total_seconds,
+      previous_total_seconds,
+      entries,
+      prizes
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (period_start, kind) DO NOTHING
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [
+        data.kind,
+        data.periodStart,
+        data.periodEnd,
+        data.totalSeconds ?? 0n,
+        data.previousTotalSeconds ?? 0n,
+        JSON.stringify(data.entries ?? []),
+        JSON.stringify(data.prizes ?? []),
+      ]);
+
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to record ${data.kind} playtime recap:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { Pool, PoolClient } from "pg";
+import { ServerOnlineHourlyBaseQueries } from "@/generated/db/server_online_hourly.queries";
+import type { PlaytimeGranularity } from "@/db/repositories/playtime";
+
+/**
+ * Online players within one hour or day of a time range
+ */
+export type ServerConcurrencyBucket = {
+  /** YYYY-MM-DD (day) or ISO 8601 timestamp (hour) */
+  start: string;
+  /** Average of the samples, null if nothing was sampled */
+  avgPlayers: number | null;
+  peakPlayers: number;
+  peakAt: Date | null;
+};
+
+/**
+ * Highest number of players online at once
+ */
+export type ServerConcurrencyPeak = {
+  peakPlayers: number;
+  peakAt: Date;
+};
+
+/**
+ * Custom queries for server_online_hourly table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class ServerOnlineHourlyQueries extends ServerOnlineHourlyBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  /**
+   * Retrieves online player counts for each hour or day of a time range
+   *
+   * Hours and days without samples are included with a null average.
+   *
+   * @param serverId - The ID of the server
+   * @param startTime - Start of the range (rounded down to the bucket)
+   * @param endTime - End of the range (inclusive)
+   * @param granularity - Bucket size
+   * @returns One bucket per hour or day, ordered chronologically
+   */
+  async getRange(
+    serverId: number,
+    startTime: Date,
+    endTime: Date,
+    granularity: PlaytimeGranularity
+  ): Promise<ServerConcurrencyBucket[]> {
+    const query = `
+      SELECT
+        bucket,
+        to_char(bucket, 'YYYY-MM-DD') AS day,
+        SUM(h.player_count_sum) AS player_count_sum,
+        SUM(h.sample_count) AS sample_count,
+        COALESCE(MAX(h.peak_players), 0) AS peak_players,
+        (ARRAY_AGG(h.peak_at ORDER BY h.peak_players DESC, h.peak_at ASC)
+          FILTER (WHERE h.peak_at IS NOT NULL))[1] AS peak_at
+      FROM generate_series(
+        DATE_TRUNC($4::text, $1::timestamptz),
+        $2::timestamptz,
+        ('1 ' || $4::text)::interval
+      ) AS bucket
+      LEFT JOIN ${this.table} h
+        ON h.server_id = $3
+        AND h.sample_hour >= bucket
+        AND h.sample_hour < bucket + ('1 ' || $4::text)::interval
+      GROUP BY bucket
+      ORDER BY bucket ASC`;
+
+    try {
+      const result = await this.db.query(query, [
+        startTime,
+        endTime,
+        serverId,
+        granularity,
+      ]);
+
+      return result.rows.map((row) => {
+        const sampleCount = Number(row.sample_count ?? 0);
+
+        return {
+          start:
+            granularity === "day"
+              ? row.day
+              : new Date(row.bucket).toISOString(),
+          avgPlayers:
+            sampleCount > 0
+              ? Math.round((Number(row.player_count_sum) / sampleCount) * 10) /
+                10
+              : null,
+          peakPlayers: Number(row.peak_players),
+          peakAt: row.peak_at ? new Date(row.peak_at) : null,
+        };
+      });
+    } catch (error) {
+      logger.error("Failed to get server online player range:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the highest number of players online at once
+   *
+   * @param serverId - The ID of the server
+   * @param startTime - Start of the range (inclusive, null for all time)
+   * @param endTime - End of the range (exclusive, null for open-ended)
+   * @returns The earliest peak of the range, or null without samples
+   */
+  async getPeak(
+    serverId: number,
+    startTime: Date | null = null,
+    endTime: Date | null = null
+  ): Promise<ServerConcurrencyPeak | null> {
+    const query = `
+      SELECT peak_players, peak_at
+      FROM ${this.table}
+      WHERE server_id = $1
+        AND ($2::timestamptz IS NULL OR sample_hour >= DATE_TRUNC('hour', $2::timestamptz))
+        AND ($3::timestamptz IS NULL OR sample_hour < $3::timestamptz)
+      ORDER BY peak_players DESC, peak_at ASC
+      LIMIT 1`;
+
+    try {
+      const result = await this.db.query(query, [
+        serverId,
+        startTime,
+        endTime,
+      ]);
+
+      const row = result.rows[0];
+      return row
+        ? { peakPlayers: Number(row.peak_players), peakAt: new Date(row.peak_at) }
+        : null;
+    } catch (error) {
+      logger.error("Failed to get server online peak:", error);
+      throw error;
+    }
+  }
+}
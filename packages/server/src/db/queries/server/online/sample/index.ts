@@ -0,0 +1,60 @@
+import { Pool, PoolClient } from "pg";
+import { ServerOnlineSampleBaseQueries } from "@/generated/db/server_online_sample.queries";
+
+/**
+ * Custom queries for server_online_sample table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class ServerOnlineSampleQueries extends ServerOnlineSampleBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  /**
+   * Records the number of players online on a server
+   *
+   * The hourly rollup (server_online_hourly) is updated by trigger.
+   *
+   * @param serverId - The ID of the server
+   * @param playerCount - Number of players online
+   * @param sampledAt - Time of the sample (default: now)
+   */
+  async record(
+    serverId: number,
+    playerCount: number,
+    sampledAt: Date = new Date()
+  ): Promise<void> {
+    const query = `
+      INSERT INTO ${this.table} (server_id, player_count, sampled_at)
+      VALUES ($1, $2, $3)`;
+
+    try {
+      await this.db.query(query, [serverId, playerCount, sampledAt]);
+    } catch (error) {
+      logger.error("Failed to record online player sample:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes raw samples older than a cutoff
+   *
+   * Older history stays available at hourly resolution in
+   * server_online_hourly.
+   *
+   * @param cutoff - Samples taken before this time are deleted
+   * @returns Number of deleted samples
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const query = `DELETE FROM ${this.table} WHERE sampled_at < $1`;
+
+    try {
+      const result = await this.db.query(query, [cutoff]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error("Failed to delete old online player samples:", error);
+      throw error;
+    }
+  }
+}
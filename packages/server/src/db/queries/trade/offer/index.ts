@@ -0,0 +1,70 @@
+import { Pool, PoolClient } from "pg";
+import { TradeOfferBaseQueries } from "@/generated/db/trade_offer.queries";
+import type { TradeOffer } from "@/generated/db";
+
+/**
+ * Custom queries for trade_offer table
+ *
+ * Extends the auto-generated base class with custom methods
+ */
+export class TradeOfferQueries extends TradeOfferBaseQueries {
+  constructor(db: Pool | PoolClient) {
+    super(db);
+  }
+
+  // Custom methods can be implemented here
+
+  /**
+   * Moves a pending offer into a final status
+   *
+   * The update only applies while the offer is still pending, so two
+   * concurrent resolutions (e.g. accept racing the expiry sweep) can never
+   * both succeed. Accepting additionally requires the offer to be unexpired.
+   *
+   * @param id - Trade offer ID
+   * @param status - Final status to set
+   * @returns The resolved offer, or null if it was no longer pending
+   */
+  async resolvePending(
+    id: number,
+    status: "accepted" | "declined" | "cancelled" | "expired",
+  ): Promise<TradeOffer | null> {
+    const query = `
+    UPDATE ${this.table}
+    SET status = $2, resolved_at = NOW()
+    WHERE id = $1
+      AND status = 'pending'
+      ${status === "accepted" ? "AND expires_at > NOW()" : ""}
+    RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, [id, status]);
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Failed to resolve trade offer ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds pending offers whose expiry time has passed
+   *
+   * @returns Promise resolving to an array of expired pending offers
+   */
+  async findExpiredPending(): Promise<TradeOffer[]> {
+    const query = `
+    SELECT *
+    FROM ${this.table}
+    WHERE status = 'pending'
+      AND expires_at <= NOW()
+    ORDER BY expires_at ASC`;
+
+    try {
+      const result = await this.db.query(query);
+      return this.mapRowsToEntities<any, TradeOffer>(result.rows);
+    } catch (error) {
+      logger.error("Failed to fetch expired trade offers:", error);
+      throw error;
+    }
+  }
+}
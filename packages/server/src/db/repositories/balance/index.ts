@@ -1,12 +1,23 @@
+import config from "@/config";
 import { db } from "@/db";
 import {
   DatabaseTable,
+  EconomyTreasuryTransaction,
   Player,
   PlayerBalance,
   PlayerBalanceTransaction,
 } from "@/generated/db";
+import type { PlayerBalanceTransactionWithCounterparty } from "@/db/queries/player/balance/transaction";
+import { AdminEdit } from "@/types";
+import {
+  buildReversalPlan,
+  type ReversalSide,
+  type TransactionReversalPlan,
+} from "./reversal";
 import { BalanceUtils } from "./utils";
 
+export type { TransactionReversalPlan } from "./reversal";
+
 export type PlayerIdentifier =
   | { minecraftUuid: string }
   | { minecraftUsername: string }
@@ -23,9 +34,101 @@ export enum BalanceTransactionType {
   SALE = "sale",
   REWARD = "reward",
   REFUND = "refund",
+  DEPOSIT = "deposit",
+  WITHDRAWAL = "withdrawal",
+  TRADE_ESCROW = "trade_escrow",
+  BOUNTY_ESCROW = "bounty_escrow",
+  TRANSFER_FEE = "transfer_fee",
+  TREASURY_PAYOUT = "treasury_payout",
+  COMPANY_DEPOSIT = "company_deposit",
+  COMPANY_WITHDRAWAL = "company_withdrawal",
+  COMPANY_PAYROLL = "company_payroll",
+  EXCHANGE_BUY = "exchange_buy",
+  EXCHANGE_SELL = "exchange_sell",
+  RECONCILIATION = "reconciliation",
   OTHER = "other",
 }
 
+/**
+ * Named groups of transaction types used to filter history views
+ */
+export const TRANSACTION_TYPE_GROUPS = {
+  all: [] as BalanceTransactionType[],
+  transfers: [
+    BalanceTransactionType.TRANSFER_SEND,
+    BalanceTransactionType.TRANSFER_RECEIVE,
+    BalanceTransactionType.TRANSFER_FEE,
+  ],
+  trades: [BalanceTransactionType.TRADE_ESCROW],
+  market: [
+    BalanceTransactionType.PURCHASE,
+    BalanceTransactionType.SALE,
+    BalanceTransactionType.BOUNTY_ESCROW,
+  ],
+  companies: [
+    BalanceTransactionType.COMPANY_DEPOSIT,
+    BalanceTransactionType.COMPANY_WITHDRAWAL,
+    BalanceTransactionType.COMPANY_PAYROLL,
+  ],
+  exchange: [
+    BalanceTransactionType.EXCHANGE_BUY,
+    BalanceTransactionType.EXCHANGE_SELL,
+  ],
+  rewards: [
+    BalanceTransactionType.REWARD,
+    BalanceTransactionType.TREASURY_PAYOUT,
+  ],
+  admin: [
+    BalanceTransactionType.ADMIN_GRANT,
+    BalanceTransactionType.ADMIN_DEDUCT,
+    BalanceTransactionType.REFUND,
+    BalanceTransactionType.RECONCILIATION,
+  ],
+} satisfies Record<string, BalanceTransactionType[]>;
+
+export type TransactionTypeGroup = keyof typeof TRANSACTION_TYPE_GROUPS;
+
+/**
+ * Transaction types that cannot be reversed by an admin
+ *
+ * Refunds are reversals themselves and escrow entries are settled by the
+ * trade and item request lifecycles. Fees, payouts, company movements and
+ * exchange orders have a treasury, company or holding entry on the other
+ * side, which a player-side refund would not touch. Reconciliation entries
+ * only record a change that already happened outside the ledger. Reversing
+ * any of these would unbalance the ledger.
+ */
+const NON_REVERSIBLE_TYPES: string[] = [
+  BalanceTransactionType.REFUND,
+  BalanceTransactionType.TRADE_ESCROW,
+  BalanceTransactionType.BOUNTY_ESCROW,
+  BalanceTransactionType.TRANSFER_FEE,
+  BalanceTransactionType.TREASURY_PAYOUT,
+  BalanceTransactionType.COMPANY_DEPOSIT,
+  BalanceTransactionType.COMPANY_WITHDRAWAL,
+  BalanceTransactionType.COMPANY_PAYROLL,
+  BalanceTransactionType.EXCHANGE_BUY,
+  BalanceTransactionType.EXCHANGE_SELL,
+  BalanceTransactionType.RECONCILIATION,
+];
+
+/**
+ * PostgreSQL error code of a unique constraint violation
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Transaction types written in pairs, mapped to the type of the other side
+ */
+const COUNTERPART_TYPES: Record<string, BalanceTransactionType> = {
+  [BalanceTransactionType.TRANSFER_SEND]:
+    BalanceTransactionType.TRANSFER_RECEIVE,
+  [BalanceTransactionType.TRANSFER_RECEIVE]:
+    BalanceTransactionType.TRANSFER_SEND,
+  [BalanceTransactionType.PURCHASE]: BalanceTransactionType.SALE,
+  [BalanceTransactionType.SALE]: BalanceTransactionType.PURCHASE,
+};
+
 /**
  * Repository for player balance management
  * Uses 3 decimal precision (e.g., 1.500, 0.200)
@@ -53,17 +156,47 @@ export class BalanceRepository {
     return player.minecraftUuid;
   }
 
-  private async logTransaction(data: {
-    playerMinecraftUuid: string;
-    amount: bigint;
-    balanceBefore: bigint;
-    balanceAfter: bigint;
-    transactionType: string;
-    description?: string;
-    relatedPlayerUuid?: string;
-    metadata?: Record<string, any>;
-  }): Promise<void> {
-    await db.player.balance.transaction.create({
+  /**
+   * Reads balances and locks their rows until the surrounding transaction
+   * ends
+   *
+   * Rows are locked in UUID order so concurrent transactions touching the
+   * same accounts cannot deadlock.
+   * @private
+   */
+  private async lockBalances(
+    tx: typeof db,
+    ...uuids: string[]
+  ): Promise<PlayerBalance[]> {
+    const locked = new Map<string, PlayerBalance>();
+
+    for (const uuid of [...new Set(uuids)].sort()) {
+      const balance = await tx.player.balance.lockForUpdate(uuid);
+
+      if (!balance) {
+        throw new Error(`No balance account for ${uuid}`);
+      }
+
+      locked.set(uuid, balance);
+    }
+
+    return uuids.map((uuid) => locked.get(uuid)!);
+  }
+
+  private async logTransaction(
+    data: {
+      playerMinecraftUuid: string;
+      amount: bigint;
+      balanceBefore: bigint;
+      balanceAfter: bigint;
+      transactionType: string;
+      description?: string;
+      relatedPlayerUuid?: string;
+      metadata?: Record<string, any>;
+    },
+    queries: typeof db = db,
+  ): Promise<void> {
+    await queries.player.balance.transaction.create({
       playerMinecraftUuid: data.playerMinecraftUuid,
       amount: data.amount,
       balanceBefore: data.balanceBefore,
@@ -210,6 +343,7 @@ export class BalanceRepository {
    * @param reason - Transaction reason
    * @param type - Type of transaction
    * @param metadata - Additional context
+   * @param tx - Transaction client to run in (optional)
    * @returns Promise resolving to the new balance
    *
    * @example
@@ -221,6 +355,7 @@ export class BalanceRepository {
     reason: string,
     type: BalanceTransactionType,
     metadata?: Record<string, any>,
+    tx?: typeof db,
   ): Promise<number> {
     if (amount <= 0) {
       throw new Error("Amount must be positive");
@@ -230,8 +365,8 @@ export class BalanceRepository {
     const uuid = await this.resolvePlayerUuid(identifier);
     const amountBigInt = BalanceUtils.toStorage(amount);
 
-    return await db.inTransaction(async (tx) => {
-      const current = await tx.player.balance.get({ minecraftUuid: uuid });
+    return await (tx ?? db).inTransaction(async (tx) => {
+      const [current] = await this.lockBalances(tx, uuid);
 
       if (BalanceUtils.wouldOverflow(current.balance, amount)) {
         throw new Error(`Cannot add ${amount}: would exceed maximum balance`);
@@ -244,15 +379,18 @@ export class BalanceRepository {
         { balance: newBalance },
       );
 
-      await this.logTransaction({
-        playerMinecraftUuid: uuid,
-        amount: amountBigInt,
-        balanceBefore: current.balance,
-        balanceAfter: newBalance,
-        transactionType: type,
-        description: reason,
-        metadata,
-      });
+      await this.logTransaction(
+        {
+          playerMinecraftUuid: uuid,
+          amount: amountBigInt,
+          balanceBefore: current.balance,
+          balanceAfter: newBalance,
+          transactionType: type,
+          description: reason,
+          metadata,
+        },
+        tx,
+      );
 
       return BalanceUtils.fromStorage(newBalance);
     });
@@ -266,6 +404,7 @@ export class BalanceRepository {
    * @param reason - Transaction reason
    * @param type - Type of transaction
    * @param metadata - Additional context
+   * @param tx - Transaction client to run in (optional)
    * @returns Promise resolving to new balance
    * @throws Error if insufficient balance
    *
@@ -278,6 +417,7 @@ export class BalanceRepository {
     reason: string,
     type: BalanceTransactionType,
     metadata?: Record<string, any>,
+    tx?: typeof db,
   ): Promise<number> {
     if (amount <= 0) {
       throw new Error("Amount must be positive");
@@ -287,8 +427,8 @@ export class BalanceRepository {
     const uuid = await this.resolvePlayerUuid(identifier);
     const amountBigInt = BalanceUtils.toStorage(amount);
 
-    return await db.inTransaction(async (tx) => {
-      const current = await tx.player.balance.get({ minecraftUuid: uuid });
+    return await (tx ?? db).inTransaction(async (tx) => {
+      const [current] = await this.lockBalances(tx, uuid);
 
       if (current.balance < amountBigInt) {
         throw new Error(
@@ -303,15 +443,18 @@ export class BalanceRepository {
         { balance: newBalance },
       );
 
-      await this.logTransaction({
-        playerMinecraftUuid: uuid,
-        amount: -amountBigInt,
-        balanceBefore: current.balance,
-        balanceAfter: newBalance,
-        transactionType: type,
-        description: reason,
-        metadata,
-      });
+      await this.logTransaction(
+        {
+          playerMinecraftUuid: uuid,
+          amount: -amountBigInt,
+          balanceBefore: current.balance,
+          balanceAfter: newBalance,
+          transactionType: type,
+          description: reason,
+          metadata,
+        },
+        tx,
+      );
 
       return BalanceUtils.fromStorage(newBalance);
     });
@@ -343,9 +486,7 @@ export class BalanceRepository {
     const amountBigInt = BalanceUtils.toStorage(amount);
 
     return await db.inTransaction(async (tx) => {
-      const current = await tx.player.balance.get({
-        minecraftUuid: uuid,
-      });
+      const [current] = await this.lockBalances(tx, uuid);
       const difference = amountBigInt - current.balance;
 
       await tx.player.balance.update(
@@ -355,28 +496,55 @@ export class BalanceRepository {
         { balance: amountBigInt },
       );
 
-      await this.logTransaction({
-        playerMinecraftUuid: uuid,
-        amount: difference,
-        balanceBefore: current.balance,
-        balanceAfter: amountBigInt,
-        transactionType: type,
-        description: reason,
-        metadata,
-      });
+      await this.logTransaction(
+        {
+          playerMinecraftUuid: uuid,
+          amount: difference,
+          balanceBefore: current.balance,
+          balanceAfter: amountBigInt,
+          transactionType: type,
+          description: reason,
+          metadata,
+        },
+        tx,
+      );
 
       return BalanceUtils.fromStorage(amountBigInt);
     });
   }
 
+  /**
+   * Calculates the fee charged on top of a transfer
+   *
+   * @param amount - Amount to transfer
+   * @returns Fee amount (0 when fees are disabled)
+   *
+   * @example
+   * balanceRepo.getTransferFee(50) // 1 with a 2% fee
+   */
+  getTransferFee(amount: number): number {
+    return BalanceUtils.fromStorage(
+      BalanceUtils.calculateFee(
+        BalanceUtils.toStorage(amount),
+        config.economy.transfer.fee,
+      ),
+    );
+  }
+
   /**
    * Transfers balance between two players
    *
+   * The sender pays the configured transfer fee on top of the amount. The
+   * fee is logged as a separate TRANSFER_FEE entry, recorded in the
+   * metadata of the TRANSFER_SEND entry and credited to the treasury.
+   *
    * @param from - Sender identifier
    * @param to - Recipient identifier
    * @param amount - Amount to transfer
    * @param description - Optional transfer description
-   * @returns Promise resolving to both new balances
+   * @param metadata - Additional context recorded on both transfer entries
+   * @param tx - Transaction client to run in (optional)
+   * @returns Promise resolving to both new balances and the fee charged
    *
    * @example
    * const result = await balanceRepo.transfer(
@@ -391,9 +559,12 @@ export class BalanceRepository {
     to: PlayerIdentifier,
     amount: number,
     description?: string,
+    metadata?: Record<string, any>,
+    tx?: typeof db,
   ): Promise<{
     senderBalance: number;
     recipientBalance: number;
+    fee: number;
   }> {
     if (amount <= 0) {
       throw new Error("Transfer amount must be positive");
@@ -403,34 +574,39 @@ export class BalanceRepository {
     const senderUuid = await this.resolvePlayerUuid(from);
     const recipientUuid = await this.resolvePlayerUuid(to);
     const amountBigInt = BalanceUtils.toStorage(amount);
+    const feeBigInt = BalanceUtils.calculateFee(
+      amountBigInt,
+      config.economy.transfer.fee,
+    );
+    const totalBigInt = amountBigInt + feeBigInt;
 
     if (senderUuid === recipientUuid) {
       throw new Error("Cannot transfer to self");
     }
 
-    return await db.inTransaction(async (tx) => {
-      const senderBalance = await tx.player.balance.get({
-        minecraftUuid: senderUuid,
-      });
-      const recipientBalance = await tx.player.balance.get({
-        minecraftUuid: recipientUuid,
-      });
+    return await (tx ?? db).inTransaction(async (tx) => {
+      const [senderBalance, recipientBalance] = await this.lockBalances(
+        tx,
+        senderUuid,
+        recipientUuid,
+      );
 
-      if (senderBalance.balance < amountBigInt) {
+      if (senderBalance.balance < totalBigInt) {
         throw new Error(
-          `Insufficient balance: has ${BalanceUtils.format(senderBalance.balance)}, needs ${BalanceUtils.format(amountBigInt)}`,
+          `Insufficient balance: has ${BalanceUtils.format(senderBalance.balance)}, needs ${BalanceUtils.format(totalBigInt)}` +
+            (feeBigInt > 0n
+              ? ` (including ${BalanceUtils.format(feeBigInt)} fee)`
+              : ""),
         );
       }
 
-      console.log(
-        "senderBalance.balance type:",
-        typeof senderBalance.balance,
+      const balanceAfterSend = BalanceUtils.subtract(
         senderBalance.balance,
+        amountBigInt,
       );
-      console.log("amountBigInt type:", typeof amountBigInt, amountBigInt);
       const newSenderBalance = BalanceUtils.subtract(
-        senderBalance.balance,
-        amountBigInt,
+        balanceAfterSend,
+        feeBigInt,
       );
       const newRecipientBalance = BalanceUtils.add(
         recipientBalance.balance,
@@ -447,33 +623,764 @@ export class BalanceRepository {
         { balance: newRecipientBalance },
       );
 
-      await this.logTransaction({
-        playerMinecraftUuid: senderUuid,
+      await this.logTransaction(
+        {
+          playerMinecraftUuid: senderUuid,
+          amount: -amountBigInt,
+          balanceBefore: senderBalance.balance,
+          balanceAfter: balanceAfterSend,
+          transactionType: BalanceTransactionType.TRANSFER_SEND,
+          description: description || `Transfer to ${recipientUuid}`,
+          relatedPlayerUuid: recipientUuid,
+          metadata: { ...metadata, fee: BalanceUtils.format(feeBigInt) },
+        },
+        tx,
+      );
+
+      await this.logTransaction(
+        {
+          playerMinecraftUuid: recipientUuid,
+          amount: amountBigInt,
+          balanceBefore: recipientBalance.balance,
+          balanceAfter: newRecipientBalance,
+          transactionType: BalanceTransactionType.TRANSFER_RECEIVE,
+          description: description || `Transfer from ${senderUuid}`,
+          relatedPlayerUuid: senderUuid,
+          metadata,
+        },
+        tx,
+      );
+
+      if (feeBigInt > 0n) {
+        const feeMetadata = {
+          transferAmount: BalanceUtils.format(amountBigInt),
+          feePercent: config.economy.transfer.fee.percent,
+        };
+
+        await this.logTransaction(
+          {
+            playerMinecraftUuid: senderUuid,
+            amount: -feeBigInt,
+            balanceBefore: balanceAfterSend,
+            balanceAfter: newSenderBalance,
+            transactionType: BalanceTransactionType.TRANSFER_FEE,
+            description: "Transfer fee",
+            relatedPlayerUuid: recipientUuid,
+            metadata: feeMetadata,
+          },
+          tx,
+        );
+
+        await this.adjustTreasury(tx, {
+          amount: feeBigInt,
+          transactionType: BalanceTransactionType.TRANSFER_FEE,
+          description: `Transfer fee from ${senderUuid}`,
+          relatedPlayerUuid: senderUuid,
+          metadata: { ...feeMetadata, recipientUuid },
+        });
+      }
+
+      return {
+        senderBalance: BalanceUtils.fromStorage(newSenderBalance),
+        recipientBalance: BalanceUtils.fromStorage(newRecipientBalance),
+        fee: BalanceUtils.fromStorage(feeBigInt),
+      };
+    });
+  }
+
+  /**
+   * Settles a purchase between a buyer and a seller
+   *
+   * Writes a PURCHASE entry for the buyer and a SALE entry for the seller.
+   * Pass a transaction client to settle as part of a larger transaction,
+   * e.g. together with the stock update of a marketplace listing.
+   *
+   * @param buyer - Buyer identifier
+   * @param seller - Seller identifier
+   * @param amount - Total price (must be positive)
+   * @param options - Description, additional context and optional
+   * transaction client
+   * @returns Promise resolving to both new balances
+   * @throws Error if the buyer has insufficient balance
+   */
+  async purchase(
+    buyer: PlayerIdentifier,
+    seller: PlayerIdentifier,
+    amount: number,
+    options: {
+      description: string;
+      metadata?: Record<string, any>;
+      tx?: typeof db;
+    },
+  ): Promise<{
+    buyerBalance: number;
+    sellerBalance: number;
+  }> {
+    if (amount <= 0) {
+      throw new Error("Purchase amount must be positive");
+    }
+
+    BalanceUtils.validate(amount);
+    const buyerUuid = await this.resolvePlayerUuid(buyer);
+    const sellerUuid = await this.resolvePlayerUuid(seller);
+    const amountBigInt = BalanceUtils.toStorage(amount);
+    const { description, metadata = {} } = options;
+
+    if (buyerUuid === sellerUuid) {
+      throw new Error("Cannot purchase from self");
+    }
+
+    return await (options.tx ?? db).inTransaction(async (tx) => {
+      const [buyerBalance, sellerBalance] = await this.lockBalances(
+        tx,
+        buyerUuid,
+        sellerUuid,
+      );
+
+      if (buyerBalance.balance < amountBigInt) {
+        throw new Error(
+          `Insufficient balance: has ${BalanceUtils.format(buyerBalance.balance)}, needs ${BalanceUtils.format(amountBigInt)}`,
+        );
+      }
+
+      const newBuyerBalance = BalanceUtils.subtract(
+        buyerBalance.balance,
+        amountBigInt,
+      );
+      const newSellerBalance = BalanceUtils.add(
+        sellerBalance.balance,
+        amountBigInt,
+      );
+
+      await tx.player.balance.update(
+        { minecraftUuid: buyerUuid },
+        { balance: newBuyerBalance },
+      );
+
+      await tx.player.balance.update(
+        { minecraftUuid: sellerUuid },
+        { balance: newSellerBalance },
+      );
+
+      await tx.player.balance.transaction.create({
+        playerMinecraftUuid: buyerUuid,
         amount: -amountBigInt,
-        balanceBefore: senderBalance.balance,
-        balanceAfter: newSenderBalance,
-        transactionType: BalanceTransactionType.TRANSFER_SEND,
-        description: description || `Transfer to ${recipientUuid}`,
-        relatedPlayerUuid: recipientUuid,
+        balanceBefore: buyerBalance.balance,
+        balanceAfter: newBuyerBalance,
+        transactionType: BalanceTransactionType.PURCHASE,
+        description,
+        relatedPlayerUuid: sellerUuid,
+        metadata,
       });
 
-      await this.logTransaction({
-        playerMinecraftUuid: recipientUuid,
+      await tx.player.balance.transaction.create({
+        playerMinecraftUuid: sellerUuid,
         amount: amountBigInt,
-        balanceBefore: recipientBalance.balance,
-        balanceAfter: newRecipientBalance,
-        transactionType: BalanceTransactionType.TRANSFER_RECEIVE,
-        description: description || `Transfer from ${senderUuid}`,
-        relatedPlayerUuid: senderUuid,
+        balanceBefore: sellerBalance.balance,
+        balanceAfter: newSellerBalance,
+        transactionType: BalanceTransactionType.SALE,
+        description,
+        relatedPlayerUuid: buyerUuid,
+        metadata,
       });
 
+      logger.info(
+        `Balance purchase: ${BalanceUtils.format(amountBigInt)} from ${buyerUuid} to ${sellerUuid}`,
+      );
+
       return {
-        senderBalance: BalanceUtils.fromStorage(newSenderBalance),
-        recipientBalance: BalanceUtils.fromStorage(newRecipientBalance),
+        buyerBalance: BalanceUtils.fromStorage(newBuyerBalance),
+        sellerBalance: BalanceUtils.fromStorage(newSellerBalance),
+      };
+    });
+  }
+
+  // ============================================================================
+  // TREASURY METHODS
+  // ============================================================================
+
+  /**
+   * Gets the treasury balance
+   *
+   * @returns Promise resolving to the balance in smallest unit
+   */
+  async getTreasuryBalance(): Promise<bigint> {
+    const treasury = await db.economy.treasury.find({
+      id: config.economy.treasuryId,
+    });
+
+    return treasury?.balance ?? 0n;
+  }
+
+  /**
+   * Pays an amount from the treasury to a player, e.g. an event prize
+   *
+   * @param to - Recipient identifier
+   * @param amount - Amount to pay (must be positive)
+   * @param options - Reason and the admin making the payout
+   * @returns Promise resolving to the recipient's new balance and the
+   * remaining treasury balance
+   * @throws Error if the treasury cannot cover the amount
+   */
+  async payFromTreasury(
+    to: PlayerIdentifier,
+    amount: number,
+    options: {
+      reason: string;
+      admin: { discordId: string; discordUsername: string };
+      metadata?: Record<string, any>;
+    },
+  ): Promise<{ recipientBalance: number; treasuryBalance: bigint }> {
+    if (amount <= 0) {
+      throw new Error("Payout amount must be positive");
+    }
+
+    BalanceUtils.validate(amount);
+    const uuid = await this.resolvePlayerUuid(to);
+    const amountBigInt = BalanceUtils.toStorage(amount);
+    const { reason, admin, metadata = {} } = options;
+
+    return await db.inTransaction(async (tx) => {
+      const treasuryBalance =
+        (await tx.economy.treasury.find({ id: config.economy.treasuryId }))
+          ?.balance ?? 0n;
+
+      if (treasuryBalance < amountBigInt) {
+        throw new Error(
+          `Insufficient treasury balance: has ${BalanceUtils.format(treasuryBalance)}, needs ${BalanceUtils.format(amountBigInt)}`,
+        );
+      }
+
+      const [current] = await this.lockBalances(tx, uuid);
+      const newBalance = BalanceUtils.add(current.balance, amountBigInt);
+      const player = await tx.player.get({ minecraftUuid: uuid });
+
+      await tx.player.balance.update(
+        { minecraftUuid: uuid },
+        { balance: newBalance },
+      );
+
+      const treasury = await this.adjustTreasury(tx, {
+        amount: -amountBigInt,
+        transactionType: BalanceTransactionType.TREASURY_PAYOUT,
+        description: reason,
+        relatedPlayerUuid: uuid,
+        metadata: { ...metadata, adminDiscordId: admin.discordId },
+      });
+
+      await this.logTransaction(
+        {
+          playerMinecraftUuid: uuid,
+          amount: amountBigInt,
+          balanceBefore: current.balance,
+          balanceAfter: newBalance,
+          transactionType: BalanceTransactionType.TREASURY_PAYOUT,
+          description: reason,
+          metadata: {
+            ...metadata,
+            treasuryTransactionId: treasury.id,
+            adminDiscordId: admin.discordId,
+            adminDiscordUsername: admin.discordUsername,
+          },
+        },
+        tx,
+      );
+
+      await tx.admin.log.action.logAction({
+        adminDiscordId: admin.discordId,
+        adminDiscordUsername: admin.discordUsername,
+        actionType: AdminEdit.TREASURY_PAYOUT,
+        targetPlayerUuid: uuid,
+        targetPlayerName: player.minecraftUsername,
+        tableName: DatabaseTable.PLAYER_BALANCE.TABLE,
+        fieldName: DatabaseTable.PLAYER_BALANCE.FIELDS.BALANCE,
+        oldValue: BalanceUtils.format(current.balance),
+        newValue: BalanceUtils.format(newBalance),
+        reason,
+        metadata: { ...metadata, treasuryTransactionId: treasury.id },
+      });
+
+      return {
+        recipientBalance: BalanceUtils.fromStorage(newBalance),
+        treasuryBalance: treasury.balanceAfter,
       };
     });
   }
 
+  /**
+   * Adjusts the treasury balance and writes the treasury ledger entry
+   * @private
+   */
+  private async adjustTreasury(
+    tx: typeof db,
+    data: {
+      amount: bigint;
+      transactionType: BalanceTransactionType;
+      description: string;
+      relatedPlayerUuid?: string;
+      metadata?: Record<string, any>;
+    },
+  ): Promise<EconomyTreasuryTransaction> {
+    const treasuryId = config.economy.treasuryId;
+    const { balanceBefore, balanceAfter } =
+      await tx.economy.treasury.adjustBalance(treasuryId, data.amount);
+
+    return await tx.economy.treasury.transaction.createAndReturn({
+      treasuryId,
+      amount: data.amount,
+      balanceBefore,
+      balanceAfter,
+      transactionType: data.transactionType,
+      description: data.description,
+      relatedPlayerUuid: data.relatedPlayerUuid ?? null,
+      metadata: data.metadata ?? {},
+    });
+  }
+
+  // ============================================================================
+  // ESCROW METHODS
+  // ============================================================================
+
+  /**
+   * Moves balance out of a player's account into escrow
+   *
+   * The held amount is not credited anywhere until it is released with
+   * `releaseFromEscrow`, either to the counterparty or back to the owner.
+   *
+   * @param identifier - Player whose balance is held
+   * @param amount - Amount to hold (must be positive)
+   * @param description - Transaction description
+   * @param options - Counterparty, additional context, escrow type
+   * (default: TRADE_ESCROW) and optional transaction client
+   * @returns Promise resolving to the new balance
+   * @throws Error if insufficient balance
+   */
+  async holdInEscrow(
+    identifier: PlayerIdentifier,
+    amount: number,
+    description: string,
+    options: {
+      relatedPlayerUuid?: string;
+      metadata?: Record<string, any>;
+      transactionType?: BalanceTransactionType;
+      tx?: typeof db;
+    } = {},
+  ): Promise<number> {
+    if (amount <= 0) {
+      throw new Error("Amount must be positive");
+    }
+
+    BalanceUtils.validate(amount);
+    const uuid = await this.resolvePlayerUuid(identifier);
+    const amountBigInt = BalanceUtils.toStorage(amount);
+
+    return await (options.tx ?? db).inTransaction(async (tx) => {
+      const [current] = await this.lockBalances(tx, uuid);
+
+      if (current.balance < amountBigInt) {
+        throw new Error(
+          `Insufficient balance: has ${BalanceUtils.format(current.balance)}, needs ${BalanceUtils.format(amountBigInt)}`,
+        );
+      }
+
+      const newBalance = BalanceUtils.subtract(current.balance, amountBigInt);
+
+      await tx.player.balance.update(
+        { minecraftUuid: uuid },
+        { balance: newBalance },
+      );
+
+      await this.logTransaction(
+        {
+          playerMinecraftUuid: uuid,
+          amount: -amountBigInt,
+          balanceBefore: current.balance,
+          balanceAfter: newBalance,
+          transactionType:
+            options.transactionType ?? BalanceTransactionType.TRADE_ESCROW,
+          description,
+          relatedPlayerUuid: options.relatedPlayerUuid,
+          metadata: options.metadata,
+        },
+        tx,
+      );
+
+      return BalanceUtils.fromStorage(newBalance);
+    });
+  }
+
+  /**
+   * Credits a previously escrowed amount to a player's account
+   *
+   * @param identifier - Player receiving the escrowed amount
+   * @param amount - Amount to release (must be positive)
+   * @param description - Transaction description
+   * @param options - Counterparty, additional context, escrow type
+   * (default: TRADE_ESCROW) and optional transaction client
+   * @returns Promise resolving to the new balance
+   */
+  async releaseFromEscrow(
+    identifier: PlayerIdentifier,
+    amount: number,
+    description: string,
+    options: {
+      relatedPlayerUuid?: string;
+      metadata?: Record<string, any>;
+      transactionType?: BalanceTransactionType;
+      tx?: typeof db;
+    } = {},
+  ): Promise<number> {
+    if (amount <= 0) {
+      throw new Error("Amount must be positive");
+    }
+
+    BalanceUtils.validate(amount);
+    const uuid = await this.resolvePlayerUuid(identifier);
+    const amountBigInt = BalanceUtils.toStorage(amount);
+
+    return await (options.tx ?? db).inTransaction(async (tx) => {
+      const [current] = await this.lockBalances(tx, uuid);
+      const newBalance = BalanceUtils.add(current.balance, amountBigInt);
+
+      await tx.player.balance.update(
+        { minecraftUuid: uuid },
+        { balance: newBalance },
+      );
+
+      await this.logTransaction(
+        {
+          playerMinecraftUuid: uuid,
+          amount: amountBigInt,
+          balanceBefore: current.balance,
+          balanceAfter: newBalance,
+          transactionType:
+            options.transactionType ?? BalanceTransactionType.TRADE_ESCROW,
+          description,
+          relatedPlayerUuid: options.relatedPlayerUuid,
+          metadata: options.metadata,
+        },
+        tx,
+      );
+
+      return BalanceUtils.fromStorage(newBalance);
+    });
+  }
+
+  /**
+   * Brings a player's transaction chain in line with their stored balance
+   *
+   * The stored balance is kept as the source of truth: a RECONCILIATION
+   * entry is appended from the last recorded balance_after to the actual
+   * balance, so money changed outside the repository (e.g. by a manual
+   * database fix) shows up in the player's history. The entry is also
+   * written when the amounts already match, marking earlier issues in the
+   * chain as reviewed.
+   *
+   * @param identifier - Player whose ledger is reconciled
+   * @param description - Transaction description
+   * @param metadata - Additional context
+   * @returns Promise resolving to the amount the ledger was adjusted by
+   * @throws Error if the player has no balance account
+   */
+  async reconcile(
+    identifier: PlayerIdentifier,
+    description: string,
+    metadata?: Record<string, any>,
+  ): Promise<bigint> {
+    const uuid = await this.resolvePlayerUuid(identifier);
+
+    return await db.inTransaction(async (tx) => {
+      const current = await tx.player.balance.lockForUpdate(uuid);
+
+      if (!current) {
+        throw new Error(`No balance account for ${uuid}`);
+      }
+
+      const latest = await tx.player.balance.transaction.findLatest(uuid);
+      const ledgerBalance = latest?.balanceAfter ?? 0n;
+      const adjustment = current.balance - ledgerBalance;
+
+      await this.logTransaction(
+        {
+          playerMinecraftUuid: uuid,
+          amount: adjustment,
+          balanceBefore: ledgerBalance,
+          balanceAfter: current.balance,
+          transactionType: BalanceTransactionType.RECONCILIATION,
+          description,
+          metadata,
+        },
+        tx,
+      );
+
+      return adjustment;
+    });
+  }
+
+  /**
+   * Records a zero-amount entry in a player's transaction history
+   *
+   * Used for events that concern a player without moving their balance,
+   * e.g. the recipient of a trade offer while the amount sits in escrow.
+   *
+   * @param identifier - Player whose history receives the entry
+   * @param description - Transaction description
+   * @param type - Type of transaction
+   * @param options - Counterparty, additional context and optional
+   * transaction client
+   */
+  async logEvent(
+    identifier: PlayerIdentifier,
+    description: string,
+    type: BalanceTransactionType,
+    options: {
+      relatedPlayerUuid?: string;
+      metadata?: Record<string, any>;
+      tx?: typeof db;
+    } = {},
+  ): Promise<void> {
+    const uuid = await this.resolvePlayerUuid(identifier);
+    const queries = options.tx ?? db;
+    const current = await queries.player.balance.get({ minecraftUuid: uuid });
+
+    await this.logTransaction(
+      {
+        playerMinecraftUuid: uuid,
+        amount: 0n,
+        balanceBefore: current.balance,
+        balanceAfter: current.balance,
+        transactionType: type,
+        description,
+        relatedPlayerUuid: options.relatedPlayerUuid,
+        metadata: options.metadata,
+      },
+      queries,
+    );
+  }
+
+  // ============================================================================
+  // REVERSAL METHODS
+  // ============================================================================
+
+  /**
+   * Previews the reversal of a transaction without changing anything
+   *
+   * @param transactionId - ID of the transaction to reverse
+   * @returns Promise resolving to the balance change of each affected side
+   * @throws Error if the transaction does not exist or cannot be reversed
+   */
+  async previewReversal(
+    transactionId: number,
+  ): Promise<TransactionReversalPlan> {
+    return await this.planReversal(db, transactionId);
+  }
+
+  /**
+   * Reverses a transaction with linked REFUND entries
+   *
+   * Two-sided transactions (transfers) are reversed on both sides. The
+   * reversed entries and the affected balances are locked first, and all
+   * balance updates, refund entries and admin audit log entries are written
+   * in a single database transaction. Each refund references the entry it
+   * reverses in `reversed_transaction_id`, which is unique, so the same
+   * transaction cannot be reversed twice even by concurrent requests. Every
+   * refund also stores the IDs of all reversed entries in
+   * `metadata.reversedTransactionIds`, linking the refunds to each other.
+   *
+   * Balances never go below zero: a credit the player already spent is only
+   * taken back up to their balance with `allowShortfall`, and the rest is
+   * recorded as `metadata.shortfall` on the refund.
+   *
+   * @param transactionId - ID of the transaction to reverse
+   * @param options - Reason, acting admin and shortfall override
+   * @returns Promise resolving to the created refund entries
+   * @throws Error if a balance does not cover the reversal without
+   * `allowShortfall`, or if the transaction was already reversed
+   *
+   * @example
+   * const refunds = await balanceRepo.reverse(42, {
+   *   reason: "Fraudulent payment",
+   *   admin: { discordId: "123", discordUsername: "admin" },
+   * });
+   */
+  async reverse(
+    transactionId: number,
+    options: {
+      reason: string;
+      admin: { discordId: string; discordUsername: string };
+      allowShortfall?: boolean;
+      metadata?: Record<string, any>;
+    },
+  ): Promise<PlayerBalanceTransaction[]> {
+    const { reason, admin, allowShortfall = false, metadata = {} } = options;
+
+    let refunds: PlayerBalanceTransaction[];
+    try {
+      refunds = await db.inTransaction(async (tx) => {
+        const plan = await this.planReversal(tx, transactionId, true);
+        const reversedTransactionIds = plan.map((side) => side.transaction.id);
+
+        if (!allowShortfall) {
+          const uncovered = plan.find((side) => side.shortfall > 0n);
+          if (uncovered) {
+            throw new Error(
+              `${uncovered.playerUsername}'s balance does not cover the reversal (short by ${BalanceUtils.format(uncovered.shortfall)}). Use the override to take back only what is left.`,
+            );
+          }
+        }
+
+        const created: PlayerBalanceTransaction[] = [];
+
+        for (const side of plan) {
+          const { transaction } = side;
+          const shortfall = BalanceUtils.format(side.shortfall);
+
+          await tx.player.balance.update(
+            { minecraftUuid: transaction.playerMinecraftUuid },
+            { balance: side.balanceAfter },
+          );
+
+          const refund = await tx.player.balance.transaction.createAndReturn({
+            playerMinecraftUuid: transaction.playerMinecraftUuid,
+            amount: side.balanceAfter - side.balanceBefore,
+            balanceBefore: side.balanceBefore,
+            balanceAfter: side.balanceAfter,
+            transactionType: BalanceTransactionType.REFUND,
+            description: `Reversal of transaction #${transaction.id}: ${reason}`,
+            relatedPlayerUuid: transaction.relatedPlayerUuid,
+            reversedTransactionId: transaction.id,
+            metadata: {
+              ...metadata,
+              reversedTransactionId: transaction.id,
+              reversedTransactionIds,
+              adminDiscordId: admin.discordId,
+              adminDiscordUsername: admin.discordUsername,
+              shortfall,
+            },
+          });
+
+          await tx.admin.log.action.logAction({
+            adminDiscordId: admin.discordId,
+            adminDiscordUsername: admin.discordUsername,
+            actionType: AdminEdit.REVERSE_TRANSACTION,
+            targetPlayerUuid: transaction.playerMinecraftUuid,
+            targetPlayerName: side.playerUsername,
+            tableName: DatabaseTable.PLAYER_BALANCE.TABLE,
+            fieldName: DatabaseTable.PLAYER_BALANCE.FIELDS.BALANCE,
+            oldValue: BalanceUtils.format(side.balanceBefore),
+            newValue: BalanceUtils.format(side.balanceAfter),
+            reason,
+            metadata: {
+              ...metadata,
+              reversedTransactionId: transaction.id,
+              refundTransactionId: refund.id,
+              shortfall,
+            },
+          });
+
+          created.push(refund);
+        }
+
+        return created;
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new Error(`Transaction #${transactionId} was already reversed`);
+      }
+      throw error;
+    }
+
+    logger.info(
+      `Transaction #${transactionId} reversed by ${admin.discordUsername} with refund(s) ${refunds.map((r) => `#${r.id}`).join(", ")}`,
+    );
+
+    return refunds;
+  }
+
+  /**
+   * Validates a transaction for reversal and computes the resulting balances
+   *
+   * With `lock`, the reversed entries and the affected balances are locked
+   * until the surrounding transaction ends.
+   * @private
+   */
+  private async planReversal(
+    queries: typeof db,
+    transactionId: number,
+    lock: boolean = false,
+  ): Promise<TransactionReversalPlan> {
+    const transaction = await queries.player.balance.transaction.find({
+      id: transactionId,
+    });
+
+    if (!transaction) {
+      throw new Error(`Transaction #${transactionId} does not exist`);
+    }
+
+    if (NON_REVERSIBLE_TYPES.includes(transaction.transactionType)) {
+      throw new Error(
+        `Transactions of type "${transaction.transactionType}" cannot be reversed`,
+      );
+    }
+
+    if (transaction.amount === 0n) {
+      throw new Error(`Transaction #${transactionId} has no amount to reverse`);
+    }
+
+    const transactions = [transaction];
+    const counterpartType = COUNTERPART_TYPES[transaction.transactionType];
+
+    if (counterpartType) {
+      const counterpart =
+        await queries.player.balance.transaction.findCounterpart(
+          transaction,
+          counterpartType,
+        );
+
+      if (counterpart) {
+        transactions.push(counterpart);
+      }
+    }
+
+    if (lock) {
+      await queries.player.balance.transaction.lockForUpdate(
+        transactions.map((side) => side.id),
+      );
+    }
+
+    const balances = lock
+      ? await this.lockBalances(
+          queries,
+          ...transactions.map((side) => side.playerMinecraftUuid),
+        )
+      : await Promise.all(
+          transactions.map((side) =>
+            queries.player.balance.get({
+              minecraftUuid: side.playerMinecraftUuid,
+            }),
+          ),
+        );
+
+    const sides: ReversalSide[] = [];
+
+    for (const [index, side] of transactions.entries()) {
+      const player = await queries.player.get({
+        minecraftUuid: side.playerMinecraftUuid,
+      });
+
+      sides.push({
+        transaction: side,
+        playerUsername: player.minecraftUsername,
+        balance: balances[index].balance,
+        reversals: await queries.player.balance.transaction.findReversals(
+          side.id,
+        ),
+      });
+    }
+
+    return buildReversalPlan(sides);
+  }
+
   // ============================================================================
   // TRANSACTION HISTORY
   // ============================================================================
@@ -529,4 +1436,47 @@ export class BalanceRepository {
       metadata: tx.metadata ?? {},
     }));
   }
+
+  /**
+   * Gets a page of transaction history with counterparty usernames
+   *
+   * @param identifier - Player identifier
+   * @param options - Page (0-indexed), page size and transaction type filter
+   * @returns Transactions for the page and the total matching count
+   *
+   * @example
+   * const { transactions, total } = await balanceRepo.getHistoryPage(player, {
+   *   page: 0,
+   *   limit: 10,
+   *   types: TRANSACTION_TYPE_GROUPS.transfers,
+   * });
+   */
+  async getHistoryPage(
+    identifier: PlayerIdentifier,
+    options: {
+      page?: number;
+      limit?: number;
+      types?: BalanceTransactionType[];
+    } = {},
+  ): Promise<{
+    transactions: PlayerBalanceTransactionWithCounterparty[];
+    total: number;
+  }> {
+    const { page = 0, limit = 10, types = [] } = options;
+    const uuid = await this.resolvePlayerUuid(identifier);
+
+    const [transactions, total] = await Promise.all([
+      db.player.balance.transaction.findHistoryWithCounterparty(uuid, {
+        types,
+        limit,
+        offset: page * limit,
+      }),
+      db.player.balance.transaction.count({
+        playerMinecraftUuid: uuid,
+        ...(types.length > 0 && { transactionType: { $in: types } }),
+      }),
+    ]);
+
+    return { transactions, total };
+  }
 }
@@ -0,0 +1,62 @@
+import type { PlayerBalanceTransaction } from "@/generated/db";
+
+/**
+ * Balance changes a transaction reversal would make, one entry per
+ * affected side
+ *
+ * `shortfall` is the part of a credit that could not be taken back because
+ * the balance no longer covers it. Balances never go below zero.
+ */
+export type TransactionReversalPlan = Array<{
+  transaction: PlayerBalanceTransaction;
+  playerUsername: string;
+  balanceBefore: bigint;
+  balanceAfter: bigint;
+  shortfall: bigint;
+}>;
+
+/**
+ * A side of a transaction to reverse with the current state of its account
+ */
+export interface ReversalSide {
+  transaction: PlayerBalanceTransaction;
+  playerUsername: string;
+  balance: bigint;
+  // Refund entries already linked to the transaction
+  reversals: PlayerBalanceTransaction[];
+}
+
+/**
+ * Computes the balance changes that reverse every side of a transaction
+ *
+ * Debits are refunded in full. Credits are taken back up to the current
+ * balance, the rest is reported as shortfall.
+ *
+ * @param sides - Every side of the transaction with its current balance
+ * @returns The reversal plan, in the order of `sides`
+ * @throws Error if a side was already reversed
+ */
+export function buildReversalPlan(
+  sides: ReversalSide[],
+): TransactionReversalPlan {
+  for (const side of sides) {
+    if (side.reversals.length > 0) {
+      throw new Error(
+        `Transaction #${side.transaction.id} was already reversed by refund #${side.reversals[0].id}`,
+      );
+    }
+  }
+
+  return sides.map(({ transaction, playerUsername, balance }) => {
+    const target = balance - transaction.amount;
+    const balanceAfter = target < 0n ? 0n : target;
+
+    return {
+      transaction,
+      playerUsername,
+      balanceBefore: balance,
+      balanceAfter,
+      shortfall: balanceAfter - target,
+    };
+  });
+}
@@ -1,3 +1,5 @@
+import type { TransferFeeConfig } from "@/config/types";
+
 /**
  * Balance utility class for 3 decimal precision
  *
@@ -182,6 +184,31 @@ export class BalanceUtils {
     return 0;
   }
 
+  /**
+   * Calculates a percentage fee clamped to its min/max caps
+   *
+   * @param amount - Storage bigint the fee is charged on
+   * @param fee - Percentage and caps (user-facing decimals)
+   * @returns Fee as storage bigint, 0n when fees are disabled
+   *
+   * @example
+   * BalanceUtils.calculateFee(10000n, { percent: 2, min: 0.1, max: 100 }) // 200n
+   * BalanceUtils.calculateFee(1000n, { percent: 2, min: 0.1, max: 100 }) // 100n (min cap)
+   */
+  static calculateFee(amount: bigint, fee: TransferFeeConfig): bigint {
+    if (fee.percent <= 0 || amount <= 0n) {
+      return 0n;
+    }
+
+    const raw = BigInt(Math.round((Number(amount) * fee.percent) / 100));
+    const min = this.toStorage(fee.min);
+    const max = this.toStorage(fee.max);
+
+    if (raw < min) return min;
+    if (raw > max) return max;
+    return raw;
+  }
+
   /**
    * Checks if an amount would cause overflow when added to balance
    */
@@ -0,0 +1,640 @@
+import { balanceRepo, db, Q } from "@/db";
+import type { CompanyWithSummary } from "@/db/queries/company";
+import type { CompanyMemberWithUsername } from "@/db/queries/company/member";
+import type { CompanyTransactionWithPlayers } from "@/db/queries/company/transaction";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type {
+  Company,
+  CompanyMember,
+  CompanyTransaction,
+} from "@/generated/db";
+import {
+  canManageRole,
+  CompanyPermission,
+  CompanyRole,
+  hasCompanyPermission,
+} from "./permissions";
+
+export {
+  canManageRole,
+  CompanyPermission,
+  CompanyRole,
+  hasCompanyPermission,
+} from "./permissions";
+
+export enum CompanyTransactionType {
+  DEPOSIT = "deposit",
+  WITHDRAWAL = "withdrawal",
+  PAYROLL = "payroll",
+}
+
+/**
+ * A single salary paid by a payroll run
+ */
+export interface PayrollPayment {
+  playerMinecraftUuid: string;
+  minecraftUsername: string;
+  amount: bigint;
+}
+
+/**
+ * Repository for player-owned companies
+ *
+ * Handles:
+ * - Company creation and membership with roles (owner, manager, employee)
+ * - Deposits, withdrawals and payroll between company and player balances
+ * - The company ledger (company_transaction)
+ *
+ * Every balance movement updates both the company and the player balance in
+ * one database transaction and is logged on both sides. Actions taken on
+ * behalf of a member are checked against the member's role.
+ */
+export class CompanyRepository {
+  // ============================================================================
+  // QUERY METHODS
+  // ============================================================================
+
+  /**
+   * Gets a company by ID
+   *
+   * @param id - Company ID
+   * @returns Promise resolving to the company, or null if not found
+   */
+  async get(id: number): Promise<Company | null> {
+    return await Q.company.find({ id });
+  }
+
+  /**
+   * Gets a company by name (case-insensitive)
+   *
+   * @param name - Company name
+   * @returns Promise resolving to the company, or null if not found
+   */
+  async getByName(name: string): Promise<Company | null> {
+    return await Q.company.findByName(name);
+  }
+
+  /**
+   * Gets the company a player belongs to, with the player's membership
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @returns Promise resolving to the company and membership, or null if
+   * the player is not in a company
+   */
+  async getByPlayer(
+    playerUuid: string,
+  ): Promise<{ company: Company; member: CompanyMember } | null> {
+    const member = await Q.company.member.find({
+      playerMinecraftUuid: playerUuid,
+    });
+
+    if (!member) {
+      return null;
+    }
+
+    const company = await Q.company.get({ id: member.companyId });
+    return { company, member };
+  }
+
+  /**
+   * Lists a company's members with their usernames
+   *
+   * @param companyId - Company ID
+   * @returns Promise resolving to the members, owner first
+   */
+  async getMembers(companyId: number): Promise<CompanyMemberWithUsername[]> {
+    return await Q.company.member.findAllWithUsernames(companyId);
+  }
+
+  /**
+   * Searches companies by name
+   *
+   * @param options - Optional name search and pagination
+   * @returns Promise resolving to a page of companies and the total count
+   */
+  async search(options: {
+    search?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ companies: CompanyWithSummary[]; total: number }> {
+    return await Q.company.search(options);
+  }
+
+  /**
+   * Gets a page of a company's transaction history, newest first
+   *
+   * @param companyId - Company ID
+   * @param options - Page (0-indexed) and page size
+   * @returns Promise resolving to the transactions and the total count
+   */
+  async getHistoryPage(
+    companyId: number,
+    options: { page: number; limit: number },
+  ): Promise<{ transactions: CompanyTransactionWithPlayers[]; total: number }> {
+    const [transactions, total] = await Promise.all([
+      Q.company.transaction.getHistory(
+        companyId,
+        options.limit,
+        options.page * options.limit,
+      ),
+      Q.company.transaction.count({ companyId }),
+    ]);
+
+    return { transactions, total };
+  }
+
+  // ============================================================================
+  // MEMBERSHIP METHODS
+  // ============================================================================
+
+  /**
+   * Creates a company owned by a player
+   *
+   * @param ownerUuid - Minecraft UUID of the owner
+   * @param name - Unique company name (case-insensitive)
+   * @param description - Optional description
+   * @returns Promise resolving to the created company
+   * @throws Error if the owner is already in a company or the name is taken
+   */
+  async create(
+    ownerUuid: string,
+    name: string,
+    description?: string,
+  ): Promise<Company> {
+    if (await Q.company.member.exists({ playerMinecraftUuid: ownerUuid })) {
+      throw new Error("You are already a member of a company");
+    }
+
+    if (await Q.company.findByName(name)) {
+      throw new Error(`A company named "${name}" already exists`);
+    }
+
+    const company = await db.inTransaction(async (tx) => {
+      const company = await tx.company.createAndReturn({
+        name,
+        description: description ?? null,
+        ownerMinecraftUuid: ownerUuid,
+      });
+
+      await tx.company.member.create({
+        companyId: company.id,
+        playerMinecraftUuid: ownerUuid,
+        role: CompanyRole.OWNER,
+      });
+
+      return company;
+    });
+
+    logger.info(`Company #${company.id} "${name}" created by ${ownerUuid}`);
+
+    return company;
+  }
+
+  /**
+   * Adds a player to a company
+   *
+   * @param companyId - Company ID
+   * @param actorUuid - Member adding the player
+   * @param playerUuid - Player to add
+   * @param role - Role of the new member (default: employee)
+   * @returns Promise resolving to the new membership
+   * @throws Error if the actor may not add members with this role or the
+   * player is already in a company
+   */
+  async addMember(
+    companyId: number,
+    actorUuid: string,
+    playerUuid: string,
+    role: CompanyRole = CompanyRole.EMPLOYEE,
+  ): Promise<CompanyMember> {
+    const actor = await this.requireMember(companyId, actorUuid);
+
+    if (!canManageRole(actor.role, role)) {
+      throw new Error(`You cannot add members as ${role}`);
+    }
+
+    if (await Q.company.member.exists({ playerMinecraftUuid: playerUuid })) {
+      throw new Error("That player is already a member of a company");
+    }
+
+    const member = await Q.company.member.createAndReturn({
+      companyId,
+      playerMinecraftUuid: playerUuid,
+      role,
+    });
+
+    logger.info(
+      `Company #${companyId}: ${actorUuid} added ${playerUuid} as ${role}`,
+    );
+
+    return member;
+  }
+
+  /**
+   * Removes a member from a company
+   *
+   * Members can always remove themselves (leave), except the owner.
+   *
+   * @param companyId - Company ID
+   * @param actorUuid - Member removing the player
+   * @param playerUuid - Member to remove
+   * @throws Error if the actor may not remove this member
+   */
+  async removeMember(
+    companyId: number,
+    actorUuid: string,
+    playerUuid: string,
+  ): Promise<void> {
+    const target = await this.requireMember(companyId, playerUuid);
+
+    if (target.role === CompanyRole.OWNER) {
+      throw new Error("The owner cannot leave or be removed from the company");
+    }
+
+    if (actorUuid !== playerUuid) {
+      const actor = await this.requireMember(companyId, actorUuid);
+
+      if (!canManageRole(actor.role, target.role)) {
+        throw new Error(`You cannot remove a member with the ${target.role} role`);
+      }
+    }
+
+    await Q.company.member.delete({
+      companyId,
+      playerMinecraftUuid: playerUuid,
+    });
+
+    logger.info(`Company #${companyId}: ${actorUuid} removed ${playerUuid}`);
+  }
+
+  /**
+   * Changes a member's role
+   *
+   * @param companyId - Company ID
+   * @param actorUuid - Member changing the role
+   * @param playerUuid - Member whose role changes
+   * @param role - New role (manager or employee)
+   * @returns Promise resolving to the updated membership
+   * @throws Error if the actor may not set roles or the target is the owner
+   */
+  async setRole(
+    companyId: number,
+    actorUuid: string,
+    playerUuid: string,
+    role: CompanyRole,
+  ): Promise<CompanyMember> {
+    const actor = await this.requireMember(companyId, actorUuid);
+    const target = await this.requireMember(companyId, playerUuid);
+
+    if (!hasCompanyPermission(actor.role, CompanyPermission.SET_ROLES)) {
+      throw new Error("You do not have permission to change roles");
+    }
+
+    if (target.role === CompanyRole.OWNER || role === CompanyRole.OWNER) {
+      throw new Error("Company ownership cannot be changed");
+    }
+
+    const updated = await Q.company.member.updateAndReturn(
+      { companyId, playerMinecraftUuid: playerUuid },
+      { role },
+    );
+
+    logger.info(
+      `Company #${companyId}: ${actorUuid} set role of ${playerUuid} to ${role}`,
+    );
+
+    return updated;
+  }
+
+  /**
+   * Sets the salary a member receives on each payroll run
+   *
+   * Owners may set any salary including their own, managers only those of
+   * employees.
+   *
+   * @param companyId - Company ID
+   * @param actorUuid - Member setting the salary
+   * @param playerUuid - Member receiving the salary
+   * @param salary - Salary per payroll run (0 to remove)
+   * @returns Promise resolving to the updated membership
+   * @throws Error if the actor may not change this member's salary
+   */
+  async setSalary(
+    companyId: number,
+    actorUuid: string,
+    playerUuid: string,
+    salary: number,
+  ): Promise<CompanyMember> {
+    const actor = await this.requireMember(companyId, actorUuid);
+    const target = await this.requireMember(companyId, playerUuid);
+
+    if (
+      actor.role !== CompanyRole.OWNER &&
+      !canManageRole(actor.role, target.role)
+    ) {
+      throw new Error("You cannot change this member's salary");
+    }
+
+    BalanceUtils.validate(salary);
+
+    const updated = await Q.company.member.updateAndReturn(
+      { companyId, playerMinecraftUuid: playerUuid },
+      { salary: BalanceUtils.toStorage(salary) },
+    );
+
+    logger.info(
+      `Company #${companyId}: ${actorUuid} set salary of ${playerUuid} to $${BalanceUtils.format(updated.salary)}`,
+    );
+
+    return updated;
+  }
+
+  // ============================================================================
+  // BALANCE METHODS
+  // ============================================================================
+
+  /**
+   * Moves money from a member's balance into the company account
+   *
+   * @param companyId - Company ID
+   * @param actorUuid - Member depositing
+   * @param amount - Amount to deposit (must be positive)
+   * @param note - Optional note for the ledger
+   * @returns Promise resolving to the company ledger entry
+   * @throws Error if the member lacks permission or balance
+   */
+  async deposit(
+    companyId: number,
+    actorUuid: string,
+    amount: number,
+    note?: string,
+  ): Promise<CompanyTransaction> {
+    const { company } = await this.requirePermission(
+      companyId,
+      actorUuid,
+      CompanyPermission.DEPOSIT,
+    );
+    const amountBigInt = this.parseAmount(amount);
+
+    return await db.inTransaction(async (tx) => {
+      await balanceRepo.deduct(
+        actorUuid,
+        amount,
+        note || `Deposit to ${company.name}`,
+        BalanceTransactionType.COMPANY_DEPOSIT,
+        { companyId },
+        tx,
+      );
+
+      return await this.logMovement(tx, {
+        companyId,
+        amount: amountBigInt,
+        transactionType: CompanyTransactionType.DEPOSIT,
+        description: note,
+        relatedPlayerUuid: actorUuid,
+        performedByUuid: actorUuid,
+      });
+    });
+  }
+
+  /**
+   * Moves money from the company account to a member's balance
+   *
+   * @param companyId - Company ID
+   * @param actorUuid - Member withdrawing
+   * @param amount - Amount to withdraw (must be positive)
+   * @param note - Optional note for the ledger
+   * @returns Promise resolving to the company ledger entry
+   * @throws Error if the member lacks permission or the company lacks
+   * balance
+   */
+  async withdraw(
+    companyId: number,
+    actorUuid: string,
+    amount: number,
+    note?: string,
+  ): Promise<CompanyTransaction> {
+    const { company } = await this.requirePermission(
+      companyId,
+      actorUuid,
+      CompanyPermission.WITHDRAW,
+    );
+    const amountBigInt = this.parseAmount(amount);
+
+    return await db.inTransaction(async (tx) => {
+      const current = await tx.company.get({ id: companyId });
+
+      if (current.balance < amountBigInt) {
+        throw new Error(
+          `Insufficient company balance: has ${BalanceUtils.format(current.balance)}, needs ${BalanceUtils.format(amountBigInt)}`,
+        );
+      }
+
+      const entry = await this.logMovement(tx, {
+        companyId,
+        amount: -amountBigInt,
+        transactionType: CompanyTransactionType.WITHDRAWAL,
+        description: note,
+        relatedPlayerUuid: actorUuid,
+        performedByUuid: actorUuid,
+      });
+
+      await balanceRepo.add(
+        actorUuid,
+        amount,
+        note || `Withdrawal from ${company.name}`,
+        BalanceTransactionType.COMPANY_WITHDRAWAL,
+        { companyId, companyTransactionId: entry.id },
+        tx,
+      );
+
+      return entry;
+    });
+  }
+
+  /**
+   * Pays every member with a salary from the company account
+   *
+   * All salaries are paid in one database transaction: if the company
+   * cannot cover the full payroll, nobody is paid.
+   *
+   * @param companyId - Company ID
+   * @param actorUuid - Member running the payroll
+   * @returns Promise resolving to the payments made
+   * @throws Error if the member lacks permission, no salaries are set or
+   * the company lacks balance
+   */
+  async runPayroll(
+    companyId: number,
+    actorUuid: string,
+  ): Promise<PayrollPayment[]> {
+    const { company } = await this.requirePermission(
+      companyId,
+      actorUuid,
+      CompanyPermission.RUN_PAYROLL,
+    );
+
+    const members = await this.getMembers(companyId);
+    const payments: PayrollPayment[] = members
+      .filter((member) => member.salary > 0n)
+      .map((member) => ({
+        playerMinecraftUuid: member.playerMinecraftUuid,
+        minecraftUsername: member.minecraftUsername,
+        amount: member.salary,
+      }));
+
+    if (payments.length === 0) {
+      throw new Error("No members have a salary set");
+    }
+
+    const total = payments.reduce((sum, payment) => sum + payment.amount, 0n);
+    const payrollId = `${companyId}-${Date.now()}`;
+
+    await db.inTransaction(async (tx) => {
+      const current = await tx.company.get({ id: companyId });
+
+      if (current.balance < total) {
+        throw new Error(
+          `Insufficient company balance: has ${BalanceUtils.format(current.balance)}, payroll needs ${BalanceUtils.format(total)}`,
+        );
+      }
+
+      for (const payment of payments) {
+        const entry = await this.logMovement(tx, {
+          companyId,
+          amount: -payment.amount,
+          transactionType: CompanyTransactionType.PAYROLL,
+          description: `Salary for ${payment.minecraftUsername}`,
+          relatedPlayerUuid: payment.playerMinecraftUuid,
+          performedByUuid: actorUuid,
+          metadata: { payrollId },
+        });
+
+        await balanceRepo.add(
+          payment.playerMinecraftUuid,
+          BalanceUtils.fromStorage(payment.amount),
+          `Salary from ${company.name}`,
+          BalanceTransactionType.COMPANY_PAYROLL,
+          { companyId, companyTransactionId: entry.id, payrollId },
+          tx,
+        );
+      }
+    });
+
+    logger.info(
+      `Company #${companyId}: ${actorUuid} ran payroll of $${BalanceUtils.format(total)} for ${payments.length} member(s)`,
+    );
+
+    return payments;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Fetches a membership or throws a user-facing error
+   * @private
+   */
+  private async requireMember(
+    companyId: number,
+    playerUuid: string,
+  ): Promise<CompanyMember> {
+    const member = await Q.company.member.find({
+      companyId,
+      playerMinecraftUuid: playerUuid,
+    });
+
+    if (!member) {
+      throw new Error("That player is not a member of this company");
+    }
+
+    return member;
+  }
+
+  /**
+   * Fetches the company and checks that a member's role grants a permission
+   * @private
+   */
+  private async requirePermission(
+    companyId: number,
+    actorUuid: string,
+    permission: CompanyPermission,
+  ): Promise<{ company: Company; member: CompanyMember }> {
+    const company = await this.get(companyId);
+
+    if (!company) {
+      throw new Error(`Company #${companyId} does not exist`);
+    }
+
+    const member = await Q.company.member.find({
+      companyId,
+      playerMinecraftUuid: actorUuid,
+    });
+
+    if (!member) {
+      throw new Error("You are not a member of this company");
+    }
+
+    if (!hasCompanyPermission(member.role, permission)) {
+      throw new Error(
+        `Your role (${member.role}) does not have permission to do this`,
+      );
+    }
+
+    return { company, member };
+  }
+
+  /**
+   * Validates a positive amount and converts it to storage format
+   * @private
+   */
+  private parseAmount(amount: number): bigint {
+    if (amount <= 0) {
+      throw new Error("Amount must be positive");
+    }
+
+    return BalanceUtils.toStorage(amount);
+  }
+
+  /**
+   * Adjusts the company balance and writes the company ledger entry
+   * @private
+   */
+  private async logMovement(
+    tx: typeof db,
+    data: {
+      companyId: number;
+      amount: bigint;
+      transactionType: CompanyTransactionType;
+      description?: string;
+      relatedPlayerUuid?: string;
+      performedByUuid?: string;
+      metadata?: Record<string, any>;
+    },
+  ): Promise<CompanyTransaction> {
+    const { balanceBefore, balanceAfter } = await tx.company.adjustBalance(
+      data.companyId,
+      data.amount,
+    );
+
+    const entry = await tx.company.transaction.createAndReturn({
+      companyId: data.companyId,
+      amount: data.amount,
+      balanceBefore,
+      balanceAfter,
+      transactionType: data.transactionType,
+      description: data.description ?? null,
+      relatedPlayerUuid: data.relatedPlayerUuid ?? null,
+      performedByUuid: data.performedByUuid ?? null,
+      metadata: data.metadata ?? {},
+    });
+
+    logger.info(
+      `Company transaction: ${data.transactionType} - ${BalanceUtils.format(data.amount)} for company #${data.companyId}`,
+    );
+
+    return entry;
+  }
+}
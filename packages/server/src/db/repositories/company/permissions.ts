@@ -0,0 +1,72 @@
+export enum CompanyRole {
+  OWNER = "owner",
+  MANAGER = "manager",
+  EMPLOYEE = "employee",
+}
+
+export enum CompanyPermission {
+  DEPOSIT = "deposit",
+  WITHDRAW = "withdraw",
+  RUN_PAYROLL = "runPayroll",
+  MANAGE_MEMBERS = "manageMembers",
+  SET_ROLES = "setRoles",
+}
+
+/**
+ * Permissions granted to each company role
+ */
+export const COMPANY_ROLE_PERMISSIONS: Record<
+  CompanyRole,
+  CompanyPermission[]
+> = {
+  [CompanyRole.OWNER]: Object.values(CompanyPermission),
+  [CompanyRole.MANAGER]: [
+    CompanyPermission.DEPOSIT,
+    CompanyPermission.WITHDRAW,
+    CompanyPermission.RUN_PAYROLL,
+    CompanyPermission.MANAGE_MEMBERS,
+  ],
+  [CompanyRole.EMPLOYEE]: [CompanyPermission.DEPOSIT],
+};
+
+/**
+ * Checks whether a role grants a permission
+ *
+ * @param role - Member role (unknown roles have no permissions)
+ * @param permission - Permission to check
+ * @returns True if the role grants the permission
+ */
+export function hasCompanyPermission(
+  role: string,
+  permission: CompanyPermission,
+): boolean {
+  return (
+    COMPANY_ROLE_PERMISSIONS[role as CompanyRole]?.includes(permission) ??
+    false
+  );
+}
+
+/**
+ * Checks whether a member may hire, fire or change the salary of a member
+ * with the given role
+ *
+ * Owners manage managers and employees, managers manage employees only.
+ * Nobody manages the owner.
+ *
+ * @param actorRole - Role of the member making the change
+ * @param targetRole - Role of the member being changed
+ * @returns True if the change is allowed
+ */
+export function canManageRole(actorRole: string, targetRole: string): boolean {
+  if (!hasCompanyPermission(actorRole, CompanyPermission.MANAGE_MEMBERS)) {
+    return false;
+  }
+
+  if (targetRole === CompanyRole.OWNER) {
+    return false;
+  }
+
+  return (
+    actorRole === CompanyRole.OWNER || targetRole === CompanyRole.EMPLOYEE
+  );
+}
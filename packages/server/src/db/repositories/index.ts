@@ -1,3 +1,5 @@
 export { WaitlistRepository } from "./waitlist";
 export { PlaytimeRepository } from "./playtime";
 export { BalanceRepository } from "./balance";
+export { MarketRepository } from "./market";
+export { CompanyRepository } from "./company";
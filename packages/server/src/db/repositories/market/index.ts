@@ -0,0 +1,212 @@
+import { balanceRepo, db, Q } from "@/db";
+import type {
+  MarketListingSearchOptions,
+  MarketListingWithSeller,
+} from "@/db/queries/market/listing";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type { MarketListing, MarketPurchase } from "@/generated/db";
+
+export enum MarketListingStatus {
+  ACTIVE = "active",
+  SOLD_OUT = "sold_out",
+  CANCELLED = "cancelled",
+}
+
+interface CreateListingData {
+  sellerUuid: string;
+  itemName: string;
+  itemId?: string;
+  description?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+interface PurchaseResult {
+  listing: MarketListing;
+  purchase: MarketPurchase;
+  buyerBalance: number;
+}
+
+/**
+ * Repository for the player marketplace
+ *
+ * Handles:
+ * - Creating, browsing and searching listings
+ * - Purchases, settled through BalanceRepository as PURCHASE and SALE
+ *   transactions in the same database transaction as the stock update
+ * - Cancelling listings
+ */
+export class MarketRepository {
+  /**
+   * Creates an active listing
+   *
+   * @param data - Seller, item and price per unit
+   * @returns Promise resolving to the created listing
+   * @throws Error if the quantity or price is invalid
+   */
+  async createListing(data: CreateListingData): Promise<MarketListing> {
+    if (!Number.isInteger(data.quantity) || data.quantity <= 0) {
+      throw new Error("Quantity must be a positive integer");
+    }
+
+    if (data.unitPrice <= 0) {
+      throw new Error("Price must be positive");
+    }
+
+    const listing = await Q.market.listing.createAndReturn({
+      sellerMinecraftUuid: data.sellerUuid,
+      itemName: data.itemName,
+      itemId: data.itemId ?? null,
+      description: data.description ?? null,
+      quantity: data.quantity,
+      unitPrice: BalanceUtils.toStorage(data.unitPrice),
+      status: MarketListingStatus.ACTIVE,
+    });
+
+    logger.info(
+      `Market listing #${listing.id} created by ${data.sellerUuid}: ${data.quantity}x ${data.itemName} at $${BalanceUtils.format(listing.unitPrice)} each`,
+    );
+
+    return listing;
+  }
+
+  /**
+   * Gets a listing with the seller's username
+   *
+   * @param id - Listing ID
+   * @returns Promise resolving to the listing, or null if not found
+   */
+  async getListing(id: number): Promise<MarketListingWithSeller | null> {
+    return await Q.market.listing.findWithSeller(id);
+  }
+
+  /**
+   * Searches listings
+   *
+   * @param options - Filters, sorting and pagination
+   * @returns Promise resolving to a page of listings and the total count
+   */
+  async searchListings(
+    options: MarketListingSearchOptions,
+  ): Promise<{ listings: MarketListingWithSeller[]; total: number }> {
+    return await Q.market.listing.search(options);
+  }
+
+  /**
+   * Buys units of a listing
+   *
+   * The stock update, purchase record and balance settlement run in one
+   * database transaction, so a failed payment never removes stock and
+   * concurrent buyers can never oversell a listing.
+   *
+   * @param listingId - Listing ID
+   * @param buyerUuid - Minecraft UUID of the buyer
+   * @param quantity - Units to buy
+   * @returns Promise resolving to the updated listing, the purchase record
+   * and the buyer's new balance
+   * @throws Error if the listing is unavailable, has too little stock or
+   * the buyer has insufficient balance
+   */
+  async purchase(
+    listingId: number,
+    buyerUuid: string,
+    quantity: number,
+  ): Promise<PurchaseResult> {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error("Quantity must be a positive integer");
+    }
+
+    const result = await db.inTransaction(async (tx) => {
+      const listing = await tx.market.listing.find({ id: listingId });
+
+      if (!listing) {
+        throw new Error(`Listing #${listingId} does not exist`);
+      }
+
+      if (listing.sellerMinecraftUuid === buyerUuid) {
+        throw new Error("You cannot buy your own listing");
+      }
+
+      const updated = await tx.market.listing.reserveStock(
+        listingId,
+        quantity,
+      );
+
+      if (!updated) {
+        throw new Error(
+          listing.status !== MarketListingStatus.ACTIVE
+            ? `Listing #${listingId} is ${listing.status.replace("_", " ")}`
+            : `Listing #${listingId} only has ${listing.quantity} unit(s) left`,
+        );
+      }
+
+      const totalPrice = listing.unitPrice * BigInt(quantity);
+
+      const purchase = await tx.market.purchase.createAndReturn({
+        listingId,
+        buyerMinecraftUuid: buyerUuid,
+        sellerMinecraftUuid: listing.sellerMinecraftUuid,
+        quantity,
+        unitPrice: listing.unitPrice,
+        totalPrice,
+      });
+
+      const { buyerBalance } = await balanceRepo.purchase(
+        buyerUuid,
+        listing.sellerMinecraftUuid,
+        BalanceUtils.fromStorage(totalPrice),
+        {
+          description: `Market listing #${listingId}: ${quantity}x ${listing.itemName}`,
+          metadata: {
+            marketListingId: listingId,
+            marketPurchaseId: purchase.id,
+            quantity,
+            unitPrice: BalanceUtils.format(listing.unitPrice),
+          },
+          tx,
+        },
+      );
+
+      return { listing: updated, purchase, buyerBalance };
+    });
+
+    logger.info(
+      `Market purchase #${result.purchase.id}: ${buyerUuid} bought ${quantity}x from listing #${listingId} for $${BalanceUtils.format(result.purchase.totalPrice)}`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Cancels an active listing
+   *
+   * Permission checks (seller or admin) are the caller's responsibility.
+   *
+   * @param id - Listing ID
+   * @param cancelledByDiscordId - Discord ID of the seller or admin
+   * @returns Promise resolving to the cancelled listing
+   * @throws Error if the listing does not exist or is no longer active
+   */
+  async cancelListing(
+    id: number,
+    cancelledByDiscordId: string,
+  ): Promise<MarketListing> {
+    const cancelled = await Q.market.listing.cancelActive(
+      id,
+      cancelledByDiscordId,
+    );
+
+    if (!cancelled) {
+      const listing = await Q.market.listing.find({ id });
+      throw new Error(
+        listing
+          ? `Listing #${id} is already ${listing.status.replace("_", " ")}`
+          : `Listing #${id} does not exist`,
+      );
+    }
+
+    logger.info(`Market listing #${id} cancelled by ${cancelledByDiscordId}`);
+
+    return cancelled;
+  }
+}
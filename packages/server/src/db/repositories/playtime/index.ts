@@ -1,24 +1,103 @@
-import { Q } from "@/db";
-import { ServerActivity } from "@/db/queries/player/playtime/daily";
+import pool, { db, Q, Transaction } from "@/db";
+import {
+  PlayerDailyTotal,
+  PlaytimeBucket,
+  ServerActivity,
+} from "@/db/queries/player/playtime/daily";
+import { PlayerDimensionPlaytime } from "@/db/queries/player/playtime/dimension/daily";
 import {
   PlayerHourlyPattern,
   ServerHeatMap,
 } from "@/db/queries/player/playtime/hourly";
 import {
   LeaderboardEntry,
+  PlayerPlaytimeRank,
+  PlaytimeAggregateTotals,
+  PlayerServerPlaytime,
   ServerStats,
 } from "@/db/queries/player/playtime/summary";
+import { PlayerSessionStats } from "@/db/queries/player/session";
+import {
+  FlaggedSession,
+  SessionFlagResolution,
+} from "@/db/queries/player/session/flag";
 import {
+  DatabaseTable,
   PlayerPlaytimeDaily,
   PlayerPlaytimeHourly,
   PlayerPlaytimeSummary,
   PlayerSession,
 } from "@/generated/db";
 import {
+  PlaytimeRebuildReport,
   PlaytimeService,
   SessionEndEvent,
   SessionStartEvent,
 } from "@/services/playtime";
+import { getDimensionShares } from "@/services/playtime/dimension";
+import {
+  diffAggregateTotals,
+  sumAggregateTotals,
+} from "@/services/playtime/rebuild";
+import { AdminEdit } from "@/types";
+import { DatabaseQueries } from "@/generated/db";
+
+/**
+ * A player's playtime in a dimension with its share of all dimension time
+ */
+export interface PlayerDimensionShare extends PlayerDimensionPlaytime {
+  /** Display name (e.g. Nether) */
+  name: string;
+  /** Rounded percentage of the player's dimension time */
+  percentage: number;
+}
+
+/**
+ * A player's playtime across all servers, as shown by /playtime
+ */
+export interface PlayerPlaytimeOverview {
+  /** Days covered by the totals, or null for all time */
+  periodDays: number | null;
+  totalSeconds: number;
+  servers: PlayerServerPlaytime[];
+  sessions: PlayerSessionStats;
+  /** Rank among all players for the period, or null without playtime */
+  rank: PlayerPlaytimeRank | null;
+  /** Time per dimension for the period, most played first */
+  dimensions: PlayerDimensionShare[];
+  /** Last 30 days, one entry per day, regardless of the period */
+  daily: PlayerDailyTotal[];
+}
+
+/**
+ * Bucket size of playtime range statistics
+ */
+export type PlaytimeGranularity = "hour" | "day";
+
+/**
+ * A player's playtime within a time range
+ */
+export interface PlayerPlaytimeRange {
+  totalSeconds: number;
+  /** Per-server totals over the days of the range */
+  servers: PlayerServerPlaytime[];
+  buckets: PlaytimeBucket[];
+  /** Time per dimension over the days of the range, most played first */
+  dimensions: PlayerDimensionShare[];
+}
+
+/**
+ * Activity on a server within a time range
+ */
+export interface ServerActivityRange {
+  totalSeconds: number;
+  buckets: PlaytimeBucket[];
+  topPlayers: {
+    minecraftUsername: string;
+    totalSeconds: number;
+    totalHours: number;
+  }[];
+}
 
 /**
  * Repository for playtime data management
@@ -88,17 +167,55 @@ export class PlaytimeRepository {
    * Called then PlaytimeService emits 'sessionEnd' event
    * Database triggers will handle aggregations automatically
    *
+   * AFK intervals are stored before the session is closed, so the
+   * aggregation trigger can exclude them from daily and hourly playtime.
+   * Sessions an admin ended or deleted in the meantime are left as they
+   * are.
+   *
    * @param event - Session end event data
    */
   async endSession(event: SessionEndEvent): Promise<void> {
     try {
-      await Q.player.session.update(
-        { id: event.sessionId },
-        { sessionEnd: event.sessionEnd },
-      );
+      const ended = await db.inTransaction(async (tx) => {
+        const sessionEnd = await tx.player.session.lockSession(event.sessionId);
+
+        if (sessionEnd !== null) {
+          return false;
+        }
+
+        for (const interval of event.afkIntervals) {
+          await tx.player.session.afk.create({
+            sessionId: event.sessionId,
+            afkStart: interval.start,
+            afkEnd: interval.end,
+          });
+        }
+
+        for (const interval of event.dimensionIntervals) {
+          await tx.player.session.dimension.create({
+            sessionId: event.sessionId,
+            dimension: interval.dimension,
+            dimensionStart: interval.start,
+            dimensionEnd: interval.end,
+          });
+        }
+
+        return tx.player.session.endOpenSession(
+          event.sessionId,
+          event.sessionEnd,
+          event.afkSeconds,
+        );
+      });
+
+      if (!ended) {
+        logger.warn(
+          `Session ${event.sessionId} of ${event.username} was already ended or deleted, leaving it unchanged`,
+        );
+        return;
+      }
 
       logger.info(
-        `Session ended: ${event.username} (${event.uuid}) - ${event.secondsPlayed}s`,
+        `Session ended: ${event.username} (${event.uuid}) - ${event.secondsPlayed}s active, ${event.afkSeconds}s AFK`,
       );
     } catch (error) {
       logger.error("Failed to end session:", error);
@@ -146,18 +263,66 @@ export class PlaytimeRepository {
     }
   }
 
+  /**
+   * Restores the sessions a server left open in the database into its
+   * PlaytimeService
+   *
+   * Open sessions remain after a backend crash. Restoring them lets the
+   * first heartbeat or presence sync continue or end them instead of
+   * starting overlapping ones.
+   *
+   * @param service - PlaytimeService of the server
+   * @param serverId - Server ID
+   * @returns Number of sessions restored
+   */
+  async restoreOpenSessions(
+    service: PlaytimeService,
+    serverId: number,
+  ): Promise<number> {
+    try {
+      const sessions = await Q.player.session.findOpenWithPlayers(serverId);
+
+      service.restoreSessions(
+        sessions.map((session) => ({
+          sessionId: session.id,
+          uuid: session.playerMinecraftUuid,
+          username: session.minecraftUsername,
+          sessionStart: session.sessionStart,
+        })),
+      );
+
+      return sessions.length;
+    } catch (error) {
+      logger.error(
+        `Failed to restore open sessions for server ${serverId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * End all active sessions for a server
    *
+   * Sessions that started after `sessionEnd` are left open.
+   *
    * @param serverId - Optional server ID (all servers if omitted)
+   * @param sessionEnd - When the sessions ended (default: now)
+   * @param excludeSessionIds - Sessions being ended elsewhere
    * @returns Promise resolving to the number of sessions terminated
    */
-  async endAllActiveSessions(serverId?: number): Promise<number> {
+  async endAllActiveSessions(
+    serverId?: number,
+    sessionEnd: Date = new Date(),
+    excludeSessionIds: number[] = [],
+  ): Promise<number> {
     try {
       const count = await Q.player.session.updateAll(
-        { sessionEnd: new Date() },
+        { sessionEnd },
         {
           ...(serverId && { serverId }),
+          id: { $nin: excludeSessionIds },
+          sessionStart: { $lte: sessionEnd },
           sessionEnd: null,
         },
       );
@@ -338,6 +503,117 @@ export class PlaytimeRepository {
     }
   }
 
+  /**
+   * Get a player's playtime overview across all servers
+   *
+   * All-time totals come from the summary table, period totals from the
+   * daily aggregates.
+   *
+   * @param playerMinecraftUuid - Player's Minecraft UUID
+   * @param periodDays - Number of days to cover, or null for all time
+   */
+  async getPlayerOverview(
+    playerMinecraftUuid: string,
+    periodDays: number | null,
+  ): Promise<PlayerPlaytimeOverview> {
+    const since =
+      periodDays === null
+        ? null
+        : new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000);
+
+    try {
+      const [servers, sessions, rank, daily, dimensions] = await Promise.all([
+        since
+          ? Q.player.playtime.daily.getPlayerTotalsByServer(
+              playerMinecraftUuid,
+              since,
+            )
+          : Q.player.playtime.summary.getPlayerTotalsByServer(
+              playerMinecraftUuid,
+            ),
+        Q.player.session.getPlayerSessionStats(playerMinecraftUuid, since),
+        since
+          ? Q.player.playtime.daily.getPlayerRank(playerMinecraftUuid, since)
+          : Q.player.playtime.summary.getPlayerRank(playerMinecraftUuid),
+        Q.player.playtime.daily.getPlayerDailyTotals(playerMinecraftUuid, 30),
+        Q.player.playtime.dimension.daily.getPlayerTotals(
+          playerMinecraftUuid,
+          since,
+        ),
+      ]);
+
+      return {
+        periodDays,
+        totalSeconds: servers.reduce(
+          (sum, server) => sum + server.totalSeconds,
+          0,
+        ),
+        servers,
+        sessions,
+        rank,
+        daily,
+        dimensions: getDimensionShares(dimensions),
+      };
+    } catch (error) {
+      logger.error("Failed to get player playtime overview:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a player's playtime within a time range, in hourly or daily buckets
+   *
+   * @param playerMinecraftUuid - Player's Minecraft UUID
+   * @param startDate - Start of the range
+   * @param endDate - End of the range
+   * @param granularity - Bucket size
+   * @param serverId - Optional server ID (all servers if omitted)
+   */
+  async getPlayerPlaytimeRange(
+    playerMinecraftUuid: string,
+    startDate: Date,
+    endDate: Date,
+    granularity: PlaytimeGranularity,
+    serverId?: number,
+  ): Promise<PlayerPlaytimeRange> {
+    const filters = { playerUuid: playerMinecraftUuid, serverId };
+
+    try {
+      const [servers, buckets, dimensions] = await Promise.all([
+        Q.player.playtime.daily.getPlayerTotalsByServer(
+          playerMinecraftUuid,
+          startDate,
+          endDate,
+        ),
+        granularity === "hour"
+          ? Q.player.playtime.hourly.getRangeTotals(filters, startDate, endDate)
+          : Q.player.playtime.daily.getRangeTotals(filters, startDate, endDate),
+        Q.player.playtime.dimension.daily.getPlayerTotals(
+          playerMinecraftUuid,
+          startDate,
+          endDate,
+          serverId,
+        ),
+      ]);
+
+      return {
+        totalSeconds: buckets.reduce(
+          (sum, bucket) => sum + bucket.totalSeconds,
+          0,
+        ),
+        servers:
+          serverId === undefined
+            ? servers
+            : servers.filter((server) => server.serverId === serverId),
+        buckets,
+        dimensions: getDimensionShares(dimensions),
+      };
+    } catch (error) {
+      logger.error("Failed to get player playtime range:", error);
+      throw error;
+    }
+  }
+
   // ============================================================================
   // SERVER STATISTICS
   // ============================================================================
@@ -449,6 +725,7 @@ export class PlaytimeRepository {
         sorted.map(async ([uuid, seconds]) => {
           const player = await Q.player.get({ minecraftUuid: uuid });
           return {
+            minecraftUuid: uuid,
             minecraftUsername: player.minecraftUsername,
             totalSeconds: Number(seconds),
             totalHours: Number(seconds) / 3600,
@@ -461,6 +738,257 @@ export class PlaytimeRepository {
     }
   }
 
+  /**
+   * Get server activity within a time range, in hourly or daily buckets,
+   * with the top players of the range
+   *
+   * @param serverId - Server ID
+   * @param startDate - Start of the range
+   * @param endDate - End of the range
+   * @param granularity - Bucket size
+   * @param topPlayersLimit - Number of top players to return
+   */
+  async getServerActivityRange(
+    serverId: number,
+    startDate: Date,
+    endDate: Date,
+    granularity: PlaytimeGranularity,
+    topPlayersLimit: number = 10,
+  ): Promise<ServerActivityRange> {
+    try {
+      const [buckets, topPlayers] = await Promise.all([
+        granularity === "hour"
+          ? Q.player.playtime.hourly.getRangeTotals(
+              { serverId },
+              startDate,
+              endDate,
+            )
+          : Q.player.playtime.daily.getRangeTotals(
+              { serverId },
+              startDate,
+              endDate,
+            ),
+        this.getTopPlayersByDateRange(
+          serverId,
+          startDate,
+          endDate,
+          topPlayersLimit,
+        ),
+      ]);
+
+      return {
+        totalSeconds: buckets.reduce(
+          (sum, bucket) => sum + bucket.totalSeconds,
+          0,
+        ),
+        buckets,
+        topPlayers,
+      };
+    } catch (error) {
+      logger.error("Failed to get server activity range:", error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // AGGREGATE MAINTENANCE
+  // ============================================================================
+
+  /**
+   * Recomputes the playtime aggregates from player_session
+   *
+   * The aggregate trigger only ever adds to the daily, hourly, dimension and
+   * summary tables, so corrected or deleted sessions leave them wrong. This
+   * deletes the aggregates in scope and replays every ended session in a
+   * single transaction. In dry-run mode the transaction is rolled back and
+   * only the diff is returned.
+   *
+   * @param scope - Optional player and server to limit the rebuild to
+   * @param dryRun - Whether to roll back instead of commit (default: true)
+   * @returns Promise resolving to the sessions replayed and changed totals
+   */
+  async rebuildAggregates(
+    scope: { playerUuid?: string; serverId?: number },
+    dryRun: boolean = true,
+  ): Promise<PlaytimeRebuildReport> {
+    const transaction = new Transaction(await pool.connect());
+    const tx = new DatabaseQueries(transaction.getClient());
+
+    let before: PlaytimeAggregateTotals[];
+    let after: PlaytimeAggregateTotals[];
+    let sessionsReplayed: number;
+
+    try {
+      await transaction.getClient().query("BEGIN");
+
+      before = await tx.player.playtime.summary.getAggregateTotals(scope);
+      sessionsReplayed =
+        await tx.player.session.rebuildPlaytimeAggregates(scope);
+      after = await tx.player.playtime.summary.getAggregateTotals(scope);
+    } catch (error) {
+      await transaction.rollback();
+      logger.error("Failed to rebuild playtime aggregates:", error);
+      throw error;
+    }
+
+    if (dryRun) {
+      await transaction.rollback();
+    } else {
+      await transaction.commit();
+    }
+
+    logger.info(
+      `Playtime aggregates rebuilt from ${sessionsReplayed} session(s)${dryRun ? " (dry run, rolled back)" : ""}`,
+    );
+
+    return {
+      scope,
+      dryRun,
+      sessionsReplayed,
+      changes: diffAggregateTotals(before, after),
+      totals: sumAggregateTotals(before, after),
+    };
+  }
+
+  // ============================================================================
+  // SESSION EDITING
+  // ============================================================================
+
+  /**
+   * Ends a flagged session at an earlier point in time
+   *
+   * Resolves the flags of the session, clips it, records the edit in the
+   * admin log and rebuilds the aggregates of the player on that server,
+   * all in one transaction. Only ended sessions can be truncated.
+   *
+   * @param flag - Flagged session to truncate
+   * @param sessionEnd - New end of the session
+   * @param admin - Discord ID and tag of the admin making the edit
+   * @returns Promise resolving to whether the flag was still open
+   */
+  async truncateFlaggedSession(
+    flag: FlaggedSession,
+    sessionEnd: Date,
+    admin: { discordId: string; discordUsername: string },
+  ): Promise<boolean> {
+    return this.editFlaggedSession(flag, "truncated", admin, async (tx) => {
+      await tx.player.session.endSessionAt(flag.sessionId, sessionEnd);
+
+      await tx.admin.log.action.logAction({
+        adminDiscordId: admin.discordId,
+        adminDiscordUsername: admin.discordUsername,
+        actionType: AdminEdit.TRUNCATE_SESSION,
+        targetPlayerUuid: flag.minecraftUuid,
+        targetPlayerName: flag.minecraftUsername,
+        tableName: DatabaseTable.PLAYER_SESSION.TABLE,
+        fieldName: DatabaseTable.PLAYER_SESSION.FIELDS.SESSION_END,
+        oldValue: flag.sessionEnd?.toISOString() ?? "open",
+        newValue: sessionEnd.toISOString(),
+        reason: `Flagged session (${flag.reason})`,
+        serverId: flag.serverId,
+        metadata: { flagId: flag.flagId, sessionId: flag.sessionId },
+      });
+    });
+  }
+
+  /**
+   * Deletes a flagged session
+   *
+   * Resolves the flags of the session, deletes it with its AFK and
+   * dimension intervals, records the edit in the admin log and rebuilds
+   * the aggregates of the player on that server, all in one transaction.
+   * Only ended sessions can be deleted.
+   *
+   * @param flag - Flagged session to delete
+   * @param admin - Discord ID and tag of the admin making the edit
+   * @returns Promise resolving to whether the flag was still open
+   */
+  async deleteFlaggedSession(
+    flag: FlaggedSession,
+    admin: { discordId: string; discordUsername: string },
+  ): Promise<boolean> {
+    return this.editFlaggedSession(flag, "deleted", admin, async (tx) => {
+      await tx.player.session.delete({ id: flag.sessionId });
+
+      await tx.admin.log.action.logAction({
+        adminDiscordId: admin.discordId,
+        adminDiscordUsername: admin.discordUsername,
+        actionType: AdminEdit.DELETE_SESSION,
+        targetPlayerUuid: flag.minecraftUuid,
+        targetPlayerName: flag.minecraftUsername,
+        tableName: DatabaseTable.PLAYER_SESSION.TABLE,
+        fieldName: DatabaseTable.PLAYER_SESSION.FIELDS.ID,
+        oldValue: String(flag.sessionId),
+        newValue: "deleted",
+        reason: `Flagged session (${flag.reason})`,
+        serverId: flag.serverId,
+        metadata: {
+          flagId: flag.flagId,
+          sessionStart: flag.sessionStart.toISOString(),
+          sessionEnd: flag.sessionEnd?.toISOString() ?? null,
+        },
+      });
+    });
+  }
+
+  /**
+   * Runs an edit of a flagged session in a transaction, after resolving
+   * its flags and before rebuilding the affected aggregates
+   *
+   * Open sessions are refused: their PlaytimeService still tracks them and
+   * ends them when the player leaves, which would undo the edit.
+   *
+   * @throws Error if the session is still open
+   * @private
+   */
+  private async editFlaggedSession(
+    flag: FlaggedSession,
+    resolution: SessionFlagResolution,
+    admin: { discordId: string },
+    edit: (tx: DatabaseQueries) => Promise<void>,
+  ): Promise<boolean> {
+    try {
+      const resolved = await db.inTransaction(async (tx) => {
+        const sessionEnd = await tx.player.session.lockSession(flag.sessionId);
+
+        if (sessionEnd === null) {
+          throw new Error(
+            `Session ${flag.sessionId} is still open and cannot be edited`,
+          );
+        }
+
+        const claimed = await tx.player.session.flag.resolve(
+          flag.flagId,
+          admin.discordId,
+          resolution,
+        );
+
+        if (!claimed) {
+          return false;
+        }
+
+        await edit(tx);
+        await tx.player.session.rebuildPlaytimeAggregates({
+          playerUuid: flag.minecraftUuid,
+          serverId: flag.serverId,
+        });
+
+        return true;
+      });
+
+      if (resolved) {
+        logger.info(
+          `Flagged session ${flag.sessionId} of ${flag.minecraftUsername} ${resolution} by ${admin.discordId}`,
+        );
+      }
+
+      return resolved;
+    } catch (error) {
+      logger.error(`Failed to edit flagged session ${flag.sessionId}:`, error);
+      throw error;
+    }
+  }
+
   // ============================================================================
   // INTEGRATION WITH PLAYTIME SERVICE
   // ============================================================================
@@ -499,9 +1027,13 @@ export class PlaytimeRepository {
       }
     });
 
-    service.on("serverShutdown", async (serverId: number) => {
+    service.on("serverShutdown", async (event) => {
       try {
-        const count = await this.endAllActiveSessions(serverId);
+        const count = await this.endAllActiveSessions(
+          serverId,
+          event.sessionEnd,
+          event.endedSessionIds,
+        );
         logger.info(
           `Fallback: Closed ${count} orphaned database sessions for server ${serverId}`,
         );
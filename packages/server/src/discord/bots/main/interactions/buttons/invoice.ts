@@ -0,0 +1,131 @@
+import { player } from "@/db";
+import { EmbedPresets } from "@/discord/embeds";
+import { getService, Services } from "@/services";
+import type { InvoiceService } from "@/services/invoice";
+import { formatBalance } from "@/utils/format";
+import { type ButtonInteraction, MessageFlags } from "discord.js";
+
+/**
+ * Handles invoice Pay/Decline buttons
+ * Pattern: invoice:*
+ */
+export const pattern = "invoice:*";
+
+/**
+ * Whether these buttons should be handled in production only
+ */
+export const prodOnly = false;
+
+/**
+ * Parses the button customId
+ * Format: invoice:<pay|decline>:<id>
+ */
+function parseCustomId(customId: string): {
+  action: "pay" | "decline";
+  id: number;
+} | null {
+  const [, action, id] = customId.split(":");
+  const invoiceId = parseInt(id);
+
+  if ((action !== "pay" && action !== "decline") || isNaN(invoiceId)) {
+    return null;
+  }
+
+  return { action, id: invoiceId };
+}
+
+/**
+ * Main execution handler for invoice buttons
+ *
+ * Button interaction flow:
+ * 1. Payer clicks "Pay" or "Decline" on an invoice
+ * 2. Custom ID is parsed (e.g., "invoice:pay:12")
+ * 3. The invoice is paid or declined as the clicking user's player; the
+ *    service checks that they are the payer
+ * 4. The service updates the invoice message, the user gets an ephemeral
+ *    confirmation or error
+ *
+ * @param interaction - The button interaction to handle
+ */
+export async function execute(interaction: ButtonInteraction): Promise<void> {
+  const parsed = parseCustomId(interaction.customId);
+
+  if (!parsed) {
+    await interaction.reply({
+      content: "Invalid button format",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const { action, id } = parsed;
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  try {
+    const payer = await player.find({ discordId: interaction.user.id });
+
+    if (!payer) {
+      await interaction.editReply({
+        embeds: [
+          EmbedPresets.error(
+            "Not Registered",
+            "You must be registered to pay invoices. Use `/register` to get started.",
+          ).build(),
+        ],
+      });
+      return;
+    }
+
+    const invoiceService = await getService<InvoiceService>(
+      Services.INVOICE_SERVICE,
+    );
+
+    if (action === "pay") {
+      const { invoice, fee } = await invoiceService.pay(
+        id,
+        payer.minecraftUuid,
+      );
+
+      await interaction.editReply({
+        embeds: [
+          EmbedPresets.success(
+            "Invoice Paid",
+            `You paid invoice #${invoice.id} from **${invoice.issuerUsername}**.` +
+              (fee > 0
+                ? ` A transfer fee of ${formatBalance(fee)} was charged.`
+                : ""),
+          ).build(),
+        ],
+      });
+
+      logger.info(
+        `User ${interaction.user.tag} (${interaction.user.id}) paid invoice #${id}`,
+      );
+    } else {
+      const invoice = await invoiceService.decline(id, payer.minecraftUuid);
+
+      await interaction.editReply({
+        embeds: [
+          EmbedPresets.success(
+            "Invoice Declined",
+            `You declined invoice #${invoice.id} from **${invoice.issuerUsername}**.`,
+          ).build(),
+        ],
+      });
+    }
+  } catch (error) {
+    logger.error(`Error handling invoice button (${action}:${id}):`, error);
+
+    await interaction.editReply({
+      embeds: [
+        EmbedPresets.error(
+          "Invoice Unavailable",
+          error instanceof Error
+            ? error.message
+            : "Something went wrong while processing the invoice.",
+        ).build(),
+      ],
+    });
+  }
+}
@@ -0,0 +1,338 @@
+import { playtimeRepo, Q } from "@/db";
+import type {
+  FlaggedSession,
+  SessionFlagResolution,
+} from "@/db/queries/player/session/flag";
+import { isAdminDb } from "@/db/utils";
+import { EmbedPresets } from "@/discord/embeds";
+import { isValidSessionEnd, parseSessionEnd } from "@/services/playtime/ghost";
+import {
+  type ButtonInteraction,
+  LabelBuilder,
+  MessageFlags,
+  ModalBuilder,
+  type ModalMessageModalSubmitInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
+
+/**
+ * Handles flagged (ghost) session buttons
+ * Pattern: session-flag:*
+ */
+export const pattern = "session-flag:*";
+
+/**
+ * Whether these buttons should be handled in production only
+ */
+export const prodOnly = false;
+
+export const permissionDeniedMessage = "You must be an admin to do that.";
+
+/**
+ * How long the admin has to submit the custom end time
+ */
+const MODAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+const SESSION_END_INPUT = "session-end";
+
+/**
+ * Interaction the outcome is shown on: the button itself, or the custom
+ * end time form opened from it
+ */
+type FlagInteraction = ButtonInteraction | ModalMessageModalSubmitInteraction;
+
+/**
+ * Permission check - requires admin role
+ */
+export async function checkPermission(
+  interaction: ButtonInteraction,
+): Promise<boolean> {
+  return await isAdminDb(interaction.user.id);
+}
+
+/**
+ * Parses the button customId
+ * Format: session-flag:<truncate|custom|delete|dismiss>:<flagId>[:<unix end>]
+ */
+function parseCustomId(customId: string): {
+  action: "truncate" | "custom" | "delete" | "dismiss";
+  flagId: number;
+  sessionEnd?: Date;
+} | null {
+  const [, action, id, end] = customId.split(":");
+  const flagId = parseInt(id);
+
+  if (isNaN(flagId)) return null;
+
+  if (action === "truncate") {
+    const seconds = parseInt(end);
+    if (isNaN(seconds)) return null;
+    return { action, flagId, sessionEnd: new Date(seconds * 1000) };
+  }
+
+  if (action !== "custom" && action !== "delete" && action !== "dismiss") {
+    return null;
+  }
+
+  return { action, flagId };
+}
+
+/**
+ * Main execution handler for flagged session buttons
+ *
+ * Button interaction flow:
+ * 1. Admin clicks truncate, custom end, delete or dismiss on a flagged
+ *    session
+ * 2. Custom ID is parsed (e.g., "session-flag:truncate:12:1735725600")
+ * 3. For a custom end, a form asks the admin for the end time
+ * 4. Open sessions are refused, since their playtime service ends them
+ *    when the player leaves, which would undo the edit
+ * 5. The session is edited, logged and its aggregates rebuilt
+ * 6. The flag message is replaced with the outcome
+ *
+ * @param button - The button interaction to handle
+ */
+export async function execute(button: ButtonInteraction): Promise<void> {
+  const parsed = parseCustomId(button.customId);
+
+  if (!parsed) {
+    await button.reply({
+      content: "Invalid button format",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  let interaction: FlagInteraction = button;
+
+  if (parsed.action === "custom") {
+    const submit = await promptSessionEnd(button, parsed.flagId);
+
+    if (!submit) {
+      return;
+    }
+
+    const sessionEnd = parseSessionEnd(
+      submit.fields.getTextInputValue(SESSION_END_INPUT),
+    );
+
+    if (!sessionEnd) {
+      await submit.reply({
+        embeds: [
+          EmbedPresets.error(
+            "Invalid End Time",
+            "Enter the end as `YYYY-MM-DD HH:MM` in UTC.",
+          ).build(),
+        ],
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    parsed.sessionEnd = sessionEnd;
+    interaction = submit;
+  }
+
+  await interaction.deferUpdate();
+
+  try {
+    const [flag] = await Q.player.session.flag.getFlaggedSessions([
+      parsed.flagId,
+    ]);
+
+    if (!flag) {
+      await interaction.message.edit({ components: [] });
+      await replyError(
+        interaction,
+        "Session Not Found",
+        "This session has already been deleted.",
+      );
+      return;
+    }
+
+    if (flag.resolvedAt) {
+      await replyAlreadyResolved(interaction, flag);
+      return;
+    }
+
+    if (parsed.action === "dismiss") {
+      const resolved = await Q.player.session.flag.resolve(
+        flag.flagId,
+        interaction.user.id,
+        "dismissed",
+      );
+
+      if (!resolved) {
+        await replyAlreadyResolved(interaction, flag);
+        return;
+      }
+
+      await showResolution(interaction, flag, "dismissed");
+      return;
+    }
+
+    if (!flag.sessionEnd) {
+      await replyError(
+        interaction,
+        "Session Still Open",
+        `The session of **${flag.minecraftUsername}** has not ended yet. It can be truncated or deleted once the player leaves.`,
+      );
+      return;
+    }
+
+    const admin = {
+      discordId: interaction.user.id,
+      discordUsername: interaction.user.tag,
+    };
+
+    if (parsed.action === "truncate" || parsed.action === "custom") {
+      const sessionEnd = parsed.sessionEnd!;
+
+      if (!isValidSessionEnd(flag, sessionEnd)) {
+        await replyError(
+          interaction,
+          "Invalid End Time",
+          "The new end must be after the session start and before its current end.",
+        );
+        return;
+      }
+
+      const resolved = await playtimeRepo.truncateFlaggedSession(
+        flag,
+        sessionEnd,
+        admin,
+      );
+
+      if (!resolved) {
+        await replyAlreadyResolved(interaction, flag);
+        return;
+      }
+
+      await showResolution(interaction, flag, "truncated", sessionEnd);
+    } else {
+      const resolved = await playtimeRepo.deleteFlaggedSession(flag, admin);
+
+      if (!resolved) {
+        await replyAlreadyResolved(interaction, flag);
+        return;
+      }
+
+      await showResolution(interaction, flag, "deleted");
+    }
+  } catch (error) {
+    logger.error("Failed to handle flagged session button:", error);
+
+    await replyError(
+      interaction,
+      "Session Edit Failed",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+}
+
+/**
+ * Asks the admin for a custom end time
+ *
+ * @returns The submitted form, or null if the admin did not submit it in
+ *   time
+ */
+async function promptSessionEnd(
+  interaction: ButtonInteraction,
+  flagId: number,
+): Promise<ModalMessageModalSubmitInteraction | null> {
+  const modalId = `session-flag-end:${flagId}:${interaction.id}`;
+
+  const modal = new ModalBuilder()
+    .setCustomId(modalId)
+    .setTitle("End Flagged Session")
+    .addLabelComponents(
+      new LabelBuilder()
+        .setLabel("End time (UTC)")
+        .setDescription("Between the session start and its current end")
+        .setTextInputComponent(
+          new TextInputBuilder()
+            .setCustomId(SESSION_END_INPUT)
+            .setStyle(TextInputStyle.Short)
+            .setPlaceholder("YYYY-MM-DD HH:MM")
+            .setRequired(true),
+        ),
+    );
+
+  await interaction.showModal(modal);
+
+  try {
+    const submit = await interaction.awaitModalSubmit({
+      filter: (submit) =>
+        submit.customId === modalId && submit.user.id === interaction.user.id,
+      time: MODAL_TIMEOUT_MS,
+    });
+
+    return submit.isFromMessage() ? submit : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replaces the flag message with the outcome and confirms to the admin
+ */
+async function showResolution(
+  interaction: FlagInteraction,
+  flag: FlaggedSession,
+  resolution: SessionFlagResolution,
+  sessionEnd?: Date,
+): Promise<void> {
+  const embed = EmbedPresets.playtime.flaggedSessionResolved({
+    flag,
+    resolution,
+    resolvedBy: interaction.user.tag,
+    sessionEnd,
+  });
+
+  await interaction.message.edit({
+    embeds: [embed.build()],
+    components: [],
+  });
+
+  await interaction.followUp({
+    embeds: [
+      EmbedPresets.success(
+        "Flagged Session Resolved",
+        resolution === "dismissed"
+          ? `Dismissed the flag, the session of **${flag.minecraftUsername}** was left unchanged.`
+          : `Session of **${flag.minecraftUsername}** ${resolution} and their playtime rebuilt.`,
+      ).build(),
+    ],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Tells the admin the flag was already handled and removes its buttons
+ */
+async function replyAlreadyResolved(
+  interaction: FlagInteraction,
+  flag: FlaggedSession,
+): Promise<void> {
+  await interaction.message.edit({ components: [] });
+  await replyError(
+    interaction,
+    "Already Resolved",
+    `This flag on the session of **${flag.minecraftUsername}** has already been resolved.`,
+  );
+}
+
+/**
+ * Sends an ephemeral error to the admin
+ */
+async function replyError(
+  interaction: FlagInteraction,
+  title: string,
+  message: string,
+): Promise<void> {
+  await interaction.followUp({
+    embeds: [EmbedPresets.error(title, message).build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
@@ -0,0 +1,107 @@
+import { balanceRepo, player } from "@/db";
+import {
+  TRANSACTION_TYPE_GROUPS,
+  type TransactionTypeGroup,
+} from "@/db/repositories/balance";
+import { EmbedPresets } from "@/discord/embeds";
+import { TRANSACTION_HISTORY_PAGE_SIZE } from "@/discord/embeds/presets/transactions";
+import { type ButtonInteraction, MessageFlags } from "discord.js";
+
+/**
+ * Handles transaction history navigation buttons
+ * Pattern: transactions:*
+ */
+export const pattern = "transactions:*";
+
+/**
+ * Whether these buttons should be handled in production only
+ */
+export const prodOnly = false;
+
+/**
+ * Parses the button customId
+ * Format: transactions:page:<group>:<page>
+ */
+function parseCustomId(customId: string): {
+  action: string;
+  group: TransactionTypeGroup;
+  page: number;
+} | null {
+  const [, action, group, page] = customId.split(":");
+  const pageNumber = parseInt(page);
+
+  if (
+    !action ||
+    !group ||
+    !(group in TRANSACTION_TYPE_GROUPS) ||
+    isNaN(pageNumber) ||
+    pageNumber < 0
+  ) {
+    return null;
+  }
+
+  return { action, group: group as TransactionTypeGroup, page: pageNumber };
+}
+
+/**
+ * Main execution handler for transaction history buttons
+ *
+ * Button interaction flow:
+ * 1. User clicks "Previous" or "Next" on their history
+ * 2. Custom ID is parsed (e.g., "transactions:page:rewards:2")
+ * 3. The requested page is fetched for the clicking user
+ * 4. The original message is updated in place
+ *
+ * @param interaction - The button interaction to handle
+ */
+export async function execute(interaction: ButtonInteraction): Promise<void> {
+  const parsed = parseCustomId(interaction.customId);
+
+  if (!parsed || parsed.action !== "page") {
+    await interaction.reply({
+      content: "Invalid button format",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const { group, page } = parsed;
+
+  try {
+    const playerData = await player.get({ discordId: interaction.user.id });
+
+    const { transactions, total } = await balanceRepo.getHistoryPage(
+      playerData,
+      {
+        page,
+        limit: TRANSACTION_HISTORY_PAGE_SIZE,
+        types: TRANSACTION_TYPE_GROUPS[group],
+      },
+    );
+
+    const { embed, components } = EmbedPresets.transactions.history({
+      transactions,
+      group,
+      page,
+      totalPages: Math.ceil(total / TRANSACTION_HISTORY_PAGE_SIZE),
+      total,
+    });
+
+    await interaction.update({
+      embeds: [embed.build()],
+      components,
+    });
+  } catch (error) {
+    logger.error("Transaction history navigation failed:", error);
+
+    await interaction.reply({
+      embeds: [
+        EmbedPresets.error(
+          "History Error",
+          "Something went wrong while fetching your transactions. Please try again.",
+        ).build(),
+      ],
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
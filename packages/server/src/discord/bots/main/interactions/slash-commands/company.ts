@@ -0,0 +1,689 @@
+import { companyRepo, player } from "@/db";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { CompanyRole } from "@/db/repositories/company";
+import { EmbedPresets } from "@/discord/embeds";
+import { CooldownType } from "@/discord/utils/cooldown";
+import type { Company, Player } from "@/generated/db";
+import { formatBalance } from "@/utils/format";
+import {
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  SlashCommandBuilder,
+  type User,
+} from "discord.js";
+
+const HISTORY_PAGE_SIZE = 10;
+
+const ROLE_CHOICES = [
+  { name: "Manager", value: CompanyRole.MANAGER },
+  { name: "Employee", value: CompanyRole.EMPLOYEE },
+];
+
+/**
+ * Slash command definition for the company command
+ * Lets players run companies with a shared balance, members and payroll
+ */
+export const data = new SlashCommandBuilder()
+  .setName("company")
+  .setDescription("Manage your company")
+  .addSubcommand((sub) =>
+    sub
+      .setName("create")
+      .setDescription("Found a new company")
+      .addStringOption((option) =>
+        option
+          .setName("name")
+          .setDescription("Company name")
+          .setRequired(true)
+          .setMinLength(3)
+          .setMaxLength(64),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("description")
+          .setDescription("Short description of the company")
+          .setRequired(false)
+          .setMaxLength(200),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("info")
+      .setDescription("Show a company's balance and members")
+      .addStringOption((option) =>
+        option
+          .setName("name")
+          .setDescription("Company name (defaults to your own company)")
+          .setRequired(false),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("hire")
+      .setDescription("Add a player to your company")
+      .addUserOption((option) =>
+        option
+          .setName("player")
+          .setDescription("The player to hire")
+          .setRequired(true),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("role")
+          .setDescription("Role of the new member (default: Employee)")
+          .setRequired(false)
+          .addChoices(...ROLE_CHOICES),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("fire")
+      .setDescription("Remove a player from your company")
+      .addUserOption((option) =>
+        option
+          .setName("player")
+          .setDescription("The member to remove")
+          .setRequired(true),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub.setName("leave").setDescription("Leave your company"),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("role")
+      .setDescription("Change a member's role (Owner only)")
+      .addUserOption((option) =>
+        option
+          .setName("player")
+          .setDescription("The member whose role to change")
+          .setRequired(true),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("role")
+          .setDescription("New role")
+          .setRequired(true)
+          .addChoices(...ROLE_CHOICES),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("salary")
+      .setDescription("Set the salary a member receives on each payroll")
+      .addUserOption((option) =>
+        option
+          .setName("player")
+          .setDescription("The member to pay")
+          .setRequired(true),
+      )
+      .addNumberOption((option) =>
+        option
+          .setName("amount")
+          .setDescription("Salary per payroll (0 to remove)")
+          .setRequired(true)
+          .setMinValue(0),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("deposit")
+      .setDescription("Move money from your balance to the company")
+      .addNumberOption((option) =>
+        option
+          .setName("amount")
+          .setDescription("Amount to deposit")
+          .setRequired(true)
+          .setMinValue(0.001),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("note")
+          .setDescription("Optional note for the company ledger")
+          .setRequired(false)
+          .setMaxLength(200),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("withdraw")
+      .setDescription("Move money from the company to your balance")
+      .addNumberOption((option) =>
+        option
+          .setName("amount")
+          .setDescription("Amount to withdraw")
+          .setRequired(true)
+          .setMinValue(0.001),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("note")
+          .setDescription("Optional note for the company ledger")
+          .setRequired(false)
+          .setMaxLength(200),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub.setName("payroll").setDescription("Pay every member their salary"),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("history")
+      .setDescription("Show your company's transaction history")
+      .addIntegerOption((option) =>
+        option
+          .setName("page")
+          .setDescription("Page number (default: 1)")
+          .setRequired(false)
+          .setMinValue(1),
+      ),
+  );
+
+/**
+ * Cooldown configuration for the company command
+ *
+ * - duration: 3 seconds
+ * - type: "user" - Each user has their own cooldown
+ */
+export const cooldown = {
+  duration: 3,
+  type: CooldownType.USER,
+  message: "Please wait before using company commands again!",
+};
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the company command
+ *
+ * Routes to the subcommand handler. Handlers throw errors with
+ * user-facing messages (e.g., missing permissions, insufficient balance),
+ * which are shown as an error embed.
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    switch (subcommand) {
+      case "create":
+        await handleCreate(interaction);
+        break;
+      case "info":
+        await handleInfo(interaction);
+        break;
+      case "hire":
+        await handleHire(interaction);
+        break;
+      case "fire":
+        await handleFire(interaction);
+        break;
+      case "leave":
+        await handleLeave(interaction);
+        break;
+      case "role":
+        await handleRole(interaction);
+        break;
+      case "salary":
+        await handleSalary(interaction);
+        break;
+      case "deposit":
+        await handleDeposit(interaction);
+        break;
+      case "withdraw":
+        await handleWithdraw(interaction);
+        break;
+      case "payroll":
+        await handlePayroll(interaction);
+        break;
+      case "history":
+        await handleHistory(interaction);
+        break;
+    }
+  } catch (error) {
+    logger.error(`/company ${subcommand} failed:`, error);
+
+    const embed = EmbedPresets.error(
+      "Company Error",
+      error instanceof Error ? error.message : "An unknown error occurred",
+    );
+
+    if (!interaction.replied && !interaction.deferred) {
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    } else {
+      await interaction.editReply({ embeds: [embed.build()] });
+    }
+  }
+}
+
+/**
+ * Handles /company create
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleCreate(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const owner = await requirePlayer(interaction.user);
+  const name = interaction.options.getString("name", true).trim();
+  const description =
+    interaction.options.getString("description") || undefined;
+
+  const company = await companyRepo.create(
+    owner.minecraftUuid,
+    name,
+    description,
+  );
+
+  const embed = EmbedPresets.success(
+    "Company Founded",
+    `**${company.name}** has been founded with you as its owner.\n\n` +
+      `Use \`/company hire\` to add members and \`/company deposit\` to fund it.`,
+  );
+
+  await interaction.reply({ embeds: [embed.build()] });
+}
+
+/**
+ * Handles /company info
+ *
+ * Shows the named company, or the caller's own company when no name is
+ * given.
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleInfo(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const name = interaction.options.getString("name");
+  let company: Company | null;
+
+  if (name) {
+    company = await companyRepo.getByName(name);
+
+    if (!company) {
+      throw new Error(`No company named "${name}" exists`);
+    }
+  } else {
+    company = (await requireMembership(interaction.user)).company;
+  }
+
+  const members = await companyRepo.getMembers(company.id);
+
+  const memberLines = members.map(
+    (member) =>
+      `**${member.minecraftUsername}** - ${capitalize(member.role)}` +
+      (member.salary > 0n
+        ? ` (${formatBalance(BalanceUtils.format(member.salary))})`
+        : ""),
+  );
+
+  const embed = EmbedPresets.info(
+    `🏢 ${company.name}`,
+    company.description ?? "",
+  )
+    .field(
+      "Balance",
+      formatBalance(BalanceUtils.format(company.balance)),
+      true,
+    )
+    .field("Members", `${members.length}`, true)
+    .field("Roster", memberLines.join("\n") || "No members")
+    .footer(`Founded ${company.createdAt.toLocaleDateString()}`);
+
+  await interaction.reply({
+    embeds: [embed.build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Handles /company hire
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleHire(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const { company, actor } = await requireMembership(interaction.user);
+  const target = await requirePlayer(
+    interaction.options.getUser("player", true),
+  );
+  const role =
+    (interaction.options.getString("role") as CompanyRole | null) ??
+    CompanyRole.EMPLOYEE;
+
+  await companyRepo.addMember(
+    company.id,
+    actor.minecraftUuid,
+    target.minecraftUuid,
+    role,
+  );
+
+  const embed = EmbedPresets.success(
+    "Member Hired",
+    `**${target.minecraftUsername}** joined **${company.name}** as ${capitalize(role)}.`,
+  );
+
+  await interaction.reply({ embeds: [embed.build()] });
+}
+
+/**
+ * Handles /company fire
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleFire(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const { company, actor } = await requireMembership(interaction.user);
+  const target = await requirePlayer(
+    interaction.options.getUser("player", true),
+  );
+
+  await companyRepo.removeMember(
+    company.id,
+    actor.minecraftUuid,
+    target.minecraftUuid,
+  );
+
+  const embed = EmbedPresets.success(
+    "Member Removed",
+    `**${target.minecraftUsername}** is no longer a member of **${company.name}**.`,
+  );
+
+  await interaction.reply({ embeds: [embed.build()] });
+}
+
+/**
+ * Handles /company leave
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleLeave(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const { company, actor } = await requireMembership(interaction.user);
+
+  await companyRepo.removeMember(
+    company.id,
+    actor.minecraftUuid,
+    actor.minecraftUuid,
+  );
+
+  const embed = EmbedPresets.success(
+    "Left Company",
+    `You are no longer a member of **${company.name}**.`,
+  );
+
+  await interaction.reply({
+    embeds: [embed.build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Handles /company role
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleRole(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const { company, actor } = await requireMembership(interaction.user);
+  const target = await requirePlayer(
+    interaction.options.getUser("player", true),
+  );
+  const role = interaction.options.getString("role", true) as CompanyRole;
+
+  await companyRepo.setRole(
+    company.id,
+    actor.minecraftUuid,
+    target.minecraftUuid,
+    role,
+  );
+
+  const embed = EmbedPresets.success(
+    "Role Updated",
+    `**${target.minecraftUsername}** is now ${capitalize(role)} of **${company.name}**.`,
+  );
+
+  await interaction.reply({ embeds: [embed.build()] });
+}
+
+/**
+ * Handles /company salary
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleSalary(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const { company, actor } = await requireMembership(interaction.user);
+  const target = await requirePlayer(
+    interaction.options.getUser("player", true),
+  );
+  const amount = interaction.options.getNumber("amount", true);
+
+  const member = await companyRepo.setSalary(
+    company.id,
+    actor.minecraftUuid,
+    target.minecraftUuid,
+    amount,
+  );
+
+  const embed = EmbedPresets.success(
+    "Salary Updated",
+    member.salary > 0n
+      ? `**${target.minecraftUsername}** will receive ${formatBalance(BalanceUtils.format(member.salary))} on each payroll.`
+      : `**${target.minecraftUsername}** no longer receives a salary.`,
+  );
+
+  await interaction.reply({
+    embeds: [embed.build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Handles /company deposit
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleDeposit(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const { company, actor } = await requireMembership(interaction.user);
+  const amount = interaction.options.getNumber("amount", true);
+  const note = interaction.options.getString("note") || undefined;
+
+  BalanceUtils.validate(amount);
+
+  const entry = await companyRepo.deposit(
+    company.id,
+    actor.minecraftUuid,
+    amount,
+    note,
+  );
+
+  const embed = EmbedPresets.success(
+    "Deposit Complete",
+    `You deposited **${formatBalance(BalanceUtils.format(entry.amount))}** to **${company.name}**.`,
+  ).field(
+    "Company Balance",
+    formatBalance(BalanceUtils.format(entry.balanceAfter)),
+    true,
+  );
+
+  await interaction.reply({
+    embeds: [embed.build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Handles /company withdraw
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleWithdraw(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const { company, actor } = await requireMembership(interaction.user);
+  const amount = interaction.options.getNumber("amount", true);
+  const note = interaction.options.getString("note") || undefined;
+
+  BalanceUtils.validate(amount);
+
+  const entry = await companyRepo.withdraw(
+    company.id,
+    actor.minecraftUuid,
+    amount,
+    note,
+  );
+
+  const embed = EmbedPresets.success(
+    "Withdrawal Complete",
+    `You withdrew **${formatBalance(BalanceUtils.format(-entry.amount))}** from **${company.name}**.`,
+  ).field(
+    "Company Balance",
+    formatBalance(BalanceUtils.format(entry.balanceAfter)),
+    true,
+  );
+
+  await interaction.reply({
+    embeds: [embed.build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Handles /company payroll
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handlePayroll(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const { company, actor } = await requireMembership(interaction.user);
+
+  await interaction.deferReply();
+
+  const payments = await companyRepo.runPayroll(
+    company.id,
+    actor.minecraftUuid,
+  );
+  const total = payments.reduce((sum, payment) => sum + payment.amount, 0n);
+
+  const embed = EmbedPresets.success(
+    "Payroll Complete",
+    `**${company.name}** paid ${formatBalance(BalanceUtils.format(total))} to ${payments.length} member(s).`,
+  ).field(
+    "Payments",
+    payments
+      .map(
+        (payment) =>
+          `**${payment.minecraftUsername}** - ${formatBalance(BalanceUtils.format(payment.amount))}`,
+      )
+      .join("\n"),
+  );
+
+  await interaction.editReply({ embeds: [embed.build()] });
+}
+
+/**
+ * Handles /company history
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleHistory(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const { company } = await requireMembership(interaction.user);
+  const page = (interaction.options.getInteger("page") ?? 1) - 1;
+
+  const { transactions, total } = await companyRepo.getHistoryPage(
+    company.id,
+    { page, limit: HISTORY_PAGE_SIZE },
+  );
+  const totalPages = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+
+  const lines = transactions.map((tx) => {
+    const sign = tx.amount >= 0n ? "+" : "-";
+    const amount = tx.amount >= 0n ? tx.amount : -tx.amount;
+    const who = tx.relatedPlayerUsername ?? tx.performedByUsername ?? "Unknown";
+
+    return (
+      `\`#${tx.id}\` ${sign}${formatBalance(BalanceUtils.format(amount))} ` +
+      `${capitalize(tx.transactionType)} - ${who}` +
+      (tx.description ? ` · ${tx.description}` : "")
+    );
+  });
+
+  const embed = EmbedPresets.info(
+    `📒 ${company.name} - Transactions`,
+    lines.join("\n") || "No transactions on this page.",
+  ).footer(`Page ${page + 1} of ${totalPages} · ${total} transaction(s)`);
+
+  await interaction.reply({
+    embeds: [embed.build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Looks up the registered player for a Discord user
+ *
+ * @param user - Discord user
+ * @returns The player
+ * @throws Error if the user is not registered
+ */
+async function requirePlayer(user: User): Promise<Player> {
+  const found = await player.find({ discordId: user.id });
+
+  if (!found) {
+    throw new Error(`${user.tag} is not registered in the system.`);
+  }
+
+  return found;
+}
+
+/**
+ * Looks up the caller's player and company
+ *
+ * @param user - Discord user running the command
+ * @returns The caller's player and company
+ * @throws Error if the user is not registered or not in a company
+ */
+async function requireMembership(
+  user: User,
+): Promise<{ actor: Player; company: Company }> {
+  const actor = await requirePlayer(user);
+  const membership = await companyRepo.getByPlayer(actor.minecraftUuid);
+
+  if (!membership) {
+    throw new Error(
+      "You are not a member of a company. Use `/company create` to found one.",
+    );
+  }
+
+  return { actor, company: membership.company };
+}
+
+/**
+ * Capitalizes the first letter of a role or transaction type
+ */
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
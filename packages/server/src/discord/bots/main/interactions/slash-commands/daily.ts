@@ -1,6 +1,7 @@
 import { EmbedPresets } from "@/discord/embeds";
 import { CooldownType } from "@/discord/utils/cooldown";
-import { rewardService } from "@/services/reward";
+import { rewardService, type RewardStreakInfo } from "@/services/reward";
+import { pluralize } from "@/utils/format";
 import {
   type ChatInputCommandInteraction,
   MessageFlags,
@@ -42,7 +43,7 @@ export const prodOnly = false;
  * 2. Check eligibility for daily reward via reward service
  * 3. If not eligible, display when they can claim next
  * 4. If eligible, attempt to claim the reward
- * 5. Display success message with amount claimed and new balance
+ * 5. Display success message with amount claimed, new balance and streak
  * 6. Handle and report any errors that occur during the process
  *
  * @param interaction - The chat input command interaction
@@ -75,6 +76,10 @@ export async function execute(
         );
       }
 
+      if (eligibility.streak) {
+        embed.field("Streak", formatStreak(eligibility.streak), false);
+      }
+
       await interaction.reply({
         embeds: [embed.build()],
         flags: MessageFlags.Ephemeral,
@@ -104,6 +109,14 @@ export async function execute(
       .field("New Balance", `$${result.newBalance}`, true)
       .timestamp();
 
+    if (result.streak) {
+      embed.field("Streak", formatStreak(result.streak), true);
+
+      if (result.streak.multiplier > 1) {
+        embed.field("Multiplier", `x${result.streak.multiplier}`, true);
+      }
+    }
+
     if (result.nextClaimTime) {
       const timestamp = Math.floor(result.nextClaimTime.getTime() / 1000);
       embed.field("Next Claim", `<t:${timestamp}:R>`, true);
@@ -131,3 +144,13 @@ export async function execute(
     });
   }
 }
+
+/**
+ * Formats streak info for display in an embed field
+ *
+ * @param streak - Current and best streak
+ * @returns Formatted string (e.g., "🔥 3 days (best: 7)")
+ */
+function formatStreak(streak: RewardStreakInfo): string {
+  return `🔥 ${streak.current} ${pluralize(streak.current, "day")} (best: ${streak.best})`;
+}
@@ -0,0 +1,151 @@
+import { EmbedPresets } from "@/discord/embeds";
+import { CooldownType } from "@/discord/utils/cooldown";
+import { getService, Services } from "@/services";
+import type {
+  EconomyStatsService,
+  LedgerReconciliationService,
+} from "@/services/economy";
+import {
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+
+/**
+ * Slash command definition for the economy command
+ * Admin-only command for inspecting the health of the economy and
+ * reconciling the transaction ledger
+ */
+export const data = new SlashCommandBuilder()
+  .setName("economy")
+  .setDescription("Economy tools (Admin only)")
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+  .addSubcommand((sub) =>
+    sub
+      .setName("stats")
+      .setDescription("Show money supply, wealth distribution and issuance")
+      .addIntegerOption((option) =>
+        option
+          .setName("days")
+          .setDescription("Number of days to report on (default: 7)")
+          .setRequired(false)
+          .setMinValue(1)
+          .setMaxValue(90),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("reconcile")
+      .setDescription("Check every transaction chain against stored balances")
+      .addBooleanOption((option) =>
+        option
+          .setName("repair")
+          .setDescription(
+            "Record reconciliation entries for affected players (default: false)",
+          )
+          .setRequired(false),
+      ),
+  );
+
+/**
+ * Cooldown configuration for the economy command
+ *
+ * - duration: 5 seconds
+ * - type: "user" - Each user has their own cooldown
+ * - message: Custom message shown when user is on cooldown
+ */
+export const cooldown = {
+  duration: 5,
+  type: CooldownType.USER,
+  message: "Please wait before using the economy command again!",
+};
+
+/**
+ * Permission configuration for the economy command
+ * Requires administrator privileges to execute
+ */
+export const permissions = {
+  requireAdmin: true,
+};
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development environments
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the economy command
+ *
+ * Process:
+ * 1. Routes to the appropriate subcommand handler
+ * 2. For "stats" subcommand:
+ *      - Calculates economy statistics for the requested period
+ *      - Replies with an ephemeral statistics embed
+ * 3. For "reconcile" subcommand:
+ *      - Replays every player's ledger, repairing it if requested
+ *      - Replies with an ephemeral report embed
+ *      - Posts repaired reports to the admin channel for the record
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    if (subcommand === "stats") {
+      const days = interaction.options.getInteger("days") ?? 7;
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const statsService = await getService<EconomyStatsService>(
+        Services.ECONOMY_STATS_SERVICE,
+      );
+      const stats = await statsService.getStats(days);
+
+      await interaction.editReply({
+        embeds: [EmbedPresets.economy.stats(stats).build()],
+      });
+    } else if (subcommand === "reconcile") {
+      const repair = interaction.options.getBoolean("repair") ?? false;
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const reconciliationService =
+        await getService<LedgerReconciliationService>(
+          Services.LEDGER_RECONCILIATION_SERVICE,
+        );
+      const report = await reconciliationService.run({ repair });
+
+      if (repair && report.players.length > 0) {
+        await reconciliationService.postReport(report);
+      }
+
+      await interaction.editReply({
+        embeds: [EmbedPresets.economy.reconciliation(report).build()],
+      });
+    }
+  } catch (error) {
+    logger.error(`/economy ${subcommand} failed:`, error);
+
+    const embed = EmbedPresets.error(
+      subcommand === "reconcile"
+        ? "Ledger Reconciliation Failed"
+        : "Economy Stats Failed",
+      error instanceof Error ? error.message : "An unknown error occurred",
+    );
+
+    if (interaction.deferred || interaction.replied) {
+      await interaction.editReply({ embeds: [embed.build()] });
+    } else {
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+}
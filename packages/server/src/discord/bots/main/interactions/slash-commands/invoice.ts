@@ -0,0 +1,349 @@
+import { player } from "@/db";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { EmbedPresets } from "@/discord/embeds";
+import { CooldownType } from "@/discord/utils/cooldown";
+import { getService, Services } from "@/services";
+import { InvoiceService, InvoiceStatus } from "@/services/invoice";
+import type { Player } from "@/generated/db";
+import {
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  SlashCommandBuilder,
+} from "discord.js";
+
+/**
+ * Number of invoices shown by /invoice list
+ */
+const LIST_LIMIT = 10;
+
+/**
+ * Slash command definition for the invoice command
+ * Allows users to request payments from other players
+ */
+export const data = new SlashCommandBuilder()
+  .setName("invoice")
+  .setDescription("Request a payment from another player")
+  .addSubcommand((sub) =>
+    sub
+      .setName("create")
+      .setDescription("Send a payment request to another player")
+      .addUserOption((option) =>
+        option
+          .setName("payer")
+          .setDescription("The player who should pay")
+          .setRequired(true),
+      )
+      .addNumberOption((option) =>
+        option
+          .setName("amount")
+          .setDescription("Amount to request (e.g., 50)")
+          .setRequired(true)
+          .setMinValue(0.001),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("note")
+          .setDescription("What the payment is for (e.g., trains)")
+          .setRequired(false)
+          .setMaxLength(200),
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("expires_in")
+          .setDescription("Hours until the invoice expires (default: 24)")
+          .setRequired(false)
+          .setMinValue(1)
+          .setMaxValue(168),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("cancel")
+      .setDescription("Cancel a pending invoice you sent")
+      .addIntegerOption((option) =>
+        option
+          .setName("id")
+          .setDescription("Invoice ID")
+          .setRequired(true)
+          .setMinValue(1),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("list")
+      .setDescription("Show invoices you sent and received")
+      .addStringOption((option) =>
+        option
+          .setName("status")
+          .setDescription("Only show invoices with this status")
+          .setRequired(false)
+          .addChoices(
+            { name: "Pending", value: InvoiceStatus.PENDING },
+            { name: "Paid", value: InvoiceStatus.PAID },
+            { name: "Declined", value: InvoiceStatus.DECLINED },
+            { name: "Cancelled", value: InvoiceStatus.CANCELLED },
+            { name: "Expired", value: InvoiceStatus.EXPIRED },
+          ),
+      ),
+  );
+
+/**
+ * Cooldown configuration for the invoice command
+ *
+ * - duration: 5 seconds
+ * - type: "user" - Each user has their own cooldown
+ * - message: Custom message shown when the user is on cooldown
+ */
+export const cooldown = {
+  duration: 5,
+  type: CooldownType.USER,
+  message: "Please wait before using the invoice command again!",
+};
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the invoice command
+ *
+ * Routes to the appropriate subcommand handler:
+ * - create: posts a payment request with Pay/Decline buttons for the payer
+ * - cancel: cancels a pending invoice sent by the user
+ * - list: shows the user's most recent invoices
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    if (subcommand === "create") {
+      await handleCreate(interaction);
+    } else if (subcommand === "cancel") {
+      await handleCancel(interaction);
+    } else if (subcommand === "list") {
+      await handleList(interaction);
+    }
+  } catch (error) {
+    logger.error(`/invoice ${subcommand} failed:`, error);
+
+    const embed = EmbedPresets.error(
+      "Invoice Failed",
+      error instanceof Error
+        ? error.message
+        : "Something went wrong while processing the invoice.",
+    );
+
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    } else {
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+}
+
+/**
+ * Handles /invoice create
+ *
+ * Process:
+ * 1. Validate the payer and amount
+ * 2. Validate that both users are registered
+ * 3. Create the invoice
+ * 4. Post the invoice with Pay/Decline buttons, mentioning the payer
+ * 5. Remember the message so it can be updated once the invoice resolves
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleCreate(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const issuer = interaction.user;
+  const payer = interaction.options.getUser("payer", true);
+  const amount = interaction.options.getNumber("amount", true);
+  const note = interaction.options.getString("note") || undefined;
+  const expiresInHours = interaction.options.getInteger("expires_in");
+
+  if (issuer.id === payer.id || payer.bot) {
+    const embed = EmbedPresets.error(
+      "Invalid Invoice",
+      "You can only send invoices to other players.",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  try {
+    BalanceUtils.validate(amount);
+  } catch (error) {
+    const embed = EmbedPresets.error(
+      "Invalid Amount",
+      error instanceof Error
+        ? error.message
+        : "Amount must have at most 3 decimals!",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const issuerPlayer = await findRegisteredPlayer(interaction);
+
+  if (!issuerPlayer) {
+    return;
+  }
+
+  const payerPlayer = await player.find({ discordId: payer.id });
+
+  if (!payerPlayer) {
+    const embed = EmbedPresets.error(
+      "Payer Not Registered",
+      `${payer.tag} is not registered in the system.`,
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const invoiceService = await getService<InvoiceService>(
+    Services.INVOICE_SERVICE,
+  );
+
+  const invoice = await invoiceService.create({
+    issuerUuid: issuerPlayer.minecraftUuid,
+    payerUuid: payerPlayer.minecraftUuid,
+    amount,
+    note,
+    ttlMs: expiresInHours ? expiresInHours * 60 * 60 * 1000 : undefined,
+  });
+
+  await interaction.reply({
+    content: `${payer}`,
+    embeds: [EmbedPresets.invoice.invoice(invoice).build()],
+    components: EmbedPresets.invoice.buttons(invoice),
+  });
+
+  const message = await interaction.fetchReply();
+  await invoiceService.attachMessage(invoice.id, message.channelId, message.id);
+
+  logger.info(
+    `User ${issuer.tag} (${issuer.id}) sent invoice #${invoice.id} of $${amount} to ${payer.tag} (${payer.id})${note ? ` - Note: ${note}` : ""}`,
+  );
+}
+
+/**
+ * Handles /invoice cancel
+ *
+ * Cancels a pending invoice sent by the user
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleCancel(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const id = interaction.options.getInteger("id", true);
+
+  const issuerPlayer = await findRegisteredPlayer(interaction);
+
+  if (!issuerPlayer) {
+    return;
+  }
+
+  const invoiceService = await getService<InvoiceService>(
+    Services.INVOICE_SERVICE,
+  );
+  const cancelled = await invoiceService.cancel(id, issuerPlayer.minecraftUuid);
+
+  await interaction.reply({
+    embeds: [EmbedPresets.invoice.invoice(cancelled).build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Handles /invoice list
+ *
+ * Shows the user's most recent sent and received invoices
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleList(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const status = interaction.options.getString("status") || undefined;
+
+  const playerData = await findRegisteredPlayer(interaction);
+
+  if (!playerData) {
+    return;
+  }
+
+  const invoiceService = await getService<InvoiceService>(
+    Services.INVOICE_SERVICE,
+  );
+  const { invoices, total } = await invoiceService.list({
+    playerUuid: playerData.minecraftUuid,
+    status,
+    limit: LIST_LIMIT,
+    offset: 0,
+  });
+
+  const embed = EmbedPresets.invoice.list({
+    invoices,
+    playerUuid: playerData.minecraftUuid,
+    total,
+  });
+
+  await interaction.reply({
+    embeds: [embed.build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Fetches the player linked to the user, replying with an error if they
+ * are not registered
+ *
+ * @param interaction - The chat input command interaction
+ * @returns The player, or null if the user is not registered
+ */
+async function findRegisteredPlayer(
+  interaction: ChatInputCommandInteraction,
+): Promise<Player | null> {
+  const playerData = await player.find({ discordId: interaction.user.id });
+
+  if (!playerData) {
+    const embed = EmbedPresets.error(
+      "Not Registered",
+      "You must be registered to use invoices. Use `/register` to get started.",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+
+  return playerData;
+}
@@ -65,7 +65,7 @@ export const prodOnly = false;
  * 3. Validate that sender and recipient are different users
  * 4. Validate that both users are registered in the system
  * 5. Validate the amount (positive, max 3 decimals)
- * 6. Check if sender has sufficient balance
+ * 6. Check if sender has sufficient balance to cover the amount and fee
  * 7. Execute the transfer using the balance repository
  * 8. Display success message with transaction details
  * 9. Handle and report any errors that occur during the process
@@ -148,7 +148,13 @@ export async function execute(interaction: ChatInputCommandInteraction) {
       return;
     }
 
-    const hasSufficient = await balanceRepo.hasSufficient(senderPlayer, amount);
+    const fee = balanceRepo.getTransferFee(amount);
+    const required =
+      BalanceUtils.toStorage(amount) + BalanceUtils.toStorage(fee);
+    const hasSufficient = await balanceRepo.hasSufficient(
+      senderPlayer,
+      BalanceUtils.fromStorage(required),
+    );
 
     if (!hasSufficient) {
       const senderBalance = await balanceRepo.getAmount(senderPlayer);
@@ -157,7 +163,10 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         "Insufficient Balance",
         `You don't have enough money to complete this transfer.\n\n` +
           `**Your Balance:** $${BalanceUtils.format(BalanceUtils.toStorage(senderBalance))}\n` +
-          `**Required:** $${BalanceUtils.format(BalanceUtils.toStorage(amount))}`,
+          `**Required:** $${BalanceUtils.format(required)}` +
+          (fee > 0
+            ? ` (including $${BalanceUtils.format(BalanceUtils.toStorage(fee))} fee)`
+            : ""),
       );
 
       await interaction.reply({
@@ -183,6 +192,14 @@ export async function execute(interaction: ChatInputCommandInteraction) {
       true,
     );
 
+    if (result.fee > 0) {
+      embed.field(
+        "Transfer Fee",
+        `${formatBalance(BalanceUtils.format(BalanceUtils.toStorage(result.fee)))}`,
+        true,
+      );
+    }
+
     if (note) {
       embed.field("Note", note, false);
     }
@@ -0,0 +1,162 @@
+import { player, playtimeRepo } from "@/db";
+import { Discord } from "@/discord/constants";
+import { EmbedPresets } from "@/discord/embeds";
+import { CooldownType } from "@/discord/utils/cooldown";
+import { MINECRAFT_SERVERS, getServerById } from "@/services/playtime/config";
+import {
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+
+/**
+ * Slash command definition for the playtime-rebuild command
+ * Admin-only command for recomputing the playtime aggregate tables from
+ * the stored sessions
+ */
+export const data = new SlashCommandBuilder()
+  .setName("playtime-rebuild")
+  .setDescription("Rebuild playtime aggregates from sessions (Admin only)")
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+  .addUserOption((option) =>
+    option
+      .setName("user")
+      .setDescription("Player to rebuild (default: all players)")
+      .setRequired(false),
+  )
+  .addIntegerOption((option) =>
+    option
+      .setName("server")
+      .setDescription("Server to rebuild (default: all servers)")
+      .setRequired(false)
+      .addChoices(
+        ...Object.values(MINECRAFT_SERVERS).map((server) => ({
+          name: server.name,
+          value: server.id,
+        })),
+      ),
+  )
+  .addBooleanOption((option) =>
+    option
+      .setName("apply")
+      .setDescription(
+        "Write the rebuilt aggregates instead of a dry run (default: false)",
+      )
+      .setRequired(false),
+  );
+
+/**
+ * Cooldown configuration for the playtime-rebuild command
+ *
+ * - duration: 30 seconds (locks the session table while running)
+ * - type: "global" - Only one rebuild at a time
+ * - message: Custom message shown when the command is on cooldown
+ */
+export const cooldown = {
+  duration: 30,
+  type: CooldownType.GLOBAL,
+  message: "A playtime rebuild was started recently, please wait!",
+};
+
+/**
+ * Permission configuration for the playtime-rebuild command
+ * Requires administrator privileges to execute
+ */
+export const permissions = {
+  requireAdmin: true,
+};
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development environments
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the playtime-rebuild command
+ *
+ * Process:
+ * 1. Resolve the scope from the user and server options
+ * 2. Replay the sessions in scope inside a transaction and diff the
+ *    aggregates before and after
+ * 3. Roll back for a dry run, commit when applying
+ * 4. Reply with an ephemeral report embed
+ * 5. Post applied rebuilds with changes to the admin channel for the record
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const target = interaction.options.getUser("user");
+  const serverId = interaction.options.getInteger("server") ?? undefined;
+  const apply = interaction.options.getBoolean("apply") ?? false;
+
+  try {
+    let playerData: Awaited<ReturnType<typeof player.find>> = null;
+
+    if (target) {
+      playerData = await player.find({ discordId: target.id });
+
+      if (!playerData) {
+        const embed = EmbedPresets.error(
+          "Not Registered",
+          `${target.tag} is not registered in the system.`,
+        );
+
+        await interaction.reply({
+          embeds: [embed.build()],
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const report = await playtimeRepo.rebuildAggregates(
+      { playerUuid: playerData?.minecraftUuid, serverId },
+      !apply,
+    );
+
+    const scopeLabel = [
+      playerData?.minecraftUsername ?? "all players",
+      serverId !== undefined
+        ? (getServerById(serverId)?.name ?? `Server ${serverId}`)
+        : "all servers",
+    ].join(" on ");
+
+    const embed = EmbedPresets.playtime.rebuild(report, scopeLabel);
+
+    if (apply && report.changes.length > 0) {
+      const result = await Discord.Messages.send({
+        channelId: Discord.Channels.administration.NOTIFICATIONS,
+        embeds: embed.build(),
+      });
+
+      if (!result.success) {
+        logger.warn("Failed to post playtime rebuild report");
+      }
+    }
+
+    await interaction.editReply({ embeds: [embed.build()] });
+  } catch (error) {
+    logger.error("/playtime-rebuild failed:", error);
+
+    const embed = EmbedPresets.error(
+      "Playtime Rebuild Failed",
+      error instanceof Error ? error.message : "An unknown error occurred",
+    );
+
+    if (interaction.deferred || interaction.replied) {
+      await interaction.editReply({ embeds: [embed.build()] });
+    } else {
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { player, playtimeRepo } from "@/db";
+import { EmbedPresets } from "@/discord/embeds";
+import { CooldownType } from "@/discord/utils/cooldown";
+import { generatePlaytimeChart } from "@/discord/utils/playtime-chart";
+import {
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  SlashCommandBuilder,
+} from "discord.js";
+
+/**
+ * Slash command definition for the playtime command
+ * Displays playtime statistics with a chart of recent daily activity
+ */
+export const data = new SlashCommandBuilder()
+  .setName("playtime")
+  .setDescription("Show playtime statistics")
+  .addUserOption((option) =>
+    option
+      .setName("user")
+      .setDescription("Player to show (default: yourself)")
+      .setRequired(false),
+  )
+  .addStringOption((option) =>
+    option
+      .setName("period")
+      .setDescription("Period to show totals for (default: all time)")
+      .setRequired(false)
+      .addChoices(
+        { name: "All time", value: "all" },
+        { name: "Last 30 days", value: "30" },
+        { name: "Last 7 days", value: "7" },
+      ),
+  );
+
+/**
+ * Cooldown configuration for the playtime command
+ *
+ * - duration: 10 seconds (chart rendering)
+ * - type: "user" - Each user has their own cooldown
+ * - message: Custom message shown when user is on cooldown
+ */
+export const cooldown = {
+  duration: 10,
+  type: CooldownType.USER,
+  message: "Please wait before checking playtime again!",
+};
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development mode
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the playtime command
+ *
+ * Process:
+ * 1. Resolve the target user (option or the user themselves)
+ * 2. Look up the linked Minecraft account
+ * 3. Load totals, per-server playtime, session stats and rank for the period
+ * 4. Render the last 30 days of daily playtime as a bar chart
+ * 5. Reply with the statistics embed and the chart attached
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const target = interaction.options.getUser("user") ?? interaction.user;
+  const period = interaction.options.getString("period") ?? "all";
+  const isSelf = target.id === interaction.user.id;
+
+  try {
+    const playerData = await player.find({ discordId: target.id });
+
+    if (!playerData) {
+      const embed = EmbedPresets.error(
+        "Not Registered",
+        isSelf
+          ? "You must be registered to see your playtime. Use `/register` to get started."
+          : `${target.tag} is not registered in the system.`,
+      );
+
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.deferReply();
+
+    const overview = await playtimeRepo.getPlayerOverview(
+      playerData.minecraftUuid,
+      period === "all" ? null : parseInt(period),
+    );
+
+    const chart = generatePlaytimeChart(
+      overview.daily,
+      `Daily playtime - last ${overview.daily.length} days`,
+    );
+
+    await interaction.editReply({
+      embeds: [
+        EmbedPresets.playtime
+          .overview(playerData.minecraftUsername, overview)
+          .build(),
+      ],
+      files: [chart],
+    });
+  } catch (error) {
+    logger.error("/playtime failed:", error);
+
+    const embed = EmbedPresets.error(
+      "Playtime Error",
+      "Something went wrong while fetching playtime. Please try again.",
+    );
+
+    if (interaction.deferred || interaction.replied) {
+      await interaction.editReply({ embeds: [embed.build()], files: [] });
+    } else {
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { Q } from "@/db";
+import { EmbedPresets } from "@/discord/embeds";
+import { CooldownType } from "@/discord/utils/cooldown";
+import { getService, Services } from "@/services";
+import {
+  type LeaderboardService,
+  LeaderboardType,
+} from "@/services/discord/leaderboard";
+import {
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  SlashCommandBuilder,
+} from "discord.js";
+
+/**
+ * Slash command definition for the privacy command
+ * Lets users choose whether they appear on public leaderboards
+ */
+export const data = new SlashCommandBuilder()
+  .setName("privacy")
+  .setDescription("Manage your privacy settings")
+  .addStringOption((option) =>
+    option
+      .setName("balance-leaderboard")
+      .setDescription("Show or hide your balance on the richest players board")
+      .setRequired(true)
+      .addChoices(
+        { name: "Show me", value: "show" },
+        { name: "Hide me", value: "hide" },
+      ),
+  );
+
+/**
+ * Cooldown configuration for the privacy command
+ *
+ * - duration: 10 seconds
+ * - type: "user" - Each user has their own cooldown
+ * - message: Custom message shown when user is on cooldown
+ */
+export const cooldown = {
+  duration: 10,
+  type: CooldownType.USER,
+  message: "Please wait before changing your privacy settings again!",
+};
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development mode
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the privacy command to update leaderboard visibility
+ *
+ * Process:
+ * 1. Look up the user's player record
+ * 2. Update the balance leaderboard opt-out flag
+ * 3. Refresh the balance leaderboard so the change is visible immediately
+ * 4. Confirm the new setting to the user
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const hide =
+    interaction.options.getString("balance-leaderboard", true) === "hide";
+
+  try {
+    const player = await Q.player.find({ discordId: interaction.user.id });
+
+    if (!player) {
+      const embed = EmbedPresets.error(
+        "Not Registered",
+        "You must be registered to change privacy settings. Use `/register` to get started.",
+      );
+
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await Q.player.balance.update(
+      { minecraftUuid: player.minecraftUuid },
+      { hideFromLeaderboard: hide },
+    );
+
+    try {
+      const leaderboardService = await getService<LeaderboardService>(
+        Services.LEADERBOARD_SERVICE,
+      );
+      await leaderboardService.refresh(LeaderboardType.BALANCE);
+    } catch (error) {
+      logger.warn("Failed to refresh balance leaderboard:", error);
+    }
+
+    const embed = EmbedPresets.success(
+      "Privacy Updated",
+      hide
+        ? "You are now hidden from the balance leaderboard."
+        : "You are now shown on the balance leaderboard.",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+
+    logger.info(
+      `User ${interaction.user.tag} (${interaction.user.id}) ${hide ? "hid" : "showed"} their balance on the leaderboard`,
+    );
+  } catch (error) {
+    logger.error("/privacy failed:", error);
+
+    const embed = EmbedPresets.error(
+      "Update Failed",
+      "Something went wrong while updating your privacy settings.",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
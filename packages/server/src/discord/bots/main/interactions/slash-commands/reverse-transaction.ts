@@ -0,0 +1,183 @@
+import { balanceRepo } from "@/db";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { EmbedPresets } from "@/discord/embeds";
+import { confirmAdminChange } from "@/discord/utils/flows/confirmation/admin-confirmation";
+import {
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+
+/**
+ * Slash command definition for the reverse-transaction command
+ * Administrative command for reversing a balance transaction with linked refunds
+ */
+export const data = new SlashCommandBuilder()
+  .setName("reverse-transaction")
+  .setDescription("Reverse a balance transaction (Admin only)")
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+  .addIntegerOption((option) =>
+    option
+      .setName("id")
+      .setDescription("Transaction ID to reverse")
+      .setRequired(true)
+      .setMinValue(1),
+  )
+  .addStringOption((option) =>
+    option
+      .setName("reason")
+      .setDescription("Reason for the reversal")
+      .setRequired(true)
+      .setMaxLength(200),
+  )
+  .addBooleanOption((option) =>
+    option
+      .setName("allow-shortfall")
+      .setDescription(
+        "Take back only what a balance still covers if it cannot cover the reversal",
+      )
+      .setRequired(false),
+  );
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development mode
+ */
+export const prodOnly = false;
+
+/**
+ * Permission configuration for the reverse-transaction command
+ * Requires administrator privileges to execute
+ */
+export const permissions = {
+  requireAdmin: true,
+};
+
+/**
+ * Executes the reverse-transaction command
+ *
+ * Process:
+ * 1. Preview the reversal (validates the transaction and finds both sides
+ *    of transfers)
+ * 2. Refuse if a balance does not cover the reversal without the override
+ * 3. Show confirmation dialog with the balance change of every side
+ * 4. On confirmation, write linked REFUND entries and audit log entries in
+ *    a single database transaction
+ * 5. Handle and report any errors that occur during the process
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const id = interaction.options.getInteger("id", true);
+  const reason = interaction.options.getString("reason", true);
+  const allowShortfall =
+    interaction.options.getBoolean("allow-shortfall") ?? false;
+
+  try {
+    const plan = await balanceRepo.previewReversal(id);
+    const uncoveredSides = plan.filter((side) => side.shortfall > 0n);
+
+    if (uncoveredSides.length > 0 && !allowShortfall) {
+      const embed = EmbedPresets.error(
+        "Reversal Refused",
+        `A balance does not cover the reversal of transaction #${id}:\n\n` +
+          uncoveredSides
+            .map(
+              (side) =>
+                `**${side.playerUsername}:** has \`${BalanceUtils.format(side.balanceBefore)}\`, short by \`${BalanceUtils.format(side.shortfall)}\``,
+            )
+            .join("\n") +
+          `\n\nRun the command again with \`allow-shortfall: True\` to take back only what is left.`,
+      );
+
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const warnings = [
+      "✅ A REFUND entry linked to the original transaction is created for every side",
+      "✅ The reversal is written to the admin audit log",
+    ];
+
+    if (uncoveredSides.length > 0) {
+      warnings.unshift(
+        `⚠️ Override enabled: ${uncoveredSides.map((side) => `${side.playerUsername} (short by ${BalanceUtils.format(side.shortfall)})`).join(", ")} will be left at 0`,
+      );
+    }
+
+    await confirmAdminChange({
+      interaction,
+      title: "Reverse Transaction",
+      description:
+        `You are about to reverse transaction #${id}` +
+        (plan.length > 1
+          ? ` and its counterpart #${plan[1].transaction.id}`
+          : ""),
+      changes: plan.map((side) => ({
+        name: `${side.playerUsername} (#${side.transaction.id} ${side.transaction.transactionType})`,
+        oldValue: BalanceUtils.format(side.balanceBefore),
+        newValue: BalanceUtils.format(side.balanceAfter),
+      })),
+      warnings,
+      reason,
+      onConfirm: async () => {
+        const refunds = await balanceRepo.reverse(id, {
+          reason,
+          allowShortfall,
+          admin: {
+            discordId: interaction.user.id,
+            discordUsername: interaction.user.tag,
+          },
+          metadata: { commandUsed: "/reverse-transaction" },
+        });
+
+        const successEmbed = EmbedPresets.success(
+          "Transaction Reversed",
+          `Successfully reversed transaction #${id}\n\n` +
+            refunds
+              .map(
+                (refund) =>
+                  `**Refund #${refund.id}:** \`${BalanceUtils.format(refund.amount)}\` → balance \`${BalanceUtils.format(refund.balanceAfter)}\``,
+              )
+              .join("\n") +
+            `\n**Reason:** ${reason}`,
+        );
+
+        await interaction.editReply({
+          embeds: [successEmbed.build()],
+          components: [],
+        });
+
+        logger.info(
+          `Admin ${interaction.user.tag} reversed transaction #${id}: ${reason}`,
+        );
+      },
+    });
+  } catch (error) {
+    logger.error("Error in reverse-transaction command:", error);
+
+    const embed = EmbedPresets.error(
+      "Reversal Failed",
+      error instanceof Error ? error.message : "An unknown error occurred",
+    );
+
+    if (!interaction.replied && !interaction.deferred) {
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    } else {
+      await interaction.editReply({
+        embeds: [embed.build()],
+        components: [],
+      });
+    }
+  }
+}
@@ -0,0 +1,349 @@
+import { player } from "@/db";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { EmbedPresets } from "@/discord/embeds";
+import { CooldownType } from "@/discord/utils/cooldown";
+import { ConfirmationFlow } from "@/discord/utils/flows/confirmation";
+import { getService, Services } from "@/services";
+import { TradeService } from "@/services/trade";
+import {
+  ButtonStyle,
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  SlashCommandBuilder,
+} from "discord.js";
+
+/**
+ * Slash command definition for the trade command
+ * Allows users to offer money to another player with escrow protection
+ */
+export const data = new SlashCommandBuilder()
+  .setName("trade")
+  .setDescription("Trade money with another player using escrow")
+  .addSubcommand((sub) =>
+    sub
+      .setName("offer")
+      .setDescription("Offer money to another player")
+      .addUserOption((option) =>
+        option
+          .setName("recipient")
+          .setDescription("The player to offer money to")
+          .setRequired(true),
+      )
+      .addNumberOption((option) =>
+        option
+          .setName("amount")
+          .setDescription("Amount to offer (e.g., 10)")
+          .setRequired(true)
+          .setMinValue(0.001),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("note")
+          .setDescription("What the offer is for (e.g., 64 brass ingots)")
+          .setRequired(false)
+          .setMaxLength(200),
+      ),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("cancel")
+      .setDescription("Cancel a pending trade offer you made")
+      .addIntegerOption((option) =>
+        option
+          .setName("id")
+          .setDescription("Trade offer ID")
+          .setRequired(true)
+          .setMinValue(1),
+      ),
+  );
+
+/**
+ * Cooldown configuration for the trade command
+ *
+ * - duration: 5 seconds
+ * - type: "user" - Each user has their own cooldown
+ * - message: Custom message shown when the user is on cooldown
+ */
+export const cooldown = {
+  duration: 5,
+  type: CooldownType.USER,
+  message: "Please wait before making another trade offer!",
+};
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the trade command
+ *
+ * Routes to the appropriate subcommand handler:
+ * - offer: moves the amount into escrow and asks the recipient to accept
+ * - cancel: refunds a pending offer made by the user
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    if (subcommand === "offer") {
+      await handleOffer(interaction);
+    } else if (subcommand === "cancel") {
+      await handleCancel(interaction);
+    }
+  } catch (error) {
+    logger.error(`/trade ${subcommand} failed:`, error);
+
+    const embed = EmbedPresets.error(
+      "Trade Failed",
+      error instanceof Error
+        ? error.message
+        : "Something went wrong while processing the trade.",
+    );
+
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    } else {
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+}
+
+/**
+ * Handles /trade offer
+ *
+ * Process:
+ * 1. Validate the recipient and amount
+ * 2. Validate that both users are registered
+ * 3. Create the offer, moving the amount into escrow
+ * 4. Post the offer with Accept/Decline buttons for the recipient
+ * 5. Expire and refund the offer if the recipient does not respond
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleOffer(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const sender = interaction.user;
+  const recipient = interaction.options.getUser("recipient", true);
+  const amount = interaction.options.getNumber("amount", true);
+  const note = interaction.options.getString("note") || undefined;
+
+  if (sender.id === recipient.id || recipient.bot) {
+    const embed = EmbedPresets.error(
+      "Invalid Trade",
+      "You can only trade with other players.",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  try {
+    BalanceUtils.validate(amount);
+  } catch (error) {
+    const embed = EmbedPresets.error(
+      "Invalid Amount",
+      error instanceof Error
+        ? error.message
+        : "Amount must have at most 3 decimals!",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const senderPlayer = await player.find({ discordId: sender.id });
+
+  if (!senderPlayer) {
+    const embed = EmbedPresets.error(
+      "Not Registered",
+      "You must be registered to trade. Use `/register` to get started.",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const recipientPlayer = await player.find({ discordId: recipient.id });
+
+  if (!recipientPlayer) {
+    const embed = EmbedPresets.error(
+      "Recipient Not Registered",
+      `${recipient.tag} is not registered in the system.`,
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const tradeService = await getService<TradeService>(Services.TRADE_SERVICE);
+
+  const offer = await tradeService.createOffer({
+    senderUuid: senderPlayer.minecraftUuid,
+    recipientUuid: recipientPlayer.minecraftUuid,
+    amount,
+    note,
+  });
+
+  const parties = {
+    senderName: senderPlayer.minecraftUsername,
+    recipientName: recipientPlayer.minecraftUsername,
+  };
+
+  await ConfirmationFlow.create(interaction, {
+    embed: EmbedPresets.trade.offer(offer, parties),
+    content: `${recipient}`,
+    buttons: [
+      {
+        label: "Accept",
+        style: ButtonStyle.Success,
+        emoji: "✅",
+        customId: "accept",
+        handler: async (btnInteraction) => {
+          try {
+            const accepted = await tradeService.accept(
+              offer.id,
+              recipientPlayer.minecraftUuid,
+            );
+
+            await btnInteraction.update({
+              embeds: [EmbedPresets.trade.resolved(accepted, parties).build()],
+              components: [],
+            });
+          } catch (error) {
+            await btnInteraction.update({
+              embeds: [
+                EmbedPresets.error(
+                  "Trade Unavailable",
+                  error instanceof Error
+                    ? error.message
+                    : "This trade offer is no longer available.",
+                ).build(),
+              ],
+              components: [],
+            });
+          }
+        },
+      },
+      {
+        label: "Decline",
+        style: ButtonStyle.Danger,
+        emoji: "✖️",
+        customId: "decline",
+        handler: async (btnInteraction) => {
+          try {
+            const declined = await tradeService.decline(
+              offer.id,
+              recipientPlayer.minecraftUuid,
+            );
+
+            await btnInteraction.update({
+              embeds: [EmbedPresets.trade.resolved(declined, parties).build()],
+              components: [],
+            });
+          } catch (error) {
+            await btnInteraction.update({
+              embeds: [
+                EmbedPresets.error(
+                  "Trade Unavailable",
+                  error instanceof Error
+                    ? error.message
+                    : "This trade offer is no longer available.",
+                ).build(),
+              ],
+              components: [],
+            });
+          }
+        },
+      },
+    ],
+    timeout: offer.expiresAt.getTime() - Date.now(),
+    ephemeral: false,
+    allowedUserIds: [recipient.id],
+    onTimeout: async () => {
+      await tradeService.expire(offer.id);
+
+      const current = await tradeService.get(offer.id);
+      if (current) {
+        await interaction.editReply({
+          embeds: [EmbedPresets.trade.resolved(current, parties).build()],
+          components: [],
+        });
+      }
+    },
+  });
+
+  logger.info(
+    `User ${sender.tag} (${sender.id}) offered trade #${offer.id} of $${amount} to ${recipient.tag} (${recipient.id})${note ? ` - Note: ${note}` : ""}`,
+  );
+}
+
+/**
+ * Handles /trade cancel
+ *
+ * Cancels a pending offer made by the user and refunds the escrow
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleCancel(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const id = interaction.options.getInteger("id", true);
+
+  const senderPlayer = await player.find({ discordId: interaction.user.id });
+
+  if (!senderPlayer) {
+    const embed = EmbedPresets.error(
+      "Not Registered",
+      "You must be registered to trade. Use `/register` to get started.",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const tradeService = await getService<TradeService>(Services.TRADE_SERVICE);
+  const cancelled = await tradeService.cancel(id, senderPlayer.minecraftUuid);
+
+  const recipientPlayer = await player.find({
+    minecraftUuid: cancelled.recipientMinecraftUuid,
+  });
+
+  const embed = EmbedPresets.trade.resolved(cancelled, {
+    senderName: senderPlayer.minecraftUsername,
+    recipientName: recipientPlayer?.minecraftUsername ?? "Unknown player",
+  });
+
+  await interaction.reply({
+    embeds: [embed.build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
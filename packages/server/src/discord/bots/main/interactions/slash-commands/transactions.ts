@@ -0,0 +1,127 @@
+import { balanceRepo, player } from "@/db";
+import {
+  TRANSACTION_TYPE_GROUPS,
+  type TransactionTypeGroup,
+} from "@/db/repositories/balance";
+import { EmbedPresets } from "@/discord/embeds";
+import { TRANSACTION_HISTORY_PAGE_SIZE } from "@/discord/embeds/presets/transactions";
+import { CooldownType } from "@/discord/utils/cooldown";
+import {
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  SlashCommandBuilder,
+} from "discord.js";
+
+/**
+ * Slash command definition for the transactions command
+ * Shows the user's balance history with pagination and type filters
+ */
+export const data = new SlashCommandBuilder()
+  .setName("transactions")
+  .setDescription("View your balance transaction history")
+  .addStringOption((option) =>
+    option
+      .setName("filter")
+      .setDescription("Only show a specific kind of transaction")
+      .setRequired(false)
+      .addChoices(
+        { name: "All", value: "all" },
+        { name: "Transfers", value: "transfers" },
+        { name: "Trades", value: "trades" },
+        { name: "Market", value: "market" },
+        { name: "Companies", value: "companies" },
+        { name: "Exchange", value: "exchange" },
+        { name: "Rewards", value: "rewards" },
+        { name: "Admin adjustments", value: "admin" },
+      ),
+  );
+
+/**
+ * Cooldown configuration for the transactions command
+ *
+ * - duration: 5 seconds
+ * - type: "user" - Each user has their own cooldown
+ * - message: Custom message shown when the user is on cooldown
+ */
+export const cooldown = {
+  duration: 5,
+  type: CooldownType.USER,
+  message: "Please wait before checking your transactions again!",
+};
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the transactions command to display the user's ledger
+ *
+ * Process:
+ * 1. Resolve the user's registered player
+ * 2. Fetch the first page of transactions for the selected filter
+ * 3. Display the page with previous/next buttons
+ * 4. Handle and report any errors that occur during the process
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const group = (interaction.options.getString("filter") ??
+    "all") as TransactionTypeGroup;
+
+  try {
+    const playerData = await player.find({ discordId: interaction.user.id });
+
+    if (!playerData) {
+      const embed = EmbedPresets.error(
+        "Not Registered",
+        "You must be registered to view transactions. Use `/register` to get started.",
+      );
+
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const { transactions, total } = await balanceRepo.getHistoryPage(
+      playerData,
+      {
+        page: 0,
+        limit: TRANSACTION_HISTORY_PAGE_SIZE,
+        types: TRANSACTION_TYPE_GROUPS[group],
+      },
+    );
+
+    const { embed, components } = EmbedPresets.transactions.history({
+      transactions,
+      group,
+      page: 0,
+      totalPages: Math.ceil(total / TRANSACTION_HISTORY_PAGE_SIZE),
+      total,
+    });
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      components,
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    logger.error("/transactions failed:", error);
+
+    const embed = EmbedPresets.error(
+      "History Error",
+      "Something went wrong while fetching your transactions. Please try again.",
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
@@ -0,0 +1,231 @@
+import { balanceRepo, player } from "@/db";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { EmbedPresets } from "@/discord/embeds";
+import { confirmAdminChange } from "@/discord/utils/flows/confirmation/admin-confirmation";
+import { formatBalance } from "@/utils/format";
+import {
+  type ChatInputCommandInteraction,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+
+/**
+ * Slash command definition for the treasury command
+ * Administrative command for the server treasury that collects transfer fees
+ */
+export const data = new SlashCommandBuilder()
+  .setName("treasury")
+  .setDescription("Manage the server treasury (Admin only)")
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+  .addSubcommand((sub) =>
+    sub.setName("balance").setDescription("Show the treasury balance"),
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("pay")
+      .setDescription("Pay a player from the treasury (e.g., an event prize)")
+      .addUserOption((option) =>
+        option
+          .setName("recipient")
+          .setDescription("The player to pay")
+          .setRequired(true),
+      )
+      .addNumberOption((option) =>
+        option
+          .setName("amount")
+          .setDescription("Amount to pay (e.g., 100)")
+          .setRequired(true)
+          .setMinValue(0.001),
+      )
+      .addStringOption((option) =>
+        option
+          .setName("reason")
+          .setDescription("Reason for the payout")
+          .setRequired(true)
+          .setMaxLength(200),
+      ),
+  );
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development mode
+ */
+export const prodOnly = false;
+
+/**
+ * Permission configuration for the treasury command
+ * Requires administrator privileges to execute
+ */
+export const permissions = {
+  requireAdmin: true,
+};
+
+/**
+ * Executes the treasury command
+ *
+ * Routes to the appropriate subcommand handler:
+ * - balance: shows the current treasury balance
+ * - pay: pays a player from the treasury after confirmation
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise resolving when the command execution is completed
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    if (subcommand === "balance") {
+      await handleBalance(interaction);
+    } else if (subcommand === "pay") {
+      await handlePay(interaction);
+    }
+  } catch (error) {
+    logger.error(`/treasury ${subcommand} failed:`, error);
+
+    const embed = EmbedPresets.error(
+      "Treasury Error",
+      error instanceof Error ? error.message : "An unknown error occurred",
+    );
+
+    if (!interaction.replied && !interaction.deferred) {
+      await interaction.reply({
+        embeds: [embed.build()],
+        flags: MessageFlags.Ephemeral,
+      });
+    } else {
+      await interaction.editReply({
+        embeds: [embed.build()],
+        components: [],
+      });
+    }
+  }
+}
+
+/**
+ * Handles /treasury balance
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handleBalance(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const balance = await balanceRepo.getTreasuryBalance();
+
+  const embed = EmbedPresets.info(
+    "🏛️ Server Treasury",
+    `**Balance:** ${formatBalance(BalanceUtils.format(balance))}`,
+  );
+
+  await interaction.reply({
+    embeds: [embed.build()],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Handles /treasury pay
+ *
+ * Process:
+ * 1. Validate the amount and that the recipient is registered
+ * 2. Refuse if the treasury cannot cover the amount
+ * 3. Show confirmation dialog with the treasury and recipient balance change
+ * 4. On confirmation, pay the amount and write the audit log entry
+ *
+ * @param interaction - The chat input command interaction
+ */
+async function handlePay(
+  interaction: ChatInputCommandInteraction,
+): Promise<void> {
+  const recipient = interaction.options.getUser("recipient", true);
+  const amount = interaction.options.getNumber("amount", true);
+  const reason = interaction.options.getString("reason", true);
+
+  BalanceUtils.validate(amount);
+
+  const recipientPlayer = await player.find({ discordId: recipient.id });
+
+  if (!recipientPlayer) {
+    const embed = EmbedPresets.error(
+      "Recipient Not Registered",
+      `${recipient.tag} is not registered in the system.`,
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const amountBigInt = BalanceUtils.toStorage(amount);
+  const treasuryBalance = await balanceRepo.getTreasuryBalance();
+
+  if (treasuryBalance < amountBigInt) {
+    const embed = EmbedPresets.error(
+      "Insufficient Treasury Balance",
+      `**Treasury Balance:** ${formatBalance(BalanceUtils.format(treasuryBalance))}\n` +
+        `**Required:** ${formatBalance(BalanceUtils.format(amountBigInt))}`,
+    );
+
+    await interaction.reply({
+      embeds: [embed.build()],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const recipientBalance = await balanceRepo.getRaw(recipientPlayer);
+
+  await confirmAdminChange({
+    interaction,
+    title: "Treasury Payout",
+    description: `You are about to pay ${formatBalance(BalanceUtils.format(amountBigInt))} from the treasury to **${recipientPlayer.minecraftUsername}**`,
+    changes: [
+      {
+        name: "Treasury",
+        oldValue: BalanceUtils.format(treasuryBalance),
+        newValue: BalanceUtils.format(treasuryBalance - amountBigInt),
+      },
+      {
+        name: recipientPlayer.minecraftUsername,
+        oldValue: BalanceUtils.format(recipientBalance),
+        newValue: BalanceUtils.format(recipientBalance + amountBigInt),
+      },
+    ],
+    warnings: ["✅ The payout is written to the admin audit log"],
+    reason,
+    onConfirm: async () => {
+      const result = await balanceRepo.payFromTreasury(
+        recipientPlayer,
+        amount,
+        {
+          reason,
+          admin: {
+            discordId: interaction.user.id,
+            discordUsername: interaction.user.tag,
+          },
+          metadata: { commandUsed: "/treasury pay" },
+        },
+      );
+
+      const successEmbed = EmbedPresets.success(
+        "Treasury Payout Complete",
+        `Paid ${formatBalance(BalanceUtils.format(amountBigInt))} to **${recipientPlayer.minecraftUsername}**\n\n` +
+          `**Remaining Treasury:** ${formatBalance(BalanceUtils.format(result.treasuryBalance))}\n` +
+          `**Reason:** ${reason}`,
+      );
+
+      await interaction.editReply({
+        embeds: [successEmbed.build()],
+        components: [],
+      });
+
+      logger.info(
+        `Admin ${interaction.user.tag} paid $${amount} from the treasury to ${recipientPlayer.minecraftUsername}: ${reason}`,
+      );
+    },
+  });
+}
@@ -1,4 +1,5 @@
 import config from "@/config";
+import type { SessionTruncateOption } from "@/services/playtime/types";
 import { ButtonBuilder, ButtonStyle } from "discord.js";
 
 const cfg = config.meta.links;
@@ -141,6 +142,104 @@ export const ButtonPresets = {
     },
   },
 
+  transactions: {
+    /**
+     * Previous page button for transaction history
+     */
+    previous(group: string, page: number, disabled = false): ButtonBuilder {
+      return new ButtonBuilder()
+        .setCustomId(`transactions:page:${group}:${page - 1}`)
+        .setLabel("Previous")
+        .setEmoji("◀️")
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(disabled);
+    },
+
+    /**
+     * Next page button for transaction history
+     */
+    next(group: string, page: number, disabled = false): ButtonBuilder {
+      return new ButtonBuilder()
+        .setCustomId(`transactions:page:${group}:${page + 1}`)
+        .setLabel("Next")
+        .setEmoji("▶️")
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(disabled);
+    },
+  },
+
+  invoice: {
+    /**
+     * Pay button for a pending invoice
+     */
+    pay(id: number): ButtonBuilder {
+      return new ButtonBuilder()
+        .setCustomId(`invoice:pay:${id}`)
+        .setLabel("Pay")
+        .setEmoji("💸")
+        .setStyle(ButtonStyle.Success);
+    },
+
+    /**
+     * Decline button for a pending invoice
+     */
+    decline(id: number): ButtonBuilder {
+      return new ButtonBuilder()
+        .setCustomId(`invoice:decline:${id}`)
+        .setLabel("Decline")
+        .setEmoji("✖️")
+        .setStyle(ButtonStyle.Danger);
+    },
+  },
+
+  sessionFlag: {
+    /**
+     * Button to end a flagged session at a suggested time (UTC)
+     */
+    truncate(flagId: number, option: SessionTruncateOption): ButtonBuilder {
+      const time = option.sessionEnd.toISOString().slice(5, 16);
+
+      return new ButtonBuilder()
+        .setCustomId(
+          `session-flag:truncate:${flagId}:${Math.floor(option.sessionEnd.getTime() / 1000)}`,
+        )
+        .setLabel(`End ${time.replace("T", " ")} (${option.label})`)
+        .setEmoji("✂️")
+        .setStyle(ButtonStyle.Primary);
+    },
+
+    /**
+     * Button to end a flagged session at a time entered by the admin
+     */
+    customEnd(flagId: number): ButtonBuilder {
+      return new ButtonBuilder()
+        .setCustomId(`session-flag:custom:${flagId}`)
+        .setLabel("Custom End")
+        .setEmoji("🕒")
+        .setStyle(ButtonStyle.Secondary);
+    },
+
+    /**
+     * Button to delete a flagged session
+     */
+    delete(flagId: number): ButtonBuilder {
+      return new ButtonBuilder()
+        .setCustomId(`session-flag:delete:${flagId}`)
+        .setLabel("Delete Session")
+        .setStyle(ButtonStyle.Danger);
+    },
+
+    /**
+     * Button to leave a flagged session unchanged
+     */
+    dismiss(flagId: number): ButtonBuilder {
+      return new ButtonBuilder()
+        .setCustomId(`session-flag:dismiss:${flagId}`)
+        .setLabel("Dismiss")
+        .setStyle(ButtonStyle.Secondary);
+    },
+  },
+
   departedMember: {
     /**
      * Button to immediately delete a departed member
@@ -0,0 +1,169 @@
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type {
+  EconomyStats,
+  LedgerReconciliationReport,
+} from "@/services/economy/types";
+import { IssuanceSource, LedgerIssueType } from "@/services/economy/types";
+import { EmbedColors } from "../../colors";
+import { createEmbed } from "../../embed-builder";
+
+/**
+ * Display labels for each issuance source
+ */
+const SOURCE_LABELS: Record<IssuanceSource, string> = {
+  [IssuanceSource.REWARDS]: "🎁 Rewards",
+  [IssuanceSource.ADMIN]: "🛡️ Admin",
+  [IssuanceSource.MOD]: "🏦 Mod deposits",
+  [IssuanceSource.EXCHANGE]: "📈 Exchange",
+};
+
+/**
+ * Display labels for each ledger issue type
+ */
+const ISSUE_LABELS: Record<LedgerIssueType, string> = {
+  [LedgerIssueType.CHAIN_GAP]: "Chain gaps",
+  [LedgerIssueType.AMOUNT_MISMATCH]: "Amount mismatches",
+  [LedgerIssueType.BALANCE_DRIFT]: "Balance drift",
+};
+
+/**
+ * Maximum number of affected players listed in a reconciliation report
+ */
+const MAX_REPORTED_PLAYERS = 10;
+
+/**
+ * Formats a signed amount (e.g. "+$1,500.000")
+ */
+function formatSigned(amount: bigint): string {
+  const sign = amount < 0n ? "-" : "+";
+  return `${sign}$${BalanceUtils.formatWithCommas(amount < 0n ? -amount : amount)}`;
+}
+
+export const EconomyEmbedPresets = {
+  /**
+   * Economy health overview: money supply, distribution, issuance and
+   * transfer activity
+   */
+  stats(stats: EconomyStats, title: string = "📊 Economy Statistics") {
+    const since = Math.floor(stats.since.getTime() / 1000);
+
+    const issuanceLines = Object.values(IssuanceSource).map(
+      (source) =>
+        `${SOURCE_LABELS[source]}: \`${formatSigned(stats.issuance.bySource[source])}\``,
+    );
+    issuanceLines.push(`**Net:** \`${formatSigned(stats.issuance.total)}\``);
+
+    const dailyLines = stats.issuance.daily
+      .slice(-7)
+      .map((day) => `\`${day.date}\` ${formatSigned(day.total)}`);
+
+    const embed = createEmbed()
+      .title(title)
+      .description(`Activity since <t:${since}:f> (${stats.periodDays} days)`)
+      .color(EmbedColors.Info)
+      .field(
+        "Money Supply",
+        [
+          `$${BalanceUtils.formatWithCommas(stats.moneySupply)}`,
+          `Players: $${BalanceUtils.formatWithCommas(stats.supplyByHolder.players)}`,
+          `Treasury: $${BalanceUtils.formatWithCommas(stats.supplyByHolder.treasury)}`,
+          `Companies: $${BalanceUtils.formatWithCommas(stats.supplyByHolder.companies)}`,
+        ].join("\n"),
+        true,
+      )
+      .field("Accounts", `${stats.accounts}`, true)
+      .field(
+        "Average / Median",
+        `$${BalanceUtils.formatWithCommas(stats.averageBalance)} / $${BalanceUtils.formatWithCommas(stats.medianBalance)}`,
+        true,
+      )
+      .field("Gini Coefficient", stats.gini.toFixed(3), true)
+      .field("Top 10% Share", `${(stats.top10Share * 100).toFixed(1)}%`, true)
+      .field(
+        "Transfers",
+        `$${BalanceUtils.formatWithCommas(stats.transfers.volume)} in ${stats.transfers.count} transfer(s)`,
+        true,
+      )
+      .field("Issuance by Source", issuanceLines.join("\n"), false)
+      .timestamp(stats.generatedAt);
+
+    if (dailyLines.length > 0) {
+      embed.field("Daily Net Issuance", dailyLines.join("\n"), false);
+    }
+
+    return embed;
+  },
+
+  /**
+   * Ledger reconciliation results: issue totals and the affected players
+   */
+  reconciliation(report: LedgerReconciliationReport) {
+    const durationMs =
+      report.completedAt.getTime() - report.startedAt.getTime();
+
+    const issueLines = Object.values(LedgerIssueType).map(
+      (type) => `${ISSUE_LABELS[type]}: \`${report.issueCounts[type]}\``,
+    );
+
+    const embed = createEmbed()
+      .title(
+        report.repair
+          ? "🧮 Ledger Reconciliation (Repaired)"
+          : "🧮 Ledger Reconciliation",
+      )
+      .description(
+        report.players.length === 0
+          ? "Every transaction chain matches its stored balance."
+          : `Found issues in the ledgers of **${report.players.length}** player(s).`,
+      )
+      .color(
+        report.players.length === 0
+          ? EmbedColors.Success
+          : report.repair
+            ? EmbedColors.Warning
+            : EmbedColors.Error,
+      )
+      .field("Players Checked", `${report.playersChecked}`, true)
+      .field("Transactions Checked", `${report.transactionsChecked}`, true)
+      .field("Duration", `${(durationMs / 1000).toFixed(1)}s`, true)
+      .field("Issues", issueLines.join("\n"), false)
+      .timestamp(report.completedAt);
+
+    if (report.players.length > 0) {
+      const playerLines = report.players
+        .slice(0, MAX_REPORTED_PLAYERS)
+        .map((player) => {
+          const drift = player.issues.find(
+            (issue) => issue.type === LedgerIssueType.BALANCE_DRIFT,
+          );
+          const details = [`${player.issues.length} issue(s)`];
+
+          if (drift) {
+            details.push(
+              `drift ${formatSigned(drift.actual - drift.expected)}`,
+            );
+          }
+
+          if (player.adjustment !== undefined) {
+            details.push(`adjusted ${formatSigned(player.adjustment)}`);
+          }
+
+          return `**${player.minecraftUsername}**: ${details.join(", ")}`;
+        });
+
+      if (report.players.length > MAX_REPORTED_PLAYERS) {
+        playerLines.push(
+          `…and ${report.players.length - MAX_REPORTED_PLAYERS} more`,
+        );
+      }
+
+      embed.field("Affected Players", playerLines.join("\n"), false);
+
+      if (!report.repair) {
+        embed.footer("Run /economy reconcile repair:true to repair");
+      }
+    }
+
+    return embed;
+  },
+};
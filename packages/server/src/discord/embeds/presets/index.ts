@@ -2,11 +2,17 @@ import { CommandEmbedPresets } from "./commands";
 import { CommonEmbedPresets } from "./common";
 import { ConfirmationEmbedPresets } from "./confirmation";
 import { DepartedEmbedPresets } from "./departed";
+import { EconomyEmbedPresets } from "./economy";
+import { InvoiceEmbedPresets } from "./invoice";
 import { LeaderboardEmbedPresets } from "./leaderboard";
+import { MarketEmbedPresets } from "./market";
+import { PlaytimeEmbedPresets } from "./playtime";
 import { ProgressEmbedPresets } from "./progress";
 import { RegistrationEmbedPresets } from "./registration";
 import { RoleAssignmentEmbedPresets } from "./role-assignment";
 import { TicketEmbedPresets } from "./ticket";
+import { TradeEmbedPresets } from "./trade";
+import { TransactionEmbedPresets } from "./transactions";
 import { WaitlistEmbedPresets } from "./waitlist";
 
 export const EmbedPresets = {
@@ -20,4 +26,10 @@ export const EmbedPresets = {
   leaderboard: LeaderboardEmbedPresets,
   roleAssignment: RoleAssignmentEmbedPresets,
   departed: DepartedEmbedPresets,
+  transactions: TransactionEmbedPresets,
+  trade: TradeEmbedPresets,
+  economy: EconomyEmbedPresets,
+  market: MarketEmbedPresets,
+  invoice: InvoiceEmbedPresets,
+  playtime: PlaytimeEmbedPresets,
 };
@@ -0,0 +1,138 @@
+import type { EconomyInvoiceWithPlayers } from "@/db/queries/economy/invoice";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { InvoiceStatus } from "@/services/invoice/types";
+import { formatBalance } from "@/utils/format";
+import { ActionRowBuilder, type ButtonBuilder } from "discord.js";
+import { EmbedColors } from "../../colors";
+import { createEmbed } from "../../embed-builder";
+import { ButtonPresets } from "../buttons";
+
+/**
+ * Display title and color for each invoice status
+ */
+const INVOICE_STYLES: Record<
+  string,
+  { title: string; color: (typeof EmbedColors)[keyof typeof EmbedColors] }
+> = {
+  [InvoiceStatus.PENDING]: {
+    title: "🧾 Invoice",
+    color: EmbedColors.Info,
+  },
+  [InvoiceStatus.PAID]: {
+    title: "✅ Invoice Paid",
+    color: EmbedColors.Success,
+  },
+  [InvoiceStatus.DECLINED]: {
+    title: "❌ Invoice Declined",
+    color: EmbedColors.Error,
+  },
+  [InvoiceStatus.CANCELLED]: {
+    title: "🚫 Invoice Cancelled",
+    color: EmbedColors.Neutral,
+  },
+  [InvoiceStatus.EXPIRED]: {
+    title: "⌛ Invoice Expired",
+    color: EmbedColors.Warning,
+  },
+};
+
+/**
+ * Status markers used in invoice lists
+ */
+const STATUS_ICONS: Record<string, string> = {
+  [InvoiceStatus.PENDING]: "🕒",
+  [InvoiceStatus.PAID]: "✅",
+  [InvoiceStatus.DECLINED]: "❌",
+  [InvoiceStatus.CANCELLED]: "🚫",
+  [InvoiceStatus.EXPIRED]: "⌛",
+};
+
+export const InvoiceEmbedPresets = {
+  /**
+   * Invoice as shown to the payer, styled by its status
+   */
+  invoice(invoice: EconomyInvoiceWithPlayers) {
+    const style =
+      INVOICE_STYLES[invoice.status] ?? INVOICE_STYLES[InvoiceStatus.PENDING];
+    const amount = formatBalance(BalanceUtils.format(invoice.amount));
+
+    const embed = createEmbed()
+      .title(`${style.title} #${invoice.id}`)
+      .description(
+        invoice.status === InvoiceStatus.PAID
+          ? `**${invoice.payerUsername}** paid **${amount}** to **${invoice.issuerUsername}**.`
+          : `**${invoice.issuerUsername}** requests **${amount}** from **${invoice.payerUsername}**.`,
+      )
+      .color(style.color)
+      .field("Amount", amount, true)
+      .timestamp();
+
+    if (invoice.status === InvoiceStatus.PENDING) {
+      const expiresAt = Math.floor(invoice.expiresAt.getTime() / 1000);
+      embed.field("Expires", `<t:${expiresAt}:R>`, true);
+      embed.footer("Paying sends a regular transfer, transfer fees apply");
+    }
+
+    if (invoice.note) {
+      embed.field("Note", invoice.note, false);
+    }
+
+    return embed;
+  },
+
+  /**
+   * Pay/Decline buttons for a pending invoice
+   */
+  buttons(invoice: EconomyInvoiceWithPlayers) {
+    return [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        ButtonPresets.invoice.pay(invoice.id),
+        ButtonPresets.invoice.decline(invoice.id),
+      ),
+    ];
+  },
+
+  /**
+   * List of a player's issued and received invoices
+   */
+  list(data: {
+    invoices: EconomyInvoiceWithPlayers[];
+    playerUuid: string;
+    total: number;
+  }) {
+    const { invoices, playerUuid, total } = data;
+
+    const embed = createEmbed()
+      .title("🧾 Your Invoices")
+      .color(EmbedColors.Info)
+      .footer(`Showing ${invoices.length} of ${total} invoice(s)`);
+
+    if (invoices.length === 0) {
+      embed.description("No invoices found.");
+      return embed;
+    }
+
+    embed.description(
+      invoices
+        .map((invoice) => {
+          const issued = invoice.issuerMinecraftUuid === playerUuid;
+          const amount = formatBalance(BalanceUtils.format(invoice.amount));
+          const icon = STATUS_ICONS[invoice.status] ?? "•";
+          const unix = Math.floor(invoice.createdAt.getTime() / 1000);
+
+          const lines = [
+            `${icon} **#${invoice.id}** \`${amount}\` ${issued ? `billed to **${invoice.payerUsername}**` : `from **${invoice.issuerUsername}**`} • ${invoice.status} • <t:${unix}:R>`,
+          ];
+
+          if (invoice.note) {
+            lines.push(`> ${invoice.note}`);
+          }
+
+          return lines.join("\n");
+        })
+        .join("\n\n"),
+    );
+
+    return embed;
+  },
+};
@@ -0,0 +1,90 @@
+import type { MarketRequestWithPlayers } from "@/db/queries/market/request";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { MarketRequestStatus } from "@/services/market/types";
+import { formatBalance } from "@/utils/format";
+import { EmbedColors } from "../../colors";
+import { createEmbed } from "../../embed-builder";
+
+/**
+ * Display title and color for each request status
+ */
+const REQUEST_STYLES: Record<
+  string,
+  { title: string; color: (typeof EmbedColors)[keyof typeof EmbedColors] }
+> = {
+  [MarketRequestStatus.OPEN]: {
+    title: "📋 Item Request",
+    color: EmbedColors.Info,
+  },
+  [MarketRequestStatus.CLAIMED]: {
+    title: "🛠️ Item Request Claimed",
+    color: EmbedColors.Premium,
+  },
+  [MarketRequestStatus.FULFILLED]: {
+    title: "✅ Item Request Fulfilled",
+    color: EmbedColors.Success,
+  },
+  [MarketRequestStatus.CANCELLED]: {
+    title: "🚫 Item Request Cancelled",
+    color: EmbedColors.Neutral,
+  },
+  [MarketRequestStatus.EXPIRED]: {
+    title: "⌛ Item Request Expired",
+    color: EmbedColors.Warning,
+  },
+};
+
+export const MarketEmbedPresets = {
+  /**
+   * Item request as shown in the request feed, styled by its status
+   */
+  request(request: MarketRequestWithPlayers) {
+    const style =
+      REQUEST_STYLES[request.status] ??
+      REQUEST_STYLES[MarketRequestStatus.OPEN];
+    const bounty = formatBalance(BalanceUtils.format(request.bounty));
+
+    const embed = createEmbed()
+      .title(`${style.title} #${request.id}`)
+      .description(
+        `**${request.requesterUsername}** needs **${request.quantity}x ${request.itemName}**` +
+          (request.description ? `\n\n${request.description}` : ""),
+      )
+      .color(style.color)
+      .field("Bounty", bounty, true)
+      .timestamp();
+
+    if (request.itemId) {
+      embed.field("Item ID", `\`${request.itemId}\``, true);
+    }
+
+    switch (request.status) {
+      case MarketRequestStatus.OPEN: {
+        const expiresAt = Math.floor(request.expiresAt.getTime() / 1000);
+        embed.field("Expires", `<t:${expiresAt}:R>`, true);
+        embed.footer("The bounty is held in escrow until delivery is confirmed");
+        break;
+      }
+      case MarketRequestStatus.CLAIMED:
+        embed.field(
+          "Claimed By",
+          request.fulfillerUsername ?? "Unknown player",
+          true,
+        );
+        break;
+      case MarketRequestStatus.FULFILLED:
+        embed.field(
+          "Delivered By",
+          request.fulfillerUsername ?? "Unknown player",
+          true,
+        );
+        break;
+      default:
+        embed.footer(
+          `The bounty has been refunded to ${request.requesterUsername}`,
+        );
+    }
+
+    return embed;
+  },
+};
@@ -0,0 +1,357 @@
+import type { PlaytimeAggregate } from "@/db/queries/player/playtime/summary";
+import type {
+  FlaggedSession,
+  SessionFlagResolution,
+} from "@/db/queries/player/session/flag";
+import type { PlayerPlaytimeOverview } from "@/db/repositories/playtime";
+import { PLAYTIME_CHART_FILE_NAME } from "@/discord/utils/playtime-chart";
+import type { DailyPeakReport } from "@/services/concurrency/types";
+import { getServerById } from "@/services/playtime/config";
+import type {
+  PlaytimeRebuildReport,
+  SessionTruncateOption,
+} from "@/services/playtime/types";
+import { type PlaytimeRecap, RecapPeriod } from "@/services/recap/types";
+import { formatBalance, formatPlaytime } from "@/utils/format";
+import { ActionRowBuilder, type ButtonBuilder } from "discord.js";
+import { EmbedColors } from "../../colors";
+import { createEmbed } from "../../embed-builder";
+import { ButtonPresets } from "../buttons";
+
+/**
+ * Maximum number of changed players listed in a rebuild report
+ */
+const MAX_REPORTED_CHANGES = 15;
+
+/**
+ * Display names of the playtime aggregate tables
+ */
+const AGGREGATE_LABELS: Record<PlaytimeAggregate, string> = {
+  daily: "Daily",
+  hourly: "Hourly",
+  dimension: "Dimensions",
+  summary: "Summary",
+};
+
+export const PlaytimeEmbedPresets = {
+  /**
+   * Player playtime overview with the daily activity chart attached as
+   * {@link PLAYTIME_CHART_FILE_NAME}
+   */
+  overview(username: string, overview: PlayerPlaytimeOverview) {
+    const period =
+      overview.periodDays === null
+        ? "All time"
+        : `Last ${overview.periodDays} days`;
+
+    const serverLines = overview.servers.map(
+      (server) =>
+        `**${server.serverName}**: ${formatPlaytime(server.totalSeconds)}`,
+    );
+
+    const dimensions = overview.dimensions
+      .map((dimension) => `${dimension.percentage}% ${dimension.name}`)
+      .join(" · ");
+
+    const rank = overview.rank
+      ? `#${overview.rank.rank} of ${overview.rank.totalPlayers}`
+      : "Unranked";
+
+    return createEmbed()
+      .title(`⏱️ Playtime of ${username}`)
+      .description(`${period} across all servers`)
+      .color(EmbedColors.Info)
+      .field("Total", formatPlaytime(overview.totalSeconds), true)
+      .field("Rank", rank, true)
+      .field("Sessions", `${overview.sessions.totalSessions}`, true)
+      .field(
+        "Average Session",
+        formatPlaytime(overview.sessions.avgSessionSeconds),
+        true,
+      )
+      .field(
+        "Longest Session",
+        formatPlaytime(overview.sessions.longestSessionSeconds),
+        true,
+      )
+      .field(
+        "Per Server",
+        serverLines.length > 0 ? serverLines.join("\n") : "No playtime yet",
+        false,
+      )
+      .field("Dimensions", dimensions || "No dimension data yet", false)
+      .image(`attachment://${PLAYTIME_CHART_FILE_NAME}`)
+      .timestamp();
+  },
+
+  /**
+   * Weekly or monthly top players with rank changes and prizes
+   */
+  recap(recap: PlaytimeRecap) {
+    const isWeekly = recap.period === RecapPeriod.WEEKLY;
+    const prizes = new Map(
+      recap.prizes.map((prize) => [prize.minecraftUuid, prize.amount]),
+    );
+
+    const lines = recap.entries.map((entry) => {
+      const prize = prizes.get(entry.minecraftUuid);
+      return [
+        `**#${entry.rank}** ${entry.minecraftUsername}`,
+        formatPlaytime(entry.totalSeconds),
+        formatRankChange(entry.rank, entry.previousRank),
+        prize ? `+${formatBalance(prize)}` : null,
+      ]
+        .filter(Boolean)
+        .join(" · ");
+    });
+
+    const change = recap.totalSeconds - recap.previousTotalSeconds;
+    const changeText =
+      recap.previousTotalSeconds > 0
+        ? ` (${change >= 0 ? "+" : "-"}${formatPlaytime(Math.abs(change))} vs last ${isWeekly ? "week" : "month"})`
+        : "";
+
+    const range = `${recap.range.start.toISOString().slice(0, 10)} to ${recap.range.end.toISOString().slice(0, 10)}`;
+
+    return createEmbed()
+      .title(`🏆 Top players this ${isWeekly ? "week" : "month"}`)
+      .description(range)
+      .color(EmbedColors.Premium)
+      .field(
+        "Players",
+        lines.length > 0 ? lines.join("\n") : "Nobody played this period",
+        false,
+      )
+      .field(
+        "Community Playtime",
+        `${formatPlaytime(recap.totalSeconds)}${changeText}`,
+        false,
+      )
+      .timestamp();
+  },
+
+  /**
+   * Peak of online players per server for one day, with all-time records
+   */
+  dailyPeaks(report: DailyPeakReport) {
+    const embed = createEmbed()
+      .title("📈 Daily player peaks")
+      .description(report.range.start.toISOString().slice(0, 10))
+      .color(EmbedColors.Info)
+      .timestamp();
+
+    for (const server of report.servers) {
+      const peak = server.peak
+        ? `**${server.peak.peakPlayers}** online at ${formatPeakTime(server.peak.peakAt)} UTC`
+        : "No data";
+
+      const allTime = server.allTimePeak
+        ? `All-time peak: ${server.allTimePeak.peakPlayers} (${server.allTimePeak.peakAt.toISOString().slice(0, 10)})`
+        : "No all-time peak yet";
+
+      embed.field(
+        server.isRecord
+          ? `${server.serverName} 🎉 New record!`
+          : server.serverName,
+        `${peak}\n${allTime}`,
+        false,
+      );
+    }
+
+    return embed;
+  },
+
+  /**
+   * Result of recomputing the playtime aggregates, as a dry-run diff or
+   * after committing
+   */
+  rebuild(report: PlaytimeRebuildReport, scopeLabel: string) {
+    const totalLines = Object.entries(report.totals).map(
+      ([aggregate, totals]) =>
+        `${AGGREGATE_LABELS[aggregate as PlaytimeAggregate]}: ${formatPlaytime(totals.before)} → ${formatPlaytime(totals.after)}`,
+    );
+
+    // The summary holds one entry per player and server, so its changes
+    // show the effect on each player
+    const summaryChanges = report.changes.filter(
+      (change) => change.aggregate === "summary",
+    );
+    const playerLines = summaryChanges
+      .slice(0, MAX_REPORTED_CHANGES)
+      .map(
+        (change) =>
+          `**${change.minecraftUsername}** (server ${change.serverId}): ` +
+          `${formatPlaytime(change.before?.totalSeconds ?? 0)} → ${formatPlaytime(change.after?.totalSeconds ?? 0)}, ` +
+          `${change.before?.count ?? 0} → ${change.after?.count ?? 0} sessions`,
+      );
+
+    if (summaryChanges.length > MAX_REPORTED_CHANGES) {
+      playerLines.push(
+        `…and ${summaryChanges.length - MAX_REPORTED_CHANGES} more`,
+      );
+    }
+
+    const changedPlayers = new Set(
+      report.changes.map(
+        (change) => `${change.minecraftUuid}:${change.serverId}`,
+      ),
+    ).size;
+
+    return createEmbed()
+      .title(
+        report.dryRun
+          ? "🔁 Playtime Rebuild (Dry Run)"
+          : "🔁 Playtime Rebuild (Applied)",
+      )
+      .description(
+        `Scope: ${scopeLabel}\n` +
+          (report.changes.length === 0
+            ? "The aggregates already match the stored sessions."
+            : `${report.dryRun ? "Rebuilding would change" : "Rebuilt"} the aggregates of **${changedPlayers}** player(s).`),
+      )
+      .color(
+        report.changes.length === 0
+          ? EmbedColors.Success
+          : report.dryRun
+            ? EmbedColors.Warning
+            : EmbedColors.Info,
+      )
+      .field("Sessions Replayed", `${report.sessionsReplayed}`, true)
+      .field("Totals", totalLines.join("\n"), false)
+      .field(
+        "Changed Players",
+        playerLines.length > 0 ? playerLines.join("\n") : "None",
+        false,
+      )
+      .timestamp();
+  },
+
+  /**
+   * Suspicious session posted to the admin channel for review
+   */
+  flaggedSession(flag: FlaggedSession, maxSessionSeconds: number) {
+    const serverName = formatServerName(flag.serverId);
+    const end = flag.sessionEnd ?? new Date();
+    const durationSeconds = Math.floor(
+      (end.getTime() - flag.sessionStart.getTime()) / 1000,
+    );
+
+    const description =
+      flag.reason === "overlap"
+        ? `**${flag.minecraftUsername}** was still in a session on **${serverName}** ` +
+          `when they joined **${flag.relatedServerId !== null ? formatServerName(flag.relatedServerId) : "another server"}**` +
+          (flag.relatedSessionStart
+            ? ` ${formatDiscordTime(flag.relatedSessionStart)}.`
+            : ".")
+        : `**${flag.minecraftUsername}** has a session on **${serverName}** ` +
+          `longer than ${formatPlaytime(maxSessionSeconds)}.`;
+
+    return createEmbed()
+      .title("👻 Flagged Session")
+      .description(
+        `${description}\n\nTruncating or deleting the session rebuilds the player's playtime on this server.`,
+      )
+      .color(EmbedColors.Warning)
+      .field("Started", formatDiscordTime(flag.sessionStart), true)
+      .field(
+        "Ended",
+        flag.sessionEnd ? formatDiscordTime(flag.sessionEnd) : "Still open",
+        true,
+      )
+      .field("Duration", formatPlaytime(durationSeconds), true)
+      .footer(`Session #${flag.sessionId} • Flag #${flag.flagId}`)
+      .timestamp();
+  },
+
+  /**
+   * Truncate, custom end, delete and dismiss buttons for a flagged session
+   */
+  flaggedSessionButtons(
+    flag: FlaggedSession,
+    options: SessionTruncateOption[],
+  ) {
+    return [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        ...options.map((option) =>
+          ButtonPresets.sessionFlag.truncate(flag.flagId, option),
+        ),
+        ButtonPresets.sessionFlag.delete(flag.flagId),
+        ButtonPresets.sessionFlag.dismiss(flag.flagId),
+      ),
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        ButtonPresets.sessionFlag.customEnd(flag.flagId),
+      ),
+    ];
+  },
+
+  /**
+   * Flagged session after an admin acted on it
+   */
+  flaggedSessionResolved(data: {
+    flag: FlaggedSession;
+    resolution: SessionFlagResolution;
+    resolvedBy: string;
+    sessionEnd?: Date;
+  }) {
+    const { flag, resolution, resolvedBy, sessionEnd } = data;
+
+    const outcome =
+      resolution === "truncated" && sessionEnd
+        ? `Truncated to end ${formatDiscordTime(sessionEnd)}`
+        : resolution === "deleted"
+          ? "Deleted"
+          : "Dismissed, the session was left unchanged";
+
+    return createEmbed()
+      .title("👻 Flagged Session Resolved")
+      .description(
+        `Session of **${flag.minecraftUsername}** on **${formatServerName(flag.serverId)}** ` +
+          `started ${formatDiscordTime(flag.sessionStart)}.`,
+      )
+      .color(
+        resolution === "dismissed" ? EmbedColors.Info : EmbedColors.Success,
+      )
+      .field("Outcome", outcome, false)
+      .field("Resolved By", resolvedBy, true)
+      .footer(`Session #${flag.sessionId} • Flag #${flag.flagId}`)
+      .timestamp();
+  },
+};
+
+/**
+ * Formats a point in time as a Discord timestamp in the reader's timezone
+ */
+function formatDiscordTime(date: Date): string {
+  return `<t:${Math.floor(date.getTime() / 1000)}:f>`;
+}
+
+/**
+ * Formats the name of a server, falling back to its ID
+ */
+function formatServerName(serverId: number): string {
+  return getServerById(serverId)?.name ?? `Server ${serverId}`;
+}
+
+/**
+ * Formats the time of day of a peak (HH:MM, UTC)
+ */
+function formatPeakTime(date: Date): string {
+  return date.toISOString().slice(11, 16);
+}
+
+/**
+ * Formats the change from the previous rank (lower rank = better)
+ */
+function formatRankChange(rank: number, previousRank: number | null): string {
+  if (previousRank === null) {
+    return "🆕";
+  }
+
+  if (previousRank === rank) {
+    return "➖";
+  }
+
+  return previousRank > rank
+    ? `🔼 ${previousRank - rank}`
+    : `🔽 ${rank - previousRank}`;
+}
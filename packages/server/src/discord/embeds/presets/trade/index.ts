@@ -0,0 +1,88 @@
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { TradeOfferStatus } from "@/services/trade/types";
+import type { TradeOffer } from "@/generated/db";
+import { formatBalance } from "@/utils/format";
+import { EmbedColors } from "../../colors";
+import { createEmbed } from "../../embed-builder";
+
+interface TradeOfferParties {
+  senderName: string;
+  recipientName: string;
+}
+
+/**
+ * Display title and color for each final trade status
+ */
+const RESOLVED_STYLES: Record<
+  string,
+  { title: string; color: (typeof EmbedColors)[keyof typeof EmbedColors] }
+> = {
+  [TradeOfferStatus.ACCEPTED]: {
+    title: "✅ Trade Accepted",
+    color: EmbedColors.Success,
+  },
+  [TradeOfferStatus.DECLINED]: {
+    title: "❌ Trade Declined",
+    color: EmbedColors.Error,
+  },
+  [TradeOfferStatus.CANCELLED]: {
+    title: "🚫 Trade Cancelled",
+    color: EmbedColors.Neutral,
+  },
+  [TradeOfferStatus.EXPIRED]: {
+    title: "⌛ Trade Expired",
+    color: EmbedColors.Warning,
+  },
+};
+
+export const TradeEmbedPresets = {
+  /**
+   * Pending trade offer shown to the recipient with Accept/Decline buttons
+   */
+  offer(offer: TradeOffer, parties: TradeOfferParties) {
+    const expiresAt = Math.floor(offer.expiresAt.getTime() / 1000);
+
+    const embed = createEmbed()
+      .title(`🤝 Trade Offer #${offer.id}`)
+      .description(
+        `**${parties.senderName}** is offering **${formatBalance(BalanceUtils.format(offer.amount))}** to **${parties.recipientName}**.\n\n` +
+          `The amount is held in escrow until the offer is accepted, declined or expires.`,
+      )
+      .color(EmbedColors.Info)
+      .field("Amount", formatBalance(BalanceUtils.format(offer.amount)), true)
+      .field("Expires", `<t:${expiresAt}:R>`, true)
+      .timestamp();
+
+    if (offer.note) {
+      embed.field("Note", offer.note, false);
+    }
+
+    return embed;
+  },
+
+  /**
+   * Trade offer after it has been accepted, declined, cancelled or expired
+   */
+  resolved(offer: TradeOffer, parties: TradeOfferParties) {
+    const style =
+      RESOLVED_STYLES[offer.status] ?? RESOLVED_STYLES[TradeOfferStatus.EXPIRED];
+    const amount = formatBalance(BalanceUtils.format(offer.amount));
+
+    const description =
+      offer.status === TradeOfferStatus.ACCEPTED
+        ? `**${parties.recipientName}** accepted the offer and received **${amount}** from **${parties.senderName}**.`
+        : `**${amount}** has been refunded from escrow to **${parties.senderName}**.`;
+
+    const embed = createEmbed()
+      .title(`${style.title} (#${offer.id})`)
+      .description(description)
+      .color(style.color)
+      .timestamp();
+
+    if (offer.note) {
+      embed.field("Note", offer.note, false);
+    }
+
+    return embed;
+  },
+};
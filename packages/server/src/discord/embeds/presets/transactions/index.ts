@@ -0,0 +1,126 @@
+import type { PlayerBalanceTransactionWithCounterparty } from "@/db/queries/player/balance/transaction";
+import {
+  BalanceTransactionType,
+  type TransactionTypeGroup,
+} from "@/db/repositories/balance";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { ActionRowBuilder, ButtonBuilder } from "discord.js";
+import { createEmbed } from "../../embed-builder";
+import { EmbedColors } from "../../colors";
+import { ButtonPresets } from "../buttons";
+
+/**
+ * Number of transactions shown per history page
+ */
+export const TRANSACTION_HISTORY_PAGE_SIZE = 5;
+
+/**
+ * Display labels for each transaction type
+ */
+const TYPE_LABELS: Record<string, string> = {
+  [BalanceTransactionType.TRANSFER_SEND]: "📤 Sent",
+  [BalanceTransactionType.TRANSFER_RECEIVE]: "📥 Received",
+  [BalanceTransactionType.ADMIN_GRANT]: "🛡️ Admin Grant",
+  [BalanceTransactionType.ADMIN_DEDUCT]: "🛡️ Admin Deduction",
+  [BalanceTransactionType.PURCHASE]: "🛒 Purchase",
+  [BalanceTransactionType.SALE]: "🏷️ Sale",
+  [BalanceTransactionType.REWARD]: "🎁 Reward",
+  [BalanceTransactionType.REFUND]: "↩️ Refund",
+  [BalanceTransactionType.DEPOSIT]: "🏦 Deposit",
+  [BalanceTransactionType.WITHDRAWAL]: "🏧 Withdrawal",
+  [BalanceTransactionType.TRADE_ESCROW]: "🤝 Trade",
+  [BalanceTransactionType.BOUNTY_ESCROW]: "📋 Item Request",
+  [BalanceTransactionType.TRANSFER_FEE]: "🧾 Transfer Fee",
+  [BalanceTransactionType.TREASURY_PAYOUT]: "🏆 Treasury Payout",
+  [BalanceTransactionType.COMPANY_DEPOSIT]: "🏢 Company Deposit",
+  [BalanceTransactionType.COMPANY_WITHDRAWAL]: "🏢 Company Withdrawal",
+  [BalanceTransactionType.COMPANY_PAYROLL]: "💼 Payroll",
+  [BalanceTransactionType.EXCHANGE_BUY]: "📈 Exchange Buy",
+  [BalanceTransactionType.EXCHANGE_SELL]: "📉 Exchange Sell",
+  [BalanceTransactionType.RECONCILIATION]: "🧮 Reconciliation",
+  [BalanceTransactionType.OTHER]: "📄 Other",
+};
+
+/**
+ * Display labels for each history filter
+ */
+const GROUP_LABELS: Record<TransactionTypeGroup, string> = {
+  all: "All",
+  transfers: "Transfers",
+  trades: "Trades",
+  market: "Market",
+  companies: "Companies",
+  exchange: "Exchange",
+  rewards: "Rewards",
+  admin: "Admin",
+};
+
+export const TransactionEmbedPresets = {
+  /**
+   * Creates a paginated transaction history page with navigation buttons
+   */
+  history(data: {
+    transactions: PlayerBalanceTransactionWithCounterparty[];
+    group: TransactionTypeGroup;
+    page: number;
+    totalPages: number;
+    total: number;
+  }) {
+    const { transactions, group, page, totalPages, total } = data;
+
+    const embed = createEmbed()
+      .title("📒 Transaction History")
+      .color(EmbedColors.Info)
+      .footer(
+        `Filter: ${GROUP_LABELS[group]} • Page ${page + 1}/${Math.max(totalPages, 1)} • ${total} transaction(s)`,
+      );
+
+    if (transactions.length === 0) {
+      embed.description("No transactions found.");
+    } else {
+      embed.description(
+        transactions
+          .map((tx) => {
+            const sign = tx.amount < 0n ? "-" : tx.amount > 0n ? "+" : "";
+            const amount = BalanceUtils.formatWithCommas(
+              tx.amount < 0n ? -tx.amount : tx.amount,
+            );
+            const label = TYPE_LABELS[tx.transactionType] ?? tx.transactionType;
+            const unix = Math.floor(tx.createdAt.getTime() / 1000);
+
+            const lines = [
+              `**${label}** \`${sign}$${amount}\` • <t:${unix}:R>`,
+            ];
+
+            if (tx.relatedPlayerUuid) {
+              const direction =
+                tx.transactionType === BalanceTransactionType.TRANSFER_SEND
+                  ? "To"
+                  : "With";
+              lines.push(
+                `${direction}: **${tx.relatedPlayerUsername ?? "Unknown player"}**`,
+              );
+            }
+
+            if (tx.description) {
+              lines.push(`> ${tx.description}`);
+            }
+
+            lines.push(
+              `Balance: $${BalanceUtils.formatWithCommas(tx.balanceAfter)}`,
+            );
+
+            return lines.join("\n");
+          })
+          .join("\n\n"),
+      );
+    }
+
+    const navigationRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      ButtonPresets.transactions.previous(group, page, page <= 0),
+      ButtonPresets.transactions.next(group, page, page + 1 >= totalPages),
+    );
+
+    return { embed, components: [navigationRow] };
+  },
+};
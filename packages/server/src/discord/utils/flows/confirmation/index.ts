@@ -36,6 +36,10 @@ export interface ConfirmationFlowOptions {
   onTimeout?: () => Promise<void>;
   /** Only allow the command author to interact (default: true) */
   authorOnly?: boolean;
+  /** Only allow these users to interact (overrides authorOnly) */
+  allowedUserIds?: string[];
+  /** Message content shown above the embed (e.g. user mentions) */
+  content?: string;
   /** Whether the interaction has already been deferred (default: false) */
   isDeferred?: boolean;
 }
@@ -60,6 +64,8 @@ export class ConfirmationFlow {
       ephemeral = true,
       onTimeout,
       authorOnly = true,
+      allowedUserIds,
+      content,
       isDeferred = false,
     } = options;
 
@@ -79,10 +85,12 @@ export class ConfirmationFlow {
 
     const message = isDeferred
       ? await interaction.editReply({
+          content,
           embeds: [embed.build()],
           components: [row],
         })
       : await interaction.reply({
+          content,
           embeds: [embed.build()],
           components: [row],
           flags: ephemeral ? MessageFlags.Ephemeral : undefined,
@@ -100,7 +108,22 @@ export class ConfirmationFlow {
     });
 
     collector.on("collect", async (buttonInteraction: ButtonInteraction) => {
-      if (authorOnly && buttonInteraction.user.id !== interaction.user.id) {
+      if (
+        allowedUserIds &&
+        !allowedUserIds.includes(buttonInteraction.user.id)
+      ) {
+        await buttonInteraction.reply({
+          content: "❌ You cannot use these buttons",
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      if (
+        !allowedUserIds &&
+        authorOnly &&
+        buttonInteraction.user.id !== interaction.user.id
+      ) {
         await buttonInteraction.reply({
           content: "❌ Only the command author can use these buttons",
           flags: MessageFlags.Ephemeral,
@@ -0,0 +1,126 @@
+import { AttachmentBuilder } from "discord.js";
+import { createCanvas } from "canvas";
+import type { PlayerDailyTotal } from "@/db/queries/player/playtime/daily";
+
+interface PlaytimeChartConfig {
+  backgroundColor: string;
+  barColor: string;
+  gridColor: string;
+  textColor: string;
+  secondaryTextColor: string;
+}
+
+const DEFAULT_CONFIG: PlaytimeChartConfig = {
+  backgroundColor: "#2C2F33",
+  barColor: "#7289DA",
+  gridColor: "#40444B",
+  textColor: "#FFFFFF",
+  secondaryTextColor: "#99AAB5",
+};
+
+/**
+ * File name of the generated chart, for `attachment://` embed images
+ */
+export const PLAYTIME_CHART_FILE_NAME = "playtime.png";
+
+/**
+ * Renders a bar chart of daily playtime in hours
+ *
+ * @param days - One entry per day, ordered chronologically
+ * @param title - Title drawn above the chart
+ * @param config - Optional color overrides
+ * @returns PNG attachment named {@link PLAYTIME_CHART_FILE_NAME}
+ */
+export function generatePlaytimeChart(
+  days: PlayerDailyTotal[],
+  title: string,
+  config: Partial<PlaytimeChartConfig> = {},
+): AttachmentBuilder {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  const width = 1200;
+  const height = 500;
+  const padding = { top: 80, right: 40, bottom: 60, left: 80 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+
+  ctx.fillStyle = finalConfig.backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.font = "bold 32px Arial, sans-serif";
+  ctx.fillStyle = finalConfig.textColor;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "alphabetic";
+  ctx.fillText(title, padding.left, 50);
+
+  const hours = days.map((day) => day.totalSeconds / 3600);
+  const maxHours = niceCeiling(Math.max(1, ...hours));
+  const gridLines = 4;
+
+  ctx.font = "18px Arial, sans-serif";
+  ctx.textAlign = "right";
+  ctx.textBaseline = "middle";
+  ctx.lineWidth = 1;
+
+  for (let i = 0; i <= gridLines; i++) {
+    const value = (maxHours / gridLines) * i;
+    const y = padding.top + chartHeight - (chartHeight / gridLines) * i;
+
+    ctx.strokeStyle = finalConfig.gridColor;
+    ctx.beginPath();
+    ctx.moveTo(padding.left, y);
+    ctx.lineTo(width - padding.right, y);
+    ctx.stroke();
+
+    ctx.fillStyle = finalConfig.secondaryTextColor;
+    ctx.fillText(
+      `${Number.isInteger(value) ? value : value.toFixed(1)}h`,
+      padding.left - 12,
+      y,
+    );
+  }
+
+  const slot = chartWidth / Math.max(days.length, 1);
+  const barWidth = Math.max(2, slot * 0.7);
+
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+
+  days.forEach((day, index) => {
+    const x = padding.left + slot * index + (slot - barWidth) / 2;
+    const barHeight = (hours[index] / maxHours) * chartHeight;
+
+    if (barHeight > 0) {
+      ctx.fillStyle = finalConfig.barColor;
+      ctx.fillRect(
+        x,
+        padding.top + chartHeight - barHeight,
+        barWidth,
+        barHeight,
+      );
+    }
+
+    // Label every fifth day and the last day (MM-DD)
+    if (index % 5 === 0 || index === days.length - 1) {
+      ctx.fillStyle = finalConfig.secondaryTextColor;
+      ctx.fillText(
+        day.playDate.slice(5),
+        x + barWidth / 2,
+        padding.top + chartHeight + 12,
+      );
+    }
+  });
+
+  const buffer = canvas.toBuffer("image/png");
+  return new AttachmentBuilder(buffer, { name: PLAYTIME_CHART_FILE_NAME });
+}
+
+/**
+ * Rounds a maximum up to a value that divides into readable grid steps
+ */
+function niceCeiling(value: number): number {
+  const steps = [1, 2, 4, 8, 12, 16, 20, 24];
+  return steps.find((step) => step >= value) ?? Math.ceil(value / 4) * 4;
+}
@@ -20,8 +20,17 @@ import { MemberCleanupService } from "./discord/cleanup/member/member-cleanup.se
 import { SERVER_STATS_CONFIG, ServerStatsService } from "./discord/stats";
 import { RotatingStatusService } from "./discord/status";
 import { PlaytimeManagerService } from "./playtime/playtime-manager.service";
+import { GhostSessionService } from "./playtime/ghost-session.service";
 import { RoleManagementService } from "./discord/role/role-management.service";
 import { WebSocketService } from "./websocket";
+import { rewardService, RewardType } from "./reward";
+import { TradeService } from "./trade";
+import { EconomyStatsService, LedgerReconciliationService } from "./economy";
+import { MarketRequestService } from "./market";
+import { ExchangeService } from "./exchange";
+import { InvoiceService } from "./invoice";
+import { PlaytimeRecapService } from "./recap";
+import { ServerConcurrencyService } from "./concurrency";
 
 /**
  * Register all services with the container
@@ -188,6 +197,109 @@ export function registerServices(): void {
     { dependencies: [Services.DISCORD_MAIN_BOT] },
   );
 
+  container.register(
+    Services.PLAYTIME_RECAP_SERVICE,
+    async () => {
+      const service = new PlaytimeRecapService();
+      await service.initialize();
+      return service;
+    },
+    { dependencies: [Services.DATABASE, Services.MESSAGE_SERVICE] },
+  );
+
+  container.register(
+    Services.SERVER_CONCURRENCY_SERVICE,
+    async (c) => {
+      const playtimeManager = await c.get<PlaytimeManagerService>(
+        Services.PLAYTIME_MANAGER_SERVICE,
+      );
+      const service = new ServerConcurrencyService(playtimeManager);
+      await service.initialize();
+      return service;
+    },
+    {
+      dependencies: [
+        Services.DATABASE,
+        Services.MESSAGE_SERVICE,
+        Services.PLAYTIME_MANAGER_SERVICE,
+      ],
+    },
+  );
+
+  container.register(
+    Services.GHOST_SESSION_SERVICE,
+    async () => {
+      const service = new GhostSessionService();
+      await service.initialize();
+      return service;
+    },
+    { dependencies: [Services.DATABASE, Services.MESSAGE_SERVICE] },
+  );
+
+  // =========================================================================
+  // ECONOMY SERVICES
+  // =========================================================================
+
+  container.register(
+    Services.TRADE_SERVICE,
+    async () => {
+      const service = new TradeService();
+      await service.initialize();
+      return service;
+    },
+    { dependencies: [Services.DATABASE] },
+  );
+
+  container.register(
+    Services.ECONOMY_STATS_SERVICE,
+    async () => {
+      const service = new EconomyStatsService();
+      await service.initialize();
+      return service;
+    },
+    { dependencies: [Services.DATABASE, Services.MESSAGE_SERVICE] },
+  );
+
+  container.register(
+    Services.LEDGER_RECONCILIATION_SERVICE,
+    async () => {
+      const service = new LedgerReconciliationService();
+      await service.initialize();
+      return service;
+    },
+    { dependencies: [Services.DATABASE, Services.MESSAGE_SERVICE] },
+  );
+
+  container.register(
+    Services.MARKET_REQUEST_SERVICE,
+    async () => {
+      const service = new MarketRequestService();
+      await service.initialize();
+      return service;
+    },
+    { dependencies: [Services.DATABASE, Services.MESSAGE_SERVICE] },
+  );
+
+  container.register(
+    Services.EXCHANGE_SERVICE,
+    async () => {
+      const service = new ExchangeService();
+      await service.initialize();
+      return service;
+    },
+    { dependencies: [Services.DATABASE] },
+  );
+
+  container.register(
+    Services.INVOICE_SERVICE,
+    async () => {
+      const service = new InvoiceService();
+      await service.initialize();
+      return service;
+    },
+    { dependencies: [Services.DATABASE, Services.MESSAGE_SERVICE] },
+  );
+
   // =========================================================================
   // COMMUNICATION SERVICES
   // =========================================================================
@@ -202,6 +314,9 @@ export function registerServices(): void {
       const playtimeManagerService = await c.get<PlaytimeManagerService>(
         Services.PLAYTIME_MANAGER_SERVICE,
       );
+      const exchangeService = await c.get<ExchangeService>(
+        Services.EXCHANGE_SERVICE,
+      );
 
       logger.info("Initializing WebSocket service...");
 
@@ -219,6 +334,7 @@ export function registerServices(): void {
       await websocketService.initialize(
         messageCacheService,
         playtimeManagerService,
+        exchangeService,
       );
 
       return websocketService;
@@ -228,22 +344,12 @@ export function registerServices(): void {
         Services.HTTP_SERVER,
         Services.MESSAGE_CACHE,
         Services.PLAYTIME_MANAGER_SERVICE,
+        Services.EXCHANGE_SERVICE,
       ],
     },
   );
 
   container.on("serviceReady", async (serviceName) => {
-    if (serviceName === Services.MESSAGE_CACHE) {
-      const playtimeManager = await container.get<PlaytimeManagerService>(
-        Services.PLAYTIME_MANAGER_SERVICE,
-      );
-      const messageCache = await container.get<MessageCacheService>(
-        Services.MESSAGE_CACHE,
-      );
-
-      playtimeManager.setupMessageCacheIntegration(messageCache);
-    }
-
     if (serviceName === Services.PLAYTIME_MANAGER_SERVICE) {
       const playtimeManager = await container.get<PlaytimeManagerService>(
         Services.PLAYTIME_MANAGER_SERVICE,
@@ -257,6 +363,14 @@ export function registerServices(): void {
         playtimeService,
       ] of playtimeManager.getAllServices()) {
         roleService.setupRealtimeRoleChecking(serverId, playtimeService);
+
+        if (
+          rewardService
+            .getAvailableRewards()
+            .includes(RewardType.PLAYTIME_MILESTONE)
+        ) {
+          rewardService.playtimeMilestone.listen(playtimeService);
+        }
       }
     }
   });
@@ -0,0 +1,225 @@
+import { Q } from "@/db";
+import { Discord } from "@/discord/constants";
+import { EmbedPresets } from "@/discord/embeds";
+import type {
+  PlaytimeManagerService,
+  PlaytimeService,
+} from "@/services/playtime";
+import { getServerById } from "@/services/playtime/config";
+import { SERVER_CONCURRENCY_CONFIG } from "./config";
+import {
+  getNextPeakReportTime,
+  getPeakReportRange,
+  isPeakRecord,
+} from "./peak";
+import type {
+  DailyPeakReport,
+  ServerConcurrencyConfig,
+  ServerPeakRecord,
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service for the online player time series of each server
+ *
+ * Samples the number of online players on every join and leave and on a
+ * fixed cadence while a server is online. Samples are rolled up hourly by
+ * the database; raw samples older than the retention period are pruned
+ * once a day, right before the peaks of the previous day are posted.
+ */
+export class ServerConcurrencyService {
+  private sampleIntervalId?: NodeJS.Timeout;
+  private reportTimeoutId?: NodeJS.Timeout;
+  private reportIntervalId?: NodeJS.Timeout;
+
+  constructor(
+    private readonly playtimeManager: PlaytimeManagerService,
+    private readonly config: ServerConcurrencyConfig = SERVER_CONCURRENCY_CONFIG,
+  ) {}
+
+  /**
+   * Initialize the service, start sampling and schedule the daily report
+   * Called by the service container during startup
+   *
+   * @returns Promise resolving when the service is started
+   */
+  async initialize(): Promise<void> {
+    logger.info("Initializing ServerConcurrencyService...");
+
+    for (const [serverId, service] of this.playtimeManager.getAllServices()) {
+      // Sessions are removed after sessionEnd is emitted, so samples are
+      // deferred until the event has been handled
+      const sample = () => setImmediate(() => this.sample(serverId, service));
+
+      service.on("sessionStart", sample);
+      service.on("sessionEnd", sample);
+      service.on("serverOnline", sample);
+      service.on("serverOffline", sample);
+    }
+
+    this.sampleIntervalId = setInterval(() => {
+      for (const [serverId, service] of this.playtimeManager.getAllServices()) {
+        if (service.isOnline()) {
+          this.sample(serverId, service);
+        }
+      }
+    }, this.config.sampleIntervalMs);
+
+    const msUntilNextReport =
+      getNextPeakReportTime(new Date(), this.config.postHour).getTime() -
+      Date.now();
+
+    this.reportTimeoutId = setTimeout(() => {
+      this.runDailyJob();
+      this.reportIntervalId = setInterval(() => this.runDailyJob(), DAY_MS);
+    }, msUntilNextReport);
+
+    logger.info(
+      `ServerConcurrencyService initialized (next peak report in ${Math.round(msUntilNextReport / 1000 / 60)} minutes)`,
+    );
+  }
+
+  /**
+   * Shutdown the service and clean up timers
+   * Called by the service container during graceful shutdown
+   *
+   * @returns Promise resolving when the service is shut down
+   */
+  async shutdown(): Promise<void> {
+    if (this.sampleIntervalId) {
+      clearInterval(this.sampleIntervalId);
+      this.sampleIntervalId = undefined;
+    }
+
+    if (this.reportTimeoutId) {
+      clearTimeout(this.reportTimeoutId);
+      this.reportTimeoutId = undefined;
+    }
+
+    if (this.reportIntervalId) {
+      clearInterval(this.reportIntervalId);
+      this.reportIntervalId = undefined;
+    }
+
+    logger.info("ServerConcurrencyService stopped");
+  }
+
+  /**
+   * Builds the peak report of the day before a point in time
+   *
+   * @param now - Point in time the reported day ends before (default: now)
+   * @returns Promise resolving to the peaks of every server
+   */
+  async getDailyPeakReport(now: Date = new Date()): Promise<DailyPeakReport> {
+    const range = getPeakReportRange(now);
+
+    const servers = await Promise.all(
+      [...this.playtimeManager.getAllServices().keys()].map(
+        async (serverId): Promise<ServerPeakRecord> => {
+          const [peak, previousBest] = await Promise.all([
+            Q.server.online.hourly.getPeak(serverId, range.start, range.end),
+            Q.server.online.hourly.getPeak(serverId, null, range.start),
+          ]);
+
+          const isRecord = isPeakRecord(peak, previousBest);
+
+          return {
+            serverId,
+            serverName: getServerById(serverId)?.name ?? `Server ${serverId}`,
+            peak,
+            allTimePeak: isRecord ? peak : previousBest,
+            isRecord,
+          };
+        },
+      ),
+    );
+
+    return { range, servers };
+  }
+
+  /**
+   * Posts the peak report of the previous day
+   *
+   * @returns Promise resolving to the posted report
+   */
+  async postDailyPeakReport(): Promise<DailyPeakReport> {
+    const report = await this.getDailyPeakReport();
+
+    const result = await Discord.Messages.send({
+      channelId: this.config.channelId,
+      embeds: EmbedPresets.playtime.dailyPeaks(report).build(),
+    });
+
+    if (!result.success) {
+      logger.warn("Failed to post daily peak report");
+    } else {
+      logger.info("Posted daily peak report");
+    }
+
+    return report;
+  }
+
+  /**
+   * Deletes raw samples older than the retention period
+   *
+   * @returns Promise resolving to the number of deleted samples
+   */
+  async pruneSamples(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - this.config.sampleRetentionDays * DAY_MS,
+    );
+
+    const deleted = await Q.server.online.sample.deleteOlderThan(cutoff);
+
+    if (deleted > 0) {
+      logger.info(`Pruned ${deleted} online player samples`);
+    }
+
+    return deleted;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Records the current number of online players of a server
+   * @private
+   */
+  private async sample(
+    serverId: number,
+    service: PlaytimeService,
+  ): Promise<void> {
+    const playerCount = service.isOnline()
+      ? service.getActiveSessions().length
+      : 0;
+
+    try {
+      await Q.server.online.sample.record(serverId, playerCount);
+    } catch (error) {
+      logger.error(
+        `Failed to sample online players for server ${serverId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Prunes old samples and posts the daily peak report
+   * @private
+   */
+  private async runDailyJob(): Promise<void> {
+    try {
+      await this.pruneSamples();
+    } catch (error) {
+      logger.error("Online player sample pruning failed:", error);
+    }
+
+    try {
+      await this.postDailyPeakReport();
+    } catch (error) {
+      logger.error("Daily peak report failed:", error);
+    }
+  }
+}
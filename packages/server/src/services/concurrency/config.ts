@@ -0,0 +1,15 @@
+import { Discord } from "@/discord/constants";
+import type { ServerConcurrencyConfig } from "./types";
+
+/**
+ * Server concurrency configuration
+ *
+ * Online players are sampled on every join and leave and on a fixed
+ * cadence. The peaks of the previous day are posted once a day.
+ */
+export const SERVER_CONCURRENCY_CONFIG: ServerConcurrencyConfig = {
+  sampleIntervalMs: 5 * 60 * 1000,
+  sampleRetentionDays: 7,
+  channelId: Discord.Channels.general.LEADERBOARDS,
+  postHour: 0,
+};
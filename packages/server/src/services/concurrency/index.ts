@@ -0,0 +1,4 @@
+export * from "./config";
+export * from "./peak";
+export * from "./concurrency.service";
+export * from "./types";
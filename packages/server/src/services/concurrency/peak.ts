@@ -0,0 +1,56 @@
+import type { ServerConcurrencyPeak } from "@/db/queries/server/online/hourly";
+import type { PeakReportRange } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gets the UTC day before a point in time
+ *
+ * @param now - Point in time
+ * @returns Range from midnight to midnight (end exclusive)
+ */
+export function getPeakReportRange(now: Date): PeakReportRange {
+  const end = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+
+  return { start: new Date(end.getTime() - DAY_MS), end };
+}
+
+/**
+ * Gets the next time the daily peak report should be posted (UTC)
+ *
+ * @param now - Point in time to search from
+ * @param postHour - Hour of the day the report is posted
+ * @returns The next post time strictly after now
+ */
+export function getNextPeakReportTime(now: Date, postHour: number): Date {
+  const next = new Date(
+    Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate(),
+      postHour,
+    ),
+  );
+
+  return next > now ? next : new Date(next.getTime() + DAY_MS);
+}
+
+/**
+ * Checks whether a peak beats the best peak before it
+ *
+ * @param peak - Peak of the reported day
+ * @param previousBest - Highest peak before the reported day
+ * @returns True if the peak is a new record (an empty server never is)
+ */
+export function isPeakRecord(
+  peak: ServerConcurrencyPeak | null,
+  previousBest: ServerConcurrencyPeak | null,
+): boolean {
+  if (!peak || peak.peakPlayers === 0) {
+    return false;
+  }
+
+  return !previousBest || peak.peakPlayers > previousBest.peakPlayers;
+}
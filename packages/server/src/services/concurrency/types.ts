@@ -0,0 +1,36 @@
+import type { ServerConcurrencyPeak } from "@/db/queries/server/online/hourly";
+
+export interface ServerConcurrencyConfig {
+  /** How often online players are sampled while a server is online */
+  sampleIntervalMs: number;
+  /** Days raw samples are kept; older history is kept hourly */
+  sampleRetentionDays: number;
+  /** Discord channel ID the daily peak report is posted to */
+  channelId: string;
+  /** Hour of the day the report for the previous day is posted (UTC) */
+  postHour: number;
+}
+
+/**
+ * Range of a single UTC day (end exclusive)
+ */
+export interface PeakReportRange {
+  start: Date;
+  end: Date;
+}
+
+export interface ServerPeakRecord {
+  serverId: number;
+  serverName: string;
+  /** Peak of the reported day, or null if nothing was sampled */
+  peak: ServerConcurrencyPeak | null;
+  /** Peak of all time, including the reported day */
+  allTimePeak: ServerConcurrencyPeak | null;
+  /** Whether the reported day set a new all-time peak */
+  isRecord: boolean;
+}
+
+export interface DailyPeakReport {
+  range: PeakReportRange;
+  servers: ServerPeakRecord[];
+}
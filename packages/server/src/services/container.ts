@@ -279,8 +279,17 @@ export const Services = {
   SERVER_STATS_SERVICE: "discord.serverStatsService",
   ROTATING_STATUS_SERVICE: "discord.rotatingStatusService",
   PLAYTIME_MANAGER_SERVICE: "minecraft.playtimeManagerService",
+  PLAYTIME_RECAP_SERVICE: "minecraft.playtimeRecapService",
+  SERVER_CONCURRENCY_SERVICE: "minecraft.serverConcurrencyService",
+  GHOST_SESSION_SERVICE: "minecraft.ghostSessionService",
   ROLE_MANAGEMENT_SERVICE: "discord.roleManagementService",
   WEBSOCKET_SERVICE: "http.webSocketService",
+  TRADE_SERVICE: "economy.tradeService",
+  ECONOMY_STATS_SERVICE: "economy.statsService",
+  LEDGER_RECONCILIATION_SERVICE: "economy.ledgerReconciliationService",
+  MARKET_REQUEST_SERVICE: "economy.marketRequestService",
+  EXCHANGE_SERVICE: "economy.exchangeService",
+  INVOICE_SERVICE: "economy.invoiceService",
 } as const;
 
 export type ServiceKey = (typeof Services)[keyof typeof Services];
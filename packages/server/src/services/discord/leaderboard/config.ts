@@ -1,7 +1,8 @@
 import config from "@/config";
 import { type LeaderboardConfig, LeaderboardType } from "./types";
 import { Q } from "@/db";
-import { formatPlaytime } from "@/utils/format";
+import { formatBalance, formatPlaytime } from "@/utils/format";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
 import { Discord } from "@/discord/constants";
 
 /**
@@ -45,6 +46,35 @@ export const LEADERBOARD_CONFIGS: Record<LeaderboardType, LeaderboardConfig> = {
     },
     formatValue: formatPlaytime,
   },
+  [LeaderboardType.BALANCE]: {
+    type: LeaderboardType.BALANCE,
+    title: "Richest Players",
+    description: "Players with the highest balance (use `/privacy` to opt out)",
+    emoji: "",
+    channelId: Discord.Channels.general.LEADERBOARDS,
+    serverId: config.servers.cogs.id,
+    /**
+     * Fetches balance leaderboard data from the database
+     *
+     * Balances are shared across servers, so the server ID is ignored.
+     * Players who opted out are excluded.
+     *
+     * @param _serverId - Unused, balances are not per server
+     * @param limit - Maximum number of entries to return
+     * @returns Promise resolving to array of leaderboard entries
+     */
+    fetchData: async (_serverId: number, limit: number) => {
+      const leaderboard = await Q.player.balance.getLeaderboard(limit);
+
+      return leaderboard.map((entry, index) => ({
+        rank: index + 1,
+        playerName: entry.minecraftUsername,
+        value: BalanceUtils.format(entry.balance),
+        formattedValue: formatBalance(BalanceUtils.format(entry.balance)),
+      }));
+    },
+    formatValue: formatBalance,
+  },
 };
 
 /**
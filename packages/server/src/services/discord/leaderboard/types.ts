@@ -1,5 +1,6 @@
 export enum LeaderboardType {
   PLAYTIME = "playtime",
+  BALANCE = "balance",
 }
 
 export interface LeaderboardEntry {
@@ -14,6 +14,7 @@ import type {
   ReplyMessageOptions,
   SendMessageOptions,
   SendMessageResult,
+  SendDirectMessageOptions,
   FetchChannelOptions,
   FetchMessageOptions,
 } from "./types";
@@ -155,6 +156,50 @@ export class DiscordMessageService {
     }
   }
 
+  /**
+   * Sends a direct message to a user
+   *
+   * Fails gracefully when the user has DMs disabled or cannot be fetched
+   *
+   * @param options - Direct message configuration
+   * @returns Promise resolving to SendMessageResult
+   *
+   * @example
+   * await messageService.sendDirect({
+   *    userId,
+   *    embeds: embed
+   * });
+   */
+  async sendDirect(
+    options: SendDirectMessageOptions,
+  ): Promise<SendMessageResult> {
+    try {
+      const user = await this.client.users.fetch(options.userId);
+
+      const message = await user.send({
+        content: options.content,
+        embeds: options.embeds ? [options.embeds] : undefined,
+        components: options.components,
+      });
+
+      logger.info(
+        `Direct message sent to ${options.userId} - Message ID: ${message.id}`,
+      );
+
+      return {
+        success: true,
+        messageId: message.id,
+        message,
+      };
+    } catch (error) {
+      logger.warn(`Failed to send direct message to ${options.userId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
   /**
    * Edit method - modifies existing messages
    *
@@ -22,6 +22,20 @@ export interface SendMessageOptions {
   files?: AttachmentBuilder[];
 }
 
+/**
+ * Options for sending a direct message to a user
+ */
+export interface SendDirectMessageOptions {
+  /** Discord user ID to send the message to */
+  userId: string;
+  /** Optional text content of the message */
+  content?: string;
+  /** Optional embed to include in the message */
+  embeds?: EmbedBuilder;
+  /** Optional components (buttons, select menus) to attach */
+  components?: ActionRowBuilder<ButtonBuilder>[];
+}
+
 /**
  * Options for editing an existing message
  */
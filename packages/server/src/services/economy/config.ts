@@ -0,0 +1,85 @@
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { Discord } from "@/discord/constants";
+import {
+  type EconomyStatsConfig,
+  IssuanceSource,
+  type LedgerReconciliationConfig,
+} from "./types";
+
+/**
+ * Transaction types counted towards each issuance source
+ *
+ * Amounts are summed with their sign, so each source reports net issuance
+ * (e.g. admin grants minus admin deductions). Reconciliation entries record
+ * manual database fixes and count as admin issuance. Refunds are written
+ * by admin reversals; the sides of a reversed transfer cancel out, except
+ * for a shortfall that could not be taken back. Exchange buys take money
+ * out of circulation and sells pay it back at the current price.
+ *
+ * Every transaction type is either listed here or in CIRCULATION_TYPES.
+ */
+export const ISSUANCE_SOURCE_TYPES: Record<
+  IssuanceSource,
+  BalanceTransactionType[]
+> = {
+  [IssuanceSource.REWARDS]: [BalanceTransactionType.REWARD],
+  [IssuanceSource.ADMIN]: [
+    BalanceTransactionType.ADMIN_GRANT,
+    BalanceTransactionType.ADMIN_DEDUCT,
+    BalanceTransactionType.RECONCILIATION,
+    BalanceTransactionType.REFUND,
+    BalanceTransactionType.OTHER,
+  ],
+  [IssuanceSource.MOD]: [
+    BalanceTransactionType.DEPOSIT,
+    BalanceTransactionType.WITHDRAWAL,
+  ],
+  [IssuanceSource.EXCHANGE]: [
+    BalanceTransactionType.EXCHANGE_BUY,
+    BalanceTransactionType.EXCHANGE_SELL,
+  ],
+};
+
+/**
+ * Transaction types that only move existing money between players, the
+ * treasury, companies and escrow, and are not issuance
+ *
+ * Fees and payouts have a treasury entry on the other side and company
+ * movements a company entry, both part of the money supply.
+ */
+export const CIRCULATION_TYPES: BalanceTransactionType[] = [
+  BalanceTransactionType.TRANSFER_SEND,
+  BalanceTransactionType.TRANSFER_RECEIVE,
+  BalanceTransactionType.TRANSFER_FEE,
+  BalanceTransactionType.TREASURY_PAYOUT,
+  BalanceTransactionType.PURCHASE,
+  BalanceTransactionType.SALE,
+  BalanceTransactionType.TRADE_ESCROW,
+  BalanceTransactionType.BOUNTY_ESCROW,
+  BalanceTransactionType.COMPANY_DEPOSIT,
+  BalanceTransactionType.COMPANY_WITHDRAWAL,
+  BalanceTransactionType.COMPANY_PAYROLL,
+];
+
+/**
+ * Weekly economy summary configuration
+ */
+export const ECONOMY_STATS_CONFIG: EconomyStatsConfig = {
+  summaryPeriodDays: 7,
+  summaryDayOfWeek: 1, // Monday
+  summaryHour: 12,
+  summaryChannelId: Discord.Channels.administration.NOTIFICATIONS,
+};
+
+/**
+ * Ledger reconciliation configuration
+ *
+ * The scheduled run only reports by default. Enable repairOnSchedule to
+ * also reconcile every affected player automatically; admins can always
+ * repair on demand with /economy reconcile.
+ */
+export const LEDGER_RECONCILIATION_CONFIG: LedgerReconciliationConfig = {
+  intervalMs: 24 * 60 * 60 * 1000, // 24 hours
+  reportChannelId: Discord.Channels.administration.NOTIFICATIONS,
+  repairOnSchedule: false,
+};
@@ -0,0 +1,219 @@
+import { Q } from "@/db";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { Discord } from "@/discord/constants";
+import { EmbedPresets } from "@/discord/embeds";
+import { ECONOMY_STATS_CONFIG, ISSUANCE_SOURCE_TYPES } from "./config";
+import { calculateGini, calculateMedian, calculateTopShare } from "./stats";
+import {
+  type DailyIssuance,
+  type EconomyStats,
+  type EconomyStatsConfig,
+  IssuanceSource,
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service for economy health statistics
+ *
+ * Reports the money supply (player, treasury and company balances), its
+ * distribution among players (from player_balance) and issuance and
+ * transfer activity (from player_balance_transaction). A
+ * summary of the last week is posted to the admin channel every week.
+ */
+export class EconomyStatsService {
+  private timeoutId?: NodeJS.Timeout;
+  private intervalId?: NodeJS.Timeout;
+
+  constructor(
+    private readonly config: EconomyStatsConfig = ECONOMY_STATS_CONFIG,
+  ) {}
+
+  /**
+   * Initialize the service and schedule the weekly summary
+   * Called by the service container during startup
+   *
+   * @returns Promise resolving when the service is started
+   */
+  async initialize(): Promise<void> {
+    logger.info("Initializing EconomyStatsService...");
+
+    const msUntilNextSummary = this.getNextSummaryTime().getTime() - Date.now();
+
+    this.timeoutId = setTimeout(() => {
+      this.postWeeklySummary().catch((error) => {
+        logger.error("Weekly economy summary failed:", error);
+      });
+
+      this.intervalId = setInterval(() => {
+        this.postWeeklySummary().catch((error) => {
+          logger.error("Weekly economy summary failed:", error);
+        });
+      }, 7 * DAY_MS);
+    }, msUntilNextSummary);
+
+    logger.info(
+      `EconomyStatsService initialized (next summary in ${Math.round(msUntilNextSummary / 1000 / 60)} minutes)`,
+    );
+  }
+
+  /**
+   * Shutdown the service and clean up timers
+   * Called by the service container during graceful shutdown
+   *
+   * @returns Promise resolving when the service is shut down
+   */
+  async shutdown(): Promise<void> {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
+    }
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+
+    logger.info("EconomyStatsService stopped");
+  }
+
+  /**
+   * Calculates economy statistics
+   *
+   * @param periodDays - Number of days covered by issuance and transfer stats
+   * @returns Promise resolving to the statistics
+   */
+  async getStats(periodDays: number = 7): Promise<EconomyStats> {
+    const generatedAt = new Date();
+    const since = new Date(generatedAt.getTime() - periodDays * DAY_MS);
+
+    const [balances, treasury, companies, dailyTotals] = await Promise.all([
+      Q.player.balance.getAllBalances(),
+      Q.economy.treasury.getTotalBalance(),
+      Q.company.getTotalBalance(),
+      Q.player.balance.transaction.getDailyTotalsByType(since),
+    ]);
+
+    const players = balances.reduce((sum, balance) => sum + balance, 0n);
+    const displayBalances = balances.map((balance) =>
+      BalanceUtils.fromStorage(balance),
+    );
+
+    const sourceByType = new Map<string, IssuanceSource>();
+    for (const [source, types] of Object.entries(ISSUANCE_SOURCE_TYPES)) {
+      for (const type of types) {
+        sourceByType.set(type, source as IssuanceSource);
+      }
+    }
+
+    const daily = new Map<string, DailyIssuance>();
+    const issuanceBySource = emptySourceTotals();
+    let transferVolume = 0n;
+    let transferCount = 0;
+
+    for (const row of dailyTotals) {
+      if (row.transactionType === BalanceTransactionType.TRANSFER_SEND) {
+        transferVolume += -row.total;
+        transferCount += row.count;
+        continue;
+      }
+
+      const source = sourceByType.get(row.transactionType);
+      if (!source) {
+        continue;
+      }
+
+      let day = daily.get(row.date);
+      if (!day) {
+        day = { date: row.date, bySource: emptySourceTotals(), total: 0n };
+        daily.set(row.date, day);
+      }
+
+      day.bySource[source] += row.total;
+      day.total += row.total;
+      issuanceBySource[source] += row.total;
+    }
+
+    return {
+      generatedAt,
+      since,
+      periodDays,
+      moneySupply: players + treasury + companies,
+      supplyByHolder: { players, treasury, companies },
+      accounts: balances.length,
+      averageBalance:
+        balances.length > 0 ? players / BigInt(balances.length) : 0n,
+      medianBalance: calculateMedian(balances),
+      gini: calculateGini(displayBalances),
+      top10Share: calculateTopShare(displayBalances, 0.1),
+      issuance: {
+        bySource: issuanceBySource,
+        total: Object.values(issuanceBySource).reduce(
+          (sum, value) => sum + value,
+          0n,
+        ),
+        daily: Array.from(daily.values()),
+      },
+      transfers: {
+        volume: transferVolume,
+        count: transferCount,
+      },
+    };
+  }
+
+  /**
+   * Posts the weekly economy summary to the admin channel
+   *
+   * @returns Promise resolving when the summary is posted
+   */
+  async postWeeklySummary(): Promise<void> {
+    const stats = await this.getStats(this.config.summaryPeriodDays);
+    const embed = EmbedPresets.economy.stats(stats, "📈 Weekly Economy Summary");
+
+    const result = await Discord.Messages.send({
+      channelId: this.config.summaryChannelId,
+      embeds: embed.build(),
+    });
+
+    if (!result.success) {
+      logger.warn("Failed to post weekly economy summary");
+      return;
+    }
+
+    logger.info("Posted weekly economy summary");
+  }
+
+  /**
+   * Calculates the next configured summary time (UTC)
+   * @private
+   */
+  private getNextSummaryTime(): Date {
+    const now = new Date();
+    const next = new Date(now);
+
+    next.setUTCHours(this.config.summaryHour, 0, 0, 0);
+    next.setUTCDate(
+      next.getUTCDate() +
+        ((this.config.summaryDayOfWeek - next.getUTCDay() + 7) % 7),
+    );
+
+    if (next <= now) {
+      next.setUTCDate(next.getUTCDate() + 7);
+    }
+
+    return next;
+  }
+}
+
+/**
+ * Creates a zeroed total for every issuance source
+ */
+function emptySourceTotals(): Record<IssuanceSource, bigint> {
+  return {
+    [IssuanceSource.REWARDS]: 0n,
+    [IssuanceSource.ADMIN]: 0n,
+    [IssuanceSource.MOD]: 0n,
+    [IssuanceSource.EXCHANGE]: 0n,
+  };
+}
@@ -0,0 +1,6 @@
+export * from "./config";
+export * from "./economy-stats.service";
+export * from "./ledger-reconciliation.service";
+export * from "./reconciliation";
+export * from "./stats";
+export * from "./types";
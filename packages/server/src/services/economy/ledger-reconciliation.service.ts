@@ -0,0 +1,207 @@
+import { balanceRepo, Q } from "@/db";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { Discord } from "@/discord/constants";
+import { EmbedPresets } from "@/discord/embeds";
+import { LEDGER_RECONCILIATION_CONFIG } from "./config";
+import { replayLedger } from "./reconciliation";
+import {
+  type LedgerReconciliationConfig,
+  type LedgerReconciliationReport,
+  LedgerIssueType,
+  type PlayerLedgerReport,
+} from "./types";
+
+/**
+ * Service for ledger reconciliation
+ *
+ * Replays every player's balance_before → balance_after chain and compares
+ * it with the stored balance to catch gaps, mismatched entries and drift
+ * (e.g. from manual database edits or failed writes). Runs on a schedule
+ * and posts a report to the admin channel when something is found.
+ *
+ * In repair mode, affected players get a reconciliation entry that brings
+ * the ledger in line with their stored balance.
+ */
+export class LedgerReconciliationService {
+  private intervalId?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(
+    private readonly config: LedgerReconciliationConfig = LEDGER_RECONCILIATION_CONFIG,
+  ) {}
+
+  /**
+   * Initialize the service and schedule reconciliation runs
+   * Called by the service container during startup
+   *
+   * @returns Promise resolving when the service is started
+   */
+  async initialize(): Promise<void> {
+    logger.info("Initializing LedgerReconciliationService...");
+
+    this.intervalId = setInterval(() => {
+      this.runScheduled().catch((error) => {
+        logger.error("Scheduled ledger reconciliation failed:", error);
+      });
+    }, this.config.intervalMs);
+
+    logger.info(
+      `LedgerReconciliationService initialized (every ${Math.round(this.config.intervalMs / 1000 / 60)} minutes, repair: ${this.config.repairOnSchedule})`,
+    );
+  }
+
+  /**
+   * Shutdown the service and clean up timers
+   * Called by the service container during graceful shutdown
+   *
+   * @returns Promise resolving when the service is shut down
+   */
+  async shutdown(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+
+    logger.info("LedgerReconciliationService stopped");
+  }
+
+  /**
+   * Reconciles every player's ledger
+   *
+   * @param options.repair - Whether to write reconciliation entries for
+   *   players with issues
+   * @returns Promise resolving to the reconciliation report
+   * @throws Error if a run is already in progress
+   */
+  async run(
+    options: { repair?: boolean } = {},
+  ): Promise<LedgerReconciliationReport> {
+    if (this.isRunning) {
+      throw new Error("Ledger reconciliation is already running");
+    }
+
+    this.isRunning = true;
+
+    try {
+      return await this.reconcileAll(options.repair ?? false);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Posts a reconciliation report to the admin channel
+   *
+   * @param report - Report to post
+   * @returns Promise resolving when the report is posted
+   */
+  async postReport(report: LedgerReconciliationReport): Promise<void> {
+    const embed = EmbedPresets.economy.reconciliation(report);
+
+    const result = await Discord.Messages.send({
+      channelId: this.config.reportChannelId,
+      embeds: embed.build(),
+    });
+
+    if (!result.success) {
+      logger.warn("Failed to post ledger reconciliation report");
+    }
+  }
+
+  /**
+   * Runs a scheduled reconciliation and reports any issues found
+   * @private
+   */
+  private async runScheduled(): Promise<void> {
+    if (this.isRunning) {
+      logger.debug("Ledger reconciliation already running, skipping");
+      return;
+    }
+
+    const report = await this.run({ repair: this.config.repairOnSchedule });
+
+    if (report.players.length > 0) {
+      await this.postReport(report);
+    }
+  }
+
+  /**
+   * Replays and optionally repairs every balance account
+   * @private
+   */
+  private async reconcileAll(
+    repair: boolean,
+  ): Promise<LedgerReconciliationReport> {
+    const startedAt = new Date();
+    const accounts = await Q.player.balance.getAccounts();
+
+    const players: PlayerLedgerReport[] = [];
+    const issueCounts: Record<LedgerIssueType, number> = {
+      [LedgerIssueType.CHAIN_GAP]: 0,
+      [LedgerIssueType.AMOUNT_MISMATCH]: 0,
+      [LedgerIssueType.BALANCE_DRIFT]: 0,
+    };
+    let transactionsChecked = 0;
+
+    for (const account of accounts) {
+      const entries = await Q.player.balance.transaction.getLedgerChain(
+        account.minecraftUuid,
+      );
+      transactionsChecked += entries.length;
+
+      const issues = replayLedger(
+        entries,
+        account.balance,
+        BalanceTransactionType.RECONCILIATION,
+      );
+
+      if (issues.length === 0) {
+        continue;
+      }
+
+      for (const issue of issues) {
+        issueCounts[issue.type]++;
+      }
+
+      const playerReport: PlayerLedgerReport = {
+        minecraftUuid: account.minecraftUuid,
+        minecraftUsername: account.minecraftUsername,
+        issues,
+      };
+
+      if (repair) {
+        try {
+          playerReport.adjustment = await balanceRepo.reconcile(
+            account.minecraftUuid,
+            "Ledger reconciliation",
+            { issues: issues.length },
+          );
+        } catch (error) {
+          logger.error(
+            `Failed to reconcile ledger of ${account.minecraftUsername}:`,
+            error,
+          );
+        }
+      }
+
+      players.push(playerReport);
+    }
+
+    const report: LedgerReconciliationReport = {
+      startedAt,
+      completedAt: new Date(),
+      repair,
+      playersChecked: accounts.length,
+      transactionsChecked,
+      players,
+      issueCounts,
+    };
+
+    logger.info(
+      `Ledger reconciliation checked ${report.playersChecked} player(s) and ${transactionsChecked} transaction(s), ` +
+        `${players.length} with issues${repair ? " (repaired)" : ""}`,
+    );
+
+    return report;
+  }
+}
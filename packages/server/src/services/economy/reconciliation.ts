@@ -0,0 +1,68 @@
+import { type LedgerEntry, type LedgerIssue, LedgerIssueType } from "./types";
+
+/**
+ * Pure helpers for ledger reconciliation
+ */
+
+/**
+ * Replays a player's transaction chain against their stored balance
+ *
+ * Every account starts at zero, so the chain must start at a
+ * balance_before of 0 and each entry must continue from the previous
+ * balance_after. The last balance_after must equal the stored balance.
+ *
+ * Entries of the checkpoint type (reconciliation entries) mark the chain
+ * as reviewed up to that point: issues before the latest checkpoint are
+ * dropped and replay restarts from its balance_after.
+ *
+ * @param entries - The player's entries in the order they were written
+ * @param balance - The player's stored balance
+ * @param checkpointType - Transaction type of checkpoint entries
+ * @returns Issues found, in chain order
+ */
+export function replayLedger(
+  entries: LedgerEntry[],
+  balance: bigint,
+  checkpointType: string,
+): LedgerIssue[] {
+  let issues: LedgerIssue[] = [];
+  let expectedBefore = 0n;
+
+  for (const entry of entries) {
+    if (entry.transactionType === checkpointType) {
+      issues = [];
+      expectedBefore = entry.balanceAfter;
+      continue;
+    }
+
+    if (entry.balanceBefore !== expectedBefore) {
+      issues.push({
+        type: LedgerIssueType.CHAIN_GAP,
+        transactionId: entry.id,
+        expected: expectedBefore,
+        actual: entry.balanceBefore,
+      });
+    }
+
+    if (entry.balanceBefore + entry.amount !== entry.balanceAfter) {
+      issues.push({
+        type: LedgerIssueType.AMOUNT_MISMATCH,
+        transactionId: entry.id,
+        expected: entry.balanceBefore + entry.amount,
+        actual: entry.balanceAfter,
+      });
+    }
+
+    expectedBefore = entry.balanceAfter;
+  }
+
+  if (balance !== expectedBefore) {
+    issues.push({
+      type: LedgerIssueType.BALANCE_DRIFT,
+      expected: expectedBefore,
+      actual: balance,
+    });
+  }
+
+  return issues;
+}
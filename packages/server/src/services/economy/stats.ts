@@ -0,0 +1,79 @@
+/**
+ * Pure helpers for wealth distribution statistics
+ */
+
+/**
+ * Calculates the Gini coefficient of a set of balances
+ *
+ * 0 means every account holds the same amount, values close to 1 mean a
+ * single account holds almost everything.
+ *
+ * @param balances - Balances in any order
+ * @returns Gini coefficient between 0 and 1 (0 for empty or zero supply)
+ */
+export function calculateGini(balances: number[]): number {
+  const sorted = [...balances].sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+
+  if (n === 0 || total <= 0) {
+    return 0;
+  }
+
+  const weighted = sorted.reduce(
+    (sum, value, index) => sum + (index + 1) * value,
+    0,
+  );
+
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+/**
+ * Calculates the share of the total held by the richest accounts
+ *
+ * @param balances - Balances in any order
+ * @param fraction - Fraction of accounts to include (e.g. 0.1 for top 10%)
+ * @returns Share between 0 and 1 (0 for empty or zero supply)
+ */
+export function calculateTopShare(
+  balances: number[],
+  fraction: number = 0.1,
+): number {
+  const total = balances.reduce((sum, value) => sum + value, 0);
+
+  if (balances.length === 0 || total <= 0) {
+    return 0;
+  }
+
+  const count = Math.max(1, Math.ceil(balances.length * fraction));
+  const top = [...balances]
+    .sort((a, b) => b - a)
+    .slice(0, count)
+    .reduce((sum, value) => sum + value, 0);
+
+  return top / total;
+}
+
+/**
+ * Calculates the median of a set of balances
+ *
+ * For an even number of balances this is the mean of the two middle ones,
+ * rounded down to the smallest unit.
+ *
+ * @param balances - Balances in any order, in smallest unit
+ * @returns Median balance (0 for no balances)
+ */
+export function calculateMedian(balances: bigint[]): bigint {
+  const n = balances.length;
+
+  if (n === 0) {
+    return 0n;
+  }
+
+  const sorted = [...balances].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(n / 2);
+
+  return n % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2n;
+}
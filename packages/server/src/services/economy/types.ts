@@ -0,0 +1,139 @@
+/**
+ * Economy Statistics Type Definitions
+ *
+ * Defines types for money supply and inflation reporting, and for ledger
+ * reconciliation
+ */
+
+/**
+ * Sources through which money enters (or leaves) circulation
+ */
+export enum IssuanceSource {
+  REWARDS = "rewards",
+  ADMIN = "admin",
+  MOD = "mod",
+  EXCHANGE = "exchange",
+}
+
+export interface EconomyStatsConfig {
+  /** Number of days covered by the weekly summary */
+  summaryPeriodDays: number;
+  /** Day of the week the summary is posted (0 = Sunday, UTC) */
+  summaryDayOfWeek: number;
+  /** Hour of the day the summary is posted (UTC) */
+  summaryHour: number;
+  /** Discord channel ID the summary is posted to */
+  summaryChannelId: string;
+}
+
+/**
+ * Net amount issued per source on a single day (UTC)
+ */
+export interface DailyIssuance {
+  /** Day in YYYY-MM-DD format */
+  date: string;
+  bySource: Record<IssuanceSource, bigint>;
+  total: bigint;
+}
+
+export interface EconomyStats {
+  generatedAt: Date;
+  /** Start of the reporting period */
+  since: Date;
+  periodDays: number;
+
+  /** Total balance held by players, the treasury and companies */
+  moneySupply: bigint;
+  /** Part of the money supply held by each kind of account */
+  supplyByHolder: {
+    players: bigint;
+    treasury: bigint;
+    companies: bigint;
+  };
+  /** Number of player balance accounts */
+  accounts: number;
+  averageBalance: bigint;
+  medianBalance: bigint;
+  /** Gini coefficient of balances (0 = perfectly equal, 1 = one player holds everything) */
+  gini: number;
+  /** Share of player balances held by the richest 10% of accounts (0-1) */
+  top10Share: number;
+
+  issuance: {
+    /** Net amount issued over the period per source */
+    bySource: Record<IssuanceSource, bigint>;
+    /** Net amount issued over the period across all sources */
+    total: bigint;
+    daily: DailyIssuance[];
+  };
+
+  transfers: {
+    /** Total amount moved between players */
+    volume: bigint;
+    count: number;
+  };
+}
+
+export interface LedgerReconciliationConfig {
+  /** How often the reconciliation job runs (milliseconds) */
+  intervalMs: number;
+  /** Discord channel ID reports are posted to */
+  reportChannelId: string;
+  /** Whether scheduled runs repair the issues they find */
+  repairOnSchedule: boolean;
+}
+
+/**
+ * Kinds of inconsistency found when replaying a transaction chain
+ */
+export enum LedgerIssueType {
+  /** balance_before does not continue from the previous balance_after */
+  CHAIN_GAP = "chain_gap",
+  /** balance_after is not balance_before + amount */
+  AMOUNT_MISMATCH = "amount_mismatch",
+  /** Stored balance differs from the last balance_after */
+  BALANCE_DRIFT = "balance_drift",
+}
+
+/**
+ * Transaction entry as needed to replay a chain
+ */
+export interface LedgerEntry {
+  id: number;
+  amount: bigint;
+  balanceBefore: bigint;
+  balanceAfter: bigint;
+  transactionType: string;
+}
+
+export interface LedgerIssue {
+  type: LedgerIssueType;
+  /** Offending transaction (absent for balance drift) */
+  transactionId?: number;
+  /** Value the replayed chain predicts */
+  expected: bigint;
+  /** Value actually stored */
+  actual: bigint;
+}
+
+/**
+ * Issues found for a single player
+ */
+export interface PlayerLedgerReport {
+  minecraftUuid: string;
+  minecraftUsername: string;
+  issues: LedgerIssue[];
+  /** Amount the ledger was adjusted by, when repaired */
+  adjustment?: bigint;
+}
+
+export interface LedgerReconciliationReport {
+  startedAt: Date;
+  completedAt: Date;
+  repair: boolean;
+  playersChecked: number;
+  transactionsChecked: number;
+  /** Players with at least one issue */
+  players: PlayerLedgerReport[];
+  issueCounts: Record<LedgerIssueType, number>;
+}
@@ -0,0 +1,49 @@
+import type { ExchangeConfig } from "./types";
+
+/**
+ * Exchange configuration
+ *
+ * Assets are synced into the database on startup: new symbols start at
+ * their base price, symbols removed from this list stop trading but can
+ * still be sold by their holders.
+ */
+export const EXCHANGE_CONFIG: ExchangeConfig = {
+  tickIntervalMs: 60 * 1000, // 1 minute
+  historyRetentionMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+  seed: "createrington",
+  maxOrderQuantity: 10_000,
+  assets: [
+    {
+      symbol: "ANDESITE",
+      name: "Andesite Alloy",
+      basePrice: 2,
+      volatility: 0.01,
+      meanReversion: 0.05,
+      minPrice: 0.1,
+    },
+    {
+      symbol: "BRASS",
+      name: "Brass Ingot",
+      basePrice: 15,
+      volatility: 0.02,
+      meanReversion: 0.03,
+      minPrice: 1,
+    },
+    {
+      symbol: "ROSE",
+      name: "Rose Quartz",
+      basePrice: 40,
+      volatility: 0.035,
+      meanReversion: 0.02,
+      minPrice: 2,
+    },
+    {
+      symbol: "STURDY",
+      name: "Sturdy Sheet",
+      basePrice: 120,
+      volatility: 0.05,
+      meanReversion: 0.01,
+      minPrice: 5,
+    },
+  ],
+};
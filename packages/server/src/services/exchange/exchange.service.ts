@@ -0,0 +1,470 @@
+import EventEmitter from "node:events";
+import { balanceRepo, db, Q } from "@/db";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type {
+  ExchangeAsset,
+  ExchangeHolding,
+  ExchangePrice,
+  ExchangeTrade,
+} from "@/generated/db";
+import type { ExchangePricesUpdatePayload } from "@createrington/shared";
+import { EXCHANGE_CONFIG } from "./config";
+import { calculateNextPrice, getTickNumber } from "./pricing";
+import {
+  type ExchangeAssetConfig,
+  type ExchangeConfig,
+  type ExchangeOrderResult,
+  type ExchangeQuote,
+  ExchangeTradeSide,
+} from "./types";
+
+/** Window used for the price change shown next to each quote */
+const CHANGE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface ExchangeServiceEvents {
+  priceTick: (payload: ExchangePricesUpdatePayload) => void;
+}
+
+export declare interface ExchangeService {
+  on<K extends keyof ExchangeServiceEvents>(
+    event: K,
+    listener: ExchangeServiceEvents[K],
+  ): this;
+  emit<K extends keyof ExchangeServiceEvents>(
+    event: K,
+    ...args: Parameters<ExchangeServiceEvents[K]>
+  ): boolean;
+}
+
+/**
+ * Service for the simulated commodity exchange
+ *
+ * Prices of the configured assets move on a fixed tick driven by the
+ * deterministic price engine in ./pricing. Every tick updates the current
+ * price, appends to the price history and emits a priceTick event, which
+ * the WebSocket service pushes to clients subscribed to exchange prices.
+ *
+ * Players buy and sell at the current price. The balance movement, the
+ * holding update and the trade record run in one database transaction,
+ * and are logged to the balance history as EXCHANGE_BUY / EXCHANGE_SELL.
+ */
+export class ExchangeService extends EventEmitter {
+  private intervalId?: NodeJS.Timeout;
+  private assets: Map<string, ExchangeAsset> = new Map();
+  private assetConfigs: Map<string, ExchangeAssetConfig>;
+  private lastTick?: number;
+
+  constructor(private readonly config: ExchangeConfig = EXCHANGE_CONFIG) {
+    super();
+    this.assetConfigs = new Map(
+      config.assets.map((asset) => [asset.symbol, asset]),
+    );
+  }
+
+  /**
+   * Initialize the service and start the price ticker
+   * Called by the service container during startup
+   *
+   * Syncs the configured assets into the database before the first tick.
+   *
+   * @returns Promise resolving when the service is started
+   */
+  async initialize(): Promise<void> {
+    logger.info("Initializing ExchangeService...");
+
+    const assets = await Q.exchange.asset.syncConfigured(
+      this.config.assets.map((asset) => ({
+        symbol: asset.symbol,
+        name: asset.name,
+        price: BalanceUtils.toStorage(asset.basePrice),
+      })),
+    );
+
+    for (const asset of assets) {
+      this.assets.set(asset.symbol, asset);
+    }
+
+    this.intervalId = setInterval(() => {
+      this.tick().catch((error) => {
+        logger.error("Scheduled exchange price tick failed:", error);
+      });
+    }, this.config.tickIntervalMs);
+
+    logger.info(
+      `ExchangeService initialized (${this.assetConfigs.size} assets, tick every ${this.config.tickIntervalMs / 1000}s)`,
+    );
+  }
+
+  /**
+   * Shutdown the service and clean up timers
+   * Called by the service container during graceful shutdown
+   *
+   * @returns Promise resolving when the service is shut down
+   */
+  async shutdown(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      logger.info("ExchangeService stopped");
+    }
+  }
+
+  /**
+   * Gets the current quote of every asset
+   *
+   * @returns Promise resolving to quotes, active assets first
+   */
+  async getQuotes(): Promise<ExchangeQuote[]> {
+    const openingPrices = await Q.exchange.price.findOpeningPrices(
+      new Date(Date.now() - CHANGE_WINDOW_MS),
+    );
+
+    return [...this.assets.values()].map((asset) =>
+      this.toQuote(asset, openingPrices.get(asset.symbol)),
+    );
+  }
+
+  /**
+   * Gets the current quote of a single asset
+   *
+   * @param symbol - Asset symbol (case-insensitive)
+   * @returns Promise resolving to the quote, or null if the asset does not
+   * exist
+   */
+  async getQuote(symbol: string): Promise<ExchangeQuote | null> {
+    const asset = this.assets.get(symbol.toUpperCase());
+
+    if (!asset) {
+      return null;
+    }
+
+    const openingPrices = await Q.exchange.price.findOpeningPrices(
+      new Date(Date.now() - CHANGE_WINDOW_MS),
+    );
+
+    return this.toQuote(asset, openingPrices.get(asset.symbol));
+  }
+
+  /**
+   * Gets the price history of an asset, oldest first
+   *
+   * @param symbol - Asset symbol (case-insensitive)
+   * @param since - Start of the history window
+   * @returns Promise resolving to the recorded prices
+   * @throws Error if the asset does not exist
+   */
+  async getHistory(symbol: string, since: Date): Promise<ExchangePrice[]> {
+    const asset = this.requireAsset(symbol);
+
+    return await Q.exchange.price.findAll(
+      { assetSymbol: asset.symbol, recordedAt: { $gte: since } },
+      { orderBy: "recordedAt", orderDirection: "ASC" },
+    );
+  }
+
+  /**
+   * Gets a player's holdings, largest first
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @returns Promise resolving to the player's non-empty holdings
+   */
+  async getHoldings(playerUuid: string): Promise<ExchangeHolding[]> {
+    return await Q.exchange.holding.findAll(
+      { playerMinecraftUuid: playerUuid, quantity: { $gt: 0 } },
+      { orderBy: "quantity", orderDirection: "DESC" },
+    );
+  }
+
+  /**
+   * Gets a player's filled orders, newest first
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @param limit - Page size
+   * @param offset - Rows to skip
+   * @returns Promise resolving to a page of trades and the total count
+   */
+  async getTrades(
+    playerUuid: string,
+    limit: number,
+    offset: number,
+  ): Promise<{ trades: ExchangeTrade[]; total: number }> {
+    const [trades, total] = await Promise.all([
+      Q.exchange.trade.findAll(
+        { playerMinecraftUuid: playerUuid },
+        { orderBy: "createdAt", orderDirection: "DESC", limit, offset },
+      ),
+      Q.exchange.trade.count({ playerMinecraftUuid: playerUuid }),
+    ]);
+
+    return { trades, total };
+  }
+
+  /**
+   * Buys units of an asset at the current price
+   *
+   * @param playerUuid - Minecraft UUID of the buyer
+   * @param symbol - Asset symbol (case-insensitive)
+   * @param quantity - Units to buy
+   * @returns Promise resolving to the filled order
+   * @throws Error if the asset is not tradable, the quantity is invalid or
+   * the player cannot cover the cost
+   */
+  async buy(
+    playerUuid: string,
+    symbol: string,
+    quantity: number,
+  ): Promise<ExchangeOrderResult> {
+    this.validateQuantity(quantity);
+    const asset = this.requireAsset(symbol);
+
+    if (!asset.isActive) {
+      throw new Error(
+        `${asset.symbol} is no longer traded and can only be sold`,
+      );
+    }
+
+    return await this.fill(ExchangeTradeSide.BUY, playerUuid, asset, quantity);
+  }
+
+  /**
+   * Sells units of an asset at the current price
+   *
+   * @param playerUuid - Minecraft UUID of the seller
+   * @param symbol - Asset symbol (case-insensitive)
+   * @param quantity - Units to sell
+   * @returns Promise resolving to the filled order
+   * @throws Error if the asset does not exist, the quantity is invalid or
+   * the player does not hold enough units
+   */
+  async sell(
+    playerUuid: string,
+    symbol: string,
+    quantity: number,
+  ): Promise<ExchangeOrderResult> {
+    this.validateQuantity(quantity);
+    const asset = this.requireAsset(symbol);
+
+    return await this.fill(ExchangeTradeSide.SELL, playerUuid, asset, quantity);
+  }
+
+  /**
+   * Moves every active asset to its next price
+   *
+   * Runs at most once per tick number, so a slow tick overlapping the next
+   * interval cannot move prices twice. Price history older than the
+   * retention period is pruned on every tick.
+   *
+   * @returns Promise resolving when the tick is recorded and broadcast
+   */
+  async tick(): Promise<void> {
+    const now = new Date();
+    const tick = getTickNumber(now.getTime(), this.config.tickIntervalMs);
+
+    if (tick === this.lastTick) {
+      return;
+    }
+    this.lastTick = tick;
+
+    const changes: Array<{
+      asset: ExchangeAsset;
+      previousPrice: bigint;
+      price: bigint;
+    }> = [];
+
+    for (const asset of this.assets.values()) {
+      const assetConfig = this.assetConfigs.get(asset.symbol);
+
+      if (!asset.isActive || !assetConfig) {
+        continue;
+      }
+
+      const nextPrice = calculateNextPrice(
+        BalanceUtils.fromStorage(asset.price),
+        assetConfig,
+        this.config.seed,
+        tick,
+      );
+
+      changes.push({
+        asset,
+        previousPrice: asset.price,
+        price: BalanceUtils.toStorage(nextPrice),
+      });
+    }
+
+    if (changes.length === 0) {
+      return;
+    }
+
+    await db.inTransaction(async (tx) => {
+      for (const change of changes) {
+        await tx.exchange.asset.update(
+          { symbol: change.asset.symbol },
+          { price: change.price, updatedAt: now },
+        );
+      }
+
+      await tx.exchange.price.recordTick(
+        changes.map((change) => ({
+          symbol: change.asset.symbol,
+          price: change.price,
+        })),
+        now,
+      );
+    });
+
+    for (const change of changes) {
+      this.assets.set(change.asset.symbol, {
+        ...change.asset,
+        price: change.price,
+        updatedAt: now,
+      });
+    }
+
+    this.emit("priceTick", {
+      prices: changes.map((change) => ({
+        symbol: change.asset.symbol,
+        price: BalanceUtils.format(change.price),
+        previousPrice: BalanceUtils.format(change.previousPrice),
+      })),
+      timestamp: now,
+    });
+
+    await Q.exchange.price.deleteOlderThan(
+      new Date(now.getTime() - this.config.historyRetentionMs),
+    );
+  }
+
+  /**
+   * Settles an order against the player's balance and holding
+   *
+   * The price is read inside the transaction, so the order fills at the
+   * price stored when it runs, not one from a tick it raced with.
+   */
+  private async fill(
+    side: ExchangeTradeSide,
+    playerUuid: string,
+    asset: ExchangeAsset,
+    quantity: number,
+  ): Promise<ExchangeOrderResult> {
+    const result = await db.inTransaction(async (tx) => {
+      const { price } = await tx.exchange.asset.get({ symbol: asset.symbol });
+      const total = price * BigInt(quantity);
+      const description = `Exchange ${side}: ${quantity}x ${asset.symbol} @ ${BalanceUtils.format(price)}`;
+      const metadata = {
+        assetSymbol: asset.symbol,
+        quantity,
+        price: BalanceUtils.format(price),
+      };
+
+      let holding: ExchangeHolding;
+      let newBalance: number;
+
+      if (side === ExchangeTradeSide.BUY) {
+        newBalance = await balanceRepo.deduct(
+          playerUuid,
+          BalanceUtils.fromStorage(total),
+          description,
+          BalanceTransactionType.EXCHANGE_BUY,
+          metadata,
+          tx,
+        );
+        holding = await tx.exchange.holding.addUnits(
+          playerUuid,
+          asset.symbol,
+          quantity,
+          total,
+        );
+      } else {
+        const updated = await tx.exchange.holding.removeUnits(
+          playerUuid,
+          asset.symbol,
+          quantity,
+        );
+
+        if (!updated) {
+          const current = await tx.exchange.holding.find({
+            playerMinecraftUuid: playerUuid,
+            assetSymbol: asset.symbol,
+          });
+          throw new Error(
+            `Insufficient holdings: you hold ${current?.quantity ?? 0} ${asset.symbol}`,
+          );
+        }
+
+        holding = updated;
+        newBalance = await balanceRepo.add(
+          playerUuid,
+          BalanceUtils.fromStorage(total),
+          description,
+          BalanceTransactionType.EXCHANGE_SELL,
+          metadata,
+          tx,
+        );
+      }
+
+      await tx.exchange.trade.create({
+        playerMinecraftUuid: playerUuid,
+        assetSymbol: asset.symbol,
+        side,
+        quantity,
+        price,
+        total,
+      });
+
+      return {
+        side,
+        symbol: asset.symbol,
+        quantity,
+        price,
+        total,
+        holdingQuantity: holding.quantity,
+        newBalance,
+      };
+    });
+
+    logger.info(
+      `Exchange ${side}: ${playerUuid} ${side === ExchangeTradeSide.BUY ? "bought" : "sold"} ${quantity}x ${asset.symbol} for $${BalanceUtils.format(result.total)}`,
+    );
+
+    return result;
+  }
+
+  private requireAsset(symbol: string): ExchangeAsset {
+    const asset = this.assets.get(symbol.toUpperCase());
+
+    if (!asset) {
+      throw new Error(`Asset ${symbol.toUpperCase()} does not exist`);
+    }
+
+    return asset;
+  }
+
+  private validateQuantity(quantity: number): void {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error("Quantity must be a positive integer");
+    }
+
+    if (quantity > this.config.maxOrderQuantity) {
+      throw new Error(
+        `Quantity cannot exceed ${this.config.maxOrderQuantity} units per order`,
+      );
+    }
+  }
+
+  private toQuote(asset: ExchangeAsset, openPrice?: bigint): ExchangeQuote {
+    const open = openPrice ?? asset.price;
+    const change = Number(asset.price - open) / Number(open);
+
+    return {
+      symbol: asset.symbol,
+      name: asset.name,
+      isActive: asset.isActive,
+      price: asset.price,
+      openPrice: open,
+      changePercent: Math.round(change * 10_000) / 100,
+      updatedAt: asset.updatedAt,
+    };
+  }
+}
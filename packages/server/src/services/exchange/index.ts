@@ -0,0 +1,4 @@
+export * from "./config";
+export * from "./exchange.service";
+export * from "./pricing";
+export * from "./types";
@@ -0,0 +1,92 @@
+import type { ExchangeAssetConfig } from "./types";
+
+/**
+ * Deterministic price engine for the simulated exchange
+ *
+ * Prices follow a mean-reverting random walk in log space (a discrete
+ * Ornstein-Uhlenbeck process): each tick the log price moves a fraction of
+ * the way back towards the log base price, plus normally distributed
+ * noise scaled by the asset's volatility.
+ *
+ * The noise for a tick is drawn from a PRNG seeded with the config seed,
+ * the asset symbol and the tick number, so the same starting price always
+ * produces the same next price.
+ */
+
+/**
+ * Creates a seeded pseudo-random number generator
+ *
+ * Hashes the seed with FNV-1a and feeds it to mulberry32.
+ *
+ * @param seed - Any string
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draws a standard normal sample using the Box-Muller transform
+ *
+ * @param random - Uniform random source in [0, 1)
+ * @returns Sample with mean 0 and standard deviation 1
+ */
+export function sampleNormal(random: () => number): number {
+  const u1 = 1 - random(); // (0, 1], avoids log(0)
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Gets the tick number a timestamp falls into
+ *
+ * @param timestamp - Time in milliseconds
+ * @param tickIntervalMs - Length of a tick
+ * @returns Tick number since the epoch
+ */
+export function getTickNumber(
+  timestamp: number,
+  tickIntervalMs: number,
+): number {
+  return Math.floor(timestamp / tickIntervalMs);
+}
+
+/**
+ * Calculates an asset's price for the next tick
+ *
+ * @param price - Current price
+ * @param asset - Asset parameters
+ * @param seed - Exchange seed
+ * @param tick - Tick number being calculated
+ * @returns Next price, rounded to 3 decimals and never below the floor
+ */
+export function calculateNextPrice(
+  price: number,
+  asset: ExchangeAssetConfig,
+  seed: string,
+  tick: number,
+): number {
+  const random = createSeededRandom(`${seed}:${asset.symbol}:${tick}`);
+
+  const logPrice = Math.log(price);
+  const logMean = Math.log(asset.basePrice);
+  const next = Math.exp(
+    logPrice +
+      asset.meanReversion * (logMean - logPrice) +
+      asset.volatility * sampleNormal(random),
+  );
+
+  return Math.max(asset.minPrice, Math.round(next * 1000) / 1000);
+}
@@ -0,0 +1,71 @@
+/**
+ * Exchange Type Definitions
+ *
+ * Defines types for the simulated commodity exchange
+ */
+
+export enum ExchangeTradeSide {
+  BUY = "buy",
+  SELL = "sell",
+}
+
+export interface ExchangeAssetConfig {
+  /** Ticker symbol, e.g. "BRASS" */
+  symbol: string;
+  /** Display name */
+  name: string;
+  /** Starting price, and the long-run mean prices revert to */
+  basePrice: number;
+  /** Standard deviation of the log price change per tick (e.g. 0.02 = ~2%) */
+  volatility: number;
+  /** Fraction of the distance to the base price closed each tick (0-1) */
+  meanReversion: number;
+  /** Price floor */
+  minPrice: number;
+}
+
+export interface ExchangeConfig {
+  /** How often prices move (milliseconds) */
+  tickIntervalMs: number;
+  /** How long price history is kept (milliseconds) */
+  historyRetentionMs: number;
+  /** Seed for the price engine; the same seed replays the same prices */
+  seed: string;
+  /** Largest number of units a single order may buy or sell */
+  maxOrderQuantity: number;
+  /** Tradable assets */
+  assets: ExchangeAssetConfig[];
+}
+
+/**
+ * Current price of an asset together with its recent change
+ * Prices are in smallest unit (3 decimal precision)
+ */
+export interface ExchangeQuote {
+  symbol: string;
+  name: string;
+  isActive: boolean;
+  price: bigint;
+  /** Price at the start of the change window */
+  openPrice: bigint;
+  /** Change since the open price, as a percentage */
+  changePercent: number;
+  updatedAt: Date;
+}
+
+/**
+ * Filled order; price and total are in smallest unit
+ */
+export interface ExchangeOrderResult {
+  side: ExchangeTradeSide;
+  symbol: string;
+  quantity: number;
+  /** Price per unit the order was filled at */
+  price: bigint;
+  /** Total paid or received */
+  total: bigint;
+  /** Player's units of the asset after the order */
+  holdingQuantity: number;
+  /** Player's balance after the order */
+  newBalance: number;
+}
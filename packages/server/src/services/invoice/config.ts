@@ -0,0 +1,13 @@
+import type { InvoiceConfig } from "./types";
+
+/**
+ * Invoice configuration
+ *
+ * Unlike trade offers, invoice buttons are handled by a persistent button
+ * handler, so invoices can stay open for longer than an interaction token.
+ */
+export const INVOICE_CONFIG: InvoiceConfig = {
+  defaultTtlMs: 24 * 60 * 60 * 1000, // 24 hours
+  maxTtlMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+  sweepIntervalMs: 60 * 1000, // 1 minute
+};
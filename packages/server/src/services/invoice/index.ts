@@ -0,0 +1,3 @@
+export * from "./config";
+export * from "./invoice.service";
+export * from "./types";
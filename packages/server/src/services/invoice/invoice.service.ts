@@ -0,0 +1,394 @@
+import { balanceRepo, db, Q } from "@/db";
+import type {
+  EconomyInvoiceListOptions,
+  EconomyInvoiceWithPlayers,
+} from "@/db/queries/economy/invoice";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { Discord } from "@/discord/constants";
+import { EmbedPresets } from "@/discord/embeds";
+import type { EconomyInvoice } from "@/generated/db";
+import { INVOICE_CONFIG } from "./config";
+import {
+  type CreateInvoiceOptions,
+  type InvoiceConfig,
+  InvoiceStatus,
+  type ResolvedInvoiceStatus,
+} from "./types";
+
+/**
+ * Service for payment requests (invoices) between players
+ *
+ * Lifecycle of an invoice:
+ * 1. Issuer creates an invoice addressed to a payer - no money moves yet
+ * 2. Payer pays - the amount is sent from the payer to the issuer with a
+ *    regular transfer (transfer fee included), tagged with the invoice ID
+ * 3. Payer declines, issuer cancels or the invoice expires - nothing is
+ *    charged
+ *
+ * Status transitions are guarded in the database (pending -> final only),
+ * so an invoice can never be paid twice, even if the Pay button is
+ * clicked repeatedly. Payment and transfer are written in one database
+ * transaction: if the transfer fails (e.g. insufficient balance) the
+ * invoice stays pending so the payer can try again.
+ *
+ * The invoice message in Discord is updated whenever an invoice is
+ * resolved, no matter where the resolution came from.
+ */
+export class InvoiceService {
+  private intervalId?: NodeJS.Timeout;
+
+  constructor(private readonly config: InvoiceConfig = INVOICE_CONFIG) {}
+
+  /**
+   * Initialize the service and start the expiry sweep
+   * Called by the service container during startup
+   *
+   * Invoices that expired while the bot was offline are expired immediately.
+   *
+   * @returns Promise resolving when the service is started
+   */
+  async initialize(): Promise<void> {
+    logger.info("Initializing InvoiceService...");
+
+    this.expireDue().catch((error) => {
+      logger.error("Initial invoice expiry sweep failed:", error);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.expireDue().catch((error) => {
+        logger.error("Scheduled invoice expiry sweep failed:", error);
+      });
+    }, this.config.sweepIntervalMs);
+
+    logger.info("InvoiceService initialized");
+  }
+
+  /**
+   * Shutdown the service and clean up timers
+   * Called by the service container during graceful shutdown
+   *
+   * @returns Promise resolving when the service is shut down
+   */
+  async shutdown(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      logger.info("InvoiceService stopped");
+    }
+  }
+
+  /**
+   * Gets an invoice with both players' usernames
+   *
+   * @param id - Invoice ID
+   * @returns Promise resolving to the invoice, or null if not found
+   */
+  async get(id: number): Promise<EconomyInvoiceWithPlayers | null> {
+    return await Q.economy.invoice.findWithPlayers(id);
+  }
+
+  /**
+   * Lists a player's issued and received invoices, newest first
+   *
+   * @param options - Player, filters and pagination
+   * @returns Promise resolving to the page of invoices and the total count
+   */
+  async list(
+    options: EconomyInvoiceListOptions,
+  ): Promise<{ invoices: EconomyInvoiceWithPlayers[]; total: number }> {
+    return await Q.economy.invoice.listForPlayer(options);
+  }
+
+  /**
+   * Creates an invoice
+   *
+   * @param options - Issuer, payer, amount, optional note and expiry
+   * @returns Promise resolving to the created invoice
+   * @throws Error if the amount or expiry is invalid
+   */
+  async create(
+    options: CreateInvoiceOptions,
+  ): Promise<EconomyInvoiceWithPlayers> {
+    const { issuerUuid, payerUuid, amount, note } = options;
+    const ttlMs = options.ttlMs ?? this.config.defaultTtlMs;
+
+    if (issuerUuid === payerUuid) {
+      throw new Error("You cannot invoice yourself");
+    }
+
+    if (amount <= 0) {
+      throw new Error("Invoice amount must be positive");
+    }
+
+    if (ttlMs <= 0 || ttlMs > this.config.maxTtlMs) {
+      throw new Error(
+        `Invoice expiry must be between 1 hour and ${Math.floor(this.config.maxTtlMs / 60 / 60 / 1000)} hours`,
+      );
+    }
+
+    BalanceUtils.validate(amount);
+
+    const invoice = await Q.economy.invoice.createAndReturn({
+      issuerMinecraftUuid: issuerUuid,
+      payerMinecraftUuid: payerUuid,
+      amount: BalanceUtils.toStorage(amount),
+      note: note ?? null,
+      status: InvoiceStatus.PENDING,
+      expiresAt: new Date(Date.now() + ttlMs),
+    });
+
+    logger.info(
+      `Invoice #${invoice.id} created: ${issuerUuid} requests $${BalanceUtils.format(invoice.amount)} from ${payerUuid}`,
+    );
+
+    return await this.getOrThrow(invoice.id);
+  }
+
+  /**
+   * Records the Discord message showing the invoice, so it can be updated
+   * when the invoice is resolved
+   *
+   * @param id - Invoice ID
+   * @param channelId - Channel the message was posted in
+   * @param messageId - ID of the posted message
+   */
+  async attachMessage(
+    id: number,
+    channelId: string,
+    messageId: string,
+  ): Promise<void> {
+    await Q.economy.invoice.update(
+      { id },
+      { discordChannelId: channelId, discordMessageId: messageId },
+    );
+  }
+
+  /**
+   * Pays an invoice with a transfer from the payer to the issuer
+   *
+   * @param id - Invoice ID
+   * @param payerUuid - Minecraft UUID of the player paying
+   * @returns Promise resolving to the paid invoice and the transfer fee
+   * @throws Error if the player is not the payer, the invoice is closed or
+   * the payer cannot cover the amount
+   */
+  async pay(
+    id: number,
+    payerUuid: string,
+  ): Promise<{ invoice: EconomyInvoiceWithPlayers; fee: number }> {
+    const invoice = await this.getOrThrow(id);
+
+    if (invoice.payerMinecraftUuid !== payerUuid) {
+      throw new Error("This invoice is not addressed to you");
+    }
+
+    const result = await db.inTransaction(async (tx) => {
+      await this.claim(invoice, InvoiceStatus.PAID, tx);
+
+      return await balanceRepo.transfer(
+        invoice.payerMinecraftUuid,
+        invoice.issuerMinecraftUuid,
+        BalanceUtils.fromStorage(invoice.amount),
+        invoice.note
+          ? `Invoice #${invoice.id}: ${invoice.note}`
+          : `Invoice #${invoice.id}`,
+        { invoiceId: invoice.id },
+        tx,
+      );
+    });
+
+    logger.info(`Invoice #${invoice.id} paid`);
+
+    const paid = await this.getOrThrow(invoice.id);
+    await this.updateMessage(paid);
+
+    return { invoice: paid, fee: result.fee };
+  }
+
+  /**
+   * Declines an invoice
+   *
+   * @param id - Invoice ID
+   * @param payerUuid - Minecraft UUID of the player declining
+   * @returns Promise resolving to the declined invoice
+   * @throws Error if the player is not the payer or the invoice is closed
+   */
+  async decline(
+    id: number,
+    payerUuid: string,
+  ): Promise<EconomyInvoiceWithPlayers> {
+    const invoice = await this.getOrThrow(id);
+
+    if (invoice.payerMinecraftUuid !== payerUuid) {
+      throw new Error("This invoice is not addressed to you");
+    }
+
+    return await this.resolve(invoice, InvoiceStatus.DECLINED);
+  }
+
+  /**
+   * Cancels an invoice
+   *
+   * @param id - Invoice ID
+   * @param issuerUuid - Minecraft UUID of the player cancelling
+   * @returns Promise resolving to the cancelled invoice
+   * @throws Error if the player is not the issuer or the invoice is closed
+   */
+  async cancel(
+    id: number,
+    issuerUuid: string,
+  ): Promise<EconomyInvoiceWithPlayers> {
+    const invoice = await this.getOrThrow(id);
+
+    if (invoice.issuerMinecraftUuid !== issuerUuid) {
+      throw new Error("Only the player who sent this invoice can cancel it");
+    }
+
+    return await this.resolve(invoice, InvoiceStatus.CANCELLED);
+  }
+
+  /**
+   * Expires a pending invoice
+   *
+   * @param id - Invoice ID
+   * @returns Promise resolving to the expired invoice, or null if the
+   * invoice was already resolved
+   */
+  async expire(id: number): Promise<EconomyInvoiceWithPlayers | null> {
+    const invoice = await this.get(id);
+
+    if (!invoice || invoice.status !== InvoiceStatus.PENDING) {
+      return null;
+    }
+
+    try {
+      return await this.resolve(invoice, InvoiceStatus.EXPIRED);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Expires all pending invoices past their expiry time
+   *
+   * @returns Promise resolving to the number of expired invoices
+   */
+  async expireDue(): Promise<number> {
+    const invoices = await Q.economy.invoice.findExpiredPending();
+    let expired = 0;
+
+    for (const invoice of invoices) {
+      try {
+        if (await this.expire(invoice.id)) {
+          expired++;
+        }
+      } catch (error) {
+        logger.error(`Failed to expire invoice #${invoice.id}:`, error);
+      }
+    }
+
+    if (expired > 0) {
+      logger.info(`Expired ${expired} invoice(s)`);
+    }
+
+    return expired;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Fetches an invoice or throws a user-facing error
+   * @private
+   */
+  private async getOrThrow(id: number): Promise<EconomyInvoiceWithPlayers> {
+    const invoice = await this.get(id);
+
+    if (!invoice) {
+      throw new Error(`Invoice #${id} does not exist`);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Moves a pending invoice into a final status or throws a user-facing
+   * error explaining why it could not be
+   * @private
+   */
+  private async claim(
+    invoice: EconomyInvoice,
+    status: ResolvedInvoiceStatus,
+    queries: typeof db = db,
+  ): Promise<void> {
+    const resolved = await queries.economy.invoice.resolvePending(
+      invoice.id,
+      status,
+    );
+
+    if (!resolved) {
+      const current = await this.getOrThrow(invoice.id);
+      throw new Error(
+        current.status === InvoiceStatus.PENDING
+          ? `Invoice #${invoice.id} has expired`
+          : `Invoice #${invoice.id} is already ${current.status}`,
+      );
+    }
+  }
+
+  /**
+   * Resolves an invoice without payment and updates its message
+   * @private
+   */
+  private async resolve(
+    invoice: EconomyInvoice,
+    status: Exclude<ResolvedInvoiceStatus, InvoiceStatus.PAID>,
+  ): Promise<EconomyInvoiceWithPlayers> {
+    await this.claim(invoice, status);
+
+    logger.info(`Invoice #${invoice.id} ${status}`);
+
+    const resolved = await this.getOrThrow(invoice.id);
+    await this.updateMessage(resolved);
+
+    return resolved;
+  }
+
+  /**
+   * Replaces the invoice message with the resolved invoice, removing its
+   * buttons
+   *
+   * Best effort: failures are logged and never fail the invoice operation
+   * itself.
+   *
+   * @private
+   */
+  private async updateMessage(
+    invoice: EconomyInvoiceWithPlayers,
+  ): Promise<void> {
+    if (!invoice.discordChannelId || !invoice.discordMessageId) {
+      return;
+    }
+
+    try {
+      const result = await Discord.Messages.edit({
+        channelId: invoice.discordChannelId,
+        messageId: invoice.discordMessageId,
+        embeds: EmbedPresets.invoice.invoice(invoice).build(),
+        components: [],
+      });
+
+      if (!result.success) {
+        logger.warn(
+          `Failed to update message of invoice #${invoice.id}: ${result.error}`,
+        );
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to update message of invoice #${invoice.id}:`,
+        error,
+      );
+    }
+  }
+}
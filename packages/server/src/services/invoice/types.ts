@@ -0,0 +1,40 @@
+/**
+ * Invoice System Type Definitions
+ *
+ * Defines types for payment requests between players
+ */
+
+export enum InvoiceStatus {
+  PENDING = "pending",
+  PAID = "paid",
+  DECLINED = "declined",
+  CANCELLED = "cancelled",
+  EXPIRED = "expired",
+}
+
+/**
+ * Final statuses a pending invoice can be resolved into
+ */
+export type ResolvedInvoiceStatus = Exclude<
+  InvoiceStatus,
+  InvoiceStatus.PENDING
+>;
+
+export interface InvoiceConfig {
+  /** How long an invoice stays open when no expiry is given (milliseconds) */
+  defaultTtlMs: number;
+  /** Longest expiry an issuer can choose (milliseconds) */
+  maxTtlMs: number;
+  /** How often expired invoices are swept (milliseconds) */
+  sweepIntervalMs: number;
+}
+
+export interface CreateInvoiceOptions {
+  issuerUuid: string;
+  payerUuid: string;
+  /** Requested amount (e.g. 50.000) */
+  amount: number;
+  note?: string;
+  /** How long the invoice stays open (milliseconds, default from config) */
+  ttlMs?: number;
+}
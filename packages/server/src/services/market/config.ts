@@ -0,0 +1,16 @@
+import type { MarketRequestConfig } from "./types";
+
+/**
+ * Item request configuration
+ *
+ * The Discord feed is optional: set feedChannelId to a channel ID to post
+ * an embed for every new request and keep it updated as the request is
+ * claimed, fulfilled, cancelled or expires.
+ */
+export const MARKET_REQUEST_CONFIG: MarketRequestConfig = {
+  defaultTtlMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+  minTtlMs: 60 * 60 * 1000, // 1 hour
+  maxTtlMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+  sweepIntervalMs: 5 * 60 * 1000, // 5 minutes
+  feedChannelId: null,
+};
@@ -0,0 +1,3 @@
+export * from "./config";
+export * from "./market-request.service";
+export * from "./types";
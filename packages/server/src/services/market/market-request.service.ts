@@ -0,0 +1,523 @@
+import { balanceRepo, db, Q } from "@/db";
+import type {
+  MarketRequestSearchOptions,
+  MarketRequestWithPlayers,
+} from "@/db/queries/market/request";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import { Discord } from "@/discord/constants";
+import { EmbedPresets } from "@/discord/embeds";
+import type { MarketRequest } from "@/generated/db";
+import { MARKET_REQUEST_CONFIG } from "./config";
+import {
+  type CreateMarketRequestOptions,
+  type MarketRequestConfig,
+  MarketRequestStatus,
+  type ResolvedMarketRequestStatus,
+} from "./types";
+
+/**
+ * Service for item requests with an escrowed bounty
+ *
+ * Lifecycle of a request:
+ * 1. Requester posts a request - the bounty is moved into escrow
+ * 2. A fulfiller claims it (and may release the claim again)
+ * 3. Requester confirms delivery - the bounty is released to the fulfiller
+ * 4. Requester cancels an open request, an admin cancels it or it expires
+ *    - the bounty is refunded to the requester
+ *
+ * Escrow movements are written to the transaction history as
+ * BOUNTY_ESCROW entries. The player whose balance does not move on
+ * resolution gets a zero-amount entry so both sides see the outcome.
+ *
+ * Status transitions are guarded in the database, so a request can never
+ * be claimed twice or settled twice, even if a confirmation races the
+ * expiry sweep. Posting and settling are each written in one database
+ * transaction with the escrow movement and history entries, so a request
+ * and its bounty can never disagree. When a feed channel is configured,
+ * every request is posted there and its embed is updated on each status
+ * change.
+ */
+export class MarketRequestService {
+  private intervalId?: NodeJS.Timeout;
+
+  constructor(
+    private readonly config: MarketRequestConfig = MARKET_REQUEST_CONFIG,
+  ) {}
+
+  /**
+   * Initialize the service and start the expiry sweep
+   * Called by the service container during startup
+   *
+   * Requests that expired while the bot was offline are refunded
+   * immediately.
+   *
+   * @returns Promise resolving when the service is started
+   */
+  async initialize(): Promise<void> {
+    logger.info("Initializing MarketRequestService...");
+
+    this.expireDue().catch((error) => {
+      logger.error("Initial market request expiry sweep failed:", error);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.expireDue().catch((error) => {
+        logger.error("Scheduled market request expiry sweep failed:", error);
+      });
+    }, this.config.sweepIntervalMs);
+
+    logger.info(
+      `MarketRequestService initialized (feed ${this.config.feedChannelId ? "enabled" : "disabled"})`,
+    );
+  }
+
+  /**
+   * Shutdown the service and clean up timers
+   * Called by the service container during graceful shutdown
+   *
+   * @returns Promise resolving when the service is shut down
+   */
+  async shutdown(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      logger.info("MarketRequestService stopped");
+    }
+  }
+
+  /**
+   * Gets a request with the requester's and fulfiller's usernames
+   *
+   * @param id - Request ID
+   * @returns Promise resolving to the request, or null if not found
+   */
+  async get(id: number): Promise<MarketRequestWithPlayers | null> {
+    return await Q.market.request.findWithPlayers(id);
+  }
+
+  /**
+   * Searches requests with filters and pagination
+   *
+   * @param options - Filters and pagination
+   * @returns Promise resolving to a page of requests and the total count
+   */
+  async search(
+    options: MarketRequestSearchOptions,
+  ): Promise<{ requests: MarketRequestWithPlayers[]; total: number }> {
+    return await Q.market.request.search(options);
+  }
+
+  /**
+   * Posts a request and moves the bounty into escrow
+   *
+   * @param options - Requested item, quantity, bounty and duration
+   * @returns Promise resolving to the created request
+   * @throws Error if the input is invalid or the requester cannot cover
+   * the bounty
+   */
+  async create(
+    options: CreateMarketRequestOptions,
+  ): Promise<MarketRequestWithPlayers> {
+    const { requesterUuid, quantity, bounty } = options;
+    const ttlMs = options.ttlMs ?? this.config.defaultTtlMs;
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error("Quantity must be a positive whole number");
+    }
+
+    if (bounty <= 0) {
+      throw new Error("Bounty must be positive");
+    }
+
+    if (ttlMs < this.config.minTtlMs || ttlMs > this.config.maxTtlMs) {
+      throw new Error(
+        `Duration must be between ${this.config.minTtlMs / 3_600_000} hour(s) and ${this.config.maxTtlMs / 86_400_000} days`,
+      );
+    }
+
+    BalanceUtils.validate(bounty);
+
+    const request = await db.inTransaction(async (tx) => {
+      const request = await tx.market.request.createAndReturn({
+        requesterMinecraftUuid: requesterUuid,
+        itemName: options.itemName,
+        itemId: options.itemId ?? null,
+        description: options.description ?? null,
+        quantity,
+        bounty: BalanceUtils.toStorage(bounty),
+        status: MarketRequestStatus.OPEN,
+        expiresAt: new Date(Date.now() + ttlMs),
+      });
+
+      await balanceRepo.holdInEscrow(
+        requesterUuid,
+        bounty,
+        `Item request #${request.id} posted - bounty held in escrow`,
+        {
+          transactionType: BalanceTransactionType.BOUNTY_ESCROW,
+          metadata: { marketRequestId: request.id, status: request.status },
+          tx,
+        },
+      );
+
+      return request;
+    });
+
+    logger.info(
+      `Market request #${request.id} created by ${requesterUuid}: ${quantity}x ${options.itemName} for $${BalanceUtils.format(request.bounty)}`,
+    );
+
+    return await this.publish(request.id);
+  }
+
+  /**
+   * Claims an open request for delivery
+   *
+   * @param id - Request ID
+   * @param fulfillerUuid - Minecraft UUID of the claiming player
+   * @returns Promise resolving to the claimed request
+   * @throws Error if the request is the player's own, closed or taken
+   */
+  async claim(
+    id: number,
+    fulfillerUuid: string,
+  ): Promise<MarketRequestWithPlayers> {
+    const request = await this.getOrThrow(id);
+
+    if (request.requesterMinecraftUuid === fulfillerUuid) {
+      throw new Error("You cannot claim your own request");
+    }
+
+    const claimed = await Q.market.request.claimOpen(id, fulfillerUuid);
+
+    if (!claimed) {
+      throw new Error(this.unavailableMessage(await this.getOrThrow(id)));
+    }
+
+    logger.info(`Market request #${id} claimed by ${fulfillerUuid}`);
+
+    return await this.publish(id);
+  }
+
+  /**
+   * Releases a claim so the request is open to other players again
+   *
+   * @param id - Request ID
+   * @param fulfillerUuid - Minecraft UUID of the current fulfiller
+   * @returns Promise resolving to the reopened request
+   * @throws Error if the player has not claimed the request
+   */
+  async unclaim(
+    id: number,
+    fulfillerUuid: string,
+  ): Promise<MarketRequestWithPlayers> {
+    const released = await Q.market.request.releaseClaim(id, fulfillerUuid);
+
+    if (!released) {
+      await this.getOrThrow(id);
+      throw new Error(`You have not claimed item request #${id}`);
+    }
+
+    logger.info(`Market request #${id} claim released by ${fulfillerUuid}`);
+
+    return await this.publish(id);
+  }
+
+  /**
+   * Confirms delivery and releases the bounty to the fulfiller
+   *
+   * @param id - Request ID
+   * @param requesterUuid - Minecraft UUID of the requester confirming
+   * @returns Promise resolving to the fulfilled request
+   * @throws Error if the player is not the requester or the request is not
+   * claimed
+   */
+  async confirm(
+    id: number,
+    requesterUuid: string,
+  ): Promise<MarketRequestWithPlayers> {
+    const request = await this.getOrThrow(id);
+
+    if (request.requesterMinecraftUuid !== requesterUuid) {
+      throw new Error("Only the requester can confirm delivery");
+    }
+
+    if (request.status === MarketRequestStatus.OPEN) {
+      throw new Error(`Item request #${id} has not been claimed yet`);
+    }
+
+    return await this.resolve(
+      request,
+      [MarketRequestStatus.CLAIMED],
+      MarketRequestStatus.FULFILLED,
+    );
+  }
+
+  /**
+   * Cancels a request and refunds the bounty to the requester
+   *
+   * Requesters can only cancel requests nobody has claimed. Admins
+   * (no requesterUuid) can also cancel claimed requests.
+   *
+   * @param id - Request ID
+   * @param requesterUuid - Minecraft UUID of the requester, omitted for an
+   * admin cancellation
+   * @returns Promise resolving to the cancelled request
+   * @throws Error if the player is not the requester or the request cannot
+   * be cancelled
+   */
+  async cancel(
+    id: number,
+    requesterUuid?: string,
+  ): Promise<MarketRequestWithPlayers> {
+    const request = await this.getOrThrow(id);
+
+    if (requesterUuid) {
+      if (request.requesterMinecraftUuid !== requesterUuid) {
+        throw new Error("Only the requester can cancel this request");
+      }
+
+      if (request.status === MarketRequestStatus.CLAIMED) {
+        throw new Error(
+          `Item request #${id} is claimed by ${request.fulfillerUsername ?? "another player"} and can only be cancelled by an admin`,
+        );
+      }
+    }
+
+    return await this.resolve(
+      request,
+      requesterUuid
+        ? [MarketRequestStatus.OPEN]
+        : [MarketRequestStatus.OPEN, MarketRequestStatus.CLAIMED],
+      MarketRequestStatus.CANCELLED,
+    );
+  }
+
+  /**
+   * Expires an open or claimed request and refunds the bounty
+   *
+   * @param id - Request ID
+   * @returns Promise resolving to the expired request, or null if the
+   * request was already resolved
+   */
+  async expire(id: number): Promise<MarketRequestWithPlayers | null> {
+    const request = await this.get(id);
+
+    if (
+      !request ||
+      (request.status !== MarketRequestStatus.OPEN &&
+        request.status !== MarketRequestStatus.CLAIMED)
+    ) {
+      return null;
+    }
+
+    try {
+      return await this.resolve(
+        request,
+        [MarketRequestStatus.OPEN, MarketRequestStatus.CLAIMED],
+        MarketRequestStatus.EXPIRED,
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Expires and refunds all active requests past their expiry time
+   *
+   * @returns Promise resolving to the number of expired requests
+   */
+  async expireDue(): Promise<number> {
+    const requests = await Q.market.request.findExpiredActive();
+    let expired = 0;
+
+    for (const request of requests) {
+      try {
+        if (await this.expire(request.id)) {
+          expired++;
+        }
+      } catch (error) {
+        logger.error(`Failed to expire market request #${request.id}:`, error);
+      }
+    }
+
+    if (expired > 0) {
+      logger.info(`Expired ${expired} market request(s)`);
+    }
+
+    return expired;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Fetches a request or throws a user-facing error
+   * @private
+   */
+  private async getOrThrow(id: number): Promise<MarketRequestWithPlayers> {
+    const request = await this.get(id);
+
+    if (!request) {
+      throw new Error(`Item request #${id} does not exist`);
+    }
+
+    return request;
+  }
+
+  /**
+   * Explains why a request can no longer be claimed or resolved
+   * @private
+   */
+  private unavailableMessage(request: MarketRequest): string {
+    if (
+      request.status === MarketRequestStatus.OPEN &&
+      request.expiresAt <= new Date()
+    ) {
+      return `Item request #${request.id} has expired`;
+    }
+
+    return `Item request #${request.id} is already ${request.status}`;
+  }
+
+  /**
+   * Moves an active request into a final status and settles the escrow
+   *
+   * Fulfilled requests are released to the fulfiller, all other outcomes
+   * are refunded to the requester. A fulfiller who loses a claimed request
+   * gets a zero-amount history entry recording the outcome. The status
+   * change is rolled back if the escrow cannot be settled.
+   *
+   * @private
+   */
+  private async resolve(
+    request: MarketRequest,
+    fromStatuses: Array<MarketRequestStatus.OPEN | MarketRequestStatus.CLAIMED>,
+    status: ResolvedMarketRequestStatus,
+  ): Promise<MarketRequestWithPlayers> {
+    const resolved = await db.inTransaction(async (tx) => {
+      const resolved = await tx.market.request.resolveActive(
+        request.id,
+        fromStatuses,
+        status,
+      );
+
+      if (!resolved) {
+        return null;
+      }
+
+      const fulfilled = status === MarketRequestStatus.FULFILLED;
+      const payeeUuid = fulfilled
+        ? resolved.fulfillerMinecraftUuid!
+        : resolved.requesterMinecraftUuid;
+      const otherUuid = fulfilled
+        ? resolved.requesterMinecraftUuid
+        : resolved.fulfillerMinecraftUuid;
+      const metadata = { marketRequestId: resolved.id, status };
+
+      await balanceRepo.releaseFromEscrow(
+        payeeUuid,
+        BalanceUtils.fromStorage(resolved.bounty),
+        fulfilled
+          ? `Item request #${resolved.id} delivered - bounty released from escrow`
+          : `Item request #${resolved.id} ${status} - bounty refunded from escrow`,
+        {
+          transactionType: BalanceTransactionType.BOUNTY_ESCROW,
+          relatedPlayerUuid: otherUuid ?? undefined,
+          metadata,
+          tx,
+        },
+      );
+
+      if (otherUuid) {
+        await balanceRepo.logEvent(
+          otherUuid,
+          `Item request #${resolved.id} ${status}`,
+          BalanceTransactionType.BOUNTY_ESCROW,
+          {
+            relatedPlayerUuid: payeeUuid,
+            metadata: {
+              ...metadata,
+              bounty: BalanceUtils.format(resolved.bounty),
+            },
+            tx,
+          },
+        );
+      }
+
+      return resolved;
+    });
+
+    if (!resolved) {
+      throw new Error(
+        this.unavailableMessage(await this.getOrThrow(request.id)),
+      );
+    }
+
+    logger.info(`Market request #${resolved.id} ${status}`);
+
+    return await this.publish(resolved.id);
+  }
+
+  /**
+   * Posts or updates the request's embed in the feed channel
+   *
+   * The feed is best effort: failures are logged and never fail the
+   * request operation itself.
+   *
+   * @returns The request with usernames, as shown in the feed
+   * @private
+   */
+  private async publish(id: number): Promise<MarketRequestWithPlayers> {
+    const request = await this.getOrThrow(id);
+    const channelId = this.config.feedChannelId;
+
+    if (!channelId) {
+      return request;
+    }
+
+    try {
+      const embed = EmbedPresets.market.request(request);
+
+      if (request.discordMessageId) {
+        const result = await Discord.Messages.edit({
+          channelId,
+          messageId: request.discordMessageId,
+          embeds: embed.build(),
+        });
+
+        if (!result.success) {
+          logger.warn(
+            `Failed to update feed message for market request #${id}: ${result.error}`,
+          );
+        }
+
+        return request;
+      }
+
+      const result = await Discord.Messages.send({
+        channelId,
+        embeds: embed.build(),
+      });
+
+      if (!result.success || !result.messageId) {
+        logger.warn(
+          `Failed to post market request #${id} to the feed: ${result.error}`,
+        );
+        return request;
+      }
+
+      await Q.market.request.update(
+        { id },
+        { discordMessageId: result.messageId },
+      );
+
+      return { ...request, discordMessageId: result.messageId };
+    } catch (error) {
+      logger.error(`Failed to publish market request #${id}:`, error);
+      return request;
+    }
+  }
+}
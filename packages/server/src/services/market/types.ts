@@ -0,0 +1,46 @@
+/**
+ * Market Request Type Definitions
+ *
+ * Defines types for item requests with an escrowed bounty
+ */
+
+export enum MarketRequestStatus {
+  OPEN = "open",
+  CLAIMED = "claimed",
+  FULFILLED = "fulfilled",
+  CANCELLED = "cancelled",
+  EXPIRED = "expired",
+}
+
+/**
+ * Final statuses an open or claimed request can be resolved into
+ */
+export type ResolvedMarketRequestStatus =
+  | MarketRequestStatus.FULFILLED
+  | MarketRequestStatus.CANCELLED
+  | MarketRequestStatus.EXPIRED;
+
+export interface MarketRequestConfig {
+  /** How long a request stays open when no duration is given (milliseconds) */
+  defaultTtlMs: number;
+  /** Shortest duration a requester may choose (milliseconds) */
+  minTtlMs: number;
+  /** Longest duration a requester may choose (milliseconds) */
+  maxTtlMs: number;
+  /** How often expired requests are swept and refunded (milliseconds) */
+  sweepIntervalMs: number;
+  /** Channel that receives request embeds, or null to disable the feed */
+  feedChannelId: string | null;
+}
+
+export interface CreateMarketRequestOptions {
+  requesterUuid: string;
+  itemName: string;
+  itemId?: string;
+  description?: string;
+  quantity: number;
+  /** Bounty paid on delivery (e.g. 200.500) */
+  bounty: number;
+  /** How long the request stays open (default: config.defaultTtlMs) */
+  ttlMs?: number;
+}
@@ -0,0 +1,69 @@
+import type { AfkInterval } from "./types";
+
+/**
+ * Collects a session's AFK intervals up to a point in time
+ *
+ * An interval still open at `end` is closed there. Intervals are clipped to
+ * the session, so clock skew between the mod and the backend can never
+ * make AFK time exceed the session length. Overlapping or duplicate
+ * intervals (e.g. a repeated AFK notification) are merged, so no AFK time
+ * is counted twice.
+ *
+ * @param session - Session start, finished intervals and open interval
+ * @param end - Point in time to collect up to (usually the session end)
+ * @returns Non-empty, non-overlapping intervals within the session, in
+ *   chronological order
+ */
+export function collectAfkIntervals(
+  session: {
+    sessionStart: Date;
+    afkSince?: Date;
+    afkIntervals: AfkInterval[];
+  },
+  end: Date,
+): AfkInterval[] {
+  const intervals = session.afkSince
+    ? [...session.afkIntervals, { start: session.afkSince, end }]
+    : session.afkIntervals;
+
+  const clipped = intervals
+    .map((interval) => ({
+      start: new Date(
+        Math.max(interval.start.getTime(), session.sessionStart.getTime()),
+      ),
+      end: new Date(Math.min(interval.end.getTime(), end.getTime())),
+    }))
+    .filter((interval) => interval.end > interval.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: AfkInterval[] = [];
+
+  for (const interval of clipped) {
+    const last = merged[merged.length - 1];
+
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push(interval);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Sums the length of AFK intervals in whole seconds
+ *
+ * @param intervals - AFK intervals
+ * @returns Total AFK time in seconds
+ */
+export function sumAfkSeconds(intervals: AfkInterval[]): number {
+  return intervals.reduce(
+    (total, interval) =>
+      total +
+      Math.floor((interval.end.getTime() - interval.start.getTime()) / 1000),
+    0,
+  );
+}
@@ -1,4 +1,6 @@
 import config from "@/config";
+import { Discord } from "@/discord/constants";
+import type { GhostSessionConfig } from "./types";
 
 /**
  * Server information for IP-based detection
@@ -82,6 +84,32 @@ export const MINECRAFT_SERVERS: Record<number, ServerConfig> = {
   // },
 };
 
+/**
+ * Heartbeat settings for the Minecraft mod
+ *
+ * The mod sends a heartbeat with the online player list every
+ * `intervalMs`. A server that misses heartbeats for `timeoutMs` is
+ * considered offline and its sessions are closed at the last heartbeat.
+ */
+export const HEARTBEAT_CONFIG = {
+  intervalMs: 15 * 1000,
+  timeoutMs: 60 * 1000,
+  checkIntervalMs: 5 * 1000,
+};
+
+/**
+ * Ghost session detection settings
+ *
+ * Sessions longer than maxSessionSeconds, or still running when the player
+ * joined another server, are posted to the admin channel for review.
+ */
+export const GHOST_SESSION_CONFIG: GhostSessionConfig = {
+  intervalMs: 60 * 60 * 1000, // 1 hour
+  maxSessionSeconds: 12 * 60 * 60, // 12 hours
+  lookbackDays: 7,
+  channelId: Discord.Channels.administration.NOTIFICATIONS,
+};
+
 /**
  * Get server info by IP address
  */
@@ -0,0 +1,103 @@
+import type { DimensionInterval } from "./types";
+
+/**
+ * Display names of the vanilla dimensions
+ */
+const DIMENSION_NAMES: Record<string, string> = {
+  "minecraft:overworld": "Overworld",
+  "minecraft:the_nether": "Nether",
+  "minecraft:the_end": "The End",
+};
+
+/**
+ * Collects a session's dimension intervals up to a point in time
+ *
+ * The interval of the current dimension is closed at `end`. Intervals are
+ * clipped to the session, like AFK intervals.
+ *
+ * @param session - Session start, finished intervals and current dimension
+ * @param end - Point in time to collect up to (usually the session end)
+ * @returns Non-empty intervals within the session, in chronological order
+ */
+export function collectDimensionIntervals(
+  session: {
+    sessionStart: Date;
+    metadata?: { dimension?: string };
+    dimensionSince?: Date;
+    dimensionIntervals: DimensionInterval[];
+  },
+  end: Date,
+): DimensionInterval[] {
+  const current = session.metadata?.dimension;
+  const intervals =
+    current && session.dimensionSince
+      ? [
+          ...session.dimensionIntervals,
+          { dimension: current, start: session.dimensionSince, end },
+        ]
+      : session.dimensionIntervals;
+
+  return intervals
+    .map((interval) => ({
+      dimension: interval.dimension,
+      start: new Date(
+        Math.max(interval.start.getTime(), session.sessionStart.getTime()),
+      ),
+      end: new Date(Math.min(interval.end.getTime(), end.getTime())),
+    }))
+    .filter((interval) => interval.end > interval.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Gets the display name of a dimension
+ *
+ * Vanilla dimensions have fixed names; modded dimensions are named after
+ * their path (e.g. "create:void_realm" → "Void Realm").
+ *
+ * @param dimension - Dimension ID reported by the mod
+ * @returns Human readable name
+ */
+export function getDimensionName(dimension: string): string {
+  const known = DIMENSION_NAMES[dimension];
+  if (known) {
+    return known;
+  }
+
+  const path = dimension.includes(":")
+    ? dimension.slice(dimension.indexOf(":") + 1)
+    : dimension;
+
+  return path
+    .split(/[_/]/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * Adds display names and each dimension's share of the total
+ *
+ * Percentages are rounded to whole numbers, so they may not add up to
+ * exactly 100.
+ *
+ * @param totals - Playtime per dimension
+ * @returns Totals with name and percentage, in the same order
+ */
+export function getDimensionShares<
+  T extends { dimension: string; totalSeconds: number },
+>(totals: T[]): (T & { name: string; percentage: number })[] {
+  const totalSeconds = totals.reduce(
+    (sum, total) => sum + total.totalSeconds,
+    0,
+  );
+
+  return totals.map((total) => ({
+    ...total,
+    name: getDimensionName(total.dimension),
+    percentage:
+      totalSeconds > 0
+        ? Math.round((total.totalSeconds / totalSeconds) * 100)
+        : 0,
+  }));
+}
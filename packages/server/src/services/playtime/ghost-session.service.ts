@@ -0,0 +1,148 @@
+import { Q } from "@/db";
+import type { FlaggedSession } from "@/db/queries/player/session/flag";
+import { Discord } from "@/discord/constants";
+import { EmbedPresets } from "@/discord/embeds";
+import { GHOST_SESSION_CONFIG } from "./config";
+import { getTruncateOptions } from "./ghost";
+import type { GhostSessionConfig } from "./types";
+
+/**
+ * Service for ghost session detection
+ *
+ * Lost leave notifications or backend crashes can leave sessions running
+ * far longer than the player was online. Checks on a schedule for sessions
+ * longer than a threshold and sessions still running when the player joined
+ * another server, and posts each new one to the admin channel with buttons
+ * to truncate, delete or dismiss it.
+ *
+ * Sessions are only flagged once, so resolved or dismissed sessions are
+ * not posted again. Flags whose message failed to post are retried on the
+ * next check.
+ */
+export class GhostSessionService {
+  private intervalId?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(
+    private readonly config: GhostSessionConfig = GHOST_SESSION_CONFIG,
+  ) {}
+
+  /**
+   * Initialize the service and schedule checks
+   * Called by the service container during startup
+   *
+   * @returns Promise resolving when the service is started
+   */
+  async initialize(): Promise<void> {
+    logger.info("Initializing GhostSessionService...");
+
+    this.intervalId = setInterval(() => {
+      this.runScheduled().catch((error) => {
+        logger.error("Scheduled ghost session check failed:", error);
+      });
+    }, this.config.intervalMs);
+
+    logger.info(
+      `GhostSessionService initialized (every ${Math.round(this.config.intervalMs / 1000 / 60)} minutes, threshold: ${Math.round(this.config.maxSessionSeconds / 3600)}h)`,
+    );
+  }
+
+  /**
+   * Shutdown the service and clean up timers
+   * Called by the service container during graceful shutdown
+   *
+   * @returns Promise resolving when the service is shut down
+   */
+  async shutdown(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+
+    logger.info("GhostSessionService stopped");
+  }
+
+  /**
+   * Flags new long and overlapping sessions
+   *
+   * @returns Promise resolving to the newly flagged sessions
+   */
+  async check(): Promise<FlaggedSession[]> {
+    const since = new Date(
+      Date.now() - this.config.lookbackDays * 24 * 60 * 60 * 1000,
+    );
+
+    const flagIds = [
+      ...(await Q.player.session.flag.flagLongSessions(
+        this.config.maxSessionSeconds,
+        since,
+      )),
+      ...(await Q.player.session.flag.flagOverlappingSessions(since)),
+    ];
+
+    if (flagIds.length === 0) {
+      return [];
+    }
+
+    logger.info(`Flagged ${flagIds.length} suspicious session(s)`);
+
+    return Q.player.session.flag.getFlaggedSessions(flagIds);
+  }
+
+  /**
+   * Posts a flagged session with its edit buttons to the admin channel
+   * and stores the ID of its message
+   *
+   * @param flag - Flagged session to post
+   * @returns Promise resolving to whether the flag was posted
+   */
+  async postFlag(flag: FlaggedSession): Promise<boolean> {
+    const options = getTruncateOptions(flag, this.config.maxSessionSeconds);
+
+    const result = await Discord.Messages.send({
+      channelId: this.config.channelId,
+      embeds: EmbedPresets.playtime
+        .flaggedSession(flag, this.config.maxSessionSeconds)
+        .build(),
+      components: EmbedPresets.playtime.flaggedSessionButtons(flag, options),
+    });
+
+    if (!result.success || !result.messageId) {
+      logger.warn(`Failed to post flagged session ${flag.sessionId}`);
+      return false;
+    }
+
+    await Q.player.session.flag.update(
+      { id: flag.flagId },
+      { discordMessageId: result.messageId },
+    );
+
+    return true;
+  }
+
+  /**
+   * Runs a scheduled check and posts every open flag without a message,
+   * new or left over from a failed post
+   * @private
+   */
+  private async runScheduled(): Promise<void> {
+    if (this.isRunning) {
+      logger.debug("Ghost session check already running, skipping");
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      await this.check();
+
+      const flags = await Q.player.session.flag.getUnpostedFlags();
+
+      for (const flag of flags) {
+        await this.postFlag(flag);
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
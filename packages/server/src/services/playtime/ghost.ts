@@ -0,0 +1,104 @@
+import type { FlaggedSession } from "@/db/queries/player/session/flag";
+import type { SessionTruncateOption } from "./types";
+
+/**
+ * Suggests end times for truncating a flagged session
+ *
+ * Candidates are the start of the last AFK interval, the player's next
+ * session on any server and the detection threshold. Times are rounded
+ * down to whole seconds so they fit in a button ID; only times after the
+ * session start and before its current end are kept. Open sessions get no
+ * options, since they can only be edited once they have ended.
+ *
+ * @param session - Flagged session
+ * @param maxSessionSeconds - Session length that gets a session flagged
+ * @returns Distinct options, earliest first
+ */
+export function getTruncateOptions(
+  session: Pick<
+    FlaggedSession,
+    "sessionStart" | "sessionEnd" | "lastAfkStart" | "nextSessionStart"
+  >,
+  maxSessionSeconds: number,
+): SessionTruncateOption[] {
+  if (!session.sessionEnd) {
+    return [];
+  }
+
+  const start = session.sessionStart.getTime();
+  const end = session.sessionEnd.getTime();
+
+  const candidates: [Date | null, string][] = [
+    [session.lastAfkStart, "went AFK"],
+    [session.nextSessionStart, "next join"],
+    [
+      new Date(start + maxSessionSeconds * 1000),
+      `${Math.round(maxSessionSeconds / 3600)}h limit`,
+    ],
+  ];
+
+  const options = new Map<number, SessionTruncateOption>();
+
+  for (const [date, label] of candidates) {
+    if (!date) continue;
+
+    const time = Math.floor(date.getTime() / 1000) * 1000;
+
+    if (time > start && time < end && !options.has(time)) {
+      options.set(time, { sessionEnd: new Date(time), label });
+    }
+  }
+
+  return [...options.values()].sort(
+    (a, b) => a.sessionEnd.getTime() - b.sessionEnd.getTime(),
+  );
+}
+
+/**
+ * Parses an end time entered by an admin (UTC)
+ *
+ * @param value - Time as YYYY-MM-DD HH:MM, seconds optional
+ * @returns The time, or null if it is not a valid date and time
+ *
+ * @example
+ * parseSessionEnd("2025-01-01 18:30") // 2025-01-01T18:30:00Z
+ * parseSessionEnd("2025-02-30 18:30") // null
+ */
+export function parseSessionEnd(value: string): Date | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})(:\d{2})?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const iso = `${match[1]}T${match[2]}${match[3] ?? ":00"}`;
+  const date = new Date(`${iso}Z`);
+
+  // Rejects out-of-range parts such as February 30th, which Date rolls over
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(iso)
+    ? date
+    : null;
+}
+
+/**
+ * Checks whether a flagged session can be ended at a point in time
+ *
+ * Only ended sessions can be truncated, and the new end must be after the
+ * session start and before its current end.
+ *
+ * @param session - Flagged session
+ * @param sessionEnd - New end of the session
+ * @returns Whether the session can be ended at that time
+ */
+export function isValidSessionEnd(
+  session: Pick<FlaggedSession, "sessionStart" | "sessionEnd">,
+  sessionEnd: Date,
+): boolean {
+  return (
+    session.sessionEnd !== null &&
+    sessionEnd > session.sessionStart &&
+    sessionEnd < session.sessionEnd
+  );
+}
@@ -1,3 +1,7 @@
 export * from "./types";
 export * from "./playtime-manager.service";
 export * from "./playtime.service";
+export * from "./afk";
+export * from "./dimension";
+export * from "./rebuild";
+export * from "./ghost";
@@ -1,7 +1,6 @@
 import { playtimeRepo } from "@/db";
 import { MINECRAFT_SERVERS } from "./config";
 import { PlaytimeService } from "./playtime.service";
-import type { MessageCacheService } from "../discord/message/cache";
 import { ServerState } from "./types";
 
 /**
@@ -14,7 +13,6 @@ import { ServerState } from "./types";
  */
 export class PlaytimeManagerService {
   private playtimeServices: Map<number, PlaytimeService> = new Map();
-  private messageCacheService?: MessageCacheService;
 
   /**
    * Initialize playtime services for all configured servers
@@ -52,14 +50,27 @@ export class PlaytimeManagerService {
           serverIp: serverConfig.ip,
           serverPort: serverConfig.port,
           serverId,
-          pollIntervalMs: 10000,
-          statusTimeoutMs: 5000,
+          maxPlayers: serverConfig.maxPlayers,
           initialDelayMs: 0,
-          maxSyncRetries: 3,
         });
 
         playtimeRepo.connectToService(service, serverId);
 
+        try {
+          const restored = await playtimeRepo.restoreOpenSessions(
+            service,
+            serverId,
+          );
+          logger.info(
+            `Restored ${restored} open session(s) for server ${serverId}`,
+          );
+        } catch (error) {
+          logger.warn(
+            `Continuing without open sessions for server ${serverId}:`,
+            error,
+          );
+        }
+
         await service.initialize();
 
         this.playtimeServices.set(serverId, service);
@@ -155,58 +166,4 @@ export class PlaytimeManagerService {
     }
     return status;
   }
-
-  /**
-   * Setup integration with message cache service for server shutdown detection
-   */
-  setupMessageCacheIntegration(messageCacheService: MessageCacheService): void {
-    this.messageCacheService = messageCacheService;
-
-    logger.info(
-      "Setting up message cache integration for playtime services...",
-    );
-
-    for (const [serverId, service] of this.playtimeServices) {
-      service
-        .detectServerState(messageCacheService)
-        .then(() => {
-          logger.info(
-            `Server ${serverId} state detected: ${service.getServerState()}`,
-          );
-
-          // If server is online, perform recovery sync
-          if (service.getServerState() === ServerState.ONLINE) {
-            service.performRecoverySync().catch((error) => {
-              logger.error(
-                `Recovery sync failed for server ${serverId}:`,
-                error,
-              );
-            });
-          }
-        })
-        .catch((error) => {
-          logger.error(`Failed to detect state for server ${serverId}:`, error);
-        });
-    }
-
-    messageCacheService.on("serverClosed", (serverId: number) => {
-      const service = this.playtimeServices.get(serverId);
-      if (service) {
-        logger.info(
-          `Server ${serverId} shutdown detected - ending all sessions`,
-        );
-        service.handleServerShutdown();
-      }
-    });
-
-    messageCacheService.on("serverStarted", (serverId: number) => {
-      const service = this.playtimeServices.get(serverId);
-      if (service) {
-        logger.info(`Server ${serverId} startup detected`);
-        service.handleServerStartup();
-      }
-    });
-
-    logger.info("Message cache integration configured");
-  }
 }
@@ -1,30 +1,35 @@
 import EventEmitter from "node:events";
 import type {
   ActiveSession,
+  ModHeartbeatData,
+  ModPlayerAfkData,
+  ModPlayerDimensionData,
   ModPlayerJoinData,
   ModPlayerLeaveData,
+  ModPresenceSyncData,
+  OnlinePlayerSnapshot,
+  PersistedSession,
   PlaytimeServiceConfig,
+  PresenceSyncReport,
+  ServerShutdownEvent,
   ServerStatusSnapshot,
   SessionEndEvent,
   SessionStartEvent,
   MinecraftPlayer,
 } from "./types";
 import { ServerState } from "./types";
-import { status } from "minecraft-server-util";
-import {
-  type MessageCacheService,
-  MessageSource,
-} from "../discord/message/cache";
+import { collectAfkIntervals, sumAfkSeconds } from "./afk";
+import { collectDimensionIntervals } from "./dimension";
+import { HEARTBEAT_CONFIG } from "./config";
 
 export interface PlaytimeServiceEvents {
   sessionStart: (event: SessionStartEvent) => void;
   sessionEnd: (event: SessionEndEvent) => void;
   statusUpdate: (snapshot: ServerStatusSnapshot) => void;
   error: (error: Error) => void;
-  serverShutdown: (serverId: number) => void;
   serverOffline: () => void;
   serverOnline: () => void;
-  syncComplete: () => void;
+  serverShutdown: (event: ServerShutdownEvent) => void;
 }
 
 export declare interface PlaytimeService {
@@ -43,12 +48,16 @@ export declare interface PlaytimeService {
  *
  * NEW ARCHITECTURE (HTTP-based):
  * - Primary method: Receives HTTP notifications from Minecraft mod on join/leave
- * - Fallback polling: Only used for backend restart recovery
- * - Message cache integration: Detects server shutdown from Discord relay
+ * - Heartbeats: Mod periodically sends the full online player list
  *
  * Recovery Mechanisms:
- * 1. Server Crash: Message cache detects "server closed" → ends all sessions
- * 2. Backend Restart: Polls server on startup to sync active sessions
+ * 1. Server Crash: Heartbeats stop → server marked offline, sessions end at
+ *    the last heartbeat
+ * 2. Backend Restart / lost notifications: Sessions left open in the
+ *    database are restored at startup, and the next heartbeat reconciles
+ *    them with the online player list
+ * 3. Server down while the backend starts: No heartbeat within the timeout
+ *    → server marked offline, sessions left open in the database are closed
  *
  * Event Flow:
  * 1. Mod sends HTTP request → handlePlayerJoinFromMod/handlePlayerLeaveFromMod
@@ -56,6 +65,15 @@ export declare interface PlaytimeService {
  * 3. Emits sessionStart/sessionEnd events
  * 4. Repository layer persists to database
  *
+ * AFK Tracking:
+ * - Mod sends afk/active notifications → handlePlayerAfkFromMod/handlePlayerActiveFromMod
+ * - AFK intervals are kept in memory with the session
+ * - sessionEnd reports active time only, with the AFK intervals attached
+ *
+ * Dimension Tracking:
+ * - Mod sends dimension changes → handlePlayerDimensionFromMod
+ * - Dimension intervals are kept in memory and attached to sessionEnd
+ *
  * Unlike old polling system:
  * - No continuous polling interval
  * - Instant player join/leave detection
@@ -67,30 +85,31 @@ export class PlaytimeService extends EventEmitter {
   private activeSessions: Map<string, ActiveSession> = new Map();
   private isInitialized = false;
   private serverState: ServerState = ServerState.UNKNOWN;
+  private lastHeartbeatAt?: Date;
+  /** Backend time of the last heartbeat, used for the timeout */
+  private lastHeartbeatReceivedAt?: number;
+  private initializedAt?: number;
+  private tps: number | null = null;
+  private heartbeatIntervalId?: NodeJS.Timeout;
 
   constructor(config: PlaytimeServiceConfig) {
     super();
     this.config = {
-      pollIntervalMs: 30000,
-      statusTimeoutMs: 5000,
+      maxPlayers: 20,
       initialDelayMs: 5000,
-      maxSyncRetries: 3,
+      heartbeatTimeoutMs: HEARTBEAT_CONFIG.timeoutMs,
+      heartbeatCheckIntervalMs: HEARTBEAT_CONFIG.checkIntervalMs,
       ...config,
     };
   }
 
   /**
-   * Initializes the service and performs recovery sync
-   *
-   * On startup, checks if any players are online and syncs state.
-   * This handles the case where backend restarted but server is still running.
+   * Initializes the service and starts watching for missed heartbeats
    *
-   * Recovery Process:
-   * 1. Try to fetch server status (up to 3 retries)
-   * 2. If server is online, compare with in-memory sessions
-   * 3. End sessions for players no longer online
-   * 4. Start sessions for players that are online but not tracked
-   * 5. Emit syncComplete event
+   * The server state stays UNKNOWN until the first heartbeat arrives.
+   * That heartbeat also restores sessions of players who were online while
+   * the backend restarted. Without a heartbeat within the timeout the
+   * server is marked offline (see checkHeartbeat).
    *
    * @throws Does not throw - logs errors and continues
    */
@@ -106,194 +125,40 @@ export class PlaytimeService extends EventEmitter {
       setTimeout(resolve, this.config.initialDelayMs),
     );
 
+    this.initializedAt = Date.now();
+    this.heartbeatIntervalId = setInterval(
+      () => this.checkHeartbeat(),
+      this.config.heartbeatCheckIntervalMs,
+    );
+
     this.isInitialized = true;
     logger.info("PlaytimeService initialized");
   }
 
   /**
-   * Detect server state - called externally after message cache is ready
-   */
-  public async detectServerState(
-    messageCacheService: MessageCacheService,
-  ): Promise<void> {
-    try {
-      logger.info(
-        `Detecting initial server state for server ${this.config.serverId}...`,
-      );
-
-      const recentMessages = messageCacheService.getMessages(
-        this.config.serverId,
-        { limit: 100 },
-      );
-
-      const latestSystemMessage = recentMessages.find(
-        (msg) =>
-          msg.source === MessageSource.SYSTEM && msg.systemData?.description,
-      );
-
-      if (latestSystemMessage) {
-        const description =
-          latestSystemMessage.systemData!.description!.toLowerCase();
-
-        if (description.includes("server closed")) {
-          this.serverState = ServerState.OFFLINE;
-          logger.info(
-            `Server ${this.config.serverId} detected as OFFLINE (latest system message: "server closed")`,
-          );
-          this.emit("serverOffline");
-          return;
-        }
-      }
-
-      this.serverState = ServerState.ONLINE;
-      logger.info(
-        `Server ${this.config.serverId} detected as ONLINE (no recent "server closed" message)`,
-      );
-      this.emit("serverOnline");
-    } catch (error) {
-      logger.error(
-        `Failed to detect initial server state for server ${this.config.serverId}:`,
-        error,
-      );
-      this.serverState = ServerState.ONLINE; // Safer to assume online
-    }
-  }
-
-  /**
-   * Detect server state by examining recent Discord relay messages
+   * Restores sessions left open in the database by a previous run
    *
-   * Looks for system embeds with "Server started" or "Server closed" in description
-   * The most recent status message determines the current state
+   * Restored sessions emit no sessionStart since they are already stored.
+   * The first heartbeat or presence sync keeps those of players still
+   * online and ends the others.
    *
-   * @deprecated
+   * @param sessions - Open sessions of this server
    */
-  private async detectInitialServerState(
-    messageCacheService: MessageCacheService,
-  ): Promise<void> {
-    try {
-      logger.info(
-        `Detecting initial server state for server ${this.config.serverId}...`,
-      );
-
-      const recentMessage = messageCacheService.getMessages(
-        this.config.serverId,
-        { limit: 100 },
-      );
-
-      const latestSystemMessage = recentMessage.find(
-        (msg) =>
-          msg.source === MessageSource.SYSTEM && msg.systemData?.description,
-      );
-
-      if (latestSystemMessage) {
-        const description =
-          latestSystemMessage.systemData!.description!.toLowerCase();
-
-        if (description.includes("server closed")) {
-          this.serverState = ServerState.OFFLINE;
-          logger.info(
-            `Server ${this.config.serverId} detected as OFFLINE (latest system message: "server closed")`,
-          );
-          this.emit("serverOffline");
-          return;
-        }
+  public restoreSessions(sessions: PersistedSession[]): void {
+    for (const session of sessions) {
+      if (this.activeSessions.has(session.uuid)) {
+        continue;
       }
 
-      this.serverState = ServerState.ONLINE;
-      logger.info(
-        `Server ${this.config.serverId} detected as ONLINE (no recent "server closed" events)`,
-      );
-      this.emit("serverOnline");
-    } catch (error) {
-      logger.error(
-        `Failed to detect initial server state for server ${this.config.serverId}`,
-        error,
-      );
-
-      this.serverState = ServerState.OFFLINE;
-    }
-  }
-
-  /**
-   * Performs recovery sync on backend restart
-   *
-   * Polls the Minecraft server to check which players are currently online
-   * and reconciles with in-memory session state.
-   *
-   * Retry Logic:
-   * - Attempts up to maxSyncRetries times (default: 3)
-   * - 2 second delay between retries
-   * - If all retries fail, assumes server is offline
-   */
-  async performRecoverySync(): Promise<void> {
-    logger.info("Starting recovery sync...");
-
-    let retries = 0;
-    let synced = false;
-
-    while (retries < this.config.maxSyncRetries && !synced) {
-      try {
-        const serverStatus = await this.fetchServerStatus();
-        synced = true;
-
-        const onlinePlayers = serverStatus.onlinePlayers;
-        const onlineUuids = new Set(onlinePlayers.map((p) => p.uuid));
-
-        logger.info(
-          `Recovery sync found ${onlinePlayers.length} online player(s)`,
-        );
-
-        const playersToRemove: string[] = [];
-        for (const [uuid, session] of this.activeSessions) {
-          if (!onlineUuids.has(uuid)) {
-            logger.info(
-              `Recovery sync: Ending stale session for ${session.username} (${uuid})`,
-            );
-            playersToRemove.push(uuid);
-            this.handlePlayerLeave(session);
-          }
-        }
-        playersToRemove.forEach((uuid) => this.activeSessions.delete(uuid));
-
-        for (const player of onlinePlayers) {
-          if (!this.activeSessions.has(player.uuid)) {
-            logger.info(
-              `Recovery sync: Starting session for ${player.username} (${player.uuid})`,
-            );
-            this.handlePlayerJoin(player);
-          } else {
-            logger.debug(
-              `Recovery sync: Player ${player.username} (${player.uuid} already has active session)`,
-            );
-          }
-        }
-
-        this.emit("statusUpdate", serverStatus);
-        this.emit("syncComplete");
-
-        logger.info("Recovery sync completed successfully");
-      } catch (error) {
-        retries++;
-        const err = error instanceof Error ? error : new Error(String(error));
-
-        if (retries < this.config.maxSyncRetries) {
-          logger.warn(
-            `Recovery sync failed (attempt ${retries}/${this.config.maxSyncRetries}): ${err.message}. Retrying in 2s...`,
-          );
-          await new Promise((resolve) => setTimeout(resolve, 2000));
-        } else {
-          logger.warn(
-            `Recovery sync failed after ${this.config.maxSyncRetries} attempts. Assuming server is offline`,
-          );
-          this.emit("error", err);
-        }
-      }
-    }
-
-    if (!synced) {
-      logger.info(
-        "Recovery sync skipped - server appears to be offline. Will track sessions when player join.",
-      );
+      this.activeSessions.set(session.uuid, {
+        uuid: session.uuid,
+        username: session.username,
+        serverId: this.config.serverId,
+        sessionStart: session.sessionStart,
+        sessionId: session.sessionId,
+        afkIntervals: [],
+        dimensionIntervals: [],
+      });
     }
   }
 
@@ -313,11 +178,13 @@ export class PlaytimeService extends EventEmitter {
       return;
     }
 
+    const sessionStart = data.timestamp || new Date();
+
     const session: ActiveSession = {
       uuid: data.uuid,
       username: data.username,
       serverId: this.config.serverId,
-      sessionStart: data.timestamp || new Date(),
+      sessionStart,
       metadata: {
         displayName: data.displayName,
         gamemode: data.gamemode,
@@ -327,6 +194,9 @@ export class PlaytimeService extends EventEmitter {
         experienceLevel: data.experienceLevel,
         ipAddress: data.ipAddress,
       },
+      afkIntervals: [],
+      dimensionSince: data.dimension ? sessionStart : undefined,
+      dimensionIntervals: [],
     };
 
     this.activeSessions.set(data.uuid, session);
@@ -366,9 +236,6 @@ export class PlaytimeService extends EventEmitter {
     }
 
     const sessionEnd = data.timestamp || new Date();
-    const secondsPlayed = Math.floor(
-      (sessionEnd.getTime() - session.sessionStart.getTime()) / 1000,
-    );
 
     if (!session.sessionId) {
       logger.warn(
@@ -380,124 +247,364 @@ export class PlaytimeService extends EventEmitter {
       return;
     }
 
-    const event: SessionEndEvent = {
-      sessionId: session.sessionId,
-      uuid: session.uuid,
-      username: session.username,
-      serverId: session.serverId,
-      sessionStart: session.sessionStart,
+    const event = this.createSessionEndEvent(
+      session,
+      session.sessionId,
       sessionEnd,
-      secondsPlayed,
-    };
+    );
 
     this.emit("sessionEnd", event);
     this.activeSessions.delete(data.uuid);
 
     logger.info(
-      `Session ended for ${session.username} (${session.uuid}) via mod notification - ${secondsPlayed}s played`,
+      `Session ended for ${session.username} (${session.uuid}) via mod notification - ${event.secondsPlayed}s played, ${event.afkSeconds}s AFK`,
     );
   }
 
   /**
-   * Handles server shutdown detected by message cache
+   * Handles player AFK notification from Minecraft mod
    *
-   * Called when Discord relay bot detects "server closed" message.
-   * Ends all active sessions gracefully FOR THIS SERVER ONLY.
+   * Starts an AFK interval for the player's session. Time spent AFK is
+   * excluded from the session's playtime.
    *
-   * This is the fallback mechanism for cases where:
-   * - Server crashes without sending leave notifications
-   * - Mod fails to send leave events
-   * - Network issues prevent HTTP requests
+   * @param data - Player AFK data from mod
    */
-  public handleServerShutdown(): void {
-    if (this.activeSessions.size === 0) {
-      logger.info("Server shutdown detected but no active sessions to end");
-    } else {
+  public async handlePlayerAfkFromMod(data: ModPlayerAfkData): Promise<void> {
+    const session = this.activeSessions.get(data.uuid);
+
+    if (!session) {
       logger.warn(
-        `Server ${this.config.serverId} shutdown detected - ending ${this.activeSessions} active session(s)`,
+        `Received AFK notification for ${data.username} (${data.uuid}) but no active session found. Ignoring`,
       );
-      this.endAllSessions();
+      return;
     }
 
-    this.serverState = ServerState.OFFLINE;
-    this.emit("serverShutdown", this.config.serverId);
-    this.emit("serverOffline");
+    if (session.afkSince) {
+      logger.debug(
+        `Player ${data.username} (${data.uuid}) is already AFK. Ignoring duplicate AFK notification.`,
+      );
+      return;
+    }
+
+    session.afkSince = data.timestamp || new Date();
+
+    logger.info(`Player ${data.username} (${data.uuid}) went AFK`);
   }
 
   /**
-   * Handles server startup detected by message cache
+   * Handles player active notification from Minecraft mod
+   *
+   * Ends the player's current AFK interval, if any.
    *
-   * Called when Discord relay bot detects "server started" message.
-   * Currently just logs and emits event - no action needed since
-   * mod will send join notifications as players connect.
+   * @param data - Player active data from mod
    */
-  public handleServerStartup(): void {
+  public async handlePlayerActiveFromMod(
+    data: ModPlayerAfkData,
+  ): Promise<void> {
+    const session = this.activeSessions.get(data.uuid);
+
+    if (!session) {
+      logger.warn(
+        `Received active notification for ${data.username} (${data.uuid}) but no active session found. Ignoring`,
+      );
+      return;
+    }
+
+    if (!session.afkSince) {
+      logger.debug(
+        `Player ${data.username} (${data.uuid}) is not AFK. Ignoring active notification.`,
+      );
+      return;
+    }
+
+    const interval = {
+      start: session.afkSince,
+      end: data.timestamp || new Date(),
+    };
+    session.afkIntervals.push(interval);
+    session.afkSince = undefined;
+
     logger.info(
-      `Server ${this.config.serverId} startup detected by message cache`,
+      `Player ${data.username} (${data.uuid}) is no longer AFK after ${sumAfkSeconds([interval])}s`,
     );
-
-    this.serverState = ServerState.ONLINE;
-    this.emit("serverOnline");
   }
 
   /**
-   * Fetches current server status via minecraft-server-util library
+   * Handles player dimension change notification from Minecraft mod
    *
-   * Used only for recovery sync on backend restart.
-   * Not used during normal operation.
+   * Ends the interval of the previous dimension and starts one for the new
+   * dimension. Time per dimension is stored when the session ends.
    *
-   * @returns ServerStatusSnapshot with current server state
-   * @throws Error if server is unreachable or times out
-   *
-   * @private
+   * @param data - Player dimension data from mod
    */
-  private async fetchServerStatus(): Promise<ServerStatusSnapshot> {
-    const response = await status(
-      this.config.serverIp,
-      this.config.serverPort,
-      {
-        timeout: this.config.statusTimeoutMs,
-      },
-    );
+  public async handlePlayerDimensionFromMod(
+    data: ModPlayerDimensionData,
+  ): Promise<void> {
+    const session = this.activeSessions.get(data.uuid);
+
+    if (!session) {
+      logger.warn(
+        `Received dimension change for ${data.username} (${data.uuid}) but no active session found. Ignoring`,
+      );
+      return;
+    }
 
-    const onlinePlayers: MinecraftPlayer[] = (
-      response.players.sample || []
-    ).map((player) => ({
-      uuid: player.id,
-      username: player.name,
-    }));
+    const previous = session.metadata?.dimension;
 
-    return {
-      onlinePlayers,
-      playerCount: response.players.online,
-      maxPlayers: response.players.max,
-      timestamp: new Date(),
-    };
+    if (previous === data.dimension) {
+      logger.debug(
+        `Player ${data.username} (${data.uuid}) is already in ${data.dimension}. Ignoring dimension change.`,
+      );
+      return;
+    }
+
+    const timestamp = data.timestamp || new Date();
+
+    if (previous && session.dimensionSince) {
+      session.dimensionIntervals.push({
+        dimension: previous,
+        start: session.dimensionSince,
+        end: timestamp,
+      });
+    }
+
+    session.metadata = { ...session.metadata, dimension: data.dimension };
+    session.dimensionSince = timestamp;
+
+    logger.debug(
+      `Player ${data.username} (${data.uuid}) moved from ${previous ?? "unknown"} to ${data.dimension}`,
+    );
   }
 
   /**
-   * Handles a player joining the server (internal)
+   * Handles a heartbeat from the Minecraft mod
    *
-   * Used by recovery sync and manual operations.
-   * For mod notifications, use handlePlayerJoinFromMod instead.
+   * The heartbeat carries the full online player list, so sessions are
+   * reconciled against it on every beat (see reconcileSessions).
    *
-   * @param player - Player who joined (UUID + username)
+   * Also marks the server online. Once heartbeats stop for longer than the
+   * heartbeat timeout the server is marked offline (see checkHeartbeat).
+   * The timeout runs on the backend clock, so a mod clock that is off does
+   * not make the server look offline.
+   *
+   * @param data - Heartbeat data from mod
+   */
+  public handleHeartbeat(data: ModHeartbeatData): void {
+    const timestamp = data.timestamp || new Date();
+
+    this.lastHeartbeatReceivedAt = Date.now();
+
+    this.reconcileSessions(data.players, timestamp);
+    this.tps = data.tps ?? null;
+
+    this.emit("statusUpdate", {
+      onlinePlayers: data.players.map(({ uuid, username }) => ({
+        uuid,
+        username,
+      })),
+      playerCount: data.players.length,
+      maxPlayers: this.config.maxPlayers,
+      tps: data.tps,
+      timestamp,
+    });
+  }
+
+  /**
+   * Handles a presence snapshot from the Minecraft mod
+   *
+   * Sent by the mod right after server start and after the backend
+   * reconnects. Unlike a heartbeat, the snapshot includes when each player
+   * joined, so missing sessions start at the real join time.
+   *
+   * @param data - Presence snapshot from mod
+   * @returns Sessions started and ended to match the snapshot
+   */
+  public handlePresenceSync(data: ModPresenceSyncData): PresenceSyncReport {
+    const timestamp = data.timestamp || new Date();
+    const report = this.reconcileSessions(data.players, timestamp);
+
+    logger.info(
+      `Presence sync for server ${this.config.serverId}: ${report.started.length} started, ${report.ended.length} ended, ${report.unchanged} unchanged`,
+    );
+
+    return report;
+  }
+
+  /**
+   * Reconciles active sessions with the authoritative online player list
+   *
+   * - Players online but not tracked get a session starting at their join
+   *   time if known, otherwise at the snapshot time (e.g. after a backend
+   *   restart or a lost join notification)
+   * - Tracked players missing from the list are ended at the time they
+   *   were last seen (the previous heartbeat)
+   * - Tracked players who joined well after their session started must
+   *   have left in between (e.g. while the backend was down), so the
+   *   session is ended and a new one started at the join time
+   * - AFK flags, when sent, open or close AFK intervals
+   *
+   * Also marks the server online and records the snapshot as the last
+   * heartbeat.
+   *
+   * @param players - Players currently online
+   * @param timestamp - When the list was taken
+   * @returns Sessions started and ended
    * @private
    */
-  private handlePlayerJoin(player: MinecraftPlayer): void {
+  private reconcileSessions(
+    players: OnlinePlayerSnapshot[],
+    timestamp: Date,
+  ): PresenceSyncReport {
+    const lastSeen = this.lastHeartbeatAt ?? timestamp;
+    const report: PresenceSyncReport = { started: [], ended: [], unchanged: 0 };
+
+    this.lastHeartbeatAt = timestamp;
+
     if (this.serverState !== ServerState.ONLINE) {
       logger.info(
-        `Server ${this.config.serverId} marked as ONLINE (player join received)`,
+        `Server ${this.config.serverId} marked as ONLINE (player list received)`,
       );
       this.serverState = ServerState.ONLINE;
       this.emit("serverOnline");
     }
 
+    const onlineUuids = new Set(players.map((player) => player.uuid));
+
+    for (const [uuid, session] of this.activeSessions) {
+      // Sessions started after the snapshot was taken are not in it yet
+      if (onlineUuids.has(uuid) || session.sessionStart >= timestamp) {
+        continue;
+      }
+
+      logger.info(
+        `Reconcile: Ending session for ${session.username} (${uuid}) - no longer online`,
+      );
+      this.handlePlayerLeave(
+        session,
+        new Date(Math.max(lastSeen.getTime(), session.sessionStart.getTime())),
+      );
+      this.activeSessions.delete(uuid);
+      report.ended.push({ uuid, username: session.username });
+    }
+
+    for (const player of players) {
+      let session = this.activeSessions.get(player.uuid);
+
+      if (
+        session &&
+        player.joinedAt &&
+        player.joinedAt.getTime() - session.sessionStart.getTime() >
+          this.config.heartbeatTimeoutMs
+      ) {
+        logger.info(
+          `Reconcile: Ending session for ${session.username} (${player.uuid}) - rejoined since`,
+        );
+        this.handlePlayerLeave(
+          session,
+          new Date(
+            Math.max(
+              Math.min(lastSeen.getTime(), player.joinedAt.getTime()),
+              session.sessionStart.getTime(),
+            ),
+          ),
+        );
+        this.activeSessions.delete(player.uuid);
+        report.ended.push({ uuid: player.uuid, username: session.username });
+        session = undefined;
+      }
+
+      if (session) {
+        report.unchanged++;
+      } else {
+        logger.info(
+          `Reconcile: Starting session for ${player.username} (${player.uuid})`,
+        );
+        session = this.handlePlayerJoin(
+          { uuid: player.uuid, username: player.username },
+          player.joinedAt && player.joinedAt < timestamp
+            ? player.joinedAt
+            : timestamp,
+        );
+        report.started.push({ uuid: player.uuid, username: player.username });
+      }
+
+      if (player.afk === true && !session.afkSince) {
+        session.afkSince = timestamp;
+      } else if (player.afk === false && session.afkSince) {
+        session.afkIntervals.push({ start: session.afkSince, end: timestamp });
+        session.afkSince = undefined;
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Marks the server offline once heartbeats have stopped
+   *
+   * - ONLINE: sessions are closed at the last heartbeat rather than now,
+   *   since that is the last time the players were known to be online
+   * - UNKNOWN (no heartbeat since startup): the server was down while the
+   *   backend started, so sessions left open by the previous run are closed
+   *
+   * @private
+   */
+  private checkHeartbeat(): void {
+    if (this.serverState === ServerState.OFFLINE) {
+      return;
+    }
+
+    const lastAliveAt =
+      this.serverState === ServerState.ONLINE
+        ? this.lastHeartbeatReceivedAt
+        : this.initializedAt;
+
+    if (
+      lastAliveAt === undefined ||
+      Date.now() - lastAliveAt < this.config.heartbeatTimeoutMs
+    ) {
+      return;
+    }
+
+    if (this.serverState === ServerState.ONLINE && this.lastHeartbeatAt) {
+      logger.warn(
+        `Server ${this.config.serverId} missed heartbeats since ${this.lastHeartbeatAt.toISOString()} - marking OFFLINE and ending ${this.activeSessions.size} active session(s)`,
+      );
+      this.endAllSessions(this.lastHeartbeatAt);
+    } else {
+      logger.warn(
+        `Server ${this.config.serverId} sent no heartbeat since startup - marking OFFLINE`,
+      );
+      this.endAllSessions();
+    }
+
+    this.serverState = ServerState.OFFLINE;
+    this.tps = null;
+    this.emit("serverOffline");
+  }
+
+  /**
+   * Handles a player joining the server (internal)
+   *
+   * Used by session reconciliation.
+   * For mod notifications, use handlePlayerJoinFromMod instead.
+   *
+   * @param player - Player who joined (UUID + username)
+   * @param sessionStart - When the player was first seen online
+   * @returns The started session
+   * @private
+   */
+  private handlePlayerJoin(
+    player: MinecraftPlayer,
+    sessionStart: Date,
+  ): ActiveSession {
     const session: ActiveSession = {
       uuid: player.uuid,
       username: player.username,
       serverId: this.config.serverId,
-      sessionStart: new Date(),
+      sessionStart,
+      afkIntervals: [],
+      dimensionIntervals: [],
     };
 
     this.activeSessions.set(player.uuid, session);
@@ -512,23 +619,24 @@ export class PlaytimeService extends EventEmitter {
     this.emit("sessionStart", event);
 
     logger.debug(`Session started for ${player.username} (${player.uuid})`);
+
+    return session;
   }
 
   /**
    * Handles a player leaving the server (internal)
    *
-   * Used by recovery sync and shutdown operations.
+   * Used by session reconciliation and shutdown operations.
    * For mod notifications, use handlePlayerLeaveFromMod instead.
    *
    * @param session - Active session for player who left
+   * @param sessionEnd - When the player left (default: now)
    * @private
    */
-  private handlePlayerLeave(session: ActiveSession): void {
-    const now = new Date();
-    const secondsPlayed = Math.floor(
-      (now.getTime() - session.sessionStart.getTime()) / 1000,
-    );
-
+  private handlePlayerLeave(
+    session: ActiveSession,
+    sessionEnd: Date = new Date(),
+  ): void {
     if (!session.sessionId) {
       logger.warn(
         `Cannot emit sessionEnd for ${session.username} - no sessionId set`,
@@ -536,45 +644,94 @@ export class PlaytimeService extends EventEmitter {
       return;
     }
 
-    const event: SessionEndEvent = {
-      sessionId: session.sessionId,
-      uuid: session.uuid,
-      username: session.username,
-      serverId: session.serverId,
-      sessionStart: session.sessionStart,
-      sessionEnd: now,
-      secondsPlayed,
-    };
+    const event = this.createSessionEndEvent(
+      session,
+      session.sessionId,
+      sessionEnd,
+    );
 
     this.emit("sessionEnd", event);
 
     logger.debug(
-      `Session ended for ${session.username} (${session.uuid}) - ${secondsPlayed}s played`,
+      `Session ended for ${session.username} (${session.uuid}) - ${event.secondsPlayed}s played, ${event.afkSeconds}s AFK`,
     );
   }
 
+  /**
+   * Builds the sessionEnd event for a session, closing any open AFK
+   * interval at the session end
+   *
+   * @param session - Session that ended
+   * @param sessionId - Database ID of the session
+   * @param sessionEnd - When the session ended
+   * @returns Event with active playtime, AFK and dimension intervals
+   *
+   * @private
+   */
+  private createSessionEndEvent(
+    session: ActiveSession,
+    sessionId: number,
+    sessionEnd: Date,
+  ): SessionEndEvent {
+    const totalSeconds = Math.floor(
+      (sessionEnd.getTime() - session.sessionStart.getTime()) / 1000,
+    );
+    const afkIntervals = collectAfkIntervals(session, sessionEnd);
+    const afkSeconds = Math.min(sumAfkSeconds(afkIntervals), totalSeconds);
+
+    return {
+      sessionId,
+      uuid: session.uuid,
+      username: session.username,
+      serverId: session.serverId,
+      sessionStart: session.sessionStart,
+      sessionEnd,
+      secondsPlayed: totalSeconds - afkSeconds,
+      afkSeconds,
+      afkIntervals,
+      dimensionIntervals: collectDimensionIntervals(session, sessionEnd),
+    };
+  }
+
   /**
    * Gracefully ends all active sessions
    *
    * Called during:
    * - Service shutdown
-   * - Server crash detected by message cache
-   * - Recovery sync cleanup
+   * - Missed heartbeats (server crash or shutdown)
+   *
+   * Emits serverShutdown afterwards so the repository can close database
+   * sessions this service does not track (e.g. left open by a crash).
    *
+   * @param sessionEnd - When the sessions ended (default: now)
    * @private
    */
-  private endAllSessions(): void {
-    if (this.activeSessions.size === 0) {
-      return;
-    }
+  private endAllSessions(sessionEnd: Date = new Date()): void {
+    const endedSessionIds: number[] = [];
 
-    logger.info(`Ending ${this.activeSessions.size} active session(s)`);
+    if (this.activeSessions.size > 0) {
+      logger.info(`Ending ${this.activeSessions.size} active session(s)`);
+    }
 
     for (const session of this.activeSessions.values()) {
-      this.handlePlayerLeave(session);
+      this.handlePlayerLeave(
+        session,
+        new Date(
+          Math.max(sessionEnd.getTime(), session.sessionStart.getTime()),
+        ),
+      );
+
+      if (session.sessionId) {
+        endedSessionIds.push(session.sessionId);
+      }
     }
 
     this.activeSessions.clear();
+    this.emit("serverShutdown", {
+      serverId: this.config.serverId,
+      sessionEnd,
+      endedSessionIds,
+    });
   }
 
   /**
@@ -635,7 +792,18 @@ export class PlaytimeService extends EventEmitter {
   }
 
   /**
-   * Calculates how long a player has been online in their current session
+   * Checks if a specific player is currently AFK
+   *
+   * @param uuid - Minecraft player UUID to check
+   * @returns True if player is online and AFK, false otherwise
+   */
+  public isPlayerAfk(uuid: string): boolean {
+    return this.activeSessions.get(uuid)?.afkSince !== undefined;
+  }
+
+  /**
+   * Calculates how long a player has actively played in their current
+   * session, AFK time excluded
    *
    * @param uuid - Minecraft player UUID
    * @returns Duration in seconds, or null if player is not online
@@ -651,7 +819,15 @@ export class PlaytimeService extends EventEmitter {
       return null;
     }
 
-    return Math.floor((Date.now() - session.sessionStart.getTime()) / 1000);
+    const now = new Date();
+    const totalSeconds = Math.floor(
+      (now.getTime() - session.sessionStart.getTime()) / 1000,
+    );
+
+    return Math.max(
+      0,
+      totalSeconds - sumAfkSeconds(collectAfkIntervals(session, now)),
+    );
   }
 
   /**
@@ -661,6 +837,12 @@ export class PlaytimeService extends EventEmitter {
    */
   public stop(): void {
     logger.info("Stopping PlaytimeService...");
+
+    if (this.heartbeatIntervalId) {
+      clearInterval(this.heartbeatIntervalId);
+      this.heartbeatIntervalId = undefined;
+    }
+
     this.endAllSessions();
     this.isInitialized = false;
     logger.info("PlaytimeService stopped");
@@ -680,6 +862,20 @@ export class PlaytimeService extends EventEmitter {
     return this.serverState === ServerState.ONLINE;
   }
 
+  /**
+   * Get the time of the last heartbeat from the mod
+   */
+  public getLastHeartbeat(): Date | null {
+    return this.lastHeartbeatAt ?? null;
+  }
+
+  /**
+   * Get the TPS reported by the last heartbeat
+   */
+  public getTps(): number | null {
+    return this.tps;
+  }
+
   /**
    * Gets current service status
    *
@@ -689,12 +885,16 @@ export class PlaytimeService extends EventEmitter {
     isInitialized: boolean;
     activeSessions: number;
     serverState: ServerState;
+    lastHeartbeatAt: Date | null;
+    tps: number | null;
     config: PlaytimeServiceConfig;
   } {
     return {
       isInitialized: this.isInitialized,
       activeSessions: this.activeSessions.size,
       serverState: this.serverState,
+      lastHeartbeatAt: this.lastHeartbeatAt ?? null,
+      tps: this.tps,
       config: this.config,
     };
   }
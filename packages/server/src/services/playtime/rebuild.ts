@@ -0,0 +1,87 @@
+import type { PlaytimeAggregateTotals } from "@/db/queries/player/playtime/summary";
+import type { PlaytimeAggregateChange, PlaytimeRebuildReport } from "./types";
+
+/**
+ * Compares aggregate totals from before and after a rebuild
+ *
+ * @param before - Totals before the rebuild
+ * @param after - Totals after the rebuild
+ * @returns Entries whose row count or seconds changed, ordered by player,
+ *   server and aggregate
+ */
+export function diffAggregateTotals(
+  before: PlaytimeAggregateTotals[],
+  after: PlaytimeAggregateTotals[],
+): PlaytimeAggregateChange[] {
+  const key = (totals: PlaytimeAggregateTotals) =>
+    `${totals.minecraftUuid}:${totals.serverId}:${totals.aggregate}`;
+
+  const changes = new Map<string, PlaytimeAggregateChange>();
+
+  for (const totals of before) {
+    changes.set(key(totals), {
+      aggregate: totals.aggregate,
+      minecraftUuid: totals.minecraftUuid,
+      minecraftUsername: totals.minecraftUsername,
+      serverId: totals.serverId,
+      before: { count: totals.count, totalSeconds: totals.totalSeconds },
+      after: null,
+    });
+  }
+
+  for (const totals of after) {
+    const change = changes.get(key(totals)) ?? {
+      aggregate: totals.aggregate,
+      minecraftUuid: totals.minecraftUuid,
+      minecraftUsername: totals.minecraftUsername,
+      serverId: totals.serverId,
+      before: null,
+      after: null,
+    };
+
+    change.after = { count: totals.count, totalSeconds: totals.totalSeconds };
+    changes.set(key(totals), change);
+  }
+
+  return [...changes.entries()]
+    .filter(
+      ([, change]) =>
+        change.before?.count !== change.after?.count ||
+        change.before?.totalSeconds !== change.after?.totalSeconds,
+    )
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, change]) => change);
+}
+
+/**
+ * Sums the seconds of each aggregate table before and after a rebuild
+ *
+ * @param before - Totals before the rebuild
+ * @param after - Totals after the rebuild
+ * @returns Seconds per aggregate table
+ */
+export function sumAggregateTotals(
+  before: PlaytimeAggregateTotals[],
+  after: PlaytimeAggregateTotals[],
+): PlaytimeRebuildReport["totals"] {
+  const totals: PlaytimeRebuildReport["totals"] = {
+    daily: { before: 0, after: 0 },
+    hourly: { before: 0, after: 0 },
+    dimension: { before: 0, after: 0 },
+    summary: { before: 0, after: 0 },
+  };
+
+  const add = (
+    entries: PlaytimeAggregateTotals[],
+    side: "before" | "after",
+  ) => {
+    for (const entry of entries) {
+      totals[entry.aggregate][side] += entry.totalSeconds;
+    }
+  };
+
+  add(before, "before");
+  add(after, "after");
+
+  return totals;
+}
@@ -1,3 +1,8 @@
+import type {
+  PlaytimeAggregate,
+  PlaytimeAggregateTotals,
+} from "@/db/queries/player/playtime/summary";
+
 export interface MinecraftPlayer {
   uuid: string;
   username: string;
@@ -20,6 +25,24 @@ export interface SessionMetadata {
   ipAddress?: string;
 }
 
+/**
+ * Period within a session during which the player was AFK
+ */
+export interface AfkInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Period within a session spent in a single dimension
+ */
+export interface DimensionInterval {
+  /** Dimension ID reported by the mod (e.g. minecraft:the_nether) */
+  dimension: string;
+  start: Date;
+  end: Date;
+}
+
 export interface ActiveSession {
   uuid: string;
   username: string;
@@ -27,6 +50,14 @@ export interface ActiveSession {
   sessionStart: Date;
   sessionId?: number;
   metadata?: SessionMetadata;
+  /** Start of the current AFK interval, if the player is AFK */
+  afkSince?: Date;
+  /** Finished AFK intervals of this session */
+  afkIntervals: AfkInterval[];
+  /** When the player entered the current dimension (metadata.dimension) */
+  dimensionSince?: Date;
+  /** Finished dimension intervals of this session */
+  dimensionIntervals: DimensionInterval[];
 }
 
 export interface SessionEndEvent {
@@ -36,7 +67,11 @@ export interface SessionEndEvent {
   serverId: number;
   sessionStart: Date;
   sessionEnd: Date;
+  /** Active playtime, AFK time excluded */
   secondsPlayed: number;
+  afkSeconds: number;
+  afkIntervals: AfkInterval[];
+  dimensionIntervals: DimensionInterval[];
 }
 
 export interface SessionStartEvent {
@@ -47,20 +82,44 @@ export interface SessionStartEvent {
   metadata?: SessionMetadata;
 }
 
+/**
+ * Session left open in the database, restored into memory at startup
+ */
+export interface PersistedSession extends MinecraftPlayer {
+  sessionId: number;
+  sessionStart: Date;
+}
+
+/**
+ * Emitted when the server or the service stops, after the sessionEnd
+ * events of all tracked sessions
+ */
+export interface ServerShutdownEvent {
+  serverId: number;
+  /** When the open sessions ended */
+  sessionEnd: Date;
+  /** Sessions already ended through sessionEnd events */
+  endedSessionIds: number[];
+}
+
 export interface PlaytimeServiceConfig {
   serverIp: string;
   serverPort: number;
   serverId: number;
-  pollIntervalMs?: number;
-  statusTimeoutMs?: number;
+  maxPlayers?: number;
   initialDelayMs?: number;
-  maxSyncRetries?: number;
+  /** Time without a heartbeat after which the server is considered offline */
+  heartbeatTimeoutMs?: number;
+  /** How often the heartbeat timeout is checked */
+  heartbeatCheckIntervalMs?: number;
 }
 
 export interface ServerStatusSnapshot {
   onlinePlayers: MinecraftPlayer[];
   playerCount: number;
   maxPlayers: number;
+  /** Ticks per second reported by the server, if known */
+  tps?: number;
   timestamp: Date;
 }
 
@@ -93,8 +152,116 @@ export interface ModPlayerLeaveData {
   timestamp?: Date;
 }
 
+/**
+ * Player AFK/active notification from PresenceAPI
+ */
+export interface ModPlayerAfkData {
+  uuid: string;
+  username: string;
+  timestamp?: Date;
+}
+
+/**
+ * Player dimension change notification from PresenceAPI
+ */
+export interface ModPlayerDimensionData {
+  uuid: string;
+  username: string;
+  /** Dimension ID the player entered (e.g. minecraft:the_nether) */
+  dimension: string;
+  timestamp?: Date;
+}
+
+/**
+ * A player in an online player list sent by PresenceAPI
+ */
+export interface OnlinePlayerSnapshot extends MinecraftPlayer {
+  afk?: boolean;
+  /** When the player joined, if known */
+  joinedAt?: Date;
+}
+
+/**
+ * Heartbeat from PresenceAPI with the full online player list
+ */
+export interface ModHeartbeatData {
+  players: OnlinePlayerSnapshot[];
+  tps?: number;
+  timestamp?: Date;
+}
+
+/**
+ * Presence snapshot from PresenceAPI, sent after server start and after
+ * backend reconnects
+ */
+export interface ModPresenceSyncData {
+  players: OnlinePlayerSnapshot[];
+  timestamp?: Date;
+}
+
+/**
+ * Changes made to active sessions by a presence sync
+ */
+export interface PresenceSyncReport {
+  started: MinecraftPlayer[];
+  ended: MinecraftPlayer[];
+  unchanged: number;
+}
+
 export enum ServerState {
   UNKNOWN = "unknown",
   ONLINE = "online",
   OFFLINE = "offline",
 }
+
+/**
+ * Change to the totals of one aggregate table for a player on a server
+ */
+export interface PlaytimeAggregateChange {
+  aggregate: PlaytimeAggregate;
+  minecraftUuid: string;
+  minecraftUsername: string;
+  serverId: number;
+  /** Totals before the rebuild, null if there were no rows */
+  before: Pick<PlaytimeAggregateTotals, "count" | "totalSeconds"> | null;
+  /** Totals after the rebuild, null if no rows are left */
+  after: Pick<PlaytimeAggregateTotals, "count" | "totalSeconds"> | null;
+}
+
+/**
+ * Result of recomputing the playtime aggregates from player_session
+ */
+export interface PlaytimeRebuildReport {
+  /** Player and server the rebuild was limited to (empty = everything) */
+  scope: { playerUuid?: string; serverId?: number };
+  /** Whether the changes were rolled back instead of committed */
+  dryRun: boolean;
+  sessionsReplayed: number;
+  /** Only players and servers whose totals changed */
+  changes: PlaytimeAggregateChange[];
+  /** Seconds per aggregate table before and after the rebuild */
+  totals: Record<PlaytimeAggregate, { before: number; after: number }>;
+}
+
+/**
+ * Ghost session detection settings
+ */
+export interface GhostSessionConfig {
+  /** How often sessions are checked */
+  intervalMs: number;
+  /** Sessions longer than this are flagged */
+  maxSessionSeconds: number;
+  /** Only sessions ended within this many days (or still open) are checked */
+  lookbackDays: number;
+  /** Discord channel ID flagged sessions are posted to */
+  channelId: string;
+}
+
+/**
+ * Suggested end time for truncating a flagged session
+ */
+export interface SessionTruncateOption {
+  sessionEnd: Date;
+  /** Why this end time is suggested (e.g. "went AFK") */
+  label: string;
+}
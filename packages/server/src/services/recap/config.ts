@@ -0,0 +1,20 @@
+import config from "@/config";
+import { Discord } from "@/discord/constants";
+import { type PlaytimeRecapConfig, RecapPeriod } from "./types";
+
+/**
+ * Playtime recap configuration
+ *
+ * Weekly recaps are posted every Monday and monthly recaps on the 1st,
+ * both covering the period that just ended.
+ */
+export const PLAYTIME_RECAP_CONFIG: PlaytimeRecapConfig = {
+  serverId: config.servers.cogs.id,
+  channelId: Discord.Channels.general.LEADERBOARDS,
+  postHour: 12,
+  topPlayers: 10,
+  prizes: {
+    [RecapPeriod.WEEKLY]: [],
+    [RecapPeriod.MONTHLY]: [],
+  },
+};
@@ -0,0 +1,4 @@
+export * from "./config";
+export * from "./period";
+export * from "./recap.service";
+export * from "./types";
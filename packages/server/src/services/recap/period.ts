@@ -0,0 +1,152 @@
+import {
+  type RankedPlayer,
+  type RecapEntry,
+  RecapPeriod,
+  type RecapRange,
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gets the last complete period before a point in time (UTC)
+ *
+ * Weeks run Monday to Sunday, months from the 1st to their last day.
+ *
+ * @param period - Weekly or monthly
+ * @param now - Point in time the period must end before
+ * @returns Inclusive range of days
+ *
+ * @example
+ * // Wednesday 2025-01-15
+ * getRecapRange(RecapPeriod.WEEKLY, now) // 2025-01-06 to 2025-01-12
+ * getRecapRange(RecapPeriod.MONTHLY, now) // 2024-12-01 to 2024-12-31
+ */
+export function getRecapRange(period: RecapPeriod, now: Date): RecapRange {
+  if (period === RecapPeriod.WEEKLY) {
+    const today = startOfDay(now);
+    const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+    const thisMonday = new Date(today.getTime() - daysSinceMonday * DAY_MS);
+
+    return {
+      start: new Date(thisMonday.getTime() - 7 * DAY_MS),
+      end: new Date(thisMonday.getTime() - DAY_MS),
+    };
+  }
+
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  return {
+    start: new Date(Date.UTC(year, month - 1, 1)),
+    end: new Date(Date.UTC(year, month, 0)),
+  };
+}
+
+/**
+ * Gets the period right before a recap range
+ *
+ * @param period - Weekly or monthly
+ * @param range - Range returned by getRecapRange
+ * @returns Inclusive range of days
+ */
+export function getPreviousRecapRange(
+  period: RecapPeriod,
+  range: RecapRange,
+): RecapRange {
+  return getRecapRange(period, range.start);
+}
+
+/**
+ * Gets the next time a recap should be posted (UTC)
+ *
+ * Weekly recaps are posted on Mondays, monthly recaps on the 1st.
+ *
+ * @param period - Weekly or monthly
+ * @param now - Current time
+ * @param hour - Hour of the day to post at
+ * @returns The next posting time after now
+ */
+export function getNextRecapTime(
+  period: RecapPeriod,
+  now: Date,
+  hour: number,
+): Date {
+  const next = startOfDay(now);
+  next.setUTCHours(hour);
+
+  if (period === RecapPeriod.WEEKLY) {
+    next.setUTCDate(next.getUTCDate() + ((8 - next.getUTCDay()) % 7));
+
+    if (next <= now) {
+      next.setUTCDate(next.getUTCDate() + 7);
+    }
+
+    return next;
+  }
+
+  next.setUTCDate(1);
+
+  if (next <= now) {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+
+  return next;
+}
+
+/**
+ * Gets the latest period whose recap is due (UTC)
+ *
+ * A period is due from the posting time after it ends; before that, the
+ * period before it is the latest due one.
+ *
+ * @param period - Weekly or monthly
+ * @param now - Current time
+ * @param hour - Hour of the day recaps are posted at
+ * @returns Inclusive range of days
+ *
+ * @example
+ * // Monday 2025-01-13 08:00, posting at 12:00
+ * getDueRecapRange(RecapPeriod.WEEKLY, now, 12) // 2024-12-30 to 2025-01-05
+ */
+export function getDueRecapRange(
+  period: RecapPeriod,
+  now: Date,
+  hour: number,
+): RecapRange {
+  const range = getRecapRange(period, now);
+  const postAt = new Date(range.end.getTime() + DAY_MS);
+  postAt.setUTCHours(hour);
+
+  return postAt <= now ? range : getPreviousRecapRange(period, range);
+}
+
+/**
+ * Ranks players and looks up their rank in the previous period
+ *
+ * @param current - Top players of the period, best first
+ * @param previous - Top players of the previous period, best first
+ * @returns Ranked entries with their previous rank
+ */
+export function rankRecapEntries(
+  current: RankedPlayer[],
+  previous: RankedPlayer[],
+): RecapEntry[] {
+  const previousRanks = new Map(
+    previous.map((player, index) => [player.minecraftUuid, index + 1]),
+  );
+
+  return current.map((player, index) => ({
+    ...player,
+    rank: index + 1,
+    previousRank: previousRanks.get(player.minecraftUuid) ?? null,
+  }));
+}
+
+/**
+ * Truncates a date to midnight UTC
+ */
+function startOfDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
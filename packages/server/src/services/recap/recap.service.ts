@@ -0,0 +1,382 @@
+import { balanceRepo, db, playtimeRepo, Q } from "@/db";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { Discord } from "@/discord/constants";
+import { EmbedPresets } from "@/discord/embeds";
+import type { PlaytimeRecap as PlaytimeRecapRecord } from "@/generated/db";
+import { PLAYTIME_RECAP_CONFIG } from "./config";
+import {
+  getDueRecapRange,
+  getNextRecapTime,
+  getPreviousRecapRange,
+  getRecapRange,
+  rankRecapEntries,
+} from "./period";
+import {
+  type PlaytimeRecap,
+  type PlaytimeRecapConfig,
+  type RecapEntry,
+  RecapPeriod,
+  type RecapPrize,
+  type RecapRange,
+} from "./types";
+
+/**
+ * Longest single timer; monthly recaps are further away than setTimeout
+ * allows, so the schedule is re-checked at least this often
+ */
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service for weekly and monthly top-player recaps
+ *
+ * Posts the top players of the week every Monday and of the month on the
+ * 1st, with rank changes compared to the previous period and the total
+ * playtime of the community. If prizes are configured for the period, the
+ * top players are paid as rewards.
+ *
+ * Each period is recorded once, together with its prizes, so a restart
+ * never posts or pays it twice. Periods missed while the backend was down
+ * and recaps that failed to post are caught up at startup.
+ */
+export class PlaytimeRecapService {
+  private timeouts = new Map<RecapPeriod, NodeJS.Timeout>();
+
+  constructor(
+    private readonly config: PlaytimeRecapConfig = PLAYTIME_RECAP_CONFIG,
+  ) {}
+
+  /**
+   * Initialize the service, catch up on missed recaps and schedule the
+   * next ones
+   * Called by the service container during startup
+   *
+   * @returns Promise resolving when the service is started
+   */
+  async initialize(): Promise<void> {
+    logger.info("Initializing PlaytimeRecapService...");
+
+    await this.catchUp();
+
+    for (const period of Object.values(RecapPeriod)) {
+      this.schedule(
+        period,
+        getNextRecapTime(period, new Date(), this.config.postHour),
+      );
+    }
+
+    logger.info("PlaytimeRecapService initialized");
+  }
+
+  /**
+   * Shutdown the service and clean up timers
+   * Called by the service container during graceful shutdown
+   *
+   * @returns Promise resolving when the service is shut down
+   */
+  async shutdown(): Promise<void> {
+    for (const timeout of this.timeouts.values()) {
+      clearTimeout(timeout);
+    }
+
+    this.timeouts.clear();
+    logger.info("PlaytimeRecapService stopped");
+  }
+
+  /**
+   * Builds the recap of the last complete period
+   *
+   * @param period - Weekly or monthly
+   * @param now - Point in time the period must end before (default: now)
+   * @returns Promise resolving to the recap, without prizes
+   */
+  async getRecap(
+    period: RecapPeriod,
+    now: Date = new Date(),
+  ): Promise<PlaytimeRecap> {
+    return this.buildRecap(period, getRecapRange(period, now));
+  }
+
+  /**
+   * Records and posts the recap of a period and pays its prizes
+   *
+   * Recording the period and paying its prizes happen in one transaction,
+   * so a period is paid exactly once. Posting happens after the commit; a
+   * recap that fails to post is retried at the next startup.
+   *
+   * @param period - Weekly or monthly
+   * @param range - Period to post (default: the latest due one)
+   * @returns Promise resolving to the recap, or null if the period was
+   *   already recorded
+   */
+  async postRecap(
+    period: RecapPeriod,
+    range: RecapRange = getDueRecapRange(
+      period,
+      new Date(),
+      this.config.postHour,
+    ),
+  ): Promise<PlaytimeRecap | null> {
+    const recap = await this.buildRecap(period, range);
+
+    const record = await db.inTransaction(async (tx) => {
+      recap.prizes = await this.getPrizes(recap, tx);
+
+      const record = await tx.playtime.recap.createIfAbsent({
+        kind: period,
+        periodStart: range.start,
+        periodEnd: range.end,
+        totalSeconds: BigInt(recap.totalSeconds),
+        previousTotalSeconds: BigInt(recap.previousTotalSeconds),
+        entries: recap.entries,
+        prizes: recap.prizes,
+      });
+
+      if (record) {
+        await this.payPrizes(recap, tx);
+      }
+
+      return record;
+    });
+
+    if (!record) {
+      logger.info(
+        `${period} playtime recap of ${formatDay(range.start)} already recorded`,
+      );
+      return null;
+    }
+
+    await this.send(recap, record.id);
+
+    return recap;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Builds the recap of a period, without prizes
+   * @private
+   */
+  private async buildRecap(
+    period: RecapPeriod,
+    range: RecapRange,
+  ): Promise<PlaytimeRecap> {
+    const previousRange = getPreviousRecapRange(period, range);
+    const { serverId, topPlayers } = this.config;
+
+    const [current, previous, totalSeconds, previousTotalSeconds] =
+      await Promise.all([
+        playtimeRepo.getTopPlayersByDateRange(
+          serverId,
+          range.start,
+          range.end,
+          topPlayers,
+        ),
+        playtimeRepo.getTopPlayersByDateRange(
+          serverId,
+          previousRange.start,
+          previousRange.end,
+          topPlayers,
+        ),
+        this.getTotalSeconds(range),
+        this.getTotalSeconds(previousRange),
+      ]);
+
+    return {
+      period,
+      range,
+      entries: rankRecapEntries(current, previous),
+      totalSeconds,
+      previousTotalSeconds,
+      prizes: [],
+    };
+  }
+
+  /**
+   * Re-posts recorded recaps that failed to post and records the latest
+   * due period of each kind if it was missed
+   * @private
+   */
+  private async catchUp(): Promise<void> {
+    try {
+      const unposted = await Q.playtime.recap
+        .where({ discordMessageId: null })
+        .orderBy("periodStart", "ASC")
+        .all();
+
+      for (const record of unposted) {
+        await this.send(this.fromRecord(record), record.id);
+      }
+    } catch (error) {
+      logger.error("Failed to re-post playtime recaps:", error);
+    }
+
+    for (const period of Object.values(RecapPeriod)) {
+      try {
+        await this.postRecap(period);
+      } catch (error) {
+        logger.error(`${period} playtime recap catch-up failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Schedules the next recap of a period
+   * @private
+   */
+  private schedule(period: RecapPeriod, postAt: Date): void {
+    const delay = Math.min(postAt.getTime() - Date.now(), MAX_TIMER_MS);
+
+    const timeout = setTimeout(
+      async () => {
+        if (Date.now() < postAt.getTime()) {
+          this.schedule(period, postAt);
+          return;
+        }
+
+        try {
+          await this.postRecap(period);
+        } catch (error) {
+          logger.error(`${period} playtime recap failed:`, error);
+        }
+
+        this.schedule(
+          period,
+          getNextRecapTime(period, new Date(), this.config.postHour),
+        );
+      },
+      Math.max(delay, 0),
+    );
+
+    this.timeouts.set(period, timeout);
+  }
+
+  /**
+   * Sums the playtime of all players on all servers within a range
+   * @private
+   */
+  private async getTotalSeconds(range: RecapRange): Promise<number> {
+    const days = await Q.player.playtime.daily.getRangeTotals(
+      {},
+      range.start,
+      range.end,
+    );
+
+    return days.reduce((sum, day) => sum + day.totalSeconds, 0);
+  }
+
+  /**
+   * Gets the configured prizes of the top players of a recap
+   *
+   * Players without a balance account are skipped.
+   *
+   * @private
+   */
+  private async getPrizes(
+    recap: PlaytimeRecap,
+    tx: typeof db,
+  ): Promise<RecapPrize[]> {
+    const amounts = this.config.prizes[recap.period];
+    const prizes: RecapPrize[] = [];
+
+    for (const entry of recap.entries.slice(0, amounts.length)) {
+      const amount = amounts[entry.rank - 1];
+
+      if (!amount || entry.totalSeconds === 0) {
+        continue;
+      }
+
+      if (
+        !(await tx.player.balance.exists({
+          minecraftUuid: entry.minecraftUuid,
+        }))
+      ) {
+        logger.warn(
+          `Skipping ${recap.period} recap prize of ${entry.minecraftUsername}: no balance account`,
+        );
+        continue;
+      }
+
+      prizes.push({
+        rank: entry.rank,
+        minecraftUuid: entry.minecraftUuid,
+        minecraftUsername: entry.minecraftUsername,
+        amount,
+      });
+    }
+
+    return prizes;
+  }
+
+  /**
+   * Pays the prizes of a recap as rewards
+   *
+   * A failed payment rolls back the transaction, so the period is neither
+   * recorded nor paid and is retried at the next startup.
+   *
+   * @private
+   */
+  private async payPrizes(recap: PlaytimeRecap, tx: typeof db): Promise<void> {
+    for (const prize of recap.prizes) {
+      await balanceRepo.add(
+        prize.minecraftUuid,
+        prize.amount,
+        `${recap.period === RecapPeriod.WEEKLY ? "Weekly" : "Monthly"} playtime recap: #${prize.rank}`,
+        BalanceTransactionType.REWARD,
+        {
+          recapPeriod: recap.period,
+          recapStart: formatDay(recap.range.start),
+          rank: prize.rank,
+        },
+        tx,
+      );
+    }
+  }
+
+  /**
+   * Posts a recorded recap and stores the ID of its message
+   * @private
+   */
+  private async send(recap: PlaytimeRecap, recordId: number): Promise<void> {
+    const result = await Discord.Messages.send({
+      channelId: this.config.channelId,
+      embeds: EmbedPresets.playtime.recap(recap).build(),
+    });
+
+    if (!result.success || !result.messageId) {
+      logger.warn(
+        `Failed to post ${recap.period} playtime recap of ${formatDay(recap.range.start)}`,
+      );
+      return;
+    }
+
+    await Q.playtime.recap.update(
+      { id: recordId },
+      { discordMessageId: result.messageId },
+    );
+    logger.info(`Posted ${recap.period} playtime recap`);
+  }
+
+  /**
+   * Rebuilds a recap from its recorded row
+   * @private
+   */
+  private fromRecord(record: PlaytimeRecapRecord): PlaytimeRecap {
+    return {
+      period: record.kind as RecapPeriod,
+      range: { start: record.periodStart, end: record.periodEnd },
+      entries: record.entries as RecapEntry[],
+      totalSeconds: Number(record.totalSeconds),
+      previousTotalSeconds: Number(record.previousTotalSeconds),
+      prizes: record.prizes as RecapPrize[],
+    };
+  }
+}
+
+/**
+ * Formats a recap day as YYYY-MM-DD
+ */
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,62 @@
+export enum RecapPeriod {
+  WEEKLY = "weekly",
+  MONTHLY = "monthly",
+}
+
+export interface PlaytimeRecapConfig {
+  /**
+   * Minecraft server players are ranked on
+   * The community playtime always covers all servers
+   */
+  serverId: number;
+  /** Discord channel ID the recap is posted to */
+  channelId: string;
+  /** Hour of the day recaps are posted (UTC) */
+  postHour: number;
+  /** Number of players shown in the recap */
+  topPlayers: number;
+  /**
+   * Prize paid to the top players, by rank (index 0 = 1st place)
+   * Leave empty to disable prizes for the period
+   */
+  prizes: Record<RecapPeriod, number[]>;
+}
+
+/**
+ * Range of days covered by a recap (UTC, both ends inclusive)
+ */
+export interface RecapRange {
+  start: Date;
+  end: Date;
+}
+
+export interface RankedPlayer {
+  minecraftUuid: string;
+  minecraftUsername: string;
+  totalSeconds: number;
+}
+
+export interface RecapEntry extends RankedPlayer {
+  rank: number;
+  /** Rank in the previous period, or null if not in its top players */
+  previousRank: number | null;
+}
+
+export interface RecapPrize {
+  rank: number;
+  minecraftUuid: string;
+  minecraftUsername: string;
+  amount: number;
+}
+
+export interface PlaytimeRecap {
+  period: RecapPeriod;
+  range: RecapRange;
+  entries: RecapEntry[];
+  /** Playtime of all players on all servers in the period */
+  totalSeconds: number;
+  /** Playtime of all players on all servers in the previous period */
+  previousTotalSeconds: number;
+  /** Prizes paid out (empty if prizes are disabled) */
+  prizes: RecapPrize[];
+}
@@ -13,6 +13,27 @@ export const REWARD_CONFIGS: Record<RewardType, RewardConfig> = {
     description: "Claim your daily reward once per day",
     resetHour: 0,
     enabled: true,
+    streak: {
+      bonusPerDay: 0.1,
+      maxBonusDay: 7,
+      graceHours: 6,
+    },
+  },
+  [RewardType.PLAYTIME_MILESTONE]: {
+    type: RewardType.PLAYTIME_MILESTONE,
+    amount: 0, // Paid per milestone, see milestones
+    label: "Playtime Milestone",
+    description: "One-time bonuses for reaching total playtime milestones",
+    resetHour: 0,
+    enabled: true,
+    milestones: [
+      { requiredSeconds: 36000, amount: 100, label: "10 Hours" }, // 10 hours
+      { requiredSeconds: 90000, amount: 250, label: "25 Hours" }, // 25 hours
+      { requiredSeconds: 180000, amount: 500, label: "50 Hours" }, // 50 hours
+      { requiredSeconds: 360000, amount: 1000, label: "100 Hours" }, // 100 hours
+      { requiredSeconds: 900000, amount: 2500, label: "250 Hours" }, // 250 hours
+      { requiredSeconds: 1800000, amount: 5000, label: "500 Hours" }, // 500 hours
+    ],
   },
 };
 
@@ -1,6 +1,7 @@
 import { getRewardConfig } from "./config";
 import { BaseReward } from "./rewards/base.reward";
 import { DailyReward } from "./rewards/daily.reward";
+import { PlaytimeMilestoneReward } from "./rewards/playtime-milestone.reward";
 import { RewardType } from "./types";
 
 /**
@@ -35,7 +36,13 @@ export class RewardService {
       this.rewards.set(RewardType.DAILY, new DailyReward(dailyConfig));
     }
 
-    // TODO add more reward types
+    const milestoneConfig = getRewardConfig(RewardType.PLAYTIME_MILESTONE);
+    if (milestoneConfig.enabled) {
+      this.rewards.set(
+        RewardType.PLAYTIME_MILESTONE,
+        new PlaytimeMilestoneReward(milestoneConfig),
+      );
+    }
 
     logger.info(`Initialized ${this.rewards.size} reward type(s)`);
   }
@@ -64,12 +71,30 @@ export class RewardService {
    * - checkEligibility(player): Check if a player can claim
    * - claim(player): Claim reward
    * - getNextClaimTime(lastClaim): Calculate next claim
+   * - getStreak(player): Current and best consecutive-day streak
    *
    * @returns DailyReward instance
    * @throws Error if daily rewards are not enabled
    */
-  get daily(): BaseReward {
-    return this.getReward(RewardType.DAILY);
+  get daily(): DailyReward {
+    return this.getReward(RewardType.DAILY) as DailyReward;
+  }
+
+  /**
+   * Accessor for playtime milestone reward operations
+   *
+   * Provides methods:
+   * - listen(playtimeService): Auto-claim milestones on session end
+   * - checkEligibility(player): Check for reached but unpaid milestones
+   * - claim(player): Pay all reached milestones
+   *
+   * @returns PlaytimeMilestoneReward instance
+   * @throws Error if playtime milestone rewards are not enabled
+   */
+  get playtimeMilestone(): PlaytimeMilestoneReward {
+    return this.getReward(
+      RewardType.PLAYTIME_MILESTONE,
+    ) as PlaytimeMilestoneReward;
   }
 
   /**
@@ -4,7 +4,7 @@ import {
   RewardConfig,
   RewardEligibilityResult,
 } from "../types";
-import { Q } from "@/db";
+import { db, Q } from "@/db";
 import { BalanceUtils } from "@/db/repositories/balance/utils";
 
 /**
@@ -115,6 +115,32 @@ export abstract class BaseReward {
     };
   }
 
+  /**
+   * Retrieves all claim timestamps for this reward type by a player
+   *
+   * Sorted by claimed_at ASC so subclasses can walk the history in order
+   * (e.g., to compute consecutive-day streaks).
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @returns Promise resolving to claim timestamps, oldest first
+   *
+   * @protected - Only for use by subclass implementations
+   */
+  protected async getClaimHistory(playerUuid: string): Promise<Date[]> {
+    const claims = await Q.reward.claim.findAll(
+      {
+        playerMinecraftUuid: playerUuid,
+        rewardType: this.config.type,
+      },
+      {
+        orderBy: DatabaseTable.REWARD_CLAIM.CAMEL_FIELDS.CLAIMED_AT,
+        orderDirection: "ASC",
+      },
+    );
+
+    return claims.map((claim) => claim.claimedAt);
+  }
+
   /**
    * Records a reward claim in the database for audit trail
    *
@@ -136,6 +162,7 @@ export abstract class BaseReward {
    * @param playerUuid - Minecraft UUID of the player claiming
    * @param amount - Reward amount in display format (will be converted to storage)
    * @param metadata - Optional additional data (achievement ID, bonus multiplier, etc.)
+   * @param tx - Transaction client to run in (optional)
    * @returns Promise resolving when claim is recorded
    *
    * @protected - Only for use by subclass implementations
@@ -155,8 +182,9 @@ export abstract class BaseReward {
     playerUuid: string,
     amount: number,
     metadata?: Record<string, any>,
+    tx?: typeof db,
   ): Promise<void> {
-    await Q.reward.claim.create({
+    await (tx ?? Q).reward.claim.create({
       playerMinecraftUuid: playerUuid,
       rewardType: this.config.type,
       amount: BalanceUtils.toStorage(amount),
@@ -1,5 +1,10 @@
 import { PlayerIdentifier } from "@/generated/db";
-import { RewardClaimResult, RewardEligibilityResult } from "../types";
+import {
+  RewardClaimResult,
+  RewardEligibilityResult,
+  RewardStreakInfo,
+} from "../types";
+import { calculateStreak, getStreakMultiplier } from "../streak";
 import { BaseReward } from "./base.reward";
 import { balanceRepo } from "@/db";
 import { BalanceTransactionType } from "@/db/repositories/balance";
@@ -13,6 +18,8 @@ import { BalanceTransactionType } from "@/db/repositories/balance";
  * - Smart reset timing: claiming 1 hour before reset allows immediate reclaim after reset
  * - Integrates with balance system for automatic currency distribution
  * - Full audit trail through reward_claim table
+ * - Consecutive-day streaks computed from claim history, with an escalating
+ *   payout multiplier and a grace window after a missed reset
  *
  * Reset Behavior:
  * - If reset hour is 0 (midnight UTC):
@@ -37,10 +44,12 @@ export class DailyReward extends BaseReward {
     try {
       const playerUuid = await this.resolvePlayerUuid(identifier);
       const lastClaim = await this.getLastClaim(playerUuid);
+      const streak = await this.getStreak({ minecraftUuid: playerUuid });
 
       if (!lastClaim) {
         return {
           eligible: true,
+          streak,
         };
       }
 
@@ -51,6 +60,7 @@ export class DailyReward extends BaseReward {
         return {
           eligible: true,
           lastClaimTime: lastClaim.claimedAt,
+          streak,
         };
       }
 
@@ -59,6 +69,7 @@ export class DailyReward extends BaseReward {
         reason: `You can claim again at ${nextClaimTime.toLocaleString()}`,
         nextClaimTime,
         lastClaimTime: lastClaim.claimedAt,
+        streak,
       };
     } catch (error) {
       logger.error("Failed to check daily reward eligibility:", error);
@@ -74,10 +85,11 @@ export class DailyReward extends BaseReward {
    *
    * Transaction flow:
    * 1. Verify player eligibility
-   * 2. Add currency to player balance (via BalanceRepository)
-   * 3. Record claim in reward_claim table
-   * 4. Calculate next claim time
-   * 5. Return success result
+   * 2. Determine streak day and payout multiplier
+   * 3. Add currency to player balance (via BalanceRepository)
+   * 4. Record claim in reward_claim table with streak metadata
+   * 5. Calculate next claim time
+   * 6. Return success result
    *
    * All operations are atomic - if any step fails, nothing is committed
    *
@@ -97,29 +109,50 @@ export class DailyReward extends BaseReward {
         };
       }
 
+      const previous = eligibility.streak ?? {
+        current: 0,
+        best: 0,
+        multiplier: 1,
+      };
+      const streakDay = previous.current + 1;
+      const multiplier = this.config.streak
+        ? getStreakMultiplier(streakDay, this.config.streak)
+        : 1;
+      const amount = Math.round(this.config.amount * multiplier * 1000) / 1000;
+
       const newBalance = await balanceRepo.add(
         playerUuid,
-        this.config.amount,
+        amount,
         `Daily reward claimed`,
         BalanceTransactionType.REWARD,
         {
           rewardType: this.config.type,
+          streak: streakDay,
+          multiplier,
         },
       );
 
-      await this.recordClaim(playerUuid, this.config.amount);
+      await this.recordClaim(playerUuid, amount, {
+        streak: streakDay,
+        multiplier,
+      });
 
       const nextClaimTime = this.getNextClaimTime(new Date());
 
       logger.info(
-        `Player ${playerUuid} claimed daily reward: ${this.config.amount}`,
+        `Player ${playerUuid} claimed daily reward: ${amount} (streak day ${streakDay}, x${multiplier})`,
       );
 
       return {
         success: true,
-        amount: this.config.amount,
+        amount,
         newBalance,
         nextClaimTime,
+        streak: {
+          current: streakDay,
+          best: Math.max(previous.best, streakDay),
+          multiplier,
+        },
       };
     } catch (error) {
       logger.error("Failed to claim daily reward:", error);
@@ -156,4 +189,34 @@ export class DailyReward extends BaseReward {
 
     return nextClaim;
   }
+
+  /**
+   * Calculates a player's current and best daily streak
+   *
+   * The multiplier is the one the player would receive on their next claim.
+   * Without a streak configuration, claims still count towards the streak
+   * but the multiplier is always 1.
+   *
+   * @param identifier - Player identifier (UUID, username, discordId, or Player object)
+   * @returns Promise resolving to the player's streak info
+   */
+  async getStreak(identifier: PlayerIdentifier): Promise<RewardStreakInfo> {
+    const playerUuid = await this.resolvePlayerUuid(identifier);
+    const history = await this.getClaimHistory(playerUuid);
+
+    const { current, best } = calculateStreak(
+      history,
+      new Date(),
+      this.config.resetHour,
+      this.config.streak?.graceHours ?? 0,
+    );
+
+    return {
+      current,
+      best,
+      multiplier: this.config.streak
+        ? getStreakMultiplier(current + 1, this.config.streak)
+        : 1,
+    };
+  }
 }
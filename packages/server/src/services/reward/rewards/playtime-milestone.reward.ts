@@ -0,0 +1,356 @@
+import { PlayerIdentifier } from "@/generated/db";
+import {
+  RewardClaimResult,
+  RewardEligibilityResult,
+  RewardMilestone,
+} from "../types";
+import { BaseReward } from "./base.reward";
+import { balanceRepo, db, Q } from "@/db";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { Discord } from "@/discord/constants";
+import { EmbedPresets } from "@/discord/embeds";
+import type { PlaytimeService, SessionEndEvent } from "@/services/playtime";
+import { formatPlaytime } from "@/utils/format";
+
+/**
+ * PostgreSQL error code of a unique constraint violation
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Playtime milestone reward implementation
+ *
+ * Features:
+ * - Pays one-time bonuses when cumulative playtime (all servers) crosses
+ *   a configured threshold
+ * - Claimed automatically on PlaytimeService sessionEnd events
+ * - Each milestone is recorded in reward_claim with its threshold in
+ *   metadata and paid in the same transaction; a unique index on the
+ *   threshold makes sure it is never paid twice
+ * - Notifies the player via DM when a milestone is paid
+ *
+ * Milestones are not time-gated, so there is no reset schedule. Claims for
+ * the same player are processed sequentially to avoid paying a milestone
+ * twice when sessions on different servers end at the same time.
+ */
+export class PlaytimeMilestoneReward extends BaseReward {
+  private claimQueues: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Subscribes to a playtime service so milestones are claimed automatically
+   * whenever a session ends
+   *
+   * @param playtimeService - Playtime service of a single server
+   */
+  listen(playtimeService: PlaytimeService): void {
+    playtimeService.on("sessionEnd", (event) => {
+      this.enqueue(event.uuid, () => this.handleSessionEnd(event)).catch(
+        (error) => {
+          logger.error(
+            `Failed to process playtime milestones for ${event.username}:`,
+            error,
+          );
+        },
+      );
+    });
+  }
+
+  /**
+   * Checks if a player has reached any unpaid milestone
+   *
+   * @param identifier - Player identifier (UUID, username, discordId, or Player object)
+   * @returns Promise resolving to eligibility result
+   */
+  async checkEligibility(
+    identifier: PlayerIdentifier,
+  ): Promise<RewardEligibilityResult> {
+    try {
+      const playerUuid = await this.resolvePlayerUuid(identifier);
+      const totalSeconds = await this.getTotalSeconds(playerUuid);
+      const pending = await this.getPendingMilestones(playerUuid, totalSeconds);
+
+      if (pending.length > 0) {
+        return { eligible: true };
+      }
+
+      const next = this.getMilestones().find(
+        (milestone) => milestone.requiredSeconds > totalSeconds,
+      );
+
+      return {
+        eligible: false,
+        reason: next
+          ? `Next milestone (${next.label}) in ${formatPlaytime(next.requiredSeconds - totalSeconds)}`
+          : "All playtime milestones have been claimed",
+      };
+    } catch (error) {
+      logger.error("Failed to check playtime milestone eligibility:", error);
+      return {
+        eligible: false,
+        reason: "Failed to check eligibility",
+      };
+    }
+  }
+
+  /**
+   * Claims all reached but unpaid milestones for a player
+   *
+   * Uses the aggregated playtime summary. Automatic claims on session end
+   * go through handleSessionEnd instead, which also counts the session
+   * that just ended.
+   *
+   * @param identifier - Player identifier (UUID, username, discordId, or Player object)
+   * @returns Promise resolving to claim result with total amount paid
+   */
+  async claim(identifier: PlayerIdentifier): Promise<RewardClaimResult> {
+    try {
+      const playerUuid = await this.resolvePlayerUuid(identifier);
+
+      return await this.enqueue(playerUuid, async () => {
+        const totalSeconds = await this.getTotalSeconds(playerUuid);
+        const { paid, newBalance } = await this.payMilestones(
+          playerUuid,
+          totalSeconds,
+        );
+
+        if (paid.length === 0) {
+          return {
+            success: false,
+            error: "No playtime milestones to claim",
+          };
+        }
+
+        return {
+          success: true,
+          amount: paid.reduce((sum, milestone) => sum + milestone.amount, 0),
+          newBalance,
+        };
+      });
+    } catch (error) {
+      logger.error("Failed to claim playtime milestone reward:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Milestones have no reset schedule - the next one can be claimed as
+   * soon as its threshold is reached
+   *
+   * @param lastClaimTime - Timestamp of the last claim
+   * @returns The same timestamp
+   */
+  getNextClaimTime(lastClaimTime: Date): Date {
+    return lastClaimTime;
+  }
+
+  /**
+   * Pays any milestones crossed by the session that just ended and notifies
+   * the player
+   *
+   * @param event - Session end event from PlaytimeService
+   *
+   * @private
+   */
+  private async handleSessionEnd(event: SessionEndEvent): Promise<void> {
+    const totalSeconds =
+      await Q.player.playtime.summary.getTotalSecondsAfterSession(
+        event.uuid,
+        event.sessionId,
+        event.secondsPlayed,
+      );
+
+    const { paid, newBalance } = await this.payMilestones(
+      event.uuid,
+      totalSeconds,
+    );
+
+    if (paid.length > 0) {
+      await this.notifyPlayer(event.uuid, paid, totalSeconds, newBalance);
+    }
+  }
+
+  /**
+   * Pays every reached milestone that has not been claimed yet
+   *
+   * Each milestone is claimed and paid in its own transaction. A milestone
+   * claimed concurrently (e.g. by another process) is skipped.
+   *
+   * @param playerUuid - Minecraft UUID of the player
+   * @param totalSeconds - Player's cumulative playtime
+   * @returns Paid milestones and the resulting balance
+   *
+   * @private
+   */
+  private async payMilestones(
+    playerUuid: string,
+    totalSeconds: number,
+  ): Promise<{ paid: RewardMilestone[]; newBalance?: number }> {
+    const pending = await this.getPendingMilestones(playerUuid, totalSeconds);
+    const paid: RewardMilestone[] = [];
+    let newBalance: number | undefined;
+
+    for (const milestone of pending) {
+      try {
+        newBalance = await db.inTransaction(async (tx) => {
+          await this.recordClaim(
+            playerUuid,
+            milestone.amount,
+            {
+              milestoneSeconds: milestone.requiredSeconds,
+              label: milestone.label,
+              totalSeconds,
+            },
+            tx,
+          );
+
+          return balanceRepo.add(
+            playerUuid,
+            milestone.amount,
+            `Playtime milestone reached: ${milestone.label}`,
+            BalanceTransactionType.REWARD,
+            {
+              rewardType: this.config.type,
+              milestoneSeconds: milestone.requiredSeconds,
+            },
+            tx,
+          );
+        });
+      } catch (error) {
+        if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+          logger.info(
+            `Playtime milestone ${milestone.label} of ${playerUuid} was already claimed`,
+          );
+          continue;
+        }
+        throw error;
+      }
+
+      paid.push(milestone);
+
+      logger.info(
+        `Player ${playerUuid} reached playtime milestone ${milestone.label}: ${milestone.amount}`,
+      );
+    }
+
+    return { paid, newBalance };
+  }
+
+  /**
+   * Returns reached milestones that have no matching reward_claim record
+   *
+   * @private
+   */
+  private async getPendingMilestones(
+    playerUuid: string,
+    totalSeconds: number,
+  ): Promise<RewardMilestone[]> {
+    const claims = await Q.reward.claim.findAll({
+      playerMinecraftUuid: playerUuid,
+      rewardType: this.config.type,
+    });
+
+    const claimed = new Set(
+      claims.map((claim) => Number(claim.metadata?.milestoneSeconds)),
+    );
+
+    return this.getMilestones().filter(
+      (milestone) =>
+        milestone.requiredSeconds <= totalSeconds &&
+        !claimed.has(milestone.requiredSeconds),
+    );
+  }
+
+  /**
+   * Gets the player's cumulative playtime across all servers
+   *
+   * @private
+   */
+  private async getTotalSeconds(playerUuid: string): Promise<number> {
+    const summaries = await Q.player.playtime.summary.findAll({
+      playerMinecraftUuid: playerUuid,
+    });
+
+    return summaries.reduce(
+      (total, summary) => total + Number(summary.totalSeconds),
+      0,
+    );
+  }
+
+  /**
+   * Configured milestones sorted by threshold
+   *
+   * @private
+   */
+  private getMilestones(): RewardMilestone[] {
+    return [...(this.config.milestones ?? [])].sort(
+      (a, b) => a.requiredSeconds - b.requiredSeconds,
+    );
+  }
+
+  /**
+   * Runs a task after any pending task for the same player has finished
+   *
+   * @private
+   */
+  private enqueue<T>(playerUuid: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.claimQueues.get(playerUuid) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+
+    this.claimQueues.set(playerUuid, next);
+    next
+      .finally(() => {
+        if (this.claimQueues.get(playerUuid) === next) {
+          this.claimQueues.delete(playerUuid);
+        }
+      })
+      .catch(() => undefined);
+
+    return next;
+  }
+
+  /**
+   * Sends the player a DM describing the milestones they just reached
+   *
+   * @private
+   */
+  private async notifyPlayer(
+    playerUuid: string,
+    paid: RewardMilestone[],
+    totalSeconds: number,
+    newBalance?: number,
+  ): Promise<void> {
+    try {
+      const player = await Q.player.find({ minecraftUuid: playerUuid });
+
+      if (!player?.discordId) {
+        return;
+      }
+
+      const total = paid.reduce((sum, milestone) => sum + milestone.amount, 0);
+
+      const embed = EmbedPresets.success(
+        "🏆 Playtime Milestone Reached!",
+        `You reached **${paid.map((milestone) => milestone.label).join(", ")}** of playtime and received **$${total}**`,
+      )
+        .field("Total Playtime", formatPlaytime(totalSeconds), true)
+        .timestamp();
+
+      if (newBalance !== undefined) {
+        embed.field("New Balance", `$${newBalance}`, true);
+      }
+
+      await Discord.Messages.sendDirect({
+        userId: player.discordId,
+        embeds: embed.build(),
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to send playtime milestone notification to ${playerUuid}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import type { RewardStreakConfig } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the start of the reset period that contains the given time
+ *
+ * @param time - Any point in time
+ * @param resetHour - UTC hour at which the period resets (0-23)
+ * @returns Date of the most recent reset at or before time
+ */
+export function getPeriodStart(time: Date, resetHour: number): Date {
+  const start = new Date(time);
+  start.setUTCHours(resetHour, 0, 0, 0);
+
+  if (start > time) {
+    start.setUTCDate(start.getUTCDate() - 1);
+  }
+
+  return start;
+}
+
+/**
+ * Returns the latest time a claim can follow the given claim and still
+ * continue the streak
+ *
+ * That is the end of the next reset period plus the grace window
+ *
+ * @param claimTime - Time of the previous claim
+ * @param resetHour - UTC reset hour
+ * @param graceHours - Grace window after the missed reset
+ */
+export function getStreakDeadline(
+  claimTime: Date,
+  resetHour: number,
+  graceHours: number,
+): Date {
+  const periodStart = getPeriodStart(claimTime, resetHour);
+  return new Date(periodStart.getTime() + 2 * DAY_MS + graceHours * 3_600_000);
+}
+
+/**
+ * Calculates current and best streaks from a player's claim history
+ *
+ * Claims within the same reset period count once. The current streak is 0
+ * once the deadline after the latest claim has passed.
+ *
+ * @param claimTimes - Claim timestamps in ascending order
+ * @param now - Reference time for the current streak
+ * @param resetHour - UTC reset hour
+ * @param graceHours - Grace window after a missed reset
+ * @returns Current and best streak lengths in days
+ *
+ * @example
+ * calculateStreak([monday, tuesday, wednesday], wednesday, 0, 6)
+ * // { current: 3, best: 3 }
+ */
+export function calculateStreak(
+  claimTimes: Date[],
+  now: Date,
+  resetHour: number,
+  graceHours: number,
+): { current: number; best: number } {
+  let run = 0;
+  let best = 0;
+  let previous: Date | null = null;
+
+  for (const claimTime of claimTimes) {
+    if (previous) {
+      const previousPeriod = getPeriodStart(previous, resetHour).getTime();
+      const period = getPeriodStart(claimTime, resetHour).getTime();
+
+      if (period === previousPeriod) {
+        continue;
+      }
+
+      const deadline = getStreakDeadline(previous, resetHour, graceHours);
+      run = claimTime < deadline ? run + 1 : 1;
+    } else {
+      run = 1;
+    }
+
+    best = Math.max(best, run);
+    previous = claimTime;
+  }
+
+  const current =
+    previous && now < getStreakDeadline(previous, resetHour, graceHours)
+      ? run
+      : 0;
+
+  return { current, best };
+}
+
+/**
+ * Calculates the payout multiplier for a given streak day
+ *
+ * @param streakDay - Consecutive day being claimed (1 = first day)
+ * @param config - Streak configuration
+ * @returns Multiplier applied to the base reward amount
+ *
+ * @example
+ * getStreakMultiplier(1, { bonusPerDay: 0.1, maxBonusDay: 7, graceHours: 6 }) // 1
+ * getStreakMultiplier(9, { bonusPerDay: 0.1, maxBonusDay: 7, graceHours: 6 }) // 1.6
+ */
+export function getStreakMultiplier(
+  streakDay: number,
+  config: RewardStreakConfig,
+): number {
+  const bonusDays = Math.max(0, Math.min(streakDay, config.maxBonusDay) - 1);
+  return Math.round((1 + bonusDays * config.bonusPerDay) * 1000) / 1000;
+}
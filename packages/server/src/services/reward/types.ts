@@ -3,6 +3,7 @@
  */
 export enum RewardType {
   DAILY = "daily",
+  PLAYTIME_MILESTONE = "playtime_milestone",
 }
 
 /**
@@ -13,6 +14,7 @@ export interface RewardEligibilityResult {
   reason?: string;
   nextClaimTime?: Date;
   lastClaimTime?: Date;
+  streak?: RewardStreakInfo;
 }
 
 /**
@@ -24,6 +26,38 @@ export interface RewardClaimResult {
   newBalance?: number;
   error?: string;
   nextClaimTime?: Date;
+  streak?: RewardStreakInfo;
+}
+
+/**
+ * Streak state for rewards that track consecutive claims
+ */
+export interface RewardStreakInfo {
+  current: number;
+  best: number;
+  multiplier: number;
+}
+
+/**
+ * Streak configuration for rewards that escalate with consecutive claims
+ *
+ * A streak day pays `amount * (1 + bonusPerDay * (day - 1))`, where day is
+ * capped at maxBonusDay. A claim keeps the streak alive if it happens before
+ * the end of the following reset period plus graceHours.
+ */
+export interface RewardStreakConfig {
+  bonusPerDay: number; // e.g. 0.1 = +10% per consecutive day
+  maxBonusDay: number; // streak day at which the bonus stops growing
+  graceHours: number; // hours after a missed reset before the streak breaks
+}
+
+/**
+ * One-time bonus paid when cumulative playtime crosses a threshold
+ */
+export interface RewardMilestone {
+  requiredSeconds: number;
+  amount: number;
+  label: string;
 }
 
 /**
@@ -36,4 +70,6 @@ export interface RewardConfig {
   description: string;
   resetHour: number; // UTC 0-23
   enabled: boolean;
+  streak?: RewardStreakConfig;
+  milestones?: RewardMilestone[];
 }
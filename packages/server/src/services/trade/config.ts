@@ -0,0 +1,12 @@
+import type { TradeConfig } from "./types";
+
+/**
+ * Trade offer configuration
+ *
+ * Offers must expire before Discord invalidates the interaction token
+ * (15 minutes), otherwise the offer message can no longer be updated.
+ */
+export const TRADE_CONFIG: TradeConfig = {
+  offerTtlMs: 10 * 60 * 1000, // 10 minutes
+  sweepIntervalMs: 60 * 1000, // 1 minute
+};
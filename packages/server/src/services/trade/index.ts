@@ -0,0 +1,3 @@
+export * from "./config";
+export * from "./trade.service";
+export * from "./types";
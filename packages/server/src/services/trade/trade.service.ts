@@ -0,0 +1,340 @@
+import { balanceRepo, db, Q } from "@/db";
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+import type { TradeOffer } from "@/generated/db";
+import { TRADE_CONFIG } from "./config";
+import {
+  type CreateTradeOfferOptions,
+  type ResolvedTradeOfferStatus,
+  type TradeConfig,
+  TradeOfferStatus,
+} from "./types";
+
+/**
+ * Service for peer-to-peer trade offers with escrow
+ *
+ * Lifecycle of an offer:
+ * 1. Sender creates an offer - the amount is moved into escrow
+ * 2. Recipient accepts - the escrowed amount is released to the recipient
+ * 3. Recipient declines, sender cancels or the offer expires - the
+ *    escrowed amount is refunded to the sender
+ *
+ * Every state change is written to both players' transaction history as a
+ * TRADE_ESCROW entry. The player whose balance does not move gets a
+ * zero-amount entry so both sides see the full trade timeline.
+ *
+ * Status transitions are guarded in the database (pending -> final only),
+ * so an offer can never be settled twice, even if a button click races
+ * the expiry sweep. Each transition is written in the same database
+ * transaction as its escrow movement and history entries, so an offer and
+ * its escrow can never disagree.
+ */
+export class TradeService {
+  private intervalId?: NodeJS.Timeout;
+
+  constructor(private readonly config: TradeConfig = TRADE_CONFIG) {}
+
+  /**
+   * Initialize the service and start the expiry sweep
+   * Called by the service container during startup
+   *
+   * Offers that expired while the bot was offline are refunded immediately.
+   *
+   * @returns Promise resolving when the service is started
+   */
+  async initialize(): Promise<void> {
+    logger.info("Initializing TradeService...");
+
+    this.expireDue().catch((error) => {
+      logger.error("Initial trade offer expiry sweep failed:", error);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.expireDue().catch((error) => {
+        logger.error("Scheduled trade offer expiry sweep failed:", error);
+      });
+    }, this.config.sweepIntervalMs);
+
+    logger.info("TradeService initialized");
+  }
+
+  /**
+   * Shutdown the service and clean up timers
+   * Called by the service container during graceful shutdown
+   *
+   * @returns Promise resolving when the service is shut down
+   */
+  async shutdown(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      logger.info("TradeService stopped");
+    }
+  }
+
+  /**
+   * Gets a trade offer by ID
+   *
+   * @param id - Trade offer ID
+   * @returns Promise resolving to the offer, or null if not found
+   */
+  async get(id: number): Promise<TradeOffer | null> {
+    return await Q.trade.offer.find({ id });
+  }
+
+  /**
+   * Creates a trade offer and moves the offered amount into escrow
+   *
+   * @param options - Sender, recipient, amount and optional note
+   * @returns Promise resolving to the created offer
+   * @throws Error if the amount is invalid or the sender cannot cover it
+   */
+  async createOffer(options: CreateTradeOfferOptions): Promise<TradeOffer> {
+    const { senderUuid, recipientUuid, amount, note } = options;
+
+    if (senderUuid === recipientUuid) {
+      throw new Error("You cannot trade with yourself");
+    }
+
+    if (amount <= 0) {
+      throw new Error("Trade amount must be positive");
+    }
+
+    BalanceUtils.validate(amount);
+
+    const offer = await db.inTransaction(async (tx) => {
+      const offer = await tx.trade.offer.createAndReturn({
+        senderMinecraftUuid: senderUuid,
+        recipientMinecraftUuid: recipientUuid,
+        amount: BalanceUtils.toStorage(amount),
+        note: note ?? null,
+        status: TradeOfferStatus.PENDING,
+        expiresAt: new Date(Date.now() + this.config.offerTtlMs),
+      });
+
+      await balanceRepo.holdInEscrow(
+        senderUuid,
+        amount,
+        `Trade #${offer.id} offered - held in escrow`,
+        {
+          relatedPlayerUuid: recipientUuid,
+          metadata: { tradeOfferId: offer.id, status: offer.status, note },
+          tx,
+        },
+      );
+
+      await balanceRepo.logEvent(
+        recipientUuid,
+        `Trade #${offer.id} offer received`,
+        BalanceTransactionType.TRADE_ESCROW,
+        {
+          relatedPlayerUuid: senderUuid,
+          metadata: {
+            tradeOfferId: offer.id,
+            status: offer.status,
+            amount: BalanceUtils.format(offer.amount),
+            note,
+          },
+          tx,
+        },
+      );
+
+      return offer;
+    });
+
+    logger.info(
+      `Trade offer #${offer.id} created: ${senderUuid} -> ${recipientUuid} ($${BalanceUtils.format(offer.amount)})`,
+    );
+
+    return offer;
+  }
+
+  /**
+   * Accepts a trade offer and releases the escrow to the recipient
+   *
+   * @param id - Trade offer ID
+   * @param recipientUuid - Minecraft UUID of the player accepting
+   * @returns Promise resolving to the accepted offer
+   * @throws Error if the player is not the recipient or the offer is closed
+   */
+  async accept(id: number, recipientUuid: string): Promise<TradeOffer> {
+    const offer = await this.getOrThrow(id);
+
+    if (offer.recipientMinecraftUuid !== recipientUuid) {
+      throw new Error("This trade offer is not addressed to you");
+    }
+
+    return await this.resolve(offer, TradeOfferStatus.ACCEPTED);
+  }
+
+  /**
+   * Declines a trade offer and refunds the escrow to the sender
+   *
+   * @param id - Trade offer ID
+   * @param recipientUuid - Minecraft UUID of the player declining
+   * @returns Promise resolving to the declined offer
+   * @throws Error if the player is not the recipient or the offer is closed
+   */
+  async decline(id: number, recipientUuid: string): Promise<TradeOffer> {
+    const offer = await this.getOrThrow(id);
+
+    if (offer.recipientMinecraftUuid !== recipientUuid) {
+      throw new Error("This trade offer is not addressed to you");
+    }
+
+    return await this.resolve(offer, TradeOfferStatus.DECLINED);
+  }
+
+  /**
+   * Cancels a trade offer and refunds the escrow to the sender
+   *
+   * @param id - Trade offer ID
+   * @param senderUuid - Minecraft UUID of the player cancelling
+   * @returns Promise resolving to the cancelled offer
+   * @throws Error if the player is not the sender or the offer is closed
+   */
+  async cancel(id: number, senderUuid: string): Promise<TradeOffer> {
+    const offer = await this.getOrThrow(id);
+
+    if (offer.senderMinecraftUuid !== senderUuid) {
+      throw new Error("Only the player who made this offer can cancel it");
+    }
+
+    return await this.resolve(offer, TradeOfferStatus.CANCELLED);
+  }
+
+  /**
+   * Expires a pending trade offer and refunds the escrow to the sender
+   *
+   * @param id - Trade offer ID
+   * @returns Promise resolving to the expired offer, or null if the offer
+   * was already resolved
+   */
+  async expire(id: number): Promise<TradeOffer | null> {
+    const offer = await this.get(id);
+
+    if (!offer || offer.status !== TradeOfferStatus.PENDING) {
+      return null;
+    }
+
+    try {
+      return await this.resolve(offer, TradeOfferStatus.EXPIRED);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Expires and refunds all pending offers past their expiry time
+   *
+   * @returns Promise resolving to the number of expired offers
+   */
+  async expireDue(): Promise<number> {
+    const offers = await Q.trade.offer.findExpiredPending();
+    let expired = 0;
+
+    for (const offer of offers) {
+      try {
+        if (await this.expire(offer.id)) {
+          expired++;
+        }
+      } catch (error) {
+        logger.error(`Failed to expire trade offer #${offer.id}:`, error);
+      }
+    }
+
+    if (expired > 0) {
+      logger.info(`Expired ${expired} trade offer(s)`);
+    }
+
+    return expired;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Fetches an offer or throws a user-facing error
+   * @private
+   */
+  private async getOrThrow(id: number): Promise<TradeOffer> {
+    const offer = await this.get(id);
+
+    if (!offer) {
+      throw new Error(`Trade offer #${id} does not exist`);
+    }
+
+    return offer;
+  }
+
+  /**
+   * Moves a pending offer into a final status and settles the escrow
+   *
+   * Accepted offers are released to the recipient, all other outcomes are
+   * refunded to the sender. The other player gets a zero-amount history
+   * entry recording the outcome. The status change is rolled back if the
+   * escrow cannot be settled.
+   *
+   * @private
+   */
+  private async resolve(
+    offer: TradeOffer,
+    status: ResolvedTradeOfferStatus,
+  ): Promise<TradeOffer> {
+    const resolved = await db.inTransaction(async (tx) => {
+      const resolved = await tx.trade.offer.resolvePending(offer.id, status);
+
+      if (!resolved) {
+        return null;
+      }
+
+      const accepted = status === TradeOfferStatus.ACCEPTED;
+      const payeeUuid = accepted
+        ? resolved.recipientMinecraftUuid
+        : resolved.senderMinecraftUuid;
+      const otherUuid = accepted
+        ? resolved.senderMinecraftUuid
+        : resolved.recipientMinecraftUuid;
+      const metadata = { tradeOfferId: resolved.id, status };
+
+      await balanceRepo.releaseFromEscrow(
+        payeeUuid,
+        BalanceUtils.fromStorage(resolved.amount),
+        accepted
+          ? `Trade #${resolved.id} accepted - released from escrow`
+          : `Trade #${resolved.id} ${status} - refunded from escrow`,
+        { relatedPlayerUuid: otherUuid, metadata, tx },
+      );
+
+      await balanceRepo.logEvent(
+        otherUuid,
+        `Trade #${resolved.id} ${status}`,
+        BalanceTransactionType.TRADE_ESCROW,
+        {
+          relatedPlayerUuid: payeeUuid,
+          metadata: {
+            ...metadata,
+            amount: BalanceUtils.format(resolved.amount),
+          },
+          tx,
+        },
+      );
+
+      return resolved;
+    });
+
+    if (!resolved) {
+      const current = await this.getOrThrow(offer.id);
+      throw new Error(
+        current.status === TradeOfferStatus.PENDING
+          ? `Trade offer #${offer.id} has expired`
+          : `Trade offer #${offer.id} is already ${current.status}`,
+      );
+    }
+
+    logger.info(`Trade offer #${resolved.id} ${status}`);
+
+    return resolved;
+  }
+}
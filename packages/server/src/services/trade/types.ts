@@ -0,0 +1,36 @@
+/**
+ * Trade System Type Definitions
+ *
+ * Defines types for peer-to-peer trade offers
+ */
+
+export enum TradeOfferStatus {
+  PENDING = "pending",
+  ACCEPTED = "accepted",
+  DECLINED = "declined",
+  CANCELLED = "cancelled",
+  EXPIRED = "expired",
+}
+
+/**
+ * Final statuses a pending offer can be resolved into
+ */
+export type ResolvedTradeOfferStatus = Exclude<
+  TradeOfferStatus,
+  TradeOfferStatus.PENDING
+>;
+
+export interface TradeConfig {
+  /** How long an offer stays open before it expires (milliseconds) */
+  offerTtlMs: number;
+  /** How often expired offers are swept and refunded (milliseconds) */
+  sweepIntervalMs: number;
+}
+
+export interface CreateTradeOfferOptions {
+  senderUuid: string;
+  recipientUuid: string;
+  /** Offered amount (e.g. 1.500) */
+  amount: number;
+  note?: string;
+}
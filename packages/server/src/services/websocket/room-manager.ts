@@ -60,6 +60,14 @@ export class RoomManager {
     return SubscriptionType.MESSAGES;
   }
 
+  /**
+   * Get room name for exchange price subscription
+   * Prices are not tied to a server, so there is a single room
+   */
+  static getExchangeRoom(): string {
+    return SubscriptionType.EXCHANGE;
+  }
+
   /**
    * Get appropriate room based on subscription type and server ID
    *
@@ -81,6 +89,8 @@ export class RoomManager {
         return this.getPlayersRoom(serverId);
       case SubscriptionType.MESSAGES:
         return this.getMessagesRoom(serverId);
+      case SubscriptionType.EXCHANGE:
+        return this.getExchangeRoom();
       default:
         throw new Error(`Unknown subscription type: ${type}`);
     }
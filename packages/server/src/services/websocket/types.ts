@@ -6,6 +6,7 @@ import type {
   ServerStatusUpdatePayload,
   PlayersUpdatePayload,
   MessageUpdatePayload,
+  ExchangePricesUpdatePayload,
   SubscriptionRequest,
   SubscriptionConfirmation,
   InitialDataRequest,
@@ -54,6 +55,7 @@ export type {
   ServerStatusUpdatePayload,
   PlayersUpdatePayload,
   MessageUpdatePayload,
+  ExchangePricesUpdatePayload,
   SubscriptionRequest,
   SubscriptionConfirmation,
   InitialDataRequest,
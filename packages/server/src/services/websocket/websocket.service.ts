@@ -1,6 +1,7 @@
 import type { Server as HttpServer } from "node:http";
 import { Server as SocketIOServer, Socket } from "socket.io";
 import type {
+  ExchangePricesUpdatePayload,
   InitialDataPayload,
   InitialDataRequest,
   MessageUpdatePayload,
@@ -15,6 +16,7 @@ import type {
 import { SocketEvent, SubscriptionType } from "./types";
 import type { MessageCacheService } from "../discord/message/cache";
 import type { PlaytimeManagerService } from "../playtime/playtime-manager.service";
+import type { ExchangeService } from "../exchange";
 import { RoomManager } from "./room-manager";
 import { WebSocketDataProvider } from "./data-provider";
 import type { CachedMessage } from "../discord/message/cache";
@@ -34,13 +36,14 @@ import type { SessionEndEvent, SessionStartEvent } from "../playtime";
  * - Real-time server status updates
  * - Online player tracking
  * - Message broadcasting from Discord
+ * - Exchange price ticks for live charts
  * - Flexible subscription model (global or server-specific)
  * - Client can request initial data on demand
  *
  * Usage flow:
  * 1. Client connects
  * 2. Client requests initial data (optional)
- * 3. Client subscribes to data streams (status, players, messages)
+ * 3. Client subscribes to data streams (status, players, messages, exchange)
  * 4. Server broadcasts updates to subscribed rooms
  * 5. Client unsubscribes or disconnects
  */
@@ -73,10 +76,12 @@ export class WebSocketService {
    *
    * @param messageCacheService - Message cache service for Discord messages
    * @param playtimeManagerService - Playtime manager for player tracking
+   * @param exchangeService - Exchange service for price ticks
    */
   async initialize(
     messageCacheService: MessageCacheService,
     playtimeManagerService: PlaytimeManagerService,
+    exchangeService: ExchangeService,
   ): Promise<void> {
     if (this.isInitialized) {
       logger.warn("WebSocketService already initialized");
@@ -88,7 +93,11 @@ export class WebSocketService {
       playtimeManagerService,
     );
 
-    this.connectToServices(messageCacheService, playtimeManagerService);
+    this.connectToServices(
+      messageCacheService,
+      playtimeManagerService,
+      exchangeService,
+    );
 
     this.isInitialized = true;
     logger.info("WebSocketService initialized");
@@ -165,7 +174,8 @@ export class WebSocketService {
         request.serverId === undefined &&
         request.type !== SubscriptionType.SERVER_STATUS &&
         request.type !== SubscriptionType.PLAYERS &&
-        request.type !== SubscriptionType.MESSAGES
+        request.type !== SubscriptionType.MESSAGES &&
+        request.type !== SubscriptionType.EXCHANGE
       ) {
         throw new Error(`Server ID required for ${request.type} subscription`);
       }
@@ -348,12 +358,14 @@ export class WebSocketService {
    *
    * @param messageCacheService - Message cache service
    * @param playtimeManagerService - Playtime manager service
+   * @param exchangeService - Exchange service
    *
    * @private
    */
   private connectToServices(
     messageCacheService: MessageCacheService,
     playtimeManagerService: PlaytimeManagerService,
+    exchangeService: ExchangeService,
   ): void {
     // Message cache events
     messageCacheService.on("messageCreate", (serverId, message) => {
@@ -368,19 +380,19 @@ export class WebSocketService {
       this.broadcastMessageUpdate(serverId, "delete", undefined, messageId);
     });
 
-    messageCacheService.on("serverStarted", (serverId) => {
-      this.broadcastServerStatusUpdate(serverId, true);
-    });
-
-    messageCacheService.on("serverClosed", (serverId) => {
-      this.broadcastServerStatusUpdate(serverId, false);
-    });
-
     // Playtime service events
     for (const [
       serverId,
       playtimeService,
     ] of playtimeManagerService.getAllServices()) {
+      playtimeService.on("serverOnline", () => {
+        this.broadcastServerStatusUpdate(serverId, true);
+      });
+
+      playtimeService.on("serverOffline", () => {
+        this.broadcastServerStatusUpdate(serverId, false);
+      });
+
       playtimeService.on("sessionStart", (event: SessionStartEvent) => {
         this.broadcastPlayerJoin(serverId, event);
       });
@@ -390,6 +402,11 @@ export class WebSocketService {
       });
     }
 
+    // Exchange events
+    exchangeService.on("priceTick", (payload) => {
+      this.broadcastExchangePrices(payload);
+    });
+
     logger.debug("Connected to external services");
   }
 
@@ -555,6 +572,21 @@ export class WebSocketService {
     );
   }
 
+  /**
+   * Broadcast exchange price tick
+   *
+   * @param payload - New price of every asset that moved
+   *
+   * @private
+   */
+  private broadcastExchangePrices(payload: ExchangePricesUpdatePayload): void {
+    this.io
+      .to(RoomManager.getExchangeRoom())
+      .emit(SocketEvent.UPDATE_EXCHANGE_PRICES, payload);
+
+    logger.debug(`Broadcast exchange prices: ${payload.prices.length} assets`);
+  }
+
   /**
    * Get service statistics
    */
@@ -565,6 +597,7 @@ export class WebSocketService {
       [SubscriptionType.SERVER_STATUS]: 0,
       [SubscriptionType.PLAYERS]: 0,
       [SubscriptionType.MESSAGES]: 0,
+      [SubscriptionType.EXCHANGE]: 0,
     };
 
     // Count clients in each room
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Request, Response } from "express";
+
+const { tx, db, Q, balanceRepo } = vi.hoisted(() => {
+  const tx = {
+    economy: {
+      request: {
+        claimKey: vi.fn(),
+        complete: vi.fn(),
+      },
+    },
+  };
+
+  return {
+    tx,
+    db: { inTransaction: vi.fn(async (callback) => await callback(tx)) },
+    Q: {
+      player: {
+        find: vi.fn(async () => ({ minecraftUsername: "Steve" })),
+        balance: { find: vi.fn(async () => ({ balance: 100_000n })) },
+      },
+    },
+    balanceRepo: {
+      add: vi.fn(),
+      deduct: vi.fn(),
+      transfer: vi.fn(),
+    },
+  };
+});
+
+vi.mock("@/db", () => ({ db, Q, balanceRepo }));
+vi.mock("@/services", () => ({ getService: vi.fn(), Services: {} }));
+vi.mock("@/app/middleware", () => import("@/app/middleware/error-handler"));
+
+import {
+  BadRequestError,
+  ConflictError,
+  InternalServerError,
+} from "@/app/middleware/error-handler";
+import { EconomyController } from "@/app/features/economy/economy.controller";
+
+const STEVE = "550e8400-e29b-41d4-a716-446655440000";
+const ALEX = "6ba7b810-9dad-11d1-80b4-00c04fd430c8";
+
+function request(body: Record<string, unknown>, key = "key-1"): Request {
+  return {
+    body,
+    get: (header: string) =>
+      header.toLowerCase() === "idempotency-key" ? key : undefined,
+  } as unknown as Request;
+}
+
+function response() {
+  const res = { json: vi.fn() };
+  return res as typeof res & Response;
+}
+
+const depositFingerprint = JSON.stringify({
+  operation: "deposit",
+  uuid: STEVE,
+  amount: 5,
+});
+
+describe("EconomyController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("idempotency", () => {
+    it("should claim, apply and complete the request in one transaction", async () => {
+      tx.economy.request.claimKey.mockResolvedValue({ claimed: true });
+      balanceRepo.add.mockResolvedValue(105);
+      const res = response();
+
+      await EconomyController.deposit(request({ uuid: STEVE, amount: 5 }), res);
+
+      expect(db.inTransaction).toHaveBeenCalledTimes(1);
+      expect(tx.economy.request.claimKey).toHaveBeenCalledWith(
+        expect.objectContaining({
+          idempotencyKey: "key-1",
+          requestFingerprint: depositFingerprint,
+        }),
+        expect.any(Number),
+      );
+      expect(balanceRepo.add).toHaveBeenCalledWith(
+        STEVE,
+        5,
+        "In-game deposit",
+        "deposit",
+        { source: "mod", idempotencyKey: "key-1" },
+        tx,
+      );
+      expect(tx.economy.request.complete).toHaveBeenCalledWith(
+        "key-1",
+        expect.objectContaining({ balance: "105.000" }),
+      );
+      expect(res.json.mock.calls[0][0].data).toMatchObject({
+        balance: "105.000",
+        replayed: false,
+      });
+    });
+
+    it("should replay a completed request without applying it again", async () => {
+      const stored = {
+        uuid: STEVE,
+        transactionType: "deposit",
+        amount: "5.000",
+        balance: "105.000",
+        idempotencyKey: "key-1",
+      };
+      tx.economy.request.claimKey.mockResolvedValue({
+        claimed: false,
+        existing: {
+          requestFingerprint: depositFingerprint,
+          status: "completed",
+          response: stored,
+        },
+      });
+      const res = response();
+
+      await EconomyController.deposit(request({ uuid: STEVE, amount: 5 }), res);
+
+      expect(balanceRepo.add).not.toHaveBeenCalled();
+      expect(tx.economy.request.complete).not.toHaveBeenCalled();
+      expect(res.json.mock.calls[0][0].data).toEqual({
+        ...stored,
+        replayed: true,
+      });
+    });
+
+    it("should reject a key reused for a different request", async () => {
+      tx.economy.request.claimKey.mockResolvedValue({
+        claimed: false,
+        existing: {
+          requestFingerprint: depositFingerprint,
+          status: "completed",
+          response: {},
+        },
+      });
+
+      await expect(
+        EconomyController.deposit(
+          request({ uuid: STEVE, amount: 6 }),
+          response(),
+        ),
+      ).rejects.toThrow(ConflictError);
+      expect(balanceRepo.add).not.toHaveBeenCalled();
+    });
+
+    it("should reject a key that is still being processed", async () => {
+      tx.economy.request.claimKey.mockResolvedValue({
+        claimed: false,
+        existing: {
+          requestFingerprint: depositFingerprint,
+          status: "pending",
+          response: null,
+        },
+      });
+
+      await expect(
+        EconomyController.deposit(
+          request({ uuid: STEVE, amount: 5 }),
+          response(),
+        ),
+      ).rejects.toThrow("still being processed");
+    });
+
+    it("should fail without completing the key when the balance is too low", async () => {
+      tx.economy.request.claimKey.mockResolvedValue({ claimed: true });
+      balanceRepo.deduct.mockRejectedValue(
+        new Error("Insufficient balance: has 1.000, needs 5.000"),
+      );
+
+      await expect(
+        EconomyController.withdraw(
+          request({ uuid: STEVE, amount: 5 }),
+          response(),
+        ),
+      ).rejects.toThrow(BadRequestError);
+      expect(tx.economy.request.complete).not.toHaveBeenCalled();
+    });
+
+    it("should report other failures as a retryable server error", async () => {
+      tx.economy.request.claimKey.mockResolvedValue({ claimed: true });
+      balanceRepo.add.mockResolvedValue(105);
+      tx.economy.request.complete.mockRejectedValueOnce(
+        new Error("connection terminated"),
+      );
+
+      await expect(
+        EconomyController.deposit(
+          request({ uuid: STEVE, amount: 5 }),
+          response(),
+        ),
+      ).rejects.toThrow(InternalServerError);
+    });
+  });
+
+  describe("transfer", () => {
+    it("should return the fee charged to the sender", async () => {
+      tx.economy.request.claimKey.mockResolvedValue({ claimed: true });
+      balanceRepo.transfer.mockResolvedValue({
+        senderBalance: 49,
+        recipientBalance: 50,
+        fee: 1,
+      });
+      const res = response();
+
+      await EconomyController.transfer(
+        request({ fromUuid: STEVE, toUuid: ALEX, amount: 50 }),
+        res,
+      );
+
+      expect(balanceRepo.transfer).toHaveBeenCalledWith(
+        STEVE,
+        ALEX,
+        50,
+        undefined,
+        { source: "mod", idempotencyKey: "key-1" },
+        tx,
+      );
+      expect(res.json.mock.calls[0][0].data).toMatchObject({
+        amount: "50.000",
+        fee: "1.000",
+        senderBalance: "49.000",
+        replayed: false,
+      });
+      expect(tx.economy.request.complete).toHaveBeenCalledWith(
+        "key-1",
+        expect.objectContaining({ fee: "1.000" }),
+      );
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Request, Response } from "express";
+
+const { playtimeService } = vi.hoisted(() => ({
+  playtimeService: {
+    handleHeartbeat: vi.fn(),
+    handlePresenceSync: vi.fn(() => ({ started: [], ended: [], unchanged: 0 })),
+  },
+}));
+
+vi.mock("@/services", () => ({
+  Services: {},
+  getService: vi.fn(async () => ({ getService: () => playtimeService })),
+}));
+vi.mock("@/services/playtime", () => ({}));
+vi.mock("@/services/playtime/config", () => ({
+  HEARTBEAT_CONFIG: { intervalMs: 15_000 },
+  getServerByIp: vi.fn(),
+}));
+vi.mock("@/app/middleware", () => import("@/app/middleware/error-handler"));
+
+import { BadRequestError } from "@/app/middleware/error-handler";
+import { PresenceController } from "@/app/features/presence/presence.controller";
+
+const STEVE = {
+  uuid: "550e8400-e29b-41d4-a716-446655440000",
+  username: "Steve",
+};
+
+function request(body: Record<string, unknown>): Request {
+  return { body: { serverId: "1", ...body } } as unknown as Request;
+}
+
+function response() {
+  const res = { json: vi.fn() };
+  return res as typeof res & Response;
+}
+
+describe("PresenceController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("heartbeat", () => {
+    it("should reject an invalid timestamp", async () => {
+      await expect(
+        PresenceController.heartbeat(
+          request({ players: [STEVE], timestamp: "yesterday" }),
+          response(),
+        ),
+      ).rejects.toThrow(BadRequestError);
+      expect(playtimeService.handleHeartbeat).not.toHaveBeenCalled();
+    });
+
+    it("should pass a valid timestamp on to the service", async () => {
+      const timestamp = Date.parse("2025-01-01T12:00:00Z");
+
+      await PresenceController.heartbeat(
+        request({ players: [STEVE], timestamp }),
+        response(),
+      );
+
+      expect(playtimeService.handleHeartbeat).toHaveBeenCalledWith(
+        expect.objectContaining({ timestamp: new Date(timestamp) }),
+      );
+    });
+  });
+
+  describe("syncPresence", () => {
+    it("should reject an invalid timestamp", async () => {
+      await expect(
+        PresenceController.syncPresence(
+          request({ players: [STEVE], timestamp: { at: 1 } }),
+          response(),
+        ),
+      ).rejects.toThrow("timestamp must be a valid timestamp");
+      expect(playtimeService.handlePresenceSync).not.toHaveBeenCalled();
+    });
+
+    it("should reject an invalid join time", async () => {
+      await expect(
+        PresenceController.syncPresence(
+          request({ players: [{ ...STEVE, joinedAt: "soon" }] }),
+          response(),
+        ),
+      ).rejects.toThrow("joinedAt must be a valid timestamp");
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import type { PlayerBalanceTransaction } from "@/generated/db";
+import {
+  buildReversalPlan,
+  type ReversalSide,
+} from "@/db/repositories/balance/reversal";
+
+function transaction(
+  id: number,
+  amount: bigint,
+  reversedTransactionId: number | null = null,
+): PlayerBalanceTransaction {
+  return {
+    id,
+    playerMinecraftUuid: `player-${id}`,
+    amount,
+    balanceBefore: 0n,
+    balanceAfter: amount,
+    transactionType: reversedTransactionId ? "refund" : "transfer_send",
+    description: null,
+    relatedPlayerUuid: null,
+    metadata: {},
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+    reversedTransactionId,
+  };
+}
+
+function side(
+  entry: PlayerBalanceTransaction,
+  balance: bigint,
+  reversals: PlayerBalanceTransaction[] = [],
+): ReversalSide {
+  return { transaction: entry, playerUsername: "Steve", balance, reversals };
+}
+
+describe("Transaction reversal", () => {
+  describe("buildReversalPlan", () => {
+    it("should refund a debit and take back a credit", () => {
+      const plan = buildReversalPlan([
+        side(transaction(1, -500n), 1_000n),
+        side(transaction(2, 500n), 800n),
+      ]);
+
+      expect(
+        plan.map(({ balanceBefore, balanceAfter, shortfall }) => [
+          balanceBefore,
+          balanceAfter,
+          shortfall,
+        ]),
+      ).toEqual([
+        [1_000n, 1_500n, 0n],
+        [800n, 300n, 0n],
+      ]);
+    });
+
+    it("should stop at zero and report the shortfall", () => {
+      const [credit] = buildReversalPlan([side(transaction(2, 500n), 200n)]);
+
+      expect(credit.balanceAfter).toBe(0n);
+      expect(credit.shortfall).toBe(300n);
+    });
+
+    it("should refuse to reverse a transaction twice", () => {
+      const send = transaction(1, -500n);
+      const [first] = buildReversalPlan([side(send, 1_000n)]);
+      const refund = transaction(
+        3,
+        first.balanceAfter - first.balanceBefore,
+        1,
+      );
+
+      expect(() =>
+        buildReversalPlan([side(send, first.balanceAfter, [refund])]),
+      ).toThrow("Transaction #1 was already reversed by refund #3");
+    });
+
+    it("should refuse when only the counterpart was reversed", () => {
+      expect(() =>
+        buildReversalPlan([
+          side(transaction(1, -500n), 1_000n),
+          side(transaction(2, 500n), 800n, [transaction(3, -500n, 2)]),
+        ]),
+      ).toThrow("Transaction #2 was already reversed");
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { BalanceUtils } from "@/db/repositories/balance/utils";
+
+const fee = { percent: 2, min: 0.1, max: 100 };
+
+describe("BalanceUtils", () => {
+  describe("calculateFee", () => {
+    it("should charge the configured percentage", () => {
+      expect(BalanceUtils.calculateFee(50_000n, fee)).toBe(1_000n);
+    });
+
+    it("should round to the nearest storage unit", () => {
+      expect(BalanceUtils.calculateFee(12_345n, fee)).toBe(247n);
+    });
+
+    it("should apply the minimum fee to small amounts", () => {
+      expect(BalanceUtils.calculateFee(1_000n, fee)).toBe(100n);
+    });
+
+    it("should cap the fee at the maximum", () => {
+      expect(BalanceUtils.calculateFee(10_000_000n, fee)).toBe(100_000n);
+    });
+
+    it("should not charge a fee when the percentage is zero", () => {
+      expect(
+        BalanceUtils.calculateFee(50_000n, { ...fee, percent: 0 }),
+      ).toBe(0n);
+    });
+  });
+});
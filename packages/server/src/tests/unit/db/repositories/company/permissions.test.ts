@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  canManageRole,
+  CompanyPermission,
+  CompanyRole,
+  hasCompanyPermission,
+} from "@/db/repositories/company/permissions";
+
+describe("company permissions", () => {
+  describe("hasCompanyPermission", () => {
+    it("should grant the owner every permission", () => {
+      for (const permission of Object.values(CompanyPermission)) {
+        expect(hasCompanyPermission(CompanyRole.OWNER, permission)).toBe(true);
+      }
+    });
+
+    it("should let managers withdraw but not set roles", () => {
+      expect(
+        hasCompanyPermission(CompanyRole.MANAGER, CompanyPermission.WITHDRAW),
+      ).toBe(true);
+      expect(
+        hasCompanyPermission(CompanyRole.MANAGER, CompanyPermission.SET_ROLES),
+      ).toBe(false);
+    });
+
+    it("should only let employees deposit", () => {
+      expect(
+        hasCompanyPermission(CompanyRole.EMPLOYEE, CompanyPermission.DEPOSIT),
+      ).toBe(true);
+      expect(
+        hasCompanyPermission(CompanyRole.EMPLOYEE, CompanyPermission.WITHDRAW),
+      ).toBe(false);
+    });
+
+    it("should deny unknown roles", () => {
+      expect(hasCompanyPermission("intern", CompanyPermission.DEPOSIT)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("canManageRole", () => {
+    it("should let the owner manage managers and employees", () => {
+      expect(canManageRole(CompanyRole.OWNER, CompanyRole.MANAGER)).toBe(true);
+      expect(canManageRole(CompanyRole.OWNER, CompanyRole.EMPLOYEE)).toBe(true);
+    });
+
+    it("should let managers manage employees only", () => {
+      expect(canManageRole(CompanyRole.MANAGER, CompanyRole.EMPLOYEE)).toBe(
+        true,
+      );
+      expect(canManageRole(CompanyRole.MANAGER, CompanyRole.MANAGER)).toBe(
+        false,
+      );
+    });
+
+    it("should never allow managing the owner", () => {
+      expect(canManageRole(CompanyRole.OWNER, CompanyRole.OWNER)).toBe(false);
+      expect(canManageRole(CompanyRole.MANAGER, CompanyRole.OWNER)).toBe(false);
+    });
+
+    it("should not let employees manage anyone", () => {
+      expect(canManageRole(CompanyRole.EMPLOYEE, CompanyRole.EMPLOYEE)).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { tx, db } = vi.hoisted(() => {
+  const tx = {
+    player: {
+      session: {
+        lockSession: vi.fn(),
+        endOpenSession: vi.fn(async () => true),
+        delete: vi.fn(),
+        rebuildPlaytimeAggregates: vi.fn(),
+        afk: { create: vi.fn() },
+        dimension: { create: vi.fn() },
+        flag: { resolve: vi.fn(async () => true) },
+      },
+    },
+    admin: { log: { action: { logAction: vi.fn() } } },
+  };
+
+  return {
+    tx,
+    db: { inTransaction: vi.fn(async (callback) => await callback(tx)) },
+  };
+});
+
+vi.mock("@/db", () => ({ default: {}, db, Q: {} }));
+vi.mock("@/services/playtime", () => ({}));
+
+import { PlaytimeRepository } from "@/db/repositories/playtime";
+import type { FlaggedSession } from "@/db/queries/player/session/flag";
+import type { SessionEndEvent } from "@/services/playtime";
+
+const repository = new PlaytimeRepository();
+const admin = { discordId: "1", discordUsername: "admin" };
+
+const openFlag: FlaggedSession = {
+  flagId: 3,
+  reason: "long",
+  sessionId: 10,
+  minecraftUuid: "550e8400-e29b-41d4-a716-446655440000",
+  minecraftUsername: "Steve",
+  serverId: 1,
+  sessionStart: new Date("2025-01-01T00:00:00Z"),
+  sessionEnd: null,
+  relatedSessionId: null,
+  relatedServerId: null,
+  relatedSessionStart: null,
+  lastAfkStart: null,
+  nextSessionStart: null,
+  resolvedAt: null,
+  resolution: null,
+  discordMessageId: null,
+};
+
+const endEvent: SessionEndEvent = {
+  sessionId: 10,
+  uuid: openFlag.minecraftUuid,
+  username: "Steve",
+  serverId: 1,
+  sessionStart: new Date("2025-01-01T00:00:00Z"),
+  sessionEnd: new Date("2025-01-01T20:00:00Z"),
+  secondsPlayed: 70_000,
+  afkSeconds: 2_000,
+  afkIntervals: [
+    {
+      start: new Date("2025-01-01T10:00:00Z"),
+      end: new Date("2025-01-01T10:30:00Z"),
+    },
+  ],
+  dimensionIntervals: [],
+};
+
+describe("PlaytimeRepository session edits", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("flagged sessions", () => {
+    it("should refuse to delete a flagged session that is still open", async () => {
+      tx.player.session.lockSession.mockResolvedValue(null);
+
+      await expect(
+        repository.deleteFlaggedSession(openFlag, admin),
+      ).rejects.toThrow("still open");
+      expect(tx.player.session.flag.resolve).not.toHaveBeenCalled();
+      expect(tx.player.session.delete).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to truncate a flagged session that is still open", async () => {
+      tx.player.session.lockSession.mockResolvedValue(null);
+
+      await expect(
+        repository.truncateFlaggedSession(
+          openFlag,
+          new Date("2025-01-01T12:00:00Z"),
+          admin,
+        ),
+      ).rejects.toThrow("still open");
+      expect(
+        tx.player.session.rebuildPlaytimeAggregates,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should delete a flagged session once it has ended", async () => {
+      tx.player.session.lockSession.mockResolvedValue(
+        new Date("2025-01-01T20:00:00Z"),
+      );
+
+      await expect(
+        repository.deleteFlaggedSession(openFlag, admin),
+      ).resolves.toBe(true);
+      expect(tx.player.session.delete).toHaveBeenCalledWith({ id: 10 });
+      expect(tx.player.session.rebuildPlaytimeAggregates).toHaveBeenCalled();
+    });
+  });
+
+  describe("endSession", () => {
+    it("should leave a session an admin already ended unchanged", async () => {
+      tx.player.session.lockSession.mockResolvedValue(
+        new Date("2025-01-01T12:00:00Z"),
+      );
+
+      await repository.endSession(endEvent);
+
+      expect(tx.player.session.afk.create).not.toHaveBeenCalled();
+      expect(tx.player.session.endOpenSession).not.toHaveBeenCalled();
+    });
+
+    it("should skip a session that was deleted", async () => {
+      tx.player.session.lockSession.mockResolvedValue(undefined);
+
+      await repository.endSession(endEvent);
+
+      expect(tx.player.session.afk.create).not.toHaveBeenCalled();
+      expect(tx.player.session.endOpenSession).not.toHaveBeenCalled();
+    });
+
+    it("should store AFK intervals and end an open session", async () => {
+      tx.player.session.lockSession.mockResolvedValue(null);
+
+      await repository.endSession(endEvent);
+
+      expect(tx.player.session.afk.create).toHaveBeenCalledTimes(1);
+      expect(tx.player.session.endOpenSession).toHaveBeenCalledWith(
+        10,
+        endEvent.sessionEnd,
+        2_000,
+      );
+    });
+  });
+});
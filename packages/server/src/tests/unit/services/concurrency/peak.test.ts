@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  getNextPeakReportTime,
+  getPeakReportRange,
+  isPeakRecord,
+} from "@/services/concurrency/peak";
+
+const at = (iso: string) => new Date(iso);
+
+describe("Server concurrency peaks", () => {
+  describe("getPeakReportRange", () => {
+    it("should return the previous UTC day", () => {
+      expect(getPeakReportRange(at("2025-03-01T00:05:00Z"))).toEqual({
+        start: at("2025-02-28T00:00:00Z"),
+        end: at("2025-03-01T00:00:00Z"),
+      });
+    });
+  });
+
+  describe("getNextPeakReportTime", () => {
+    it("should post later today or tomorrow", () => {
+      expect(getNextPeakReportTime(at("2025-01-13T08:00:00Z"), 12)).toEqual(
+        at("2025-01-13T12:00:00Z"),
+      );
+
+      expect(getNextPeakReportTime(at("2025-01-13T12:00:00Z"), 12)).toEqual(
+        at("2025-01-14T12:00:00Z"),
+      );
+    });
+  });
+
+  describe("isPeakRecord", () => {
+    const peak = (peakPlayers: number) => ({
+      peakPlayers,
+      peakAt: at("2025-01-01T20:00:00Z"),
+    });
+
+    it("should only count peaks above the previous best", () => {
+      expect(isPeakRecord(peak(12), peak(10))).toBe(true);
+      expect(isPeakRecord(peak(10), peak(10))).toBe(false);
+      expect(isPeakRecord(null, peak(10))).toBe(false);
+    });
+
+    it("should count the first non-empty peak as a record", () => {
+      expect(isPeakRecord(peak(3), null)).toBe(true);
+      expect(isPeakRecord(peak(0), null)).toBe(false);
+    });
+  });
+});
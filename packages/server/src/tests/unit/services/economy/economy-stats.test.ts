@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from "vitest";
+
+const { Q } = vi.hoisted(() => ({
+  Q: {
+    player: {
+      balance: {
+        getAllBalances: vi.fn(async () => [1_000n, 3_000n]),
+        transaction: {
+          getDailyTotalsByType: vi.fn(async () => [
+            {
+              date: "2025-01-01",
+              transactionType: "reward",
+              total: 500n,
+              count: 1,
+            },
+            {
+              date: "2025-01-01",
+              transactionType: "exchange_buy",
+              total: -200n,
+              count: 1,
+            },
+            {
+              date: "2025-01-01",
+              transactionType: "transfer_fee",
+              total: -10n,
+              count: 1,
+            },
+          ]),
+        },
+      },
+    },
+    economy: { treasury: { getTotalBalance: vi.fn(async () => 10n) } },
+    company: { getTotalBalance: vi.fn(async () => 6_000n) },
+  },
+}));
+
+vi.mock("@/db", () => ({ Q }));
+vi.mock("@/discord/constants", () => ({
+  Discord: { Channels: { administration: { NOTIFICATIONS: "channel" } } },
+}));
+vi.mock("@/discord/embeds", () => ({ EmbedPresets: {} }));
+
+import { BalanceTransactionType } from "@/db/repositories/balance";
+import {
+  CIRCULATION_TYPES,
+  ISSUANCE_SOURCE_TYPES,
+} from "@/services/economy/config";
+import { EconomyStatsService } from "@/services/economy/economy-stats.service";
+import { IssuanceSource } from "@/services/economy/types";
+
+describe("Economy statistics", () => {
+  describe("transaction classification", () => {
+    it("should classify every transaction type exactly once", () => {
+      const classified = [
+        ...Object.values(ISSUANCE_SOURCE_TYPES).flat(),
+        ...CIRCULATION_TYPES,
+      ];
+
+      expect([...classified].sort()).toEqual(
+        Object.values(BalanceTransactionType).sort(),
+      );
+    });
+  });
+
+  describe("getStats", () => {
+    it("should count treasury and company balances in the money supply", async () => {
+      const stats = await new EconomyStatsService().getStats(7);
+
+      expect(stats.moneySupply).toBe(10_010n);
+      expect(stats.supplyByHolder).toEqual({
+        players: 4_000n,
+        treasury: 10n,
+        companies: 6_000n,
+      });
+      expect(stats.averageBalance).toBe(2_000n);
+    });
+
+    it("should report exchange trades as issuance and fees as circulation", async () => {
+      const stats = await new EconomyStatsService().getStats(7);
+
+      expect(stats.issuance.bySource[IssuanceSource.REWARDS]).toBe(500n);
+      expect(stats.issuance.bySource[IssuanceSource.EXCHANGE]).toBe(-200n);
+      expect(stats.issuance.total).toBe(300n);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { replayLedger } from "@/services/economy/reconciliation";
+import { type LedgerEntry, LedgerIssueType } from "@/services/economy/types";
+
+function entry(
+  id: number,
+  balanceBefore: bigint,
+  amount: bigint,
+  balanceAfter: bigint = balanceBefore + amount,
+  transactionType: string = "reward",
+): LedgerEntry {
+  return { id, amount, balanceBefore, balanceAfter, transactionType };
+}
+
+const CHECKPOINT = "reconciliation";
+
+describe("Ledger reconciliation", () => {
+  describe("replayLedger", () => {
+    it("should find no issues in a consistent chain", () => {
+      const entries = [
+        entry(1, 0n, 1000n),
+        entry(2, 1000n, -250n),
+        entry(3, 750n, 0n),
+      ];
+
+      expect(replayLedger(entries, 750n, CHECKPOINT)).toEqual([]);
+    });
+
+    it("should expect an empty account to have a zero balance", () => {
+      expect(replayLedger([], 0n, CHECKPOINT)).toEqual([]);
+      expect(replayLedger([], 500n, CHECKPOINT)).toEqual([
+        { type: LedgerIssueType.BALANCE_DRIFT, expected: 0n, actual: 500n },
+      ]);
+    });
+
+    it("should report a gap between consecutive entries", () => {
+      const entries = [entry(1, 0n, 1000n), entry(2, 1200n, 100n)];
+
+      expect(replayLedger(entries, 1300n, CHECKPOINT)).toEqual([
+        {
+          type: LedgerIssueType.CHAIN_GAP,
+          transactionId: 2,
+          expected: 1000n,
+          actual: 1200n,
+        },
+      ]);
+    });
+
+    it("should report a chain that does not start at zero", () => {
+      const issues = replayLedger([entry(1, 300n, 100n)], 400n, CHECKPOINT);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].type).toBe(LedgerIssueType.CHAIN_GAP);
+    });
+
+    it("should report an entry whose amount does not add up", () => {
+      const entries = [entry(1, 0n, 1000n, 900n)];
+
+      expect(replayLedger(entries, 900n, CHECKPOINT)).toEqual([
+        {
+          type: LedgerIssueType.AMOUNT_MISMATCH,
+          transactionId: 1,
+          expected: 1000n,
+          actual: 900n,
+        },
+      ]);
+    });
+
+    it("should report a balance that differs from the last entry", () => {
+      const entries = [entry(1, 0n, 1000n)];
+
+      expect(replayLedger(entries, 5000n, CHECKPOINT)).toEqual([
+        { type: LedgerIssueType.BALANCE_DRIFT, expected: 1000n, actual: 5000n },
+      ]);
+    });
+
+    it("should restart the replay at the latest reconciliation entry", () => {
+      const entries = [
+        entry(1, 0n, 1000n),
+        entry(2, 4000n, 100n),
+        entry(3, 1000n, 4100n, 5100n, CHECKPOINT),
+        entry(4, 5100n, -100n),
+      ];
+
+      expect(replayLedger(entries, 5000n, CHECKPOINT)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateGini,
+  calculateMedian,
+  calculateTopShare,
+} from "@/services/economy/stats";
+
+describe("Economy stats", () => {
+  describe("calculateGini", () => {
+    it("should return 0 for an empty or zero supply", () => {
+      expect(calculateGini([])).toBe(0);
+      expect(calculateGini([0, 0, 0])).toBe(0);
+    });
+
+    it("should return 0 for perfectly equal balances", () => {
+      expect(calculateGini([10, 10, 10, 10])).toBeCloseTo(0);
+    });
+
+    it("should approach 1 when one account holds everything", () => {
+      expect(calculateGini([0, 0, 0, 100])).toBeCloseTo(0.75);
+    });
+
+    it("should not depend on input order", () => {
+      expect(calculateGini([5, 1, 3])).toBeCloseTo(calculateGini([1, 3, 5]));
+    });
+  });
+
+  describe("calculateTopShare", () => {
+    it("should return 0 for an empty or zero supply", () => {
+      expect(calculateTopShare([])).toBe(0);
+      expect(calculateTopShare([0, 0])).toBe(0);
+    });
+
+    it("should include at least one account", () => {
+      expect(calculateTopShare([10, 30], 0.1)).toBeCloseTo(0.75);
+    });
+
+    it("should sum the richest fraction of accounts", () => {
+      const balances = [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 10, 30];
+      expect(calculateTopShare(balances, 0.1)).toBeCloseTo(40 / 50);
+    });
+  });
+
+  describe("calculateMedian", () => {
+    it("should return 0 for no balances", () => {
+      expect(calculateMedian([])).toBe(0n);
+    });
+
+    it("should return the middle balance for an odd count", () => {
+      expect(calculateMedian([30n, 10n, 20n])).toBe(20n);
+    });
+
+    it("should average the two middle balances for an even count", () => {
+      expect(calculateMedian([40n, 10n, 30n, 20n])).toBe(25n);
+      expect(calculateMedian([1n, 2n])).toBe(1n);
+    });
+  });
+});
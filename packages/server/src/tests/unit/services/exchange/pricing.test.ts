@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateNextPrice,
+  createSeededRandom,
+  getTickNumber,
+} from "@/services/exchange/pricing";
+import type { ExchangeAssetConfig } from "@/services/exchange/types";
+
+const asset: ExchangeAssetConfig = {
+  symbol: "BRASS",
+  name: "Brass Ingot",
+  basePrice: 15,
+  volatility: 0.02,
+  meanReversion: 0.05,
+  minPrice: 1,
+};
+
+describe("Exchange pricing", () => {
+  describe("createSeededRandom", () => {
+    it("should produce the same sequence for the same seed", () => {
+      const a = createSeededRandom("seed");
+      const b = createSeededRandom("seed");
+
+      for (let i = 0; i < 10; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    it("should produce different sequences for different seeds", () => {
+      expect(createSeededRandom("seed:1")()).not.toBe(
+        createSeededRandom("seed:2")(),
+      );
+    });
+
+    it("should return numbers in [0, 1)", () => {
+      const random = createSeededRandom("range");
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe("getTickNumber", () => {
+    it("should group timestamps into ticks", () => {
+      expect(getTickNumber(0, 60_000)).toBe(0);
+      expect(getTickNumber(59_999, 60_000)).toBe(0);
+      expect(getTickNumber(60_000, 60_000)).toBe(1);
+    });
+  });
+
+  describe("calculateNextPrice", () => {
+    it("should be deterministic for the same price, seed and tick", () => {
+      expect(calculateNextPrice(15, asset, "test", 42)).toBe(
+        calculateNextPrice(15, asset, "test", 42),
+      );
+    });
+
+    it("should round to 3 decimals", () => {
+      const price = calculateNextPrice(15, asset, "test", 7);
+      expect(Math.round(price * 1000) / 1000).toBe(price);
+    });
+
+    it("should never go below the price floor", () => {
+      const volatile = { ...asset, volatility: 5, minPrice: 2 };
+
+      for (let tick = 0; tick < 200; tick++) {
+        expect(
+          calculateNextPrice(2, volatile, "floor", tick),
+        ).toBeGreaterThanOrEqual(2);
+      }
+    });
+
+    it("should pull prices back towards the base price", () => {
+      const calm = { ...asset, volatility: 0, meanReversion: 0.5 };
+
+      expect(calculateNextPrice(60, calm, "test", 1)).toBeLessThan(60);
+      expect(calculateNextPrice(5, calm, "test", 1)).toBeGreaterThan(5);
+      expect(calculateNextPrice(15, calm, "test", 1)).toBe(15);
+    });
+
+    it("should stay near the base price over many ticks", () => {
+      let price = asset.basePrice;
+
+      for (let tick = 0; tick < 5000; tick++) {
+        price = calculateNextPrice(price, asset, "walk", tick);
+      }
+
+      expect(price).toBeGreaterThan(asset.basePrice / 2);
+      expect(price).toBeLessThan(asset.basePrice * 2);
+    });
+  });
+});
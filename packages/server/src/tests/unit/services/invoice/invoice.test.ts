@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { tx, db, Q, balanceRepo, Discord } = vi.hoisted(() => {
+  const tx = {
+    economy: { invoice: { resolvePending: vi.fn() } },
+  };
+
+  return {
+    tx,
+    db: { inTransaction: vi.fn(async (callback) => await callback(tx)) },
+    Q: { economy: { invoice: { findWithPlayers: vi.fn() } } },
+    balanceRepo: { transfer: vi.fn() },
+    Discord: { Messages: { edit: vi.fn() } },
+  };
+});
+
+vi.mock("@/db", () => ({ db, Q, balanceRepo }));
+vi.mock("@/discord/constants", () => ({ Discord }));
+vi.mock("@/discord/embeds", () => ({
+  EmbedPresets: { invoice: { invoice: () => ({ build: () => [] }) } },
+}));
+
+import { InvoiceService } from "@/services/invoice/invoice.service";
+import { InvoiceStatus } from "@/services/invoice/types";
+
+const service = new InvoiceService();
+
+function invoice(status: InvoiceStatus) {
+  return {
+    id: 3,
+    issuerMinecraftUuid: "issuer",
+    payerMinecraftUuid: "payer",
+    amount: 50_000n,
+    note: null,
+    status,
+    discordChannelId: "channel",
+    discordMessageId: "message",
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    resolvedAt: null,
+    issuerUsername: "Steve",
+    payerUsername: "Alex",
+  };
+}
+
+describe("InvoiceService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("pay", () => {
+    it("should mark the invoice paid and transfer in one transaction", async () => {
+      const paid = invoice(InvoiceStatus.PAID);
+      Q.economy.invoice.findWithPlayers
+        .mockResolvedValueOnce(invoice(InvoiceStatus.PENDING))
+        .mockResolvedValueOnce(paid);
+      tx.economy.invoice.resolvePending.mockResolvedValue(paid);
+      balanceRepo.transfer.mockResolvedValue({
+        senderBalance: 49,
+        recipientBalance: 50,
+        fee: 1,
+      });
+      Discord.Messages.edit.mockResolvedValue({ success: true });
+
+      const result = await service.pay(3, "payer");
+
+      expect(result).toEqual({ invoice: paid, fee: 1 });
+      expect(db.inTransaction).toHaveBeenCalledTimes(1);
+      expect(tx.economy.invoice.resolvePending).toHaveBeenCalledWith(
+        3,
+        InvoiceStatus.PAID,
+      );
+      expect(balanceRepo.transfer).toHaveBeenCalledWith(
+        "payer",
+        "issuer",
+        50,
+        "Invoice #3",
+        { invoiceId: 3 },
+        tx,
+      );
+      expect(Discord.Messages.edit).toHaveBeenCalledTimes(1);
+    });
+
+    it("should propagate a failed transfer so the invoice stays pending", async () => {
+      Q.economy.invoice.findWithPlayers.mockResolvedValue(
+        invoice(InvoiceStatus.PENDING),
+      );
+      tx.economy.invoice.resolvePending.mockResolvedValue(
+        invoice(InvoiceStatus.PAID),
+      );
+      balanceRepo.transfer.mockRejectedValueOnce(
+        new Error("Insufficient balance"),
+      );
+
+      await expect(service.pay(3, "payer")).rejects.toThrow(
+        "Insufficient balance",
+      );
+      expect(Discord.Messages.edit).not.toHaveBeenCalled();
+    });
+
+    it("should not transfer when the invoice was already paid", async () => {
+      Q.economy.invoice.findWithPlayers
+        .mockResolvedValueOnce(invoice(InvoiceStatus.PENDING))
+        .mockResolvedValueOnce(invoice(InvoiceStatus.PAID));
+      tx.economy.invoice.resolvePending.mockResolvedValue(null);
+
+      await expect(service.pay(3, "payer")).rejects.toThrow(
+        "Invoice #3 is already paid",
+      );
+      expect(balanceRepo.transfer).not.toHaveBeenCalled();
+    });
+
+    it("should refuse players other than the payer", async () => {
+      Q.economy.invoice.findWithPlayers.mockResolvedValue(
+        invoice(InvoiceStatus.PENDING),
+      );
+
+      await expect(service.pay(3, "issuer")).rejects.toThrow(
+        "This invoice is not addressed to you",
+      );
+      expect(db.inTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { tx, db, Q, balanceRepo } = vi.hoisted(() => {
+  const tx = {
+    market: {
+      request: {
+        createAndReturn: vi.fn(),
+        resolveActive: vi.fn(),
+      },
+    },
+  };
+
+  return {
+    tx,
+    db: { inTransaction: vi.fn(async (callback) => await callback(tx)) },
+    Q: {
+      market: {
+        request: {
+          findWithPlayers: vi.fn(),
+          delete: vi.fn(),
+        },
+      },
+    },
+    balanceRepo: {
+      holdInEscrow: vi.fn(),
+      releaseFromEscrow: vi.fn(),
+      logEvent: vi.fn(),
+    },
+  };
+});
+
+vi.mock("@/db", () => ({ db, Q, balanceRepo }));
+vi.mock("@/discord/constants", () => ({ Discord: {} }));
+vi.mock("@/discord/embeds", () => ({ EmbedPresets: {} }));
+
+import { MarketRequestService } from "@/services/market/market-request.service";
+import { MarketRequestStatus } from "@/services/market/types";
+
+const service = new MarketRequestService({
+  defaultTtlMs: 24 * 60 * 60 * 1000,
+  minTtlMs: 60 * 60 * 1000,
+  maxTtlMs: 7 * 24 * 60 * 60 * 1000,
+  sweepIntervalMs: 60 * 1000,
+  feedChannelId: null,
+});
+
+function request(status: MarketRequestStatus, fulfiller: string | null) {
+  return {
+    id: 7,
+    requesterMinecraftUuid: "requester",
+    itemName: "Brass Ingot",
+    itemId: null,
+    description: null,
+    quantity: 64,
+    bounty: 20_000n,
+    status,
+    fulfillerMinecraftUuid: fulfiller,
+    discordMessageId: null,
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    claimedAt: null,
+    resolvedAt: null,
+    requesterUsername: "Steve",
+    fulfillerUsername: fulfiller ? "Alex" : null,
+  };
+}
+
+describe("MarketRequestService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("create", () => {
+    it("should insert the request and hold the bounty in one transaction", async () => {
+      const created = request(MarketRequestStatus.OPEN, null);
+      tx.market.request.createAndReturn.mockResolvedValue(created);
+      Q.market.request.findWithPlayers.mockResolvedValue(created);
+
+      await service.create({
+        requesterUuid: "requester",
+        itemName: "Brass Ingot",
+        quantity: 64,
+        bounty: 20,
+      });
+
+      expect(db.inTransaction).toHaveBeenCalledTimes(1);
+      expect(balanceRepo.holdInEscrow).toHaveBeenCalledWith(
+        "requester",
+        20,
+        expect.any(String),
+        expect.objectContaining({ tx }),
+      );
+    });
+
+    it("should leave the rollback to the transaction when the bounty cannot be held", async () => {
+      tx.market.request.createAndReturn.mockResolvedValue(
+        request(MarketRequestStatus.OPEN, null),
+      );
+      balanceRepo.holdInEscrow.mockRejectedValueOnce(
+        new Error("Insufficient balance"),
+      );
+
+      await expect(
+        service.create({
+          requesterUuid: "requester",
+          itemName: "Brass Ingot",
+          quantity: 64,
+          bounty: 20,
+        }),
+      ).rejects.toThrow("Insufficient balance");
+
+      expect(Q.market.request.delete).not.toHaveBeenCalled();
+      expect(Q.market.request.findWithPlayers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("confirm", () => {
+    it("should resolve the request and settle the bounty in one transaction", async () => {
+      const claimed = request(MarketRequestStatus.CLAIMED, "fulfiller");
+      const fulfilled = { ...claimed, status: MarketRequestStatus.FULFILLED };
+      Q.market.request.findWithPlayers
+        .mockResolvedValueOnce(claimed)
+        .mockResolvedValueOnce(fulfilled);
+      tx.market.request.resolveActive.mockResolvedValue(fulfilled);
+
+      const result = await service.confirm(7, "requester");
+
+      expect(result.status).toBe(MarketRequestStatus.FULFILLED);
+      expect(db.inTransaction).toHaveBeenCalledTimes(1);
+      expect(balanceRepo.releaseFromEscrow).toHaveBeenCalledWith(
+        "fulfiller",
+        20,
+        expect.any(String),
+        expect.objectContaining({ tx }),
+      );
+      expect(balanceRepo.logEvent).toHaveBeenCalledWith(
+        "requester",
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ tx }),
+      );
+    });
+
+    it("should fail without settling when the request is no longer active", async () => {
+      const claimed = request(MarketRequestStatus.CLAIMED, "fulfiller");
+      Q.market.request.findWithPlayers
+        .mockResolvedValueOnce(claimed)
+        .mockResolvedValueOnce({
+          ...claimed,
+          status: MarketRequestStatus.CANCELLED,
+        });
+      tx.market.request.resolveActive.mockResolvedValue(null);
+
+      await expect(service.confirm(7, "requester")).rejects.toThrow(
+        "Item request #7 is already cancelled",
+      );
+      expect(balanceRepo.releaseFromEscrow).not.toHaveBeenCalled();
+    });
+
+    it("should propagate an escrow failure so the status change rolls back", async () => {
+      const claimed = request(MarketRequestStatus.CLAIMED, "fulfiller");
+      Q.market.request.findWithPlayers.mockResolvedValue(claimed);
+      tx.market.request.resolveActive.mockResolvedValue({
+        ...claimed,
+        status: MarketRequestStatus.FULFILLED,
+      });
+      balanceRepo.releaseFromEscrow.mockRejectedValueOnce(
+        new Error("No balance account for fulfiller"),
+      );
+
+      await expect(service.confirm(7, "requester")).rejects.toThrow(
+        "No balance account for fulfiller",
+      );
+      expect(balanceRepo.logEvent).not.toHaveBeenCalled();
+    });
+  });
+});
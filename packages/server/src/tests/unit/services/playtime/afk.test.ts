@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { collectAfkIntervals, sumAfkSeconds } from "@/services/playtime/afk";
+
+const at = (iso: string) => new Date(iso);
+
+describe("AFK tracking", () => {
+  describe("collectAfkIntervals", () => {
+    it("should return no intervals for a session without AFK time", () => {
+      const session = {
+        sessionStart: at("2025-01-01T10:00:00Z"),
+        afkIntervals: [],
+      };
+
+      expect(collectAfkIntervals(session, at("2025-01-01T12:00:00Z"))).toEqual(
+        [],
+      );
+    });
+
+    it("should close an open interval at the given end", () => {
+      const session = {
+        sessionStart: at("2025-01-01T10:00:00Z"),
+        afkSince: at("2025-01-01T11:30:00Z"),
+        afkIntervals: [
+          {
+            start: at("2025-01-01T10:15:00Z"),
+            end: at("2025-01-01T10:45:00Z"),
+          },
+        ],
+      };
+
+      expect(collectAfkIntervals(session, at("2025-01-01T12:00:00Z"))).toEqual([
+        {
+          start: at("2025-01-01T10:15:00Z"),
+          end: at("2025-01-01T10:45:00Z"),
+        },
+        {
+          start: at("2025-01-01T11:30:00Z"),
+          end: at("2025-01-01T12:00:00Z"),
+        },
+      ]);
+    });
+
+    it("should clip intervals to the session and drop empty ones", () => {
+      const session = {
+        sessionStart: at("2025-01-01T10:00:00Z"),
+        afkSince: at("2025-01-01T12:05:00Z"),
+        afkIntervals: [
+          {
+            start: at("2025-01-01T09:50:00Z"),
+            end: at("2025-01-01T10:10:00Z"),
+          },
+        ],
+      };
+
+      expect(collectAfkIntervals(session, at("2025-01-01T12:00:00Z"))).toEqual([
+        {
+          start: at("2025-01-01T10:00:00Z"),
+          end: at("2025-01-01T10:10:00Z"),
+        },
+      ]);
+    });
+
+    it("should merge overlapping and duplicate intervals", () => {
+      const interval = {
+        start: at("2025-01-01T10:15:00Z"),
+        end: at("2025-01-01T10:45:00Z"),
+      };
+      const session = {
+        sessionStart: at("2025-01-01T10:00:00Z"),
+        afkSince: at("2025-01-01T10:40:00Z"),
+        afkIntervals: [
+          interval,
+          { ...interval },
+          {
+            start: at("2025-01-01T10:20:00Z"),
+            end: at("2025-01-01T10:30:00Z"),
+          },
+        ],
+      };
+      const end = at("2025-01-01T11:00:00Z");
+      const intervals = collectAfkIntervals(session, end);
+
+      expect(intervals).toEqual([{ start: at("2025-01-01T10:15:00Z"), end }]);
+      expect(sumAfkSeconds(intervals)).toBe(45 * 60);
+    });
+  });
+
+  describe("sumAfkSeconds", () => {
+    it("should sum interval lengths in whole seconds", () => {
+      expect(
+        sumAfkSeconds([
+          {
+            start: at("2025-01-01T10:00:00Z"),
+            end: at("2025-01-01T10:10:00.900Z"),
+          },
+          {
+            start: at("2025-01-01T11:00:00Z"),
+            end: at("2025-01-01T11:00:30Z"),
+          },
+        ]),
+      ).toBe(630);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectDimensionIntervals,
+  getDimensionName,
+  getDimensionShares,
+} from "@/services/playtime/dimension";
+
+const at = (iso: string) => new Date(iso);
+
+describe("Dimension tracking", () => {
+  describe("collectDimensionIntervals", () => {
+    it("should close the current dimension at the given end", () => {
+      const session = {
+        sessionStart: at("2025-01-01T10:00:00Z"),
+        metadata: { dimension: "minecraft:the_nether" },
+        dimensionSince: at("2025-01-01T10:30:00Z"),
+        dimensionIntervals: [
+          {
+            dimension: "minecraft:overworld",
+            start: at("2025-01-01T10:00:00Z"),
+            end: at("2025-01-01T10:30:00Z"),
+          },
+        ],
+      };
+
+      expect(
+        collectDimensionIntervals(session, at("2025-01-01T11:00:00Z")),
+      ).toEqual([
+        {
+          dimension: "minecraft:overworld",
+          start: at("2025-01-01T10:00:00Z"),
+          end: at("2025-01-01T10:30:00Z"),
+        },
+        {
+          dimension: "minecraft:the_nether",
+          start: at("2025-01-01T10:30:00Z"),
+          end: at("2025-01-01T11:00:00Z"),
+        },
+      ]);
+    });
+
+    it("should return no intervals when the dimension is unknown", () => {
+      const session = {
+        sessionStart: at("2025-01-01T10:00:00Z"),
+        dimensionIntervals: [],
+      };
+
+      expect(
+        collectDimensionIntervals(session, at("2025-01-01T11:00:00Z")),
+      ).toEqual([]);
+    });
+  });
+
+  describe("getDimensionName", () => {
+    it("should name vanilla and modded dimensions", () => {
+      expect(getDimensionName("minecraft:the_nether")).toBe("Nether");
+      expect(getDimensionName("create:void_realm")).toBe("Void Realm");
+    });
+  });
+
+  describe("getDimensionShares", () => {
+    it("should add rounded percentages of the total", () => {
+      expect(
+        getDimensionShares([
+          { dimension: "minecraft:overworld", totalSeconds: 2000 },
+          { dimension: "minecraft:the_nether", totalSeconds: 1000 },
+        ]).map(({ name, percentage }) => [name, percentage]),
+      ).toEqual([
+        ["Overworld", 67],
+        ["Nether", 33],
+      ]);
+    });
+  });
+});
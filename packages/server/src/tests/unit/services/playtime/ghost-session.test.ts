@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const { Q, Discord } = vi.hoisted(() => ({
+  Q: {
+    player: {
+      session: {
+        flag: {
+          flagLongSessions: vi.fn(async () => []),
+          flagOverlappingSessions: vi.fn(async () => []),
+          getFlaggedSessions: vi.fn(),
+          getUnpostedFlags: vi.fn(),
+          update: vi.fn(),
+        },
+      },
+    },
+  },
+  Discord: { Messages: { send: vi.fn() } },
+}));
+
+vi.mock("@/db", () => ({ Q }));
+vi.mock("@/discord/constants", () => ({ Discord }));
+vi.mock("@/discord/embeds", () => ({
+  EmbedPresets: {
+    playtime: {
+      flaggedSession: () => ({ build: () => [] }),
+      flaggedSessionButtons: () => [],
+    },
+  },
+}));
+vi.mock("@/services/playtime/config", () => ({ GHOST_SESSION_CONFIG: {} }));
+
+import { GhostSessionService } from "@/services/playtime/ghost-session.service";
+
+function flag(flagId: number) {
+  return {
+    flagId,
+    reason: "long" as const,
+    sessionId: flagId,
+    minecraftUuid: "550e8400-e29b-41d4-a716-446655440000",
+    minecraftUsername: "Steve",
+    serverId: 1,
+    sessionStart: new Date("2025-01-01T00:00:00Z"),
+    sessionEnd: null,
+    relatedSessionId: null,
+    relatedServerId: null,
+    relatedSessionStart: null,
+    lastAfkStart: null,
+    nextSessionStart: null,
+    resolvedAt: null,
+    resolution: null,
+    discordMessageId: null,
+  };
+}
+
+describe("GhostSessionService", () => {
+  const service = new GhostSessionService({
+    intervalMs: 60_000,
+    maxSessionSeconds: 12 * 60 * 60,
+    lookbackDays: 7,
+    channelId: "channel",
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-02T00:00:00Z"));
+  });
+
+  afterEach(async () => {
+    await service.shutdown();
+    vi.useRealTimers();
+  });
+
+  describe("postFlag", () => {
+    it("should store the ID of the posted message", async () => {
+      Discord.Messages.send.mockResolvedValue({
+        success: true,
+        messageId: "message",
+      });
+
+      await expect(service.postFlag(flag(3))).resolves.toBe(true);
+      expect(Q.player.session.flag.update).toHaveBeenCalledWith(
+        { id: 3 },
+        { discordMessageId: "message" },
+      );
+    });
+
+    it("should leave the flag unposted when sending fails", async () => {
+      Discord.Messages.send.mockResolvedValue({ success: false });
+
+      await expect(service.postFlag(flag(3))).resolves.toBe(false);
+      expect(Q.player.session.flag.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("scheduled check", () => {
+    it("should re-post flags that have no message", async () => {
+      Q.player.session.flag.getUnpostedFlags.mockResolvedValue([
+        flag(3),
+        flag(4),
+      ]);
+      Discord.Messages.send.mockResolvedValue({
+        success: true,
+        messageId: "message",
+      });
+
+      await service.initialize();
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(Q.player.session.flag.getFlaggedSessions).not.toHaveBeenCalled();
+      expect(Discord.Messages.send).toHaveBeenCalledTimes(2);
+      expect(Q.player.session.flag.update).toHaveBeenCalledWith(
+        { id: 4 },
+        { discordMessageId: "message" },
+      );
+    });
+  });
+});
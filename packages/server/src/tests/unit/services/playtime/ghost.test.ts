@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  getTruncateOptions,
+  isValidSessionEnd,
+  parseSessionEnd,
+} from "@/services/playtime/ghost";
+
+const at = (iso: string) => new Date(iso);
+
+describe("Ghost sessions", () => {
+  describe("getTruncateOptions", () => {
+    it("should suggest AFK, next join and limit times, earliest first", () => {
+      const options = getTruncateOptions(
+        {
+          sessionStart: at("2025-01-01T10:00:00Z"),
+          sessionEnd: at("2025-01-02T10:00:00Z"),
+          lastAfkStart: at("2025-01-01T14:30:00.750Z"),
+          nextSessionStart: at("2025-01-01T12:00:00Z"),
+        },
+        12 * 60 * 60,
+      );
+
+      expect(options).toEqual([
+        { sessionEnd: at("2025-01-01T12:00:00Z"), label: "next join" },
+        { sessionEnd: at("2025-01-01T14:30:00Z"), label: "went AFK" },
+        { sessionEnd: at("2025-01-01T22:00:00Z"), label: "12h limit" },
+      ]);
+    });
+
+    it("should skip times outside the session and duplicates", () => {
+      const options = getTruncateOptions(
+        {
+          sessionStart: at("2025-01-01T10:00:00Z"),
+          sessionEnd: at("2025-01-02T08:00:00Z"),
+          lastAfkStart: at("2025-01-01T22:00:00Z"),
+          nextSessionStart: at("2025-01-02T12:00:00Z"),
+        },
+        12 * 60 * 60,
+      );
+
+      expect(options).toEqual([
+        { sessionEnd: at("2025-01-01T22:00:00Z"), label: "went AFK" },
+      ]);
+    });
+
+    it("should suggest nothing for an open session", () => {
+      const options = getTruncateOptions(
+        {
+          sessionStart: at("2025-01-01T10:00:00Z"),
+          sessionEnd: null,
+          lastAfkStart: at("2025-01-01T22:00:00Z"),
+          nextSessionStart: null,
+        },
+        12 * 60 * 60,
+      );
+
+      expect(options).toEqual([]);
+    });
+  });
+
+  describe("parseSessionEnd", () => {
+    it("should parse a UTC date and time with optional seconds", () => {
+      expect(parseSessionEnd(" 2025-01-01 18:30 ")).toEqual(
+        at("2025-01-01T18:30:00Z"),
+      );
+      expect(parseSessionEnd("2025-01-01T18:30:15")).toEqual(
+        at("2025-01-01T18:30:15Z"),
+      );
+    });
+
+    it("should reject malformed and out-of-range times", () => {
+      expect(parseSessionEnd("yesterday")).toBeNull();
+      expect(parseSessionEnd("2025-02-30 18:30")).toBeNull();
+      expect(parseSessionEnd("2025-01-01 24:30")).toBeNull();
+    });
+  });
+
+  describe("isValidSessionEnd", () => {
+    const session = {
+      sessionStart: at("2025-01-01T10:00:00Z"),
+      sessionEnd: at("2025-01-02T08:00:00Z"),
+    };
+
+    it("should accept an end between the start and the current end", () => {
+      expect(isValidSessionEnd(session, at("2025-01-01T18:00:00Z"))).toBe(true);
+    });
+
+    it("should reject an end before the start or after the current end", () => {
+      expect(isValidSessionEnd(session, at("2025-01-01T09:00:00Z"))).toBe(
+        false,
+      );
+      expect(isValidSessionEnd(session, at("2025-01-02T09:00:00Z"))).toBe(
+        false,
+      );
+    });
+
+    it("should reject any end of an open session", () => {
+      expect(
+        isValidSessionEnd(
+          { ...session, sessionEnd: null },
+          at("2025-01-01T18:00:00Z"),
+        ),
+      ).toBe(false);
+    });
+  });
+});
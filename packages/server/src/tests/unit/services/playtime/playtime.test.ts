@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/services/playtime/config", () => ({
+  HEARTBEAT_CONFIG: {
+    intervalMs: 15_000,
+    timeoutMs: 60_000,
+    checkIntervalMs: 5_000,
+  },
+}));
+
+import { PlaytimeService } from "@/services/playtime/playtime.service";
+import {
+  ServerState,
+  type ServerShutdownEvent,
+  type SessionEndEvent,
+} from "@/services/playtime/types";
+
+const STEVE = {
+  uuid: "550e8400-e29b-41d4-a716-446655440000",
+  username: "Steve",
+};
+const ALEX = { uuid: "6ba7b810-9dad-11d1-80b4-00c04fd430c8", username: "Alex" };
+
+async function startService() {
+  const service = new PlaytimeService({
+    serverIp: "127.0.0.1",
+    serverPort: 25565,
+    serverId: 1,
+    initialDelayMs: 0,
+  });
+  const ended: SessionEndEvent[] = [];
+  const shutdowns: ServerShutdownEvent[] = [];
+
+  let nextSessionId = 1;
+  service.on("sessionStart", (event) =>
+    service.setSessionId(event.uuid, nextSessionId++),
+  );
+  service.on("sessionEnd", (event) => ended.push(event));
+  service.on("serverShutdown", (event) => shutdowns.push(event));
+
+  const initialized = service.initialize();
+  await vi.advanceTimersByTimeAsync(0);
+  await initialized;
+
+  return { service, ended, shutdowns };
+}
+
+describe("PlaytimeService", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("server state", () => {
+    it("should stay unknown until the first heartbeat", async () => {
+      const { service } = await startService();
+
+      expect(service.getServerState()).toBe(ServerState.UNKNOWN);
+
+      service.handleHeartbeat({ players: [STEVE] });
+
+      expect(service.getServerState()).toBe(ServerState.ONLINE);
+      expect(service.isPlayerOnline(STEVE.uuid)).toBe(true);
+      service.stop();
+    });
+
+    it("should go offline after missed heartbeats and back online on the next one", async () => {
+      const { service } = await startService();
+      const onOffline = vi.fn();
+      const onOnline = vi.fn();
+      service.on("serverOffline", onOffline);
+      service.on("serverOnline", onOnline);
+
+      service.handleHeartbeat({ players: [] });
+      await vi.advanceTimersByTimeAsync(65_000);
+
+      expect(service.getServerState()).toBe(ServerState.OFFLINE);
+      expect(service.getTps()).toBeNull();
+
+      service.handleHeartbeat({ players: [], tps: 20 });
+
+      expect(service.getServerState()).toBe(ServerState.ONLINE);
+      expect(onOffline).toHaveBeenCalledTimes(1);
+      expect(onOnline).toHaveBeenCalledTimes(2);
+      service.stop();
+    });
+  });
+
+  describe("heartbeat timeout", () => {
+    it("should end sessions at the last heartbeat", async () => {
+      const { service, ended, shutdowns } = await startService();
+      const lastHeartbeat = new Date();
+
+      service.handleHeartbeat({ players: [STEVE, ALEX] });
+      await vi.advanceTimersByTimeAsync(65_000);
+
+      expect(ended.map((event) => event.uuid).sort()).toEqual(
+        [STEVE.uuid, ALEX.uuid].sort(),
+      );
+      expect(ended.every((event) => +event.sessionEnd === +lastHeartbeat)).toBe(
+        true,
+      );
+      expect(shutdowns).toEqual([
+        { serverId: 1, sessionEnd: lastHeartbeat, endedSessionIds: [1, 2] },
+      ]);
+      expect(service.getOnlineCount()).toBe(0);
+      service.stop();
+    });
+
+    it("should measure liveness by receive time, not the mod's timestamp", async () => {
+      const { service } = await startService();
+
+      // Mod clock two minutes behind the backend
+      const skewed = () => new Date(Date.now() - 2 * 60 * 1000);
+
+      service.handleHeartbeat({ players: [STEVE], timestamp: skewed() });
+      await vi.advanceTimersByTimeAsync(15_000);
+      service.handleHeartbeat({ players: [STEVE], timestamp: skewed() });
+      await vi.advanceTimersByTimeAsync(15_000);
+
+      expect(service.getServerState()).toBe(ServerState.ONLINE);
+      expect(service.isPlayerOnline(STEVE.uuid)).toBe(true);
+      service.stop();
+    });
+
+    it("should mark the server offline and clean up when no heartbeat arrives after startup", async () => {
+      const { service, shutdowns } = await startService();
+
+      await vi.advanceTimersByTimeAsync(65_000);
+
+      expect(service.getServerState()).toBe(ServerState.OFFLINE);
+      expect(shutdowns).toHaveLength(1);
+      expect(shutdowns[0].endedSessionIds).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(65_000);
+
+      expect(shutdowns).toHaveLength(1);
+      service.stop();
+    });
+  });
+
+  describe("presence sync", () => {
+    const restored = (player: typeof STEVE, sessionId: number, at: string) => ({
+      ...player,
+      sessionId,
+      sessionStart: new Date(at),
+    });
+
+    it("should continue restored sessions of players still online and end the rest", async () => {
+      const { service, ended } = await startService();
+      const onStart = vi.fn();
+      service.on("sessionStart", onStart);
+      service.restoreSessions([
+        restored(STEVE, 10, "2025-01-01T11:00:00Z"),
+        restored(ALEX, 11, "2025-01-01T11:30:00Z"),
+      ]);
+
+      const report = service.handlePresenceSync({
+        players: [{ ...STEVE, joinedAt: new Date("2025-01-01T11:00:00Z") }],
+      });
+
+      expect(report).toEqual({ started: [], ended: [ALEX], unchanged: 1 });
+      expect(onStart).not.toHaveBeenCalled();
+      expect(service.getSession(STEVE.uuid)?.sessionId).toBe(10);
+      expect(ended.map((event) => event.sessionId)).toEqual([11]);
+      service.stop();
+    });
+
+    it("should end a restored session when the player rejoined since", async () => {
+      const { service, ended } = await startService();
+      const rejoinedAt = new Date("2025-01-01T11:50:00Z");
+      service.restoreSessions([restored(STEVE, 10, "2025-01-01T09:00:00Z")]);
+
+      const report = service.handlePresenceSync({
+        players: [{ ...STEVE, joinedAt: rejoinedAt }],
+      });
+
+      expect(report).toEqual({
+        started: [STEVE],
+        ended: [STEVE],
+        unchanged: 0,
+      });
+      expect(ended).toHaveLength(1);
+      expect(ended[0]).toMatchObject({ sessionId: 10, sessionEnd: rejoinedAt });
+      expect(service.getSession(STEVE.uuid)?.sessionStart).toEqual(rejoinedAt);
+      service.stop();
+    });
+
+    it("should start missing sessions at the join time", async () => {
+      const { service } = await startService();
+      const joinedAt = new Date("2025-01-01T11:45:00Z");
+
+      const report = service.handlePresenceSync({
+        players: [{ ...ALEX, joinedAt }],
+      });
+
+      expect(report.started).toEqual([ALEX]);
+      expect(service.getSession(ALEX.uuid)?.sessionStart).toEqual(joinedAt);
+      service.stop();
+    });
+  });
+
+  describe("stop", () => {
+    it("should end tracked sessions and report them for the fallback cleanup", async () => {
+      const { service, ended, shutdowns } = await startService();
+
+      service.handleHeartbeat({ players: [STEVE] });
+      service.stop();
+
+      expect(ended).toHaveLength(1);
+      expect(shutdowns).toHaveLength(1);
+      expect(shutdowns[0].endedSessionIds).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import type { PlaytimeAggregateTotals } from "@/db/queries/player/playtime/summary";
+import {
+  diffAggregateTotals,
+  sumAggregateTotals,
+} from "@/services/playtime/rebuild";
+
+const totals = (
+  aggregate: PlaytimeAggregateTotals["aggregate"],
+  minecraftUuid: string,
+  count: number,
+  totalSeconds: number,
+): PlaytimeAggregateTotals => ({
+  aggregate,
+  minecraftUuid,
+  minecraftUsername: minecraftUuid,
+  serverId: 1,
+  count,
+  totalSeconds,
+});
+
+describe("Playtime rebuild", () => {
+  describe("diffAggregateTotals", () => {
+    it("should only report changed, added and removed aggregates", () => {
+      const changes = diffAggregateTotals(
+        [
+          totals("daily", "a", 2, 7200),
+          totals("summary", "a", 1, 7200),
+          totals("daily", "b", 1, 600),
+        ],
+        [
+          totals("daily", "a", 2, 3600),
+          totals("summary", "a", 1, 7200),
+          totals("hourly", "c", 1, 60),
+        ],
+      );
+
+      expect(
+        changes.map(({ minecraftUuid, aggregate, before, after }) => [
+          minecraftUuid,
+          aggregate,
+          before?.totalSeconds ?? null,
+          after?.totalSeconds ?? null,
+        ]),
+      ).toEqual([
+        ["a", "daily", 7200, 3600],
+        ["b", "daily", 600, null],
+        ["c", "hourly", null, 60],
+      ]);
+    });
+
+    it("should report nothing when the aggregates match", () => {
+      const current = [totals("daily", "a", 1, 60)];
+
+      expect(diffAggregateTotals(current, [...current])).toEqual([]);
+    });
+  });
+
+  describe("sumAggregateTotals", () => {
+    it("should sum seconds per aggregate table", () => {
+      const sums = sumAggregateTotals(
+        [totals("daily", "a", 1, 100), totals("daily", "b", 1, 50)],
+        [totals("daily", "a", 1, 80), totals("dimension", "a", 1, 80)],
+      );
+
+      expect(sums.daily).toEqual({ before: 150, after: 80 });
+      expect(sums.dimension).toEqual({ before: 0, after: 80 });
+      expect(sums.hourly).toEqual({ before: 0, after: 0 });
+    });
+  });
+});
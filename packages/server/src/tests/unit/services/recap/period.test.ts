@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDueRecapRange,
+  getNextRecapTime,
+  getPreviousRecapRange,
+  getRecapRange,
+  rankRecapEntries,
+} from "@/services/recap/period";
+import { RecapPeriod } from "@/services/recap/types";
+
+const at = (iso: string) => new Date(iso);
+
+describe("Playtime recap periods", () => {
+  describe("getRecapRange", () => {
+    it("should return the last complete Monday to Sunday week", () => {
+      // Wednesday
+      expect(
+        getRecapRange(RecapPeriod.WEEKLY, at("2025-01-15T08:00:00Z")),
+      ).toEqual({
+        start: at("2025-01-06T00:00:00Z"),
+        end: at("2025-01-12T00:00:00Z"),
+      });
+    });
+
+    it("should return the week that just ended on a Monday", () => {
+      expect(
+        getRecapRange(RecapPeriod.WEEKLY, at("2025-01-13T12:00:00Z")),
+      ).toEqual({
+        start: at("2025-01-06T00:00:00Z"),
+        end: at("2025-01-12T00:00:00Z"),
+      });
+    });
+
+    it("should return the previous month across a year boundary", () => {
+      expect(
+        getRecapRange(RecapPeriod.MONTHLY, at("2025-01-01T12:00:00Z")),
+      ).toEqual({
+        start: at("2024-12-01T00:00:00Z"),
+        end: at("2024-12-31T00:00:00Z"),
+      });
+    });
+  });
+
+  describe("getPreviousRecapRange", () => {
+    it("should return the month before the recap month", () => {
+      const range = getRecapRange(
+        RecapPeriod.MONTHLY,
+        at("2025-03-01T12:00:00Z"),
+      );
+
+      expect(getPreviousRecapRange(RecapPeriod.MONTHLY, range)).toEqual({
+        start: at("2025-01-01T00:00:00Z"),
+        end: at("2025-01-31T00:00:00Z"),
+      });
+    });
+  });
+
+  describe("getNextRecapTime", () => {
+    it("should post weekly recaps on the next Monday", () => {
+      expect(
+        getNextRecapTime(RecapPeriod.WEEKLY, at("2025-01-13T12:00:00Z"), 12),
+      ).toEqual(at("2025-01-20T12:00:00Z"));
+
+      expect(
+        getNextRecapTime(RecapPeriod.WEEKLY, at("2025-01-13T11:59:00Z"), 12),
+      ).toEqual(at("2025-01-13T12:00:00Z"));
+    });
+
+    it("should post monthly recaps on the next 1st", () => {
+      expect(
+        getNextRecapTime(RecapPeriod.MONTHLY, at("2025-12-15T08:00:00Z"), 12),
+      ).toEqual(at("2026-01-01T12:00:00Z"));
+    });
+  });
+
+  describe("getDueRecapRange", () => {
+    it("should return the week before last until the Monday posting time", () => {
+      expect(
+        getDueRecapRange(RecapPeriod.WEEKLY, at("2025-01-13T11:59:00Z"), 12),
+      ).toEqual({
+        start: at("2024-12-30T00:00:00Z"),
+        end: at("2025-01-05T00:00:00Z"),
+      });
+    });
+
+    it("should return the month that just ended from its posting time", () => {
+      expect(
+        getDueRecapRange(RecapPeriod.MONTHLY, at("2025-02-01T12:00:00Z"), 12),
+      ).toEqual({
+        start: at("2025-01-01T00:00:00Z"),
+        end: at("2025-01-31T00:00:00Z"),
+      });
+    });
+  });
+
+  describe("rankRecapEntries", () => {
+    it("should rank players and find their previous rank", () => {
+      const player = (uuid: string, totalSeconds: number) => ({
+        minecraftUuid: uuid,
+        minecraftUsername: uuid,
+        totalSeconds,
+      });
+
+      const entries = rankRecapEntries(
+        [player("a", 300), player("b", 200), player("c", 100)],
+        [player("b", 400), player("a", 100)],
+      );
+
+      expect(
+        entries.map(({ rank, previousRank }) => [rank, previousRank]),
+      ).toEqual([
+        [1, 2],
+        [2, 1],
+        [3, null],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { tx, db, Q, balanceRepo, playtimeRepo, Discord } = vi.hoisted(() => {
+  const tx = {
+    playtime: { recap: { createIfAbsent: vi.fn() } },
+    player: { balance: { exists: vi.fn(async () => true) } },
+  };
+
+  return {
+    tx,
+    db: { inTransaction: vi.fn(async (callback) => await callback(tx)) },
+    Q: {
+      player: {
+        playtime: {
+          daily: {
+            getRangeTotals: vi.fn(async () => [
+              { totalSeconds: 600 },
+              { totalSeconds: 400 },
+            ]),
+          },
+        },
+      },
+      playtime: { recap: { update: vi.fn() } },
+    },
+    balanceRepo: { add: vi.fn() },
+    playtimeRepo: { getTopPlayersByDateRange: vi.fn() },
+    Discord: { Messages: { send: vi.fn() } },
+  };
+});
+
+vi.mock("@/db", () => ({ db, Q, balanceRepo, playtimeRepo }));
+vi.mock("@/discord/constants", () => ({ Discord }));
+vi.mock("@/discord/embeds", () => ({
+  EmbedPresets: { playtime: { recap: () => ({ build: () => [] }) } },
+}));
+vi.mock("@/services/recap/config", () => ({ PLAYTIME_RECAP_CONFIG: {} }));
+
+import { PlaytimeRecapService } from "@/services/recap/recap.service";
+import { RecapPeriod } from "@/services/recap/types";
+
+const STEVE = {
+  minecraftUuid: "550e8400-e29b-41d4-a716-446655440000",
+  minecraftUsername: "Steve",
+  totalSeconds: 3_600,
+};
+
+const WEEK = {
+  start: new Date("2025-01-06T00:00:00Z"),
+  end: new Date("2025-01-12T00:00:00Z"),
+};
+
+const service = new PlaytimeRecapService({
+  serverId: 1,
+  channelId: "channel",
+  postHour: 12,
+  topPlayers: 10,
+  prizes: { [RecapPeriod.WEEKLY]: [500], [RecapPeriod.MONTHLY]: [] },
+});
+
+describe("PlaytimeRecapService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    playtimeRepo.getTopPlayersByDateRange.mockResolvedValue([STEVE]);
+    Discord.Messages.send.mockResolvedValue({
+      success: true,
+      messageId: "message",
+    });
+  });
+
+  describe("postRecap", () => {
+    it("should record the period and pay its prizes in one transaction", async () => {
+      tx.playtime.recap.createIfAbsent.mockResolvedValue({ id: 7 });
+
+      const recap = await service.postRecap(RecapPeriod.WEEKLY, WEEK);
+
+      expect(db.inTransaction).toHaveBeenCalledTimes(1);
+      expect(tx.playtime.recap.createIfAbsent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          kind: RecapPeriod.WEEKLY,
+          periodStart: WEEK.start,
+          prizes: [expect.objectContaining({ rank: 1, amount: 500 })],
+        }),
+      );
+      expect(balanceRepo.add).toHaveBeenCalledWith(
+        STEVE.minecraftUuid,
+        500,
+        "Weekly playtime recap: #1",
+        expect.anything(),
+        expect.objectContaining({ recapStart: "2025-01-06", rank: 1 }),
+        tx,
+      );
+      expect(Q.playtime.recap.update).toHaveBeenCalledWith(
+        { id: 7 },
+        { discordMessageId: "message" },
+      );
+      expect(recap?.prizes).toHaveLength(1);
+    });
+
+    it("should neither pay nor post a period that was already recorded", async () => {
+      tx.playtime.recap.createIfAbsent.mockResolvedValue(null);
+
+      const recap = await service.postRecap(RecapPeriod.WEEKLY, WEEK);
+
+      expect(recap).toBeNull();
+      expect(balanceRepo.add).not.toHaveBeenCalled();
+      expect(Discord.Messages.send).not.toHaveBeenCalled();
+    });
+
+    it("should total the playtime of all servers", async () => {
+      tx.playtime.recap.createIfAbsent.mockResolvedValue({ id: 7 });
+
+      const recap = await service.postRecap(RecapPeriod.WEEKLY, WEEK);
+
+      expect(Q.player.playtime.daily.getRangeTotals).toHaveBeenCalledWith(
+        {},
+        WEEK.start,
+        WEEK.end,
+      );
+      expect(recap?.totalSeconds).toBe(1_000);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { tx, db, Q, balanceRepo } = vi.hoisted(() => {
+  const tx = { reward: { claim: { create: vi.fn() } } };
+
+  return {
+    tx,
+    db: { inTransaction: vi.fn(async (callback) => await callback(tx)) },
+    Q: {
+      reward: { claim: { findAll: vi.fn(async () => []) } },
+      player: {
+        playtime: {
+          summary: {
+            findAll: vi.fn(async () => [{ totalSeconds: 40_000n }]),
+          },
+        },
+      },
+    },
+    balanceRepo: { add: vi.fn(async () => 100) },
+  };
+});
+
+vi.mock("@/db", () => ({ db, Q, balanceRepo }));
+vi.mock("@/discord/constants", () => ({ Discord: {} }));
+vi.mock("@/discord/embeds", () => ({ EmbedPresets: {} }));
+
+import { PlaytimeMilestoneReward } from "@/services/reward/rewards/playtime-milestone.reward";
+import { RewardType } from "@/services/reward/types";
+
+const PLAYER = "550e8400-e29b-41d4-a716-446655440000";
+
+const reward = new PlaytimeMilestoneReward({
+  type: RewardType.PLAYTIME_MILESTONE,
+  amount: 0,
+  label: "Playtime Milestones",
+  description: "",
+  resetHour: 0,
+  enabled: true,
+  milestones: [
+    { requiredSeconds: 3_600, amount: 10, label: "1h" },
+    { requiredSeconds: 36_000, amount: 50, label: "10h" },
+  ],
+});
+
+describe("PlaytimeMilestoneReward", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("claim", () => {
+    it("should record and pay each milestone in its own transaction", async () => {
+      const result = await reward.claim({ minecraftUuid: PLAYER });
+
+      expect(result).toMatchObject({ success: true, amount: 60 });
+      expect(db.inTransaction).toHaveBeenCalledTimes(2);
+      expect(tx.reward.claim.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ milestoneSeconds: 3_600 }),
+        }),
+      );
+      expect(balanceRepo.add).toHaveBeenCalledWith(
+        PLAYER,
+        10,
+        "Playtime milestone reached: 1h",
+        expect.anything(),
+        expect.objectContaining({ milestoneSeconds: 3_600 }),
+        tx,
+      );
+    });
+
+    it("should skip a milestone the database already has a claim for", async () => {
+      tx.reward.claim.create.mockRejectedValueOnce(
+        Object.assign(new Error("duplicate key"), { code: "23505" }),
+      );
+
+      const result = await reward.claim({ minecraftUuid: PLAYER });
+
+      expect(result).toMatchObject({ success: true, amount: 50 });
+      expect(balanceRepo.add).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateStreak,
+  getStreakMultiplier,
+} from "@/services/reward/streak";
+
+const at = (iso: string) => new Date(iso);
+
+describe("Reward streaks", () => {
+  describe("calculateStreak", () => {
+    it("should return zero streaks without claims", () => {
+      expect(calculateStreak([], at("2025-01-10T12:00:00Z"), 0, 6)).toEqual({
+        current: 0,
+        best: 0,
+      });
+    });
+
+    it("should count consecutive reset periods", () => {
+      const claims = [
+        at("2025-01-01T10:00:00Z"),
+        at("2025-01-02T23:00:00Z"),
+        at("2025-01-03T01:00:00Z"),
+      ];
+
+      expect(
+        calculateStreak(claims, at("2025-01-03T12:00:00Z"), 0, 6),
+      ).toEqual({ current: 3, best: 3 });
+    });
+
+    it("should keep the streak when claiming within the grace window", () => {
+      const claims = [at("2025-01-01T23:00:00Z"), at("2025-01-03T04:00:00Z")];
+
+      expect(
+        calculateStreak(claims, at("2025-01-03T12:00:00Z"), 0, 6),
+      ).toEqual({ current: 2, best: 2 });
+    });
+
+    it("should reset the streak after the grace window", () => {
+      const claims = [
+        at("2025-01-01T10:00:00Z"),
+        at("2025-01-02T10:00:00Z"),
+        at("2025-01-04T10:00:00Z"),
+      ];
+
+      expect(
+        calculateStreak(claims, at("2025-01-04T12:00:00Z"), 0, 6),
+      ).toEqual({ current: 1, best: 2 });
+    });
+
+    it("should report no current streak once the deadline has passed", () => {
+      const claims = [at("2025-01-01T10:00:00Z"), at("2025-01-02T10:00:00Z")];
+
+      expect(
+        calculateStreak(claims, at("2025-01-04T07:00:00Z"), 0, 6),
+      ).toEqual({ current: 0, best: 2 });
+    });
+
+    it("should respect a non-midnight reset hour", () => {
+      const claims = [at("2025-01-01T13:00:00Z"), at("2025-01-02T11:00:00Z")];
+
+      expect(
+        calculateStreak(claims, at("2025-01-02T11:30:00Z"), 12, 0),
+      ).toEqual({ current: 1, best: 1 });
+    });
+  });
+
+  describe("getStreakMultiplier", () => {
+    const config = { bonusPerDay: 0.1, maxBonusDay: 7, graceHours: 6 };
+
+    it("should not boost the first day", () => {
+      expect(getStreakMultiplier(1, config)).toBe(1);
+    });
+
+    it("should grow per consecutive day", () => {
+      expect(getStreakMultiplier(3, config)).toBe(1.2);
+    });
+
+    it("should cap at the max bonus day", () => {
+      expect(getStreakMultiplier(7, config)).toBe(1.6);
+      expect(getStreakMultiplier(30, config)).toBe(1.6);
+    });
+  });
+});
@@ -9,4 +9,8 @@ export enum AdminEdit {
   UPDATE_PLAYER = "UPDATE_PLAYER",
   UPDATE_BALANCE = "UPDATE_BALANCE",
   UPDATE_PLAYTIME = "UPDATE_PLAYTIME",
+  REVERSE_TRANSACTION = "REVERSE_TRANSACTION",
+  TREASURY_PAYOUT = "TREASURY_PAYOUT",
+  TRUNCATE_SESSION = "TRUNCATE_SESSION",
+  DELETE_SESSION = "DELETE_SESSION",
 }
@@ -29,6 +29,7 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@createrington/shared": path.resolve(__dirname, "../shared/src"),
     },
   },
 });
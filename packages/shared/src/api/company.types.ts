@@ -0,0 +1,182 @@
+/**
+ * Company API Types
+ *
+ * Type definitions for the player-owned company endpoints. Balances,
+ * salaries and amounts are decimal strings with 3 decimal places
+ * (e.g. "12.500").
+ */
+import type { PaginationMeta } from "./player.types";
+
+export type CompanyRoleApi = "owner" | "manager" | "employee";
+
+// ============================================================================
+// REQUEST TYPES
+// ============================================================================
+
+/**
+ * Query parameters for GET /api/companies
+ */
+export interface GetCompaniesQuery {
+  // Case-insensitive match on company name
+  search?: string;
+
+  // Pagination
+  page?: string;
+  limit?: string;
+}
+
+/**
+ * Query parameters for GET /api/companies/:id/transactions
+ */
+export interface GetCompanyTransactionsQuery {
+  page?: string;
+  limit?: string;
+}
+
+/**
+ * Request body for POST /api/companies
+ */
+export interface CreateCompanyRequest {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Request body for POST /api/companies/:id/deposit and
+ * /api/companies/:id/withdraw
+ */
+export interface CompanyBalanceChangeRequest {
+  amount: number;
+  note?: string;
+}
+
+/**
+ * Request body for POST /api/companies/:id/members
+ */
+export interface AddCompanyMemberRequest {
+  uuid: string; // Minecraft UUID
+  role?: Exclude<CompanyRoleApi, "owner">;
+}
+
+/**
+ * Request body for PATCH /api/companies/:id/members/:uuid
+ */
+export interface UpdateCompanyMemberRequest {
+  role?: Exclude<CompanyRoleApi, "owner">;
+  salary?: number;
+}
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+/**
+ * Company summary as returned by the API
+ */
+export interface CompanyApiData {
+  id: number;
+  name: string;
+  description: string | null;
+  ownerMinecraftUuid: string;
+  ownerUsername: string | null;
+  balance: string;
+  memberCount: number;
+  createdAt: string;
+}
+
+/**
+ * Company member as returned by the API
+ */
+export interface CompanyMemberApiData {
+  minecraftUuid: string;
+  minecraftUsername: string | null;
+  role: CompanyRoleApi;
+  salary: string;
+  joinedAt: string;
+}
+
+/**
+ * Company ledger entry as returned by the API
+ */
+export interface CompanyTransactionApiData {
+  id: number;
+  amount: string;
+  balanceBefore: string;
+  balanceAfter: string;
+  transactionType: "deposit" | "withdrawal" | "payroll";
+  description: string | null;
+  relatedPlayerUuid: string | null;
+  relatedPlayerUsername: string | null;
+  performedByUuid: string | null;
+  performedByUsername: string | null;
+  createdAt: string;
+}
+
+/**
+ * Response for GET /api/companies
+ */
+export interface GetCompaniesResponse {
+  success: true;
+  data: {
+    companies: CompanyApiData[];
+    pagination: PaginationMeta;
+  };
+}
+
+/**
+ * Response for GET /api/companies/:id and POST /api/companies
+ */
+export interface CompanyResponse {
+  success: true;
+  data: CompanyApiData & {
+    members: CompanyMemberApiData[];
+  };
+}
+
+/**
+ * Response for GET /api/companies/:id/transactions
+ */
+export interface GetCompanyTransactionsResponse {
+  success: true;
+  data: {
+    transactions: CompanyTransactionApiData[];
+    pagination: PaginationMeta;
+  };
+}
+
+/**
+ * Response for POST /api/companies/:id/deposit and
+ * /api/companies/:id/withdraw
+ */
+export interface CompanyBalanceChangeResponse {
+  success: true;
+  data: {
+    transactionId: number;
+    amount: string;
+    companyBalance: string;
+  };
+}
+
+/**
+ * Response for POST /api/companies/:id/payroll
+ */
+export interface RunCompanyPayrollResponse {
+  success: true;
+  data: {
+    total: string;
+    payments: Array<{
+      minecraftUuid: string;
+      minecraftUsername: string;
+      amount: string;
+    }>;
+  };
+}
+
+/**
+ * Response for POST /api/companies/:id/members and
+ * PATCH /api/companies/:id/members/:uuid
+ */
+export interface CompanyMemberResponse {
+  success: true;
+  data: CompanyMemberApiData;
+}
@@ -0,0 +1,163 @@
+/**
+ * Economy API Types
+ *
+ * Type definitions for the economy endpoints used by the in-game currency
+ * mod and the admin panel. Amounts and balances are decimal strings with 3
+ * decimal places (e.g. "12.500").
+ */
+
+// ============================================================================
+// REQUEST TYPES
+// ============================================================================
+
+/**
+ * Request body for POST /api/economy/deposit and /api/economy/withdraw
+ *
+ * Requires an Idempotency-Key header
+ */
+export interface EconomyBalanceChangeRequest {
+  uuid: string;
+  amount: number;
+  reason?: string;
+}
+
+/**
+ * Request body for POST /api/economy/transfer
+ *
+ * Requires an Idempotency-Key header
+ */
+export interface EconomyTransferRequest {
+  fromUuid: string;
+  toUuid: string;
+  amount: number;
+  note?: string;
+}
+
+/**
+ * Query parameters for GET /api/economy/stats
+ */
+export interface GetEconomyStatsQuery {
+  // Number of days covered by issuance and transfer stats (1-90, default: 7)
+  days?: string;
+}
+
+/**
+ * Request body for POST /api/economy/transactions/:id/reverse
+ */
+export interface ReverseTransactionRequest {
+  reason: string;
+  // Take back only what a balance still covers and record the rest as shortfall
+  allowShortfall?: boolean;
+}
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+/**
+ * Response for GET /api/economy/balance/:uuid
+ */
+export interface GetEconomyBalanceResponse {
+  success: true;
+  data: {
+    uuid: string;
+    minecraftUsername: string;
+    balance: string;
+  };
+}
+
+/**
+ * Response for POST /api/economy/deposit and /api/economy/withdraw
+ */
+export interface EconomyBalanceChangeResponse {
+  success: true;
+  data: {
+    uuid: string;
+    transactionType: string;
+    amount: string;
+    balance: string;
+    idempotencyKey: string;
+    replayed: boolean;
+  };
+}
+
+/**
+ * Response for POST /api/economy/transfer
+ */
+export interface EconomyTransferResponse {
+  success: true;
+  data: {
+    fromUuid: string;
+    toUuid: string;
+    amount: string;
+    // Fee paid by the sender on top of the amount
+    fee: string;
+    senderBalance: string;
+    recipientBalance: string;
+    idempotencyKey: string;
+    replayed: boolean;
+  };
+}
+
+/**
+ * Response for POST /api/economy/transactions/:id/reverse
+ */
+export interface ReverseTransactionResponse {
+  success: true;
+  data: {
+    reversedTransactionIds: number[];
+    refunds: Array<{
+      id: number;
+      playerMinecraftUuid: string;
+      amount: string;
+      balanceBefore: string;
+      balanceAfter: string;
+      reversedTransactionId: number;
+      // Part of the reversed credit the balance did not cover
+      shortfall: string;
+      createdAt: string;
+    }>;
+  };
+}
+
+/**
+ * Economy statistics (amounts as decimal strings)
+ */
+export interface EconomyStatsApiData {
+  generatedAt: string;
+  since: string;
+  periodDays: number;
+  /** Player, treasury and company balances */
+  moneySupply: string;
+  supplyByHolder: {
+    players: string;
+    treasury: string;
+    companies: string;
+  };
+  accounts: number;
+  averageBalance: string;
+  medianBalance: string;
+  gini: number;
+  top10Share: number;
+  issuance: {
+    bySource: Record<string, string>;
+    total: string;
+    daily: Array<{
+      date: string;
+      bySource: Record<string, string>;
+      total: string;
+    }>;
+  };
+  transfers: {
+    volume: string;
+    count: number;
+  };
+}
+
+/**
+ * Response for GET /api/economy/stats
+ */
+export interface GetEconomyStatsResponse {
+  success: true;
+  data: EconomyStatsApiData;
+}
@@ -0,0 +1,145 @@
+/**
+ * Exchange API Types
+ *
+ * Type definitions for the simulated commodity exchange endpoints. Prices,
+ * totals and balances are decimal strings with 3 decimal places
+ * (e.g. "12.500"). Live price ticks are pushed over the WebSocket
+ * exchange subscription (see ExchangePricesUpdatePayload).
+ */
+import type { PaginationMeta } from "./player.types";
+
+export type ExchangeTradeSideApi = "buy" | "sell";
+
+// ============================================================================
+// REQUEST TYPES
+// ============================================================================
+
+/**
+ * Query parameters for GET /api/exchange/assets/:symbol/history
+ */
+export interface GetExchangeHistoryQuery {
+  // History window in hours (1-168, default: 24)
+  hours?: string;
+}
+
+/**
+ * Query parameters for GET /api/exchange/trades
+ */
+export interface GetExchangeTradesQuery {
+  page?: string;
+  limit?: string;
+}
+
+/**
+ * Request body for POST /api/exchange/assets/:symbol/buy and
+ * /api/exchange/assets/:symbol/sell
+ */
+export interface ExchangeOrderRequest {
+  quantity: number;
+}
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+/**
+ * Asset with its current price and 24 hour change
+ */
+export interface ExchangeAssetApiData {
+  symbol: string;
+  name: string;
+  isActive: boolean; // Inactive assets can only be sold
+  price: string;
+  openPrice: string; // Price 24 hours ago, or the oldest recorded price
+  changePercent: number;
+  updatedAt: string;
+}
+
+/**
+ * Single point of an asset's price history
+ */
+export interface ExchangePricePointApiData {
+  price: string;
+  recordedAt: string;
+}
+
+/**
+ * Player holding valued at the current price
+ */
+export interface ExchangeHoldingApiData {
+  symbol: string;
+  quantity: number;
+  costBasis: string; // Total paid for the units held
+  value: string; // quantity * current price
+}
+
+/**
+ * Filled order as returned by the API
+ */
+export interface ExchangeTradeApiData {
+  id: number;
+  symbol: string;
+  side: ExchangeTradeSideApi;
+  quantity: number;
+  price: string;
+  total: string;
+  createdAt: string;
+}
+
+/**
+ * Response for GET /api/exchange/assets
+ */
+export interface GetExchangeAssetsResponse {
+  success: true;
+  data: ExchangeAssetApiData[];
+}
+
+/**
+ * Response for GET /api/exchange/assets/:symbol/history
+ */
+export interface GetExchangeHistoryResponse {
+  success: true;
+  data: {
+    asset: ExchangeAssetApiData;
+    prices: ExchangePricePointApiData[];
+  };
+}
+
+/**
+ * Response for GET /api/exchange/holdings
+ */
+export interface GetExchangeHoldingsResponse {
+  success: true;
+  data: {
+    holdings: ExchangeHoldingApiData[];
+    totalValue: string;
+  };
+}
+
+/**
+ * Response for GET /api/exchange/trades
+ */
+export interface GetExchangeTradesResponse {
+  success: true;
+  data: {
+    trades: ExchangeTradeApiData[];
+    pagination: PaginationMeta;
+  };
+}
+
+/**
+ * Response for POST /api/exchange/assets/:symbol/buy and
+ * /api/exchange/assets/:symbol/sell
+ */
+export interface ExchangeOrderResponse {
+  success: true;
+  data: {
+    side: ExchangeTradeSideApi;
+    symbol: string;
+    quantity: number;
+    price: string;
+    total: string;
+    holdingQuantity: number;
+    newBalance: string;
+  };
+}
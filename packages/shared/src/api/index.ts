@@ -1,2 +1,8 @@
 export * from "./server.types";
 export * from "./player.types";
+export * from "./economy.types";
+export * from "./market.types";
+export * from "./company.types";
+export * from "./exchange.types";
+export * from "./invoice.types";
+export * from "./playtime.types";
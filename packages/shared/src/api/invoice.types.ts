@@ -0,0 +1,64 @@
+/**
+ * Invoice API Types
+ *
+ * Type definitions for payment requests between players. Amounts are
+ * decimal strings with 3 decimal places (e.g. "50.000").
+ */
+import type { PaginationMeta } from "./player.types";
+
+// ============================================================================
+// REQUEST TYPES
+// ============================================================================
+
+/**
+ * Query parameters for GET /api/invoices
+ */
+export interface GetInvoicesQuery {
+  // Only invoices the user issued or was asked to pay (default: both)
+  role?: "issuer" | "payer";
+  status?: InvoiceApiData["status"] | "all";
+
+  // Pagination
+  page?: string;
+  limit?: string;
+}
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+/**
+ * Invoice as returned by the API
+ */
+export interface InvoiceApiData {
+  id: number;
+  issuerMinecraftUuid: string;
+  issuerUsername: string;
+  payerMinecraftUuid: string;
+  payerUsername: string;
+  amount: string;
+  note: string | null;
+  status: "pending" | "paid" | "declined" | "cancelled" | "expired";
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
+
+/**
+ * Response for GET /api/invoices
+ */
+export interface GetInvoicesResponse {
+  success: true;
+  data: {
+    invoices: InvoiceApiData[];
+    pagination: PaginationMeta;
+  };
+}
+
+/**
+ * Response for GET /api/invoices/:id
+ */
+export interface InvoiceResponse {
+  success: true;
+  data: InvoiceApiData;
+}
@@ -0,0 +1,174 @@
+/**
+ * Market API Types
+ *
+ * Type definitions for the player marketplace and item request endpoints.
+ * Prices and bounties are decimal strings with 3 decimal places
+ * (e.g. "12.500").
+ */
+import type { PaginationMeta } from "./player.types";
+
+// ============================================================================
+// REQUEST TYPES
+// ============================================================================
+
+/**
+ * Query parameters for GET /api/market/listings
+ */
+export interface GetMarketListingsQuery {
+  // Case-insensitive match on item name, item ID and description
+  search?: string;
+  seller?: string; // Minecraft UUID
+  status?: "active" | "sold_out" | "cancelled" | "all";
+
+  // Pagination
+  page?: string;
+  limit?: string;
+
+  sortBy?: "createdAt" | "unitPrice";
+  sortOrder?: "ASC" | "DESC";
+}
+
+/**
+ * Request body for POST /api/market/listings
+ */
+export interface CreateMarketListingRequest {
+  itemName: string;
+  itemId?: string;
+  description?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+/**
+ * Request body for POST /api/market/listings/:id/purchase
+ */
+export interface PurchaseMarketListingRequest {
+  quantity: number;
+}
+
+/**
+ * Query parameters for GET /api/market/requests
+ */
+export interface GetMarketRequestsQuery {
+  // Case-insensitive match on item name, item ID and description
+  search?: string;
+  requester?: string; // Minecraft UUID
+  fulfiller?: string; // Minecraft UUID
+  status?: MarketRequestApiData["status"] | "all";
+
+  // Pagination
+  page?: string;
+  limit?: string;
+}
+
+/**
+ * Request body for POST /api/market/requests
+ *
+ * The bounty is held in escrow from the requester's balance immediately
+ */
+export interface CreateMarketRequestRequest {
+  itemName: string;
+  itemId?: string;
+  description?: string;
+  quantity: number;
+  bounty: number;
+  // How long the request stays open (1-720, default: 168)
+  durationHours?: number;
+}
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+/**
+ * Marketplace listing as returned by the API
+ */
+export interface MarketListingApiData {
+  id: number;
+  sellerMinecraftUuid: string;
+  sellerUsername: string | null;
+  itemName: string;
+  itemId: string | null;
+  description: string | null;
+  quantity: number;
+  unitPrice: string;
+  status: "active" | "sold_out" | "cancelled";
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Response for GET /api/market/listings
+ */
+export interface GetMarketListingsResponse {
+  success: true;
+  data: {
+    listings: MarketListingApiData[];
+    pagination: PaginationMeta;
+  };
+}
+
+/**
+ * Response for GET /api/market/listings/:id, POST /api/market/listings
+ * and DELETE /api/market/listings/:id
+ */
+export interface MarketListingResponse {
+  success: true;
+  data: MarketListingApiData;
+}
+
+/**
+ * Response for POST /api/market/listings/:id/purchase
+ */
+export interface PurchaseMarketListingResponse {
+  success: true;
+  data: {
+    purchaseId: number;
+    listing: MarketListingApiData;
+    quantity: number;
+    unitPrice: string;
+    totalPrice: string;
+    buyerBalance: string;
+  };
+}
+
+/**
+ * Item request as returned by the API
+ */
+export interface MarketRequestApiData {
+  id: number;
+  requesterMinecraftUuid: string;
+  requesterUsername: string;
+  itemName: string;
+  itemId: string | null;
+  description: string | null;
+  quantity: number;
+  bounty: string;
+  status: "open" | "claimed" | "fulfilled" | "cancelled" | "expired";
+  fulfillerMinecraftUuid: string | null;
+  fulfillerUsername: string | null;
+  createdAt: string;
+  expiresAt: string;
+  claimedAt: string | null;
+  resolvedAt: string | null;
+}
+
+/**
+ * Response for GET /api/market/requests
+ */
+export interface GetMarketRequestsResponse {
+  success: true;
+  data: {
+    requests: MarketRequestApiData[];
+    pagination: PaginationMeta;
+  };
+}
+
+/**
+ * Response for GET /api/market/requests/:id and every request action
+ * (create, claim, unclaim, confirm, cancel)
+ */
+export interface MarketRequestResponse {
+  success: true;
+  data: MarketRequestApiData;
+}
@@ -34,6 +34,18 @@ export interface GetPlayersQuery {
   sortOder?: "ASC" | "DESC";
 }
 
+/**
+ * Query parameters for GET /api/players/:id/transactions
+ */
+export interface GetPlayerTransactionsQuery {
+  // Comma-separated transaction types (e.g. "transfer_send,transfer_receive")
+  types?: string;
+
+  // Pagination
+  page?: string;
+  limit?: string;
+}
+
 // ============================================================================
 // RESPONSE TYPES
 // ============================================================================
@@ -67,6 +79,36 @@ export interface GetPlayersResponse {
   };
 }
 
+/**
+ * Single balance transaction as returned by the API
+ *
+ * Amounts are formatted decimal strings since bigint values do not
+ * serialize to JSON
+ */
+export interface PlayerTransactionApiData {
+  id: number;
+  amount: string;
+  balanceBefore: string;
+  balanceAfter: string;
+  transactionType: string;
+  description: string | null;
+  relatedPlayerUuid: string | null;
+  relatedPlayerUsername: string | null;
+  metadata: Record<string, any>;
+  createdAt: string;
+}
+
+/**
+ * Response for GET /api/players/:id/transactions
+ */
+export interface GetPlayerTransactionsResponse {
+  success: true;
+  data: {
+    transactions: PlayerTransactionApiData[];
+    pagination: PaginationMeta;
+  };
+}
+
 /**
  * Error response for player endpoints
  */
@@ -0,0 +1,185 @@
+/**
+ * Playtime API Response Types
+ *
+ * Type definitions for player playtime, player session, server activity and
+ * server history endpoints
+ */
+import type { PaginationMeta } from "./player.types";
+
+// ============================================================================
+// REQUEST TYPES
+// ============================================================================
+
+/**
+ * Bucket size of playtime statistics
+ */
+export type PlaytimeGranularity = "hour" | "day";
+
+/**
+ * Query parameters shared by the playtime range endpoints
+ *
+ * Dates are ISO 8601 dates or timestamps. The range defaults to the last
+ * 30 days for daily and the last 24 hours for hourly granularity.
+ */
+export interface PlaytimeRangeQuery {
+  from?: string;
+  to?: string;
+  granularity?: PlaytimeGranularity;
+}
+
+/**
+ * Query parameters for GET /api/players/:id/playtime
+ */
+export interface GetPlayerPlaytimeQuery extends PlaytimeRangeQuery {
+  serverId?: string;
+}
+
+/**
+ * Query parameters for GET /api/players/:id/sessions
+ */
+export interface GetPlayerSessionsQuery {
+  // Filtering (sessions started within the range)
+  from?: string;
+  to?: string;
+  serverId?: string;
+
+  // Pagination
+  page?: string;
+  limit?: string;
+}
+
+/**
+ * Query parameters for GET /api/servers/:id/activity
+ */
+export type GetServerActivityQuery = PlaytimeRangeQuery;
+
+/**
+ * Query parameters for GET /api/servers/:id/history
+ */
+export type GetServerHistoryQuery = PlaytimeRangeQuery;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+/**
+ * Playtime within one day or hour of the requested range
+ *
+ * Buckets without playtime are included with zero values.
+ */
+export interface PlaytimeBucketApiData {
+  start: string; // YYYY-MM-DD (day) or ISO 8601 timestamp (hour)
+  uniquePlayers: number;
+  totalSeconds: number;
+}
+
+/**
+ * Resolved range of a playtime response
+ */
+export interface PlaytimeRangeApiData {
+  from: string; // ISO 8601 timestamp
+  to: string; // ISO 8601 timestamp
+  granularity: PlaytimeGranularity;
+}
+
+/**
+ * Playtime in a single dimension, AFK time excluded
+ */
+export interface PlayerDimensionPlaytimeApiData {
+  dimension: string; // Dimension ID, e.g. minecraft:the_nether
+  name: string; // Display name, e.g. Nether
+  totalSeconds: number;
+  percentage: number; // Share of the player's dimension time, rounded
+}
+
+/**
+ * Response for GET /api/players/:id/playtime
+ */
+export interface GetPlayerPlaytimeResponse {
+  success: true;
+  data: {
+    range: PlaytimeRangeApiData;
+    totalSeconds: number;
+    servers: {
+      serverId: number;
+      serverName: string;
+      totalSeconds: number;
+    }[];
+    buckets: PlaytimeBucketApiData[];
+    dimensions: PlayerDimensionPlaytimeApiData[]; // Over the days of the range
+  };
+}
+
+/**
+ * Single play session as returned by the API
+ */
+export interface PlayerSessionApiData {
+  id: number;
+  serverId: number;
+  serverName: string;
+  sessionStart: string; // ISO 8601 timestamp
+  sessionEnd: string | null; // null while the session is active
+  secondsPlayed: number | null; // null while the session is active
+}
+
+/**
+ * Response for GET /api/players/:id/sessions
+ */
+export interface GetPlayerSessionsResponse {
+  success: true;
+  data: {
+    sessions: PlayerSessionApiData[];
+    pagination: PaginationMeta;
+  };
+}
+
+/**
+ * Response for GET /api/servers/:id/activity
+ */
+export interface GetServerActivityResponse {
+  success: true;
+  data: {
+    serverId: number;
+    range: PlaytimeRangeApiData;
+    totalSeconds: number;
+    buckets: PlaytimeBucketApiData[];
+    topPlayers: {
+      minecraftUsername: string;
+      totalSeconds: number;
+    }[];
+  };
+}
+
+/**
+ * Online players within one day or hour of the requested range
+ *
+ * Buckets without samples are included with a null average.
+ */
+export interface ServerHistoryBucketApiData {
+  start: string; // YYYY-MM-DD (day) or ISO 8601 timestamp (hour)
+  avgPlayers: number | null; // Rounded to one decimal
+  peakPlayers: number;
+  peakAt: string | null; // ISO 8601 timestamp
+}
+
+/**
+ * Highest number of players online at once
+ */
+export interface ServerPeakApiData {
+  peakPlayers: number;
+  peakAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * Response for GET /api/servers/:id/history
+ */
+export interface GetServerHistoryResponse {
+  success: true;
+  data: {
+    serverId: number;
+    range: PlaytimeRangeApiData;
+    buckets: ServerHistoryBucketApiData[];
+    peak: ServerPeakApiData | null; // Within the range
+    allTimePeak: ServerPeakApiData | null;
+  };
+}
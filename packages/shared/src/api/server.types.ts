@@ -11,7 +11,8 @@ export interface PlayerInfo {
   uuid: string;
   username: string;
   sessionStart: string; // ISO 8601 timestamp
-  secondsPlayed: number;
+  secondsPlayed: number; // Active time, AFK time excluded
+  isAfk: boolean;
   metadata?: PlayerMetadata;
 }
 
@@ -44,6 +45,8 @@ export interface ServerStatus {
   status: "online" | "offline" | "unknown";
   playerCount: number;
   players: PlayerInfo[];
+  tps: number | null; // From the latest mod heartbeat
+  lastHeartbeat: string | null; // ISO 8601 timestamp
   lastChecked: string; // ISO 8601 timestamp
 }
 
@@ -0,0 +1,86 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of company table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface CompanyRow {
+  id: number;
+  name: string;
+  description: string | null;
+  owner_minecraft_uuid: string;
+  balance: bigint;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of CompanyRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type Company = CamelCaseKeys<CompanyRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface CompanyApiData {
+  id: number;
+  name: string;
+  description: string | null;
+  ownerMinecraftUuid: string;
+  balance: bigint;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Data required to create a new company record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface CompanyCreate {
+  name: string;
+  ownerMinecraftUuid: string;
+  id?: number;
+  description?: string | null;
+  balance?: bigint;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Valid identifiers for querying company
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type CompanyIdentifier = { id: number };
+
+/**
+ * Type-safe filters for querying company
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type CompanyFilters = {
+  [K in keyof Company]?: FilterValue<Company[K]>;
+};
@@ -0,0 +1,80 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of company_member table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface CompanyMemberRow {
+  company_id: number;
+  player_minecraft_uuid: string;
+  role: string;
+  salary: bigint;
+  joined_at: Date;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of CompanyMemberRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type CompanyMember = CamelCaseKeys<CompanyMemberRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface CompanyMemberApiData {
+  companyId: number;
+  playerMinecraftUuid: string;
+  role: string;
+  salary: bigint;
+  joinedAt: string;
+}
+
+/**
+ * Data required to create a new company_member record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface CompanyMemberCreate {
+  companyId?: number;
+  playerMinecraftUuid?: string;
+  role?: string;
+  salary?: bigint;
+  joinedAt?: Date;
+}
+
+/**
+ * Valid identifiers for querying company_member
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type CompanyMemberIdentifier = { companyId: number; playerMinecraftUuid: string };
+
+/**
+ * Type-safe filters for querying company_member
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type CompanyMemberFilters = {
+  [K in keyof CompanyMember]?: FilterValue<CompanyMember[K]>;
+};
@@ -0,0 +1,98 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of economy_invoice table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface EconomyInvoiceRow {
+  id: number;
+  issuer_minecraft_uuid: string;
+  payer_minecraft_uuid: string;
+  amount: bigint;
+  note: string | null;
+  status: string;
+  discord_channel_id: string | null;
+  discord_message_id: string | null;
+  created_at: Date;
+  expires_at: Date;
+  resolved_at: Date | null;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of EconomyInvoiceRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type EconomyInvoice = CamelCaseKeys<EconomyInvoiceRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface EconomyInvoiceApiData {
+  id: number;
+  issuerMinecraftUuid: string;
+  payerMinecraftUuid: string;
+  amount: bigint;
+  note: string | null;
+  status: string;
+  discordChannelId: string | null;
+  discordMessageId: string | null;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
+
+/**
+ * Data required to create a new economy_invoice record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface EconomyInvoiceCreate {
+  issuerMinecraftUuid: string;
+  payerMinecraftUuid: string;
+  amount: bigint;
+  expiresAt: Date;
+  id?: number;
+  note?: string | null;
+  status?: string;
+  discordChannelId?: string | null;
+  discordMessageId?: string | null;
+  createdAt?: Date;
+  resolvedAt?: Date | null;
+}
+
+/**
+ * Valid identifiers for querying economy_invoice
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type EconomyInvoiceIdentifier = { id: number };
+
+/**
+ * Type-safe filters for querying economy_invoice
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type EconomyInvoiceFilters = {
+  [K in keyof EconomyInvoice]?: FilterValue<EconomyInvoice[K]>;
+};
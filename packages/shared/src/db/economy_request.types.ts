@@ -0,0 +1,89 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of economy_request table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface EconomyRequestRow {
+  idempotency_key: string;
+  operation: string;
+  player_minecraft_uuid: string;
+  request_fingerprint: string;
+  status: string;
+  response: Record<string, any> | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of EconomyRequestRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type EconomyRequest = CamelCaseKeys<EconomyRequestRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface EconomyRequestApiData {
+  idempotencyKey: string;
+  operation: string;
+  playerMinecraftUuid: string;
+  requestFingerprint: string;
+  status: string;
+  response: Record<string, any> | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * Data required to create a new economy_request record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface EconomyRequestCreate {
+  operation: string;
+  playerMinecraftUuid: string;
+  requestFingerprint: string;
+  idempotencyKey?: string;
+  status?: string;
+  response?: Record<string, any> | null;
+  createdAt?: Date;
+  completedAt?: Date | null;
+}
+
+/**
+ * Valid identifiers for querying economy_request
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type EconomyRequestIdentifier = { idempotencyKey: string };
+
+/**
+ * Type-safe filters for querying economy_request
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type EconomyRequestFilters = {
+  [K in keyof EconomyRequest]?: FilterValue<EconomyRequest[K]>;
+};
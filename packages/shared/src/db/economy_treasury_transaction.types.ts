@@ -0,0 +1,95 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of economy_treasury_transaction table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface EconomyTreasuryTransactionRow {
+  id: number;
+  treasury_id: string;
+  amount: bigint;
+  balance_before: bigint;
+  balance_after: bigint;
+  transaction_type: string;
+  description: string | null;
+  related_player_uuid: string | null;
+  metadata: Record<string, any>;
+  created_at: Date;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of EconomyTreasuryTransactionRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type EconomyTreasuryTransaction = CamelCaseKeys<EconomyTreasuryTransactionRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface EconomyTreasuryTransactionApiData {
+  id: number;
+  treasuryId: string;
+  amount: bigint;
+  balanceBefore: bigint;
+  balanceAfter: bigint;
+  transactionType: string;
+  description: string | null;
+  relatedPlayerUuid: string | null;
+  metadata: Record<string, any>;
+  createdAt: string;
+}
+
+/**
+ * Data required to create a new economy_treasury_transaction record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface EconomyTreasuryTransactionCreate {
+  treasuryId: string;
+  amount: bigint;
+  balanceBefore: bigint;
+  balanceAfter: bigint;
+  transactionType: string;
+  id?: number;
+  description?: string | null;
+  relatedPlayerUuid?: string | null;
+  metadata?: Record<string, any>;
+  createdAt?: Date;
+}
+
+/**
+ * Valid identifiers for querying economy_treasury_transaction
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type EconomyTreasuryTransactionIdentifier = { id: number };
+
+/**
+ * Type-safe filters for querying economy_treasury_transaction
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type EconomyTreasuryTransactionFilters = {
+  [K in keyof EconomyTreasuryTransaction]?: FilterValue<EconomyTreasuryTransaction[K]>;
+};
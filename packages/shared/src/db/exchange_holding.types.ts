@@ -0,0 +1,80 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of exchange_holding table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface ExchangeHoldingRow {
+  player_minecraft_uuid: string;
+  asset_symbol: string;
+  quantity: number;
+  cost_basis: bigint;
+  updated_at: Date;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of ExchangeHoldingRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type ExchangeHolding = CamelCaseKeys<ExchangeHoldingRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface ExchangeHoldingApiData {
+  playerMinecraftUuid: string;
+  assetSymbol: string;
+  quantity: number;
+  costBasis: bigint;
+  updatedAt: string;
+}
+
+/**
+ * Data required to create a new exchange_holding record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface ExchangeHoldingCreate {
+  quantity: number;
+  playerMinecraftUuid?: string;
+  assetSymbol?: string;
+  costBasis?: bigint;
+  updatedAt?: Date;
+}
+
+/**
+ * Valid identifiers for querying exchange_holding
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type ExchangeHoldingIdentifier = { playerMinecraftUuid: string; assetSymbol: string };
+
+/**
+ * Type-safe filters for querying exchange_holding
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type ExchangeHoldingFilters = {
+  [K in keyof ExchangeHolding]?: FilterValue<ExchangeHolding[K]>;
+};
@@ -11,18 +11,40 @@ export * from "./base.types";
 // Generated table types
 export * from "./admin.types";
 export * from "./admin_log_action.types";
+export * from "./company.types";
+export * from "./company_member.types";
+export * from "./company_transaction.types";
 export * from "./discord_guild_member_join.types";
 export * from "./discord_guild_member_leave.types";
+export * from "./economy_invoice.types";
+export * from "./economy_request.types";
+export * from "./economy_treasury.types";
+export * from "./economy_treasury_transaction.types";
+export * from "./exchange_asset.types";
+export * from "./exchange_holding.types";
+export * from "./exchange_price.types";
+export * from "./exchange_trade.types";
 export * from "./leaderboard_message.types";
+export * from "./market_listing.types";
+export * from "./market_purchase.types";
+export * from "./market_request.types";
 export * from "./player.types";
 export * from "./player_balance.types";
 export * from "./player_balance_transaction.types";
 export * from "./player_playtime_daily.types";
+export * from "./player_playtime_dimension_daily.types";
 export * from "./player_playtime_hourly.types";
 export * from "./player_playtime_summary.types";
 export * from "./player_session.types";
+export * from "./player_session_afk.types";
+export * from "./player_session_dimension.types";
+export * from "./player_session_flag.types";
+export * from "./playtime_recap.types";
 export * from "./reward_claim.types";
 export * from "./server.types";
+export * from "./server_online_hourly.types";
+export * from "./server_online_sample.types";
 export * from "./ticket.types";
 export * from "./ticket_action.types";
+export * from "./trade_offer.types";
 export * from "./waitlist_entry.types";
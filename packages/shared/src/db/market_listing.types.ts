@@ -0,0 +1,98 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of market_listing table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface MarketListingRow {
+  id: number;
+  seller_minecraft_uuid: string;
+  item_name: string;
+  item_id: string | null;
+  description: string | null;
+  quantity: number;
+  unit_price: bigint;
+  status: string;
+  created_at: Date;
+  updated_at: Date;
+  cancelled_by_discord_id: string | null;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of MarketListingRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type MarketListing = CamelCaseKeys<MarketListingRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface MarketListingApiData {
+  id: number;
+  sellerMinecraftUuid: string;
+  itemName: string;
+  itemId: string | null;
+  description: string | null;
+  quantity: number;
+  unitPrice: bigint;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+  cancelledByDiscordId: string | null;
+}
+
+/**
+ * Data required to create a new market_listing record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface MarketListingCreate {
+  sellerMinecraftUuid: string;
+  itemName: string;
+  quantity: number;
+  unitPrice: bigint;
+  id?: number;
+  itemId?: string | null;
+  description?: string | null;
+  status?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  cancelledByDiscordId?: string | null;
+}
+
+/**
+ * Valid identifiers for querying market_listing
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type MarketListingIdentifier = { id: number };
+
+/**
+ * Type-safe filters for querying market_listing
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type MarketListingFilters = {
+  [K in keyof MarketListing]?: FilterValue<MarketListing[K]>;
+};
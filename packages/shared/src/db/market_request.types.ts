@@ -0,0 +1,107 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of market_request table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface MarketRequestRow {
+  id: number;
+  requester_minecraft_uuid: string;
+  item_name: string;
+  item_id: string | null;
+  description: string | null;
+  quantity: number;
+  bounty: bigint;
+  status: string;
+  fulfiller_minecraft_uuid: string | null;
+  discord_message_id: string | null;
+  created_at: Date;
+  expires_at: Date;
+  claimed_at: Date | null;
+  resolved_at: Date | null;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of MarketRequestRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type MarketRequest = CamelCaseKeys<MarketRequestRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface MarketRequestApiData {
+  id: number;
+  requesterMinecraftUuid: string;
+  itemName: string;
+  itemId: string | null;
+  description: string | null;
+  quantity: number;
+  bounty: bigint;
+  status: string;
+  fulfillerMinecraftUuid: string | null;
+  discordMessageId: string | null;
+  createdAt: string;
+  expiresAt: string;
+  claimedAt: string | null;
+  resolvedAt: string | null;
+}
+
+/**
+ * Data required to create a new market_request record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface MarketRequestCreate {
+  requesterMinecraftUuid: string;
+  itemName: string;
+  quantity: number;
+  bounty: bigint;
+  expiresAt: Date;
+  id?: number;
+  itemId?: string | null;
+  description?: string | null;
+  status?: string;
+  fulfillerMinecraftUuid?: string | null;
+  discordMessageId?: string | null;
+  createdAt?: Date;
+  claimedAt?: Date | null;
+  resolvedAt?: Date | null;
+}
+
+/**
+ * Valid identifiers for querying market_request
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type MarketRequestIdentifier = { id: number };
+
+/**
+ * Type-safe filters for querying market_request
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type MarketRequestFilters = {
+  [K in keyof MarketRequest]?: FilterValue<MarketRequest[K]>;
+};
@@ -14,6 +14,7 @@ export interface PlayerBalanceRow {
   minecraft_uuid: string;
   balance: bigint;
   updated_at: Date;
+  hide_from_leaderboard: boolean;
 }
 
 /**
@@ -36,6 +37,7 @@ export interface PlayerBalanceApiData {
   minecraftUuid: string;
   balance: bigint;
   updatedAt: string;
+  hideFromLeaderboard: boolean;
 }
 
 /**
@@ -49,6 +51,7 @@ export interface PlayerBalanceCreate {
   minecraftUuid?: string;
   balance?: bigint;
   updatedAt?: Date;
+  hideFromLeaderboard?: boolean;
 }
 
 /**
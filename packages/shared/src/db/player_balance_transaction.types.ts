@@ -21,6 +21,7 @@ export interface PlayerBalanceTransactionRow {
   related_player_uuid: string | null;
   metadata: Record<string, any> | null;
   created_at: Date;
+  reversed_transaction_id: number | null;
 }
 
 /**
@@ -50,6 +51,7 @@ export interface PlayerBalanceTransactionApiData {
   relatedPlayerUuid: string | null;
   metadata: Record<string, any> | null;
   createdAt: string;
+  reversedTransactionId: number | null;
 }
 
 /**
@@ -70,6 +72,7 @@ export interface PlayerBalanceTransactionCreate {
   relatedPlayerUuid?: string | null;
   metadata?: Record<string, any> | null;
   createdAt?: Date;
+  reversedTransactionId?: number | null;
 }
 
 /**
@@ -79,7 +82,7 @@ export interface PlayerBalanceTransactionCreate {
  * Includes primary key combinations and individual unique column identifiers.
  * Use this type when fetching, updating, or deleting specific records.
  */
-export type PlayerBalanceTransactionIdentifier = { id: number };
+export type PlayerBalanceTransactionIdentifier = { id: number } | { reversedTransactionId: number };
 
 /**
  * Type-safe filters for querying player_balance_transaction
@@ -16,6 +16,7 @@ export interface PlayerSessionRow {
   server_id: number;
   session_start: Date;
   session_end: Date | null;
+  afk_seconds: bigint;
   seconds_played: bigint | null;
 }
 
@@ -41,6 +42,7 @@ export interface PlayerSessionApiData {
   serverId: number;
   sessionStart: string;
   sessionEnd: string | null;
+  afkSeconds: bigint;
   secondsPlayed: bigint | null;
 }
 
@@ -57,6 +59,7 @@ export interface PlayerSessionCreate {
   sessionStart: Date;
   id?: number;
   sessionEnd?: Date | null;
+  afkSeconds?: bigint;
   secondsPlayed?: bigint | null;
 }
 
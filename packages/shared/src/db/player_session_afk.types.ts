@@ -0,0 +1,77 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of player_session_afk table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface PlayerSessionAfkRow {
+  id: number;
+  session_id: number;
+  afk_start: Date;
+  afk_end: Date;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of PlayerSessionAfkRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type PlayerSessionAfk = CamelCaseKeys<PlayerSessionAfkRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface PlayerSessionAfkApiData {
+  id: number;
+  sessionId: number;
+  afkStart: string;
+  afkEnd: string;
+}
+
+/**
+ * Data required to create a new player_session_afk record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface PlayerSessionAfkCreate {
+  sessionId: number;
+  afkStart: Date;
+  afkEnd: Date;
+  id?: number;
+}
+
+/**
+ * Valid identifiers for querying player_session_afk
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type PlayerSessionAfkIdentifier = { id: number };
+
+/**
+ * Type-safe filters for querying player_session_afk
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type PlayerSessionAfkFilters = {
+  [K in keyof PlayerSessionAfk]?: FilterValue<PlayerSessionAfk[K]>;
+};
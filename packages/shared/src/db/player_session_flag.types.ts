@@ -0,0 +1,92 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of player_session_flag table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface PlayerSessionFlagRow {
+  id: number;
+  session_id: number;
+  reason: string;
+  related_session_id: number | null;
+  flagged_at: Date;
+  resolved_at: Date | null;
+  resolved_by_discord_id: string | null;
+  resolution: string | null;
+  discord_message_id: string | null;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of PlayerSessionFlagRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type PlayerSessionFlag = CamelCaseKeys<PlayerSessionFlagRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface PlayerSessionFlagApiData {
+  id: number;
+  sessionId: number;
+  reason: string;
+  relatedSessionId: number | null;
+  flaggedAt: string;
+  resolvedAt: string | null;
+  resolvedByDiscordId: string | null;
+  resolution: string | null;
+  discordMessageId: string | null;
+}
+
+/**
+ * Data required to create a new player_session_flag record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface PlayerSessionFlagCreate {
+  sessionId: number;
+  reason: string;
+  id?: number;
+  relatedSessionId?: number | null;
+  flaggedAt?: Date;
+  resolvedAt?: Date | null;
+  resolvedByDiscordId?: string | null;
+  resolution?: string | null;
+  discordMessageId?: string | null;
+}
+
+/**
+ * Valid identifiers for querying player_session_flag
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type PlayerSessionFlagIdentifier = { id: number } | { sessionId: number } | { reason: string };
+
+/**
+ * Type-safe filters for querying player_session_flag
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type PlayerSessionFlagFilters = {
+  [K in keyof PlayerSessionFlag]?: FilterValue<PlayerSessionFlag[K]>;
+};
@@ -0,0 +1,95 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of playtime_recap table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface PlaytimeRecapRow {
+  id: number;
+  kind: string;
+  period_start: Date;
+  period_end: Date;
+  total_seconds: bigint;
+  previous_total_seconds: bigint;
+  entries: Record<string, any>;
+  prizes: Record<string, any>;
+  discord_message_id: string | null;
+  created_at: Date;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of PlaytimeRecapRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type PlaytimeRecap = CamelCaseKeys<PlaytimeRecapRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface PlaytimeRecapApiData {
+  id: number;
+  kind: string;
+  periodStart: string;
+  periodEnd: string;
+  totalSeconds: bigint;
+  previousTotalSeconds: bigint;
+  entries: Record<string, any>;
+  prizes: Record<string, any>;
+  discordMessageId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Data required to create a new playtime_recap record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface PlaytimeRecapCreate {
+  kind: string;
+  periodStart: Date;
+  periodEnd: Date;
+  id?: number;
+  totalSeconds?: bigint;
+  previousTotalSeconds?: bigint;
+  entries?: Record<string, any>;
+  prizes?: Record<string, any>;
+  discordMessageId?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Valid identifiers for querying playtime_recap
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type PlaytimeRecapIdentifier = { id: number } | { kind: string } | { periodStart: Date };
+
+/**
+ * Type-safe filters for querying playtime_recap
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type PlaytimeRecapFilters = {
+  [K in keyof PlaytimeRecap]?: FilterValue<PlaytimeRecap[K]>;
+};
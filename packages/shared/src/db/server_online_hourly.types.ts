@@ -0,0 +1,83 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of server_online_hourly table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface ServerOnlineHourlyRow {
+  server_id: number;
+  sample_hour: Date;
+  sample_count: number;
+  player_count_sum: bigint;
+  peak_players: number;
+  peak_at: Date;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of ServerOnlineHourlyRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type ServerOnlineHourly = CamelCaseKeys<ServerOnlineHourlyRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface ServerOnlineHourlyApiData {
+  serverId: number;
+  sampleHour: string;
+  sampleCount: number;
+  playerCountSum: bigint;
+  peakPlayers: number;
+  peakAt: string;
+}
+
+/**
+ * Data required to create a new server_online_hourly record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface ServerOnlineHourlyCreate {
+  peakAt: Date;
+  serverId?: number;
+  sampleHour?: Date;
+  sampleCount?: number;
+  playerCountSum?: bigint;
+  peakPlayers?: number;
+}
+
+/**
+ * Valid identifiers for querying server_online_hourly
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type ServerOnlineHourlyIdentifier = { serverId: number; sampleHour: Date };
+
+/**
+ * Type-safe filters for querying server_online_hourly
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type ServerOnlineHourlyFilters = {
+  [K in keyof ServerOnlineHourly]?: FilterValue<ServerOnlineHourly[K]>;
+};
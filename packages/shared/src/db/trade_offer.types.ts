@@ -0,0 +1,92 @@
+import { CamelCaseKeys } from "../";
+
+/**
+ * Database representation of trade_offer table
+ * 
+ * Raw database row with snake_case field names matching the PostgreSQL schema.
+ * Use this type when working directly with database query results before
+ * transformation to application entities.
+ * 
+ * Auto-generated from database schema
+ * DO NOT EDIT MANUALLY - regenerate with: npm run generate
+ */
+export interface TradeOfferRow {
+  id: number;
+  sender_minecraft_uuid: string;
+  recipient_minecraft_uuid: string;
+  amount: bigint;
+  note: string | null;
+  status: string;
+  created_at: Date;
+  expires_at: Date;
+  resolved_at: Date | null;
+}
+
+/**
+ * Application representation with camelCase field names
+ * 
+ * Transformed version of TradeOfferRow with camelCase property names for
+ * idiomatic TypeScript code. Use this type in application logic, business
+ * rules, and internal processing.
+ */
+export type TradeOffer = CamelCaseKeys<TradeOfferRow>;
+
+/**
+ * API representation with dates as ISO strings
+ * 
+ * Optimized for JSON serialization with Date fields converted to ISO string
+ * format. Use this type for API responses, client-side data, and anywhere
+ * JSON serialization occurs (Date objects don't serialize well to JSON).
+ */
+export interface TradeOfferApiData {
+  id: number;
+  senderMinecraftUuid: string;
+  recipientMinecraftUuid: string;
+  amount: bigint;
+  note: string | null;
+  status: string;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
+
+/**
+ * Data required to create a new trade_offer record
+ * 
+ * Defines which fields are required vs optional when inserting a new row.
+ * Fields with defaults, auto-generated values (e.g., id, timestamps), or
+ * nullable columns are marked optional.
+ */
+export interface TradeOfferCreate {
+  senderMinecraftUuid: string;
+  recipientMinecraftUuid: string;
+  amount: bigint;
+  expiresAt: Date;
+  id?: number;
+  note?: string | null;
+  status?: string;
+  createdAt?: Date;
+  resolvedAt?: Date | null;
+}
+
+/**
+ * Valid identifiers for querying trade_offer
+ * 
+ * Union type of all valid ways to uniquely identify a row in this table.
+ * Includes primary key combinations and individual unique column identifiers.
+ * Use this type when fetching, updating, or deleting specific records.
+ */
+export type TradeOfferIdentifier = { id: number };
+
+/**
+ * Type-safe filters for querying trade_offer
+ * 
+ * Allows filtering on any field with support for comparison operators,
+ * pattern matching, and null checks. Each field accepts FilterValue<T>
+ * which includes direct values and operator objects.
+ */
+import type { FilterValue } from "./base.types";
+
+export type TradeOfferFilters = {
+  [K in keyof TradeOffer]?: FilterValue<TradeOffer[K]>;
+};
@@ -20,6 +20,7 @@ export enum SocketEvent {
   UPDATE_SERVER_STATUS = "update:server:status",
   UPDATE_PLAYERS = "update:players",
   UPDATE_MESSAGE = "update:message",
+  UPDATE_EXCHANGE_PRICES = "update:exchange:prices",
 
   // Acknowledgments
   SUBSCRIBED = "subscribed",
@@ -33,6 +34,7 @@ export enum SubscriptionType {
   SERVER_STATUS = "server:status",
   PLAYERS = "players",
   MESSAGES = "messages",
+  EXCHANGE = "exchange",
   ALL = "all",
 }
 
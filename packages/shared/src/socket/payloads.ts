@@ -78,6 +78,24 @@ export interface MessageUpdatePayload {
   timestamp: Date | string;
 }
 
+/**
+ * Price of a single exchange asset at a tick
+ * Prices are decimal strings with 3 decimal places (e.g. "12.500")
+ */
+export interface ExchangePriceTick {
+  symbol: string;
+  price: string;
+  previousPrice: string;
+}
+
+/**
+ * Exchange price update payload, sent once per price tick
+ */
+export interface ExchangePricesUpdatePayload {
+  prices: ExchangePriceTick[];
+  timestamp: Date | string;
+}
+
 /**
  * Subscription request from client
  */